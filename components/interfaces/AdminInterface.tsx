@@ -5,13 +5,15 @@ import {
   AlertTriangle, CheckCircle, TrendingUp, Eye, Edit, Trash2,
   Plus, Search, Download, Wifi, Lock, Building, CreditCard, Gavel,
   Filter, Scale, BookOpen, Briefcase, GraduationCap, Building2, Star,
-  X, Save, Ban, RefreshCw, Mail
+  X, Save, Ban, RefreshCw, Mail, LogOut, Percent
 } from 'lucide-react';
 import OrganizationManagement from './admin/OrganizationManagement';
 import SubscriptionManagement from './admin/SubscriptionManagement';
 import JurisprudenceValidationPanel from '../jurisprudence/JurisprudenceValidationPanel';
 import AdminPaymentsPanel from '../../src/components/billing/AdminPaymentsPanel';
+import TaxRulesPanel from '../../src/components/billing/TaxRulesPanel';
 import Modal from '../../src/components/common/Modal';
+import { sessionService } from '../../src/services/sessionService';
 
 interface AdminInterfaceProps {
   user: EnhancedUserProfile;
@@ -48,7 +50,7 @@ const PLAN_CONFIG: Record<string, { label: string; color: string }> = {
   cabinet: { label: 'Cabinet', color: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
 };
 
-type AdminTab = 'overview' | 'organizations' | 'subscriptions' | 'payments' | 'jurisprudence';
+type AdminTab = 'overview' | 'organizations' | 'subscriptions' | 'payments' | 'taxes' | 'jurisprudence';
 
 interface EditForm {
   firstName: string; lastName: string; profession: string;
@@ -80,6 +82,7 @@ const AdminInterface: React.FC<AdminInterfaceProps> = ({ user, language, theme =
   const [showForcePassword, setShowForcePassword] = useState(false);
   const [newPassword, setNewPassword] = useState('');
   const [forcePasswordLoading, setForcePasswordLoading] = useState(false);
+  const [forceLogoutLoading, setForceLogoutLoading] = useState(false);
 
   const showToast = (msg: string, type: 'success' | 'error' = 'success') => {
     setToast({ msg, type });
@@ -136,6 +139,19 @@ const AdminInterface: React.FC<AdminInterfaceProps> = ({ user, language, theme =
     } finally { setForcePasswordLoading(false); }
   };
 
+  const handleForceLogout = async () => {
+    if (!selectedUser) return;
+    const reason = prompt('Deconnecter ' + selectedUser.email + ' de tous ses appareils. Motif :');
+    if (reason === null) return;
+    setForceLogoutLoading(true);
+    try {
+      const revoked = await sessionService.revokeAllUserSessions(selectedUser.id, reason.trim() || undefined);
+      showToast(revoked + ' session(s) fermee(s)');
+    } catch (e: any) {
+      showToast(e.message || 'Erreur', 'error');
+    } finally { setForceLogoutLoading(false); }
+  };
+
   const handleResetPassword = async (email: string) => {
     if (!confirm('Envoyer un email de reinitialisation a ' + email + ' ?')) return;
     setResetLoading(true);
@@ -287,6 +303,7 @@ const AdminInterface: React.FC<AdminInterfaceProps> = ({ user, language, theme =
               <button onClick={() => setActiveTab('organizations')} className={tabClass('organizations')}><Building size={16} className="inline mr-2" />Organisations</button>
               <button onClick={() => setActiveTab('subscriptions')} className={tabClass('subscriptions')}><CreditCard size={16} className="inline mr-2" />Abonnements</button>
               <button onClick={() => setActiveTab('payments')} className={tabClass('payments')}><CreditCard size={16} className="inline mr-2" />Paiements</button>
+              <button onClick={() => setActiveTab('taxes')} className={tabClass('taxes')}><Percent size={16} className="inline mr-2" />Fiscalité</button>
               <button onClick={() => setActiveTab('jurisprudence')} className={tabClass('jurisprudence')}><Gavel size={16} className="inline mr-2" />Jurisprudence</button>
             </div>
           </div>
@@ -485,6 +502,7 @@ const AdminInterface: React.FC<AdminInterfaceProps> = ({ user, language, theme =
           {activeTab === 'organizations' && <OrganizationManagement language={language} theme={theme} />}
           {activeTab === 'subscriptions' && <SubscriptionManagement language={language} theme={theme} />}
           {activeTab === 'payments' && <AdminPaymentsPanel language={language} />}
+          {activeTab === 'taxes' && <TaxRulesPanel language={language} />}
           {activeTab === 'jurisprudence' && <JurisprudenceValidationPanel adminId={user.id} language={language} theme={theme} />}
 
         </div>
@@ -520,6 +538,12 @@ const AdminInterface: React.FC<AdminInterfaceProps> = ({ user, language, theme =
                 </div>
               ))}
             </div>
+            <div className="px-6 pb-3">
+              <button onClick={handleForceLogout} disabled={forceLogoutLoading}
+                className="w-full py-2.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-xl font-bold hover:bg-red-100 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+                {forceLogoutLoading ? <RefreshCw size={15} className="animate-spin" /> : <LogOut size={15} />}Deconnecter toutes les sessions
+              </button>
+            </div>
             <div className="p-6 pt-0 flex gap-3">
               <button onClick={() => { closeModal(); openModal(selectedUser, 'edit'); }}
                 className="flex-1 py-2.5 bg-amber-500 text-white rounded-xl font-bold hover:bg-amber-600 transition-colors flex items-center justify-center gap-2">
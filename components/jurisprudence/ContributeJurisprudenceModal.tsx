@@ -2,7 +2,7 @@ import React, { useState, useRef } from 'react';
 import { X, Gavel, Plus, Trash2, Send, AlertCircle, CheckCircle, Upload, Scan, Loader2, FileText, Eye } from 'lucide-react';
 import { Language } from '../../types';
 import { jurisprudenceService, ContributionPayload, PrecedentValue } from '../../services/jurisprudenceService';
-import { performOcr, extractFieldsFromText } from '../../services/ocrService';
+import { performOcr, extractFieldsFromText, OcrProgress } from '../../services/ocrService';
 
 interface Props {
   userId: string;
@@ -52,6 +52,7 @@ const ContributeJurisprudenceModal: React.FC<Props> = ({
 
   // OCR state
   const [ocrLoading, setOcrLoading] = useState(false);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
   const [ocrResult, setOcrResult] = useState<{ text: string; language: string; confidence: number; pages?: number } | null>(null);
   const [showOcrText, setShowOcrText] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -97,9 +98,10 @@ const ContributeJurisprudenceModal: React.FC<Props> = ({
     }
 
     setOcrLoading(true);
+    setOcrProgress(null);
     setError(null);
     try {
-      const result = await performOcr(file);
+      const result = await performOcr(file, setOcrProgress);
       setOcrResult(result);
 
       // Auto-fill form fields from extracted text
@@ -217,6 +219,7 @@ const ContributeJurisprudenceModal: React.FC<Props> = ({
               <p className={`text-sm font-bold ${isDark ? 'text-slate-200' : 'text-slate-700'}`}>
                 {ocrLoading
                   ? (isAr ? 'جاري التعرف الضوئي على النص...' : 'Reconnaissance de texte en cours...')
+                    + (ocrProgress?.pageCount ? ` ${ocrProgress.processedPages} / ${ocrProgress.pageCount}` : '')
                   : (isAr ? 'مسح ضوئي لوثيقة (OCR)' : 'Scanner un document (OCR)')}
               </p>
               <p className={`text-xs mt-0.5 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
@@ -238,7 +241,8 @@ const ContributeJurisprudenceModal: React.FC<Props> = ({
                 <span>
                   {isAr ? 'تم الاستخراج' : 'Extraction réussie'} —{' '}
                   {ocrResult.pages} {isAr ? 'صفحة' : 'page(s)'},{' '}
-                  {isAr ? 'لغة' : 'langue'}: {ocrResult.language === 'mixed' ? 'AR+FR' : ocrResult.language.toUpperCase()}
+                  {isAr ? 'لغة' : 'langue'}: {ocrResult.language === 'mixed' ? 'AR+FR' : ocrResult.language.toUpperCase()},{' '}
+                  {isAr ? 'الدقة' : 'confiance'}: {Math.round(ocrResult.confidence)}%
                 </span>
               </div>
               <button
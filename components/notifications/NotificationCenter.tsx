@@ -133,7 +133,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ userId, languag
 
   const handleNotificationClick = (notification: Notification) => {
     // Mark as read
-    if (notification.id.startsWith('deadline_') || notification.id.startsWith('invoice_') || notification.id.startsWith('reminder_')) {
+    if (['deadline_', 'invoice_', 'reminder_', 'notif_', 'report_'].some(prefix => notification.id.startsWith(prefix))) {
       liveNotifs.markAsRead(notification.id);
     } else {
       markAsRead(notification.id);
@@ -0,0 +1,11 @@
+-- =====================================================
+-- CALENDRIER - Import iCalendar (.ics)
+-- Conserve l'UID d'origine des événements importés
+-- pour éviter les doublons en cas de réimport
+-- À exécuter si la table calendar_events existe déjà
+-- =====================================================
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS external_uid TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_external_uid
+  ON calendar_events(user_id, external_uid) WHERE external_uid IS NOT NULL;
@@ -0,0 +1,12 @@
+-- =====================================================
+-- LEGAL DEADLINES - Chaînes de délais
+-- Rattache un délai à l'événement de dossier qui l'a déclenché
+-- (jugement, signification) et au délai dont il découle
+-- À exécuter si la table legal_deadlines existe déjà
+-- =====================================================
+
+ALTER TABLE legal_deadlines ADD COLUMN IF NOT EXISTS trigger_event_id UUID;
+ALTER TABLE legal_deadlines ADD COLUMN IF NOT EXISTS parent_deadline_id UUID REFERENCES legal_deadlines(id) ON DELETE SET NULL;
+ALTER TABLE legal_deadlines ADD COLUMN IF NOT EXISTS is_provisional BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_trigger_event ON legal_deadlines(trigger_event_id);
@@ -0,0 +1,10 @@
+-- =====================================================
+-- LEGAL DEADLINES - Référentiel des délais de procédure
+-- Trace la règle (et sa version) ayant servi au calcul
+-- À exécuter si la table legal_deadlines existe déjà
+-- =====================================================
+
+ALTER TABLE legal_deadlines ADD COLUMN IF NOT EXISTS rule_code TEXT;
+ALTER TABLE legal_deadlines ADD COLUMN IF NOT EXISTS rules_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_rule_code ON legal_deadlines(rule_code);
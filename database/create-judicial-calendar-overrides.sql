@@ -0,0 +1,25 @@
+-- =====================================================
+-- JUDICIAL CALENDAR OVERRIDES - Idempotent
+-- Dates officielles des fêtes religieuses (annonce du ministère
+-- des Affaires religieuses), qui remplacent le calcul hégirien
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS judicial_calendar_overrides (
+  year INTEGER NOT NULL,
+  code TEXT NOT NULL
+    CHECK (code IN ('awal_muharram','achoura','mawlid','aid_el_fitr','aid_el_adha')),
+  date DATE NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (year, code)
+);
+
+ALTER TABLE judicial_calendar_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone authenticated can read calendar overrides" ON judicial_calendar_overrides;
+CREATE POLICY "Anyone authenticated can read calendar overrides"
+  ON judicial_calendar_overrides FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+GRANT SELECT ON judicial_calendar_overrides TO authenticated;
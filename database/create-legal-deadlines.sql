@@ -20,6 +20,11 @@ CREATE TABLE legal_deadlines (
   deadline_date DATE NOT NULL,
   days_total INTEGER NOT NULL DEFAULT 30,
   legal_reference TEXT,
+  rule_code TEXT,        -- Code de la règle du référentiel des délais
+  rules_version TEXT,    -- Version du référentiel utilisée pour le calcul
+  trigger_event_id UUID, -- Événement de dossier à l'origine du délai (chaîne de délais)
+  parent_deadline_id UUID REFERENCES legal_deadlines(id) ON DELETE SET NULL,
+  is_provisional BOOLEAN DEFAULT FALSE,
   notes TEXT,
   priority TEXT NOT NULL DEFAULT 'medium'
     CHECK (priority IN ('low','medium','high','critical')),
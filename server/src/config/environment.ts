@@ -25,6 +25,11 @@ const envSchema = Joi.object({
   // CORS
   CORS_ALLOWED_ORIGINS: Joi.string().default('http://localhost:5173'),
   
+  // WebAuthn (passkeys as a second factor)
+  WEBAUTHN_RP_ID: Joi.string().default('localhost'),
+  WEBAUTHN_RP_NAME: Joi.string().default('JuristDZ'),
+  WEBAUTHN_ORIGINS: Joi.string().optional(),
+  
   // File Storage
   UPLOAD_MAX_SIZE: Joi.number().default(10485760), // 10MB
   UPLOAD_ALLOWED_TYPES: Joi.string().default('pdf,doc,docx,txt'),
@@ -34,6 +39,17 @@ const envSchema = Joi.object({
   SMTP_PORT: Joi.number().default(587),
   SMTP_USER: Joi.string().required(),
   SMTP_PASS: Joi.string().required(),
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_FROM: Joi.string().default('JuristDZ <no-reply@juristdz.dz>'),
+
+  // SMS (passerelle HTTP)
+  SMS_GATEWAY_URL: Joi.string().uri().allow('').optional(),
+  SMS_GATEWAY_API_KEY: Joi.string().allow('').optional(),
+  SMS_GATEWAY_SENDER: Joi.string().default('JuristDZ'),
+
+  // Notification delivery: live transports, or the local mailbox sink
+  NOTIFICATION_TRANSPORT: Joi.string().valid('live', 'sink').optional(),
+  NOTIFICATION_SINK_PATH: Joi.string().default('./storage/outbox'),
   
   // Encryption
   ENCRYPTION_KEY: Joi.string().length(32).required(),
@@ -77,6 +93,12 @@ export const config = {
   cors: {
     allowedOrigins: envVars.CORS_ALLOWED_ORIGINS.split(',')
   },
+  webauthn: {
+    rpId: envVars.WEBAUTHN_RP_ID as string,
+    rpName: envVars.WEBAUTHN_RP_NAME as string,
+    // Origines autorisées à présenter une passkey : par défaut, celles du CORS
+    origins: ((envVars.WEBAUTHN_ORIGINS || envVars.CORS_ALLOWED_ORIGINS) as string).split(',')
+  },
   upload: {
     maxSize: envVars.UPLOAD_MAX_SIZE,
     allowedTypes: envVars.UPLOAD_ALLOWED_TYPES.split(',')
@@ -85,7 +107,18 @@ export const config = {
     host: envVars.SMTP_HOST,
     port: envVars.SMTP_PORT,
     user: envVars.SMTP_USER,
-    pass: envVars.SMTP_PASS
+    pass: envVars.SMTP_PASS,
+    secure: envVars.SMTP_SECURE,
+    from: envVars.SMTP_FROM
+  },
+  sms: {
+    gatewayUrl: (envVars.SMS_GATEWAY_URL || undefined) as string | undefined,
+    apiKey: (envVars.SMS_GATEWAY_API_KEY || undefined) as string | undefined,
+    sender: envVars.SMS_GATEWAY_SENDER
+  },
+  notifications: {
+    transport: (envVars.NOTIFICATION_TRANSPORT || (envVars.NODE_ENV === 'production' ? 'live' : 'sink')) as 'live' | 'sink',
+    sinkPath: envVars.NOTIFICATION_SINK_PATH
   },
   encryption: {
     key: envVars.ENCRYPTION_KEY
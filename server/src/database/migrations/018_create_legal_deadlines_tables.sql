@@ -0,0 +1,73 @@
+-- Migration 018: Délais légaux et chaînes de délais liées aux événements de dossier
+-- Un jugement enregistré sur un dossier ouvre une chaîne de délais
+-- (signification → recours → exécution) recalculée si la date de base est corrigée.
+
+-- Nouvel événement : signification du jugement
+ALTER TABLE case_events DROP CONSTRAINT IF EXISTS case_events_event_type_check;
+ALTER TABLE case_events ADD CONSTRAINT case_events_event_type_check CHECK (event_type IN (
+  'hearing', 'deadline', 'filing', 'meeting', 'call', 'email',
+  'payment', 'settlement', 'judgment', 'signification', 'appeal', 'other'
+));
+
+-- Chaîne ouverte par un jugement
+CREATE TABLE IF NOT EXISTS deadline_chains (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  judgment_event_id UUID NOT NULL REFERENCES case_events(id) ON DELETE CASCADE,
+  signification_event_id UUID REFERENCES case_events(id) ON DELETE SET NULL,
+  procedure VARCHAR(20) NOT NULL CHECK (procedure IN ('civil', 'administratif', 'penal')),
+  judgment_kind VARCHAR(20) NOT NULL CHECK (judgment_kind IN ('contradictoire', 'defaut', 'arret')),
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(judgment_event_id)
+);
+
+-- Délais légaux (même structure que la table Supabase, plus le chaînage)
+CREATE TABLE IF NOT EXISTS legal_deadlines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES cases(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  title_ar TEXT,
+  description TEXT,
+  category VARCHAR(20) NOT NULL DEFAULT 'custom' CHECK (category IN (
+    'appel', 'cassation', 'opposition', 'prescription', 'signification',
+    'execution', 'administratif', 'penal', 'custom'
+  )),
+  base_date DATE NOT NULL,
+  deadline_date DATE NOT NULL,
+  days_total INTEGER NOT NULL DEFAULT 30,
+  legal_reference TEXT,
+  rule_code VARCHAR(50),
+  rules_version VARCHAR(20),
+  notes TEXT,
+  priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+
+  -- Chaînage
+  chain_id UUID REFERENCES deadline_chains(id) ON DELETE CASCADE,
+  chain_step VARCHAR(20),
+  trigger_event_id UUID REFERENCES case_events(id) ON DELETE SET NULL,
+  parent_deadline_id UUID REFERENCES legal_deadlines(id) ON DELETE SET NULL,
+  is_provisional BOOLEAN DEFAULT false,
+
+  is_completed BOOLEAN DEFAULT false,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(chain_id, chain_step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_user_id ON legal_deadlines(user_id);
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_case_id ON legal_deadlines(case_id);
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_deadline_date ON legal_deadlines(deadline_date);
+CREATE INDEX IF NOT EXISTS idx_legal_deadlines_trigger_event ON legal_deadlines(trigger_event_id);
+CREATE INDEX IF NOT EXISTS idx_deadline_chains_case_id ON deadline_chains(case_id);
+
+CREATE TRIGGER update_deadline_chains_updated_at BEFORE UPDATE ON deadline_chains
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_legal_deadlines_updated_at BEFORE UPDATE ON legal_deadlines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,61 @@
+-- Migration 019: Flux iCalendar (abonnement .ics) et import de calendriers
+-- Les agendas (audiences, rappels) sont partagés avec le frontend ; les tables
+-- ne sont créées que si elles n'existent pas déjà dans la base.
+
+CREATE TABLE IF NOT EXISTS calendar_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  event_type VARCHAR(50) NOT NULL DEFAULT 'other' CHECK (event_type IN (
+    'hearing', 'meeting', 'deadline', 'consultation', 'other'
+  )),
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  all_day BOOLEAN DEFAULT false,
+  location VARCHAR(300),
+  location_type VARCHAR(50),
+  reminder_minutes INTEGER CHECK (reminder_minutes IS NULL OR reminder_minutes > 0),
+  is_recurring BOOLEAN DEFAULT false,
+  recurrence_rule VARCHAR(100),
+  event_status VARCHAR(50) DEFAULT 'scheduled' CHECK (event_status IN (
+    'scheduled', 'completed', 'cancelled', 'rescheduled'
+  )),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  case_id UUID,
+  title TEXT NOT NULL,
+  description TEXT,
+  reminder_date DATE NOT NULL,
+  reminder_time TIME,
+  is_completed BOOLEAN DEFAULT false,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- UID d'origine des événements importés (évite les doublons en cas de réimport)
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS external_uid TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_external_uid
+  ON calendar_events(user_id, external_uid) WHERE external_uid IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_user_start ON calendar_events(user_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_reminders_user_date ON reminders(user_id, reminder_date);
+
+-- Jeton d'abonnement au flux .ics : un seul par utilisateur, stocké haché
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TIMESTAMP WITH TIME ZONE
+);
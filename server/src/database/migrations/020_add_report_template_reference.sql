@@ -0,0 +1,8 @@
+-- Migration 020: Modèle de mise en page des rapports
+-- Un rapport peut être généré à partir d'un modèle (sections, styles, en-têtes) ;
+-- le modèle est relu à chaque export.
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES report_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_template ON reports(template_id);
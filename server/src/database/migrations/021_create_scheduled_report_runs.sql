@@ -0,0 +1,44 @@
+-- Migration 021: Exécution et diffusion des rapports planifiés
+-- Chaque échéance d'un rapport planifié donne lieu à une exécution (génération
+-- puis envoi par e-mail ou notification), relancée en cas d'échec.
+
+ALTER TABLE scheduled_reports
+  ADD COLUMN IF NOT EXISTS format VARCHAR(20) CHECK (format IN ('pdf', 'excel', 'csv', 'json', 'html')),
+  ADD COLUMN IF NOT EXISTS delivery_channel VARCHAR(20) NOT NULL DEFAULT 'email'
+    CHECK (delivery_channel IN ('email', 'in_app')),
+  ADD COLUMN IF NOT EXISTS parameters JSONB DEFAULT '{}';
+
+-- Historique des exécutions
+CREATE TABLE IF NOT EXISTS scheduled_report_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_report_id UUID NOT NULL REFERENCES scheduled_reports(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN (
+    'running', 'succeeded', 'retrying', 'failed'
+  )),
+  scheduled_for TIMESTAMP NOT NULL,
+  period_from TIMESTAMP NOT NULL,
+  period_to TIMESTAMP NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_retry_at TIMESTAMP,
+  recipients_notified INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Une seule exécution par échéance
+  UNIQUE(scheduled_report_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_report_runs_schedule ON scheduled_report_runs(scheduled_report_id, scheduled_for DESC);
+CREATE INDEX IF NOT EXISTS idx_scheduled_report_runs_retry ON scheduled_report_runs(next_retry_at) WHERE status = 'retrying';
+
+-- Nouveau type de notification : diffusion d'un rapport
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_type_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_type_check CHECK (type IN (
+  'deadline_reminder', 'hearing_reminder', 'case_update', 'document_shared',
+  'payment_due', 'task_assigned', 'system_alert', 'report_delivery', 'custom'
+));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON scheduled_report_runs TO app_user;
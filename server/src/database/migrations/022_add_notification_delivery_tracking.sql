@@ -0,0 +1,11 @@
+-- Migration 022: Suivi de l'acheminement des notifications
+-- Transport utilisé (smtp, http_sms, sink), identifiant attribué par le
+-- fournisseur et date du rejet définitif (bounce) le cas échéant.
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS transport VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS external_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_bounced ON notifications(bounced_at) WHERE bounced_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_failed ON notifications(updated_at DESC) WHERE status = 'failed';
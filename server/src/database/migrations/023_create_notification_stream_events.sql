@@ -0,0 +1,15 @@
+-- Migration 023: Journal des événements temps réel (SSE)
+-- Chaque événement poussé à un utilisateur reçoit un identifiant croissant ;
+-- à la reconnexion, le client transmet Last-Event-ID et reçoit les événements
+-- manqués. Les entrées de plus de 7 jours sont purgées par le serveur.
+
+CREATE TABLE IF NOT EXISTS notification_stream_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL CHECK (event_type IN ('notification', 'deadline_alert', 'report_ready')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_stream_events_user ON notification_stream_events(user_id, id);
+CREATE INDEX IF NOT EXISTS idx_notification_stream_events_created ON notification_stream_events(created_at);
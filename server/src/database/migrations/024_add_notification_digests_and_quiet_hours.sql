@@ -0,0 +1,36 @@
+-- Migration 024: Récapitulatifs de notifications et heures de silence
+-- Réglage par utilisateur : envoi immédiat, récapitulatif horaire ou quotidien
+-- à l'heure choisie, plage de silence et week-end (vendredi, samedi) silencieux.
+-- Les notifications retenues portent l'heure du récapitulatif (digest_at) puis
+-- l'identifiant du récapitulatif qui les a envoyées (digest_id).
+
+CREATE TABLE IF NOT EXISTS notification_delivery_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  digest_mode VARCHAR(20) NOT NULL DEFAULT 'immediate' CHECK (digest_mode IN ('immediate', 'hourly', 'daily')),
+  digest_time TIME NOT NULL DEFAULT '08:00',
+  timezone VARCHAR(50) NOT NULL DEFAULT 'Africa/Algiers',
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  quiet_on_weekend BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+-- Plusieurs récapitulatifs horaires par jour
+ALTER TABLE notification_digests DROP CONSTRAINT IF EXISTS notification_digests_digest_type_check;
+ALTER TABLE notification_digests DROP CONSTRAINT IF EXISTS notification_digests_user_id_digest_type_digest_date_key;
+ALTER TABLE notification_digests
+  ADD CONSTRAINT notification_digests_digest_type_check CHECK (digest_type IN ('hourly', 'daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS period_start TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS period_end TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS external_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS digest_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES notification_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_digest_due ON notifications(digest_at)
+  WHERE status = 'pending' AND digest_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_digest ON notifications(digest_id) WHERE digest_id IS NOT NULL;
@@ -0,0 +1,59 @@
+-- Migration 025: Certificats des notaires et signature réelle des copies conformes
+-- Une autorité de certification locale (tenant lieu du prestataire de confiance
+-- national) émet un certificat X.509 ECDSA P-256 à chaque notaire. Les clés
+-- privées sont chiffrées (PKCS#8) par la clé de chiffrement du serveur.
+
+CREATE TABLE IF NOT EXISTS autorites_certification (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  nom VARCHAR(255) NOT NULL,
+  certificat_pem TEXT NOT NULL,
+  cle_privee_chiffree TEXT NOT NULL,
+  numero_serie VARCHAR(64) NOT NULL UNIQUE,
+  empreinte_sha256 VARCHAR(64) NOT NULL,
+  valide_du TIMESTAMP WITH TIME ZONE NOT NULL,
+  valide_au TIMESTAMP WITH TIME ZONE NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Une seule autorité active
+CREATE UNIQUE INDEX IF NOT EXISTS idx_autorites_certification_active
+  ON autorites_certification(active) WHERE active = true;
+
+CREATE TABLE IF NOT EXISTS certificats_notaire (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  notaire_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  autorite_id UUID NOT NULL REFERENCES autorites_certification(id),
+  numero_serie VARCHAR(64) NOT NULL UNIQUE,
+  titulaire VARCHAR(255) NOT NULL,
+  emetteur VARCHAR(255) NOT NULL,
+  certificat_pem TEXT NOT NULL,
+  cle_privee_chiffree TEXT NOT NULL,
+  empreinte_sha256 VARCHAR(64) NOT NULL,
+  valide_du TIMESTAMP WITH TIME ZONE NOT NULL,
+  valide_au TIMESTAMP WITH TIME ZONE NOT NULL,
+  statut VARCHAR(20) NOT NULL DEFAULT 'actif' CHECK (statut IN ('actif', 'expire', 'revoque')),
+  date_revocation TIMESTAMP WITH TIME ZONE,
+  motif_revocation TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Un seul certificat actif par notaire
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificats_notaire_actif
+  ON certificats_notaire(notaire_id) WHERE statut = 'actif';
+
+-- Signatures et cachets rattachés au certificat qui les a produits
+ALTER TABLE signatures_notaire
+  ADD COLUMN IF NOT EXISTS certificat_id UUID REFERENCES certificats_notaire(id),
+  ADD COLUMN IF NOT EXISTS algorithme VARCHAR(30),
+  ADD COLUMN IF NOT EXISTS hash_signe VARCHAR(64);
+
+ALTER TABLE cachets_notariaux
+  ADD COLUMN IF NOT EXISTS certificat_id UUID REFERENCES certificats_notaire(id);
+
+CREATE INDEX IF NOT EXISTS idx_signatures_notaire_copie ON signatures_notaire(copie_id);
+CREATE INDEX IF NOT EXISTS idx_cachets_notariaux_copie ON cachets_notariaux(copie_id);
+CREATE INDEX IF NOT EXISTS idx_copies_conformes_numero ON copies_conformes(numero_copie);
+
+COMMENT ON TABLE certificats_notaire IS 'Certificats X.509 des notaires émis par l''autorité de certification locale';
+COMMENT ON COLUMN signatures_notaire.signature_numerique IS 'Signature ECDSA (base64, IEEE P1363) sur l''empreinte SHA-256 de la copie';
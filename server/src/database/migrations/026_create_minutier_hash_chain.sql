@@ -0,0 +1,54 @@
+-- Migration 026: Chaîne d'empreintes du minutier et du répertoire
+-- Registre en ajout seul par notaire : chaque entrée s'engage sur l'entrée
+-- précédente, sur les numéros de minutier et de répertoire et sur l'empreinte
+-- de l'acte. Des points de contrôle quotidiens signés figent la tête de chaîne.
+
+CREATE TABLE IF NOT EXISTS registre_minutier (
+  id BIGSERIAL PRIMARY KEY,
+  notaire_id UUID NOT NULL REFERENCES users(id),
+  sequence BIGINT NOT NULL,
+  type_evenement VARCHAR(20) NOT NULL CHECK (type_evenement IN ('reprise', 'inscription', 'modification', 'archivage')),
+  -- Sans clé étrangère : la disparition d'un acte doit rester détectable
+  acte_id UUID NOT NULL,
+  numero_minutier VARCHAR(50) NOT NULL,
+  numero_repertoire VARCHAR(50) NOT NULL,
+  hash_acte VARCHAR(64) NOT NULL,
+  horodatage TIMESTAMP WITH TIME ZONE NOT NULL,
+  hash_precedent VARCHAR(64) NOT NULL,
+  hash_entree VARCHAR(64) NOT NULL,
+  UNIQUE(notaire_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_registre_minutier_acte ON registre_minutier(acte_id);
+
+CREATE TABLE IF NOT EXISTS points_controle_minutier (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  notaire_id UUID NOT NULL REFERENCES users(id),
+  date_point DATE NOT NULL,
+  sequence BIGINT NOT NULL,
+  hash_tete VARCHAR(64) NOT NULL,
+  signature TEXT NOT NULL,
+  certificat_id UUID REFERENCES certificats_notaire(id),
+  certificat_pem TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(notaire_id, date_point)
+);
+
+-- Ni modification ni suppression par l'application
+CREATE OR REPLACE FUNCTION refuser_modification_registre()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Le registre % est en ajout seul', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER registre_minutier_ajout_seul
+  BEFORE UPDATE OR DELETE ON registre_minutier
+  FOR EACH ROW EXECUTE FUNCTION refuser_modification_registre();
+
+CREATE TRIGGER points_controle_minutier_ajout_seul
+  BEFORE UPDATE OR DELETE ON points_controle_minutier
+  FOR EACH ROW EXECUTE FUNCTION refuser_modification_registre();
+
+COMMENT ON TABLE registre_minutier IS 'Chaîne d''empreintes en ajout seul du minutier et du répertoire';
+COMMENT ON TABLE points_controle_minutier IS 'Têtes de chaîne quotidiennes signées avec le certificat du notaire';
@@ -0,0 +1,35 @@
+-- Migration 027: Travaux d'OCR locaux
+-- File d'attente des reconnaissances de texte sur les pièces jointes et
+-- résultats page par page avec leur indice de confiance.
+
+CREATE TABLE IF NOT EXISTS ocr_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES document_attachments(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  languages VARCHAR(50) NOT NULL DEFAULT 'ara+fra',
+  page_count INTEGER,
+  processed_pages INTEGER NOT NULL DEFAULT 0,
+  confidence NUMERIC(5,2),
+  detected_language VARCHAR(10) CHECK (detected_language IN ('fr', 'ar', 'mixed')),
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS ocr_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES ocr_jobs(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  text TEXT NOT NULL DEFAULT '',
+  confidence NUMERIC(5,2) NOT NULL DEFAULT 0,
+  language VARCHAR(10) NOT NULL CHECK (language IN ('fr', 'ar', 'mixed')),
+  word_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(job_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_status ON ocr_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_attachment ON ocr_jobs(attachment_id);
@@ -0,0 +1,22 @@
+-- Migration 028: Index plein texte des pièces jointes
+-- Texte extrait des PDF, DOCX, fichiers texte ou résultats d'OCR, normalisé
+-- (variantes d'alif et de hamza, tashkeel) et indexé avec la configuration
+-- française pour la racinisation.
+
+CREATE TABLE IF NOT EXISTS attachment_text_index (
+  attachment_id UUID PRIMARY KEY REFERENCES document_attachments(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'indexed', 'unsupported', 'failed')),
+  extraction_method VARCHAR(20) CHECK (extraction_method IN ('pdf', 'docx', 'text', 'ocr')),
+  language VARCHAR(10) CHECK (language IN ('fr', 'ar', 'mixed')),
+  content TEXT NOT NULL DEFAULT '',
+  search_vector TSVECTOR,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  indexed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_text_index_vector ON attachment_text_index USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_attachment_text_index_document ON attachment_text_index(document_id);
+CREATE INDEX IF NOT EXISTS idx_attachment_text_index_status ON attachment_text_index(status);
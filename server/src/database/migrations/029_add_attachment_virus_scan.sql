@@ -0,0 +1,21 @@
+-- Migration 029: Analyse antivirus et quarantaine des pièces jointes
+-- Chaque pièce jointe porte le verdict de sa dernière analyse. Elle n'est
+-- téléchargeable qu'une fois saine ('clean') ou libérée par un administrateur
+-- après examen ('released'). Les pièces existantes restent en attente et sont
+-- analysées à leur prochain téléchargement.
+
+ALTER TABLE document_attachments
+  ADD COLUMN IF NOT EXISTS scan_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (scan_status IN ('pending', 'clean', 'quarantined', 'released')),
+  ADD COLUMN IF NOT EXISTS scan_threats TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS scan_engine VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS scan_error TEXT,
+  ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+-- File d'examen des administrateurs
+CREATE INDEX IF NOT EXISTS idx_document_attachments_scan_review
+  ON document_attachments(scan_status, uploaded_at)
+  WHERE scan_status IN ('pending', 'quarantined');
@@ -0,0 +1,23 @@
+-- Migration 030: Vignettes et aperçus des pièces jointes
+-- Vignette (première page ou image réduite) et aperçus basse résolution des
+-- premières pages, générés sur le fichier en clair puis chiffrés comme
+-- l'original.
+
+CREATE TABLE IF NOT EXISTS attachment_previews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES document_attachments(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('thumbnail', 'page')),
+  page_number INTEGER NOT NULL CHECK (page_number >= 1),
+  file_path TEXT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL DEFAULT 'image/jpeg',
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  file_size INTEGER NOT NULL,
+  is_encrypted BOOLEAN NOT NULL DEFAULT false,
+  encryption_key_id UUID,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(attachment_id, kind, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_previews_attachment ON attachment_previews(attachment_id);
@@ -0,0 +1,69 @@
+-- Migration 031: Hiérarchie de clés de chiffrement et réenveloppement
+-- La clé maître (KMS local ou fichier de clé) enveloppe les clés des tenants,
+-- qui enveloppent les clés des fichiers et des enregistrements. Après une
+-- rotation, un travail de fond réenveloppe les clés de fichiers et les
+-- enregistrements chiffrés avec la nouvelle clé du tenant puis vérifie
+-- chacun d'eux.
+
+-- Clés de tenant enveloppées par la clé maître
+ALTER TABLE tenant_encryption_keys
+  ADD COLUMN IF NOT EXISTS wrapped_key BYTEA,
+  ADD COLUMN IF NOT EXISTS master_key_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS rotated_from VARCHAR(255);
+
+-- L'ancienne contrainte n'admettait qu'une seule clé inactive par tenant
+ALTER TABLE tenant_encryption_keys DROP CONSTRAINT IF EXISTS unique_active_tenant_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_keys_single_active
+  ON tenant_encryption_keys(tenant_id) WHERE is_active = true;
+
+-- Clés de fichiers enveloppées par la clé du tenant du document : son
+-- organisation, ou son propriétaire pour un avocat exerçant seul. Les
+-- colonnes encrypted_key et iv ne servent plus qu'aux clés antérieures,
+-- reprises par le premier réenveloppement de chaque tenant.
+ALTER TABLE encryption_keys
+  ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS tenant_key_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS wrapped_key JSONB,
+  ADD COLUMN IF NOT EXISTS rewrapped_at TIMESTAMP;
+
+-- Tenant des clés antérieures, déduit des pièces jointes et aperçus qu'elles
+-- chiffrent (même identifiant que tenantIdForOrganization). Une clé que
+-- plus rien ne référence reste sans tenant et n'est jamais réenveloppée.
+UPDATE encryption_keys ek
+SET tenant_id = SUBSTRING(ENCODE(SHA256(CONVERT_TO(COALESCE(d.organization_id, d.owner_id)::text, 'UTF8')), 'hex') FROM 1 FOR 16)
+FROM document_attachments da
+JOIN documents d ON d.id = da.document_id
+WHERE ek.tenant_id IS NULL
+  AND (da.encryption_key_id = ek.id
+    OR EXISTS (
+      SELECT 1 FROM attachment_previews ap
+      WHERE ap.attachment_id = da.id AND ap.encryption_key_id = ek.id
+    ));
+
+ALTER TABLE encryption_keys ALTER COLUMN encrypted_key DROP NOT NULL;
+ALTER TABLE encryption_keys ALTER COLUMN iv DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_encryption_keys_tenant_key ON encryption_keys(tenant_id, tenant_key_id);
+
+-- Travaux de réenveloppement
+CREATE TABLE IF NOT EXISTS key_rewrap_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR(255) NOT NULL,
+  from_key_id VARCHAR(255),
+  to_key_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'rewrapping', 'verifying', 'completed', 'failed')),
+  total_keys INTEGER NOT NULL DEFAULT 0,
+  rewrapped_keys INTEGER NOT NULL DEFAULT 0,
+  verified_keys INTEGER NOT NULL DEFAULT 0,
+  failed_keys INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  requested_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_rewrap_jobs_pending ON key_rewrap_jobs(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_key_rewrap_jobs_tenant ON key_rewrap_jobs(tenant_id, created_at DESC);
@@ -0,0 +1,47 @@
+-- Migration 032: Codes de secours et passkeys pour l'authentification à deux facteurs
+-- Codes de secours à usage unique (hachés), passkeys WebAuthn comme second
+-- facteur à côté du TOTP, et défis WebAuthn en attente de réponse.
+
+-- Le TOTP n'est actif qu'une fois vérifié ; mfa_enabled couvre désormais TOTP et passkeys
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_totp_verified_at TIMESTAMP;
+
+UPDATE users
+SET mfa_totp_verified_at = CURRENT_TIMESTAMP
+WHERE mfa_enabled = true AND mfa_secret IS NOT NULL AND mfa_totp_verified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_unused ON mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Identifiant de la passkey (base64url), fourni par l'authentificateur
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key BYTEA NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[] NOT NULL DEFAULT '{}',
+  device_type VARCHAR(20),
+  backed_up BOOLEAN NOT NULL DEFAULT false,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user ON webauthn_credentials(user_id);
+
+-- Un défi en cours par utilisateur et par cérémonie
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('registration', 'authentication')),
+  challenge TEXT NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+
+  PRIMARY KEY (user_id, purpose)
+);
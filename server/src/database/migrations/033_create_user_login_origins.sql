@@ -0,0 +1,19 @@
+-- Migration 033: Appareils et réseaux connus de chaque utilisateur
+-- Conservés après la fin des sessions, pour signaler une connexion depuis un
+-- nouvel appareil ou un nouvel endroit.
+
+CREATE TABLE IF NOT EXISTS user_login_origins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Navigateur, système et type d'appareil, sans version (voir utils/deviceInfo)
+  device_key VARCHAR(64) NOT NULL,
+  device_label VARCHAR(100) NOT NULL,
+  -- /24 en IPv4, /48 en IPv6 ; 'unknown' sans adresse exploitable
+  network VARCHAR(64) NOT NULL,
+  first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT unique_user_login_origin UNIQUE (user_id, device_key, network)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_activity ON user_sessions(user_id, last_activity_at DESC);
@@ -0,0 +1,40 @@
+-- Migration 034: Facturation des temps passés
+-- Lignes détaillées des factures, et rattachement des temps et frais du
+-- dossier à la facture qui les a repris. La suppression d'une facture
+-- brouillon rend les temps et frais à nouveau facturables.
+
+CREATE TABLE IF NOT EXISTS billing_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES billing_invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  line_type VARCHAR(20) NOT NULL CHECK (line_type IN (
+    'time', 'fee_adjustment', 'expense', 'provision'
+  )),
+  -- Type d'activité des temps regroupés sur la ligne (lignes 'time')
+  activity_type VARCHAR(50),
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(15,2) NOT NULL DEFAULT 0,
+  amount DECIMAL(15,2) NOT NULL,
+  -- Débours et provisions ne sont pas soumis à la TVA
+  is_taxable BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT unique_invoice_line_position UNIQUE (invoice_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_invoice_lines_invoice ON billing_invoice_lines(invoice_id);
+
+-- Statut d'origine conservé pour être rétabli si la facture brouillon est supprimée
+ALTER TABLE case_time_entries
+  ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES billing_invoices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_before_billing VARCHAR(20);
+
+ALTER TABLE case_expenses
+  ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES billing_invoices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_before_billing VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_case_time_entries_unbilled
+  ON case_time_entries(case_id, start_time) WHERE invoice_id IS NULL AND is_billable = true;
+CREATE INDEX IF NOT EXISTS idx_case_expenses_unbilled
+  ON case_expenses(case_id, expense_date) WHERE invoice_id IS NULL;
@@ -0,0 +1,83 @@
+-- Migration 035: Compte de provisions des clients
+-- Provisions reçues, imputations sur factures et restitutions, par client et
+-- par dossier. Chaque opération est passée en partie double : ses écritures
+-- doivent s'équilibrer, et ni les opérations ni les écritures ne se modifient.
+
+CREATE TABLE IF NOT EXISTS provision_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id),
+  -- NULL pour une provision générale du client
+  case_id UUID REFERENCES cases(id),
+  transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('deposit', 'drawdown', 'refund')),
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  invoice_id UUID REFERENCES billing_invoices(id),
+  payment_method VARCHAR(20) CHECK (payment_method IN (
+    'cash', 'check', 'bank_transfer', 'credit_card', 'mobile_payment', 'other'
+  )),
+  reference VARCHAR(100),
+  description TEXT,
+  transaction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Seules les imputations portent une facture
+  CONSTRAINT provision_drawdown_invoice CHECK ((transaction_type = 'drawdown') = (invoice_id IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS provision_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES provision_transactions(id),
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'trust_bank', 'client_provision', 'operating_bank', 'accounts_receivable'
+  )),
+  client_id UUID NOT NULL REFERENCES clients(id),
+  case_id UUID REFERENCES cases(id),
+  debit DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT provision_entry_one_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_provision_transactions_client ON provision_transactions(client_id, transaction_date, created_at);
+CREATE INDEX IF NOT EXISTS idx_provision_transactions_invoice ON provision_transactions(invoice_id) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_provision_ledger_entries_transaction ON provision_ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_provision_ledger_entries_account ON provision_ledger_entries(client_id, account, case_id);
+
+-- Vérifiée en fin de transaction, une fois toutes les écritures passées
+CREATE OR REPLACE FUNCTION verifier_equilibre_provision()
+RETURNS TRIGGER AS $$
+DECLARE
+    ecart DECIMAL(15,2);
+BEGIN
+    SELECT COALESCE(SUM(debit), 0) - COALESCE(SUM(credit), 0) INTO ecart
+    FROM provision_ledger_entries
+    WHERE transaction_id = NEW.transaction_id;
+
+    IF ecart <> 0 THEN
+        RAISE EXCEPTION 'Opération de provision % déséquilibrée (écart %)', NEW.transaction_id, ecart;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER provision_ledger_entries_equilibre
+  AFTER INSERT ON provision_ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION verifier_equilibre_provision();
+
+-- Une erreur se corrige par une nouvelle opération, jamais en réécrivant le grand livre
+CREATE OR REPLACE FUNCTION refuser_modification_provision()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Le compte de provisions (%) est en ajout seul', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER provision_transactions_ajout_seul
+  BEFORE UPDATE OR DELETE ON provision_transactions
+  FOR EACH ROW EXECUTE FUNCTION refuser_modification_provision();
+
+CREATE TRIGGER provision_ledger_entries_ajout_seul
+  BEFORE UPDATE OR DELETE ON provision_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION refuser_modification_provision();
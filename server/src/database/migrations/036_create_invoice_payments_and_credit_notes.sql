@@ -0,0 +1,106 @@
+-- Migration 036: Encaissements multiples, avoirs et relances par ancienneté
+-- Une facture peut être réglée en plusieurs fois (chèque, virement CCP,
+-- BaridiMob, espèces ou imputation sur provision) et réduite par des avoirs
+-- numérotés en continu par avocat et par année. Les relances envoyées sont gardées par
+-- tranche d'ancienneté pour n'en envoyer qu'une par tranche.
+
+ALTER TABLE billing_invoices DROP CONSTRAINT IF EXISTS billing_invoices_payment_method_check;
+ALTER TABLE billing_invoices ADD CONSTRAINT billing_invoices_payment_method_check CHECK (payment_method IN (
+  'cash', 'check', 'ccp_transfer', 'baridimob', 'bank_transfer', 'credit_card', 'mobile_payment', 'other'
+));
+
+ALTER TABLE provision_transactions DROP CONSTRAINT IF EXISTS provision_transactions_payment_method_check;
+ALTER TABLE provision_transactions ADD CONSTRAINT provision_transactions_payment_method_check CHECK (payment_method IN (
+  'cash', 'check', 'ccp_transfer', 'baridimob', 'bank_transfer', 'credit_card', 'mobile_payment', 'other'
+));
+
+ALTER TABLE billing_invoices ADD COLUMN IF NOT EXISTS credited_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES billing_invoices(id),
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(20) CHECK (payment_method IN (
+    'cash', 'check', 'ccp_transfer', 'baridimob', 'bank_transfer', 'credit_card', 'mobile_payment', 'other'
+  )),
+  -- Imputation sur la provision du client (migration 035)
+  provision_transaction_id UUID UNIQUE REFERENCES provision_transactions(id),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference VARCHAR(100),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT invoice_payment_source CHECK ((payment_method IS NULL) <> (provision_transaction_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id, payment_date);
+
+-- Reprise de l'historique : imputations sur provision, puis le reste déjà encaissé en un seul règlement
+INSERT INTO invoice_payments (invoice_id, amount, provision_transaction_id, payment_date, created_by)
+SELECT invoice_id, amount, id, transaction_date, created_by
+FROM provision_transactions
+WHERE transaction_type = 'drawdown'
+ON CONFLICT (provision_transaction_id) DO NOTHING;
+
+INSERT INTO invoice_payments (invoice_id, amount, payment_method, payment_date, reference, notes, created_by)
+SELECT bi.id, bi.paid_amount - COALESCE(p.total, 0), COALESCE(bi.payment_method, 'other'),
+       COALESCE(bi.payment_date, bi.updated_at::date), bi.payment_reference,
+       'Reprise du montant encaissé avant le suivi des règlements', bi.lawyer_id
+FROM billing_invoices bi
+LEFT JOIN (SELECT invoice_id, SUM(amount) AS total FROM invoice_payments GROUP BY invoice_id) p ON p.invoice_id = bi.id
+WHERE bi.paid_amount > COALESCE(p.total, 0);
+
+-- Dernier numéro attribué par avocat et par année, comme les factures ; la
+-- ligne reste verrouillée jusqu'à la fin de la transaction, ce qui garde la
+-- numérotation sans trou
+CREATE TABLE IF NOT EXISTS credit_note_sequences (
+  lawyer_id UUID NOT NULL REFERENCES users(id),
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL,
+  PRIMARY KEY (lawyer_id, year)
+);
+
+CREATE TABLE IF NOT EXISTS billing_credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number VARCHAR(30) NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES billing_invoices(id),
+  client_id UUID NOT NULL,
+  case_id UUID NOT NULL REFERENCES cases(id),
+  lawyer_id UUID NOT NULL REFERENCES users(id),
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0 AND tax_amount <= amount),
+  reason TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT unique_credit_note_number UNIQUE (lawyer_id, credit_note_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON billing_credit_notes(invoice_id, issue_date);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_client ON billing_credit_notes(client_id);
+
+-- Un avoir émis ne se modifie pas ; une erreur se corrige par une nouvelle facture
+CREATE OR REPLACE FUNCTION refuser_modification_avoir()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'L''avoir % est émis et ne peut plus être modifié', OLD.credit_note_number;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER billing_credit_notes_immuables
+  BEFORE UPDATE OR DELETE ON billing_credit_notes
+  FOR EACH ROW EXECUTE FUNCTION refuser_modification_avoir();
+
+CREATE TABLE IF NOT EXISTS invoice_payment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES billing_invoices(id) ON DELETE CASCADE,
+  bucket VARCHAR(10) NOT NULL CHECK (bucket IN ('0-30', '31-60', '61-90', '90+')),
+  days_overdue INTEGER NOT NULL,
+  outstanding_amount DECIMAL(15,2) NOT NULL,
+  notification_id UUID,
+  sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(invoice_id, bucket)
+);
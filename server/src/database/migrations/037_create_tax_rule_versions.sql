@@ -0,0 +1,72 @@
+-- Migration 037: Versions des règles fiscales et taxes appliquées aux factures
+-- Une règle de tax_configurations est une version datée : un nouveau taux de
+-- loi de finances s'ajoute comme nouvelle version et clôt la précédente. Une
+-- version entrée en vigueur ne change plus, et chaque facture garde les
+-- versions appliquées pour être réimprimée à l'identique.
+
+-- Les montants fixes (droit de timbre) ne tiennent pas dans DECIMAL(5,4)
+ALTER TABLE tax_configurations ALTER COLUMN rate TYPE DECIMAL(15,4);
+ALTER TABLE tax_configurations ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS idx_tax_configurations_lookup
+  ON tax_configurations(profession, tax_type, applicable_from);
+
+-- Seule la date de fin d'une version en vigueur peut encore changer (nouvelle
+-- version programmée ou annulée) ; elle ne peut plus être supprimée
+CREATE OR REPLACE FUNCTION proteger_regle_fiscale_en_vigueur()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.applicable_from > CURRENT_DATE THEN
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' OR
+       (NEW.profession, NEW.tax_type, NEW.rate, NEW.is_percentage, NEW.minimum_amount,
+        NEW.maximum_amount, NEW.exemption_threshold, NEW.applicable_from, NEW.legal_reference)
+       IS DISTINCT FROM
+       (OLD.profession, OLD.tax_type, OLD.rate, OLD.is_percentage, OLD.minimum_amount,
+        OLD.maximum_amount, OLD.exemption_threshold, OLD.applicable_from, OLD.legal_reference)
+    THEN
+        RAISE EXCEPTION 'La règle fiscale % est en vigueur depuis le % : programmer une nouvelle version',
+          OLD.tax_type, OLD.applicable_from;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tax_configurations_versions_figees
+  BEFORE UPDATE OR DELETE ON tax_configurations
+  FOR EACH ROW EXECUTE FUNCTION proteger_regle_fiscale_en_vigueur();
+
+-- Taxes de la facture, recopiées de la version appliquée
+CREATE TABLE IF NOT EXISTS billing_invoice_taxes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES billing_invoices(id) ON DELETE CASCADE,
+  tax_configuration_id UUID NOT NULL REFERENCES tax_configurations(id),
+  tax_type VARCHAR(50) NOT NULL,
+  rate DECIMAL(15,4) NOT NULL,
+  is_percentage BOOLEAN NOT NULL,
+  base_amount DECIMAL(15,2) NOT NULL,
+  tax_amount DECIMAL(15,2) NOT NULL,
+  legal_reference VARCHAR(500) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(invoice_id, tax_configuration_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_taxes_invoice ON billing_invoice_taxes(invoice_id);
+
+-- Versions appliquées à chaque ligne taxable
+CREATE TABLE IF NOT EXISTS billing_invoice_line_tax_rules (
+  invoice_line_id UUID NOT NULL REFERENCES billing_invoice_lines(id) ON DELETE CASCADE,
+  tax_configuration_id UUID NOT NULL REFERENCES tax_configurations(id),
+
+  PRIMARY KEY (invoice_line_id, tax_configuration_id)
+);
+
+-- Le calcul se fait désormais dans le moteur fiscal du serveur, à la date de la facture
+DROP FUNCTION IF EXISTS calculate_taxes(VARCHAR, DECIMAL);
@@ -0,0 +1,48 @@
+-- Migration 038: Chronomètres partagés entre appareils et temps suggérés par l'agenda
+-- Le chronomètre en cours d'un avocat est gardé sur le serveur : il survit à la
+-- fermeture de l'onglet et se retrouve sur un autre appareil. À l'arrêt, il
+-- devient un temps passé du dossier. Les audiences et rendez-vous terminés de
+-- l'agenda sont proposés comme temps passés, une seule fois chacun.
+
+CREATE TABLE IF NOT EXISTS running_timers (
+  -- Un seul chronomètre actif par avocat
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES cases(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  activity_type VARCHAR(50) NOT NULL DEFAULT 'other' CHECK (activity_type IN (
+    'research', 'drafting', 'review', 'meeting', 'call', 'hearing',
+    'travel', 'correspondence', 'filing', 'negotiation', 'other'
+  )),
+  is_billable BOOLEAN NOT NULL DEFAULT true,
+  hourly_rate DECIMAL(10,2),
+
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  state VARCHAR(10) NOT NULL DEFAULT 'running' CHECK (state IN ('running', 'paused')),
+  -- Début de la période en cours ; NULL en pause
+  segment_started_at TIMESTAMP WITH TIME ZONE,
+  accumulated_seconds INTEGER NOT NULL DEFAULT 0 CHECK (accumulated_seconds >= 0),
+
+  -- Dernière activité signalée par un appareil de l'avocat
+  last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  idle_threshold_minutes INTEGER NOT NULL DEFAULT 10 CHECK (idle_threshold_minutes > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT running_timer_segment CHECK ((state = 'running') = (segment_started_at IS NOT NULL))
+);
+
+-- Temps issus de l'agenda : un événement ne donne qu'un seul temps passé
+ALTER TABLE case_time_entries ADD COLUMN IF NOT EXISTS calendar_event_id UUID
+  REFERENCES calendar_events(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_case_time_entries_calendar_event
+  ON case_time_entries(calendar_event_id) WHERE calendar_event_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_case_time_entries_lawyer_start ON case_time_entries(lawyer_id, start_time);
+
+-- Suggestions écartées par l'avocat
+CREATE TABLE IF NOT EXISTS time_entry_suggestion_dismissals (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  calendar_event_id UUID NOT NULL REFERENCES calendar_events(id) ON DELETE CASCADE,
+  dismissed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (user_id, calendar_event_id)
+);
@@ -25,6 +25,8 @@ import { auditRouter } from '@/routes/audit';
 import { backupRouter } from '@/routes/backup';
 import rbacRouter from '@/routes/rbacRoutes';
 import caseRouter from '@/routes/cases';
+import calendarRouter from '@/routes/calendar';
+import timeTrackingRouter from '@/routes/timeTracking';
 import notificationRouter from '@/routes/notifications';
 import { createLearningRoutes } from '@/routes/learning';
 import { createMinutierRoutes } from '@/routes/minutier';
@@ -37,6 +39,7 @@ import performanceRouter from '@/routes/performance';
 import validationRouter from '@/routes/validation';
 import translationRouter from '@/routes/translation';
 import improvedTranslationRouter from '@/routes/improvedTranslation';
+import ocrRouter from '@/routes/ocr';
 import { 
   apiGatewayMiddleware,
   authRateLimitMiddleware,
@@ -53,6 +56,16 @@ import { serviceOrchestrator } from '@/services/serviceOrchestrator';
 import { sessionCleanupService } from '@/services/sessionCleanupService';
 import { rbacService } from '@/services/rbacService';
 import { notificationScheduler } from '@/services/notificationScheduler';
+import { reportScheduler } from '@/services/reportScheduler';
+import { notificationStreamService } from '@/services/notificationStreamService';
+import { minutierChainService } from '@/services/minutierChainService';
+import { invoicePaymentService } from '@/services/invoicePaymentService';
+import { ocrJobService } from '@/services/ocrJobService';
+import { attachmentIndexService } from '@/services/attachmentIndexService';
+import { encryptionService } from '@/services/encryptionService';
+import { PostgresTenantKeyStore } from '@/services/tenantKeyStore';
+import { createMasterKeyProvider, masterKeySettingsFromEnv } from '@/services/masterKeyProvider';
+import { keyRewrapService } from '@/services/keyRewrapService';
 
 const app = express();
 
@@ -98,6 +111,8 @@ app.use('/api/auth', authRateLimitMiddleware(), authRouter);
 app.use('/api/users', userRouter);
 app.use('/api/documents', documentRouter);
 app.use('/api/cases', caseRouter);
+app.use('/api/calendar', calendarRouter);
+app.use('/api/time', timeTrackingRouter);
 app.use('/api/notifications', notificationRouter);
 app.use('/api/search', searchRateLimitMiddleware(), searchRouter);
 app.use('/api/billing', billingRateLimitMiddleware(), billingRouter);
@@ -111,6 +126,7 @@ app.use('/api/system', systemRouter);
 app.use('/api/monitoring', monitoringRouter);
 app.use('/api/performance', performanceRouter);
 app.use('/api/validation', validationRouter);
+app.use('/api/ocr', ocrRouter);
 app.use('/api', translationRouter);
 app.use('/api/improved-translation', improvedTranslationRouter);
 
@@ -138,6 +154,12 @@ async function startServer() {
     await connectDatabase();
     logger.info('Database connected successfully');
 
+    // Tenant keys are persisted, wrapped by the master key
+    encryptionService.configure({
+      keyStore: new PostgresTenantKeyStore(),
+      masterKeyProvider: createMasterKeyProvider(masterKeySettingsFromEnv())
+    });
+
     // Initialize service orchestrator
     await serviceOrchestrator.initialize();
     logger.info('Service orchestrator initialized successfully');
@@ -176,6 +198,27 @@ async function startServer() {
     // Start notification scheduler
     notificationScheduler.start(5); // Process every 5 minutes
 
+    // Start scheduled reports delivery
+    reportScheduler.start(5); // Process every 5 minutes
+
+    // Start deadline alerts for real-time notification streams
+    notificationStreamService.start(1); // Check every minute
+
+    // Start daily signed checkpoints of the minutier hash chain
+    minutierChainService.start(60); // Check every hour
+
+    // Start payment reminders for overdue invoices, one per aging bucket
+    invoicePaymentService.start(60); // Check every hour
+
+    // Start local OCR of scanned attachments
+    ocrJobService.start(30); // Check every 30 seconds
+
+    // Start full-text indexing of document attachments
+    attachmentIndexService.start(1); // Check every minute
+
+    // Start rewrapping of file keys and encrypted records after tenant key rotations
+    keyRewrapService.start(60); // Check every 60 seconds
+
     // Start RBAC cleanup service
     setInterval(async () => {
       try {
@@ -202,6 +245,13 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   sessionCleanupService.stop();
   notificationScheduler.stop();
+  reportScheduler.stop();
+  notificationStreamService.stop();
+  minutierChainService.stop();
+  invoicePaymentService.stop();
+  ocrJobService.stop();
+  attachmentIndexService.stop();
+  keyRewrapService.stop();
   await serviceOrchestrator.shutdown();
   process.exit(0);
 });
@@ -210,6 +260,13 @@ process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   sessionCleanupService.stop();
   notificationScheduler.stop();
+  reportScheduler.stop();
+  notificationStreamService.stop();
+  minutierChainService.stop();
+  invoicePaymentService.stop();
+  ocrJobService.stop();
+  attachmentIndexService.stop();
+  keyRewrapService.stop();
   await serviceOrchestrator.shutdown();
   process.exit(0);
 });
@@ -0,0 +1,177 @@
+/**
+ * Chaînes de délais de procédure
+ *
+ * Un jugement ouvre une suite de délais dépendants : signification, puis voies
+ * de recours (opposition, appel, cassation), puis exécution. Ce module décrit
+ * ces chaînes et calcule leurs échéances à partir des dates d'événements connues ;
+ * la persistance est assurée par DeadlineChainService.
+ *
+ * Tant que la signification n'a pas eu lieu, les délais qui en dépendent sont
+ * calculés à partir de l'échéance de signification et marqués provisoires.
+ */
+
+import { computeProceduralDeadline, ProceduralDeadlineComputation } from './proceduralDeadlineRules';
+
+export type ChainProcedure = 'civil' | 'administratif' | 'penal';
+
+export type JudgmentKind = 'contradictoire' | 'defaut' | 'arret';
+
+/** Événements de dossier qui servent de point de départ */
+export type ChainEventKind = 'jugement_rendu' | 'signification';
+
+export type ChainStepKey = 'signification' | 'opposition' | 'appel' | 'cassation' | 'execution';
+
+export type ChainStepBase =
+  | { event: ChainEventKind }
+  /** Dernière échéance parmi les étapes citées (ex. exécution après expiration des recours) */
+  | { afterSteps: ChainStepKey[] };
+
+export interface DeadlineChainStep {
+  key: ChainStepKey;
+  ruleCode: string;
+  base: ChainStepBase;
+}
+
+export interface DeadlineChainContext {
+  procedure: ChainProcedure;
+  judgmentKind: JudgmentKind;
+}
+
+export interface ChainEventDates {
+  jugement_rendu: Date;
+  signification?: Date;
+}
+
+export interface PlannedChainDeadline {
+  stepKey: ChainStepKey;
+  ruleCode: string;
+  baseDate: Date;
+  deadline: Date;
+  /** Étape dont l'échéance sert de point de départ */
+  parentStepKey?: ChainStepKey;
+  /** Événement réel servant de point de départ, le cas échéant */
+  baseEvent?: ChainEventKind;
+  /** Calculé à partir d'une date prévisionnelle (signification non encore faite) */
+  provisional: boolean;
+  computation: ProceduralDeadlineComputation;
+}
+
+const SIGNIFICATION: DeadlineChainStep = { key: 'signification', ruleCode: 'signification_jugement', base: { event: 'jugement_rendu' } };
+
+const CHAINS: Record<ChainProcedure, Record<JudgmentKind, DeadlineChainStep[]>> = {
+  civil: {
+    contradictoire: [
+      SIGNIFICATION,
+      { key: 'appel', ruleCode: 'appel_jugement', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { afterSteps: ['appel'] } },
+    ],
+    defaut: [
+      SIGNIFICATION,
+      { key: 'opposition', ruleCode: 'opposition_jugement', base: { event: 'signification' } },
+      { key: 'appel', ruleCode: 'appel_jugement_defaut', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { afterSteps: ['opposition', 'appel'] } },
+    ],
+    // Le pourvoi n'est pas suspensif : l'arrêt est exécutoire dès sa signification
+    arret: [
+      SIGNIFICATION,
+      { key: 'cassation', ruleCode: 'pourvoi_cassation', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { event: 'signification' } },
+    ],
+  },
+  administratif: {
+    contradictoire: [
+      SIGNIFICATION,
+      { key: 'appel', ruleCode: 'appel_administratif', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { afterSteps: ['appel'] } },
+    ],
+    defaut: [
+      SIGNIFICATION,
+      { key: 'appel', ruleCode: 'appel_administratif', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { afterSteps: ['appel'] } },
+    ],
+    arret: [
+      SIGNIFICATION,
+      { key: 'cassation', ruleCode: 'pourvoi_conseil_etat', base: { event: 'signification' } },
+      { key: 'execution', ruleCode: 'execution_jugement', base: { event: 'signification' } },
+    ],
+  },
+  // En matière pénale, les délais courent du prononcé
+  penal: {
+    contradictoire: [
+      { key: 'appel', ruleCode: 'appel_penal_correctionnel', base: { event: 'jugement_rendu' } },
+    ],
+    defaut: [
+      { key: 'appel', ruleCode: 'appel_penal_correctionnel', base: { event: 'jugement_rendu' } },
+    ],
+    arret: [
+      { key: 'cassation', ruleCode: 'pourvoi_cassation_penal', base: { event: 'jugement_rendu' } },
+    ],
+  },
+};
+
+export function getDeadlineChainSteps(context: DeadlineChainContext): DeadlineChainStep[] {
+  return CHAINS[context.procedure][context.judgmentKind];
+}
+
+/**
+ * Calcule les échéances de toute la chaîne, dans l'ordre des étapes.
+ * Une étape qui dépend de la signification non encore faite part de
+ * l'échéance de l'étape « signification » et est marquée provisoire.
+ */
+export function planDeadlineChain(
+  context: DeadlineChainContext,
+  events: ChainEventDates,
+  isNonWorkingDay?: (date: Date) => boolean
+): PlannedChainDeadline[] {
+  const planned = new Map<ChainStepKey, PlannedChainDeadline>();
+
+  for (const step of getDeadlineChainSteps(context)) {
+    let baseDate: Date;
+    let parentStepKey: ChainStepKey | undefined;
+    let baseEvent: ChainEventKind | undefined;
+    let provisional = false;
+
+    if ('event' in step.base) {
+      const eventDate = events[step.base.event];
+      const expectedSignification = planned.get('signification');
+      if (eventDate) {
+        baseDate = eventDate;
+        baseEvent = step.base.event;
+      } else if (step.base.event === 'signification' && expectedSignification) {
+        baseDate = expectedSignification.deadline;
+        parentStepKey = 'signification';
+        provisional = true;
+      } else {
+        continue;
+      }
+    } else {
+      const parents = step.base.afterSteps
+        .map(key => planned.get(key))
+        .filter((p): p is PlannedChainDeadline => p !== undefined);
+      if (parents.length === 0) continue;
+      const latest = parents.reduce((a, b) => (b.deadline > a.deadline ? b : a));
+      baseDate = latest.deadline;
+      parentStepKey = latest.stepKey;
+      provisional = parents.some(p => p.provisional);
+    }
+
+    const computation = computeProceduralDeadline(
+      step.ruleCode,
+      baseDate,
+      isNonWorkingDay ? { isNonWorkingDay } : {}
+    );
+
+    planned.set(step.key, {
+      stepKey: step.key,
+      ruleCode: step.ruleCode,
+      baseDate: computation.baseDate,
+      deadline: computation.deadline,
+      ...(parentStepKey ? { parentStepKey } : {}),
+      ...(baseEvent ? { baseEvent } : {}),
+      provisional,
+      computation,
+    });
+  }
+
+  return Array.from(planned.values());
+}
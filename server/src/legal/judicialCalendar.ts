@@ -0,0 +1,309 @@
+/**
+ * Calendrier judiciaire algérien
+ *
+ * Calcule, pour n'importe quelle année grégorienne, les jours fériés légaux
+ * (Loi 63-278 modifiée) : fêtes civiles à date fixe et fêtes religieuses
+ * dont la date dépend du calendrier de l'Hégire.
+ *
+ * Les fêtes religieuses sont calculées avec le calendrier hégirien tabulaire,
+ * qui peut différer d'un jour de l'observation du croissant. Le ministère des
+ * Affaires religieuses annonçant la date officielle, un administrateur peut
+ * enregistrer une correction par année (override) qui remplace le calcul.
+ *
+ * Comme proceduralDeadlineRules, ce module est partagé avec le frontend et ne
+ * doit dépendre d'aucun module applicatif.
+ */
+
+export type HijriHolidayCode = 'awal_muharram' | 'achoura' | 'mawlid' | 'aid_el_fitr' | 'aid_el_adha';
+
+export type CivilHolidayCode = 'nouvel_an' | 'yennayer' | 'fete_travail' | 'fete_independance' | 'revolution';
+
+export interface PublicHoliday {
+  /** Date au format YYYY-MM-DD */
+  date: string;
+  code: HijriHolidayCode | CivilHolidayCode;
+  labelFr: string;
+  labelAr: string;
+  kind: 'civil' | 'religieux';
+  /** calcul : calendrier tabulaire ; officiel : date annoncée saisie par un administrateur */
+  source: 'fixe' | 'calcul' | 'officiel';
+}
+
+export interface JudicialVacationWindow {
+  code: 'vacances_ete' | 'vacances_hiver';
+  labelFr: string;
+  labelAr: string;
+  /** Bornes incluses, au format YYYY-MM-DD */
+  start: string;
+  end: string;
+}
+
+/**
+ * Correction officielle d'une fête religieuse pour une année grégorienne :
+ * la date est celle du premier jour de la fête.
+ */
+export interface HijriHolidayOverride {
+  year: number;
+  code: HijriHolidayCode;
+  date: string;
+}
+
+export interface HijriDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface HijriHolidayDefinition {
+  code: HijriHolidayCode;
+  month: number;
+  day: number;
+  /** Nombre de jours chômés */
+  length: number;
+  labelFr: string;
+  labelAr: string;
+}
+
+const CIVIL_HOLIDAYS: Array<{ code: CivilHolidayCode; month: number; day: number; labelFr: string; labelAr: string }> = [
+  { code: 'nouvel_an', month: 1, day: 1, labelFr: 'Nouvel An', labelAr: 'رأس السنة الميلادية' },
+  { code: 'yennayer', month: 1, day: 12, labelFr: 'Yennayer', labelAr: 'يناير' },
+  { code: 'fete_travail', month: 5, day: 1, labelFr: 'Fête du Travail', labelAr: 'عيد العمال' },
+  { code: 'fete_independance', month: 7, day: 5, labelFr: 'Fête de l\'Indépendance', labelAr: 'عيد الاستقلال' },
+  { code: 'revolution', month: 11, day: 1, labelFr: 'Anniversaire de la Révolution', labelAr: 'عيد الثورة' },
+];
+
+const HIJRI_HOLIDAYS: HijriHolidayDefinition[] = [
+  { code: 'awal_muharram', month: 1, day: 1, length: 1, labelFr: 'Awal Muharram', labelAr: 'رأس السنة الهجرية' },
+  { code: 'achoura', month: 1, day: 10, length: 1, labelFr: 'Achoura', labelAr: 'عاشوراء' },
+  { code: 'mawlid', month: 3, day: 12, length: 1, labelFr: 'Mawlid Ennabaoui', labelAr: 'المولد النبوي الشريف' },
+  { code: 'aid_el_fitr', month: 10, day: 1, length: 2, labelFr: 'Aïd el-Fitr', labelAr: 'عيد الفطر' },
+  { code: 'aid_el_adha', month: 12, day: 10, length: 2, labelFr: 'Aïd el-Adha', labelAr: 'عيد الأضحى' },
+];
+
+// ─── Conversions grégorien / hégirien (via le jour julien) ──────────────────
+
+const ISLAMIC_EPOCH_JDN = 1948440;
+
+function gregorianToJdn(year: number, month: number, day: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+}
+
+function jdnToGregorian(jdn: number): Date {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  const day = e - Math.floor((153 * m + 2) / 5) + 1;
+  const month = m + 3 - 12 * Math.floor(m / 10);
+  const year = 100 * b + d - 4800 + Math.floor(m / 10);
+  return new Date(year, month - 1, day);
+}
+
+function hijriToJdn(year: number, month: number, day: number): number {
+  return day
+    + Math.ceil(29.5 * (month - 1))
+    + (year - 1) * 354
+    + Math.floor((3 + 11 * year) / 30)
+    + ISLAMIC_EPOCH_JDN - 1;
+}
+
+export function gregorianToHijri(date: Date): HijriDate {
+  const jdn = gregorianToJdn(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  const year = Math.floor((30 * (jdn - ISLAMIC_EPOCH_JDN) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jdn - 29 - hijriToJdn(year, 1, 1)) / 29.5) + 1);
+  const day = jdn - hijriToJdn(year, month, 1) + 1;
+  return { year, month, day };
+}
+
+export function hijriToGregorian(year: number, month: number, day: number): Date {
+  return jdnToGregorian(hijriToJdn(year, month, day));
+}
+
+// ─── Utilitaires de dates ───────────────────────────────────────────────────
+
+export function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// ─── Calendrier judiciaire ──────────────────────────────────────────────────
+
+export class JudicialCalendar {
+  private overrides: HijriHolidayOverride[] = [];
+  private readonly holidayCache = new Map<number, PublicHoliday[]>();
+
+  constructor(overrides: HijriHolidayOverride[] = []) {
+    this.setOverrides(overrides);
+  }
+
+  /**
+   * Remplace l'ensemble des corrections officielles
+   */
+  setOverrides(overrides: HijriHolidayOverride[]): void {
+    this.overrides = [...overrides];
+    this.holidayCache.clear();
+  }
+
+  getOverrides(year?: number): HijriHolidayOverride[] {
+    return year === undefined ? [...this.overrides] : this.overrides.filter(o => o.year === year);
+  }
+
+  /**
+   * Jours fériés légaux d'une année grégorienne, triés par date
+   */
+  getHolidays(year: number): PublicHoliday[] {
+    const cached = this.holidayCache.get(year);
+    if (cached) return cached;
+
+    const holidays: PublicHoliday[] = CIVIL_HOLIDAYS.map(h => ({
+      date: formatIsoDate(new Date(year, h.month - 1, h.day)),
+      code: h.code,
+      labelFr: h.labelFr,
+      labelAr: h.labelAr,
+      kind: 'civil',
+      source: 'fixe',
+    }));
+
+    // Une année grégorienne chevauche deux (parfois trois) années hégiriennes
+    const firstHijriYear = gregorianToHijri(new Date(year, 0, 1)).year;
+    const lastHijriYear = gregorianToHijri(new Date(year, 11, 31)).year;
+
+    for (const definition of HIJRI_HOLIDAYS) {
+      const override = this.overrides.find(o => o.year === year && o.code === definition.code);
+      const firstDays = override
+        ? [{ date: parseIsoDate(override.date), source: 'officiel' as const }]
+        : this.computeHijriOccurrences(definition, firstHijriYear, lastHijriYear, year)
+          .map(date => ({ date, source: 'calcul' as const }));
+
+      for (const { date, source } of firstDays) {
+        for (let i = 0; i < definition.length; i++) {
+          const day = addDays(date, i);
+          if (day.getFullYear() !== year) continue;
+          holidays.push({
+            date: formatIsoDate(day),
+            code: definition.code,
+            labelFr: definition.length > 1 ? `${definition.labelFr} (jour ${i + 1})` : definition.labelFr,
+            labelAr: definition.labelAr,
+            kind: 'religieux',
+            source,
+          });
+        }
+      }
+    }
+
+    holidays.sort((a, b) => a.date.localeCompare(b.date));
+    this.holidayCache.set(year, holidays);
+    return holidays;
+  }
+
+  /**
+   * Fenêtres de vacances judiciaires de l'année (la période d'hiver déborde sur janvier suivant)
+   */
+  getJudicialVacations(year: number): JudicialVacationWindow[] {
+    return [
+      {
+        code: 'vacances_ete',
+        labelFr: 'Vacances judiciaires d\'été',
+        labelAr: 'العطلة القضائية الصيفية',
+        start: `${year}-07-15`,
+        end: `${year}-09-15`,
+      },
+      {
+        code: 'vacances_hiver',
+        labelFr: 'Vacances judiciaires d\'hiver',
+        labelAr: 'العطلة القضائية الشتوية',
+        start: `${year}-12-20`,
+        end: `${year + 1}-01-05`,
+      },
+    ];
+  }
+
+  getHoliday(date: Date): PublicHoliday | undefined {
+    const iso = formatIsoDate(date);
+    return this.getHolidays(date.getFullYear()).find(h => h.date === iso);
+  }
+
+  isHoliday(date: Date): boolean {
+    return this.getHoliday(date) !== undefined;
+  }
+
+  isWeekend(date: Date): boolean {
+    const day = date.getDay();
+    return day === 5 || day === 6;
+  }
+
+  getJudicialVacation(date: Date): JudicialVacationWindow | undefined {
+    const iso = formatIsoDate(date);
+    const windows = [
+      ...this.getJudicialVacations(date.getFullYear() - 1),
+      ...this.getJudicialVacations(date.getFullYear()),
+    ];
+    return windows.find(w => iso >= w.start && iso <= w.end);
+  }
+
+  /**
+   * Jour d'ouverture des juridictions : ni week-end (vendredi/samedi) ni jour férié.
+   * Les vacances judiciaires ne ferment pas les juridictions (service de permanence).
+   */
+  isCourtWorkingDay(date: Date): boolean {
+    return !this.isWeekend(date) && !this.isHoliday(date);
+  }
+
+  /**
+   * Premier jour ouvrable strictement postérieur à la date donnée
+   */
+  nextWorkingDay(date: Date): Date {
+    let candidate = addDays(date, 1);
+    // Garde-fou : aucune suite de jours chômés ne dépasse deux semaines
+    for (let i = 0; i < 14 && !this.isCourtWorkingDay(candidate); i++) {
+      candidate = addDays(candidate, 1);
+    }
+    return candidate;
+  }
+
+  /**
+   * Reporte une échéance tombant un jour chômé au premier jour ouvrable suivant
+   */
+  carryOver(date: Date): Date {
+    return this.isCourtWorkingDay(date) ? addDays(date, 0) : this.nextWorkingDay(date);
+  }
+
+  private computeHijriOccurrences(
+    definition: HijriHolidayDefinition,
+    firstHijriYear: number,
+    lastHijriYear: number,
+    gregorianYear: number
+  ): Date[] {
+    const occurrences: Date[] = [];
+    for (let hijriYear = firstHijriYear; hijriYear <= lastHijriYear; hijriYear++) {
+      const firstDay = hijriToGregorian(hijriYear, definition.month, definition.day);
+      const lastDay = addDays(firstDay, definition.length - 1);
+      if (firstDay.getFullYear() === gregorianYear || lastDay.getFullYear() === gregorianYear) {
+        occurrences.push(firstDay);
+      }
+    }
+    return occurrences;
+  }
+}
+
+/**
+ * Instance partagée ; les corrections officielles y sont chargées au démarrage
+ */
+export const judicialCalendar = new JudicialCalendar();
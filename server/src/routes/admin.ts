@@ -1,12 +1,17 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { Pool } from 'pg';
 import { AdminService, CreateUserRequest, UpdateUserRequest, UserSearchCriteria, AdminReportType } from '../services/adminService.js';
 import { AIConfigService, CreateAIModelRequest, UpdateAIModelRequest, AIModelSearchCriteria, AIProvider, DomaineJuridique } from '../services/aiConfigService.js';
+import { fileStorageService } from '../services/fileStorageService.js';
+import { keyRewrapService } from '../services/keyRewrapService.js';
+import { mfaService } from '../services/mfaService.js';
+import { sessionService } from '../services/sessionService.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkPermission } from '../middleware/rbacMiddleware.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { logger } from '../utils/logger.js';
-import { Profession } from '../types/auth.js';
+import { AuthenticatedRequest, Profession } from '../types/auth.js';
+import { AttachmentScanStatus } from '../types/document.js';
 
 export function createAdminRoutes(db: Pool): Router {
   const router = Router();
@@ -202,6 +207,71 @@ export function createAdminRoutes(db: Pool): Router {
     });
   }));
 
+  /**
+   * GET /api/admin/users/:userId/sessions
+   * Sessions actives d'un utilisateur
+   */
+  router.get('/users/:userId/sessions', checkPermission('user:read'), asyncHandler(async (req, res) => {
+    const { userId } = req.params;
+    const sessions = await sessionService.listSessions(userId);
+
+    res.json({
+      success: true,
+      data: sessions,
+      message: 'Sessions récupérées avec succès'
+    });
+  }));
+
+  /**
+   * POST /api/admin/users/:userId/sessions/revoke
+   * Déconnecter l'utilisateur de tous ses appareils
+   */
+  router.post('/users/:userId/sessions/revoke', checkPermission('user:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.params.userId as string;
+    const { reason } = req.body;
+    const adminId = req.user!.userId;
+
+    const revoked = await sessionService.revokeAllSessions(userId, adminId, reason);
+
+    res.json({
+      success: true,
+      data: { revoked },
+      message: `${revoked} session(s) fermée(s)`
+    });
+  }));
+
+  /**
+   * POST /api/admin/users/:userId/mfa/reset
+   * Retirer les seconds facteurs d'un utilisateur qui les a perdus (téléphone,
+   * clé de sécurité et codes de secours), après vérification de son identité
+   */
+  router.post('/users/:userId/mfa/reset', checkPermission('user:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.params.userId as string;
+    const { reason, identityCheck } = req.body;
+    const adminId = req.user!.userId;
+
+    if (!reason || !identityCheck) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le motif et la vérification d\'identité effectuée sont requis'
+      });
+    }
+
+    if (userId === adminId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Un administrateur ne peut pas réinitialiser sa propre authentification à deux facteurs'
+      });
+    }
+
+    await mfaService.adminResetMFA(userId, adminId, reason, identityCheck);
+
+    res.json({
+      success: true,
+      message: 'Authentification à deux facteurs réinitialisée ; l\'utilisateur doit se reconnecter et configurer un nouveau second facteur'
+    });
+  }));
+
   /**
    * GET /api/admin/roles
    * Obtenir la liste des rôles disponibles
@@ -690,9 +760,188 @@ export function createAdminRoutes(db: Pool): Router {
     });
   }));
 
+  // ===== ATTACHMENT QUARANTINE ROUTES =====
+
+  /**
+   * GET /api/admin/quarantine
+   * Pièces jointes en quarantaine ou en attente d'analyse antivirus
+   */
+  router.get('/quarantine', checkPermission('admin:read'), asyncHandler(async (req, res) => {
+    const status = req.query.status as string | undefined;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    if (status && status !== AttachmentScanStatus.PENDING && status !== AttachmentScanStatus.QUARANTINED) {
+      return res.status(400).json({
+        success: false,
+        message: 'Statut invalide (pending ou quarantined)'
+      });
+    }
+
+    const result = await fileStorageService.getQuarantineQueue(
+      status as AttachmentScanStatus.PENDING | AttachmentScanStatus.QUARANTINED | undefined,
+      page,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        page,
+        totalPages: Math.ceil(result.total / limit)
+      },
+      message: 'File de quarantaine récupérée avec succès'
+    });
+  }));
+
+  /**
+   * POST /api/admin/quarantine/:attachmentId/release
+   * Libérer une pièce jointe après examen (faux positif)
+   */
+  router.post('/quarantine/:attachmentId/release', checkPermission('admin:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const attachmentId = req.params.attachmentId as string;
+    const adminId = req.user!.userId;
+
+    try {
+      const attachment = await fileStorageService.releaseAttachment(attachmentId, adminId, req.body.note);
+      res.json({
+        success: true,
+        data: attachment,
+        message: 'Pièce jointe libérée'
+      });
+    } catch (error) {
+      sendQuarantineError(res, error);
+    }
+  }));
+
+  /**
+   * POST /api/admin/quarantine/:attachmentId/rescan
+   * Relancer l'analyse antivirus d'une pièce jointe
+   */
+  router.post('/quarantine/:attachmentId/rescan', checkPermission('admin:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const attachmentId = req.params.attachmentId as string;
+    const adminId = req.user!.userId;
+
+    try {
+      const attachment = await fileStorageService.rescanAttachment(attachmentId, adminId);
+      res.json({
+        success: true,
+        data: attachment,
+        message: 'Analyse antivirus effectuée'
+      });
+    } catch (error) {
+      sendQuarantineError(res, error);
+    }
+  }));
+
+  /**
+   * DELETE /api/admin/quarantine/:attachmentId
+   * Supprimer définitivement une pièce jointe en quarantaine
+   */
+  router.delete('/quarantine/:attachmentId', checkPermission('admin:delete'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const attachmentId = req.params.attachmentId as string;
+    const adminId = req.user!.userId;
+
+    try {
+      await fileStorageService.deleteQuarantinedAttachment(attachmentId, adminId, req.body?.note);
+      res.json({
+        success: true,
+        message: 'Pièce jointe supprimée'
+      });
+    } catch (error) {
+      sendQuarantineError(res, error);
+    }
+  }));
+
+  // ===== ENCRYPTION KEY ROUTES =====
+
+  /**
+   * POST /api/admin/encryption/tenants/:tenantId/rotate
+   * Rotation de la clé du tenant et réenveloppement de ses clés de fichiers
+   * et de ses enregistrements chiffrés
+   */
+  router.post('/encryption/tenants/:tenantId/rotate', checkPermission('admin:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const tenantId = req.params.tenantId as string;
+    const adminId = req.user!.userId;
+
+    try {
+      const job = await keyRewrapService.rotateTenantKey(tenantId, adminId);
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: 'Clé du tenant renouvelée, réenveloppement en cours'
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Aucune clé trouvée')) {
+        return res.status(404).json({ success: false, message: 'Aucune clé de chiffrement pour ce tenant' });
+      }
+      throw error;
+    }
+  }));
+
+  /**
+   * POST /api/admin/encryption/tenants/:tenantId/rewrap
+   * Réenvelopper les clés de fichiers et les enregistrements chiffrés avec la
+   * clé active, sans rotation
+   */
+  router.post('/encryption/tenants/:tenantId/rewrap', checkPermission('admin:update'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const job = await keyRewrapService.requestRewrap(req.params.tenantId as string, req.user!.userId);
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: 'Réenveloppement des clés programmé'
+    });
+  }));
+
+  /**
+   * GET /api/admin/encryption/rewrap-jobs
+   * Travaux de réenveloppement récents et leur avancement
+   */
+  router.get('/encryption/rewrap-jobs', checkPermission('admin:read'), asyncHandler(async (req, res) => {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const jobs = await keyRewrapService.listJobs(req.query.tenantId as string | undefined, limit);
+
+    res.json({
+      success: true,
+      data: jobs,
+      message: 'Travaux de réenveloppement récupérés avec succès'
+    });
+  }));
+
+  /**
+   * GET /api/admin/encryption/rewrap-jobs/:jobId
+   * Avancement d'un travail de réenveloppement
+   */
+  router.get('/encryption/rewrap-jobs/:jobId', checkPermission('admin:read'), asyncHandler(async (req, res) => {
+    const job = await keyRewrapService.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Travail de réenveloppement non trouvé' });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Travail de réenveloppement récupéré avec succès'
+    });
+  }));
+
   return router;
 }
 
+// Helper function to map quarantine review errors to HTTP responses
+function sendQuarantineError(res: Response, error: unknown): void {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (message === 'Attachment not found') {
+    res.status(404).json({ success: false, message: 'Pièce jointe non trouvée' });
+  } else if (message === 'Attachment is not awaiting review') {
+    res.status(409).json({ success: false, message: 'Cette pièce jointe n\'est pas en attente d\'examen' });
+  } else {
+    throw error;
+  }
+}
+
 // Helper function to get role descriptions
 function getRoleDescription(role: Profession): string {
   const descriptions: Record<Profession, string> = {
@@ -3,9 +3,22 @@ import { algerianSpecificitiesService } from '@/services/algerianSpecificitiesSe
 import { authMiddleware } from '@/middleware/auth';
 import { rbacMiddleware } from '@/middleware/rbacMiddleware';
 import { logger } from '@/utils/logger';
+import {
+  PROCEDURAL_DEADLINE_RULES,
+  PROCEDURAL_RULES_VERSION,
+  getProceduralDeadlineRule
+} from '@/legal/proceduralDeadlineRules';
+import { HijriHolidayCode } from '@/legal/judicialCalendar';
 
 const router = Router();
 
+const HIJRI_HOLIDAY_CODES: HijriHolidayCode[] = ['awal_muharram', 'achoura', 'mawlid', 'aid_el_fitr', 'aid_el_adha'];
+
+function parseYear(value: string | undefined): number | null {
+  const annee = parseInt(value ?? '', 10);
+  return isNaN(annee) || annee < 1900 || annee > 2100 ? null : annee;
+}
+
 // Middleware d'authentification pour toutes les routes
 router.use(authMiddleware);
 
@@ -272,6 +285,70 @@ router.post('/calculate-delay', rbacMiddleware(['avocat', 'notaire', 'huissier',
   }
 });
 
+/**
+ * GET /api/algerian-specificities/procedural-deadline-rules
+ * Liste les règles du référentiel des délais de procédure
+ */
+router.get('/procedural-deadline-rules', rbacMiddleware(['avocat', 'notaire', 'huissier', 'magistrat', 'juriste_entreprise', 'administrateur_plateforme']), (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      version: PROCEDURAL_RULES_VERSION,
+      rules: PROCEDURAL_DEADLINE_RULES
+    }
+  });
+});
+
+/**
+ * POST /api/algerian-specificities/calculate-procedural-deadline
+ * Calcule l'échéance d'un délai de procédure (appel, opposition, cassation...)
+ */
+router.post('/calculate-procedural-deadline', rbacMiddleware(['avocat', 'notaire', 'huissier', 'magistrat', 'juriste_entreprise', 'administrateur_plateforme']), async (req, res) => {
+  try {
+    const { ruleCode, dateDebut, extensions } = req.body;
+
+    if (!ruleCode || !dateDebut) {
+      return res.status(400).json({
+        success: false,
+        message: 'ruleCode et dateDebut sont requis'
+      });
+    }
+
+    if (!getProceduralDeadlineRule(ruleCode)) {
+      return res.status(400).json({
+        success: false,
+        message: `Règle de délai inconnue: ${ruleCode}`
+      });
+    }
+
+    const startDate = new Date(dateDebut);
+    if (isNaN(startDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Format de date invalide'
+      });
+    }
+
+    const calculation = await algerianSpecificitiesService.calculateProceduralDeadline(
+      ruleCode,
+      startDate,
+      Array.isArray(extensions) ? extensions : []
+    );
+
+    res.json({
+      success: true,
+      data: calculation
+    });
+
+  } catch (error) {
+    logger.error('Erreur lors du calcul du délai de procédure:', error);
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Erreur lors du calcul du délai de procédure'
+    });
+  }
+});
+
 /**
  * GET /api/algerian-specificities/procedures
  * Obtient la liste des procédures spécifiques algériennes
@@ -377,49 +454,112 @@ router.get('/procedures/:id', rbacMiddleware(['avocat', 'notaire', 'huissier', '
 
 /**
  * GET /api/algerian-specificities/judicial-calendar/:year
- * Obtient le calendrier judiciaire pour une année
+ * Obtient le calendrier judiciaire pour une année (jours fériés calculés ou officiels, vacances)
  */
 router.get('/judicial-calendar/:year', rbacMiddleware(['avocat', 'notaire', 'huissier', 'magistrat', 'juriste_entreprise', 'administrateur_plateforme']), async (req, res) => {
   try {
-    const { year } = req.params;
-    const annee = parseInt(year);
+    const annee = parseYear(req.params.year);
 
-    if (isNaN(annee) || annee < 2020 || annee > 2030) {
+    if (annee === null) {
       return res.status(400).json({
         success: false,
         message: 'Année invalide'
       });
     }
 
-    const db = algerianSpecificitiesService['db'];
-    const result = await db.query('SELECT * FROM judicial_calendar WHERE annee = $1', [annee]);
+    await algerianSpecificitiesService.loadHolidayOverrides();
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({
+    res.json({
+      success: true,
+      data: algerianSpecificitiesService.getJudicialCalendarYear(annee)
+    });
+
+  } catch (error) {
+    logger.error('Erreur lors de la récupération du calendrier judiciaire:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur lors de la récupération du calendrier judiciaire'
+    });
+  }
+});
+
+/**
+ * PUT /api/algerian-specificities/judicial-calendar/:year/overrides/:code
+ * Enregistre la date officielle d'une fête religieuse (annonce du ministère)
+ */
+router.put('/judicial-calendar/:year/overrides/:code', rbacMiddleware(['administrateur_plateforme']), async (req, res) => {
+  try {
+    const annee = parseYear(req.params.year);
+    const { code } = req.params;
+    const { date } = req.body;
+
+    if (annee === null || !HIJRI_HOLIDAY_CODES.includes(code as HijriHolidayCode)) {
+      return res.status(400).json({
         success: false,
-        message: 'Calendrier judiciaire non trouvé pour cette année'
+        message: 'Année ou fête religieuse invalide'
       });
     }
 
-    const row = result.rows[0];
-    const calendar = {
-      annee: row.annee,
-      joursOuvres: JSON.parse(row.jours_ouvres),
-      joursChomes: JSON.parse(row.jours_chomes),
-      vacancesJudiciaires: JSON.parse(row.vacances_judiciaires),
-      evenementsSpeciaux: JSON.parse(row.evenements_speciaux || '[]')
-    };
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date officielle invalide (format attendu: YYYY-MM-DD)'
+      });
+    }
+
+    const corrections = await algerianSpecificitiesService.setHolidayOverride(
+      { year: annee, code: code as HijriHolidayCode, date },
+      req.user!.id
+    );
 
     res.json({
       success: true,
-      data: calendar
+      data: corrections
     });
 
   } catch (error) {
-    logger.error('Erreur lors de la récupération du calendrier judiciaire:', error);
+    logger.error('Erreur lors de l\'enregistrement de la date officielle:', error);
     res.status(500).json({
       success: false,
-      message: 'Erreur lors de la récupération du calendrier judiciaire'
+      message: 'Erreur lors de l\'enregistrement de la date officielle'
+    });
+  }
+});
+
+/**
+ * DELETE /api/algerian-specificities/judicial-calendar/:year/overrides/:code
+ * Supprime une date officielle : la date calculée s'applique de nouveau
+ */
+router.delete('/judicial-calendar/:year/overrides/:code', rbacMiddleware(['administrateur_plateforme']), async (req, res) => {
+  try {
+    const annee = parseYear(req.params.year);
+    const { code } = req.params;
+
+    if (annee === null || !HIJRI_HOLIDAY_CODES.includes(code as HijriHolidayCode)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Année ou fête religieuse invalide'
+      });
+    }
+
+    const deleted = await algerianSpecificitiesService.deleteHolidayOverride(annee, code as HijriHolidayCode);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Aucune date officielle enregistrée pour cette fête'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Date officielle supprimée'
+    });
+
+  } catch (error) {
+    logger.error('Erreur lors de la suppression de la date officielle:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur lors de la suppression de la date officielle'
     });
   }
 });
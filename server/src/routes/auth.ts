@@ -4,6 +4,8 @@ import { asyncHandler } from '@/middleware/errorHandler';
 import { authenticate, authRateLimit, requireMultiRole } from '@/middleware/auth';
 import { authService } from '@/services/authService';
 import { userService } from '@/services/userService';
+import { mfaService } from '@/services/mfaService';
+import { sessionService } from '@/services/sessionService';
 import { 
   LoginRequest, 
   RegisterRequest, 
@@ -21,7 +23,9 @@ const router = Router();
 const loginSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().min(8).required(),
-  mfaCode: Joi.string().length(6).optional()
+  mfaCode: Joi.string().length(6).optional(),
+  recoveryCode: Joi.string().max(20).optional(),
+  webauthnResponse: Joi.object().unknown().optional()
 });
 
 const registerSchema = Joi.object({
@@ -61,6 +65,11 @@ const verifyMFASchema = Joi.object({
   token: Joi.string().length(6).required()
 });
 
+const registerPasskeySchema = Joi.object({
+  response: Joi.object().unknown().required(),
+  name: Joi.string().min(1).max(100).required()
+});
+
 /**
  * POST /api/auth/login
  * Authenticate user with credentials
@@ -80,7 +89,12 @@ router.post('/login', authRateLimit(5, 15), asyncHandler(async (req, res) => {
   const result = await authService.authenticate({
     email: loginData.email,
     password: loginData.password,
-    mfaCode: loginData.mfaCode
+    mfaCode: loginData.mfaCode,
+    ...(loginData.recoveryCode ? { recoveryCode: loginData.recoveryCode } : {}),
+    ...(loginData.webauthnResponse ? { webauthnResponse: loginData.webauthnResponse } : {})
+  }, {
+    ...(req.ip ? { ipAddress: req.ip } : {}),
+    ...(req.get('user-agent') ? { userAgent: req.get('user-agent')! } : {})
   });
 
   if (!result.success) {
@@ -248,6 +262,8 @@ router.post('/mfa/enable', authenticate, asyncHandler(async (req, res) => {
       success: true,
       mfaSetup: {
         qrCode: mfaSetup.qrCode,
+        // Saisie manuelle dans l'application d'authentification
+        secret: mfaSetup.secret,
         backupCodes: mfaSetup.backupCodes
       }
     });
@@ -291,20 +307,120 @@ router.post('/mfa/verify', authenticate, asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * GET /api/auth/mfa/status
+ * Second factors of the current user
+ */
+router.get('/mfa/status', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const status = await mfaService.getStatus(user.userId);
+
+  res.json({
+    success: true,
+    status
+  });
+}));
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Replace the recovery codes; the previous ones stop working
+ */
+router.post('/mfa/recovery-codes', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const status = await mfaService.getStatus(user.userId);
+
+  if (!status.enabled) {
+    return res.status(400).json({
+      success: false,
+      error: 'MFA is not enabled'
+    });
+  }
+
+  const recoveryCodes = await mfaService.regenerateRecoveryCodes(user.userId);
+
+  res.json({
+    success: true,
+    recoveryCodes
+  });
+}));
+
+/**
+ * POST /api/auth/mfa/webauthn/register/options
+ * Start a passkey registration
+ */
+router.post('/mfa/webauthn/register/options', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const options = await mfaService.startPasskeyRegistration(user.userId);
+
+  res.json({
+    success: true,
+    options
+  });
+}));
+
+/**
+ * POST /api/auth/mfa/webauthn/register/verify
+ * Verify the authenticator response and store the passkey
+ */
+router.post('/mfa/webauthn/register/verify', authenticate, asyncHandler(async (req, res) => {
+  const { error, value } = registerPasskeySchema.validate(req.body);
+
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.details[0].message
+    });
+  }
+
+  const user = (req as AuthenticatedRequest).user!;
+
+  try {
+    const { passkey, recoveryCodes } = await mfaService.finishPasskeyRegistration(user.userId, value.response, value.name);
+
+    res.status(201).json({
+      success: true,
+      passkey,
+      recoveryCodes
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: 'Passkey registration failed'
+    });
+  }
+}));
+
+/**
+ * DELETE /api/auth/mfa/webauthn/credentials/:credentialId
+ * Remove a passkey
+ */
+router.delete('/mfa/webauthn/credentials/:credentialId', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+
+  try {
+    await mfaService.removePasskey(user.userId, req.params.credentialId!);
+
+    res.json({
+      success: true,
+      message: 'Passkey removed successfully'
+    });
+  } catch (err) {
+    res.status(404).json({
+      success: false,
+      error: 'Passkey not found'
+    });
+  }
+}));
+
 /**
  * POST /api/auth/mfa/disable
- * Disable multi-factor authentication
+ * Disable multi-factor authentication: TOTP, passkeys and recovery codes
  */
 router.post('/mfa/disable', authenticate, asyncHandler(async (req, res) => {
   const user = (req as AuthenticatedRequest).user!;
 
   try {
-    // Disable MFA by updating user record
-    const { db } = await import('@/database/connection');
-    await db.query(
-      'UPDATE users SET mfa_enabled = false, mfa_secret = NULL WHERE id = $1',
-      [user.userId]
-    );
+    await mfaService.disableMFA(user.userId);
 
     res.json({
       success: true,
@@ -318,4 +434,53 @@ router.post('/mfa/disable', authenticate, asyncHandler(async (req, res) => {
   }
 }));
 
+/**
+ * GET /api/auth/sessions
+ * Active sessions of the current user ("Mes appareils")
+ */
+router.get('/sessions', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const sessions = await sessionService.listSessions(user.userId, user.sessionId);
+
+  res.json({
+    success: true,
+    sessions
+  });
+}));
+
+/**
+ * POST /api/auth/sessions/revoke-others
+ * Sign out every other device
+ */
+router.post('/sessions/revoke-others', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const revoked = await sessionService.revokeOtherSessions(user.userId, user.sessionId);
+
+  res.json({
+    success: true,
+    revoked
+  });
+}));
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Sign out one device
+ */
+router.delete('/sessions/:sessionId', authenticate, asyncHandler(async (req, res) => {
+  const user = (req as AuthenticatedRequest).user!;
+  const revoked = await sessionService.revokeSession(user.userId, req.params.sessionId!);
+
+  if (!revoked) {
+    return res.status(404).json({
+      success: false,
+      error: 'Session not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: user.sessionId === req.params.sessionId ? 'Logged out successfully' : 'Session revoked successfully'
+  });
+}));
+
 export { router as authRouter };
\ No newline at end of file
@@ -1,19 +1,52 @@
 import { Router, Request, Response } from 'express';
 import { BillingService } from '../services/billingService.js';
+import { TimeBillingService } from '../services/timeBillingService.js';
+import { ProvisionLedgerService } from '../services/provisionLedgerService.js';
+import { InvoicePaymentService } from '../services/invoicePaymentService.js';
+import { TaxConfigurationService } from '../services/taxConfigurationService.js';
+import { nomFichierReleveProvisions, renderProvisionStatementPdf } from '../services/provisionStatementRenderer.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkPermission } from '../middleware/rbacMiddleware.js';
 import { logger } from '../utils/logger.js';
 import { 
   CalculateFeeRequest, 
   CreateInvoiceRequest,
+  BillTimeRequest,
+  RecordProvisionRequest,
+  RecordPaymentRequest,
+  CreateCreditNoteRequest,
   BillingSearchCriteria,
   UpdateFeeScheduleRequest,
+  ScheduleTaxRateRequest,
+  TaxType,
   LegalProfession,
   CalculationType,
-  BillingStatus
+  BillingStatus,
+  InvoiceStatus
 } from '../types/billing.js';
+import { AuthenticatedRequest } from '../types/auth.js';
 
-export function createBillingRoutes(billingService: BillingService): Router {
+/**
+ * HTTP status for provision ledger, invoice settlement and tax rule errors
+ */
+function settlementErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : '';
+  if (message.endsWith('not found')) return 404;
+  if (message.startsWith('Insufficient provision') || message.includes('exceeds invoice balance') || message.startsWith('Cannot settle') ||
+      message.startsWith('A rate already') || message.startsWith('Only rates not yet')) return 409;
+  if (message.endsWith('is required') || message.startsWith('Amount must') || message.startsWith('Invalid') ||
+      message.includes('does not belong') || message.includes('cannot be in the future') ||
+      message.startsWith('Rate must') || message.startsWith('New rates must')) return 400;
+  return 500;
+}
+
+export function createBillingRoutes(
+  billingService: BillingService,
+  timeBillingService: TimeBillingService,
+  provisionLedgerService: ProvisionLedgerService,
+  invoicePaymentService: InvoicePaymentService,
+  taxConfigurationService: TaxConfigurationService
+): Router {
   const router = Router();
 
   // Apply authentication to all routes
@@ -84,6 +117,131 @@ export function createBillingRoutes(billingService: BillingService): Router {
     }
   );
 
+  /**
+   * Get the invoices of the current lawyer
+   * GET /api/billing/invoices
+   */
+  router.get('/invoices',
+    checkPermission('billing', 'read'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const invoices = await billingService.listInvoices(req.user!.userId);
+
+        res.json({
+          success: true,
+          data: invoices
+        });
+      } catch (error) {
+        logger.error('Error in list invoices endpoint', { error });
+        res.status(500).json({
+          error: 'Failed to list invoices',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Preview draft invoices for unbilled time entries
+   * POST /api/billing/time/preview
+   */
+  router.post('/time/preview',
+    checkPermission('billing', 'create'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const request: BillTimeRequest = { ...req.body, lawyerId: req.user!.userId };
+
+        if ((!request.caseId && !request.clientId) || !request.periodFrom || !request.periodTo) {
+          return res.status(400).json({
+            error: 'Missing required fields: caseId or clientId, periodFrom, periodTo'
+          });
+        }
+
+        const drafts = await timeBillingService.previewTimeInvoices(request);
+
+        res.json({
+          success: true,
+          data: drafts
+        });
+      } catch (error) {
+        logger.error('Error in time billing preview endpoint', { error, body: req.body });
+        res.status(error instanceof Error && error.message === 'Case not found' ? 404 : 500).json({
+          error: 'Failed to preview time invoices',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Create draft invoices from unbilled time entries and expenses
+   * POST /api/billing/time/invoices
+   */
+  router.post('/time/invoices',
+    checkPermission('billing', 'create'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const request: BillTimeRequest = { ...req.body, lawyerId: req.user!.userId };
+
+        if ((!request.caseId && !request.clientId) || !request.periodFrom || !request.periodTo) {
+          return res.status(400).json({
+            error: 'Missing required fields: caseId or clientId, periodFrom, periodTo'
+          });
+        }
+
+        const drafts = await timeBillingService.createDraftInvoices(request);
+
+        res.status(drafts.length > 0 ? 201 : 200).json({
+          success: true,
+          data: drafts
+        });
+      } catch (error) {
+        logger.error('Error in time billing endpoint', { error, body: req.body });
+        res.status(error instanceof Error && error.message === 'Case not found' ? 404 : 500).json({
+          error: 'Failed to create time invoices',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Delete a draft invoice and release its time entries and expenses
+   * DELETE /api/billing/invoices/:id
+   */
+  router.delete('/invoices/:id',
+    checkPermission('billing', 'delete'),
+    async (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+
+        const deleted = await timeBillingService.deleteDraftInvoice(id);
+        if (!deleted) {
+          return res.status(404).json({
+            error: 'Invoice not found'
+          });
+        }
+
+        res.json({
+          success: true,
+          message: 'Draft invoice deleted'
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Only draft invoices can be deleted') {
+          return res.status(409).json({
+            error: error.message
+          });
+        }
+
+        logger.error('Error in delete invoice endpoint', { error, id: req.params.id });
+        res.status(500).json({
+          error: 'Failed to delete invoice',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
   /**
    * Get billing calculation by ID
    * GET /api/billing/calculations/:id
@@ -270,6 +428,120 @@ export function createBillingRoutes(billingService: BillingService): Router {
     }
   );
 
+  /**
+   * Tax rules with their version history; `asOf` returns only the versions in force on that date
+   * GET /api/billing/tax-rules
+   */
+  router.get('/tax-rules',
+    checkPermission('billing', 'read'),
+    async (req: Request, res: Response) => {
+      try {
+        const profession = req.query.profession as LegalProfession | undefined;
+        const taxType = req.query.taxType as TaxType | undefined;
+        const asOf = req.query.asOf as string | undefined;
+
+        if (asOf && !profession) {
+          return res.status(400).json({
+            error: 'Missing required field: profession'
+          });
+        }
+
+        const rules = asOf
+          ? await taxConfigurationService.getRulesInEffect(profession as LegalProfession, new Date(asOf))
+          : await taxConfigurationService.getRules({
+              ...(profession ? { profession } : {}),
+              ...(taxType ? { taxType } : {})
+            });
+
+        res.json({
+          success: true,
+          data: rules
+        });
+      } catch (error) {
+        logger.error('Error in get tax rules endpoint', { error, query: req.query });
+        res.status(500).json({
+          error: 'Failed to get tax rules',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Schedule a new tax rate (Finance Law) from a future date (Admin only)
+   * POST /api/billing/tax-rules
+   */
+  router.post('/tax-rules',
+    checkPermission('billing', 'admin'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { profession, taxType, rate, isPercentage, minimumAmount, maximumAmount, exemptionThreshold, applicableFrom, legalReference } = req.body;
+
+        if (!profession || !taxType || rate === undefined || !applicableFrom || !legalReference) {
+          return res.status(400).json({
+            error: 'Missing required fields: profession, taxType, rate, applicableFrom, legalReference'
+          });
+        }
+
+        const request: ScheduleTaxRateRequest = {
+          profession,
+          taxType,
+          rate: Number(rate),
+          isPercentage: isPercentage !== false,
+          ...(minimumAmount != null ? { minimumAmount: Number(minimumAmount) } : {}),
+          ...(maximumAmount != null ? { maximumAmount: Number(maximumAmount) } : {}),
+          ...(exemptionThreshold != null ? { exemptionThreshold: Number(exemptionThreshold) } : {}),
+          applicableFrom: new Date(applicableFrom),
+          legalReference,
+          createdBy: req.user!.userId
+        };
+
+        const rule = await taxConfigurationService.scheduleRate(request);
+
+        res.status(201).json({
+          success: true,
+          data: rule
+        });
+      } catch (error) {
+        const status = settlementErrorStatus(error);
+        if (status === 500) {
+          logger.error('Error in schedule tax rate endpoint', { error, body: req.body });
+        }
+        res.status(status).json({
+          error: 'Failed to schedule tax rate',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Cancel a tax rate that is not yet in force (Admin only)
+   * DELETE /api/billing/tax-rules/:id
+   */
+  router.delete('/tax-rules/:id',
+    checkPermission('billing', 'admin'),
+    async (req: Request, res: Response) => {
+      try {
+        await taxConfigurationService.cancelScheduledRate(req.params.id as string);
+
+        res.json({
+          success: true,
+          message: 'Scheduled tax rate cancelled'
+        });
+      } catch (error) {
+        const status = settlementErrorStatus(error);
+        if (status === 500) {
+          logger.error('Error in cancel tax rate endpoint', { error, id: req.params.id });
+        }
+        res.status(status).json({
+          error: 'Failed to cancel tax rate',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
   /**
    * Get invoice by ID
    * GET /api/billing/invoices/:id
@@ -304,13 +576,25 @@ export function createBillingRoutes(billingService: BillingService): Router {
     checkPermission('billing', 'update'),
     async (req: Request, res: Response) => {
       try {
-        const { id } = req.params;
-        const { status, paymentStatus, paymentMethod, paymentReference } = req.body;
-        
-        // This would need to be implemented in BillingService
+        const { status } = req.body;
+
+        // Les paiements passent par POST /invoices/:id/payments
+        if (!Object.values(InvoiceStatus).includes(status) || status === InvoiceStatus.PAID) {
+          return res.status(400).json({
+            error: 'Invalid invoice status'
+          });
+        }
+
+        const invoice = await billingService.updateInvoiceStatus(req.params.id as string, status);
+        if (!invoice) {
+          return res.status(404).json({
+            error: 'Invoice not found'
+          });
+        }
+
         res.json({
           success: true,
-          message: 'Update invoice status endpoint - implementation needed'
+          data: invoice
         });
       } catch (error) {
         logger.error('Error in update invoice status endpoint', { error, id: req.params.id, body: req.body });
@@ -322,6 +606,30 @@ export function createBillingRoutes(billingService: BillingService): Router {
     }
   );
 
+  /**
+   * Taxes recorded on an invoice with the tax rule versions used, for exact reprints
+   * GET /api/billing/invoices/:id/taxes
+   */
+  router.get('/invoices/:id/taxes',
+    checkPermission('billing', 'read'),
+    async (req: Request, res: Response) => {
+      try {
+        const taxes = await taxConfigurationService.getInvoiceTaxes(req.params.id as string);
+
+        res.json({
+          success: true,
+          data: taxes
+        });
+      } catch (error) {
+        logger.error('Error in get invoice taxes endpoint', { error, id: req.params.id });
+        res.status(500).json({
+          error: 'Failed to get invoice taxes',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
   /**
    * Generate invoice PDF
    * GET /api/billing/invoices/:id/pdf
@@ -422,12 +730,311 @@ export function createBillingRoutes(billingService: BillingService): Router {
     }
   );
 
+  const recordProvision = (
+    operation: (request: RecordProvisionRequest) => Promise<unknown>
+  ) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const request: RecordProvisionRequest = {
+        ...req.body,
+        amount: Number(req.body.amount),
+        createdBy: req.user!.userId
+      };
+
+      const transaction = await operation(request);
+
+      res.status(201).json({
+        success: true,
+        data: transaction
+      });
+    } catch (error) {
+      const status = settlementErrorStatus(error);
+      if (status === 500) {
+        logger.error('Error in provision endpoint', { error, path: req.path, body: req.body });
+      }
+      res.status(status).json({
+        error: 'Failed to record provision transaction',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  /**
+   * Record a provision received from a client
+   * POST /api/billing/provisions/deposits
+   */
+  router.post('/provisions/deposits',
+    checkPermission('billing', 'create'),
+    recordProvision(request => provisionLedgerService.recordDeposit(request))
+  );
+
+  /**
+   * Settle an invoice from the available provision
+   * POST /api/billing/provisions/drawdowns
+   */
+  router.post('/provisions/drawdowns',
+    checkPermission('billing', 'create'),
+    recordProvision(request => provisionLedgerService.drawDownForInvoice(request))
+  );
+
+  /**
+   * Refund part or all of the available provision
+   * POST /api/billing/provisions/refunds
+   */
+  router.post('/provisions/refunds',
+    checkPermission('billing', 'create'),
+    recordProvision(request => provisionLedgerService.recordRefund(request))
+  );
+
+  /**
+   * Provision balances of a client, by case
+   * GET /api/billing/provisions/clients/:clientId
+   */
+  router.get('/provisions/clients/:clientId',
+    checkPermission('billing', 'read'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const clientId = req.params.clientId as string;
+        await provisionLedgerService.checkClientAccess(clientId, req.user!.userId);
+        const balances = await provisionLedgerService.getBalances(clientId);
+        const available = balances.reduce((sum, balance) => sum + balance.balance, 0);
+
+        res.json({
+          success: true,
+          data: {
+            balances,
+            available: Math.round(available * 100) / 100
+          }
+        });
+      } catch (error) {
+        const status = settlementErrorStatus(error);
+        if (status === 500) {
+          logger.error('Error in provision balances endpoint', { error, clientId: req.params.clientId });
+        }
+        res.status(status).json({
+          error: 'Failed to get provision balances',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  const sendStatement = (format: 'json' | 'pdf') => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const clientId = req.params.clientId as string;
+      const { caseId, from, to } = req.query;
+      await provisionLedgerService.checkClientAccess(clientId, req.user!.userId);
+      const statement = await provisionLedgerService.getStatement(clientId, {
+        ...(caseId ? { caseId: caseId as string } : {}),
+        ...(from ? { from: new Date(from as string) } : {}),
+        ...(to ? { to: new Date(to as string) } : {})
+      });
+
+      if (format === 'json') {
+        return res.json({
+          success: true,
+          data: statement
+        });
+      }
+
+      const pdf = await renderProvisionStatementPdf(statement);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${nomFichierReleveProvisions(statement)}"`);
+      res.send(pdf);
+    } catch (error) {
+      const status = settlementErrorStatus(error);
+      if (status === 500) {
+        logger.error('Error in provision statement endpoint', { error, clientId: req.params.clientId });
+      }
+      res.status(status).json({
+        error: 'Failed to generate provision statement',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  /**
+   * Client provision statement with running balance
+   * GET /api/billing/provisions/clients/:clientId/statement
+   */
+  router.get('/provisions/clients/:clientId/statement',
+    checkPermission('billing', 'read'),
+    sendStatement('json')
+  );
+
+  /**
+   * Client provision statement as a PDF
+   * GET /api/billing/provisions/clients/:clientId/statement/pdf
+   */
+  router.get('/provisions/clients/:clientId/statement/pdf',
+    checkPermission('billing', 'read'),
+    sendStatement('pdf')
+  );
+
+  /**
+   * Record a payment against an invoice
+   * POST /api/billing/invoices/:id/payments
+   */
+  router.post('/invoices/:id/payments',
+    checkPermission('billing', 'create'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const request: RecordPaymentRequest = {
+          ...req.body,
+          invoiceId: req.params.id as string,
+          amount: Number(req.body.amount),
+          ...(req.body.paymentDate ? { paymentDate: new Date(req.body.paymentDate) } : {}),
+          createdBy: req.user!.userId
+        };
+
+        const payment = await invoicePaymentService.recordPayment(request);
+
+        res.status(201).json({
+          success: true,
+          data: payment
+        });
+      } catch (error) {
+        const status = settlementErrorStatus(error);
+        if (status === 500) {
+          logger.error('Error in record payment endpoint', { error, invoiceId: req.params.id, body: req.body });
+        }
+        res.status(status).json({
+          error: 'Failed to record payment',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Payments and credit notes of an invoice
+   * GET /api/billing/invoices/:id/payments
+   */
+  router.get('/invoices/:id/payments',
+    checkPermission('billing', 'read'),
+    async (req: Request, res: Response) => {
+      try {
+        const [payments, creditNotes] = await Promise.all([
+          invoicePaymentService.getPayments(req.params.id),
+          invoicePaymentService.getCreditNotes(req.params.id)
+        ]);
+
+        res.json({
+          success: true,
+          data: { payments, creditNotes }
+        });
+      } catch (error) {
+        logger.error('Error in invoice payments endpoint', { error, invoiceId: req.params.id });
+        res.status(500).json({
+          error: 'Failed to get invoice payments',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Issue a credit note against an invoice
+   * POST /api/billing/invoices/:id/credit-notes
+   */
+  router.post('/invoices/:id/credit-notes',
+    checkPermission('billing', 'create'),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const request: CreateCreditNoteRequest = {
+          invoiceId: req.params.id as string,
+          amount: Number(req.body.amount),
+          reason: req.body.reason,
+          createdBy: req.user!.userId
+        };
+
+        const creditNote = await invoicePaymentService.createCreditNote(request);
+
+        res.status(201).json({
+          success: true,
+          data: creditNote
+        });
+      } catch (error) {
+        const status = settlementErrorStatus(error);
+        if (status === 500) {
+          logger.error('Error in credit note endpoint', { error, invoiceId: req.params.id, body: req.body });
+        }
+        res.status(status).json({
+          error: 'Failed to issue credit note',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Outstanding invoices by age bucket (0-30, 31-60, 61-90, 90+ days past due)
+   * GET /api/billing/aging
+   */
+  router.get('/aging',
+    checkPermission('billing', 'read'),
+    async (req: Request, res: Response) => {
+      try {
+        const { asOf, lawyerId, clientId } = req.query;
+        const report = await invoicePaymentService.getAgingReport({
+          ...(asOf ? { asOf: new Date(asOf as string) } : {}),
+          ...(lawyerId ? { lawyerId: lawyerId as string } : {}),
+          ...(clientId ? { clientId: clientId as string } : {})
+        });
+
+        res.json({
+          success: true,
+          data: report
+        });
+      } catch (error) {
+        logger.error('Error in aging report endpoint', { error, query: req.query });
+        res.status(500).json({
+          error: 'Failed to get aging report',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
+  /**
+   * Send the payment reminders that are due now
+   * POST /api/billing/reminders/run
+   */
+  router.post('/reminders/run',
+    checkPermission('billing', 'create'),
+    async (req: Request, res: Response) => {
+      try {
+        const sent = await invoicePaymentService.processPaymentReminders();
+
+        res.json({
+          success: true,
+          data: { sent }
+        });
+      } catch (error) {
+        logger.error('Error in payment reminders endpoint', { error });
+        res.status(500).json({
+          error: 'Failed to send payment reminders',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  );
+
   return router;
 }
 
 // Create and export the billing router with database connection
 import { db } from '../database/connection.js';
 import { BillingService } from '../services/billingService.js';
+import { invoicePaymentService } from '../services/invoicePaymentService.js';
 
-const billingService = new BillingService(db);
-export const billingRouter = createBillingRoutes(billingService);
\ No newline at end of file
+const taxConfigurationService = new TaxConfigurationService(db);
+const billingService = new BillingService(db, taxConfigurationService);
+const timeBillingService = new TimeBillingService(db, billingService);
+const provisionLedgerService = new ProvisionLedgerService(db);
+export const billingRouter = createBillingRoutes(
+  billingService,
+  timeBillingService,
+  provisionLedgerService,
+  invoicePaymentService,
+  taxConfigurationService
+);
\ No newline at end of file
@@ -0,0 +1,141 @@
+import express from 'express';
+import multer from 'multer';
+import { calendarFeedService } from '@/services/calendarFeedService';
+import { authMiddleware } from '@/middleware/auth';
+import { AuthenticatedRequest } from '@/types/auth';
+import { logger } from '@/utils/logger';
+
+const router = express.Router();
+
+// Configure multer for .ics uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics')) {
+      cb(null, true);
+    } else {
+      cb(new Error('File type not allowed'));
+    }
+  }
+});
+
+/**
+ * iCalendar subscription feed (token-protected, no session: calendar apps cannot log in)
+ * GET /api/calendar/feed/:token.ics
+ */
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const userId = await calendarFeedService.resolveFeedToken(req.params.token);
+    if (!userId) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const calendar = await calendarFeedService.buildUserFeed(userId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="juristdz.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+
+  } catch (error) {
+    logger.error('Calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to build calendar feed' });
+  }
+});
+
+/**
+ * Create (or rotate) the subscription token of the current user
+ * POST /api/calendar/feed-token
+ */
+router.post('/feed-token', authMiddleware, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const token = await calendarFeedService.createFeedToken(userId);
+    const path = `${req.baseUrl}/feed/${token}.ics`;
+
+    res.status(201).json({
+      success: true,
+      data: {
+        token,
+        path,
+        url: `${req.protocol}://${req.get('host')}${path}`
+      }
+    });
+
+  } catch (error) {
+    logger.error('Create calendar feed token error:', error);
+    res.status(500).json({
+      error: 'Failed to create calendar feed token',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Revoke the subscription token of the current user
+ * DELETE /api/calendar/feed-token
+ */
+router.delete('/feed-token', authMiddleware, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await calendarFeedService.revokeFeedToken(userId);
+
+    res.json({
+      success: true,
+      message: 'Calendar feed token revoked'
+    });
+
+  } catch (error) {
+    logger.error('Revoke calendar feed token error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke calendar feed token',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * One-shot import of an .ics file into the user's calendar
+ * POST /api/calendar/import (multipart "file", or JSON { content })
+ */
+router.post('/import', authMiddleware, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const content = req.file ? req.file.buffer.toString('utf8') : req.body?.content;
+    if (typeof content !== 'string' || !content.includes('BEGIN:VCALENDAR')) {
+      return res.status(400).json({ error: 'An iCalendar file is required' });
+    }
+
+    const result = await calendarFeedService.importICalendar(userId, content);
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    logger.error('Import calendar error:', error);
+    res.status(500).json({
+      error: 'Failed to import calendar',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -8,16 +8,47 @@ import {
   CreateCaseRequest,
   UpdateCaseRequest,
   CreateCaseEventRequest,
+  UpdateCaseEventRequest,
+  DeadlineChainRequest,
   CreateCaseNoteRequest,
   CreateCaseDeadlineRequest,
   CreateTimeEntryRequest,
   CreateExpenseRequest,
   CaseSearchCriteria
 } from '@/types/case';
-import { Profession } from '@/types/auth';
+import { AuthenticatedRequest, Profession } from '@/types/auth';
+import { deadlineChainService } from '@/services/deadlineChainService';
+import { ChainProcedure, ChainStepKey, JudgmentKind } from '@/legal/deadlineChains';
 
 const router = express.Router();
 
+const CHAIN_PROCEDURES: ChainProcedure[] = ['civil', 'administratif', 'penal'];
+const JUDGMENT_KINDS: JudgmentKind[] = ['contradictoire', 'defaut', 'arret'];
+const CHAIN_STEPS: ChainStepKey[] = ['signification', 'opposition', 'appel', 'cassation', 'execution'];
+
+/**
+ * Validate a deadline chain request; missing procedure and judgment kind are
+ * derived from the case. Returns null if invalid
+ */
+function parseDeadlineChainRequest(input: any): Partial<DeadlineChainRequest> | null {
+  const request: Partial<DeadlineChainRequest> = {};
+  if (input?.procedure !== undefined) {
+    if (!CHAIN_PROCEDURES.includes(input.procedure)) return null;
+    request.procedure = input.procedure;
+  }
+  if (input?.judgmentKind !== undefined) {
+    if (!JUDGMENT_KINDS.includes(input.judgmentKind)) return null;
+    request.judgmentKind = input.judgmentKind;
+  }
+  if (input?.steps !== undefined) {
+    if (!Array.isArray(input.steps) || !input.steps.every((step: any) => CHAIN_STEPS.includes(step))) {
+      return null;
+    }
+    request.steps = input.steps;
+  }
+  return request;
+}
+
 // Apply authentication to all routes
 router.use(authMiddleware);
 
@@ -142,9 +173,9 @@ router.post('/search', async (req, res) => {
  * Get lawyer's cases
  * GET /api/cases/my
  */
-router.get('/my', async (req, res) => {
+router.get('/my', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user?.userId;
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
@@ -290,14 +321,14 @@ router.post('/:id/documents', async (req, res) => {
  * Add event to case
  * POST /api/cases/:id/events
  */
-router.post('/:id/events', async (req, res) => {
+router.post('/:id/events', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user?.userId;
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const caseId = req.params.id;
+    const caseId = req.params.id as string;
     const eventData: CreateCaseEventRequest = req.body;
 
     // Validate required fields
@@ -310,6 +341,14 @@ router.post('/:id/events', async (req, res) => {
     // Convert date string to Date object
     eventData.eventDate = new Date(eventData.eventDate);
 
+    if (eventData.deadlineChain !== undefined) {
+      const chainRequest = parseDeadlineChainRequest(eventData.deadlineChain);
+      if (!chainRequest) {
+        return res.status(400).json({ error: 'Invalid deadline chain request' });
+      }
+      eventData.deadlineChain = chainRequest;
+    }
+
     const event = await caseManagementService.addCaseEvent(caseId, eventData, userId);
 
     res.status(201).json({
@@ -330,6 +369,137 @@ router.post('/:id/events', async (req, res) => {
   }
 });
 
+/**
+ * Update case event (a corrected date recalculates chained deadlines)
+ * PUT /api/cases/:id/events/:eventId
+ */
+router.put('/:id/events/:eventId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const caseId = req.params.id as string;
+    const eventId = req.params.eventId as string;
+    const updates: UpdateCaseEventRequest = req.body;
+
+    if (updates.eventDate !== undefined) {
+      updates.eventDate = new Date(updates.eventDate);
+      if (isNaN(updates.eventDate.getTime())) {
+        return res.status(400).json({ error: 'Invalid event date' });
+      }
+    }
+
+    const event = await caseManagementService.updateCaseEvent(caseId, eventId, updates, userId);
+
+    res.json({
+      success: true,
+      data: event
+    });
+
+  } catch (error) {
+    logger.error('Update case event error:', error);
+    if (error instanceof Error && error.message === 'Access denied') {
+      res.status(403).json({ error: 'Access denied' });
+    } else if (error instanceof Error && error.message === 'Event not found') {
+      res.status(404).json({ error: 'Event not found' });
+    } else {
+      res.status(500).json({
+        error: 'Failed to update case event',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * Preview the deadline chain of a judgment
+ * GET /api/cases/:id/events/:eventId/deadline-chain?procedure=civil&judgmentKind=defaut
+ */
+router.get('/:id/events/:eventId/deadline-chain', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const chainRequest = parseDeadlineChainRequest(req.query);
+    if (!chainRequest) {
+      return res.status(400).json({ error: 'Invalid deadline chain request' });
+    }
+
+    const caseId = req.params.id as string;
+    const eventId = req.params.eventId as string;
+    const event = await caseManagementService.getJudgmentEvent(caseId, eventId, userId);
+    const chain = await deadlineChainService.getChainForEvent(eventId);
+    const context = await caseManagementService.resolveDeadlineChainRequest(caseId, chainRequest);
+
+    res.json({
+      success: true,
+      data: {
+        chain,
+        proposed: deadlineChainService.previewChain(context, { jugement_rendu: event.eventDate })
+      }
+    });
+
+  } catch (error) {
+    logger.error('Preview deadline chain error:', error);
+    if (error instanceof Error && error.message === 'Access denied') {
+      res.status(403).json({ error: 'Access denied' });
+    } else if (error instanceof Error && error.message === 'Judgment event not found') {
+      res.status(404).json({ error: 'Judgment event not found' });
+    } else {
+      res.status(500).json({
+        error: 'Failed to preview deadline chain',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * Create the deadline chain of a judgment
+ * POST /api/cases/:id/events/:eventId/deadline-chain
+ */
+router.post('/:id/events/:eventId/deadline-chain', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const chainRequest = parseDeadlineChainRequest(req.body);
+    if (!chainRequest) {
+      return res.status(400).json({ error: 'Invalid deadline chain request' });
+    }
+
+    const caseId = req.params.id as string;
+    const eventId = req.params.eventId as string;
+    const deadlines = await caseManagementService.createDeadlineChain(caseId, eventId, chainRequest, userId);
+
+    res.status(201).json({
+      success: true,
+      data: deadlines
+    });
+
+  } catch (error) {
+    logger.error('Create deadline chain error:', error);
+    if (error instanceof Error && error.message === 'Access denied') {
+      res.status(403).json({ error: 'Access denied' });
+    } else if (error instanceof Error && error.message === 'Judgment event not found') {
+      res.status(404).json({ error: 'Judgment event not found' });
+    } else if (error instanceof Error && error.message === 'Deadline chain already exists') {
+      res.status(409).json({ error: 'Deadline chain already exists' });
+    } else {
+      res.status(500).json({
+        error: 'Failed to create deadline chain',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
 /**
  * Add note to case
  * POST /api/cases/:id/notes
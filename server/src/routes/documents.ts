@@ -10,8 +10,10 @@ import {
   DocumentSearchCriteria,
   DocumentExportOptions,
   BulkDocumentOperation,
-  DocumentAction
+  DocumentAction,
+  AttachmentScanStatus
 } from '@/types/document';
+import { AuthenticatedRequest } from '@/types/auth';
 
 const router = express.Router();
 
@@ -328,14 +330,18 @@ router.post('/:id/export', async (req, res) => {
       return res.status(400).json({ error: 'Export format is required' });
     }
 
+    if (options.layout && !['single', 'bilingual'].includes(options.layout)) {
+      return res.status(400).json({ error: 'Invalid export layout' });
+    }
+
     const exportData = await documentService.exportDocument(documentId, userId, options);
 
     // Set appropriate headers
     const contentTypes = {
       pdf: 'application/pdf',
       docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      html: 'text/html',
-      txt: 'text/plain'
+      html: 'text/html; charset=utf-8',
+      txt: 'text/plain; charset=utf-8'
     };
 
     const extensions = {
@@ -347,12 +353,17 @@ router.post('/:id/export', async (req, res) => {
 
     res.setHeader('Content-Type', contentTypes[options.format]);
     res.setHeader('Content-Disposition', `attachment; filename="document.${extensions[options.format]}"`);
+    res.setHeader('Content-Length', exportData.length);
     res.send(exportData);
 
   } catch (error) {
     logger.error('Export document error:', error);
     if (error instanceof Error && error.message === 'Access denied') {
       res.status(403).json({ error: 'Access denied' });
+    } else if (error instanceof Error && error.message === 'Document not found') {
+      res.status(404).json({ error: 'Document not found' });
+    } else if (error instanceof Error && /^(Bilingual export|Password protection)/.test(error.message)) {
+      res.status(400).json({ error: error.message });
     } else {
       res.status(500).json({ 
         error: 'Failed to export document',
@@ -425,14 +436,24 @@ router.post('/:id/attachments', upload.array('files', 10), async (req, res) => {
           userId,
           {
             encrypt: req.body.encrypt === 'true',
-            generateThumbnail: req.body.generateThumbnail === 'true'
+            generateThumbnail: req.body.generateThumbnail !== 'false'
           }
         );
 
-        uploadResults.push({
-          success: true,
-          attachment: result.attachment
-        });
+        // Infected files are kept in quarantine for admin review, not attached
+        if (result.attachment.scanStatus === AttachmentScanStatus.QUARANTINED) {
+          uploadResults.push({
+            success: false,
+            filename: file.originalname,
+            error: 'File quarantined by antivirus scan',
+            threats: result.attachment.scanThreats
+          });
+        } else {
+          uploadResults.push({
+            success: true,
+            attachment: result.attachment
+          });
+        }
 
       } catch (fileError) {
         uploadResults.push({
@@ -511,6 +532,11 @@ router.get('/attachments/:attachmentId/download', async (req, res) => {
     logger.error('Download attachment error:', error);
     if (error instanceof Error && error.message === 'Access denied') {
       res.status(403).json({ error: 'Access denied' });
+    } else if (error instanceof Error && error.message === 'Attachment not found') {
+      res.status(404).json({ error: 'Attachment not found' });
+    } else if (error instanceof Error && (error.message === 'Attachment is quarantined' || error.message === 'Attachment has not been scanned')) {
+      // Locked until the antivirus verdict is clean or an administrator releases the file
+      res.status(423).json({ error: 'Attachment unavailable', message: error.message });
     } else {
       res.status(500).json({ 
         error: 'Failed to download attachment',
@@ -520,6 +546,98 @@ router.get('/attachments/:attachmentId/download', async (req, res) => {
   }
 });
 
+/**
+ * Send an attachment thumbnail or page preview
+ */
+const sendAttachmentPreview = async (req: AuthenticatedRequest, res: express.Response, pageNumber?: number) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const preview = await fileStorageService.getAttachmentPreview(req.params.attachmentId!, userId, pageNumber);
+
+    res.setHeader('Content-Type', preview.mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(preview.buffer);
+
+  } catch (error) {
+    logger.error('Attachment preview error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message === 'Access denied') {
+      res.status(403).json({ error: 'Access denied' });
+    } else if (message === 'Attachment not found' || message === 'Preview not found') {
+      res.status(404).json({ error: message });
+    } else if (message === 'Attachment is quarantined' || message === 'Attachment has not been scanned') {
+      res.status(423).json({ error: 'Attachment unavailable', message });
+    } else {
+      res.status(500).json({ 
+        error: 'Failed to load preview',
+        message
+      });
+    }
+  }
+};
+
+/**
+ * Get attachment thumbnail
+ * GET /api/documents/attachments/:attachmentId/thumbnail
+ */
+router.get('/attachments/:attachmentId/thumbnail', async (req: AuthenticatedRequest, res) => {
+  await sendAttachmentPreview(req, res);
+});
+
+/**
+ * Get low-resolution preview of an attachment page
+ * GET /api/documents/attachments/:attachmentId/previews/:page
+ */
+router.get('/attachments/:attachmentId/previews/:page', async (req: AuthenticatedRequest, res) => {
+  const pageNumber = parseInt(req.params.page as string, 10);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    return res.status(400).json({ error: 'Invalid page number' });
+  }
+  await sendAttachmentPreview(req, res, pageNumber);
+});
+
+/**
+ * Render a thumbnail for a case file stored outside the server (not kept)
+ * POST /api/documents/previews/thumbnail
+ */
+router.post('/previews/thumbnail', upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const thumbnail = await fileStorageService.renderThumbnail(req.file.buffer, req.file.mimetype);
+
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.send(thumbnail);
+
+  } catch (error) {
+    logger.error('Thumbnail rendering error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message === 'Unsupported file type for preview') {
+      res.status(415).json({ error: message });
+    } else if (message === 'File contains malware') {
+      res.status(422).json({ error: message });
+    } else if (message === 'File could not be scanned') {
+      res.status(503).json({ error: message });
+    } else {
+      res.status(500).json({ 
+        error: 'Failed to render thumbnail',
+        message
+      });
+    }
+  }
+});
+
 /**
  * Delete file attachment
  * DELETE /api/documents/attachments/:attachmentId
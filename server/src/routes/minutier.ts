@@ -1,6 +1,8 @@
 import express from 'express';
 import { Pool } from 'pg';
 import { MinutierService } from '../services/minutierService.js';
+import { NotarialCertificateService } from '../services/notarialCertificateService.js';
+import { MinutierChainService } from '../services/minutierChainService.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkPermission } from '../middleware/rbacMiddleware.js';
 import { logger } from '../utils/logger.js';
@@ -12,12 +14,90 @@ import {
   MinutierRecherche,
   TypeActe,
   StatutActe,
-  TypeCopie
+  TypeCopie,
+  VerificationCopieRequest
 } from '../types/minutier.js';
 
 export function createMinutierRoutes(db: Pool): express.Router {
   const router = express.Router();
   const minutierService = new MinutierService(db);
+  const certificatService = new NotarialCertificateService(db);
+  const chaineService = new MinutierChainService(db);
+
+  /**
+   * GET|POST /api/minutier/verification-copie
+   * Vérification publique (sans authentification) d'une copie conforme,
+   * par code QR ou par numéro de copie ; le contenu présenté est facultatif
+   */
+  const verifierCopie = async (req: express.Request, res: express.Response) => {
+    const source = req.method === 'GET' ? req.query : req.body ?? {};
+    const texte = (valeur: unknown) => typeof valeur === 'string' && valeur.trim() ? valeur : undefined;
+    const requete: VerificationCopieRequest = {
+      ...(texte(source.qr) ? { qr: texte(source.qr)! } : {}),
+      ...(texte(source.numeroCopie) ? { numeroCopie: texte(source.numeroCopie)! } : {}),
+      ...(texte(source.numeroMinutier) ? { numeroMinutier: texte(source.numeroMinutier)! } : {}),
+      ...(req.method === 'POST' && typeof source.contenu === 'string' ? { contenu: source.contenu } : {})
+    };
+
+    try {
+      const verification = await minutierService.verifierCopieConforme(requete);
+
+      if (!verification) {
+        return res.status(404).json({
+          success: false,
+          message: 'Aucune copie conforme ne correspond à cette référence'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: verification,
+        message: verification.authentique && verification.inalteree
+          ? 'Copie conforme authentique et inaltérée'
+          : 'Copie conforme non valide'
+      });
+    } catch (error) {
+      if (error instanceof Error && (error.message.includes('invalide') || error.message.includes('requis') || error.message.includes('ambigu'))) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      logger.error('Error verifying copie conforme', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la vérification de la copie conforme'
+      });
+    }
+  };
+
+  router.get('/verification-copie', verifierCopie);
+  router.post('/verification-copie', verifierCopie);
+
+  /**
+   * GET /api/minutier/verification-copie/autorite
+   * Certificat de l'autorité de certification, pour la vérification hors ligne
+   */
+  router.get('/verification-copie/autorite', async (req, res) => {
+    try {
+      const certificatPem = await certificatService.obtenirCertificatAutorite();
+      if (!certificatPem) {
+        return res.status(404).json({
+          success: false,
+          message: 'Aucune autorité de certification active'
+        });
+      }
+
+      res.type('application/x-pem-file').send(certificatPem);
+    } catch (error) {
+      logger.error('Error getting certification authority', { error });
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la récupération du certificat de l\'autorité'
+      });
+    }
+  });
 
   // Apply authentication to all routes
   router.use(authenticateToken);
@@ -418,6 +498,135 @@ export function createMinutierRoutes(db: Pool): express.Router {
     }
   });
 
+  /**
+   * GET /api/minutier/verification-chaine
+   * Vérifier la chaîne d'empreintes du minutier et du répertoire du notaire
+   */
+  router.get('/verification-chaine', checkPermission('minutier:read'), async (req, res) => {
+    try {
+      const rapport = await chaineService.verifierChaine(req.user!.id);
+
+      res.json({
+        success: true,
+        data: rapport,
+        message: rapport.integre
+          ? 'Le minutier et le répertoire sont intègres'
+          : `${rapport.anomalies.length} anomalie(s) détectée(s) dans le minutier`
+      });
+    } catch (error) {
+      logger.error('Error verifying minutier chain', { error, userId: req.user!.id });
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la vérification de la chaîne du minutier'
+      });
+    }
+  });
+
+  /**
+   * GET /api/minutier/repertoire/:annee?format=pdf|csv
+   * Répertoire annuel des actes, refusé si la numérotation présente des lacunes
+   */
+  router.get('/repertoire/:annee', checkPermission('minutier:read'), async (req, res) => {
+    const annee = Number(req.params.annee);
+    const format = req.query.format ?? 'pdf';
+
+    if (!Number.isInteger(annee) || annee < 1900 || annee > new Date().getFullYear()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Année du répertoire invalide'
+      });
+    }
+    if (format !== 'pdf' && format !== 'csv') {
+      return res.status(400).json({
+        success: false,
+        message: 'Format du répertoire invalide (pdf ou csv)'
+      });
+    }
+
+    try {
+      const repertoire = await minutierService.genererRepertoireAnnuel(req.user!.id, annee, format);
+
+      res.setHeader('Content-Type', repertoire.typeMime);
+      res.setHeader('Content-Disposition', `attachment; filename="${repertoire.nomFichier}"`);
+      res.send(repertoire.contenu);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('incomplet')) {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      logger.error('Error generating annual repertoire', { error, userId: req.user!.id, annee });
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la génération du répertoire'
+      });
+    }
+  });
+
+  /**
+   * GET /api/minutier/certificats
+   * Lister les certificats de signature du notaire
+   */
+  router.get('/certificats', checkPermission('minutier:read'), async (req, res) => {
+    try {
+      const certificats = await certificatService.listerCertificats(req.user!.id);
+
+      res.json({
+        success: true,
+        data: certificats,
+        message: 'Certificats récupérés avec succès'
+      });
+    } catch (error) {
+      logger.error('Error listing notary certificates', { error, userId: req.user!.id });
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la récupération des certificats'
+      });
+    }
+  });
+
+  /**
+   * POST /api/minutier/certificats/:certificatId/revocation
+   * Révoquer un certificat (clé compromise, cessation de fonctions...)
+   */
+  router.post('/certificats/:certificatId/revocation', checkPermission('minutier:update'), async (req, res) => {
+    try {
+      const { certificatId } = req.params;
+      const { motif } = req.body;
+
+      if (!motif || typeof motif !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Le motif de révocation est requis'
+        });
+      }
+
+      const certificat = await certificatService.revoquerCertificat(certificatId, req.user!.id, motif);
+
+      res.json({
+        success: true,
+        data: certificat,
+        message: 'Certificat révoqué'
+      });
+    } catch (error) {
+      logger.error('Error revoking notary certificate', { error, userId: req.user!.id });
+
+      if (error instanceof Error && error.message.includes('non trouvé')) {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Erreur lors de la révocation du certificat'
+      });
+    }
+  });
+
   /**
    * GET /api/minutier/alertes
    * Obtenir les alertes du minutier
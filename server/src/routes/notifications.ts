@@ -1,11 +1,15 @@
 import express from 'express';
 import { notificationService } from '@/services/notificationService';
+import { notificationStreamService } from '@/services/notificationStreamService';
+import { formatSseComment, formatSseEvent, parseLastEventId } from '@/services/notificationStream';
 import { authMiddleware } from '@/middleware/auth';
 import { rbacMiddleware } from '@/middleware/rbacMiddleware';
 import { logger } from '@/utils/logger';
+import { AuthenticatedRequest } from '@/types/auth';
 import {
   CreateNotificationRequest,
   UpdateNotificationPreferencesRequest,
+  UpdateNotificationDeliverySettingsRequest,
   NotificationSearchCriteria,
   BulkNotificationRequest,
   DeadlineReminderConfig,
@@ -17,6 +21,10 @@ import {
 
 const router = express.Router();
 
+/** Délai de reconnexion suggéré au client, et intervalle de maintien de la connexion */
+const STREAM_RETRY_MS = 5000;
+const STREAM_HEARTBEAT_MS = 25000;
+
 // Apply authentication to all routes
 router.use(authMiddleware);
 
@@ -180,6 +188,57 @@ router.get('/my', async (req, res) => {
   }
 });
 
+/**
+ * Real-time notification stream (Server-Sent Events)
+ * GET /api/notifications/stream
+ *
+ * Events: `notification`, `deadline_alert`, `report_ready`. After a network
+ * drop, reconnecting with the `Last-Event-ID` header (or `?lastEventId=`)
+ * replays the events that were missed.
+ */
+router.get('/stream', async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.userId;
+  const lastEventId = parseLastEventId(req.headers['last-event-id']) ?? parseLastEventId(req.query.lastEventId);
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+  const heartbeat = setInterval(() => res.write(formatSseComment('ping')), STREAM_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+
+  try {
+    unsubscribe = await notificationStreamService.connect(userId, lastEventId, event => {
+      res.write(formatSseEvent(event));
+    });
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    // État des échéances à jour dès l'ouverture
+    await notificationStreamService.checkDeadlineAlerts(userId);
+
+  } catch (error) {
+    logger.error('Notification stream error:', error);
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    res.end();
+  }
+});
+
 /**
  * Mark notification as read
  * PUT /api/notifications/:id/read
@@ -260,6 +319,61 @@ router.put('/preferences', async (req, res) => {
   }
 });
 
+/**
+ * Get digest and quiet hours settings
+ * GET /api/notifications/delivery-settings
+ */
+router.get('/delivery-settings', async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const settings = await notificationService.getDeliverySettings(userId);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    logger.error('Get notification delivery settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve notification delivery settings'
+    });
+  }
+});
+
+/**
+ * Update digest and quiet hours settings
+ * PUT /api/notifications/delivery-settings
+ */
+router.put('/delivery-settings', async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+    const updates: UpdateNotificationDeliverySettingsRequest = req.body;
+
+    const settings = await notificationService.updateDeliverySettings(userId, updates);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Invalid') || message.startsWith('Quiet hours')) {
+      res.status(400).json({ success: false, error: message });
+      return;
+    }
+
+    logger.error('Update notification delivery settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notification delivery settings'
+    });
+  }
+});
+
 /**
  * Configure deadline reminders
  * POST /api/notifications/deadline-reminders
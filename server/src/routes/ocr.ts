@@ -0,0 +1,106 @@
+import express from 'express';
+import multer from 'multer';
+import { ocrJobService } from '@/services/ocrJobService';
+import { isOcrSupported } from '@/services/ocrAnalysis';
+import { authMiddleware } from '@/middleware/auth';
+import { logger } from '@/utils/logger';
+import { AuthenticatedRequest } from '@/types/auth';
+
+const router = express.Router();
+
+// Documents numérisés : un fichier par travail
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (isOcrSupported(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('File type not allowed'));
+    }
+  }
+});
+
+router.use(authMiddleware);
+
+const statusForError = (message: string): number => {
+  if (message === 'Access denied') return 403;
+  if (message === 'Attachment not found') return 404;
+  if (message === 'Unsupported file type for OCR') return 415;
+  if (message === 'Attachment is quarantined') return 423;
+  return 500;
+};
+
+/**
+ * Start an OCR job, either on an uploaded scan or on an existing attachment
+ * POST /api/ocr/jobs
+ */
+router.post('/jobs', upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const documentId = typeof req.body.documentId === 'string' && req.body.documentId ? req.body.documentId : undefined;
+    const attachmentId = typeof req.body.attachmentId === 'string' ? req.body.attachmentId : undefined;
+
+    let job;
+    if (req.file) {
+      job = await ocrJobService.uploadAndCreateJob(req.file, userId, documentId);
+    } else if (attachmentId) {
+      job = await ocrJobService.createJob(attachmentId, userId);
+    } else {
+      return res.status(400).json({ error: 'A file or an attachmentId is required' });
+    }
+
+    res.status(202).json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    logger.error('OCR job creation error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(statusForError(message)).json({
+      error: 'Failed to start OCR',
+      message
+    });
+  }
+});
+
+/**
+ * Get OCR job progress and page results
+ * GET /api/ocr/jobs/:jobId
+ */
+router.get('/jobs/:jobId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const job = await ocrJobService.getJob(req.params.jobId as string, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'OCR job not found' });
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    logger.error('Get OCR job error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(statusForError(message)).json({
+      error: 'Failed to retrieve OCR job',
+      message
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,10 @@
 import express from 'express';
 import { reportService } from '@/services/reportService';
+import { scheduledReportService } from '@/services/scheduledReportService';
 import { authMiddleware } from '@/middleware/auth';
 import { rbacMiddleware } from '@/middleware/rbacMiddleware';
 import { logger } from '@/utils/logger';
+import { AuthenticatedRequest } from '@/types/auth';
 import { db } from '@/database/connection';
 import {
   CreateReportRequest,
@@ -12,7 +14,9 @@ import {
   ReportType,
   ReportFormat,
   ReportStatus,
-  ExportConfiguration
+  ExportConfiguration,
+  CreateScheduledReportRequest,
+  UpdateScheduledReportRequest
 } from '@/types/report';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -227,6 +231,190 @@ router.get('/my', async (req, res) => {
   }
 });
 
+/**
+ * Scheduled reports of the current user
+ * GET /api/reports/schedules
+ */
+router.get('/schedules', rbacMiddleware('report', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const schedules = await scheduledReportService.getSchedules(userId);
+
+    res.json({
+      success: true,
+      data: schedules
+    });
+
+  } catch (error) {
+    logger.error('Get scheduled reports error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve scheduled reports'
+    });
+  }
+});
+
+/**
+ * Create a scheduled report
+ * POST /api/reports/schedules
+ */
+router.post('/schedules', rbacMiddleware('report', 'create'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const scheduleData: CreateScheduledReportRequest = req.body;
+    const userId = req.user!.userId;
+
+    if (!scheduleData?.templateId || !scheduleData.title || !scheduleData.schedule?.frequency) {
+      return res.status(400).json({
+        success: false,
+        error: 'templateId, title and schedule.frequency are required'
+      });
+    }
+
+    const schedule = await scheduledReportService.createSchedule(scheduleData, userId);
+
+    res.status(201).json({
+      success: true,
+      data: schedule
+    });
+
+  } catch (error) {
+    logger.error('Create scheduled report error:', error);
+    sendScheduleError(res, error, 'Failed to create scheduled report');
+  }
+});
+
+/**
+ * Get a scheduled report
+ * GET /api/reports/schedules/:scheduleId
+ */
+router.get('/schedules/:scheduleId', rbacMiddleware('report', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const schedule = await scheduledReportService.getSchedule(req.params.scheduleId as string, userId);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled report not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+
+  } catch (error) {
+    logger.error('Get scheduled report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve scheduled report'
+    });
+  }
+});
+
+/**
+ * Update a scheduled report (pause with { isActive: false })
+ * PUT /api/reports/schedules/:scheduleId
+ */
+router.put('/schedules/:scheduleId', rbacMiddleware('report', 'create'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const updates: UpdateScheduledReportRequest = req.body;
+    const userId = req.user!.userId;
+
+    const schedule = await scheduledReportService.updateSchedule(req.params.scheduleId as string, updates, userId);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled report not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+
+  } catch (error) {
+    logger.error('Update scheduled report error:', error);
+    sendScheduleError(res, error, 'Failed to update scheduled report');
+  }
+});
+
+/**
+ * Delete a scheduled report
+ * DELETE /api/reports/schedules/:scheduleId
+ */
+router.delete('/schedules/:scheduleId', rbacMiddleware('report', 'create'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const deleted = await scheduledReportService.deleteSchedule(req.params.scheduleId as string, userId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled report not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Scheduled report deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete scheduled report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete scheduled report'
+    });
+  }
+});
+
+/**
+ * Run history of a scheduled report
+ * GET /api/reports/schedules/:scheduleId/runs
+ */
+router.get('/schedules/:scheduleId/runs', rbacMiddleware('report', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+    const runs = await scheduledReportService.getRuns(req.params.scheduleId as string, userId, limit);
+
+    if (!runs) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled report not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: runs
+    });
+
+  } catch (error) {
+    logger.error('Get scheduled report runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve scheduled report runs'
+    });
+  }
+});
+
+// Helper function to map scheduled report validation errors
+function sendScheduleError(res: express.Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && error.message.startsWith('Invalid')) {
+    res.status(400).json({ success: false, error: error.message });
+  } else if (error instanceof Error && error.message === 'Report template not found') {
+    res.status(404).json({ success: false, error: error.message });
+  } else {
+    res.status(500).json({ success: false, error: fallback });
+  }
+}
+
 /**
  * Get report by ID
  * GET /api/reports/:id
@@ -308,7 +496,15 @@ router.get('/:id/download', rbacMiddleware(['report:read']), async (req, res) =>
       LEFT JOIN users u ON r.generated_by = u.id
       LEFT JOIN user_profiles up ON u.id = up.user_id AND up.is_primary = true
       WHERE r.id = $1
-      AND (r.generated_by = $2 OR $3 = 'Administrateur_Plateforme')
+      AND (
+        r.generated_by = $2 OR $3 = 'Administrateur_Plateforme'
+        OR EXISTS (
+          SELECT 1 FROM report_shares rs
+          WHERE rs.report_id = r.id AND rs.is_active = true
+          AND rs.shared_with ? $2::text AND rs.permissions ? 'download'
+          AND (rs.expires_at IS NULL OR rs.expires_at > CURRENT_TIMESTAMP)
+        )
+      )
       AND r.status = 'completed'
       AND r.file_path IS NOT NULL
     `;
@@ -351,14 +547,27 @@ router.get('/:id/download', rbacMiddleware(['report:read']), async (req, res) =>
       ]
     );
 
-    // Set appropriate headers
-    const fileName = `${report.title.replace(/[^a-zA-Z0-9]/g, '_')}.${report.format}`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', getContentType(report.format));
-    res.setHeader('Content-Length', report.file_size);
+    // Set appropriate headers (the extension comes from the stored file, e.g. .xlsx or .csv.gz)
+    const extension = path.basename(report.file_path).replace(/^[^.]*/, '');
+    const fileName = `${report.title.replace(/[^\p{L}\p{N}]+/gu, '_')}${extension}`;
+    const asciiFileName = `${report.title.replace(/[^a-zA-Z0-9]/g, '_')}${extension}`;
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${asciiFileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    );
+    res.setHeader('Content-Type', getContentType(report.file_path));
+    res.setHeader('Content-Length', fs.statSync(report.file_path).size);
 
     // Stream the file
     const fileStream = fs.createReadStream(report.file_path);
+    fileStream.on('error', (error) => {
+      logger.error('Report file stream error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ success: false, error: 'Failed to download report' });
+      } else {
+        res.destroy(error);
+      }
+    });
     fileStream.pipe(res);
 
   } catch (error) {
@@ -370,14 +579,15 @@ router.get('/:id/download', rbacMiddleware(['report:read']), async (req, res) =>
   }
 });
 
-// Helper function to get content type
-function getContentType(format: string): string {
-  switch (format) {
-    case 'pdf': return 'application/pdf';
-    case 'excel': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-    case 'csv': return 'text/csv';
-    case 'json': return 'application/json';
-    case 'html': return 'text/html';
+// Helper function to get content type from the stored file extension
+function getContentType(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.gz': return 'application/gzip';
+    case '.pdf': return 'application/pdf';
+    case '.xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case '.csv': return 'text/csv; charset=utf-8';
+    case '.json': return 'application/json; charset=utf-8';
+    case '.html': return 'text/html; charset=utf-8';
     default: return 'application/octet-stream';
   }
 }
@@ -0,0 +1,341 @@
+import express from 'express';
+import { timeTrackingService } from '@/services/timeTrackingService';
+import { authMiddleware } from '@/middleware/auth';
+import { requireRole } from '@/middleware/rbacMiddleware';
+import { logger } from '@/utils/logger';
+import { AcceptSuggestionRequest, StartTimerRequest } from '@/types/case';
+import { AuthenticatedRequest, Profession } from '@/types/auth';
+
+const router = express.Router();
+
+/**
+ * HTTP status for a time tracking error; 500 if unexpected
+ */
+function timeTrackingErrorStatus(message: string): number {
+  if (message === 'Access denied') return 403;
+  if (message === 'Timer not found' || message === 'Suggestion not found') return 404;
+  if (
+    message === 'A timer is already running' ||
+    message === 'Timer is already running' ||
+    message === 'Timer is already paused' ||
+    message === 'Idle time must be kept or discarded first' ||
+    message === 'This event is already recorded as a time entry'
+  ) {
+    return 409;
+  }
+  if (
+    message === 'Description is required' ||
+    message === 'Case is required to record the time entry' ||
+    message.startsWith('Invalid')
+  ) {
+    return 400;
+  }
+  return 500;
+}
+
+function sendError(res: express.Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = timeTrackingErrorStatus(message);
+  if (status === 500) {
+    res.status(500).json({ error: fallback, message });
+  } else {
+    res.status(status).json({ error: message });
+  }
+}
+
+// Apply authentication to all routes
+router.use(authMiddleware);
+
+// Restrict access to lawyers only
+router.use(requireRole([Profession.AVOCAT]));
+
+/**
+ * Get the running timer of the user (null if none)
+ * GET /api/time/timer
+ */
+router.get('/timer', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timer = await timeTrackingService.getTimer(userId);
+
+    res.json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Get timer error:', error);
+    sendError(res, error, 'Failed to get timer');
+  }
+});
+
+/**
+ * Start a timer; only one per user
+ * POST /api/time/timer/start
+ */
+router.post('/timer/start', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const request: StartTimerRequest = req.body;
+    const timer = await timeTrackingService.startTimer(userId, request);
+
+    res.status(201).json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Start timer error:', error);
+    sendError(res, error, 'Failed to start timer');
+  }
+});
+
+/**
+ * POST /api/time/timer/pause
+ */
+router.post('/timer/pause', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timer = await timeTrackingService.pauseTimer(userId);
+
+    res.json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Pause timer error:', error);
+    sendError(res, error, 'Failed to pause timer');
+  }
+});
+
+/**
+ * POST /api/time/timer/resume
+ */
+router.post('/timer/resume', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timer = await timeTrackingService.resumeTimer(userId);
+
+    res.json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Resume timer error:', error);
+    sendError(res, error, 'Failed to resume timer');
+  }
+});
+
+/**
+ * Report user activity from a device (idle detection)
+ * POST /api/time/timer/heartbeat
+ */
+router.post('/timer/heartbeat', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timer = await timeTrackingService.recordActivity(userId);
+
+    res.json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Timer heartbeat error:', error);
+    sendError(res, error, 'Failed to record activity');
+  }
+});
+
+/**
+ * Keep or discard the pending idle time
+ * POST /api/time/timer/idle
+ */
+router.post('/timer/idle', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timer = await timeTrackingService.resolveIdle(userId, req.body?.decision);
+
+    res.json({
+      success: true,
+      data: timer
+    });
+
+  } catch (error) {
+    logger.error('Resolve idle time error:', error);
+    sendError(res, error, 'Failed to resolve idle time');
+  }
+});
+
+/**
+ * Stop the timer and record the time entry
+ * POST /api/time/timer/stop
+ */
+router.post('/timer/stop', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const timeEntry = await timeTrackingService.stopTimer(userId, req.body?.caseId);
+
+    res.status(201).json({
+      success: true,
+      data: timeEntry
+    });
+
+  } catch (error) {
+    logger.error('Stop timer error:', error);
+    sendError(res, error, 'Failed to stop timer');
+  }
+});
+
+/**
+ * Discard the timer without recording time
+ * DELETE /api/time/timer
+ */
+router.delete('/timer', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await timeTrackingService.discardTimer(userId);
+
+    res.json({
+      success: true,
+      message: 'Timer discarded'
+    });
+
+  } catch (error) {
+    logger.error('Discard timer error:', error);
+    sendError(res, error, 'Failed to discard timer');
+  }
+});
+
+/**
+ * Recent time entries of the user
+ * GET /api/time/entries
+ */
+router.get('/entries', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 10;
+    const entries = await timeTrackingService.getRecentEntries(userId, limit);
+
+    res.json({
+      success: true,
+      data: entries
+    });
+
+  } catch (error) {
+    logger.error('Get recent time entries error:', error);
+    sendError(res, error, 'Failed to get time entries');
+  }
+});
+
+/**
+ * Time entries suggested from the calendar events of a day
+ * GET /api/time/suggestions?date=YYYY-MM-DD
+ */
+router.get('/suggestions', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const day = typeof req.query.date === 'string' ? req.query.date : '';
+    const suggestions = await timeTrackingService.getSuggestions(userId, day);
+
+    res.json({
+      success: true,
+      data: suggestions
+    });
+
+  } catch (error) {
+    logger.error('Get time entry suggestions error:', error);
+    sendError(res, error, 'Failed to get time entry suggestions');
+  }
+});
+
+/**
+ * Record a suggested time entry, optionally corrected
+ * POST /api/time/suggestions/:eventId/accept
+ */
+router.post('/suggestions/:eventId/accept', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const request: AcceptSuggestionRequest = req.body || {};
+    const timeEntry = await timeTrackingService.acceptSuggestion(userId, req.params.eventId as string, request);
+
+    res.status(201).json({
+      success: true,
+      data: timeEntry
+    });
+
+  } catch (error) {
+    logger.error('Accept time entry suggestion error:', error);
+    sendError(res, error, 'Failed to record suggested time entry');
+  }
+});
+
+/**
+ * POST /api/time/suggestions/:eventId/dismiss
+ */
+router.post('/suggestions/:eventId/dismiss', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await timeTrackingService.dismissSuggestion(userId, req.params.eventId as string);
+
+    res.json({
+      success: true,
+      message: 'Suggestion dismissed'
+    });
+
+  } catch (error) {
+    logger.error('Dismiss time entry suggestion error:', error);
+    sendError(res, error, 'Failed to dismiss suggestion');
+  }
+});
+
+export default router;
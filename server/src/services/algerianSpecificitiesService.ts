@@ -1,5 +1,23 @@
 import { getDb } from '@/database/connection';
 import { logger } from '@/utils/logger';
+import {
+  DeadlineExtensionKind,
+  ProceduralDeadlineComputation,
+  addRuleDuration,
+  carryOverToWorkingDay,
+  computeProceduralDeadline,
+  isAlgerianWeekend,
+  toDateOnly
+} from '@/legal/proceduralDeadlineRules';
+import {
+  HijriHolidayCode,
+  HijriHolidayOverride,
+  PublicHoliday,
+  JudicialVacationWindow,
+  judicialCalendar,
+  gregorianToHijri,
+  hijriToGregorian
+} from '@/legal/judicialCalendar';
 
 /**
  * Service d'adaptation aux spécificités locales algériennes
@@ -380,44 +398,17 @@ export class AlgerianSpecificitiesService {
 
   /**
    * Charge le calendrier judiciaire algérien
+   * Les fêtes religieuses sont calculées par le calendrier de l'Hégire puis
+   * corrigées par les dates officielles saisies par l'administration
    */
-  async loadJudicialCalendar(): Promise<void> {
-    const annee = new Date().getFullYear();
-    
-    // Jours chômés fixes en Algérie
-    const joursChomesFixes = [
-      `${annee}-01-01`, // Nouvel An
-      `${annee}-05-01`, // Fête du Travail
-      `${annee}-07-05`, // Fête de l'Indépendance
-      `${annee}-11-01`, // Anniversaire de la Révolution
-    ];
-
-    // Jours chômés religieux (dates approximatives, à ajuster selon le calendrier lunaire)
-    const joursChomesReligieux = [
-      `${annee}-04-21`, // Aïd el-Fitr (exemple)
-      `${annee}-06-28`, // Aïd el-Adha (exemple)
-      `${annee}-07-19`, // Nouvel An Hégire (exemple)
-      `${annee}-09-27`, // Mawlid (exemple)
-    ];
+  async loadJudicialCalendar(annee: number = new Date().getFullYear()): Promise<void> {
+    await this.loadHolidayOverrides();
 
     const calendrier: CalendrierJudiciaire = {
       annee,
       joursOuvres: this.generateWorkingDays(annee),
-      joursChomes: [...joursChomesFixes, ...joursChomesReligieux].map(d => new Date(d)),
-      vacancesJudiciaires: [
-        {
-          nom: 'Vacances d\'été',
-          dateDebut: new Date(`${annee}-07-15`),
-          dateFin: new Date(`${annee}-09-15`),
-          type: 'vacances_ete'
-        },
-        {
-          nom: 'Vacances d\'hiver',
-          dateDebut: new Date(`${annee}-12-20`),
-          dateFin: new Date(`${annee + 1}-01-05`),
-          type: 'vacances_hiver'
-        }
-      ],
+      joursChomes: judicialCalendar.getHolidays(annee).map(h => this.toLocalDate(h.date)),
+      vacancesJudiciaires: judicialCalendar.getJudicialVacations(annee).map(w => this.toVacationPeriod(w)),
       evenementsSpeciaux: [
         {
           nom: 'Assemblée Générale du Barreau',
@@ -433,6 +424,69 @@ export class AlgerianSpecificitiesService {
     this.calendrierJudiciaire = calendrier;
   }
 
+  /**
+   * Jours fériés et vacances judiciaires d'une année
+   */
+  getJudicialCalendarYear(annee: number): {
+    annee: number;
+    joursFeries: PublicHoliday[];
+    vacancesJudiciaires: JudicialVacationWindow[];
+    corrections: HijriHolidayOverride[];
+  } {
+    return {
+      annee,
+      joursFeries: judicialCalendar.getHolidays(annee),
+      vacancesJudiciaires: judicialCalendar.getJudicialVacations(annee),
+      corrections: judicialCalendar.getOverrides(annee)
+    };
+  }
+
+  /**
+   * Charge les dates officielles des fêtes religieuses dans le calendrier partagé
+   */
+  async loadHolidayOverrides(): Promise<HijriHolidayOverride[]> {
+    const result = await this.db.query(
+      "SELECT year, code, TO_CHAR(date, 'YYYY-MM-DD') AS date FROM judicial_calendar_overrides ORDER BY year, code"
+    );
+    const overrides: HijriHolidayOverride[] = result.rows.map((row: any) => ({
+      year: row.year,
+      code: row.code,
+      date: row.date
+    }));
+    judicialCalendar.setOverrides(overrides);
+    return overrides;
+  }
+
+  /**
+   * Enregistre la date officielle d'une fête religieuse pour une année
+   */
+  async setHolidayOverride(override: HijriHolidayOverride, userId: string): Promise<HijriHolidayOverride[]> {
+    await this.db.query(`
+      INSERT INTO judicial_calendar_overrides (year, code, date, updated_by)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (year, code) DO UPDATE SET
+        date = EXCLUDED.date,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+    `, [override.year, override.code, override.date, userId]);
+
+    logger.info(`Date officielle enregistrée: ${override.code} ${override.year} = ${override.date}`);
+    await this.loadJudicialCalendar(override.year);
+    return judicialCalendar.getOverrides(override.year);
+  }
+
+  /**
+   * Supprime une correction : la date calculée s'applique de nouveau
+   */
+  async deleteHolidayOverride(annee: number, code: HijriHolidayCode): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM judicial_calendar_overrides WHERE year = $1 AND code = $2',
+      [annee, code]
+    );
+    await this.loadJudicialCalendar(annee);
+    return (result.rowCount ?? 0) > 0;
+  }
+
   /**
    * Charge les procédures spécifiques algériennes
    */
@@ -508,6 +562,8 @@ export class AlgerianSpecificitiesService {
 
   /**
    * Calcule les délais selon le calendrier judiciaire algérien
+   * Le délai court en jours calendaires ; seule une échéance tombant un jour
+   * chômé est reportée au premier jour ouvrable suivant
    */
   async calculateAlgerianDelay(
     dateDebut: Date,
@@ -525,46 +581,45 @@ export class AlgerianSpecificitiesService {
         await this.loadJudicialCalendar();
       }
 
+      const isNonWorkingDay = (date: Date) => this.isNonWorkingDay(date);
+      const echeanceNominale = addRuleDuration(dateDebut, { value: nombreJours, unit: 'days' }, 'calendar', isNonWorkingDay);
+      const dateEcheance = carryOverToWorkingDay(echeanceNominale, isNonWorkingDay);
+
       const ajustements: string[] = [];
-      let dateCalcul = new Date(dateDebut);
-      let joursRestants = nombreJours;
       let joursOuvres = 0;
       let joursChomes = 0;
       const vacancesIncluses: VacationPeriod[] = [];
 
-      while (joursRestants > 0) {
-        dateCalcul.setDate(dateCalcul.getDate() + 1);
-
-        // Vérifier si c'est un jour chômé
-        const estJourChome = this.isHoliday(dateCalcul);
-        
-        // Vérifier si c'est pendant les vacances judiciaires
-        const vacancesEnCours = this.getVacationPeriod(dateCalcul);
-        
-        if (estJourChome) {
+      const jour = toDateOnly(dateDebut);
+      while (jour < dateEcheance) {
+        jour.setDate(jour.getDate() + 1);
+        if (isNonWorkingDay(jour)) {
           joursChomes++;
-          ajustements.push(`Jour chômé: ${dateCalcul.toLocaleDateString('fr-FR')}`);
-        } else if (vacancesEnCours) {
-          if (!vacancesIncluses.find(v => v.nom === vacancesEnCours.nom)) {
-            vacancesIncluses.push(vacancesEnCours);
-            ajustements.push(`Vacances judiciaires: ${vacancesEnCours.nom}`);
-          }
-          // Pendant les vacances, les délais peuvent être suspendus
-          ajustements.push(`Délai suspendu pendant ${vacancesEnCours.nom}`);
         } else {
-          // Jour ouvré normal
           joursOuvres++;
-          joursRestants--;
+        }
+
+        // Les vacances judiciaires ne suspendent pas le délai : simple information
+        const vacancesEnCours = this.getVacationPeriod(jour);
+        if (vacancesEnCours && !vacancesIncluses.find(v => v.nom === vacancesEnCours.nom)) {
+          vacancesIncluses.push(vacancesEnCours);
+          ajustements.push(`Vacances judiciaires: ${vacancesEnCours.nom}`);
         }
       }
 
+      if (dateEcheance.getTime() !== echeanceNominale.getTime()) {
+        ajustements.push(
+          `Échéance du ${echeanceNominale.toLocaleDateString('fr-FR')} (jour chômé) reportée au ${dateEcheance.toLocaleDateString('fr-FR')}`
+        );
+      }
+
       // Ajustements spéciaux pour le Ramadan
-      if (this.isRamadanPeriod(dateDebut, dateCalcul)) {
+      if (this.isRamadanPeriod(dateDebut, dateEcheance)) {
         ajustements.push('Période de Ramadan: horaires réduits appliqués');
       }
 
       return {
-        dateEcheance: dateCalcul,
+        dateEcheance,
         joursOuvres,
         joursChomes,
         vacancesIncluses,
@@ -577,6 +632,25 @@ export class AlgerianSpecificitiesService {
     }
   }
 
+  /**
+   * Calcule l'échéance d'un délai de procédure à partir du référentiel partagé,
+   * en reportant l'échéance au premier jour ouvrable du calendrier judiciaire
+   */
+  async calculateProceduralDeadline(
+    ruleCode: string,
+    dateDebut: Date,
+    extensions: DeadlineExtensionKind[] = []
+  ): Promise<ProceduralDeadlineComputation> {
+    if (!this.calendrierJudiciaire) {
+      await this.loadJudicialCalendar();
+    }
+
+    return computeProceduralDeadline(ruleCode, dateDebut, {
+      extensions,
+      isNonWorkingDay: date => this.isNonWorkingDay(date)
+    });
+  }
+
   /**
    * Obtient les barèmes d'honoraires pour un barreau
    */
@@ -804,6 +878,19 @@ export class AlgerianSpecificitiesService {
       )
     `);
 
+    // Dates officielles des fêtes religieuses (corrections du calcul hégirien)
+    await this.db.query(`
+      CREATE TABLE IF NOT EXISTS judicial_calendar_overrides (
+        year INTEGER NOT NULL,
+        code VARCHAR(50) NOT NULL,
+        date DATE NOT NULL,
+        updated_by VARCHAR(255),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (year, code)
+      )
+    `);
+
     // Index pour les recherches
     await this.db.query(`
       CREATE INDEX IF NOT EXISTS idx_courts_wilaya ON algerian_courts (wilaya)
@@ -916,28 +1003,45 @@ export class AlgerianSpecificitiesService {
   }
 
   private isHoliday(date: Date): boolean {
-    if (!this.calendrierJudiciaire) return false;
-    
-    return this.calendrierJudiciaire.joursChomes.some(holiday => 
-      holiday.toDateString() === date.toDateString()
-    );
+    return judicialCalendar.isHoliday(date);
+  }
+
+  private isNonWorkingDay(date: Date): boolean {
+    return isAlgerianWeekend(date) || this.isHoliday(date);
   }
 
   private getVacationPeriod(date: Date): VacationPeriod | null {
-    if (!this.calendrierJudiciaire) return null;
-    
-    return this.calendrierJudiciaire.vacancesJudiciaires.find(vacation =>
-      date >= vacation.dateDebut && date <= vacation.dateFin
-    ) || null;
+    const window = judicialCalendar.getJudicialVacation(date);
+    return window ? this.toVacationPeriod(window) : null;
+  }
+
+  private toVacationPeriod(window: JudicialVacationWindow): VacationPeriod {
+    return {
+      nom: window.labelFr,
+      dateDebut: this.toLocalDate(window.start),
+      dateFin: this.toLocalDate(window.end),
+      type: window.code
+    };
+  }
+
+  private toLocalDate(isoDate: string): Date {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
   }
 
   private isRamadanPeriod(startDate: Date, endDate: Date): boolean {
-    // Logique simplifiée - en production, intégrer avec un calendrier islamique
-    const currentYear = startDate.getFullYear();
-    const ramadanStart = new Date(currentYear, 3, 1); // Approximation
-    const ramadanEnd = new Date(currentYear, 4, 1);
-    
-    return (startDate <= ramadanEnd && endDate >= ramadanStart);
+    // Ramadan = 9e mois de l'Hégire ; on teste les années hégiriennes couvertes par la période
+    const firstYear = gregorianToHijri(startDate).year;
+    const lastYear = gregorianToHijri(endDate).year;
+
+    for (let year = firstYear; year <= lastYear; year++) {
+      const ramadanStart = hijriToGregorian(year, 9, 1);
+      const ramadanEnd = hijriToGregorian(year, 10, 1);
+      if (startDate < ramadanEnd && endDate >= ramadanStart) {
+        return true;
+      }
+    }
+    return false;
   }
 }
 
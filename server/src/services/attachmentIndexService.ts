@@ -0,0 +1,232 @@
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { fileStorageService } from '@/services/fileStorageService';
+import { ExtractedText, canExtractText, extractAttachmentText } from '@/services/attachmentTextExtractor';
+import { countWords, detectOcrLanguage } from '@/services/ocrAnalysis';
+import { HEADLINE_OPTIONS, formatHighlight, normalizeSearchText } from '@/utils/searchText';
+import { AttachmentSearchMatch } from '@/types/document';
+
+/**
+ * Attachment Index Service
+ * Indexation plein texte des pièces jointes en arrière-plan : les nouvelles
+ * pièces déclarées saines par l'antivirus sont découvertes à chaque passage,
+ * leur texte extrait (ou repris de l'OCR), normalisé puis stocké avec son
+ * tsvector « french ».
+ */
+
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 3;
+/** Un tsvector est limité à 1 Mo : au-delà, seul le début du texte est indexé */
+const MAX_INDEXED_CHARS = 500_000;
+
+export class AttachmentIndexService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Indexer les pièces jointes nouvelles ou à réindexer
+   */
+  async processPendingAttachments(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+    try {
+      await db.query(
+        `INSERT INTO attachment_text_index (attachment_id, document_id)
+         SELECT da.id, da.document_id
+         FROM document_attachments da
+         LEFT JOIN attachment_text_index ati ON ati.attachment_id = da.id
+         WHERE ati.attachment_id IS NULL
+           AND da.scan_status IN ('clean', 'released')
+         ON CONFLICT (attachment_id) DO NOTHING`
+      );
+
+      // Une pièce en échec n'est retentée qu'au passage suivant
+      const attempted: string[] = [];
+      let batch = await this.getPendingBatch(attempted);
+      while (batch.length > 0) {
+        for (const attachmentId of batch) {
+          await this.indexAttachment(attachmentId);
+          attempted.push(attachmentId);
+          processed++;
+        }
+        batch = await this.getPendingBatch(attempted);
+      }
+
+      if (processed > 0) {
+        logger.info(`Indexed ${processed} attachments`);
+      }
+    } catch (error) {
+      logger.error('Error indexing attachments:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Réindexer une pièce jointe, par exemple lorsque son OCR vient de se terminer
+   */
+  async markForReindex(attachmentId: string): Promise<void> {
+    await db.query(
+      `INSERT INTO attachment_text_index (attachment_id, document_id)
+       SELECT id, document_id FROM document_attachments WHERE id = $1
+       ON CONFLICT (attachment_id) DO UPDATE
+       SET status = 'pending', attempts = 0, updated_at = CURRENT_TIMESTAMP`,
+      [attachmentId]
+    );
+
+    void this.processPendingAttachments();
+  }
+
+  /**
+   * Pièces jointes des documents donnés dont le texte répond à la requête, avec extraits surlignés
+   * Mêmes droits que le téléchargement : propriétaire ou permission de lecture
+   */
+  async findMatches(documentIds: string[], query: string, userId: string): Promise<AttachmentSearchMatch[]> {
+    const normalizedQuery = normalizeSearchText(query);
+    if (documentIds.length === 0 || !normalizedQuery) {
+      return [];
+    }
+
+    const result = await db.query(
+      `SELECT ati.attachment_id, ati.document_id, da.original_filename,
+              ts_rank(ati.search_vector, plainto_tsquery('french', $2)) AS rank,
+              ts_headline('french', ati.content, plainto_tsquery('french', $2), $3) AS headline
+       FROM attachment_text_index ati
+       JOIN document_attachments da ON da.id = ati.attachment_id
+       JOIN documents d ON d.id = ati.document_id
+       WHERE ati.document_id = ANY($1::uuid[])
+         AND ati.status = 'indexed'
+         AND ati.search_vector @@ plainto_tsquery('french', $2)
+         AND (
+           d.owner_id = $4
+           OR EXISTS (
+             SELECT 1 FROM document_permissions dp
+             WHERE dp.document_id = d.id AND dp.user_id = $4 AND dp.is_active = true AND 'read' = ANY(dp.permissions)
+           )
+         )
+       ORDER BY rank DESC`,
+      [documentIds, normalizedQuery, HEADLINE_OPTIONS, userId]
+    );
+
+    return (result as any).rows.map((row: any): AttachmentSearchMatch => ({
+      documentId: row.document_id,
+      attachmentId: row.attachment_id,
+      filename: row.original_filename,
+      snippet: formatHighlight(row.headline),
+      rank: Number(row.rank)
+    }));
+  }
+
+  start(intervalMinutes: number = 1): void {
+    if (this.intervalId) {
+      logger.warn('Attachment indexing is already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.processPendingAttachments();
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info(`Starting attachment indexing every ${intervalMinutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Attachment indexing stopped');
+    }
+  }
+
+  private async indexAttachment(attachmentId: string): Promise<void> {
+    try {
+      const source = await this.extractText(attachmentId);
+      if (!source) {
+        // Image en attente d'OCR ou format sans texte (tableur, .doc)
+        await db.query(
+          `UPDATE attachment_text_index
+           SET status = 'unsupported', content = '', search_vector = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE attachment_id = $1`,
+          [attachmentId]
+        );
+        return;
+      }
+
+      const content = normalizeSearchText(source.text).slice(0, MAX_INDEXED_CHARS);
+      await db.query(
+        `UPDATE attachment_text_index
+         SET status = 'indexed', extraction_method = $2, language = $3, content = $4,
+             search_vector = to_tsvector('french', $4), error_message = NULL,
+             indexed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE attachment_id = $1`,
+        [attachmentId, source.method, detectOcrLanguage(content), content]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Indexing failed';
+      await db.query(
+        `UPDATE attachment_text_index
+         SET attempts = attempts + 1,
+             status = CASE WHEN attempts + 1 >= $3 THEN 'failed' ELSE 'pending' END,
+             error_message = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE attachment_id = $1`,
+        [attachmentId, message, MAX_ATTEMPTS]
+      );
+      logger.error('Attachment indexing failed', { attachmentId, error });
+    }
+  }
+
+  /**
+   * Texte le plus complet entre l'extraction directe et le dernier OCR terminé
+   * (un PDF numérisé n'a pas ou peu de couche texte)
+   */
+  private async extractText(attachmentId: string): Promise<ExtractedText | null> {
+    const ocrText = await this.getOcrText(attachmentId);
+
+    let extracted: ExtractedText | null = null;
+    const result = await db.query('SELECT mime_type FROM document_attachments WHERE id = $1', [attachmentId]);
+    const row = (result as any).rows[0];
+    if (row && canExtractText(row.mime_type)) {
+      const { buffer, attachment } = await fileStorageService.readAttachmentContent(attachmentId);
+      extracted = await extractAttachmentText(buffer, attachment.mimeType);
+    }
+
+    if (ocrText !== null && (!extracted || countWords(ocrText) > countWords(extracted.text))) {
+      return { text: ocrText, method: 'ocr' };
+    }
+    return extracted;
+  }
+
+  private async getOcrText(attachmentId: string): Promise<string | null> {
+    const result = await db.query(
+      `SELECT string_agg(p.text, E'\\n\\n' ORDER BY p.page_number) AS text
+       FROM ocr_pages p
+       WHERE p.job_id = (
+         SELECT id FROM ocr_jobs
+         WHERE attachment_id = $1 AND status = 'completed'
+         ORDER BY completed_at DESC
+         LIMIT 1
+       )`,
+      [attachmentId]
+    );
+    return (result as any).rows[0]?.text ?? null;
+  }
+
+  private async getPendingBatch(exclude: string[]): Promise<string[]> {
+    const result = await db.query(
+      `SELECT attachment_id FROM attachment_text_index
+       WHERE status = 'pending' AND NOT (attachment_id = ANY($2::uuid[]))
+       ORDER BY updated_at
+       LIMIT $1`,
+      [BATCH_SIZE, exclude]
+    );
+    return (result as any).rows.map((row: any) => row.attachment_id);
+  }
+}
+
+export const attachmentIndexService = new AttachmentIndexService();
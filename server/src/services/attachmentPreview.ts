@@ -0,0 +1,92 @@
+/**
+ * Aperçus des pièces jointes
+ *
+ * Vignette (première page d'un PDF ou image réduite) et aperçus basse
+ * résolution des premières pages, rastérisés par MuPDF comme pour l'OCR et
+ * encodés en JPEG. Le rendu se fait toujours sur le fichier en clair :
+ * FileStorageService chiffre ensuite chaque aperçu comme l'original.
+ */
+
+export interface RenderedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface RenderedPreviews {
+  thumbnail: RenderedImage;
+  pages: RenderedImage[];
+  pageCount: number;
+}
+
+export const PREVIEW_MIME_TYPE = 'image/jpeg';
+
+/** Plus grand côté de la vignette, en pixels */
+const THUMBNAIL_SIZE = 320;
+/** Plus grand côté d'un aperçu de page : lisible à l'écran, sans plus */
+const PAGE_PREVIEW_SIZE = 1000;
+const THUMBNAIL_QUALITY = 80;
+const PAGE_PREVIEW_QUALITY = 70;
+export const MAX_PREVIEW_PAGES = Number(process.env.PREVIEW_MAX_PAGES) || 20;
+
+const PREVIEW_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/tiff', 'image/bmp'];
+
+export function canRenderPreview(mimeType: string): boolean {
+  return PREVIEW_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Vignette et aperçus des premières pages, ou null si le format n'est pas pris en charge
+ */
+export async function renderPreviews(
+  buffer: Buffer,
+  mimeType: string,
+  maxPages: number = MAX_PREVIEW_PAGES
+): Promise<RenderedPreviews | null> {
+  if (!canRenderPreview(mimeType)) {
+    return null;
+  }
+
+  // Module ES WebAssembly chargé à la demande : FileStorageService est importé par la recherche de documents
+  const mupdf = await import('mupdf');
+  const document = mupdf.Document.openDocument(buffer, mimeType);
+  try {
+    const pageCount = document.countPages();
+    if (pageCount === 0) {
+      return null;
+    }
+
+    const renderPage = (index: number, maxSize: number, quality: number): RenderedImage => {
+      const page = document.loadPage(index);
+      try {
+        const [x0, y0, x1, y1] = page.getBounds();
+        const scale = maxSize / Math.max(x1 - x0, y1 - y0, 1);
+        const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+        try {
+          return {
+            data: Buffer.from(pixmap.asJPEG(quality)),
+            width: pixmap.getWidth(),
+            height: pixmap.getHeight()
+          };
+        } finally {
+          pixmap.destroy();
+        }
+      } finally {
+        page.destroy();
+      }
+    };
+
+    const pages: RenderedImage[] = [];
+    for (let index = 0; index < Math.min(pageCount, maxPages); index++) {
+      pages.push(renderPage(index, PAGE_PREVIEW_SIZE, PAGE_PREVIEW_QUALITY));
+    }
+
+    return {
+      thumbnail: renderPage(0, THUMBNAIL_SIZE, THUMBNAIL_QUALITY),
+      pages,
+      pageCount
+    };
+  } finally {
+    document.destroy();
+  }
+}
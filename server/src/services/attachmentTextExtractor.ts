@@ -0,0 +1,65 @@
+import mammoth from 'mammoth';
+
+/**
+ * Extraction du texte des pièces jointes pour l'index plein texte
+ *
+ * PDF (couche texte, lue par MuPDF comme pour l'OCR), DOCX et fichiers texte.
+ * Les images et les PDF numérisés sans couche texte sont indexés à partir du
+ * résultat de l'OCR local.
+ */
+
+export type ExtractionMethod = 'pdf' | 'docx' | 'text' | 'ocr';
+
+export interface ExtractedText {
+  text: string;
+  method: ExtractionMethod;
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export function canExtractText(mimeType: string): boolean {
+  return mimeType === 'application/pdf' || mimeType === DOCX_MIME_TYPE || mimeType === 'text/plain';
+}
+
+/**
+ * Texte brut du fichier, ou null si le format n'a pas de texte extractible
+ */
+export async function extractAttachmentText(buffer: Buffer, mimeType: string): Promise<ExtractedText | null> {
+  if (mimeType === 'application/pdf') {
+    // pdf-parse (pdf.js 1.x) échoue sur une partie des PDF produits par pdfkit, dont nos propres exports
+    return { text: await extractPdfText(buffer), method: 'pdf' };
+  }
+
+  if (mimeType === DOCX_MIME_TYPE) {
+    const result = await mammoth.extractRawText({ buffer });
+    return { text: result.value, method: 'docx' };
+  }
+
+  if (mimeType === 'text/plain') {
+    return { text: buffer.toString('utf8').replace(/^\uFEFF/, ''), method: 'text' };
+  }
+
+  return null;
+}
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  // Module ES WebAssembly chargé à la demande : la recherche de documents l'importe indirectement
+  const mupdf = await import('mupdf');
+  const document = mupdf.Document.openDocument(buffer, 'application/pdf');
+  try {
+    const pages: string[] = [];
+    for (let index = 0; index < document.countPages(); index++) {
+      const page = document.loadPage(index);
+      try {
+        const text = page.toStructuredText('preserve-whitespace');
+        pages.push(text.asText());
+        text.destroy();
+      } finally {
+        page.destroy();
+      }
+    }
+    return pages.join('\n\n');
+  } finally {
+    document.destroy();
+  }
+}
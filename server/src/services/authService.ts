@@ -6,7 +6,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { config } from '@/config/environment';
 import { db } from '@/database/connection';
 import { logger } from '@/utils/logger';
-import { UserCredentials, AuthResult, TokenPair, SessionInfo, MFASetup, UserProfile, MFAMethod } from '@/types/auth';
+import { mfaService } from '@/services/mfaService';
+import { sessionService } from '@/services/sessionService';
+import { UserCredentials, AuthResult, TokenPair, SessionInfo, MFASetup, UserProfile, MFAMethod, LoginContext } from '@/types/auth';
 
 export class AuthenticationService {
   private readonly saltRounds = 12;
@@ -16,13 +18,13 @@ export class AuthenticationService {
    * Authenticate user with credentials and return auth result
    * Validates: Requirements 1.1 - Authentication and role determination
    */
-  async authenticate(credentials: UserCredentials): Promise<AuthResult> {
+  async authenticate(credentials: UserCredentials, context: LoginContext = {}): Promise<AuthResult> {
     try {
-      const { email, password, mfaCode } = credentials;
+      const { email, password, mfaCode, recoveryCode, webauthnResponse } = credentials;
 
       // Find user by email
       const userResult = await db.query(
-        'SELECT id, email, password_hash, is_active, email_verified, mfa_enabled, mfa_secret FROM users WHERE email = $1',
+        'SELECT id, email, password_hash, is_active, email_verified, mfa_enabled, mfa_secret, mfa_totp_verified_at FROM users WHERE email = $1',
         [email.toLowerCase()]
       );
 
@@ -59,22 +61,34 @@ export class AuthenticationService {
         };
       }
 
-      // Check MFA if enabled
+      // Check MFA if enabled: TOTP, passkey or single-use recovery code
       if (user.mfa_enabled) {
-        if (!mfaCode) {
+        if (!mfaCode && !recoveryCode && !webauthnResponse) {
+          const mfaMethods = await mfaService.getLoginMethods(user.id);
           return {
             success: false,
             mfaRequired: true,
+            mfaMethods,
+            ...(mfaMethods.includes('webauthn')
+              ? { webauthnOptions: await mfaService.startPasskeyAuthentication(user.id) }
+              : {}),
             error: 'MFA code required'
           };
         }
 
-        const isMFAValid = speakeasy.totp.verify({
-          secret: user.mfa_secret,
-          encoding: 'base32',
-          token: mfaCode,
-          window: 2
-        });
+        let isMFAValid = false;
+        if (webauthnResponse) {
+          isMFAValid = await mfaService.verifyPasskeyAuthentication(user.id, webauthnResponse);
+        } else if (recoveryCode) {
+          isMFAValid = await mfaService.consumeRecoveryCode(user.id, recoveryCode);
+        } else if (user.mfa_secret && user.mfa_totp_verified_at) {
+          isMFAValid = speakeasy.totp.verify({
+            secret: user.mfa_secret,
+            encoding: 'base32',
+            token: mfaCode!,
+            window: 2
+          });
+        }
 
         if (!isMFAValid) {
           return {
@@ -134,7 +148,14 @@ export class AuthenticationService {
       const tokens = await this.generateTokens(user.id, profiles[0].id);
 
       // Create session
-      await this.createSession(user.id, tokens, profiles[0].id);
+      await this.createSession(user.id, tokens, profiles[0].id, context.ipAddress, context.userAgent);
+
+      // Alert the user when the device or network has never been seen
+      try {
+        await sessionService.recordLogin(user.id, context);
+      } catch (error) {
+        logger.error('Failed to record login origin:', error);
+      }
 
       // Update last login
       await db.query(
@@ -280,12 +301,12 @@ export class AuthenticationService {
   }
 
   /**
-   * Enable MFA for user
+   * Enable TOTP MFA for user; passkeys are registered through MFAService
    */
   async enableMFA(userId: string, method: MFAMethod): Promise<MFASetup> {
     try {
       if (method !== 'totp') {
-        throw new Error('Only TOTP MFA method is currently supported');
+        throw new Error('Passkeys are registered through the WebAuthn ceremony');
       }
 
       // Generate secret
@@ -297,7 +318,7 @@ export class AuthenticationService {
 
       // Get user email for QR code
       const userResult = await db.query(
-        'SELECT email FROM users WHERE id = $1',
+        'SELECT email, mfa_totp_verified_at FROM users WHERE id = $1',
         [userId]
       );
 
@@ -307,6 +328,11 @@ export class AuthenticationService {
 
       const user = (userResult as any).rows[0];
 
+      // Replacing a verified secret would lock out the current authenticator app
+      if (user.mfa_totp_verified_at) {
+        throw new Error('TOTP MFA is already enabled');
+      }
+
       // Generate QR code
       const qrCodeUrl = await QRCode.toDataURL(secret.otpauth_url!);
 
@@ -319,7 +345,7 @@ export class AuthenticationService {
       return {
         secret: secret.base32,
         qrCode: qrCodeUrl,
-        backupCodes: [] // TODO: Implement backup codes
+        backupCodes: await mfaService.issueRecoveryCodesIfMissing(userId)
       };
 
     } catch (error) {
@@ -354,9 +380,9 @@ export class AuthenticationService {
       });
 
       if (isValid) {
-        // Enable MFA
+        // Enable MFA: login only accepts TOTP codes once the secret is marked verified
         await db.query(
-          'UPDATE users SET mfa_enabled = true WHERE id = $1',
+          'UPDATE users SET mfa_enabled = true, mfa_totp_verified_at = CURRENT_TIMESTAMP WHERE id = $1',
           [userId]
         );
         
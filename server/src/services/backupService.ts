@@ -1,5 +1,6 @@
 import { getDb } from '@/database/connection';
-import { encryptionService } from './encryptionService';
+import { encryptionService, EncryptedData } from './encryptionService';
+import type { EncryptedRecordStore } from './keyRewrapService';
 import { auditService } from './auditService';
 import { logger } from '@/utils/logger';
 import * as fs from 'fs/promises';
@@ -55,7 +56,8 @@ export interface RestoreResult {
   recordsRestored: number;
 }
 
-export class BackupService {
+export class BackupService implements EncryptedRecordStore {
+  readonly recordStoreName = 'backup_metadata';
   private readonly db = getDb();
   private readonly defaultConfig: BackupConfig = {
     schedule: '0 2 * * *', // Tous les jours à 2h du matin
@@ -495,6 +497,65 @@ export class BackupService {
     }
   }
 
+  /**
+   * Sauvegardes terminées du tenant, toutes reprises après une rotation : la
+   * clé de leurs fichiers ne se lit que dans l'archive
+   */
+  async countRecordsToRewrap(tenantId: string, _keyId: string): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COUNT(*) AS total FROM backup_metadata WHERE tenant_id = $1 AND status = $2',
+      [tenantId, 'completed']
+    );
+    return Number(result.rows[0].total);
+  }
+
+  async findRecordsToRewrap(tenantId: string, _keyId: string, afterId: string | null, limit: number): Promise<string[]> {
+    const result = await this.db.query(
+      `SELECT id FROM backup_metadata
+       WHERE tenant_id = $1 AND status = $2 AND ($3::varchar IS NULL OR id > $3)
+       ORDER BY id
+       LIMIT $4`,
+      [tenantId, 'completed', afterId, limit]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Réenveloppe les fichiers chiffrés d'une sauvegarde avec la clé active du
+   * tenant, puis remplace l'archive et met à jour son checksum et sa taille
+   */
+  async rewrapRecord(tenantId: string, backupId: string): Promise<EncryptedData[]> {
+    const archiveFile = path.join(this.defaultConfig.backupPath, `${backupId}.backup`);
+    const archiveContent = JSON.parse(await fs.readFile(archiveFile, 'utf8'));
+
+    const envelopes: EncryptedData[] = [];
+    let changed = false;
+    for (const [fileName, content] of Object.entries(archiveContent.files)) {
+      const encryptedData: EncryptedData = JSON.parse(content as string);
+      const rewrapped = await encryptionService.rewrapData(encryptedData, tenantId);
+      if (rewrapped !== encryptedData) {
+        archiveContent.files[fileName] = JSON.stringify(rewrapped);
+        changed = true;
+      }
+      envelopes.push(rewrapped);
+    }
+
+    if (changed) {
+      // L'archive n'est remplacée qu'une fois entièrement écrite
+      const rewrappedFile = `${archiveFile}.rewrap`;
+      await fs.writeFile(rewrappedFile, JSON.stringify(archiveContent));
+      await fs.rename(rewrappedFile, archiveFile);
+
+      const stats = await fs.stat(archiveFile);
+      await this.db.query(
+        'UPDATE backup_metadata SET size = $2, checksum = $3 WHERE id = $1',
+        [backupId, stats.size, await this.calculateFileChecksum(archiveFile)]
+      );
+    }
+
+    return envelopes;
+  }
+
   // Méthodes privées
 
   private async initializeBackupDirectory(): Promise<void> {
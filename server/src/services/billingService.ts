@@ -6,6 +6,7 @@ import {
   CalculateFeeResponse,
   CreateInvoiceRequest,
   BillingInvoice,
+  InvoiceListItem,
   FeeBreakdown,
   LegalProfession,
   CalculationType,
@@ -20,12 +21,17 @@ import {
   AdditionalFee,
   Expense,
   Discount,
-  TaxConfiguration
+  TaxConfiguration,
+  TaxBreakdown
 } from '../types/billing.js';
+import { TaxConfigurationService, recordInvoiceTaxes } from './taxConfigurationService.js';
 import { logger } from '../utils/logger.js';
 
 export class BillingService {
-  constructor(private db: Pool) {}
+  constructor(
+    private db: Pool,
+    private taxConfigurationService: TaxConfigurationService = new TaxConfigurationService(db)
+  ) {}
 
   /**
    * Calculate fees for a legal service according to Algerian fee schedules
@@ -347,26 +353,20 @@ export class BillingService {
    * Apply taxes to fee breakdown
    */
   private async applyTaxes(breakdown: FeeBreakdown, profession: LegalProfession): Promise<void> {
-    const query = `
-      SELECT tax_type, tax_rate, tax_amount
-      FROM calculate_taxes($1, $2)
-    `;
-
-    const result = await this.db.query(query, [profession, breakdown.subtotal]);
-
-    let totalTaxAmount = 0;
-    let totalTaxRate = 0;
+    const { taxRate, taxAmount, taxes, withholdingAmount } = await this.calculateTaxes(profession, breakdown.subtotal);
 
-    for (const row of result.rows) {
-      totalTaxAmount += parseFloat(row.tax_amount);
-      if (row.tax_type === 'vat') {
-        totalTaxRate = parseFloat(row.tax_rate);
-      }
-    }
+    breakdown.taxRate = taxRate;
+    breakdown.taxAmount = taxAmount;
+    breakdown.taxes = taxes;
+    breakdown.withholdingAmount = withholdingAmount;
+    breakdown.total = breakdown.subtotal + taxAmount;
+  }
 
-    breakdown.taxRate = totalTaxRate;
-    breakdown.taxAmount = totalTaxAmount;
-    breakdown.total = breakdown.subtotal + totalTaxAmount;
+  /**
+   * Taxes due on a taxable amount for a profession, with the tax rules in force on the given date
+   */
+  async calculateTaxes(profession: LegalProfession, taxableAmount: number, date: Date = new Date()): Promise<TaxBreakdown> {
+    return this.taxConfigurationService.calculateTaxes(profession, taxableAmount, date);
   }
 
   /**
@@ -462,6 +462,9 @@ export class BillingService {
 
       const invoice = this.mapRowToInvoice(result.rows[0]);
 
+      // Keep the tax rule versions used by the calculation for exact reprints
+      await recordInvoiceTaxes(this.db, invoice.id, calculation.breakdown.taxes || []);
+
       // Update billing calculation status
       await this.updateBillingCalculationStatus(request.billingCalculationId, BillingStatus.INVOICED);
 
@@ -482,6 +485,60 @@ export class BillingService {
     }
   }
 
+  /**
+   * Get the invoices of a lawyer, most recent first, with case, client and lines
+   */
+  async listInvoices(lawyerId: string): Promise<InvoiceListItem[]> {
+    const query = `
+      SELECT i.*, c.case_number, c.title AS case_title,
+             COALESCE(cl.company_name, CONCAT_WS(' ', cl.first_name, cl.last_name)) AS client_name,
+             cl.email AS client_email,
+             COALESCE(
+               (SELECT json_agg(l ORDER BY l.position) FROM billing_invoice_lines l WHERE l.invoice_id = i.id),
+               '[]'
+             ) AS lines
+      FROM billing_invoices i
+      JOIN cases c ON c.id = i.case_id
+      LEFT JOIN clients cl ON cl.id = i.client_id
+      WHERE i.lawyer_id = $1
+      ORDER BY i.created_at DESC
+    `;
+    const result = await this.db.query(query, [lawyerId]);
+
+    return result.rows.map(row => ({
+      ...this.mapRowToInvoice(row),
+      caseNumber: row.case_number,
+      caseTitle: row.case_title,
+      clientName: row.client_name,
+      clientEmail: row.client_email || undefined,
+      lines: row.lines.map((line: any) => ({
+        id: line.id,
+        position: line.position,
+        lineType: line.line_type,
+        activityType: line.activity_type || undefined,
+        description: line.description,
+        quantity: parseFloat(line.quantity),
+        unitPrice: parseFloat(line.unit_price),
+        amount: parseFloat(line.amount),
+        isTaxable: line.is_taxable
+      }))
+    }));
+  }
+
+  /**
+   * Update invoice status; null if the invoice does not exist
+   */
+  async updateInvoiceStatus(id: string, status: InvoiceStatus): Promise<BillingInvoice | null> {
+    const query = `
+      UPDATE billing_invoices SET status = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [status, id]);
+
+    return result.rows.length > 0 ? this.mapRowToInvoice(result.rows[0]) : null;
+  }
+
   /**
    * Generate unique invoice number
    */
@@ -853,7 +910,7 @@ export class BillingService {
   /**
    * Map database row to BillingInvoice object
    */
-  private mapRowToInvoice(row: any): BillingInvoice {
+  mapRowToInvoice(row: any): BillingInvoice {
     return {
       id: row.id,
       invoiceNumber: row.invoice_number,
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import {
+  ICalEvent,
+  buildICalendar,
+  parseICalendar
+} from '@/utils/icalendar';
+
+/**
+ * Calendar Feed Service
+ * Flux iCalendar personnel (audiences et rendez-vous, délais légaux, rappels)
+ * protégé par un jeton d'abonnement, et import ponctuel de fichiers .ics.
+ */
+
+export interface CalendarImportResult {
+  imported: number;
+  /** Événements déjà importés (même UID) */
+  duplicates: number;
+  /** Événements illisibles ou sans date de début */
+  skipped: number;
+}
+
+const UID_DOMAIN = 'juristdz.dz';
+/** Historique conservé dans le flux */
+const FEED_HISTORY_DAYS = 90;
+const MAX_IMPORT_EVENTS = 1000;
+
+const EVENT_TYPE_LABELS: Record<string, { fr: string; ar: string }> = {
+  hearing: { fr: 'Audience', ar: 'جلسة' },
+  meeting: { fr: 'Rendez-vous', ar: 'موعد' },
+  deadline: { fr: 'Échéance', ar: 'أجل' },
+  consultation: { fr: 'Consultation', ar: 'استشارة' },
+  other: { fr: 'Événement', ar: 'حدث' },
+};
+
+/**
+ * Résumé bilingue : « Audience : X | جلسة : X »
+ */
+function bilingualSummary(labels: { fr: string; ar: string }, titleFr: string, titleAr?: string): string {
+  return `${labels.fr} : ${titleFr} | ${labels.ar} : ${titleAr || titleFr}`;
+}
+
+/**
+ * Le SEQUENCE doit croître à chaque modification : on utilise le nombre de
+ * secondes écoulées entre la création et la dernière mise à jour.
+ */
+function sequenceOf(row: { created_at?: Date; updated_at?: Date }): number {
+  if (!row.created_at || !row.updated_at) return 0;
+  return Math.max(0, Math.floor((new Date(row.updated_at).getTime() - new Date(row.created_at).getTime()) / 1000));
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class CalendarFeedService {
+
+  /**
+   * Génère un nouveau jeton d'abonnement ; l'ancien cesse de fonctionner
+   */
+  async createFeedToken(userId: string): Promise<string> {
+    try {
+      const token = crypto.randomBytes(32).toString('hex');
+      await db.query(
+        `INSERT INTO calendar_feed_tokens (user_id, token_hash)
+         VALUES ($1, $2)
+         ON CONFLICT (user_id) DO UPDATE SET token_hash = EXCLUDED.token_hash,
+           created_at = CURRENT_TIMESTAMP, last_accessed_at = NULL`,
+        [userId, hashToken(token)]
+      );
+
+      logger.info('Calendar feed token created', { userId });
+      return token;
+
+    } catch (error) {
+      logger.error('Create calendar feed token error:', error);
+      throw error;
+    }
+  }
+
+  async revokeFeedToken(userId: string): Promise<void> {
+    try {
+      await db.query('DELETE FROM calendar_feed_tokens WHERE user_id = $1', [userId]);
+      logger.info('Calendar feed token revoked', { userId });
+    } catch (error) {
+      logger.error('Revoke calendar feed token error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Utilisateur propriétaire d'un jeton, ou null s'il est inconnu
+   */
+  async resolveFeedToken(token: string): Promise<string | null> {
+    if (!/^[a-f0-9]{64}$/.test(token)) return null;
+
+    const result = await db.query(
+      `UPDATE calendar_feed_tokens SET last_accessed_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1
+       RETURNING user_id`,
+      [hashToken(token)]
+    );
+    const row = (result as any).rows[0];
+    return row ? row.user_id : null;
+  }
+
+  /**
+   * Calendrier .ics complet de l'utilisateur
+   */
+  async buildUserFeed(userId: string): Promise<string> {
+    try {
+      const [calendarEvents, deadlines, reminders] = await Promise.all([
+        this.getCalendarEvents(userId),
+        this.getLegalDeadlines(userId),
+        this.getReminders(userId),
+      ]);
+
+      return buildICalendar([...calendarEvents, ...deadlines, ...reminders], {
+        name: 'JuristDZ — Agenda | أجندة',
+        description: 'Audiences, délais légaux et rappels | الجلسات والآجال القانونية والتذكيرات',
+        timezone: 'Africa/Algiers',
+        refreshMinutes: 60,
+      });
+
+    } catch (error) {
+      logger.error('Build calendar feed error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crée les événements d'un fichier .ics dans l'agenda de l'utilisateur
+   */
+  async importICalendar(userId: string, content: string): Promise<CalendarImportResult> {
+    try {
+      const parsed = parseICalendar(content);
+      if (parsed.length > MAX_IMPORT_EVENTS) {
+        throw new Error(`Too many events (max ${MAX_IMPORT_EVENTS})`);
+      }
+
+      const result: CalendarImportResult = { imported: 0, duplicates: 0, skipped: 0 };
+
+      for (const event of parsed) {
+        const start = event.start;
+        // Sans fin explicite : une heure, ou la journée pour un événement « journée entière »
+        const end = event.end && event.end > start
+          ? event.end
+          : new Date(start.getTime() + (event.allDay ? 24 * 60 : 60) * 60000);
+
+        if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+          result.skipped++;
+          continue;
+        }
+
+        const inserted = await db.query(
+          `INSERT INTO calendar_events (
+            user_id, title, description, event_type, start_time, end_time, all_day,
+            location, reminder_minutes, event_status, external_uid
+          ) VALUES ($1, $2, $3, 'other', $4, $5, $6, $7, $8, $9, $10)
+          ON CONFLICT (user_id, external_uid) WHERE external_uid IS NOT NULL DO NOTHING
+          RETURNING id`,
+          [
+            userId,
+            (event.summary || 'Événement importé').slice(0, 200),
+            event.description ?? null,
+            start,
+            end,
+            event.allDay,
+            event.location?.slice(0, 300) ?? null,
+            event.reminderMinutes && event.reminderMinutes > 0 ? event.reminderMinutes : null,
+            event.status === 'CANCELLED' ? 'cancelled' : 'scheduled',
+            event.uid ?? null,
+          ]
+        );
+
+        if ((inserted as any).rows.length > 0) {
+          result.imported++;
+        } else {
+          result.duplicates++;
+        }
+      }
+
+      logger.info('Calendar imported', { userId, ...result });
+      return result;
+
+    } catch (error) {
+      logger.error('Import calendar error:', error);
+      throw error;
+    }
+  }
+
+  private async getCalendarEvents(userId: string): Promise<ICalEvent[]> {
+    const result = await db.query(
+      `SELECT * FROM calendar_events
+       WHERE user_id = $1 AND start_time >= CURRENT_DATE - $2::integer
+       ORDER BY start_time`,
+      [userId, FEED_HISTORY_DAYS]
+    );
+
+    return (result as any).rows.map((row: any): ICalEvent => {
+      const labels = EVENT_TYPE_LABELS[row.event_type] ?? EVENT_TYPE_LABELS['other']!;
+      return {
+        uid: `calendar-event-${row.id}@${UID_DOMAIN}`,
+        summary: bilingualSummary(labels, row.title),
+        start: new Date(row.start_time),
+        end: new Date(row.end_time),
+        allDay: Boolean(row.all_day),
+        status: row.event_status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        sequence: sequenceOf(row),
+        categories: [labels.fr],
+        ...(row.description ? { description: row.description } : {}),
+        ...(row.location ? { location: row.location } : {}),
+        ...(row.updated_at ? { lastModified: new Date(row.updated_at) } : {}),
+        ...(row.is_recurring && /^FREQ=/.test(row.recurrence_rule ?? '') ? { rrule: row.recurrence_rule } : {}),
+        alarms: row.reminder_minutes
+          ? [{ minutesBefore: row.reminder_minutes, description: bilingualSummary(labels, row.title) }]
+          : [],
+      };
+    });
+  }
+
+  private async getLegalDeadlines(userId: string): Promise<ICalEvent[]> {
+    const result = await db.query(
+      `SELECT * FROM legal_deadlines
+       WHERE user_id = $1 AND is_completed = false
+       ORDER BY deadline_date`,
+      [userId]
+    );
+
+    const labels = EVENT_TYPE_LABELS['deadline']!;
+    return (result as any).rows.map((row: any): ICalEvent => {
+      const summary = bilingualSummary(labels, row.title, row.title_ar);
+      return {
+        uid: `legal-deadline-${row.id}@${UID_DOMAIN}`,
+        summary,
+        start: new Date(row.deadline_date),
+        allDay: true,
+        status: row.is_provisional ? 'TENTATIVE' : 'CONFIRMED',
+        sequence: sequenceOf(row),
+        categories: [labels.fr],
+        ...(row.legal_reference ? { description: row.legal_reference } : {}),
+        ...(row.updated_at ? { lastModified: new Date(row.updated_at) } : {}),
+        // Alertes à J-7 et J-1
+        alarms: [
+          { minutesBefore: 7 * 1440, description: summary },
+          { minutesBefore: 1440, description: summary },
+        ],
+      };
+    });
+  }
+
+  private async getReminders(userId: string): Promise<ICalEvent[]> {
+    const result = await db.query(
+      `SELECT * FROM reminders
+       WHERE user_id = $1 AND is_completed = false
+       ORDER BY reminder_date`,
+      [userId]
+    );
+
+    const labels = { fr: 'Rappel', ar: 'تذكير' };
+    return (result as any).rows.map((row: any): ICalEvent => {
+      const summary = bilingualSummary(labels, row.title);
+      const date = new Date(row.reminder_date);
+      let start = date;
+      if (row.reminder_time) {
+        const [hours, minutes] = String(row.reminder_time).split(':').map(Number);
+        start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours ?? 0, minutes ?? 0);
+      }
+      return {
+        uid: `reminder-${row.id}@${UID_DOMAIN}`,
+        summary,
+        start,
+        ...(row.reminder_time ? { end: new Date(start.getTime() + 15 * 60000) } : {}),
+        allDay: !row.reminder_time,
+        sequence: sequenceOf(row),
+        categories: [labels.fr],
+        ...(row.description ? { description: row.description } : {}),
+        ...(row.updated_at ? { lastModified: new Date(row.updated_at) } : {}),
+        alarms: [{ minutesBefore: 0, description: summary }],
+      };
+    });
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
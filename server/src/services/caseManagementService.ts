@@ -1,11 +1,15 @@
 import { db } from '@/database/connection';
 import { logger } from '@/utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import { deadlineChainService } from './deadlineChainService';
+import { ChainProcedure } from '@/legal/deadlineChains';
 import {
   Case,
   Client,
   CaseDocument,
   CaseEvent,
+  CaseEventWithDeadlines,
   CaseNote,
   CaseContact,
   CaseDeadline,
@@ -19,6 +23,10 @@ import {
   CreateCaseRequest,
   UpdateCaseRequest,
   CreateCaseEventRequest,
+  UpdateCaseEventRequest,
+  DeadlineChainRequest,
+  LegalDeadlineRecord,
+  EventType,
   CreateCaseNoteRequest,
   CreateCaseDeadlineRequest,
   CreateTimeEntryRequest,
@@ -28,6 +36,12 @@ import {
   CaseSortOption
 } from '@/types/case';
 
+// Procédure des chaînes de délais selon le domaine du dossier ; civile par défaut
+const CHAIN_PROCEDURE_BY_DOMAIN: Record<string, ChainProcedure> = {
+  administrative: 'administratif',
+  criminal: 'penal'
+};
+
 export class CaseManagementService {
   
   /**
@@ -473,7 +487,7 @@ export class CaseManagementService {
    * Add event to case
    * Validates: Requirements 5.2 - Case event tracking
    */
-  async addCaseEvent(caseId: string, eventData: CreateCaseEventRequest, userId: string): Promise<CaseEvent> {
+  async addCaseEvent(caseId: string, eventData: CreateCaseEventRequest, userId: string): Promise<CaseEventWithDeadlines> {
     try {
       // Check case access
       const hasAccess = await this.checkCaseAccess(caseId, userId);
@@ -500,9 +514,38 @@ export class CaseManagementService {
         updatedAt: new Date()
       };
 
+      // Un jugement ouvre une chaîne de délais ; une signification la fait repartir.
+      // L'événement et ses délais sont enregistrés dans la même transaction.
+      if (event.eventType === EventType.JUDGMENT && eventData.deadlineChain) {
+        const chainRequest = await this.resolveDeadlineChainRequest(caseId, eventData.deadlineChain);
+        const chainedDeadlines = await db.transaction(async (client) => {
+          await this.saveCaseEventToDatabase(event, client);
+          return deadlineChainService.insertChain(client, event, chainRequest, userId);
+        });
+        logger.info('Case event added', { caseId, eventId, eventType: event.eventType, userId });
+        return { ...event, chainedDeadlines };
+      }
+
+      if (event.eventType === EventType.SIGNIFICATION) {
+        const chainedDeadlines = await db.transaction(async (client) => {
+          await this.saveCaseEventToDatabase(event, client);
+          return deadlineChainService.linkSignification(client, event);
+        });
+        logger.info('Case event added', { caseId, eventId, eventType: event.eventType, userId });
+        return { ...event, chainedDeadlines };
+      }
+
       await this.saveCaseEventToDatabase(event);
 
       logger.info('Case event added', { caseId, eventId, eventType: event.eventType, userId });
+
+      if (event.eventType === EventType.JUDGMENT) {
+        const proposedDeadlines = deadlineChainService.previewChain(
+          await this.resolveDeadlineChainRequest(caseId),
+          { jugement_rendu: event.eventDate }
+        );
+        return { ...event, proposedDeadlines };
+      }
       return event;
 
     } catch (error) {
@@ -511,6 +554,150 @@ export class CaseManagementService {
     }
   }
 
+  /**
+   * Update a case event; correcting the date of a judgment or signification
+   * recalculates the deadlines chained from it
+   */
+  async updateCaseEvent(
+    caseId: string,
+    eventId: string,
+    updates: UpdateCaseEventRequest,
+    userId: string
+  ): Promise<CaseEventWithDeadlines> {
+    try {
+      const hasAccess = await this.checkCaseAccess(caseId, userId);
+      if (!hasAccess) {
+        throw new Error('Access denied');
+      }
+
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      if (updates.title !== undefined) {
+        updateFields.push(`title = $${paramIndex++}`);
+        values.push(updates.title);
+      }
+      if (updates.description !== undefined) {
+        updateFields.push(`description = $${paramIndex++}`);
+        values.push(updates.description);
+      }
+      if (updates.eventDate !== undefined) {
+        updateFields.push(`event_date = $${paramIndex++}`);
+        values.push(updates.eventDate);
+      }
+      if (updates.location !== undefined) {
+        updateFields.push(`location = $${paramIndex++}`);
+        values.push(updates.location);
+      }
+      if (updates.status !== undefined) {
+        updateFields.push(`status = $${paramIndex++}`);
+        values.push(updates.status);
+      }
+
+      if (updateFields.length === 0) {
+        throw new Error('No fields to update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(eventId, caseId);
+
+      const result = await db.query(
+        `UPDATE case_events SET ${updateFields.join(', ')}
+         WHERE id = $${paramIndex} AND case_id = $${paramIndex + 1}
+         RETURNING *`,
+        values
+      );
+      const row = (result as any).rows[0];
+      if (!row) {
+        throw new Error('Event not found');
+      }
+      const event = this.mapRowToCaseEvent(row);
+
+      logger.info('Case event updated', { caseId, eventId, userId });
+
+      if (updates.eventDate !== undefined) {
+        const chainedDeadlines = await deadlineChainService.recalculateForEvent(eventId);
+        return { ...event, chainedDeadlines };
+      }
+      return event;
+
+    } catch (error) {
+      logger.error('Update case event error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the deadline chain of a judgment recorded without one
+   */
+  async createDeadlineChain(
+    caseId: string,
+    eventId: string,
+    request: Partial<DeadlineChainRequest>,
+    userId: string
+  ): Promise<LegalDeadlineRecord[]> {
+    try {
+      const event = await this.getJudgmentEvent(caseId, eventId, userId);
+
+      if (await deadlineChainService.getChainForEvent(eventId)) {
+        throw new Error('Deadline chain already exists');
+      }
+
+      const chainRequest = await this.resolveDeadlineChainRequest(caseId, request);
+      return await deadlineChainService.createChain(event, chainRequest, userId);
+
+    } catch (error) {
+      logger.error('Create deadline chain error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a deadline chain request from the case: procedure from the legal
+   * domain, judgment kind from the level of the court (an appeal court renders an arrêt)
+   */
+  async resolveDeadlineChainRequest(
+    caseId: string,
+    request: Partial<DeadlineChainRequest> = {}
+  ): Promise<DeadlineChainRequest> {
+    const result = await db.query(
+      `SELECT c.legal_domain, co.level AS court_level
+       FROM cases c
+       LEFT JOIN courts co ON co.id = c.court_id
+       WHERE c.id = $1`,
+      [caseId]
+    );
+    const row = (result as any).rows[0];
+    const isHigherCourt = !!row?.court_level && row.court_level !== 'premiere_instance';
+
+    return {
+      procedure: request.procedure ?? CHAIN_PROCEDURE_BY_DOMAIN[row?.legal_domain] ?? 'civil',
+      judgmentKind: request.judgmentKind ?? (isHigherCourt ? 'arret' : 'contradictoire'),
+      ...(request.steps ? { steps: request.steps } : {})
+    };
+  }
+
+  /**
+   * Judgment event of a case, with access check
+   */
+  async getJudgmentEvent(caseId: string, eventId: string, userId: string): Promise<CaseEvent> {
+    const hasAccess = await this.checkCaseAccess(caseId, userId);
+    if (!hasAccess) {
+      throw new Error('Access denied');
+    }
+
+    const result = await db.query(
+      'SELECT * FROM case_events WHERE id = $1 AND case_id = $2',
+      [eventId, caseId]
+    );
+    const row = (result as any).rows[0];
+    if (!row || row.event_type !== EventType.JUDGMENT) {
+      throw new Error('Judgment event not found');
+    }
+    return this.mapRowToCaseEvent(row);
+  }
+
   /**
    * Add note to case
    * Validates: Requirements 5.2 - Case notes
@@ -738,20 +925,24 @@ export class CaseManagementService {
     );
   }
 
-  private async saveCaseEventToDatabase(event: CaseEvent): Promise<void> {
-    await db.query(
-      `INSERT INTO case_events (
+  private async saveCaseEventToDatabase(event: CaseEvent, client?: PoolClient): Promise<void> {
+    const query = `INSERT INTO case_events (
         id, case_id, event_type, title, description, event_date, duration_minutes,
         location, participants, status, reminder_date, is_billable, created_by,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
-      [
-        event.id, event.caseId, event.eventType, event.title, event.description,
-        event.eventDate, event.durationMinutes, event.location,
-        JSON.stringify(event.participants), event.status, event.reminderDate,
-        event.isBillable, event.createdBy, event.createdAt, event.updatedAt
-      ]
-    );
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`;
+    const values = [
+      event.id, event.caseId, event.eventType, event.title, event.description,
+      event.eventDate, event.durationMinutes, event.location,
+      JSON.stringify(event.participants), event.status, event.reminderDate,
+      event.isBillable, event.createdBy, event.createdAt, event.updatedAt
+    ];
+
+    if (client) {
+      await client.query(query, values);
+    } else {
+      await db.query(query, values);
+    }
   }
 
   private async saveCaseNoteToDatabase(note: CaseNote): Promise<void> {
@@ -863,7 +1054,11 @@ export class CaseManagementService {
       'SELECT * FROM case_events WHERE case_id = $1 ORDER BY event_date DESC',
       [caseId]
     );
-    return (result as any).rows.map((row: any) => ({
+    return (result as any).rows.map((row: any) => this.mapRowToCaseEvent(row));
+  }
+
+  private mapRowToCaseEvent(row: any): CaseEvent {
+    return {
       id: row.id,
       caseId: row.case_id,
       eventType: row.event_type,
@@ -874,13 +1069,13 @@ export class CaseManagementService {
       location: row.location,
       participants: JSON.parse(row.participants || '[]'),
       status: row.status,
-      reminderDate: row.reminder_date ? new Date(row.reminder_date) : undefined,
+      ...(row.reminder_date ? { reminderDate: new Date(row.reminder_date) } : {}),
       isBillable: row.is_billable,
       billableHours: row.billable_hours,
       createdBy: row.created_by,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
-    }));
+    };
   }
 
   private async getCaseNotes(caseId: string): Promise<CaseNote[]> {
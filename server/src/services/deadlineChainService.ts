@@ -0,0 +1,270 @@
+import { PoolClient } from 'pg';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { formatIsoDate } from '@/legal/judicialCalendar';
+import { getProceduralDeadlineRule } from '@/legal/proceduralDeadlineRules';
+import {
+  ChainEventDates,
+  DeadlineChainContext,
+  PlannedChainDeadline,
+  planDeadlineChain
+} from '@/legal/deadlineChains';
+import {
+  CaseEvent,
+  DeadlineChain,
+  DeadlineChainRequest,
+  LegalDeadlineRecord,
+  Priority
+} from '@/types/case';
+
+/**
+ * Deadline Chain Service
+ * Crée dans legal_deadlines les délais qui découlent d'un jugement
+ * (signification, recours, exécution) et les recalcule lorsque la date
+ * du jugement ou de la signification est corrigée.
+ */
+export class DeadlineChainService {
+
+  /**
+   * Chaîne proposée pour un jugement, sans rien enregistrer
+   */
+  previewChain(context: DeadlineChainContext, events: ChainEventDates): PlannedChainDeadline[] {
+    return planDeadlineChain(context, events);
+  }
+
+  /**
+   * Crée la chaîne de délais ouverte par un jugement
+   */
+  async createChain(
+    judgmentEvent: CaseEvent,
+    request: DeadlineChainRequest,
+    userId: string
+  ): Promise<LegalDeadlineRecord[]> {
+    try {
+      const records = await db.transaction(client => this.insertChain(client, judgmentEvent, request, userId));
+
+      logger.info('Deadline chain created', {
+        caseId: judgmentEvent.caseId,
+        eventId: judgmentEvent.id,
+        steps: records.map(r => r.chainStep),
+        userId
+      });
+      return records;
+
+    } catch (error) {
+      logger.error('Create deadline chain error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enregistre la chaîne dans la transaction de l'appelant, pour que le jugement
+   * et ses délais soient enregistrés ensemble ou pas du tout
+   */
+  async insertChain(
+    client: PoolClient,
+    judgmentEvent: CaseEvent,
+    request: DeadlineChainRequest,
+    userId: string
+  ): Promise<LegalDeadlineRecord[]> {
+    const planned = planDeadlineChain(request, { jugement_rendu: judgmentEvent.eventDate })
+      .filter(step => !request.steps || request.steps.includes(step.stepKey));
+
+    const chainResult = await client.query(
+      `INSERT INTO deadline_chains (case_id, judgment_event_id, procedure, judgment_kind, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [judgmentEvent.caseId, judgmentEvent.id, request.procedure, request.judgmentKind, userId]
+    );
+    const chainId: string = chainResult.rows[0].id;
+
+    const idsByStep = new Map<string, string>();
+    const created: LegalDeadlineRecord[] = [];
+    for (const step of planned) {
+      const rule = getProceduralDeadlineRule(step.ruleCode);
+      const parentId = step.parentStepKey ? idsByStep.get(step.parentStepKey) : undefined;
+      const result = await client.query(
+        `INSERT INTO legal_deadlines (
+          user_id, case_id, title, title_ar, category, base_date, deadline_date, days_total,
+          legal_reference, rule_code, rules_version, priority, chain_id, chain_step,
+          trigger_event_id, parent_deadline_id, is_provisional
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+        RETURNING *`,
+        [
+          userId, judgmentEvent.caseId, rule?.labelFr ?? step.ruleCode, rule?.labelAr,
+          rule?.category ?? 'custom', formatIsoDate(step.baseDate), formatIsoDate(step.deadline),
+          step.computation.totalDays, step.computation.reference, step.ruleCode,
+          step.computation.rulesVersion, rule?.priority ?? Priority.MEDIUM, chainId, step.stepKey,
+          judgmentEvent.id, parentId ?? null, step.provisional
+        ]
+      );
+      idsByStep.set(step.stepKey, result.rows[0].id);
+      created.push(this.mapRowToLegalDeadline(result.rows[0]));
+    }
+    return created;
+  }
+
+  /**
+   * Rattache une signification à la dernière chaîne du dossier qui l'attend :
+   * l'étape « signification » est soldée et les recours repartent de sa date réelle.
+   */
+  async attachSignification(significationEvent: CaseEvent): Promise<LegalDeadlineRecord[]> {
+    try {
+      return await db.transaction(client => this.linkSignification(client, significationEvent));
+    } catch (error) {
+      logger.error('Attach signification error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rattachement de la signification dans la transaction de l'appelant
+   */
+  async linkSignification(client: PoolClient, significationEvent: CaseEvent): Promise<LegalDeadlineRecord[]> {
+    const chainResult = await client.query(
+      `SELECT * FROM deadline_chains
+       WHERE case_id = $1 AND signification_event_id IS NULL
+       ORDER BY created_at DESC LIMIT 1
+       FOR UPDATE`,
+      [significationEvent.caseId]
+    );
+    const row = chainResult.rows[0];
+    if (!row) return [];
+
+    await client.query(
+      'UPDATE deadline_chains SET signification_event_id = $1 WHERE id = $2',
+      [significationEvent.id, row.id]
+    );
+    await client.query(
+      `UPDATE legal_deadlines SET is_completed = true, completed_at = $1
+       WHERE chain_id = $2 AND chain_step = 'signification' AND is_completed = false`,
+      [significationEvent.eventDate, row.id]
+    );
+    return this.recalculateChain(client, row.id);
+  }
+
+  /**
+   * Recalcule les délais en cours des chaînes qui dépendent d'un événement
+   * (jugement ou signification) dont la date a été corrigée
+   */
+  async recalculateForEvent(eventId: string): Promise<LegalDeadlineRecord[]> {
+    try {
+      const chainResult = await db.query(
+        'SELECT id FROM deadline_chains WHERE judgment_event_id = $1 OR signification_event_id = $1',
+        [eventId]
+      );
+      const chainIds: string[] = (chainResult as any).rows.map((row: any) => row.id);
+      if (chainIds.length === 0) return [];
+
+      const records = await db.transaction(async (client) => {
+        const updated: LegalDeadlineRecord[] = [];
+        for (const chainId of chainIds) {
+          updated.push(...await this.recalculateChain(client, chainId));
+        }
+        return updated;
+      });
+
+      logger.info('Deadline chain recalculated', { eventId, deadlines: records.length });
+      return records;
+
+    } catch (error) {
+      logger.error('Recalculate deadline chain error:', error);
+      throw error;
+    }
+  }
+
+  async getChainForEvent(eventId: string): Promise<DeadlineChain | null> {
+    const result = await db.query(
+      'SELECT * FROM deadline_chains WHERE judgment_event_id = $1',
+      [eventId]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToChain(row) : null;
+  }
+
+  private async recalculateChain(client: PoolClient, chainId: string): Promise<LegalDeadlineRecord[]> {
+    const chainResult = await client.query(
+      `SELECT dc.*, j.event_date AS judgment_date, s.event_date AS signification_date
+       FROM deadline_chains dc
+       JOIN case_events j ON j.id = dc.judgment_event_id
+       LEFT JOIN case_events s ON s.id = dc.signification_event_id
+       WHERE dc.id = $1`,
+      [chainId]
+    );
+    const chain = chainResult.rows[0];
+    if (!chain) return [];
+
+    const events: ChainEventDates = { jugement_rendu: new Date(chain.judgment_date) };
+    if (chain.signification_date) events.signification = new Date(chain.signification_date);
+
+    const planned = planDeadlineChain(
+      { procedure: chain.procedure, judgmentKind: chain.judgment_kind },
+      events
+    );
+
+    // Les délais soldés ne sont pas modifiés
+    const updated: LegalDeadlineRecord[] = [];
+    for (const step of planned) {
+      const triggerEventId = step.baseEvent === 'signification'
+        ? chain.signification_event_id
+        : chain.judgment_event_id;
+      const result = await client.query(
+        `UPDATE legal_deadlines SET
+          base_date = $1, deadline_date = $2, days_total = $3, legal_reference = $4,
+          rules_version = $5, is_provisional = $6, trigger_event_id = $7
+         WHERE chain_id = $8 AND chain_step = $9 AND is_completed = false
+         RETURNING *`,
+        [
+          formatIsoDate(step.baseDate), formatIsoDate(step.deadline), step.computation.totalDays,
+          step.computation.reference, step.computation.rulesVersion, step.provisional,
+          triggerEventId, chainId, step.stepKey
+        ]
+      );
+      updated.push(...result.rows.map((row: any) => this.mapRowToLegalDeadline(row)));
+    }
+    return updated;
+  }
+
+  private mapRowToChain(row: any): DeadlineChain {
+    return {
+      id: row.id,
+      caseId: row.case_id,
+      judgmentEventId: row.judgment_event_id,
+      significationEventId: row.signification_event_id || undefined,
+      procedure: row.procedure,
+      judgmentKind: row.judgment_kind,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToLegalDeadline(row: any): LegalDeadlineRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      caseId: row.case_id || undefined,
+      title: row.title,
+      titleAr: row.title_ar || undefined,
+      category: row.category,
+      baseDate: new Date(row.base_date),
+      deadlineDate: new Date(row.deadline_date),
+      daysTotal: row.days_total,
+      legalReference: row.legal_reference || undefined,
+      ruleCode: row.rule_code || undefined,
+      rulesVersion: row.rules_version || undefined,
+      priority: row.priority,
+      chainId: row.chain_id || undefined,
+      chainStep: row.chain_step || undefined,
+      triggerEventId: row.trigger_event_id || undefined,
+      parentDeadlineId: row.parent_deadline_id || undefined,
+      isProvisional: row.is_provisional,
+      isCompleted: row.is_completed,
+      ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {}),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+export const deadlineChainService = new DeadlineChainService();
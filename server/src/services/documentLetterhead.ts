@@ -0,0 +1,233 @@
+import { Profession } from '@/types/auth';
+
+/**
+ * En-tête professionnel et bloc de signature des documents juridiques
+ *
+ * Reprend côté serveur la composition des services documentHeaderService et
+ * documentSignatureService du frontend (identité du rédacteur, destinataire,
+ * objet, date et lieu ; mention « Signature et cachet »), à partir du profil
+ * enregistré en base. Chaque fonction retourne une liste de blocs de texte,
+ * dans le même ordre pour le français et l'arabe afin de pouvoir les mettre
+ * en regard dans un document bilingue.
+ */
+
+export type LetterheadLanguage = 'fr' | 'ar';
+
+export interface ProfessionalIdentity {
+  firstName: string;
+  lastName: string;
+  profession: Profession;
+  registrationNumber?: string;
+  barreauId?: string;
+  organizationName?: string;
+  address?: string;
+  city?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface LetterheadParams {
+  identity: ProfessionalIdentity;
+  language: LetterheadLanguage;
+  objet: string;
+  date: Date;
+  lieu: string;
+  tribunal?: string;
+  destinataire?: 'president_tribunal' | 'juge_referes' | 'procureur' | 'qui_de_droit' | string;
+  reference?: string;
+}
+
+export interface SignatureBlockParams {
+  identity: ProfessionalIdentity;
+  language: LetterheadLanguage;
+  date: Date;
+  lieu: string;
+}
+
+const ROLE_NAMES: Record<Profession, { fr: string; ar: string }> = {
+  [Profession.AVOCAT]: { fr: 'Avocat', ar: 'محامٍ' },
+  [Profession.NOTAIRE]: { fr: 'Notaire', ar: 'موثق' },
+  [Profession.HUISSIER]: { fr: 'Huissier de Justice', ar: 'محضر قضائي' },
+  [Profession.MAGISTRAT]: { fr: 'Magistrat', ar: 'قاضٍ' },
+  [Profession.JURISTE_ENTREPRISE]: { fr: 'Juriste d\'Entreprise', ar: 'مستشار قانوني' },
+  [Profession.ETUDIANT]: { fr: 'Étudiant en Droit', ar: 'طالب قانون' },
+  [Profession.ADMIN]: { fr: 'Administrateur', ar: 'مدير' }
+};
+
+export function formatLegalDate(date: Date, language: LetterheadLanguage): string {
+  return date.toLocaleDateString(language === 'ar' ? 'ar-DZ' : 'fr-FR', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Lieu de rédaction : ville du profil, à défaut la dernière partie de l'adresse
+ */
+export function defaultLieu(identity: ProfessionalIdentity | null): string {
+  if (identity?.city) return identity.city;
+  const fromAddress = identity?.address?.split(',').pop()?.trim();
+  return fromAddress || 'Alger';
+}
+
+function lines(...values: Array<string | undefined | false>): string {
+  return values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0).join('\n');
+}
+
+function professionalIdentity(identity: ProfessionalIdentity, language: LetterheadLanguage): string {
+  const isAr = language === 'ar';
+  const name = `${identity.firstName} ${identity.lastName}`;
+  const contact = [
+    identity.organizationName,
+    identity.address || (isAr ? '[العنوان]' : '[Adresse]'),
+    isAr ? `الهاتف: ${identity.phone || '[الهاتف]'}` : `Tél: ${identity.phone || '[Téléphone]'}`,
+    identity.email && (isAr ? `البريد الإلكتروني: ${identity.email}` : `Email: ${identity.email}`)
+  ];
+
+  switch (identity.profession) {
+    case Profession.AVOCAT:
+      return isAr
+        ? lines(
+          `الأستاذ ${name}`,
+          `محامٍ مسجل في ${identity.barreauId || 'نقابة المحامين'}`,
+          `رقم التسجيل: ${identity.registrationNumber || '[رقم التسجيل]'}`,
+          ...contact
+        )
+        : lines(
+          `Maître ${name}`,
+          `Avocat inscrit au ${identity.barreauId || 'Barreau'}`,
+          `N° d'inscription: ${identity.registrationNumber || '[N° inscription]'}`,
+          ...contact
+        );
+    case Profession.NOTAIRE:
+      return isAr
+        ? lines(
+          `الأستاذ ${name}`,
+          `موثق مسجل في ${identity.barreauId || 'الغرفة الوطنية للموثقين'}`,
+          `رقم القيد: ${identity.registrationNumber || '[رقم القيد]'}`,
+          ...contact
+        )
+        : lines(
+          `Maître ${name}`,
+          `Notaire inscrit à la ${identity.barreauId || 'Chambre des Notaires'}`,
+          `N° de matricule: ${identity.registrationNumber || '[N° matricule]'}`,
+          ...contact
+        );
+    case Profession.HUISSIER:
+      return isAr
+        ? lines(
+          `الأستاذ ${name}`,
+          `محضر قضائي معتمد لدى ${identity.barreauId || 'الغرفة الوطنية للمحضرين'}`,
+          `رقم الاعتماد: ${identity.registrationNumber || '[رقم الاعتماد]'}`,
+          ...contact
+        )
+        : lines(
+          `Maître ${name}`,
+          'Huissier de Justice assermenté',
+          `Chambre: ${identity.barreauId || 'Chambre des Huissiers'}`,
+          `N° d'agrément: ${identity.registrationNumber || '[N° agrément]'}`,
+          ...contact
+        );
+    default:
+      return lines(name, ROLE_NAMES[identity.profession][language]);
+  }
+}
+
+function destinataireLine(destinataire: string, tribunal: string | undefined, language: LetterheadLanguage): string {
+  const isAr = language === 'ar';
+
+  switch (destinataire) {
+    case 'president_tribunal':
+      return isAr ? `إلى السيد رئيس ${tribunal || 'المحكمة'}` : `À Monsieur le Président du ${tribunal || 'Tribunal'}`;
+    case 'juge_referes':
+      return isAr
+        ? `إلى السيد قاضي الأمور المستعجلة لدى ${tribunal || 'المحكمة'}`
+        : `À Monsieur le Juge des Référés du ${tribunal || 'Tribunal'}`;
+    case 'procureur':
+      return isAr
+        ? `إلى السيد وكيل الجمهورية لدى ${tribunal || 'المحكمة'}`
+        : `À Monsieur le Procureur de la République près le ${tribunal || 'Tribunal'}`;
+    case 'qui_de_droit':
+      return isAr ? 'إلى من يهمه الأمر' : 'À qui de droit';
+    default:
+      // Destinataire personnalisé
+      return destinataire;
+  }
+}
+
+/**
+ * En-tête complet : en-tête officiel (si juridiction), rédacteur, destinataire,
+ * objet et référence, date et lieu
+ */
+export function buildLetterhead(params: LetterheadParams): string[] {
+  const isAr = params.language === 'ar';
+  const blocks: string[] = [];
+
+  if (params.tribunal) {
+    blocks.push(isAr
+      ? lines('الجمهورية الجزائرية الديمقراطية الشعبية', 'وزارة العدل', params.tribunal)
+      : lines('RÉPUBLIQUE ALGÉRIENNE DÉMOCRATIQUE ET POPULAIRE', 'MINISTÈRE DE LA JUSTICE', params.tribunal));
+  }
+
+  blocks.push(professionalIdentity(params.identity, params.language));
+
+  if (params.destinataire) {
+    blocks.push(destinataireLine(params.destinataire, params.tribunal, params.language));
+  }
+
+  blocks.push(lines(
+    isAr ? `الموضوع: ${params.objet}` : `Objet: ${params.objet}`,
+    params.reference && (isAr ? `المرجع: ${params.reference}` : `Référence: ${params.reference}`)
+  ));
+
+  const date = formatLegalDate(params.date, params.language);
+  blocks.push(isAr ? `${params.lieu}، في ${date}` : `${params.lieu}, le ${date}`);
+
+  return blocks;
+}
+
+/**
+ * Bloc de signature : « Fait à », mention de signature, identité du signataire
+ */
+export function buildSignatureBlock(params: SignatureBlockParams): string[] {
+  const isAr = params.language === 'ar';
+  const { identity } = params;
+  const name = `${identity.firstName} ${identity.lastName}`;
+  const date = formatLegalDate(params.date, params.language);
+
+  let signataire: string;
+  switch (identity.profession) {
+    case Profession.AVOCAT:
+      signataire = isAr
+        ? lines(`الأستاذ ${name}`, `محامٍ لدى ${identity.barreauId || 'نقابة المحامين'}`, `رقم ${identity.registrationNumber || '[رقم التسجيل]'}`)
+        : lines(`Maître ${name}`, `Avocat au ${identity.barreauId || 'Barreau'}`, `N° ${identity.registrationNumber || '[N° inscription]'}`);
+      break;
+    case Profession.NOTAIRE:
+      signataire = isAr
+        ? lines(`الأستاذ ${name}`, 'موثق معتمد', `رقم القيد: ${identity.registrationNumber || '[رقم القيد]'}`)
+        : lines(`Maître ${name}`, 'Notaire assermenté', `N° de matricule: ${identity.registrationNumber || '[N° matricule]'}`);
+      break;
+    case Profession.HUISSIER:
+      signataire = isAr
+        ? lines(`الأستاذ ${name}`, 'محضر قضائي معتمد', `رقم الاعتماد: ${identity.registrationNumber || '[رقم الاعتماد]'}`)
+        : lines(`Maître ${name}`, 'Huissier de Justice assermenté', `N° d'agrément: ${identity.registrationNumber || '[N° agrément]'}`);
+      break;
+    default:
+      signataire = lines(name, ROLE_NAMES[identity.profession][params.language]);
+  }
+
+  return [
+    isAr ? `حرر في ${params.lieu}، بتاريخ ${date}` : `Fait à ${params.lieu}, le ${date}`,
+    isAr ? 'التوقيع والختم' : 'Signature et cachet',
+    signataire
+  ];
+}
+
+/**
+ * Liste des pièces jointes
+ */
+export function buildPiecesJointes(pieces: string[], language: LetterheadLanguage): string {
+  const title = language === 'ar' ? 'المستندات المرفقة:' : 'PIÈCES JOINTES:';
+  return [title, ...pieces.map((piece, index) => `${index + 1}. ${piece}`)].join('\n');
+}
@@ -0,0 +1,555 @@
+import PDFDocument from 'pdfkit';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as DocxDocument,
+  Footer,
+  Header,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableBorders,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { Document, DocumentExportOptions } from '@/types/document';
+import { TextDirection, wrapWords } from '@/utils/bidi';
+import { PDF_LINE_HEIGHT, collectPdf, drawPdfWatermark, registerPdfFonts, writePdfText } from '@/utils/pdfText';
+import {
+  ProfessionalIdentity,
+  buildLetterhead,
+  buildPiecesJointes,
+  buildSignatureBlock,
+  defaultLieu,
+  formatLegalDate
+} from '@/services/documentLetterhead';
+
+/**
+ * Document Renderer
+ * Met en page un document juridique (en-tête professionnel, corps, bloc de
+ * signature, numérotation des pages) et le produit en PDF, DOCX ou HTML.
+ *
+ * En mise en page bilingue, le document et sa traduction sont placés en regard :
+ * français à gauche, arabe à droite, paragraphe par paragraphe.
+ */
+
+export type DocumentLanguage = 'fr' | 'ar';
+
+export type LegalDocumentRow =
+  | { kind: 'title'; cells: Partial<Record<DocumentLanguage, string>> }
+  | { kind: 'text'; cells: Partial<Record<DocumentLanguage, string>>; role: 'letterhead' | 'body' | 'signature' | 'meta' }
+  | { kind: 'separator' };
+
+export interface RenderableLegalDocument {
+  title: string;
+  /** Colonnes du document : une seule langue, ou ['fr', 'ar'] en bilingue */
+  languages: DocumentLanguage[];
+  generatedAt: Date;
+  rows: LegalDocumentRow[];
+}
+
+export interface LegalDocumentContext {
+  /** Rédacteur du document ; sans profil professionnel, ni en-tête ni signature */
+  identity: ProfessionalIdentity | null;
+  translation?: Document | null;
+  generatedAt?: Date;
+}
+
+const PRIMARY_COLOR = '#1e3a5f';
+
+/** Ligne de séparation telle qu'insérée par l'interface de rédaction (━━━, ───, -----) */
+const SEPARATOR_PATTERN = /^\s*[━─═_-]{5,}\s*$/;
+
+const LABELS: Record<string, { fr: string; ar: string }> = {
+  type: { fr: 'Type', ar: 'النوع' },
+  caseNumber: { fr: 'N° de dossier', ar: 'رقم الملف' },
+  createdAt: { fr: 'Créé le', ar: 'أنشئ في' },
+  signedBy: { fr: 'Signé électroniquement par', ar: 'موقع إلكترونيا من طرف' },
+  signedOn: { fr: 'le', ar: 'بتاريخ' },
+  page: { fr: 'Page', ar: 'صفحة' }
+};
+
+function label(key: string, language: DocumentLanguage): string {
+  return LABELS[key]?.[language] ?? key;
+}
+
+/**
+ * Découpe un texte en paragraphes (séparés par une ligne vide) ;
+ * les lignes de séparation deviennent `null`
+ */
+function splitParagraphs(content: string): Array<string | null> {
+  const paragraphs: Array<string | null> = [];
+
+  for (const chunk of content.split(/\r?\n\s*\r?\n/)) {
+    let current: string[] = [];
+    for (const line of chunk.split(/\r?\n/)) {
+      if (SEPARATOR_PATTERN.test(line)) {
+        if (current.length > 0) paragraphs.push(current.join('\n'));
+        paragraphs.push(null);
+        current = [];
+      } else {
+        current.push(line);
+      }
+    }
+    const text = current.join('\n').trim();
+    if (text) paragraphs.push(text);
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Le contenu produit par l'interface de rédaction contient déjà l'en-tête et la
+ * signature, encadrés de lignes de séparation : on ne les ajoute pas une seconde fois
+ */
+export function hasComposedLayout(content: string): boolean {
+  return content.split(/\r?\n/).some(line => SEPARATOR_PATTERN.test(line));
+}
+
+/**
+ * Met en regard les blocs de chaque langue, par position
+ */
+function pairRows(
+  languages: DocumentLanguage[],
+  columns: Array<Array<string | null>>,
+  role: 'letterhead' | 'body' | 'signature' | 'meta'
+): LegalDocumentRow[] {
+  const rows: LegalDocumentRow[] = [];
+  const count = Math.max(0, ...columns.map(column => column.length));
+
+  for (let i = 0; i < count; i++) {
+    const blocks = columns.map(column => column[i]);
+    if (blocks.every(block => block === null || block === undefined)) {
+      rows.push({ kind: 'separator' });
+      continue;
+    }
+    const cells: Partial<Record<DocumentLanguage, string>> = {};
+    languages.forEach((language, index) => {
+      cells[language] = blocks[index] ?? '';
+    });
+    rows.push({ kind: 'text', cells, role });
+  }
+
+  return rows;
+}
+
+export function buildRenderableLegalDocument(
+  document: Document,
+  options: DocumentExportOptions,
+  context: LegalDocumentContext
+): RenderableLegalDocument {
+  const generatedAt = context.generatedAt ?? new Date();
+  const bilingual = options.layout === 'bilingual';
+  const versions: Partial<Record<DocumentLanguage, Document>> = { [document.language]: document };
+
+  if (bilingual) {
+    if (!context.translation || context.translation.language === document.language) {
+      throw new Error('Bilingual export requires a translation in the other language');
+    }
+    versions[context.translation.language] = context.translation;
+  }
+
+  const languages: DocumentLanguage[] = bilingual ? ['fr', 'ar'] : [document.language];
+  const column = (build: (version: Document, language: DocumentLanguage) => Array<string | null>) =>
+    languages.map(language => build(versions[language] as Document, language));
+
+  const title: Partial<Record<DocumentLanguage, string>> = {};
+  languages.forEach(language => {
+    title[language] = (versions[language] as Document).title;
+  });
+  const rows: LegalDocumentRow[] = [{ kind: 'title', cells: title }];
+
+  if (options.includeMetadata) {
+    rows.push(...pairRows(languages, column((version, language) => [[
+      `${label('type', language)}: ${version.type}`,
+      version.metadata?.caseNumber ? `${label('caseNumber', language)}: ${version.metadata.caseNumber}` : '',
+      `${label('createdAt', language)}: ${formatLegalDate(version.createdAt, language)}`
+    ].filter(Boolean).join('\n')]), 'meta'));
+  }
+
+  const composed = languages.some(language => hasComposedLayout((versions[language] as Document).content));
+  const { identity } = context;
+  const lieu = options.lieu || defaultLieu(identity);
+
+  if (identity && options.includeLetterhead !== false && !composed) {
+    rows.push(...pairRows(languages, column((version, language) => buildLetterhead({
+      identity,
+      language,
+      objet: version.title,
+      date: generatedAt,
+      lieu,
+      ...(options.tribunal ? { tribunal: options.tribunal } : {}),
+      ...(options.destinataire ? { destinataire: options.destinataire } : {}),
+      ...(options.reference || version.metadata?.caseNumber
+        ? { reference: options.reference || version.metadata.caseNumber }
+        : {})
+    })), 'letterhead'));
+    rows.push({ kind: 'separator' });
+  }
+
+  rows.push(...pairRows(languages, column(version => splitParagraphs(version.content)), 'body'));
+
+  if (options.includeSignatures) {
+    if (identity && !composed) {
+      rows.push({ kind: 'separator' });
+      rows.push(...pairRows(languages, column((_version, language) => buildSignatureBlock({
+        identity,
+        language,
+        date: generatedAt,
+        lieu
+      })), 'signature'));
+    }
+
+    const signatures = document.signatures ?? [];
+    if (signatures.length > 0) {
+      rows.push(...pairRows(languages, column((_version, language) => [signatures.map(signature =>
+        `${label('signedBy', language)} ${signature.signerName} (${signature.signerRole}) ${label('signedOn', language)} ${formatLegalDate(new Date(signature.timestamp), language)}`
+      ).join('\n')]), 'meta'));
+    }
+  }
+
+  const attachments = document.metadata?.attachments ?? [];
+  if (options.includeAttachments && attachments.length > 0) {
+    rows.push({ kind: 'separator' });
+    rows.push(...pairRows(languages, column((_version, language) => [
+      buildPiecesJointes(attachments.map(attachment => attachment.filename), language)
+    ]), 'body'));
+  }
+
+  return { title: document.title, languages, generatedAt, rows };
+}
+
+// ─── Rendu ──────────────────────────────────────────────────────────────────
+
+interface RowStyle {
+  size: number;
+  bold: boolean;
+  color: string;
+  placement: 'start' | 'center' | 'end';
+}
+
+function rowStyle(row: Exclude<LegalDocumentRow, { kind: 'separator' }>): RowStyle {
+  if (row.kind === 'title') return { size: 15, bold: true, color: PRIMARY_COLOR, placement: 'center' };
+  switch (row.role) {
+    case 'meta':
+      return { size: 8, bold: false, color: '#555555', placement: 'start' };
+    case 'signature':
+      return { size: 11, bold: false, color: '#000000', placement: 'end' };
+    default:
+      return { size: 11, bold: false, color: '#000000', placement: 'start' };
+  }
+}
+
+function directionOf(language: DocumentLanguage): TextDirection {
+  return language === 'ar' ? 'rtl' : 'ltr';
+}
+
+function pdfAlign(placement: RowStyle['placement'], direction: TextDirection): 'left' | 'center' | 'right' {
+  if (placement === 'center') return 'center';
+  const atStart = placement === 'start';
+  return (direction === 'rtl') === atStart ? 'right' : 'left';
+}
+
+function pageLabel(model: RenderableLegalDocument, page: number, pages: number): string {
+  return model.languages.map(language => `${label('page', language)} ${page} / ${pages}`).join('   ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const PDF_MARGINS = { top: 60, right: 50, bottom: 60, left: 50 };
+const BILINGUAL_GUTTER = 24;
+
+/** Marges DOCX : 2 cm, en vingtièmes de point */
+const DOCX_MARGIN = 1134;
+const DOCX_CONTENT_WIDTH = 11906 - 2 * DOCX_MARGIN;
+
+export class DocumentRenderer {
+
+  // ─── PDF ──────────────────────────────────────────────────────────────────
+
+  renderPDF(model: RenderableLegalDocument, options: DocumentExportOptions): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      bufferPages: true,
+      margins: PDF_MARGINS,
+      info: { Title: model.title, Producer: 'JuristDZ', CreationDate: model.generatedAt },
+      ...(options.password
+        ? {
+          userPassword: options.password,
+          ownerPassword: options.password,
+          permissions: { printing: 'highResolution' as const, copying: false, modifying: false }
+        }
+        : {})
+    });
+    registerPdfFonts(doc);
+    const finished = collectPdf(doc);
+
+    const left = PDF_MARGINS.left;
+    const contentWidth = doc.page.width - PDF_MARGINS.left - PDF_MARGINS.right;
+    const bodyHeight = doc.page.height - PDF_MARGINS.top - PDF_MARGINS.bottom;
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > doc.page.height - PDF_MARGINS.bottom) doc.addPage();
+    };
+
+    const columnWidth = model.languages.length > 1 ? (contentWidth - BILINGUAL_GUTTER) / 2 : contentWidth;
+    const columns = model.languages.map((language, index) => ({
+      language,
+      x: left + index * (columnWidth + BILINGUAL_GUTTER),
+      width: columnWidth
+    }));
+
+    for (const row of model.rows) {
+      if (row.kind === 'separator') {
+        ensureSpace(16);
+        const y = doc.y + 4;
+        doc.moveTo(left, y).lineTo(left + contentWidth, y).lineWidth(0.8).strokeColor(PRIMARY_COLOR).stroke();
+        doc.y = y + 10;
+        continue;
+      }
+
+      this.pdfRow(doc, row, columns, ensureSpace, bodyHeight);
+      doc.moveDown(row.kind === 'title' ? 1 : 0.6);
+    }
+
+    this.pdfDecoratePages(doc, model, options);
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Écrit une ligne du document, les colonnes ligne à ligne pour que le
+   * français et l'arabe restent alignés, y compris d'une page à l'autre.
+   * Les paragraphes courts ne sont pas coupés entre deux pages.
+   */
+  private pdfRow(
+    doc: PDFKit.PDFDocument,
+    row: Exclude<LegalDocumentRow, { kind: 'separator' }>,
+    columns: Array<{ language: DocumentLanguage; x: number; width: number }>,
+    ensureSpace: (height: number) => void,
+    bodyHeight: number
+  ): void {
+    const style = rowStyle(row);
+    doc.font(style.bold ? 'bold' : 'regular').fontSize(style.size);
+
+    const cells = columns.map(column => {
+      const text = row.cells[column.language] ?? '';
+      return {
+        ...column,
+        direction: directionOf(column.language),
+        lines: text ? wrapWords(text, column.width, value => doc.widthOfString(value)) : []
+      };
+    });
+
+    const lineHeight = style.size * PDF_LINE_HEIGHT;
+    const count = Math.max(0, ...cells.map(cell => cell.lines.length));
+    if (count * lineHeight <= bodyHeight / 3) ensureSpace(count * lineHeight);
+
+    for (let i = 0; i < count; i++) {
+      ensureSpace(lineHeight);
+      const y = doc.y;
+      for (const cell of cells) {
+        const line = cell.lines[i];
+        if (!line || line.length === 0) continue;
+        doc.y = y;
+        writePdfText(doc, line.join(' '), {
+          x: cell.x,
+          width: cell.width,
+          align: pdfAlign(style.placement, cell.direction),
+          bold: style.bold,
+          size: style.size,
+          color: style.color,
+          direction: cell.direction
+        });
+      }
+      doc.y = y + lineHeight;
+    }
+  }
+
+  /**
+   * Numérotation et filigrane sur toutes les pages
+   */
+  private pdfDecoratePages(doc: PDFKit.PDFDocument, model: RenderableLegalDocument, options: DocumentExportOptions): void {
+    const range = doc.bufferedPageRange();
+    const width = doc.page.width - PDF_MARGINS.left - PDF_MARGINS.right;
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const savedY = doc.y;
+
+      doc.y = doc.page.height - PDF_MARGINS.bottom + 20;
+      writePdfText(doc, pageLabel(model, i - range.start + 1, range.count), {
+        x: PDF_MARGINS.left, width, align: 'center', size: 8, color: '#666666', direction: 'ltr'
+      });
+
+      if (options.watermark) drawPdfWatermark(doc, options.watermark);
+      doc.y = savedY;
+    }
+  }
+
+  // ─── DOCX ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Les paragraphes arabes sont marqués bidirectionnels et leurs segments RTL :
+   * Word se charge alors de la mise en forme des lettres et du sens d'écriture
+   */
+  async renderDOCX(model: RenderableLegalDocument, options: DocumentExportOptions): Promise<Buffer> {
+    if (options.password) {
+      throw new Error('Password protection is not available for docx exports');
+    }
+
+    const bilingual = model.languages.length > 1;
+    const children = bilingual
+      ? [this.docxTable(model)]
+      : model.rows.map(row => this.docxParagraph(row, model.languages[0] as DocumentLanguage));
+
+    const pageNumbers = model.languages.flatMap((language, index) => [
+      ...(index > 0 ? ['   '] : []),
+      `${label('page', language)} `,
+      PageNumber.CURRENT,
+      ' / ',
+      PageNumber.TOTAL_PAGES
+    ]);
+
+    const document = new DocxDocument({
+      creator: 'JuristDZ',
+      title: model.title,
+      styles: { default: { document: { run: { font: 'Arial', size: 22 } } } },
+      sections: [{
+        properties: {
+          page: { margin: { top: DOCX_MARGIN, right: DOCX_MARGIN, bottom: DOCX_MARGIN, left: DOCX_MARGIN } }
+        },
+        ...(options.watermark
+          ? {
+            headers: {
+              default: new Header({
+                children: [new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [new TextRun({ text: options.watermark, bold: true, size: 28, color: 'BBBBBB' })]
+                })]
+              })
+            }
+          }
+          : {}),
+        footers: {
+          default: new Footer({
+            children: [new Paragraph({
+              alignment: AlignmentType.CENTER,
+              children: [new TextRun({ children: pageNumbers, size: 16, color: '666666' })]
+            })]
+          })
+        },
+        children
+      }]
+    });
+
+    return Packer.toBuffer(document);
+  }
+
+  private docxParagraph(row: LegalDocumentRow, language: DocumentLanguage): Paragraph {
+    if (row.kind === 'separator') {
+      return new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: PRIMARY_COLOR.slice(1), space: 1 } },
+        spacing: { after: 160 }
+      });
+    }
+
+    const style = rowStyle(row);
+    const rtl = language === 'ar';
+    const text = row.cells[language] ?? '';
+    const alignment = style.placement === 'center'
+      ? AlignmentType.CENTER
+      : style.placement === 'end' ? AlignmentType.END : AlignmentType.START;
+
+    return new Paragraph({
+      bidirectional: rtl,
+      alignment,
+      spacing: { after: row.kind === 'title' ? 240 : 120 },
+      children: text.split(/\r?\n/).map((line, index) => new TextRun({
+        text: line,
+        bold: style.bold,
+        size: style.size * 2,
+        sizeComplexScript: style.size * 2,
+        color: style.color.slice(1),
+        rightToLeft: rtl,
+        ...(index > 0 ? { break: 1 } : {})
+      }))
+    });
+  }
+
+  /**
+   * Mise en page bilingue : tableau sans bordure, une ligne par paragraphe
+   */
+  private docxTable(model: RenderableLegalDocument): Table {
+    const columnWidth = Math.floor(DOCX_CONTENT_WIDTH / model.languages.length);
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      columnWidths: model.languages.map(() => columnWidth),
+      borders: TableBorders.NONE,
+      rows: model.rows.map(row => new TableRow({
+        cantSplit: row.kind !== 'text' || row.role !== 'body',
+        children: row.kind === 'separator'
+          ? [new TableCell({ columnSpan: model.languages.length, children: [this.docxParagraph(row, 'fr')] })]
+          : model.languages.map(language => new TableCell({
+            width: { size: columnWidth, type: WidthType.DXA },
+            margins: { left: 120, right: 120 },
+            children: [this.docxParagraph(row, language)]
+          }))
+      }))
+    });
+  }
+
+  // ─── HTML ─────────────────────────────────────────────────────────────────
+
+  renderHTML(model: RenderableLegalDocument, options: DocumentExportOptions): string {
+    const primary = model.languages[0] as DocumentLanguage;
+    const bilingual = model.languages.length > 1;
+
+    const cell = (row: LegalDocumentRow, language: DocumentLanguage): string => {
+      if (row.kind === 'separator') return '<hr>';
+      const text = escapeHtml(row.cells[language] ?? '').replace(/\r?\n/g, '<br>');
+      const className = row.kind === 'title' ? 'title' : row.role;
+      return `<p class="${className}" lang="${language}" dir="${directionOf(language)}">${text}</p>`;
+    };
+
+    const body = bilingual
+      ? `<table class="bilingual">\n${model.rows.map(row => row.kind === 'separator'
+        ? `<tr><td colspan="${model.languages.length}"><hr></td></tr>`
+        : `<tr>${model.languages.map(language => `<td>${cell(row, language)}</td>`).join('')}</tr>`).join('\n')}\n</table>`
+      : model.rows.map(row => cell(row, primary)).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${primary}" dir="${bilingual ? 'ltr' : directionOf(primary)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(model.title)}</title>
+<style>
+  body { font-family: 'DejaVu Sans', Arial, sans-serif; margin: 40px; line-height: 1.6; }
+  .title { text-align: center; font-size: 1.4em; font-weight: bold; color: ${PRIMARY_COLOR}; }
+  .meta { color: #555; font-size: 0.8em; }
+  .signature { text-align: end; }
+  hr { border: 0; border-top: 1px solid ${PRIMARY_COLOR}; }
+  table.bilingual { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  table.bilingual td { vertical-align: top; padding: 0 12px; }
+  .watermark { position: fixed; top: 45%; left: 0; right: 0; text-align: center; font-size: 60px; color: rgba(0, 0, 0, 0.08); transform: rotate(-45deg); pointer-events: none; }
+</style>
+</head>
+<body>
+${options.watermark ? `<div class="watermark">${escapeHtml(options.watermark)}</div>\n` : ''}${body}
+</body>
+</html>
+`;
+  }
+}
+
+export const documentRenderer = new DocumentRenderer();
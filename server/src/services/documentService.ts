@@ -22,10 +22,18 @@ import {
   ValidationError,
   DocumentExportOptions,
   BulkDocumentOperation,
-  BulkOperationResult
+  BulkOperationResult,
+  DocumentSortOption
 } from '@/types/document';
 import { Profession } from '@/types/auth';
 import { LegalDomain } from '@/types/search';
+import { documentRenderer, buildRenderableLegalDocument, RenderableLegalDocument } from '@/services/documentRenderer';
+import { ProfessionalIdentity } from '@/services/documentLetterhead';
+import { attachmentIndexService } from '@/services/attachmentIndexService';
+import { normalizeSearchText } from '@/utils/searchText';
+
+/** Erreurs d'export transmises telles quelles à l'appelant */
+const EXPORT_ERRORS = ['Document not found', 'Access denied', 'Bilingual export', 'Password protection'];
 
 export class DocumentService {
   private readonly maxVersions = 50;
@@ -700,8 +708,21 @@ export class DocumentService {
       const startTime = Date.now();
       
       // Build search query
-      let query = `
-        SELECT d.*, ts_rank(to_tsvector('french', d.title || ' ' || d.content), plainto_tsquery('french', $1)) as rank
+      // Le texte des pièces jointes n'est cherché que dans les documents que l'utilisateur peut ouvrir
+      const attachmentMatch = `EXISTS (
+          SELECT 1 FROM attachment_text_index ati
+          WHERE ati.document_id = d.id
+            AND ati.status = 'indexed'
+            AND ati.search_vector @@ plainto_tsquery('french', $3)
+        ) AND (
+          d.owner_id = $2
+          OR EXISTS (
+            SELECT 1 FROM document_permissions p
+            WHERE p.document_id = d.id AND p.user_id = $2 AND p.is_active = true AND 'read' = ANY(p.permissions)
+          )
+        )`;
+
+      let conditions = `
         FROM documents d
         LEFT JOIN document_permissions dp ON d.id = dp.document_id
         WHERE (
@@ -711,60 +732,73 @@ export class DocumentService {
         )
       `;
       
-      const params: any[] = [criteria.query || '', userId];
-      let paramIndex = 2;
+      const params: any[] = [criteria.query || '', userId, criteria.query ? normalizeSearchText(criteria.query) : ''];
+      let paramIndex = 3;
 
       // Add filters
       if (criteria.query) {
-        query += ` AND to_tsvector('french', d.title || ' ' || d.content) @@ plainto_tsquery('french', $1)`;
+        conditions += ` AND (to_tsvector('french', d.title || ' ' || d.content) @@ plainto_tsquery('french', $1) OR ${attachmentMatch})`;
       }
 
       if (criteria.type) {
-        query += ` AND d.type = $${++paramIndex}`;
+        conditions += ` AND d.type = $${++paramIndex}`;
         params.push(criteria.type);
       }
 
       if (criteria.category) {
-        query += ` AND d.category = $${++paramIndex}`;
+        conditions += ` AND d.category = $${++paramIndex}`;
         params.push(criteria.category);
       }
 
       if (criteria.status) {
-        query += ` AND d.status = $${++paramIndex}`;
+        conditions += ` AND d.status = $${++paramIndex}`;
         params.push(criteria.status);
       }
 
       if (criteria.clientId) {
-        query += ` AND d.metadata->>'clientId' = $${++paramIndex}`;
+        conditions += ` AND d.metadata->>'clientId' = $${++paramIndex}`;
         params.push(criteria.clientId);
       }
 
       if (criteria.tags && criteria.tags.length > 0) {
-        query += ` AND d.metadata->'tags' ?| $${++paramIndex}`;
+        conditions += ` AND d.metadata->'tags' ?| $${++paramIndex}`;
         params.push(criteria.tags);
       }
 
       if (criteria.dateRange) {
         if (criteria.dateRange.from) {
-          query += ` AND d.created_at >= $${++paramIndex}`;
+          conditions += ` AND d.created_at >= $${++paramIndex}`;
           params.push(criteria.dateRange.from);
         }
         if (criteria.dateRange.to) {
-          query += ` AND d.created_at <= $${++paramIndex}`;
+          conditions += ` AND d.created_at <= $${++paramIndex}`;
           params.push(criteria.dateRange.to);
         }
       }
 
       if (criteria.confidentialityLevel) {
-        query += ` AND d.confidentiality_level = $${++paramIndex}`;
+        conditions += ` AND d.confidentiality_level = $${++paramIndex}`;
         params.push(criteria.confidentialityLevel);
       }
 
       if (criteria.language) {
-        query += ` AND d.language = $${++paramIndex}`;
+        conditions += ` AND d.language = $${++paramIndex}`;
         params.push(criteria.language);
       }
 
+      // Une correspondance dans une pièce jointe compte comme une correspondance dans le document
+      let query = `
+        SELECT d.*, GREATEST(
+          ts_rank(to_tsvector('french', d.title || ' ' || d.content), plainto_tsquery('french', $1)),
+          COALESCE((
+            SELECT MAX(ts_rank(ati.search_vector, plainto_tsquery('french', $3)))
+            FROM attachment_text_index ati
+            WHERE ati.document_id = d.id AND ati.status = 'indexed'
+          ), 0)
+        ) as rank
+        ${conditions}
+      `;
+
       // Add sorting
       const sortBy = criteria.sortBy || DocumentSortOption.UPDATED_AT;
       const sortOrder = criteria.sortOrder || 'desc';
@@ -786,10 +820,14 @@ export class DocumentService {
       const documents = (result as any).rows.map((row: any) => this.mapRowToDocument(row));
 
       // Get total count
-      const countQuery = query.replace(/SELECT.*?FROM/, 'SELECT COUNT(*) FROM').replace(/ORDER BY.*$/, '').replace(/LIMIT.*$/, '');
-      const countResult = await db.query(countQuery, params.slice(0, -2));
+      const countResult = await db.query(`SELECT COUNT(DISTINCT d.id) AS count ${conditions}`, params.slice(0, -2));
       const totalCount = parseInt((countResult as any).rows[0].count);
 
+      // Extraits surlignés des pièces jointes des documents de la page
+      const attachmentMatches = criteria.query
+        ? await attachmentIndexService.findMatches(documents.map((document: Document) => document.id), criteria.query, userId)
+        : [];
+
       const searchTime = Date.now() - startTime;
 
       // Log search for analytics
@@ -798,6 +836,7 @@ export class DocumentService {
       return {
         documents,
         totalCount,
+        ...(criteria.query ? { attachmentMatches } : {}),
         searchTime
       };
 
@@ -972,13 +1011,13 @@ export class DocumentService {
 
       switch (options.format) {
         case 'pdf':
-          exportData = await this.generatePDF(document, options);
+          exportData = await documentRenderer.renderPDF(await this.buildExportModel(document, userId, options), options);
           break;
         case 'docx':
-          exportData = await this.generateDOCX(document, options);
+          exportData = await documentRenderer.renderDOCX(await this.buildExportModel(document, userId, options), options);
           break;
         case 'html':
-          exportData = Buffer.from(this.generateHTML(document, options), 'utf-8');
+          exportData = Buffer.from(documentRenderer.renderHTML(await this.buildExportModel(document, userId, options), options), 'utf-8');
           break;
         case 'txt':
           exportData = Buffer.from(document.content, 'utf-8');
@@ -996,6 +1035,9 @@ export class DocumentService {
 
     } catch (error) {
       logger.error('Document export error:', error);
+      if (error instanceof Error && EXPORT_ERRORS.some(prefix => error.message.startsWith(prefix))) {
+        throw error;
+      }
       throw new Error('Failed to export document');
     }
   }
@@ -1169,61 +1211,79 @@ export class DocumentService {
   }
 
   // Export format generators
-  private async generatePDF(document: Document, options: DocumentExportOptions): Promise<Buffer> {
-    // This would integrate with a PDF generation library like puppeteer or pdfkit
-    // For now, return a placeholder
-    const content = `
-      Document: ${document.title}
-      Type: ${document.type}
-      Created: ${document.createdAt.toLocaleDateString()}
-      
-      ${document.content}
-    `;
-    
-    return Buffer.from(content, 'utf-8');
+
+  /**
+   * Modèle de mise en page de l'export : en-tête et signature au nom du
+   * propriétaire du document, traduction pour la mise en page bilingue
+   */
+  private async buildExportModel(
+    document: Document,
+    userId: string,
+    options: DocumentExportOptions
+  ): Promise<RenderableLegalDocument> {
+    const identity = await this.getProfessionalIdentity(document.ownerId);
+    const translation = options.layout === 'bilingual'
+      ? await this.findTranslation(document, userId, options.translationDocumentId)
+      : null;
+
+    return buildRenderableLegalDocument(document, options, { identity, translation });
   }
 
-  private async generateDOCX(document: Document, options: DocumentExportOptions): Promise<Buffer> {
-    // This would integrate with a DOCX generation library like docx
-    // For now, return a placeholder
-    const content = `
-      Document: ${document.title}
-      Type: ${document.type}
-      Created: ${document.createdAt.toLocaleDateString()}
-      
-      ${document.content}
-    `;
-    
-    return Buffer.from(content, 'utf-8');
+  /**
+   * Version du document dans l'autre langue : celle indiquée, sinon une
+   * traduction rattachée (document parent ou enfant)
+   */
+  private async findTranslation(
+    document: Document,
+    userId: string,
+    translationDocumentId?: string
+  ): Promise<Document | null> {
+    if (translationDocumentId) {
+      return this.getDocument(translationDocumentId, userId);
+    }
+
+    const result = await db.query(
+      `SELECT id FROM documents
+       WHERE language <> $1
+         AND (parent_document_id = $2 OR id = $3)
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [document.language, document.id, document.parentDocumentId ?? null]
+    );
+
+    const row = (result as any).rows[0];
+    return row ? this.getDocument(row.id, userId) : null;
   }
 
-  private generateHTML(document: Document, options: DocumentExportOptions): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>${document.title}</title>
-        <meta charset="utf-8">
-        <style>
-          body { font-family: Arial, sans-serif; margin: 40px; }
-          .header { border-bottom: 1px solid #ccc; padding-bottom: 20px; margin-bottom: 20px; }
-          .content { line-height: 1.6; }
-          .metadata { color: #666; font-size: 0.9em; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>${document.title}</h1>
-          <div class="metadata">
-            Type: ${document.type} | Created: ${document.createdAt.toLocaleDateString()}
-          </div>
-        </div>
-        <div class="content">
-          ${document.content.replace(/\n/g, '<br>')}
-        </div>
-      </body>
-      </html>
-    `;
+  private async getProfessionalIdentity(userId: string): Promise<ProfessionalIdentity | null> {
+    const result = await db.query(
+      `SELECT u.first_name, u.last_name, u.email, u.phone_number,
+              up.profession, up.registration_number, up.barreau_id, up.organization_name,
+              up.address_line1, up.address_line2, up.city
+       FROM users u
+       JOIN user_profiles up ON up.user_id = u.id AND up.is_primary = true
+       WHERE u.id = $1`,
+      [userId]
+    );
+
+    const row = (result as any).rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const address = [row.address_line1, row.address_line2, row.city].filter(Boolean).join(', ');
+    return {
+      firstName: row.first_name,
+      lastName: row.last_name,
+      profession: row.profession as Profession,
+      ...(row.registration_number ? { registrationNumber: row.registration_number } : {}),
+      ...(row.barreau_id ? { barreauId: row.barreau_id } : {}),
+      ...(row.organization_name ? { organizationName: row.organization_name } : {}),
+      ...(address ? { address } : {}),
+      ...(row.city ? { city: row.city } : {}),
+      ...(row.phone_number ? { phone: row.phone_number } : {}),
+      ...(row.email ? { email: row.email } : {})
+    };
   }
 
   // Activity logging
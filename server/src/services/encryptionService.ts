@@ -1,9 +1,15 @@
 import crypto from 'crypto';
 import { promisify } from 'util';
+import { LocalKmsProvider, MasterKeyProvider, unwrapKey, wrapKey } from './masterKeyProvider';
 
 /**
  * Service de chiffrement pour la sécurisation des données sensibles
  * Implémente le chiffrement bout-en-bout avec isolation multi-tenant
+ *
+ * Chiffrement par enveloppe : la clé maître enveloppe les clés des tenants,
+ * conservées enveloppées dans le magasin de clés ; chaque clé de tenant
+ * enveloppe les clés des enregistrements et des fichiers. Une rotation ne
+ * touche donc pas aux données : seules les clés enveloppées sont reprises.
  */
 
 export interface EncryptionConfig {
@@ -21,6 +27,8 @@ export interface EncryptedData {
   salt?: string;
   algorithm: string;
   keyId: string;
+  /** Clé de l'enregistrement enveloppée par la clé du tenant ; absente des données chiffrées avant l'enveloppe */
+  wrappedKey?: string;
 }
 
 export interface TenantKeyInfo {
@@ -29,14 +37,66 @@ export interface TenantKeyInfo {
   createdAt: Date;
   rotatedAt?: Date;
   isActive: boolean;
+  /** Clé remplacée par cette rotation */
+  rotatedFrom?: string;
+}
+
+export interface StoredTenantKey extends TenantKeyInfo {
+  wrappedKey: Buffer;
+  masterKeyId: string;
+}
+
+/**
+ * Stockage des clés de tenant, toujours enveloppées par la clé maître
+ */
+export interface TenantKeyStore {
+  findActive(tenantId: string): Promise<StoredTenantKey | null>;
+  find(tenantId: string, keyId: string): Promise<StoredTenantKey | null>;
+  /** Enregistre une nouvelle clé active ; la clé active précédente est désactivée mais conservée */
+  save(key: StoredTenantKey): Promise<void>;
+}
+
+export class MemoryTenantKeyStore implements TenantKeyStore {
+  private readonly keys: StoredTenantKey[] = [];
+
+  async findActive(tenantId: string): Promise<StoredTenantKey | null> {
+    return this.keys.find(key => key.tenantId === tenantId && key.isActive) ?? null;
+  }
+
+  async find(tenantId: string, keyId: string): Promise<StoredTenantKey | null> {
+    return this.keys.find(key => key.tenantId === tenantId && key.keyId === keyId) ?? null;
+  }
+
+  async save(key: StoredTenantKey): Promise<void> {
+    for (const existing of this.keys) {
+      if (existing.tenantId === key.tenantId && existing.isActive) {
+        existing.isActive = false;
+        existing.rotatedAt = new Date();
+      }
+    }
+    this.keys.push({ ...key });
+  }
+}
+
+export interface EncryptionServiceOptions {
+  keyStore?: TenantKeyStore;
+  masterKeyProvider?: MasterKeyProvider;
+}
+
+interface TenantKey {
+  keyId: string;
+  key: Buffer;
 }
 
 export class EncryptionService {
   private readonly config: EncryptionConfig;
+  /** Clés de tenant désenveloppées, en cache pour la durée du processus */
   private readonly tenantKeys: Map<string, Buffer> = new Map();
   private readonly keyRotationInterval = 90 * 24 * 60 * 60 * 1000; // 90 jours
+  private keyStore: TenantKeyStore;
+  private masterKey: MasterKeyProvider;
 
-  constructor() {
+  constructor(options: EncryptionServiceOptions = {}) {
     this.config = {
       algorithm: 'aes-256-gcm',
       keyLength: 32,
@@ -44,29 +104,29 @@ export class EncryptionService {
       tagLength: 16,
       saltLength: 32
     };
+    this.keyStore = options.keyStore ?? new MemoryTenantKeyStore();
+    // Clé maître éphémère par défaut : comme le magasin en mémoire, elle ne survit pas au processus
+    this.masterKey = options.masterKeyProvider ?? new LocalKmsProvider(crypto.randomBytes(this.config.keyLength));
   }
 
   /**
-   * Génère une clé de chiffrement spécifique au tenant
+   * Branche le magasin de clés persistant et le fournisseur de clé maître au démarrage du serveur
    */
-  async generateTenantKey(tenantId: string): Promise<TenantKeyInfo> {
-    const keyId = crypto.randomUUID();
-    const key = crypto.randomBytes(this.config.keyLength);
-    
-    // Stockage sécurisé de la clé (en production, utiliser un HSM ou Key Vault)
-    this.tenantKeys.set(`${tenantId}:${keyId}`, key);
-    
-    const keyInfo: TenantKeyInfo = {
-      tenantId,
-      keyId,
-      createdAt: new Date(),
-      isActive: true
-    };
+  configure(options: EncryptionServiceOptions): void {
+    if (options.keyStore) {
+      this.keyStore = options.keyStore;
+    }
+    if (options.masterKeyProvider) {
+      this.masterKey = options.masterKeyProvider;
+    }
+    this.tenantKeys.clear();
+  }
 
-    // Enregistrer les métadonnées de la clé en base
-    await this.storeTenantKeyMetadata(keyInfo);
-    
-    return keyInfo;
+  /**
+   * Génère une clé de chiffrement spécifique au tenant, qui devient sa clé active
+   */
+  async generateTenantKey(tenantId: string): Promise<TenantKeyInfo> {
+    return this.createTenantKey(tenantId);
   }
 
   /**
@@ -77,15 +137,16 @@ export class EncryptionService {
       throw new Error('Données à chiffrer requises');
     }
 
-    const activeKeyId = keyId || await this.getActiveTenantKeyId(tenantId);
-    const key = this.tenantKeys.get(`${tenantId}:${activeKeyId}`);
+    const tenantKey = keyId ? await this.getTenantKey(tenantId, keyId) : await this.getActiveTenantKey(tenantId);
     
-    if (!key) {
+    if (!tenantKey) {
       throw new Error(`Clé de chiffrement non trouvée pour le tenant ${tenantId}`);
     }
 
+    // Clé propre à l'enregistrement, enveloppée par la clé du tenant
+    const recordKey = crypto.randomBytes(this.config.keyLength);
     const iv = crypto.randomBytes(this.config.ivLength);
-    const cipher = crypto.createCipher(this.config.algorithm, key);
+    const cipher = crypto.createCipheriv(this.config.algorithm, recordKey, iv) as crypto.CipherGCM;
     cipher.setAAD(Buffer.from(tenantId)); // Données d'authentification additionnelles
     
     let encrypted = cipher.update(data, 'utf8', 'hex');
@@ -98,7 +159,8 @@ export class EncryptionService {
       iv: iv.toString('hex'),
       tag: tag.toString('hex'),
       algorithm: this.config.algorithm,
-      keyId: activeKeyId
+      keyId: tenantKey.keyId,
+      wrappedKey: wrapKey(tenantKey.key, recordKey, this.recordKeyContext(tenantId, tenantKey.keyId)).toString('hex')
     };
   }
 
@@ -106,13 +168,20 @@ export class EncryptionService {
    * Déchiffre des données avec la clé du tenant
    */
   async decryptData(encryptedData: EncryptedData, tenantId: string): Promise<string> {
-    const key = this.tenantKeys.get(`${tenantId}:${encryptedData.keyId}`);
+    const tenantKey = await this.getTenantKey(tenantId, encryptedData.keyId);
     
-    if (!key) {
+    if (!tenantKey) {
       throw new Error(`Clé de déchiffrement non trouvée pour le tenant ${tenantId}`);
     }
 
-    const decipher = crypto.createDecipher(encryptedData.algorithm, key);
+    // Données chiffrées avant l'enveloppe : directement sous la clé du tenant
+    const decipher = encryptedData.wrappedKey
+      ? crypto.createDecipheriv(
+          encryptedData.algorithm,
+          this.unwrapRecordKey(encryptedData, tenantId, tenantKey),
+          Buffer.from(encryptedData.iv, 'hex')
+        ) as crypto.DecipherGCM
+      : crypto.createDecipher(encryptedData.algorithm, tenantKey.key) as crypto.DecipherGCM;
     decipher.setAAD(Buffer.from(tenantId));
     decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
     
@@ -122,6 +191,44 @@ export class EncryptionService {
     return decrypted;
   }
 
+  /**
+   * Enveloppe une clé de fichier avec la clé active du tenant
+   */
+  async wrapDataKey(key: Buffer, tenantId: string): Promise<EncryptedData> {
+    return this.encryptData(key.toString('base64'), tenantId);
+  }
+
+  async unwrapDataKey(wrapped: EncryptedData, tenantId: string): Promise<Buffer> {
+    return Buffer.from(await this.decryptData(wrapped, tenantId), 'base64');
+  }
+
+  /**
+   * Réenveloppe la clé d'un enregistrement avec la clé active du tenant, sans
+   * toucher aux données chiffrées ; les données antérieures à l'enveloppe
+   * sont rechiffrées.
+   */
+  async rewrapData(encryptedData: EncryptedData, tenantId: string): Promise<EncryptedData> {
+    const activeKey = await this.getActiveTenantKey(tenantId);
+    if (!encryptedData.wrappedKey) {
+      return this.encryptData(await this.decryptData(encryptedData, tenantId), tenantId);
+    }
+    if (encryptedData.keyId === activeKey.keyId) {
+      return encryptedData;
+    }
+
+    const previousKey = await this.getTenantKey(tenantId, encryptedData.keyId);
+    if (!previousKey) {
+      throw new Error(`Clé de déchiffrement non trouvée pour le tenant ${tenantId}`);
+    }
+
+    const recordKey = this.unwrapRecordKey(encryptedData, tenantId, previousKey);
+    return {
+      ...encryptedData,
+      keyId: activeKey.keyId,
+      wrappedKey: wrapKey(activeKey.key, recordKey, this.recordKeyContext(tenantId, activeKey.keyId)).toString('hex')
+    };
+  }
+
   /**
    * Chiffre un fichier avec la clé du tenant
    */
@@ -141,29 +248,33 @@ export class EncryptionService {
   }
 
   /**
-   * Rotation automatique des clés de chiffrement
+   * Rotation des clés de chiffrement : l'ancienne clé est désactivée mais
+   * conservée pour déchiffrer ce qu'elle enveloppe encore, jusqu'au
+   * réenveloppement (KeyRewrapService)
    */
   async rotateTenantKey(tenantId: string): Promise<TenantKeyInfo> {
-    const currentKeyInfo = await this.getTenantKeyInfo(tenantId);
+    const currentKeyInfo = await this.keyStore.findActive(tenantId);
     
     if (!currentKeyInfo) {
       throw new Error(`Aucune clé trouvée pour le tenant ${tenantId}`);
     }
 
-    // Marquer l'ancienne clé comme inactive
-    await this.deactivateTenantKey(tenantId, currentKeyInfo.keyId);
-    
-    // Générer une nouvelle clé
-    const newKeyInfo = await this.generateTenantKey(tenantId);
-    
-    return newKeyInfo;
+    return this.createTenantKey(tenantId, currentKeyInfo.keyId);
+  }
+
+  /**
+   * Clé active du tenant, sans la matière de la clé
+   */
+  async getActiveKeyInfo(tenantId: string): Promise<TenantKeyInfo | null> {
+    const stored = await this.keyStore.findActive(tenantId);
+    return stored ? this.toKeyInfo(stored) : null;
   }
 
   /**
    * Vérifie si une rotation de clé est nécessaire
    */
   async isKeyRotationNeeded(tenantId: string): Promise<boolean> {
-    const keyInfo = await this.getTenantKeyInfo(tenantId);
+    const keyInfo = await this.keyStore.findActive(tenantId);
     
     if (!keyInfo) {
       return true; // Aucune clé = rotation nécessaire
@@ -216,44 +327,89 @@ export class EncryptionService {
 
   // Méthodes privées pour la gestion des clés
 
-  private async getActiveTenantKeyId(tenantId: string): Promise<string> {
-    // En production, récupérer depuis la base de données
-    const keyInfo = await this.getTenantKeyInfo(tenantId);
+  private async createTenantKey(tenantId: string, rotatedFrom?: string): Promise<TenantKeyInfo> {
+    const keyId = crypto.randomUUID();
+    const key = crypto.randomBytes(this.config.keyLength);
+
+    const stored: StoredTenantKey = {
+      tenantId,
+      keyId,
+      createdAt: new Date(),
+      isActive: true,
+      ...(rotatedFrom ? { rotatedFrom } : {}),
+      wrappedKey: await this.masterKey.wrapKey(key, this.tenantKeyContext(tenantId, keyId)),
+      masterKeyId: await this.masterKey.keyId()
+    };
+    await this.keyStore.save(stored);
+    this.tenantKeys.set(`${tenantId}:${keyId}`, key);
+
+    return this.toKeyInfo(stored);
+  }
+
+  private async getActiveTenantKey(tenantId: string): Promise<TenantKey> {
+    const stored = await this.keyStore.findActive(tenantId);
     
-    if (!keyInfo || !keyInfo.isActive) {
+    if (!stored) {
       // Générer une nouvelle clé si aucune clé active
       const newKeyInfo = await this.generateTenantKey(tenantId);
-      return newKeyInfo.keyId;
+      return { keyId: newKeyInfo.keyId, key: this.tenantKeys.get(`${tenantId}:${newKeyInfo.keyId}`)! };
     }
     
-    return keyInfo.keyId;
+    return { keyId: stored.keyId, key: await this.unwrapTenantKey(stored) };
   }
 
-  private async getTenantKeyInfo(tenantId: string): Promise<TenantKeyInfo | null> {
-    // En production, récupérer depuis la base de données
-    // Pour l'instant, simulation avec les clés en mémoire
-    for (const [keyRef] of this.tenantKeys) {
-      if (keyRef.startsWith(`${tenantId}:`)) {
-        const keyId = keyRef.split(':')[1];
-        return {
-          tenantId,
-          keyId,
-          createdAt: new Date(),
-          isActive: true
-        };
-      }
+  private async getTenantKey(tenantId: string, keyId: string): Promise<TenantKey | null> {
+    const cached = this.tenantKeys.get(`${tenantId}:${keyId}`);
+    if (cached) {
+      return { keyId, key: cached };
     }
-    return null;
+
+    const stored = await this.keyStore.find(tenantId, keyId);
+    return stored ? { keyId, key: await this.unwrapTenantKey(stored) } : null;
   }
 
-  private async storeTenantKeyMetadata(keyInfo: TenantKeyInfo): Promise<void> {
-    // En production, stocker en base de données sécurisée
-    console.log(`Clé générée pour tenant ${keyInfo.tenantId}: ${keyInfo.keyId}`);
+  private async unwrapTenantKey(stored: StoredTenantKey): Promise<Buffer> {
+    const cacheKey = `${stored.tenantId}:${stored.keyId}`;
+    const cached = this.tenantKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const masterKeyId = await this.masterKey.keyId();
+    if (stored.masterKeyId !== masterKeyId) {
+      throw new Error(`La clé ${stored.keyId} est enveloppée par une autre clé maître (${stored.masterKeyId})`);
+    }
+
+    const key = await this.masterKey.unwrapKey(stored.wrappedKey, this.tenantKeyContext(stored.tenantId, stored.keyId));
+    this.tenantKeys.set(cacheKey, key);
+    return key;
+  }
+
+  private unwrapRecordKey(encryptedData: EncryptedData, tenantId: string, tenantKey: TenantKey): Buffer {
+    return unwrapKey(
+      tenantKey.key,
+      Buffer.from(encryptedData.wrappedKey ?? '', 'hex'),
+      this.recordKeyContext(tenantId, tenantKey.keyId)
+    );
+  }
+
+  private tenantKeyContext(tenantId: string, keyId: string): string {
+    return `tenant:${tenantId}:${keyId}`;
+  }
+
+  private recordKeyContext(tenantId: string, tenantKeyId: string): string {
+    return `record:${tenantId}:${tenantKeyId}`;
   }
 
-  private async deactivateTenantKey(tenantId: string, keyId: string): Promise<void> {
-    // En production, marquer comme inactive en base
-    console.log(`Clé désactivée pour tenant ${tenantId}: ${keyId}`);
+  private toKeyInfo(stored: StoredTenantKey): TenantKeyInfo {
+    return {
+      tenantId: stored.tenantId,
+      keyId: stored.keyId,
+      createdAt: stored.createdAt,
+      ...(stored.rotatedAt ? { rotatedAt: stored.rotatedAt } : {}),
+      isActive: stored.isActive,
+      ...(stored.rotatedFrom ? { rotatedFrom: stored.rotatedFrom } : {})
+    };
   }
 }
 
@@ -4,13 +4,18 @@ import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/utils/logger';
 import { db } from '@/database/connection';
-import { DocumentAttachment } from '@/types/document';
+import type { AuditEvent } from '@/services/auditService';
+import { EncryptedData, encryptionService } from '@/services/encryptionService';
+import { tenantIdForOrganization } from '@/services/tenantIsolationService';
+import { ScanVerdict, VirusScanner, createVirusScanner } from '@/services/virusScanner';
+import { PREVIEW_MIME_TYPE, RenderedImage, canRenderPreview, renderPreviews } from '@/services/attachmentPreview';
+import { AttachmentScanStatus, DocumentAttachment, QuarantinedAttachment } from '@/types/document';
 
 export interface FileUploadOptions {
   maxSize?: number; // in bytes
   allowedMimeTypes?: string[];
   encrypt?: boolean;
-  generateThumbnail?: boolean;
+  generateThumbnail?: boolean; // thumbnail and page previews, on unless false
 }
 
 export interface FileUploadResult {
@@ -19,8 +24,35 @@ export interface FileUploadResult {
   encrypted: boolean;
 }
 
+/**
+ * Résultat d'une analyse antivirus : verdict, ou erreur de l'analyseur
+ */
+interface ScanOutcome {
+  verdict: ScanVerdict | null;
+  error?: string;
+}
+
+type ScanTrigger = 'upload' | 'download' | 'indexing' | 'rescan';
+
+/** Nombre d'aperçus enregistrés, joint à chaque lecture de pièce jointe */
+const ATTACHMENT_WITH_PREVIEWS = `
+  SELECT da.*,
+         EXISTS (SELECT 1 FROM attachment_previews ap WHERE ap.attachment_id = da.id AND ap.kind = 'thumbnail') AS has_thumbnail,
+         (SELECT COUNT(*) FROM attachment_previews ap WHERE ap.attachment_id = da.id AND ap.kind = 'page') AS preview_page_count
+  FROM document_attachments da`;
+
+/** Refus remontés tels quels aux appelants ; les autres erreurs sont masquées */
+const ACCESS_REFUSALS = [
+  'Attachment not found',
+  'Access denied',
+  'Attachment is quarantined',
+  'Attachment has not been scanned'
+];
+
 export class FileStorageService {
   private readonly storageBasePath: string;
+  private readonly quarantineBasePath: string;
+  private scanner: VirusScanner | null = null;
   private readonly maxFileSize = 100 * 1024 * 1024; // 100MB default
   private readonly allowedMimeTypes = [
     'application/pdf',
@@ -31,6 +63,8 @@ export class FileStorageService {
     'image/jpeg',
     'image/png',
     'image/gif',
+    'image/tiff',
+    'image/bmp',
     'text/plain',
     'application/zip',
     'application/x-rar-compressed'
@@ -38,6 +72,7 @@ export class FileStorageService {
 
   constructor() {
     this.storageBasePath = process.env.DOCUMENT_STORAGE_PATH || './storage/documents';
+    this.quarantineBasePath = process.env.QUARANTINE_STORAGE_PATH || './storage/quarantine';
     this.ensureStorageDirectories();
   }
 
@@ -57,6 +92,11 @@ export class FileStorageService {
       // Validate file
       this.validateFile(fileBuffer, mimeType, originalFilename, options);
 
+      // Scan before anything is written: an infected file goes to quarantine
+      const scan = await this.runScan(fileBuffer);
+      const scanStatus = this.scanStatusFor(scan);
+      const quarantined = scanStatus === AttachmentScanStatus.QUARANTINED;
+
       // Generate unique filename
       const fileExtension = path.extname(originalFilename);
       const uniqueFilename = `${uuidv4()}${fileExtension}`;
@@ -65,7 +105,9 @@ export class FileStorageService {
       const now = new Date();
       const year = now.getFullYear().toString();
       const month = (now.getMonth() + 1).toString().padStart(2, '0');
-      const documentDir = path.join(this.storageBasePath, year, month, documentId);
+      const documentDir = quarantined
+        ? this.quarantineBasePath
+        : path.join(this.storageBasePath, year, month, documentId);
       
       await this.ensureDirectory(documentDir);
 
@@ -86,7 +128,7 @@ export class FileStorageService {
         return {
           attachment: existingFile,
           filePath: existingFile.url,
-          encrypted: existingFile.isEncrypted
+          encrypted: existingFile.isEncrypted ?? false
         };
       }
 
@@ -94,9 +136,9 @@ export class FileStorageService {
       let encryptionKeyId: string | undefined;
       let isEncrypted = false;
 
-      // Encrypt file if requested or if it contains sensitive data
-      if (options.encrypt || this.shouldEncryptFile(mimeType, originalFilename)) {
-        const encryptionResult = await this.encryptFile(fileBuffer);
+      // Encrypt file if requested, if it contains sensitive data, or if it is quarantined
+      if (quarantined || options.encrypt || this.shouldEncryptFile(mimeType, originalFilename)) {
+        const encryptionResult = await this.encryptFile(fileBuffer, await this.getDocumentTenantId(documentId));
         finalBuffer = encryptionResult.encryptedData;
         encryptionKeyId = encryptionResult.keyId;
         isEncrypted = true;
@@ -116,15 +158,19 @@ export class FileStorageService {
         uploadedAt: new Date(),
         uploadedBy,
         isEncrypted,
-        encryptionKeyId
+        ...(encryptionKeyId ? { encryptionKeyId } : {}),
+        scanStatus,
+        scanThreats: scan.verdict?.threats ?? [],
+        ...(scan.verdict ? { scannedAt: scan.verdict.scannedAt } : {})
       };
 
       // Save to database
-      await this.saveAttachmentToDatabase(documentId, attachment, filePath, fileHash);
+      await this.saveAttachmentToDatabase(documentId, attachment, filePath, fileHash, scan);
+      await this.logScanVerdict(attachment, scan, uploadedBy, 'upload');
 
-      // Generate thumbnail if needed
-      if (options.generateThumbnail && this.isImageFile(mimeType)) {
-        await this.generateThumbnail(filePath, attachment.id);
+      // Previews are rendered from the plaintext, then stored like the original
+      if (scanStatus === AttachmentScanStatus.CLEAN && options.generateThumbnail !== false) {
+        Object.assign(attachment, await this.generatePreviews(attachment, fileBuffer));
       }
 
       logger.info('File uploaded successfully', {
@@ -132,7 +178,8 @@ export class FileStorageService {
         attachmentId: attachment.id,
         filename: originalFilename,
         size: attachment.size,
-        encrypted: isEncrypted
+        encrypted: isEncrypted,
+        scanStatus
       });
 
       return {
@@ -168,34 +215,67 @@ export class FileStorageService {
         throw new Error('Access denied');
       }
 
-      // Get file path
-      const filePath = await this.getAttachmentFilePath(attachmentId);
-      if (!filePath) {
-        throw new Error('File path not found');
-      }
+      // Refuse quarantined files before reading them
+      this.assertNotQuarantined(attachment);
 
-      // Read file
-      let fileBuffer = await fs.readFile(filePath);
+      // Read and decrypt file
+      const fileBuffer = await this.readStoredFile(attachment);
 
-      // Decrypt if encrypted
-      if (attachment.isEncrypted && attachment.encryptionKeyId) {
-        fileBuffer = await this.decryptFile(fileBuffer, attachment.encryptionKeyId);
-      }
+      // Only clean or released files leave the storage
+      const cleared = await this.ensureScanned(attachment, fileBuffer, userId, 'download');
 
       // Log access
       await this.logFileAccess(attachmentId, userId, 'downloaded');
 
       return {
         buffer: fileBuffer,
-        attachment
+        attachment: cleared
       };
 
     } catch (error) {
       logger.error('File download error:', error);
+      if (error instanceof Error && ACCESS_REFUSALS.includes(error.message)) {
+        throw error;
+      }
       throw new Error('Failed to download file');
     }
   }
 
+  /**
+   * Read and decrypt an attachment for background processing (indexing)
+   * No user is involved: no permission check and no access log entry,
+   * but quarantined files are refused as for downloads
+   */
+  async readAttachmentContent(attachmentId: string): Promise<{ buffer: Buffer; attachment: DocumentAttachment }> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    this.assertNotQuarantined(attachment);
+    const buffer = await this.readStoredFile(attachment);
+    const cleared = await this.ensureScanned(attachment, buffer, 'system', 'indexing');
+
+    return { buffer, attachment: cleared };
+  }
+
+  /**
+   * Get attachment metadata after checking that the user can read it
+   */
+  async getAttachmentForUser(attachmentId: string, userId: string): Promise<DocumentAttachment> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    const hasAccess = await this.checkFileAccess(attachmentId, userId);
+    if (!hasAccess) {
+      throw new Error('Access denied');
+    }
+
+    return attachment;
+  }
+
   /**
    * Delete a file attachment
    * Validates: Requirements - Secure file deletion
@@ -215,19 +295,14 @@ export class FileStorageService {
       if (filePath) {
         try {
           await fs.unlink(filePath);
-          
-          // Delete thumbnail if exists
-          const thumbnailPath = this.getThumbnailPath(filePath);
-          try {
-            await fs.unlink(thumbnailPath);
-          } catch (thumbnailError) {
-            // Thumbnail might not exist, ignore error
-          }
         } catch (fsError) {
           logger.warn('Failed to delete file from filesystem:', fsError);
         }
       }
 
+      // Delete thumbnail and page previews
+      await this.deletePreviewFiles(attachmentId);
+
       // Delete from database
       await db.query('DELETE FROM document_attachments WHERE id = $1', [attachmentId]);
 
@@ -255,7 +330,7 @@ export class FileStorageService {
       }
 
       const result = await db.query(
-        'SELECT * FROM document_attachments WHERE document_id = $1 ORDER BY uploaded_at DESC',
+        `${ATTACHMENT_WITH_PREVIEWS} WHERE da.document_id = $1 ORDER BY da.uploaded_at DESC`,
         [documentId]
       );
 
@@ -267,6 +342,155 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Thumbnail (page omitted) or page preview of an attachment the user can read
+   */
+  async getAttachmentPreview(
+    attachmentId: string,
+    userId: string,
+    pageNumber?: number
+  ): Promise<{ buffer: Buffer; mimeType: string }> {
+    const attachment = await this.getAttachmentForUser(attachmentId, userId);
+
+    // Same rule as downloads: nothing derived from an unverified file is served
+    this.assertNotQuarantined(attachment);
+    if (attachment.scanStatus === AttachmentScanStatus.PENDING) {
+      throw new Error('Attachment has not been scanned');
+    }
+
+    const result = await db.query(
+      'SELECT * FROM attachment_previews WHERE attachment_id = $1 AND kind = $2 AND page_number = $3',
+      [attachmentId, pageNumber === undefined ? 'thumbnail' : 'page', pageNumber ?? 1]
+    );
+    const preview = (result as any).rows[0];
+    if (!preview) {
+      throw new Error('Preview not found');
+    }
+
+    let buffer: Buffer = await fs.readFile(preview.file_path);
+    if (preview.is_encrypted && preview.encryption_key_id) {
+      buffer = await this.decryptFile(buffer, preview.encryption_key_id);
+    }
+
+    return { buffer, mimeType: preview.mime_type };
+  }
+
+  /**
+   * Thumbnail of a file kept outside this storage (case files in Supabase),
+   * rendered after an antivirus scan and not stored
+   */
+  async renderThumbnail(fileBuffer: Buffer, mimeType: string): Promise<Buffer> {
+    if (!canRenderPreview(mimeType)) {
+      throw new Error('Unsupported file type for preview');
+    }
+
+    const scan = await this.runScan(fileBuffer);
+    if (!scan.verdict) {
+      throw new Error('File could not be scanned');
+    }
+    if (!scan.verdict.clean) {
+      throw new Error('File contains malware');
+    }
+
+    const previews = await renderPreviews(fileBuffer, mimeType, 0);
+    if (!previews) {
+      throw new Error('Unsupported file type for preview');
+    }
+    return previews.thumbnail.data;
+  }
+
+  /**
+   * Attachments awaiting an antivirus verdict or held in quarantine, for admin review
+   */
+  async getQuarantineQueue(
+    status?: AttachmentScanStatus.PENDING | AttachmentScanStatus.QUARANTINED,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ attachments: QuarantinedAttachment[]; total: number }> {
+    const statuses = status ? [status] : [AttachmentScanStatus.PENDING, AttachmentScanStatus.QUARANTINED];
+    const offset = (page - 1) * limit;
+
+    const result = await db.query(
+      `SELECT da.*, d.title AS document_title
+       FROM document_attachments da
+       JOIN documents d ON d.id = da.document_id
+       WHERE da.scan_status = ANY($1::text[])
+       ORDER BY da.scan_status DESC, da.uploaded_at
+       LIMIT $2 OFFSET $3`,
+      [statuses, limit, offset]
+    );
+    const countResult = await db.query(
+      'SELECT COUNT(*) AS count FROM document_attachments WHERE scan_status = ANY($1::text[])',
+      [statuses]
+    );
+
+    return {
+      attachments: (result as any).rows.map((row: any): QuarantinedAttachment => ({
+        ...this.mapRowToAttachment(row),
+        documentId: row.document_id,
+        documentTitle: row.document_title,
+        ...(row.scan_engine ? { scanEngine: row.scan_engine } : {}),
+        ...(row.scan_error ? { scanError: row.scan_error } : {})
+      })),
+      total: parseInt((countResult as any).rows[0].count)
+    };
+  }
+
+  /**
+   * Release a quarantined or unscannable attachment after review (false positive)
+   */
+  async releaseAttachment(attachmentId: string, adminId: string, note?: string): Promise<DocumentAttachment> {
+    const attachment = await this.getAttachmentUnderReview(attachmentId);
+
+    const result = await db.query(
+      `UPDATE document_attachments
+       SET scan_status = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, review_note = $4
+       WHERE id = $1
+       RETURNING *`,
+      [attachmentId, AttachmentScanStatus.RELEASED, adminId, note ?? null]
+    );
+
+    await this.logReviewDecision(attachment, adminId, 'attachment_quarantine_released', note);
+    logger.info('Quarantined attachment released', { attachmentId, adminId });
+
+    return this.mapRowToAttachment((result as any).rows[0]);
+  }
+
+  /**
+   * Permanently delete a quarantined or unscannable attachment after review
+   */
+  async deleteQuarantinedAttachment(attachmentId: string, adminId: string, note?: string): Promise<void> {
+    const attachment = await this.getAttachmentUnderReview(attachmentId);
+
+    const filePath = await this.getAttachmentFilePath(attachmentId);
+    if (filePath) {
+      try {
+        await fs.unlink(filePath);
+      } catch (fsError) {
+        logger.warn('Failed to delete quarantined file from filesystem:', fsError);
+      }
+    }
+    await this.deletePreviewFiles(attachmentId);
+
+    await db.query('DELETE FROM document_attachments WHERE id = $1', [attachmentId]);
+
+    await this.logReviewDecision(attachment, adminId, 'attachment_quarantine_deleted', note);
+    logger.info('Quarantined attachment deleted', { attachmentId, adminId });
+  }
+
+  /**
+   * Scan an attachment again, e.g. after a signature update or a scanner outage
+   */
+  async rescanAttachment(attachmentId: string, adminId: string): Promise<DocumentAttachment> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    const buffer = await this.readStoredFile(attachment);
+    return this.applyScan(attachment, buffer, adminId, 'rescan');
+  }
+
   // Private helper methods
   private validateFile(
     fileBuffer: Buffer,
@@ -290,11 +514,6 @@ export class FileStorageService {
     if (this.containsUnsafeCharacters(filename)) {
       throw new Error('Filename contains unsafe characters');
     }
-
-    // Scan for malware (placeholder - would integrate with antivirus)
-    if (this.detectMalware(fileBuffer)) {
-      throw new Error('File contains malware');
-    }
   }
 
   private containsUnsafeCharacters(filename: string): boolean {
@@ -302,10 +521,222 @@ export class FileStorageService {
     return unsafeChars.test(filename);
   }
 
-  private detectMalware(fileBuffer: Buffer): boolean {
-    // Placeholder for malware detection
-    // In production, this would integrate with antivirus scanning
-    return false;
+  private getScanner(): VirusScanner {
+    if (!this.scanner) {
+      // ClamAV in production, EICAR-only stub elsewhere unless VIRUS_SCANNER says otherwise
+      const mode = process.env.VIRUS_SCANNER || (process.env.NODE_ENV === 'production' ? 'clamav' : 'stub');
+      this.scanner = createVirusScanner({
+        mode: mode === 'stub' ? 'stub' : 'clamav',
+        clamav: {
+          host: process.env.CLAMAV_HOST || '127.0.0.1',
+          port: Number(process.env.CLAMAV_PORT) || 3310,
+          timeoutMs: Number(process.env.CLAMAV_TIMEOUT_MS) || 60000
+        }
+      });
+    }
+    return this.scanner;
+  }
+
+  private async runScan(fileBuffer: Buffer): Promise<ScanOutcome> {
+    try {
+      return { verdict: await this.getScanner().scan(fileBuffer) };
+    } catch (error) {
+      // Scanner unavailable: the file is kept but stays pending until a later scan
+      logger.error('Antivirus scan failed:', error);
+      return { verdict: null, error: error instanceof Error ? error.message : 'Scan failed' };
+    }
+  }
+
+  private scanStatusFor(scan: ScanOutcome): AttachmentScanStatus {
+    if (!scan.verdict) {
+      return AttachmentScanStatus.PENDING;
+    }
+    return scan.verdict.clean ? AttachmentScanStatus.CLEAN : AttachmentScanStatus.QUARANTINED;
+  }
+
+  private assertNotQuarantined(attachment: DocumentAttachment): void {
+    if (attachment.scanStatus === AttachmentScanStatus.QUARANTINED) {
+      throw new Error('Attachment is quarantined');
+    }
+  }
+
+  /**
+   * Files never scanned (uploaded before scanning existed or during an outage) are scanned now
+   */
+  private async ensureScanned(
+    attachment: DocumentAttachment,
+    fileBuffer: Buffer,
+    actorId: string,
+    trigger: ScanTrigger
+  ): Promise<DocumentAttachment> {
+    const scanned = attachment.scanStatus === AttachmentScanStatus.PENDING
+      ? await this.applyScan(attachment, fileBuffer, actorId, trigger)
+      : attachment;
+
+    this.assertNotQuarantined(scanned);
+    if (scanned.scanStatus === AttachmentScanStatus.PENDING) {
+      throw new Error('Attachment has not been scanned');
+    }
+    return scanned;
+  }
+
+  /**
+   * Scan a stored file, record the verdict and move an infected file to quarantine
+   */
+  private async applyScan(
+    attachment: DocumentAttachment,
+    fileBuffer: Buffer,
+    actorId: string,
+    trigger: ScanTrigger
+  ): Promise<DocumentAttachment> {
+    const scan = await this.runScan(fileBuffer);
+    const scanStatus = this.scanStatusFor(scan);
+
+    if (scanStatus === AttachmentScanStatus.QUARANTINED) {
+      await this.moveToQuarantine(attachment, fileBuffer);
+    }
+
+    const result = await db.query(
+      `UPDATE document_attachments
+       SET scan_status = $2, scan_threats = $3, scan_engine = $4, scan_error = $5,
+           scanned_at = COALESCE($6, scanned_at)
+       WHERE id = $1
+       RETURNING *`,
+      [
+        attachment.id, scanStatus, scan.verdict?.threats ?? [], scan.verdict?.engine ?? null,
+        scan.error ?? null, scan.verdict?.scannedAt ?? null
+      ]
+    );
+
+    const updated = this.mapRowToAttachment((result as any).rows[0]);
+    await this.logScanVerdict(updated, scan, actorId, trigger);
+
+    // Files left pending at upload get their previews once cleared
+    if (scanStatus === AttachmentScanStatus.CLEAN && !attachment.hasThumbnail) {
+      return { ...updated, ...await this.generatePreviews(updated, fileBuffer) };
+    }
+    return { ...updated, hasThumbnail: attachment.hasThumbnail ?? false, previewPageCount: attachment.previewPageCount ?? 0 };
+  }
+
+  private async moveToQuarantine(attachment: DocumentAttachment, fileBuffer: Buffer): Promise<void> {
+    const currentPath = await this.getAttachmentFilePath(attachment.id);
+    if (currentPath && path.resolve(path.dirname(currentPath)) === path.resolve(this.quarantineBasePath)) {
+      return;
+    }
+
+    await this.ensureDirectory(this.quarantineBasePath);
+    const quarantinePath = path.join(this.quarantineBasePath, attachment.filename);
+    const { encryptedData, keyId } = await this.encryptFile(fileBuffer, await this.getAttachmentTenantId(attachment.id));
+    await fs.writeFile(quarantinePath, encryptedData);
+
+    await db.query(
+      'UPDATE document_attachments SET file_path = $2, is_encrypted = true, encryption_key_id = $3 WHERE id = $1',
+      [attachment.id, quarantinePath, keyId]
+    );
+
+    if (currentPath) {
+      try {
+        await fs.unlink(currentPath);
+      } catch (fsError) {
+        logger.warn('Failed to remove infected file from document storage:', fsError);
+      }
+    }
+
+    logger.warn('Attachment moved to quarantine', { attachmentId: attachment.id });
+  }
+
+  private async getAttachmentUnderReview(attachmentId: string): Promise<DocumentAttachment> {
+    const attachment = await this.getAttachment(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+    if (attachment.scanStatus !== AttachmentScanStatus.QUARANTINED && attachment.scanStatus !== AttachmentScanStatus.PENDING) {
+      throw new Error('Attachment is not awaiting review');
+    }
+    return attachment;
+  }
+
+  private async readStoredFile(attachment: DocumentAttachment): Promise<Buffer> {
+    const filePath = await this.getAttachmentFilePath(attachment.id);
+    if (!filePath) {
+      throw new Error('File path not found');
+    }
+
+    let buffer: Buffer = await fs.readFile(filePath);
+    if (attachment.isEncrypted && attachment.encryptionKeyId) {
+      buffer = await this.decryptFile(buffer, attachment.encryptionKeyId);
+    }
+    return buffer;
+  }
+
+  private async logScanVerdict(
+    attachment: DocumentAttachment,
+    scan: ScanOutcome,
+    actorId: string,
+    trigger: ScanTrigger
+  ): Promise<void> {
+    const actionType = !scan.verdict
+      ? 'attachment_scan_failed'
+      : scan.verdict.clean ? 'attachment_scan_clean' : 'attachment_quarantined';
+
+    await this.recordAuditEvent({
+      tenantId: 'default',
+      userId: actorId,
+      actionType,
+      resourceType: 'document_attachment',
+      resourceId: attachment.id,
+      securityContext: {
+        userRole: actorId === 'system' ? 'system' : 'user',
+        permissions: [],
+        dataClassification: 'confidential',
+        requiresEncryption: scan.verdict?.clean === false
+      },
+      success: scan.verdict !== null,
+      ...(scan.error ? { errorMessage: scan.error } : {}),
+      timestamp: new Date(),
+      metadata: {
+        trigger,
+        filename: attachment.originalFilename,
+        mimeType: attachment.mimeType,
+        engine: scan.verdict?.engine,
+        threats: scan.verdict?.threats ?? []
+      }
+    });
+  }
+
+  private async recordAuditEvent(event: AuditEvent): Promise<void> {
+    // Loaded on demand: AuditService grabs the pool and starts its metrics timer when imported
+    const { auditService } = await import('@/services/auditService');
+    await auditService.logEvent(event);
+  }
+
+  private async logReviewDecision(
+    attachment: DocumentAttachment,
+    adminId: string,
+    actionType: 'attachment_quarantine_released' | 'attachment_quarantine_deleted',
+    note?: string
+  ): Promise<void> {
+    await this.recordAuditEvent({
+      tenantId: 'default',
+      userId: adminId,
+      actionType,
+      resourceType: 'document_attachment',
+      resourceId: attachment.id,
+      securityContext: {
+        userRole: 'admin',
+        permissions: ['admin:update'],
+        dataClassification: 'confidential',
+        requiresEncryption: true
+      },
+      success: true,
+      timestamp: new Date(),
+      metadata: {
+        filename: attachment.originalFilename,
+        previousStatus: attachment.scanStatus,
+        threats: attachment.scanThreats ?? [],
+        ...(note ? { note } : {})
+      }
+    });
   }
 
   private shouldEncryptFile(mimeType: string, filename: string): boolean {
@@ -321,7 +752,7 @@ export class FileStorageService {
            filename.toLowerCase().includes('secret');
   }
 
-  private async encryptFile(fileBuffer: Buffer): Promise<{ encryptedData: Buffer; keyId: string }> {
+  private async encryptFile(fileBuffer: Buffer, tenantId: string): Promise<{ encryptedData: Buffer; keyId: string }> {
     // Generate encryption key
     const key = crypto.randomBytes(32);
     const iv = crypto.randomBytes(16);
@@ -332,7 +763,7 @@ export class FileStorageService {
     const encryptedData = Buffer.concat([cipher.update(fileBuffer), cipher.final()]);
 
     // Store encryption key securely (in production, use a key management service)
-    await this.storeEncryptionKey(keyId, key, iv);
+    await this.storeEncryptionKey(keyId, key, iv, tenantId);
 
     return {
       encryptedData: Buffer.concat([iv, encryptedData]),
@@ -358,22 +789,44 @@ export class FileStorageService {
     return decryptedData;
   }
 
-  private async storeEncryptionKey(keyId: string, key: Buffer, iv: Buffer): Promise<void> {
-    // In production, this would use a secure key management service
-    // For now, store in database with additional encryption
-    const masterKey = process.env.MASTER_ENCRYPTION_KEY || 'default-master-key';
-    const cipher = crypto.createCipher('aes-256-cbc', masterKey);
-    const encryptedKey = Buffer.concat([cipher.update(key), cipher.final()]);
+  private async storeEncryptionKey(keyId: string, key: Buffer, iv: Buffer, tenantId: string): Promise<void> {
+    // The file key is wrapped by the key of the document's tenant, itself wrapped by the master key
+    const wrappedKey = await encryptionService.wrapDataKey(key, tenantId);
 
     await db.query(
-      'INSERT INTO encryption_keys (id, encrypted_key, iv, created_at) VALUES ($1, $2, $3, CURRENT_TIMESTAMP)',
-      [keyId, encryptedKey, iv]
+      `INSERT INTO encryption_keys (id, iv, tenant_id, tenant_key_id, wrapped_key, created_at)
+       VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)`,
+      [keyId, iv, tenantId, wrappedKey.keyId, JSON.stringify(wrappedKey)]
     );
   }
 
+  /**
+   * Tenant owning a document: its organization, or its owner for a lawyer practising alone
+   */
+  private async getDocumentTenantId(documentId: string): Promise<string> {
+    const result = await db.query(
+      'SELECT COALESCE(organization_id, owner_id)::text AS organization_id FROM documents WHERE id = $1',
+      [documentId]
+    );
+    const row = (result as any).rows[0];
+    if (!row) {
+      throw new Error('Document not found');
+    }
+    return tenantIdForOrganization(row.organization_id);
+  }
+
+  private async getAttachmentTenantId(attachmentId: string): Promise<string> {
+    const result = await db.query('SELECT document_id FROM document_attachments WHERE id = $1', [attachmentId]);
+    const row = (result as any).rows[0];
+    if (!row) {
+      throw new Error('Attachment not found');
+    }
+    return this.getDocumentTenantId(row.document_id);
+  }
+
   private async getEncryptionKey(keyId: string): Promise<{ key: Buffer; iv: Buffer } | null> {
     const result = await db.query(
-      'SELECT encrypted_key, iv FROM encryption_keys WHERE id = $1',
+      'SELECT encrypted_key, iv, tenant_id, wrapped_key FROM encryption_keys WHERE id = $1',
       [keyId]
     );
 
@@ -382,9 +835,10 @@ export class FileStorageService {
     }
 
     const row = (result as any).rows[0];
-    const masterKey = process.env.MASTER_ENCRYPTION_KEY || 'default-master-key';
-    const decipher = crypto.createDecipher('aes-256-cbc', masterKey);
-    const key = Buffer.concat([decipher.update(row.encrypted_key), decipher.final()]);
+    // Keys stored before the key hierarchy stay readable until the next rewrap job
+    const key = row.wrapped_key
+      ? await encryptionService.unwrapDataKey(row.wrapped_key as EncryptedData, row.tenant_id)
+      : unwrapLegacyFileKey(row.encrypted_key);
 
     return {
       key,
@@ -392,14 +846,79 @@ export class FileStorageService {
     };
   }
 
-  private isImageFile(mimeType: string): boolean {
-    return mimeType.startsWith('image/');
+  /**
+   * Render the thumbnail and page previews from the plaintext and store them next to
+   * the original, encrypted when the original is. A failure never fails the upload.
+   */
+  private async generatePreviews(
+    attachment: DocumentAttachment,
+    plaintext: Buffer
+  ): Promise<{ hasThumbnail: boolean; previewPageCount: number }> {
+    try {
+      const filePath = await this.getAttachmentFilePath(attachment.id);
+      const previews = filePath ? await renderPreviews(plaintext, attachment.mimeType) : null;
+      if (!filePath || !previews) {
+        return { hasThumbnail: false, previewPageCount: 0 };
+      }
+
+      await this.storePreview(attachment, 'thumbnail', 1, previews.thumbnail, this.getThumbnailPath(filePath));
+      for (const [index, page] of previews.pages.entries()) {
+        await this.storePreview(attachment, 'page', index + 1, page, this.getPagePreviewPath(filePath, index + 1));
+      }
+
+      logger.info('Attachment previews generated', {
+        attachmentId: attachment.id,
+        pages: previews.pages.length,
+        pageCount: previews.pageCount
+      });
+      return { hasThumbnail: true, previewPageCount: previews.pages.length };
+
+    } catch (error) {
+      logger.warn('Preview generation failed:', { attachmentId: attachment.id, error });
+      return { hasThumbnail: false, previewPageCount: 0 };
+    }
+  }
+
+  private async storePreview(
+    attachment: DocumentAttachment,
+    kind: 'thumbnail' | 'page',
+    pageNumber: number,
+    image: RenderedImage,
+    previewPath: string
+  ): Promise<void> {
+    let data = image.data;
+    let encryptionKeyId: string | null = null;
+    if (attachment.isEncrypted) {
+      const encryptionResult = await this.encryptFile(image.data, await this.getAttachmentTenantId(attachment.id));
+      data = encryptionResult.encryptedData;
+      encryptionKeyId = encryptionResult.keyId;
+    }
+
+    await fs.writeFile(previewPath, data);
+    await db.query(
+      `INSERT INTO attachment_previews (
+        attachment_id, kind, page_number, file_path, mime_type, width, height, file_size, is_encrypted, encryption_key_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (attachment_id, kind, page_number) DO UPDATE
+      SET file_path = EXCLUDED.file_path, width = EXCLUDED.width, height = EXCLUDED.height,
+          file_size = EXCLUDED.file_size, is_encrypted = EXCLUDED.is_encrypted,
+          encryption_key_id = EXCLUDED.encryption_key_id, created_at = CURRENT_TIMESTAMP`,
+      [
+        attachment.id, kind, pageNumber, previewPath, PREVIEW_MIME_TYPE,
+        image.width, image.height, image.data.length, encryptionKeyId !== null, encryptionKeyId
+      ]
+    );
   }
 
-  private async generateThumbnail(filePath: string, attachmentId: string): Promise<void> {
-    // Placeholder for thumbnail generation
-    // In production, this would use a library like sharp or jimp
-    logger.info('Thumbnail generation requested', { filePath, attachmentId });
+  private async deletePreviewFiles(attachmentId: string): Promise<void> {
+    const result = await db.query('SELECT file_path FROM attachment_previews WHERE attachment_id = $1', [attachmentId]);
+    for (const row of (result as any).rows) {
+      try {
+        await fs.unlink(row.file_path);
+      } catch (previewError) {
+        // Preview might already be gone, ignore error
+      }
+    }
   }
 
   private getThumbnailPath(filePath: string): string {
@@ -408,6 +927,12 @@ export class FileStorageService {
     return path.join(dir, `${filename}_thumb.jpg`);
   }
 
+  private getPagePreviewPath(filePath: string, pageNumber: number): string {
+    const dir = path.dirname(filePath);
+    const filename = path.basename(filePath, path.extname(filePath));
+    return path.join(dir, `${filename}_page${pageNumber}.jpg`);
+  }
+
   private getFileUrl(filePath: string): string {
     // Convert absolute path to relative URL
     const relativePath = path.relative(this.storageBasePath, filePath);
@@ -425,6 +950,7 @@ export class FileStorageService {
 
   private async ensureStorageDirectories(): Promise<void> {
     await this.ensureDirectory(this.storageBasePath);
+    await this.ensureDirectory(this.quarantineBasePath);
   }
 
   private async findFileByHash(documentId: string, fileHash: string): Promise<DocumentAttachment | null> {
@@ -444,25 +970,28 @@ export class FileStorageService {
     documentId: string,
     attachment: DocumentAttachment,
     filePath: string,
-    fileHash: string
+    fileHash: string,
+    scan: ScanOutcome
   ): Promise<void> {
     await db.query(
       `INSERT INTO document_attachments (
         id, document_id, filename, original_filename, mime_type, file_size,
-        file_path, file_hash, uploaded_by, uploaded_at, is_encrypted, encryption_key_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        file_path, file_hash, uploaded_by, uploaded_at, is_encrypted, encryption_key_id,
+        scan_status, scan_threats, scan_engine, scan_error, scanned_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
       [
         attachment.id, documentId, attachment.filename, attachment.originalFilename,
         attachment.mimeType, attachment.size, filePath, fileHash,
         attachment.uploadedBy, attachment.uploadedAt, attachment.isEncrypted,
-        attachment.encryptionKeyId
+        attachment.encryptionKeyId, attachment.scanStatus, attachment.scanThreats ?? [],
+        scan.verdict?.engine ?? null, scan.error ?? null, scan.verdict?.scannedAt ?? null
       ]
     );
   }
 
   private async getAttachment(attachmentId: string): Promise<DocumentAttachment | null> {
     const result = await db.query(
-      'SELECT * FROM document_attachments WHERE id = $1',
+      `${ATTACHMENT_WITH_PREVIEWS} WHERE da.id = $1`,
       [attachmentId]
     );
 
@@ -557,9 +1086,24 @@ export class FileStorageService {
       uploadedAt: new Date(row.uploaded_at),
       uploadedBy: row.uploaded_by,
       isEncrypted: row.is_encrypted,
-      encryptionKeyId: row.encryption_key_id
+      encryptionKeyId: row.encryption_key_id,
+      scanStatus: row.scan_status,
+      scanThreats: row.scan_threats ?? [],
+      ...(row.scanned_at ? { scannedAt: new Date(row.scanned_at) } : {}),
+      ...(row.has_thumbnail !== undefined
+        ? { hasThumbnail: row.has_thumbnail, previewPageCount: Number(row.preview_page_count) }
+        : {})
     };
   }
 }
 
-export const fileStorageService = new FileStorageService();
\ No newline at end of file
+export const fileStorageService = new FileStorageService();
+
+/**
+ * Clé de fichier stockée avant la hiérarchie de clés, chiffrée directement avec MASTER_ENCRYPTION_KEY
+ */
+export function unwrapLegacyFileKey(encryptedKey: Buffer): Buffer {
+  const masterKey = process.env.MASTER_ENCRYPTION_KEY || 'default-master-key';
+  const decipher = crypto.createDecipher('aes-256-cbc', masterKey);
+  return Buffer.concat([decipher.update(encryptedKey), decipher.final()]);
+}
@@ -0,0 +1,468 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AgingInvoice,
+  AgingReport,
+  CreateCreditNoteRequest,
+  CreditNote,
+  InvoicePayment,
+  InvoiceStatus,
+  PaymentMethod,
+  RecordPaymentRequest
+} from '../types/billing.js';
+import { NotificationChannel, NotificationPriority, NotificationType } from '../types/notification.js';
+import {
+  AGING_BUCKETS,
+  AgingInvoiceInput,
+  InvoiceSettlement,
+  agingBucketRank,
+  buildAgingReport,
+  formatCreditNoteNumber,
+  settleInvoice
+} from '../utils/invoicePayments.js';
+import { notificationService } from './notificationService.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Invoice Payment Service
+ * Encaissements multiples d'une facture, avoirs numérotés par année,
+ * ancienneté des créances et relances automatiques des clients : une relance
+ * à l'échéance dépassée, puis une à chaque passage dans une tranche plus ancienne.
+ */
+
+const PAYMENT_SELECT = 'SELECT * FROM invoice_payments';
+
+const CREDIT_NOTE_SELECT = `
+  SELECT cn.*, bi.invoice_number
+  FROM billing_credit_notes cn
+  JOIN billing_invoices bi ON bi.id = cn.invoice_id
+`;
+
+// Reste dû reconstitué à la date $1 d'après les encaissements et avoirs datés
+const AGING_SELECT = `
+  SELECT bi.id, bi.invoice_number, bi.client_id, bi.case_id, bi.lawyer_id,
+         bi.issue_date, bi.due_date, bi.total_amount,
+         COALESCE(cl.company_name, TRIM(CONCAT_WS(' ', cl.first_name, cl.last_name))) AS client_name,
+         cl.email AS client_email,
+         (SELECT COALESCE(SUM(p.amount), 0) FROM invoice_payments p
+          WHERE p.invoice_id = bi.id AND p.payment_date <= $1) AS paid_amount,
+         (SELECT COALESCE(SUM(cn.amount), 0) FROM billing_credit_notes cn
+          WHERE cn.invoice_id = bi.id AND cn.issue_date <= $1) AS credited_amount
+  FROM billing_invoices bi
+  LEFT JOIN clients cl ON cl.id = bi.client_id
+  WHERE bi.status <> 'draft'
+    AND (bi.status <> 'cancelled' OR EXISTS (SELECT 1 FROM billing_credit_notes cn WHERE cn.invoice_id = bi.id))
+    AND bi.issue_date <= $1
+    AND ($2::uuid IS NULL OR bi.lawyer_id = $2)
+    AND ($3::uuid IS NULL OR bi.client_id = $3)
+`;
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Recalcule montants payé, crédité et restant, état de paiement et dernier
+ * règlement de la facture à partir de son historique, dans la transaction de l'appelant
+ */
+export async function refreshInvoiceSettlement(client: PoolClient, invoiceId: string): Promise<InvoiceSettlement> {
+  const result = await client.query(
+    `SELECT bi.total_amount, bi.status, bi.due_date,
+            (SELECT COALESCE(SUM(amount), 0) FROM invoice_payments WHERE invoice_id = bi.id) AS paid_amount,
+            (SELECT COALESCE(SUM(amount), 0) FROM billing_credit_notes WHERE invoice_id = bi.id) AS credited_amount,
+            last.payment_method, last.payment_date, last.reference
+     FROM billing_invoices bi
+     LEFT JOIN LATERAL (
+       SELECT payment_method, payment_date, reference FROM invoice_payments
+       WHERE invoice_id = bi.id
+       ORDER BY payment_date DESC, created_at DESC
+       LIMIT 1
+     ) last ON true
+     WHERE bi.id = $1`,
+    [invoiceId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    throw new Error('Invoice not found');
+  }
+
+  const settlement = settleInvoice(
+    { totalAmount: parseFloat(row.total_amount), status: row.status as InvoiceStatus, dueDate: new Date(row.due_date) },
+    parseFloat(row.paid_amount),
+    parseFloat(row.credited_amount)
+  );
+
+  await client.query(
+    `UPDATE billing_invoices
+     SET paid_amount = $2,
+         credited_amount = $3,
+         remaining_amount = $4,
+         payment_status = $5,
+         status = $6,
+         payment_method = COALESCE($7, payment_method),
+         payment_date = $8,
+         payment_reference = $9,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [
+      invoiceId,
+      settlement.paidAmount,
+      settlement.creditedAmount,
+      settlement.remainingAmount,
+      settlement.paymentStatus,
+      settlement.status,
+      row.payment_method,
+      row.payment_date,
+      row.reference
+    ]
+  );
+
+  return settlement;
+}
+
+export class InvoicePaymentService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(private db: Pool) {}
+
+  /**
+   * Enregistre un encaissement ; refusé au-delà du reste dû
+   */
+  async recordPayment(request: RecordPaymentRequest): Promise<InvoicePayment> {
+    if (toCents(request.amount) <= 0) {
+      throw new Error('Amount must be a positive value');
+    }
+    if (!Object.values(PaymentMethod).includes(request.paymentMethod)) {
+      throw new Error('Invalid payment method');
+    }
+    if (request.paymentDate && request.paymentDate.getTime() > Date.now()) {
+      throw new Error('Payment date cannot be in the future');
+    }
+
+    return this.withInvoiceLock(request.invoiceId, async (client, invoice) => {
+      if (toCents(request.amount) > toCents(invoice.remaining_amount)) {
+        throw new Error(`Payment exceeds invoice balance: ${parseFloat(invoice.remaining_amount).toFixed(2)} DZD remaining`);
+      }
+
+      const result = await client.query(
+        `INSERT INTO invoice_payments (invoice_id, amount, payment_method, payment_date, reference, notes, created_by)
+         VALUES ($1, $2, $3, COALESCE($4::date, CURRENT_DATE), $5, $6, $7)
+         RETURNING *`,
+        [
+          request.invoiceId,
+          request.amount,
+          request.paymentMethod,
+          request.paymentDate ?? null,
+          request.reference ?? null,
+          request.notes ?? null,
+          request.createdBy
+        ]
+      );
+      await refreshInvoiceSettlement(client, request.invoiceId);
+
+      logger.info('Invoice payment recorded', {
+        invoiceId: request.invoiceId,
+        amount: request.amount,
+        paymentMethod: request.paymentMethod
+      });
+      return this.mapRowToPayment(result.rows[0]);
+    });
+  }
+
+  async getPayments(invoiceId: string): Promise<InvoicePayment[]> {
+    const result = await this.db.query(
+      `${PAYMENT_SELECT} WHERE invoice_id = $1 ORDER BY payment_date, created_at`,
+      [invoiceId]
+    );
+    return result.rows.map(row => this.mapRowToPayment(row));
+  }
+
+  /**
+   * Émet un avoir sur la facture, daté du jour et numéroté à la suite des
+   * avoirs de l'année de l'avocat ; il ne peut dépasser le reste dû
+   */
+  async createCreditNote(request: CreateCreditNoteRequest): Promise<CreditNote> {
+    if (toCents(request.amount) <= 0) {
+      throw new Error('Amount must be a positive value');
+    }
+    if (!request.reason?.trim()) {
+      throw new Error('Credit note reason is required');
+    }
+
+    return this.withInvoiceLock(request.invoiceId, async (client, invoice) => {
+      if (toCents(request.amount) > toCents(invoice.remaining_amount)) {
+        throw new Error(`Credit note exceeds invoice balance: ${parseFloat(invoice.remaining_amount).toFixed(2)} DZD remaining`);
+      }
+
+      // La ligne de l'avocat pour l'année reste verrouillée jusqu'au COMMIT : pas de trou ni de doublon
+      const sequence = await client.query(
+        `INSERT INTO credit_note_sequences (lawyer_id, year, last_number)
+         VALUES ($1, EXTRACT(YEAR FROM CURRENT_DATE)::int, 1)
+         ON CONFLICT (lawyer_id, year) DO UPDATE SET last_number = credit_note_sequences.last_number + 1
+         RETURNING year, last_number`,
+        [invoice.lawyer_id]
+      );
+      const creditNoteNumber = formatCreditNoteNumber(sequence.rows[0].year, sequence.rows[0].last_number);
+
+      const total = parseFloat(invoice.total_amount);
+      const taxAmount = total > 0
+        ? Math.round(request.amount * parseFloat(invoice.tax_amount) / total * 100) / 100
+        : 0;
+
+      const result = await client.query(
+        `INSERT INTO billing_credit_notes (
+          credit_note_number, invoice_id, client_id, case_id, lawyer_id,
+          amount, tax_amount, reason, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          creditNoteNumber,
+          request.invoiceId,
+          invoice.client_id,
+          invoice.case_id,
+          invoice.lawyer_id,
+          request.amount,
+          taxAmount,
+          request.reason.trim(),
+          request.createdBy
+        ]
+      );
+      await refreshInvoiceSettlement(client, request.invoiceId);
+
+      logger.info('Credit note issued', { creditNoteNumber, invoiceId: request.invoiceId, amount: request.amount });
+      return this.mapRowToCreditNote({ ...result.rows[0], invoice_number: invoice.invoice_number });
+    });
+  }
+
+  async getCreditNotes(invoiceId: string): Promise<CreditNote[]> {
+    const result = await this.db.query(
+      `${CREDIT_NOTE_SELECT} WHERE cn.invoice_id = $1 ORDER BY cn.issue_date, cn.credit_note_number`,
+      [invoiceId]
+    );
+    return result.rows.map(row => this.mapRowToCreditNote(row));
+  }
+
+  /**
+   * Ancienneté des créances à la date `asOf` (aujourd'hui par défaut)
+   */
+  async getAgingReport(options: { asOf?: Date; lawyerId?: string; clientId?: string } = {}): Promise<AgingReport> {
+    const asOf = options.asOf ?? new Date();
+    const result = await this.db.query(AGING_SELECT, [asOf, options.lawyerId ?? null, options.clientId ?? null]);
+
+    const invoices: AgingInvoiceInput[] = result.rows.map(row => ({
+      invoiceId: row.id,
+      invoiceNumber: row.invoice_number,
+      clientId: row.client_id,
+      clientName: row.client_name || '',
+      ...(row.client_email ? { clientEmail: row.client_email } : {}),
+      caseId: row.case_id,
+      lawyerId: row.lawyer_id,
+      issueDate: new Date(row.issue_date),
+      dueDate: new Date(row.due_date),
+      totalAmount: parseFloat(row.total_amount),
+      paidAmount: parseFloat(row.paid_amount),
+      creditedAmount: parseFloat(row.credited_amount)
+    }));
+
+    return buildAgingReport(invoices, asOf);
+  }
+
+  /**
+   * Relance les factures échues entrées dans une tranche d'ancienneté qui
+   * n'a pas encore fait l'objet d'une relance
+   */
+  async processPaymentReminders(asOf: Date = new Date()): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    try {
+      const report = await this.getAgingReport({ asOf });
+      const overdue = report.invoices.filter(invoice => invoice.daysOverdue > 0);
+      if (overdue.length === 0) {
+        return 0;
+      }
+
+      const sentResult = await this.db.query(
+        'SELECT invoice_id, bucket FROM invoice_payment_reminders WHERE invoice_id = ANY($1::uuid[])',
+        [overdue.map(invoice => invoice.invoiceId)]
+      );
+      const lastRank = new Map<string, number>();
+      for (const row of sentResult.rows) {
+        const rank = agingBucketRank(row.bucket);
+        lastRank.set(row.invoice_id, Math.max(rank, lastRank.get(row.invoice_id) ?? -1));
+      }
+
+      let sent = 0;
+      let withoutEmail = 0;
+      for (const invoice of overdue) {
+        if (agingBucketRank(invoice.bucket) <= (lastRank.get(invoice.invoiceId) ?? -1)) continue;
+        if (!invoice.clientEmail) {
+          withoutEmail++;
+          continue;
+        }
+
+        // Réserver la tranche avant l'envoi : une relance au plus par tranche
+        const claim = await this.db.query(
+          `INSERT INTO invoice_payment_reminders (invoice_id, bucket, days_overdue, outstanding_amount)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (invoice_id, bucket) DO NOTHING
+           RETURNING id`,
+          [invoice.invoiceId, invoice.bucket, invoice.daysOverdue, invoice.outstanding]
+        );
+        if (claim.rows.length === 0) continue;
+
+        try {
+          const notificationId = await this.sendPaymentReminderEmail(invoice);
+          await this.db.query('UPDATE invoice_payment_reminders SET notification_id = $2 WHERE id = $1', [claim.rows[0].id, notificationId]);
+          sent++;
+        } catch (error) {
+          await this.db.query('DELETE FROM invoice_payment_reminders WHERE id = $1', [claim.rows[0].id]);
+          logger.error('Payment reminder error:', { error, invoiceId: invoice.invoiceId });
+        }
+      }
+
+      if (sent > 0 || withoutEmail > 0) {
+        logger.info('Payment reminders processed', { sent, withoutEmail });
+      }
+      return sent;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Rappel de paiement au client, envoyé par e-mail au nom de l'avocat
+   */
+  async sendPaymentReminderEmail(invoice: AgingInvoice): Promise<string> {
+    const dueDate = invoice.dueDate.toLocaleDateString('fr-FR');
+    const amount = invoice.outstanding.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const range = AGING_BUCKETS.find(b => b.bucket === invoice.bucket)!.label;
+
+    const notification = await notificationService.createNotification({
+      recipientId: invoice.lawyerId,
+      ...(invoice.clientEmail ? { recipientEmail: invoice.clientEmail } : {}),
+      type: NotificationType.PAYMENT_DUE,
+      channel: NotificationChannel.EMAIL,
+      subject: `Rappel de paiement : facture ${invoice.invoiceNumber} | تذكير بالدفع : فاتورة ${invoice.invoiceNumber}`,
+      message: [
+        `Bonjour ${invoice.clientName},`,
+        '',
+        `Sauf erreur de notre part, la facture ${invoice.invoiceNumber} reste impayée.`,
+        `Montant dû : ${amount} DA`,
+        `Date d'échéance : ${dueDate}`,
+        `Retard : ${invoice.daysOverdue} jour(s)`,
+        '',
+        'Nous vous remercions de bien vouloir procéder à son règlement (chèque, virement CCP, BaridiMob ou espèces).',
+        `نذكركم بأن الفاتورة ${invoice.invoiceNumber} بمبلغ ${amount} دج لم تسدد بعد، وقد تجاوزت تاريخ استحقاقها بـ ${invoice.daysOverdue} يوما.`
+      ].join('\n'),
+      relatedEntityType: 'billing_invoice',
+      relatedEntityId: invoice.invoiceId,
+      caseId: invoice.caseId,
+      priority: agingBucketRank(invoice.bucket) >= 2 ? NotificationPriority.HIGH : NotificationPriority.NORMAL,
+      metadata: {
+        invoiceNumber: invoice.invoiceNumber,
+        agingBucket: invoice.bucket,
+        agingRange: range,
+        outstanding: invoice.outstanding,
+        daysOverdue: invoice.daysOverdue
+      }
+    });
+
+    return notification.id;
+  }
+
+  /**
+   * Démarrer les relances automatiques
+   */
+  start(intervalMinutes: number = 60): void {
+    if (this.intervalId) {
+      logger.warn('Payment reminders are already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.processPaymentReminders().catch(error => {
+        logger.error('Payment reminders error:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info(`Starting payment reminders every ${intervalMinutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Payment reminders stopped');
+    }
+  }
+
+  /**
+   * Transaction avec la facture verrouillée ; seules les factures émises se règlent
+   */
+  private async withInvoiceLock<T>(invoiceId: string, operation: (client: PoolClient, invoice: any) => Promise<T>): Promise<T> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query('SELECT * FROM billing_invoices WHERE id = $1 FOR UPDATE', [invoiceId]);
+      const invoice = result.rows[0];
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.CANCELLED) {
+        throw new Error(`Cannot settle a ${invoice.status} invoice`);
+      }
+
+      const value = await operation(client, invoice);
+
+      await client.query('COMMIT');
+      return value;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error settling invoice', { error, invoiceId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToPayment(row: any): InvoicePayment {
+    return {
+      id: row.id,
+      invoiceId: row.invoice_id,
+      amount: parseFloat(row.amount),
+      ...(row.payment_method ? { paymentMethod: row.payment_method as PaymentMethod } : {}),
+      ...(row.provision_transaction_id ? { provisionTransactionId: row.provision_transaction_id } : {}),
+      paymentDate: new Date(row.payment_date),
+      ...(row.reference ? { reference: row.reference } : {}),
+      ...(row.notes ? { notes: row.notes } : {}),
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapRowToCreditNote(row: any): CreditNote {
+    return {
+      id: row.id,
+      creditNoteNumber: row.credit_note_number,
+      invoiceId: row.invoice_id,
+      ...(row.invoice_number ? { invoiceNumber: row.invoice_number } : {}),
+      clientId: row.client_id,
+      caseId: row.case_id,
+      amount: parseFloat(row.amount),
+      taxAmount: parseFloat(row.tax_amount),
+      reason: row.reason,
+      issueDate: new Date(row.issue_date),
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+// Create and export instance
+import { db } from '../database/connection.js';
+export const invoicePaymentService = new InvoicePaymentService(db);
@@ -0,0 +1,422 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { EncryptedData, encryptionService } from '@/services/encryptionService';
+import { unwrapLegacyFileKey } from '@/services/fileStorageService';
+import { KeyRewrapJob, KeyRewrapJobStatus } from '@/types/encryption';
+
+/**
+ * Key Rewrap Service
+ * Après la rotation d'une clé de tenant, réenveloppe en tâche de fond les
+ * clés de fichiers (encryption_keys) avec la nouvelle clé, par lots, puis
+ * vérifie chaque clé réenveloppée avec validateDataIntegrity. Les fichiers
+ * eux-mêmes ne sont pas rechiffrés. Le premier travail d'un tenant reprend
+ * aussi les clés stockées avant la hiérarchie de clés.
+ *
+ * Les enregistrements chiffrés par encryptData (isolation tenant, sauvegardes)
+ * sont repris de la même façon par leurs magasins, avec rewrapData ; chacun
+ * est vérifié dès son réenveloppement.
+ */
+
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+/** Un travail resté en cours plus longtemps a été interrompu par un redémarrage */
+const STALE_JOB_MINUTES = 30;
+/** Curseur initial du parcours par identifiant */
+const FIRST_KEY_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Magasin d'enregistrements chiffrés par encryptData, parcouru par identifiant
+ */
+export interface EncryptedRecordStore {
+  readonly recordStoreName: string;
+  /** Enregistrements du tenant dont l'enveloppe n'est pas sous la clé donnée */
+  countRecordsToRewrap(tenantId: string, keyId: string): Promise<number>;
+  /** Lot suivant du même parcours, par identifiant croissant après afterId */
+  findRecordsToRewrap(tenantId: string, keyId: string, afterId: string | null, limit: number): Promise<string[]>;
+  /** Réenveloppe l'enregistrement avec la clé active et rend ses enveloppes */
+  rewrapRecord(tenantId: string, recordId: string): Promise<EncryptedData[]>;
+}
+
+interface RewrapTally {
+  rewrapped: number;
+  verified: number;
+  failed: number;
+}
+
+export class KeyRewrapService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(private readonly recordStores?: EncryptedRecordStore[]) {}
+
+  /**
+   * Rotation de la clé du tenant, suivie du réenveloppement de ses clés de
+   * fichiers et de ses enregistrements chiffrés
+   */
+  async rotateTenantKey(tenantId: string, userId: string): Promise<KeyRewrapJob> {
+    const keyInfo = await encryptionService.rotateTenantKey(tenantId);
+    logger.info('Tenant key rotated', { tenantId, keyId: keyInfo.keyId, rotatedFrom: keyInfo.rotatedFrom, userId });
+
+    return this.queueJob(tenantId, keyInfo.keyId, keyInfo.rotatedFrom, userId);
+  }
+
+  /**
+   * Réenveloppement sans rotation, vers la clé active : reprise des clés
+   * antérieures ou d'un travail échoué
+   */
+  async requestRewrap(tenantId: string, userId: string): Promise<KeyRewrapJob> {
+    const keyInfo = await encryptionService.getActiveKeyInfo(tenantId) ?? await encryptionService.generateTenantKey(tenantId);
+    return this.queueJob(tenantId, keyInfo.keyId, undefined, userId);
+  }
+
+  async getJob(jobId: string): Promise<KeyRewrapJob | null> {
+    const result = await db.query('SELECT * FROM key_rewrap_jobs WHERE id = $1', [jobId]);
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToJob(row) : null;
+  }
+
+  async listJobs(tenantId?: string, limit: number = 20): Promise<KeyRewrapJob[]> {
+    const result = await db.query(
+      `SELECT * FROM key_rewrap_jobs
+       WHERE $1::varchar IS NULL OR tenant_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [tenantId ?? null, limit]
+    );
+    return (result as any).rows.map((row: any) => this.mapRowToJob(row));
+  }
+
+  /**
+   * Traiter les travaux en attente jusqu'à épuisement de la file
+   */
+  async processPendingJobs(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+    try {
+      await this.requeueStaleJobs();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.processJob(job);
+        processed++;
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      logger.error('Error processing key rewrap jobs:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return processed;
+  }
+
+  start(intervalSeconds: number = 60): void {
+    if (this.intervalId) {
+      logger.warn('Key rewrap processing is already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.processPendingJobs();
+    }, intervalSeconds * 1000);
+
+    logger.info(`Starting key rewrap processing every ${intervalSeconds} seconds`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Key rewrap processing stopped');
+    }
+  }
+
+  private async queueJob(tenantId: string, toKeyId: string, fromKeyId: string | undefined, userId: string): Promise<KeyRewrapJob> {
+    const result = await db.query(
+      `INSERT INTO key_rewrap_jobs (id, tenant_id, from_key_id, to_key_id, status, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [uuidv4(), tenantId, fromKeyId ?? null, toKeyId, KeyRewrapJobStatus.PENDING, userId]
+    );
+    const job = this.mapRowToJob((result as any).rows[0]);
+
+    logger.info('Key rewrap job queued', { jobId: job.id, tenantId, toKeyId });
+
+    // Pas d'attente du prochain passage du planificateur
+    void this.processPendingJobs();
+    return job;
+  }
+
+  private async processJob(job: KeyRewrapJob): Promise<void> {
+    try {
+      // rewrapData enveloppe toujours avec la clé active : une rotation plus récente a son propre travail
+      const activeKey = await encryptionService.getActiveKeyInfo(job.tenantId);
+      if (activeKey?.keyId !== job.toKeyId) {
+        await this.finishJob(job.id, KeyRewrapJobStatus.FAILED, 'Superseded by a later key rotation');
+        return;
+      }
+
+      const startedAt = job.startedAt ?? new Date();
+      const recordStores = await this.loadRecordStores();
+      const counts = await db.query(
+        'SELECT COUNT(*) AS total FROM encryption_keys WHERE tenant_id = $1 AND tenant_key_id IS DISTINCT FROM $2',
+        [job.tenantId, job.toKeyId]
+      );
+      let totalKeys = Number((counts as any).rows[0].total);
+      for (const store of recordStores) {
+        totalKeys += await store.countRecordsToRewrap(job.tenantId, job.toKeyId);
+      }
+      // Une reprise après interruption recommence le décompte
+      await db.query(
+        `UPDATE key_rewrap_jobs
+         SET total_keys = $2, rewrapped_keys = 0, verified_keys = 0, failed_keys = 0, error_message = NULL
+         WHERE id = $1`,
+        [job.id, totalKeys]
+      );
+
+      const tally: RewrapTally = { rewrapped: 0, verified: 0, failed: 0 };
+      await this.rewrapKeys(job, totalKeys, tally);
+      for (const store of recordStores) {
+        await this.rewrapRecords(job, store, totalKeys, tally);
+      }
+
+      await db.query('UPDATE key_rewrap_jobs SET status = $2 WHERE id = $1', [job.id, KeyRewrapJobStatus.VERIFYING]);
+      await this.verifyKeys(job, startedAt, tally);
+
+      if (tally.failed > 0) {
+        await this.finishJob(job.id, KeyRewrapJobStatus.FAILED, `${tally.failed} key(s) could not be rewrapped or verified`);
+      } else {
+        await this.finishJob(job.id, KeyRewrapJobStatus.COMPLETED, null);
+      }
+
+      logger.info('Key rewrap job finished', {
+        jobId: job.id,
+        tenantId: job.tenantId,
+        totalKeys,
+        rewrappedKeys: tally.rewrapped,
+        verifiedKeys: tally.verified,
+        failedKeys: tally.failed
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Key rewrap failed';
+      const status = job.attempts < MAX_ATTEMPTS ? KeyRewrapJobStatus.PENDING : KeyRewrapJobStatus.FAILED;
+      await db.query(
+        'UPDATE key_rewrap_jobs SET status = $2, error_message = $3 WHERE id = $1',
+        [job.id, status, message]
+      );
+      logger.error('Key rewrap job failed', { jobId: job.id, attempt: job.attempts, willRetry: status === KeyRewrapJobStatus.PENDING, error });
+    }
+  }
+
+  /**
+   * Réenveloppe, lot par lot, les clés qui ne sont pas encore sous la clé cible
+   */
+  private async rewrapKeys(job: KeyRewrapJob, totalKeys: number, tally: RewrapTally): Promise<void> {
+    let cursor = FIRST_KEY_ID;
+
+    for (;;) {
+      const result = await db.query(
+        `SELECT id, encrypted_key, wrapped_key FROM encryption_keys
+         WHERE tenant_id = $1 AND tenant_key_id IS DISTINCT FROM $2 AND id > $3
+         ORDER BY id
+         LIMIT $4`,
+        [job.tenantId, job.toKeyId, cursor, BATCH_SIZE]
+      );
+      const rows = (result as any).rows;
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        cursor = row.id;
+        try {
+          const wrappedKey = row.wrapped_key
+            ? await encryptionService.rewrapData(row.wrapped_key as EncryptedData, job.tenantId)
+            : await encryptionService.wrapDataKey(unwrapLegacyFileKey(row.encrypted_key), job.tenantId);
+
+          await db.query(
+            `UPDATE encryption_keys
+             SET wrapped_key = $2, tenant_key_id = $3, encrypted_key = NULL, rewrapped_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [row.id, JSON.stringify(wrappedKey), wrappedKey.keyId]
+          );
+          tally.rewrapped++;
+        } catch (error) {
+          tally.failed++;
+          logger.error('Failed to rewrap file key', { jobId: job.id, keyId: row.id, error });
+        }
+      }
+
+      await this.saveTally(job.id, tally);
+      logger.info('Key rewrap progress', { jobId: job.id, rewrappedKeys: tally.rewrapped, failedKeys: tally.failed, totalKeys });
+    }
+  }
+
+  /**
+   * Réenveloppe, lot par lot, les enregistrements d'un magasin, chacun vérifié aussitôt
+   */
+  private async rewrapRecords(job: KeyRewrapJob, store: EncryptedRecordStore, totalKeys: number, tally: RewrapTally): Promise<void> {
+    let cursor: string | null = null;
+
+    for (;;) {
+      const recordIds = await store.findRecordsToRewrap(job.tenantId, job.toKeyId, cursor, BATCH_SIZE);
+      if (recordIds.length === 0) {
+        break;
+      }
+
+      for (const recordId of recordIds) {
+        cursor = recordId;
+        try {
+          const envelopes = await store.rewrapRecord(job.tenantId, recordId);
+          tally.rewrapped++;
+          if (await this.verifyEnvelopes(envelopes, job)) {
+            tally.verified++;
+          } else {
+            tally.failed++;
+            logger.error('Rewrapped record failed verification', { jobId: job.id, store: store.recordStoreName, recordId });
+          }
+        } catch (error) {
+          tally.failed++;
+          logger.error('Failed to rewrap record', { jobId: job.id, store: store.recordStoreName, recordId, error });
+        }
+      }
+
+      await this.saveTally(job.id, tally);
+      logger.info('Key rewrap progress', {
+        jobId: job.id,
+        store: store.recordStoreName,
+        rewrappedKeys: tally.rewrapped,
+        failedKeys: tally.failed,
+        totalKeys
+      });
+    }
+  }
+
+  /**
+   * Vérifie que chaque clé réenveloppée par ce travail se déchiffre avec la clé cible
+   */
+  private async verifyKeys(job: KeyRewrapJob, startedAt: Date, tally: RewrapTally): Promise<void> {
+    let cursor = FIRST_KEY_ID;
+
+    for (;;) {
+      const result = await db.query(
+        `SELECT id, wrapped_key FROM encryption_keys
+         WHERE tenant_id = $1 AND tenant_key_id = $2 AND rewrapped_at >= $3 AND id > $4
+         ORDER BY id
+         LIMIT $5`,
+        [job.tenantId, job.toKeyId, startedAt, cursor, BATCH_SIZE]
+      );
+      const rows = (result as any).rows;
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        cursor = row.id;
+        if (await this.verifyEnvelopes([row.wrapped_key as EncryptedData], job)) {
+          tally.verified++;
+        } else {
+          tally.failed++;
+          logger.error('Rewrapped file key failed verification', { jobId: job.id, keyId: row.id });
+        }
+      }
+
+      await this.saveTally(job.id, tally);
+    }
+  }
+
+  private async verifyEnvelopes(envelopes: EncryptedData[], job: KeyRewrapJob): Promise<boolean> {
+    for (const envelope of envelopes) {
+      if (envelope.keyId !== job.toKeyId || !await encryptionService.validateDataIntegrity(envelope, job.tenantId)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async saveTally(jobId: string, tally: RewrapTally): Promise<void> {
+    await db.query(
+      'UPDATE key_rewrap_jobs SET rewrapped_keys = $2, verified_keys = $3, failed_keys = $4 WHERE id = $1',
+      [jobId, tally.rewrapped, tally.verified, tally.failed]
+    );
+  }
+
+  private async loadRecordStores(): Promise<EncryptedRecordStore[]> {
+    if (this.recordStores) {
+      return this.recordStores;
+    }
+
+    // Loaded on demand: BackupService grabs the pool and schedules backups when imported
+    const { tenantIsolationService } = await import('@/services/tenantIsolationService');
+    const { backupService } = await import('@/services/backupService');
+    return [tenantIsolationService, backupService];
+  }
+
+  private async finishJob(jobId: string, status: KeyRewrapJobStatus, errorMessage: string | null): Promise<void> {
+    await db.query(
+      'UPDATE key_rewrap_jobs SET status = $2, error_message = $3, completed_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [jobId, status, errorMessage]
+    );
+  }
+
+  private async claimNextJob(): Promise<KeyRewrapJob | null> {
+    const result = await db.query(
+      `UPDATE key_rewrap_jobs
+       SET status = $1, attempts = attempts + 1, started_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM key_rewrap_jobs
+         WHERE status = $2
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [KeyRewrapJobStatus.REWRAPPING, KeyRewrapJobStatus.PENDING]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToJob(row) : null;
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    await db.query(
+      `UPDATE key_rewrap_jobs
+       SET status = $1
+       WHERE status IN ($2, $3) AND started_at < CURRENT_TIMESTAMP - ($4 || ' minutes')::interval`,
+      [KeyRewrapJobStatus.PENDING, KeyRewrapJobStatus.REWRAPPING, KeyRewrapJobStatus.VERIFYING, STALE_JOB_MINUTES]
+    );
+  }
+
+  private mapRowToJob(row: any): KeyRewrapJob {
+    const totalKeys = row.total_keys ?? 0;
+    const done = (row.rewrapped_keys ?? 0) + (row.verified_keys ?? 0);
+    const progress = row.status === KeyRewrapJobStatus.COMPLETED
+      ? 100
+      : totalKeys > 0 ? Math.min(99, Math.floor((done * 100) / (totalKeys * 2))) : 0;
+
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      ...(row.from_key_id ? { fromKeyId: row.from_key_id } : {}),
+      toKeyId: row.to_key_id,
+      status: row.status,
+      totalKeys,
+      rewrappedKeys: row.rewrapped_keys ?? 0,
+      verifiedKeys: row.verified_keys ?? 0,
+      failedKeys: row.failed_keys ?? 0,
+      progress,
+      ...(row.error_message ? { errorMessage: row.error_message } : {}),
+      attempts: row.attempts ?? 0,
+      ...(row.requested_by ? { requestedBy: row.requested_by } : {}),
+      createdAt: new Date(row.created_at),
+      ...(row.started_at ? { startedAt: new Date(row.started_at) } : {}),
+      ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {})
+    };
+  }
+}
+
+export const keyRewrapService = new KeyRewrapService();
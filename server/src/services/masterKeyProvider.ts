@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Master Key Provider
+ * Sommet de la hiérarchie de chiffrement : la clé maître enveloppe les clés
+ * des tenants, qui enveloppent à leur tour les clés des fichiers et des
+ * enregistrements. La clé maître ne sort jamais du fournisseur, qui n'expose
+ * que l'enveloppement et le désenveloppement, comme le ferait un KMS.
+ *
+ * Deux fournisseurs : un KMS local de substitution, dont la clé vient de la
+ * configuration, et un fichier de clé sur disque.
+ */
+
+export interface MasterKeyProvider {
+  readonly name: string;
+  /** Empreinte de la clé maître, conservée avec chaque clé enveloppée */
+  keyId(): Promise<string>;
+  wrapKey(key: Buffer, context: string): Promise<Buffer>;
+  unwrapKey(wrapped: Buffer, context: string): Promise<Buffer>;
+}
+
+const MASTER_KEY_LENGTH = 32;
+const WRAP_ALGORITHM = 'aes-256-gcm';
+const WRAP_IV_LENGTH = 12;
+const WRAP_TAG_LENGTH = 16;
+
+/**
+ * Enveloppe une clé en AES-256-GCM : IV, tag puis clé chiffrée. Le contexte
+ * (tenant, identifiant de clé) est authentifié, ce qui empêche de substituer
+ * une clé enveloppée à une autre.
+ */
+export function wrapKey(kek: Buffer, key: Buffer, context: string): Buffer {
+  const iv = crypto.randomBytes(WRAP_IV_LENGTH);
+  const cipher = crypto.createCipheriv(WRAP_ALGORITHM, kek, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const encrypted = Buffer.concat([cipher.update(key), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+export function unwrapKey(kek: Buffer, wrapped: Buffer, context: string): Buffer {
+  if (wrapped.length <= WRAP_IV_LENGTH + WRAP_TAG_LENGTH) {
+    throw new Error('Clé enveloppée invalide');
+  }
+
+  const iv = wrapped.subarray(0, WRAP_IV_LENGTH);
+  const tag = wrapped.subarray(WRAP_IV_LENGTH, WRAP_IV_LENGTH + WRAP_TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(WRAP_ALGORITHM, kek, iv);
+  decipher.setAAD(Buffer.from(context, 'utf8'));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(wrapped.subarray(WRAP_IV_LENGTH + WRAP_TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Clé maître fournie en hexadécimal (64 caractères) ou en base64 (32 octets)
+ */
+export function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== MASTER_KEY_LENGTH) {
+    throw new Error(`La clé maître doit faire ${MASTER_KEY_LENGTH} octets`);
+  }
+  return key;
+}
+
+function fingerprint(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// ─── KMS local ──────────────────────────────────────────────────────────────
+
+export class LocalKmsProvider implements MasterKeyProvider {
+  readonly name = 'local-kms';
+  readonly fingerprint: string;
+  private readonly masterKey: Buffer;
+
+  constructor(masterKey: Buffer) {
+    if (masterKey.length !== MASTER_KEY_LENGTH) {
+      throw new Error(`La clé maître doit faire ${MASTER_KEY_LENGTH} octets`);
+    }
+    this.masterKey = Buffer.from(masterKey);
+    this.fingerprint = fingerprint(masterKey);
+  }
+
+  async keyId(): Promise<string> {
+    return `${this.name}:${this.fingerprint}`;
+  }
+
+  async wrapKey(key: Buffer, context: string): Promise<Buffer> {
+    return wrapKey(this.masterKey, key, context);
+  }
+
+  async unwrapKey(wrapped: Buffer, context: string): Promise<Buffer> {
+    return unwrapKey(this.masterKey, wrapped, context);
+  }
+}
+
+// ─── Fichier de clé ─────────────────────────────────────────────────────────
+
+export interface KeyFileProviderOptions {
+  path: string;
+  /** Génère le fichier (mode 0600) s'il n'existe pas ; jamais en production */
+  createIfMissing: boolean;
+}
+
+export class KeyFileProvider implements MasterKeyProvider {
+  readonly name = 'key-file';
+  private provider: Promise<LocalKmsProvider> | null = null;
+
+  constructor(private readonly options: KeyFileProviderOptions) {}
+
+  async keyId(): Promise<string> {
+    return `${this.name}:${(await this.load()).fingerprint}`;
+  }
+
+  async wrapKey(key: Buffer, context: string): Promise<Buffer> {
+    return (await this.load()).wrapKey(key, context);
+  }
+
+  async unwrapKey(wrapped: Buffer, context: string): Promise<Buffer> {
+    return (await this.load()).unwrapKey(wrapped, context);
+  }
+
+  private load(): Promise<LocalKmsProvider> {
+    if (!this.provider) {
+      this.provider = this.readKeyFile().catch(error => {
+        // Nouvelle tentative au prochain appel (fichier monté plus tard, droits corrigés)
+        this.provider = null;
+        throw error;
+      });
+    }
+    return this.provider;
+  }
+
+  private async readKeyFile(): Promise<LocalKmsProvider> {
+    try {
+      const content = await fs.readFile(this.options.path);
+      // Clé brute de 32 octets, ou texte hexadécimal / base64
+      const key = content.length === MASTER_KEY_LENGTH ? content : parseMasterKey(content.toString('utf8'));
+      return new LocalKmsProvider(key);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || !this.options.createIfMissing) {
+        throw error;
+      }
+    }
+
+    const key = crypto.randomBytes(MASTER_KEY_LENGTH);
+    await fs.mkdir(path.dirname(this.options.path), { recursive: true, mode: 0o700 });
+    // « wx » : si un autre processus vient de créer le fichier, on relit le sien
+    await fs.writeFile(this.options.path, key.toString('base64'), { mode: 0o600, flag: 'wx' }).catch(error => {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    });
+    return new LocalKmsProvider(parseMasterKey(await fs.readFile(this.options.path, 'utf8')));
+  }
+}
+
+// ─── Sélection ──────────────────────────────────────────────────────────────
+
+export interface MasterKeySettings {
+  mode: 'kms' | 'file';
+  kms: { masterKey: string | undefined };
+  file: KeyFileProviderOptions;
+}
+
+export function createMasterKeyProvider(settings: MasterKeySettings): MasterKeyProvider {
+  if (settings.mode === 'file') {
+    return new KeyFileProvider(settings.file);
+  }
+  if (!settings.kms.masterKey) {
+    throw new Error('MASTER_KEY est requis pour le KMS local');
+  }
+  return new LocalKmsProvider(parseMasterKey(settings.kms.masterKey));
+}
+
+/**
+ * Réglages lus dans l'environnement : MASTER_KEY_PROVIDER (kms ou file),
+ * MASTER_KEY pour le KMS local, MASTER_KEY_FILE pour le fichier de clé
+ */
+export function masterKeySettingsFromEnv(env: NodeJS.ProcessEnv = process.env): MasterKeySettings {
+  return {
+    mode: env.MASTER_KEY_PROVIDER === 'kms' ? 'kms' : 'file',
+    kms: { masterKey: env.MASTER_KEY },
+    file: {
+      path: env.MASTER_KEY_FILE || './storage/keys/master.key',
+      createIfMissing: env.NODE_ENV !== 'production'
+    }
+  };
+}
@@ -0,0 +1,447 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON
+} from '@simplewebauthn/server';
+import { config } from '@/config/environment';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import type { AuditEvent } from '@/services/auditService';
+import { findRecoveryCode, generateRecoveryCodes, hashRecoveryCode } from '@/services/recoveryCodes';
+import { MFAMethod, MFAStatus, WebAuthnCredentialInfo } from '@/types/auth';
+
+/**
+ * MFA Service
+ * Seconds facteurs au-delà du TOTP géré par AuthenticationService : codes de
+ * secours à usage unique, passkeys WebAuthn, et réinitialisation par un
+ * administrateur quand l'utilisateur a tout perdu. Chaque usage d'un code de
+ * secours et chaque réinitialisation sont inscrits au journal d'audit.
+ */
+
+/** Durée de validité d'un défi WebAuthn */
+const CHALLENGE_TTL_MINUTES = 5;
+
+type ChallengePurpose = 'registration' | 'authentication';
+
+type MFAAuditAction =
+  | 'mfa_recovery_codes_generated'
+  | 'mfa_recovery_code_used'
+  | 'mfa_passkey_registered'
+  | 'mfa_passkey_removed'
+  | 'mfa_admin_reset';
+
+export class MFAService {
+  /**
+   * État des seconds facteurs de l'utilisateur
+   */
+  async getStatus(userId: string): Promise<MFAStatus> {
+    const userResult = await db.query(
+      'SELECT mfa_enabled, mfa_totp_verified_at FROM users WHERE id = $1',
+      [userId]
+    );
+    const user = (userResult as any).rows[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      enabled: user.mfa_enabled,
+      totpEnabled: !!user.mfa_totp_verified_at,
+      passkeys: await this.listPasskeys(userId),
+      recoveryCodesRemaining: await this.countRecoveryCodes(userId)
+    };
+  }
+
+  /**
+   * Seconds facteurs proposés à la connexion
+   */
+  async getLoginMethods(userId: string): Promise<MFAMethod[]> {
+    const result = await db.query(
+      `SELECT u.mfa_totp_verified_at IS NOT NULL AS totp,
+              EXISTS (SELECT 1 FROM webauthn_credentials wc WHERE wc.user_id = u.id) AS webauthn
+       FROM users u
+       WHERE u.id = $1`,
+      [userId]
+    );
+    const row = (result as any).rows[0];
+    const methods: MFAMethod[] = [];
+    if (row?.totp) {
+      methods.push('totp');
+    }
+    if (row?.webauthn) {
+      methods.push('webauthn');
+    }
+    return methods;
+  }
+
+  // ─── Codes de secours ─────────────────────────────────────────────────────
+
+  /**
+   * Nouveaux codes de secours ; les codes précédents, utilisés ou non, sont révoqués
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    const hashes = await Promise.all(codes.map(code => hashRecoveryCode(code)));
+
+    await db.transaction(async client => {
+      await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+      for (const hash of hashes) {
+        await client.query('INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)', [userId, hash]);
+      }
+    });
+
+    await this.logMFAEvent(userId, userId, 'mfa_recovery_codes_generated', { count: codes.length });
+    logger.info(`Recovery codes generated for user: ${userId}`);
+    return codes;
+  }
+
+  /**
+   * Codes de secours à l'activation d'un second facteur : générés seulement si
+   * l'utilisateur n'en a plus, pour ne pas invalider des codes déjà imprimés
+   */
+  async issueRecoveryCodesIfMissing(userId: string): Promise<string[]> {
+    if (await this.countRecoveryCodes(userId) > 0) {
+      return [];
+    }
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Consomme un code de secours ; un code déjà utilisé est refusé
+   */
+  async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const result = await db.query(
+      'SELECT id, code_hash FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    const candidates = (result as any).rows.map((row: any) => ({ id: row.id as string, codeHash: row.code_hash as string }));
+
+    const match = await findRecoveryCode(code, candidates);
+    if (!match) {
+      return false;
+    }
+
+    // Deux connexions simultanées avec le même code : une seule l'emporte
+    const consumed = await db.query(
+      'UPDATE mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE id = $1 AND used_at IS NULL',
+      [match.id]
+    );
+    if ((consumed as any).rowCount !== 1) {
+      return false;
+    }
+
+    const remaining = candidates.length - 1;
+    await this.logMFAEvent(userId, userId, 'mfa_recovery_code_used', { remaining });
+    logger.warn(`Recovery code used for user: ${userId}`, { remaining });
+    return true;
+  }
+
+  // ─── Passkeys ─────────────────────────────────────────────────────────────
+
+  async startPasskeyRegistration(userId: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const userResult = await db.query('SELECT email FROM users WHERE id = $1', [userId]);
+    const user = (userResult as any).rows[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const existing = await this.getCredentials(userId);
+    const options = await generateRegistrationOptions({
+      rpName: config.webauthn.rpName,
+      rpID: config.webauthn.rpId,
+      userName: user.email,
+      userID: new TextEncoder().encode(userId),
+      attestationType: 'none',
+      excludeCredentials: existing.map(credential => ({ id: credential.credential_id, transports: credential.transports })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred'
+      }
+    });
+
+    await this.saveChallenge(userId, 'registration', options.challenge);
+    return options;
+  }
+
+  /**
+   * Enregistre la passkey et active le second facteur ; les codes de secours
+   * sont renvoyés s'ils viennent d'être générés
+   */
+  async finishPasskeyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name: string
+  ): Promise<{ passkey: WebAuthnCredentialInfo; recoveryCodes: string[] }> {
+    const expectedChallenge = await this.takeChallenge(userId, 'registration');
+    if (!expectedChallenge) {
+      throw new Error('Passkey challenge expired');
+    }
+
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: config.webauthn.origins,
+      expectedRPID: config.webauthn.rpId,
+      requireUserVerification: false
+    });
+    if (!verification.verified) {
+      throw new Error('Passkey verification failed');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const result = await db.query(
+      `INSERT INTO webauthn_credentials (user_id, credential_id, public_key, counter, transports, device_type, backed_up, name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        userId,
+        credential.id,
+        Buffer.from(credential.publicKey),
+        credential.counter,
+        credential.transports ?? [],
+        credentialDeviceType,
+        credentialBackedUp,
+        name
+      ]
+    );
+    await db.query('UPDATE users SET mfa_enabled = true WHERE id = $1', [userId]);
+
+    const passkey = this.mapRowToPasskey((result as any).rows[0]);
+    await this.logMFAEvent(userId, userId, 'mfa_passkey_registered', { passkeyId: passkey.id, name });
+    logger.info(`Passkey registered for user: ${userId}`);
+
+    return { passkey, recoveryCodes: await this.issueRecoveryCodesIfMissing(userId) };
+  }
+
+  /**
+   * Défi de connexion, limité aux passkeys de l'utilisateur
+   */
+  async startPasskeyAuthentication(userId: string): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const credentials = await this.getCredentials(userId);
+    const options = await generateAuthenticationOptions({
+      rpID: config.webauthn.rpId,
+      allowCredentials: credentials.map(credential => ({ id: credential.credential_id, transports: credential.transports })),
+      userVerification: 'preferred'
+    });
+
+    await this.saveChallenge(userId, 'authentication', options.challenge);
+    return options;
+  }
+
+  async verifyPasskeyAuthentication(userId: string, response: AuthenticationResponseJSON): Promise<boolean> {
+    const expectedChallenge = await this.takeChallenge(userId, 'authentication');
+    if (!expectedChallenge) {
+      return false;
+    }
+
+    const credential = (await this.getCredentials(userId)).find(candidate => candidate.credential_id === response.id);
+    if (!credential) {
+      return false;
+    }
+
+    try {
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        credential: {
+          id: credential.credential_id,
+          publicKey: new Uint8Array(credential.public_key),
+          counter: Number(credential.counter),
+          transports: credential.transports
+        },
+        requireUserVerification: false
+      });
+      if (!verification.verified) {
+        return false;
+      }
+
+      await db.query(
+        'UPDATE webauthn_credentials SET counter = $2, last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [credential.id, verification.authenticationInfo.newCounter]
+      );
+      return true;
+    } catch (error) {
+      // Signature invalide, compteur en recul (passkey clonée), origine inattendue
+      logger.warn(`Passkey assertion rejected for user: ${userId}`, { error });
+      return false;
+    }
+  }
+
+  async listPasskeys(userId: string): Promise<WebAuthnCredentialInfo[]> {
+    const result = await db.query(
+      'SELECT * FROM webauthn_credentials WHERE user_id = $1 ORDER BY created_at',
+      [userId]
+    );
+    return (result as any).rows.map((row: any) => this.mapRowToPasskey(row));
+  }
+
+  /**
+   * Retire une passkey ; sans TOTP ni autre passkey, le second facteur est désactivé
+   */
+  async removePasskey(userId: string, passkeyId: string): Promise<void> {
+    const result = await db.query(
+      'DELETE FROM webauthn_credentials WHERE id = $1 AND user_id = $2 RETURNING name',
+      [passkeyId, userId]
+    );
+    if ((result as any).rows.length === 0) {
+      throw new Error('Passkey not found');
+    }
+
+    if ((await this.getLoginMethods(userId)).length === 0) {
+      await this.disableMFA(userId);
+    }
+
+    await this.logMFAEvent(userId, userId, 'mfa_passkey_removed', { passkeyId, name: (result as any).rows[0].name });
+    logger.info(`Passkey removed for user: ${userId}`);
+  }
+
+  // ─── Désactivation et récupération ────────────────────────────────────────
+
+  /**
+   * Retire tous les seconds facteurs de l'utilisateur : TOTP, passkeys et codes de secours
+   */
+  async disableMFA(userId: string): Promise<void> {
+    await db.transaction(async client => {
+      await client.query(
+        'UPDATE users SET mfa_enabled = false, mfa_secret = NULL, mfa_totp_verified_at = NULL WHERE id = $1',
+        [userId]
+      );
+      await client.query('DELETE FROM webauthn_credentials WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM webauthn_challenges WHERE user_id = $1', [userId]);
+    });
+  }
+
+  /**
+   * Récupération assistée : un administrateur, après vérification de
+   * l'identité hors ligne, retire les seconds facteurs d'un utilisateur qui
+   * les a tous perdus. Ses sessions sont fermées ; il se reconnecte avec son
+   * mot de passe et active un nouveau second facteur.
+   */
+  async adminResetMFA(userId: string, adminId: string, reason: string, identityCheck: string): Promise<void> {
+    if (userId === adminId) {
+      throw new Error('Cannot reset your own MFA');
+    }
+
+    const userResult = await db.query('SELECT email, mfa_enabled FROM users WHERE id = $1', [userId]);
+    const user = (userResult as any).rows[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const previousMethods = await this.getLoginMethods(userId);
+    await this.disableMFA(userId);
+    await db.query('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
+
+    await this.logMFAEvent(adminId, userId, 'mfa_admin_reset', {
+      email: user.email,
+      previousMethods,
+      reason,
+      identityCheck
+    });
+    logger.warn('MFA reset by admin', { userId, adminId });
+  }
+
+  // Méthodes privées
+
+  private async countRecoveryCodes(userId: string): Promise<number> {
+    const result = await db.query(
+      'SELECT COUNT(*) AS remaining FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return Number((result as any).rows[0]?.remaining ?? 0);
+  }
+
+  private async getCredentials(userId: string): Promise<Array<{
+    id: string;
+    credential_id: string;
+    public_key: Buffer;
+    counter: string | number;
+    transports: AuthenticatorTransportFuture[];
+  }>> {
+    const result = await db.query(
+      'SELECT id, credential_id, public_key, counter, transports FROM webauthn_credentials WHERE user_id = $1',
+      [userId]
+    );
+    return (result as any).rows;
+  }
+
+  private async saveChallenge(userId: string, purpose: ChallengePurpose, challenge: string): Promise<void> {
+    await db.query(
+      `INSERT INTO webauthn_challenges (user_id, purpose, challenge, expires_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP + ($4 || ' minutes')::interval)
+       ON CONFLICT (user_id, purpose) DO UPDATE
+       SET challenge = EXCLUDED.challenge, expires_at = EXCLUDED.expires_at`,
+      [userId, purpose, challenge, CHALLENGE_TTL_MINUTES]
+    );
+  }
+
+  /**
+   * Défi en cours, supprimé à la lecture : une réponse ne peut pas être rejouée
+   */
+  private async takeChallenge(userId: string, purpose: ChallengePurpose): Promise<string | null> {
+    const result = await db.query(
+      `DELETE FROM webauthn_challenges
+       WHERE user_id = $1 AND purpose = $2
+       RETURNING challenge, expires_at > CURRENT_TIMESTAMP AS valid`,
+      [userId, purpose]
+    );
+    const row = (result as any).rows[0];
+    return row?.valid ? row.challenge : null;
+  }
+
+  private async logMFAEvent(
+    actorId: string,
+    userId: string,
+    actionType: MFAAuditAction,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const event: AuditEvent = {
+      tenantId: 'default',
+      userId: actorId,
+      actionType,
+      resourceType: 'user_mfa',
+      resourceId: userId,
+      securityContext: {
+        userRole: actionType === 'mfa_admin_reset' ? 'admin' : 'user',
+        permissions: actionType === 'mfa_admin_reset' ? ['user:update'] : [],
+        dataClassification: 'restricted',
+        requiresEncryption: false
+      },
+      success: true,
+      timestamp: new Date(),
+      metadata
+    };
+
+    try {
+      // Chargé à la demande : AuditService prend le pool et démarre son minuteur de métriques à l'import
+      const { auditService } = await import('@/services/auditService');
+      await auditService.logEvent(event);
+    } catch (error) {
+      logger.error('Failed to record MFA audit event', { actionType, userId, error });
+    }
+  }
+
+  private mapRowToPasskey(row: any): WebAuthnCredentialInfo {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.device_type ? { deviceType: row.device_type } : {}),
+      backedUp: row.backed_up,
+      createdAt: new Date(row.created_at),
+      ...(row.last_used_at ? { lastUsedAt: new Date(row.last_used_at) } : {})
+    };
+  }
+}
+
+export const mfaService = new MFAService();
@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import {
+  AnomalieChaine,
+  EvenementRegistre,
+  EntreeRegistreMinutier,
+  PointControleMinutier,
+  RapportVerificationChaine
+} from '@/types/minutier';
+import { verifierCertificat, verifierSignatureDonnees } from '@/services/notarialPki';
+
+/**
+ * Chaîne d'empreintes du minutier et du répertoire
+ *
+ * Chaque notaire tient un registre en ajout seul : chaque entrée s'engage sur
+ * l'empreinte de l'entrée précédente, sur les numéros de minutier et de
+ * répertoire de l'acte et sur l'empreinte de son contenu. Des points de
+ * contrôle quotidiens, signés avec le certificat du notaire, figent la tête de
+ * la chaîne : une réécriture complète de l'historique reste ainsi détectable.
+ */
+
+export const HASH_ORIGINE = '0'.repeat(64);
+
+/** Champs de l'acte couverts par la chaîne (le statut évolue et fait l'objet d'entrées distinctes) */
+export interface ActeChaine {
+  id: string;
+  numeroMinutier: string;
+  numeroRepertoire: string;
+  /** AAAA-MM-JJ */
+  dateActe: string;
+  typeActe: string;
+  objet: string;
+  parties: unknown;
+  contenuChiffre: string;
+  hashIntegrite: string;
+}
+
+/**
+ * JSON aux clés triées : l'ordre des clés renvoyé par JSONB ne doit pas changer l'empreinte
+ */
+export function serialisationCanonique(valeur: unknown): string {
+  if (Array.isArray(valeur)) {
+    return `[${valeur.map(serialisationCanonique).join(',')}]`;
+  }
+  if (valeur && typeof valeur === 'object' && !(valeur instanceof Date)) {
+    const entrees = Object.entries(valeur as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entrees.map(([cle, v]) => `${JSON.stringify(cle)}:${serialisationCanonique(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(valeur) ?? 'null';
+}
+
+const sha256 = (texte: string) => crypto.createHash('sha256').update(texte, 'utf8').digest('hex');
+
+export function empreinteActe(acte: ActeChaine): string {
+  return sha256(serialisationCanonique({
+    numeroMinutier: acte.numeroMinutier,
+    numeroRepertoire: acte.numeroRepertoire,
+    dateActe: acte.dateActe,
+    typeActe: acte.typeActe,
+    objet: acte.objet,
+    parties: acte.parties,
+    contenuChiffre: acte.contenuChiffre,
+    hashIntegrite: acte.hashIntegrite
+  }));
+}
+
+export function calculerHashEntree(entree: Omit<EntreeRegistreMinutier, 'hashEntree'>): string {
+  return sha256([
+    'JURISTDZ-MINUTIER-1',
+    entree.notaireId,
+    entree.sequence,
+    entree.typeEvenement,
+    entree.acteId,
+    entree.numeroMinutier,
+    entree.numeroRepertoire,
+    entree.hashActe,
+    entree.horodatage.toISOString(),
+    entree.hashPrecedent
+  ].join('\n'));
+}
+
+/**
+ * Entrée suivante de la chaîne
+ */
+export function chainerEntree(
+  precedente: EntreeRegistreMinutier | null,
+  notaireId: string,
+  typeEvenement: EvenementRegistre,
+  acte: ActeChaine,
+  horodatage: Date
+): EntreeRegistreMinutier {
+  const entree = {
+    notaireId,
+    sequence: (precedente?.sequence ?? 0) + 1,
+    typeEvenement,
+    acteId: acte.id,
+    numeroMinutier: acte.numeroMinutier,
+    numeroRepertoire: acte.numeroRepertoire,
+    hashActe: empreinteActe(acte),
+    // L'horodatage ne recule jamais, même si l'horloge du serveur est corrigée
+    horodatage: precedente && horodatage < precedente.horodatage ? precedente.horodatage : horodatage,
+    hashPrecedent: precedente?.hashEntree ?? HASH_ORIGINE
+  };
+  return { ...entree, hashEntree: calculerHashEntree(entree) };
+}
+
+export function donneesPointControle(point: Pick<PointControleMinutier, 'notaireId' | 'datePoint' | 'sequence' | 'hashTete'>): Buffer {
+  return Buffer.from(['JURISTDZ-MINUTIER-POINT-1', point.notaireId, point.datePoint, point.sequence, point.hashTete].join('\n'), 'utf8');
+}
+
+// ─── Vérification ───────────────────────────────────────────────────────────
+
+/** Numéro d'ordre annuel d'un numéro de minutier (2026-000012) ou de répertoire (REP-2026-0012) */
+function numeroAnnuel(numero: string): { annee: string; rang: number } | null {
+  const match = /(\d{4})-(\d+)$/.exec(numero);
+  return match ? { annee: match[1]!, rang: Number(match[2]) } : null;
+}
+
+function verifierNumerotation(
+  inscriptions: EntreeRegistreMinutier[],
+  numero: (entree: EntreeRegistreMinutier) => string,
+  registre: string,
+  anomalies: AnomalieChaine[]
+): void {
+  const derniers = new Map<string, number>();
+
+  for (const entree of inscriptions) {
+    const courant = numeroAnnuel(numero(entree));
+    if (!courant) {
+      continue;
+    }
+    const dernier = derniers.get(courant.annee) ?? 0;
+    if (courant.rang <= dernier) {
+      anomalies.push({
+        type: 'ordre',
+        sequence: entree.sequence,
+        acteId: entree.acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `Numéro de ${registre} ${numero(entree)} inscrit hors de l'ordre chronologique`
+      });
+    } else if (courant.rang > dernier + 1) {
+      anomalies.push({
+        type: 'numerotation_lacunaire',
+        sequence: entree.sequence,
+        acteId: entree.acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `Numéros de ${registre} manquants avant ${numero(entree)}`
+      });
+    }
+    derniers.set(courant.annee, Math.max(dernier, courant.rang));
+  }
+}
+
+export interface ElementsChaine {
+  notaireId: string;
+  /** Entrées dans l'ordre de leur séquence */
+  entrees: EntreeRegistreMinutier[];
+  actes: ActeChaine[];
+  pointsControle: PointControleMinutier[];
+  autoritePem: string | null;
+  maintenant?: Date;
+}
+
+/**
+ * Détecter les lacunes, les réordonnancements et les modifications sur l'ensemble du registre
+ */
+export function verifierChaine(elements: ElementsChaine): RapportVerificationChaine {
+  const anomalies: AnomalieChaine[] = [];
+  const { entrees } = elements;
+
+  // 1. Continuité de la chaîne
+  let precedente: EntreeRegistreMinutier | null = null;
+  for (const entree of entrees) {
+    const sequenceAttendue = (precedente?.sequence ?? 0) + 1;
+    if (entree.sequence !== sequenceAttendue) {
+      anomalies.push({
+        type: 'sequence_manquante',
+        sequence: entree.sequence,
+        message: entree.sequence > sequenceAttendue
+          ? `Entrées ${sequenceAttendue} à ${entree.sequence - 1} absentes du registre`
+          : `Entrée ${entree.sequence} en double ou déplacée`
+      });
+    }
+    if (entree.hashPrecedent !== (precedente?.hashEntree ?? HASH_ORIGINE)) {
+      anomalies.push({
+        type: 'rupture_chaine',
+        sequence: entree.sequence,
+        message: `L'entrée ${entree.sequence} ne s'enchaîne pas sur l'entrée qui la précède`
+      });
+    }
+    if (calculerHashEntree(entree) !== entree.hashEntree) {
+      anomalies.push({
+        type: 'entree_modifiee',
+        sequence: entree.sequence,
+        acteId: entree.acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `L'entrée ${entree.sequence} a été modifiée après son inscription`
+      });
+    }
+    if (precedente && entree.horodatage < precedente.horodatage) {
+      anomalies.push({
+        type: 'ordre',
+        sequence: entree.sequence,
+        message: `L'entrée ${entree.sequence} est antérieure à l'entrée qui la précède`
+      });
+    }
+    precedente = entree;
+  }
+
+  // 2. Numérotation continue du minutier et du répertoire
+  const premieresInscriptions = new Map<string, EntreeRegistreMinutier>();
+  const dernieresEntrees = new Map<string, EntreeRegistreMinutier>();
+  for (const entree of entrees) {
+    if (!premieresInscriptions.has(entree.acteId)) {
+      premieresInscriptions.set(entree.acteId, entree);
+    }
+    dernieresEntrees.set(entree.acteId, entree);
+  }
+  const inscriptions = [...premieresInscriptions.values()];
+  verifierNumerotation(inscriptions, entree => entree.numeroMinutier, 'minutier', anomalies);
+  verifierNumerotation(inscriptions, entree => entree.numeroRepertoire, 'répertoire', anomalies);
+
+  // 3. Concordance entre le registre et les actes conservés
+  const actes = new Map(elements.actes.map(acte => [acte.id, acte]));
+  for (const [acteId, entree] of dernieresEntrees) {
+    const acte = actes.get(acteId);
+    if (!acte) {
+      anomalies.push({
+        type: 'acte_supprime',
+        sequence: entree.sequence,
+        acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `L'acte ${entree.numeroMinutier} inscrit au registre a disparu`
+      });
+    } else if (acte.numeroMinutier !== entree.numeroMinutier || acte.numeroRepertoire !== entree.numeroRepertoire) {
+      anomalies.push({
+        type: 'acte_renumerote',
+        sequence: entree.sequence,
+        acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `L'acte ${entree.numeroMinutier} porte désormais le numéro ${acte.numeroMinutier} (${acte.numeroRepertoire})`
+      });
+    } else if (empreinteActe(acte) !== entree.hashActe) {
+      anomalies.push({
+        type: 'acte_modifie',
+        sequence: entree.sequence,
+        acteId,
+        numeroMinutier: entree.numeroMinutier,
+        message: `Le contenu de l'acte ${entree.numeroMinutier} ne correspond plus au registre`
+      });
+    }
+  }
+  for (const acte of elements.actes) {
+    if (!dernieresEntrees.has(acte.id)) {
+      anomalies.push({
+        type: 'acte_non_inscrit',
+        acteId: acte.id,
+        numeroMinutier: acte.numeroMinutier,
+        message: `L'acte ${acte.numeroMinutier} n'est pas inscrit au registre`
+      });
+    }
+  }
+
+  // 4. Points de contrôle signés
+  const parSequence = new Map(entrees.map(entree => [entree.sequence, entree]));
+  const derniereSequence = entrees[entrees.length - 1]?.sequence ?? 0;
+  for (const point of elements.pointsControle) {
+    const signatureValide = !!elements.autoritePem
+      && verifierCertificat(point.certificatPem, elements.autoritePem, point.creeLe) === null
+      && verifierSignatureDonnees(point.certificatPem, donneesPointControle(point), point.signature);
+
+    if (!signatureValide) {
+      anomalies.push({
+        type: 'point_controle_invalide',
+        sequence: point.sequence,
+        message: `Signature du point de contrôle du ${point.datePoint} invalide`
+      });
+      continue;
+    }
+
+    const entree = parSequence.get(point.sequence);
+    if (point.sequence > derniereSequence) {
+      anomalies.push({
+        type: 'sequence_manquante',
+        sequence: point.sequence,
+        message: `Le registre s'arrête à l'entrée ${derniereSequence} alors que le point de contrôle du ${point.datePoint} en atteste ${point.sequence}`
+      });
+    } else if (!entree || entree.hashEntree !== point.hashTete) {
+      anomalies.push({
+        type: 'point_controle_incoherent',
+        sequence: point.sequence,
+        message: `Le registre a été réécrit avant le point de contrôle du ${point.datePoint}`
+      });
+    }
+  }
+
+  const dernierPoint = elements.pointsControle[elements.pointsControle.length - 1];
+  return {
+    notaireId: elements.notaireId,
+    verifieLe: elements.maintenant ?? new Date(),
+    integre: anomalies.length === 0,
+    nombreEntrees: entrees.length,
+    nombreActes: elements.actes.length,
+    ...(precedente ? { hashTete: precedente.hashEntree } : {}),
+    ...(dernierPoint ? { dernierPointControle: { datePoint: dernierPoint.datePoint, sequence: dernierPoint.sequence } } : {}),
+    anomalies
+  };
+}
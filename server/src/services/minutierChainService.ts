@@ -0,0 +1,301 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  EntreeRegistreMinutier,
+  EvenementRegistre,
+  PointControleMinutier,
+  RapportVerificationChaine
+} from '../types/minutier.js';
+import { logger } from '../utils/logger.js';
+import { civilDateIn } from '../utils/reportSchedule.js';
+import { NotarialCertificateService } from './notarialCertificateService.js';
+import { signerDonnees } from './notarialPki.js';
+import { ActeChaine, chainerEntree, donneesPointControle, verifierChaine } from './minutierChain.js';
+
+const FUSEAU_ETUDE = 'Africa/Algiers';
+
+const COLONNES_ACTE = `
+  id, numero_minutier, numero_repertoire, date_acte::text AS date_acte, type_acte,
+  objet, parties, contenu_chiffre, hash_integrite
+`;
+
+/**
+ * Registre en ajout seul du minutier et du répertoire, avec points de contrôle quotidiens signés
+ */
+export class MinutierChainService {
+  private certificats: NotarialCertificateService;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(private db: Pool) {
+    this.certificats = new NotarialCertificateService(db);
+  }
+
+  /**
+   * Sérialiser numérotation et inscriptions d'un notaire jusqu'à la fin de la transaction
+   */
+  async verrouiller(client: PoolClient, notaireId: string): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`minutier:${notaireId}`]);
+  }
+
+  /**
+   * Inscrire un événement de l'acte au registre, dans la transaction de l'appelant
+   */
+  async inscrire(client: PoolClient, notaireId: string, acteId: string, typeEvenement: EvenementRegistre): Promise<EntreeRegistreMinutier> {
+    await this.verrouiller(client, notaireId);
+
+    let precedente = await this.derniereEntree(client, notaireId);
+    if (!precedente) {
+      precedente = await this.reprendreExistant(client, notaireId, typeEvenement === 'inscription' ? acteId : null);
+    }
+
+    const result = await client.query(`SELECT ${COLONNES_ACTE} FROM actes_authentiques WHERE id = $1`, [acteId]);
+    if (result.rows.length === 0) {
+      throw new Error('Acte non trouvé');
+    }
+
+    const entree = chainerEntree(precedente, notaireId, typeEvenement, this.mapRowToActeChaine(result.rows[0]), new Date());
+    await this.insererEntree(client, entree);
+    return entree;
+  }
+
+  /**
+   * Vérifier l'ensemble du registre d'un notaire
+   */
+  async verifierChaine(notaireId: string): Promise<RapportVerificationChaine> {
+    try {
+      const [entrees, actes, points, autoritePem] = await Promise.all([
+        this.db.query('SELECT * FROM registre_minutier WHERE notaire_id = $1 ORDER BY sequence', [notaireId]),
+        this.db.query(`SELECT ${COLONNES_ACTE} FROM actes_authentiques WHERE notaire_id = $1`, [notaireId]),
+        this.db.query(`
+          SELECT notaire_id, date_point::text AS date_point, sequence, hash_tete, signature, certificat_pem, created_at
+          FROM points_controle_minutier
+          WHERE notaire_id = $1
+          ORDER BY date_point
+        `, [notaireId]),
+        this.certificats.obtenirCertificatAutorite()
+      ]);
+
+      const rapport = verifierChaine({
+        notaireId,
+        entrees: entrees.rows.map(row => this.mapRowToEntree(row)),
+        actes: actes.rows.map(row => this.mapRowToActeChaine(row)),
+        pointsControle: points.rows.map(row => this.mapRowToPointControle(row)),
+        autoritePem
+      });
+
+      if (!rapport.integre) {
+        logger.warn('Anomalies détectées dans la chaîne du minutier', {
+          notaireId,
+          anomalies: rapport.anomalies.map(anomalie => anomalie.type)
+        });
+      }
+
+      return rapport;
+    } catch (error) {
+      logger.error('Erreur lors de la vérification de la chaîne du minutier', { error, notaireId });
+      throw error;
+    }
+  }
+
+  /**
+   * Signer la tête de la chaîne du notaire pour la journée, si elle a avancé depuis le dernier point
+   */
+  async creerPointControle(notaireId: string, maintenant: Date = new Date()): Promise<PointControleMinutier | null> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      await this.verrouiller(client, notaireId);
+
+      const tete = await this.derniereEntree(client, notaireId);
+      const dernier = await client.query(
+        'SELECT sequence FROM points_controle_minutier WHERE notaire_id = $1 ORDER BY date_point DESC LIMIT 1',
+        [notaireId]
+      );
+      if (!tete || (dernier.rows[0] && Number(dernier.rows[0].sequence) >= tete.sequence)) {
+        await client.query('COMMIT');
+        return null;
+      }
+
+      const jour = civilDateIn(maintenant, FUSEAU_ETUDE);
+      const datePoint = `${jour.year}-${String(jour.month + 1).padStart(2, '0')}-${String(jour.day).padStart(2, '0')}`;
+      const certificat = await this.certificats.obtenirCertificatSignataire(client, notaireId);
+      const point: PointControleMinutier = {
+        notaireId,
+        datePoint,
+        sequence: tete.sequence,
+        hashTete: tete.hashEntree,
+        signature: '',
+        certificatPem: certificat.certificatPem,
+        creeLe: maintenant
+      };
+      point.signature = signerDonnees(certificat.clePrivee, donneesPointControle(point));
+
+      const result = await client.query(`
+        INSERT INTO points_controle_minutier (
+          notaire_id, date_point, sequence, hash_tete, signature, certificat_id, certificat_pem, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (notaire_id, date_point) DO NOTHING
+      `, [notaireId, datePoint, point.sequence, point.hashTete, point.signature, certificat.id, certificat.certificatPem, maintenant]);
+
+      await client.query('COMMIT');
+
+      if ((result as any).rowCount === 0) {
+        return null;
+      }
+      logger.info('Point de contrôle du minutier signé', { notaireId, datePoint, sequence: point.sequence });
+      return point;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Erreur lors de la création du point de contrôle du minutier', { error, notaireId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Points de contrôle du jour pour tous les notaires dont le registre a avancé
+   */
+  async creerPointsControleQuotidiens(maintenant: Date = new Date()): Promise<number> {
+    const result = await this.db.query(`
+      SELECT r.notaire_id
+      FROM registre_minutier r
+      GROUP BY r.notaire_id
+      HAVING MAX(r.sequence) > COALESCE((
+        SELECT MAX(p.sequence) FROM points_controle_minutier p WHERE p.notaire_id = r.notaire_id
+      ), 0)
+    `);
+
+    let crees = 0;
+    for (const row of result.rows) {
+      try {
+        if (await this.creerPointControle(row.notaire_id, maintenant)) {
+          crees++;
+        }
+      } catch {
+        // Déjà journalisé ; les autres notaires sont traités
+      }
+    }
+    return crees;
+  }
+
+  /**
+   * Démarrer la création périodique des points de contrôle (un par jour et par notaire)
+   */
+  start(intervalMinutes: number = 60): void {
+    if (this.intervalId) {
+      logger.warn('Minutier checkpoints are already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.creerPointsControleQuotidiens().catch(error => {
+        logger.error('Minutier checkpoint error:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info(`Starting minutier checkpoints every ${intervalMinutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Minutier checkpoints stopped');
+    }
+  }
+
+  /**
+   * Premier usage du registre : reprise des actes existants dans l'ordre du minutier
+   */
+  private async reprendreExistant(client: PoolClient, notaireId: string, acteExclu: string | null): Promise<EntreeRegistreMinutier | null> {
+    const result = await client.query(`
+      SELECT ${COLONNES_ACTE} FROM actes_authentiques
+      WHERE notaire_id = $1 AND ($2::uuid IS NULL OR id <> $2)
+      ORDER BY date_acte, created_at, numero_minutier
+    `, [notaireId, acteExclu]);
+
+    let precedente: EntreeRegistreMinutier | null = null;
+    for (const row of result.rows) {
+      precedente = chainerEntree(precedente, notaireId, 'reprise', this.mapRowToActeChaine(row), new Date());
+      await this.insererEntree(client, precedente);
+    }
+
+    if (precedente) {
+      logger.info('Actes existants repris dans le registre du minutier', { notaireId, nombre: result.rows.length });
+    }
+    return precedente;
+  }
+
+  private async derniereEntree(client: PoolClient, notaireId: string): Promise<EntreeRegistreMinutier | null> {
+    const result = await client.query(
+      'SELECT * FROM registre_minutier WHERE notaire_id = $1 ORDER BY sequence DESC LIMIT 1',
+      [notaireId]
+    );
+    return result.rows[0] ? this.mapRowToEntree(result.rows[0]) : null;
+  }
+
+  private async insererEntree(client: PoolClient, entree: EntreeRegistreMinutier): Promise<void> {
+    await client.query(`
+      INSERT INTO registre_minutier (
+        notaire_id, sequence, type_evenement, acte_id, numero_minutier, numero_repertoire,
+        hash_acte, horodatage, hash_precedent, hash_entree
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      entree.notaireId,
+      entree.sequence,
+      entree.typeEvenement,
+      entree.acteId,
+      entree.numeroMinutier,
+      entree.numeroRepertoire,
+      entree.hashActe,
+      entree.horodatage,
+      entree.hashPrecedent,
+      entree.hashEntree
+    ]);
+  }
+
+  private mapRowToActeChaine(row: any): ActeChaine {
+    return {
+      id: row.id,
+      numeroMinutier: row.numero_minutier,
+      numeroRepertoire: row.numero_repertoire,
+      dateActe: row.date_acte,
+      typeActe: row.type_acte,
+      objet: row.objet,
+      parties: row.parties,
+      contenuChiffre: row.contenu_chiffre,
+      hashIntegrite: row.hash_integrite
+    };
+  }
+
+  private mapRowToEntree(row: any): EntreeRegistreMinutier {
+    return {
+      notaireId: row.notaire_id,
+      sequence: Number(row.sequence),
+      typeEvenement: row.type_evenement,
+      acteId: row.acte_id,
+      numeroMinutier: row.numero_minutier,
+      numeroRepertoire: row.numero_repertoire,
+      hashActe: row.hash_acte,
+      horodatage: new Date(row.horodatage),
+      hashPrecedent: row.hash_precedent,
+      hashEntree: row.hash_entree
+    };
+  }
+
+  private mapRowToPointControle(row: any): PointControleMinutier {
+    return {
+      notaireId: row.notaire_id,
+      datePoint: row.date_point,
+      sequence: Number(row.sequence),
+      hashTete: row.hash_tete,
+      signature: row.signature,
+      certificatPem: row.certificat_pem,
+      creeLe: new Date(row.created_at)
+    };
+  }
+}
+// Create and export instance
+import { db } from '@/database/connection';
+export const minutierChainService = new MinutierChainService(db);
@@ -20,12 +20,53 @@ import {
   StatutCopie,
   AlerteMinutier,
   TypeAlerte,
-  PrioriteAlerte
+  PrioriteAlerte,
+  TypeCachet,
+  VerificationCopieRequest,
+  VerificationCopieConforme,
+  ChampTriMinutier,
+  OrdreTriMinutier,
+  PeriodeStatistiques
 } from '../types/minutier.js';
 import { logger } from '../utils/logger.js';
+import { NotarialCertificateService, CertificatSignataire } from './notarialCertificateService.js';
+import { MinutierChainService } from './minutierChainService.js';
+import {
+  ALGORITHME_SIGNATURE,
+  analyserChargeQr,
+  construireChargeQr,
+  empreinteContenu,
+  evaluerCopieConforme,
+  resumeCertificat,
+  signerCopie,
+  ReferenceCopie
+} from './notarialPki.js';
+import {
+  FormatRepertoire,
+  IdentiteNotaire,
+  nomFichierRepertoire,
+  renderRepertoireCsv,
+  renderRepertoirePdf,
+  verifierContinuiteRepertoire
+} from './repertoireRenderer.js';
+
+/** Anomalies de la chaîne qui rendent la numérotation du répertoire douteuse */
+const ANOMALIES_BLOQUANT_REPERTOIRE = new Set([
+  'sequence_manquante',
+  'rupture_chaine',
+  'numerotation_lacunaire',
+  'acte_supprime',
+  'acte_renumerote'
+]);
 
 export class MinutierService {
-  constructor(private db: Pool) {}
+  private certificats: NotarialCertificateService;
+  private chaine: MinutierChainService;
+
+  constructor(private db: Pool) {
+    this.certificats = new NotarialCertificateService(db);
+    this.chaine = new MinutierChainService(db);
+  }
 
   /**
    * Créer un nouvel acte authentique avec numérotation automatique
@@ -36,6 +77,9 @@ export class MinutierService {
     try {
       await client.query('BEGIN');
 
+      // Numérotation et inscription au registre sans concurrence pour ce notaire
+      await this.chaine.verrouiller(client, notaireId);
+
       // Générer le numéro de minutier automatique
       const numeroMinutier = await this.genererNumeroMinutier(client, notaireId);
       const numeroRepertoire = await this.genererNumeroRepertoire(client, notaireId);
@@ -113,6 +157,9 @@ export class MinutierService {
       // Créer les sauvegardes initiales
       await this.creerSauvegardesInitiales(client, acteId);
 
+      // Inscrire l'acte dans la chaîne du minutier et du répertoire
+      await this.chaine.inscrire(client, notaireId, acteId, 'inscription');
+
       await client.query('COMMIT');
 
       const acte = await this.obtenirActeParId(acteId);
@@ -353,12 +400,14 @@ export class MinutierService {
       ]);
 
       const copieId = copieResult.rows[0].id;
+      const reference = { id: copieId, numeroCopie, hashCopie };
 
-      // Créer la signature du notaire
-      await this.signerCopieConforme(client, copieId, notaireId);
+      // Créer la signature du notaire avec son certificat
+      const certificat = await this.certificats.obtenirCertificatSignataire(client, notaireId);
+      await this.signerCopieConforme(client, reference, notaireId, certificat);
 
       // Ajouter les cachets notariaux
-      await this.appliquerCachetsNotariaux(client, copieId);
+      await this.appliquerCachetsNotariaux(client, reference, certificat);
 
       await client.query('COMMIT');
 
@@ -381,6 +430,109 @@ export class MinutierService {
     }
   }
 
+  /**
+   * Vérifier publiquement une copie conforme par son code QR ou son numéro
+   * Le contenu présenté, s'il est fourni, est comparé à la copie délivrée.
+   */
+  async verifierCopieConforme(requete: VerificationCopieRequest): Promise<VerificationCopieConforme | null> {
+    try {
+      let critere: { copieId: string } | { numeroCopie: string; numeroMinutier: string | null };
+      let hashPresente: string | undefined;
+
+      if (requete.qr) {
+        const charge = analyserChargeQr(requete.qr);
+        if (!charge) {
+          throw new Error('Code QR de copie conforme invalide');
+        }
+        critere = { copieId: charge.id };
+        hashPresente = charge.hashCopie;
+      } else if (requete.numeroCopie) {
+        critere = { numeroCopie: requete.numeroCopie.trim().toUpperCase(), numeroMinutier: requete.numeroMinutier?.trim() || null };
+      } else {
+        throw new Error('Numéro de copie ou code QR requis');
+      }
+
+      if (typeof requete.contenu === 'string') {
+        hashPresente = empreinteContenu(requete.contenu);
+      }
+
+      const result = await this.db.query(`
+        SELECT cc.*, aa.numero_minutier,
+               sn.nom_notaire, sn.date_signature, sn.signature_numerique, sn.certificat,
+               cn.date_revocation, cn.motif_revocation, ac.certificat_pem AS autorite_pem
+        FROM copies_conformes cc
+        JOIN actes_authentiques aa ON aa.id = cc.acte_id
+        LEFT JOIN signatures_notaire sn ON sn.copie_id = cc.id
+        LEFT JOIN certificats_notaire cn ON cn.id = sn.certificat_id
+        LEFT JOIN autorites_certification ac ON ac.id = cn.autorite_id
+        WHERE ${'copieId' in critere ? 'cc.id = $1' : 'cc.numero_copie = $1 AND ($2::text IS NULL OR aa.numero_minutier = $2)'}
+        LIMIT 2
+      `, 'copieId' in critere ? [critere.copieId] : [critere.numeroCopie, critere.numeroMinutier]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+      if (result.rows.length > 1) {
+        throw new Error('Numéro de copie ambigu : préciser le numéro de minutier');
+      }
+
+      const row = result.rows[0];
+      const cachets = await this.db.query('SELECT type, empreinte FROM cachets_notariaux WHERE copie_id = $1', [row.id]);
+
+      const evaluation = evaluerCopieConforme({
+        copie: {
+          id: row.id,
+          numeroCopie: row.numero_copie,
+          hashCopie: row.hash_copie,
+          contenuCopie: row.contenu_copie,
+          annulee: row.statut === StatutCopie.ANNULEE || row.validite_juridique === false
+        },
+        signature: row.signature_numerique ? {
+          signatureNumerique: row.signature_numerique,
+          certificatPem: row.certificat,
+          dateSignature: new Date(row.date_signature)
+        } : null,
+        cachets: cachets.rows,
+        autoritePem: row.autorite_pem ?? null,
+        revocation: row.date_revocation
+          ? { date: new Date(row.date_revocation), ...(row.motif_revocation ? { motif: row.motif_revocation } : {}) }
+          : null,
+        ...(hashPresente ? { hashPresente } : {})
+      });
+
+      let certificat: VerificationCopieConforme['certificat'];
+      if (row.autorite_pem) {
+        certificat = { ...resumeCertificat(row.certificat), revoque: !!row.date_revocation };
+      }
+
+      logger.info('Vérification publique d\'une copie conforme', {
+        copieId: row.id,
+        authentique: evaluation.authentique,
+        inalteree: evaluation.inalteree
+      });
+
+      return {
+        authentique: evaluation.authentique,
+        inalteree: evaluation.inalteree,
+        copie: {
+          numeroCopie: row.numero_copie,
+          typeCopie: row.type_copie,
+          numeroMinutier: row.numero_minutier,
+          dateGeneration: new Date(row.date_generation),
+          statut: row.statut,
+          hashCopie: row.hash_copie,
+          ...(row.nom_notaire ? { nomNotaire: row.nom_notaire } : {})
+        },
+        ...(certificat ? { certificat } : {}),
+        cachetsVerifies: evaluation.cachetsVerifies as TypeCachet[],
+        anomalies: evaluation.anomalies
+      };
+    } catch (error) {
+      logger.error('Erreur lors de la vérification de la copie conforme', { error, numeroCopie: requete.numeroCopie });
+      throw error;
+    }
+  }
+
   /**
    * Archiver un acte avec sauvegardes multiples
    */
@@ -428,6 +580,8 @@ export class MinutierService {
         await this.creerSauvegarde(client, request.acteId, typeSauvegarde);
       }
 
+      await this.chaine.inscrire(client, notaireId, request.acteId, 'archivage');
+
       await client.query('COMMIT');
 
       logger.info('Acte archivé avec succès', { 
@@ -477,6 +631,69 @@ export class MinutierService {
     }
   }
 
+  /**
+   * Générer le répertoire annuel des actes (PDF imprimable ou CSV), après
+   * contrôle de la continuité de la numérotation et de la chaîne du minutier
+   */
+  async genererRepertoireAnnuel(
+    notaireId: string,
+    annee: number,
+    format: FormatRepertoire
+  ): Promise<{ contenu: Buffer; nomFichier: string; typeMime: string }> {
+    try {
+      const periode = { dateDebut: new Date(annee, 0, 1), dateFin: new Date(annee, 11, 31) };
+
+      const actes: ActeAuthentique[] = [];
+      for (let page = 1; ; page++) {
+        const resultat = await this.rechercherActes({
+          ...periode,
+          page,
+          limite: 100,
+          tri: { champ: ChampTriMinutier.NUMERO_REPERTOIRE, ordre: OrdreTriMinutier.ASC }
+        }, notaireId);
+        actes.push(...resultat.actes);
+        if (page >= resultat.totalPages) {
+          break;
+        }
+      }
+
+      const [statistiques, chaine, notaire] = await Promise.all([
+        this.obtenirStatistiques(notaireId, periode),
+        this.chaine.verifierChaine(notaireId),
+        this.obtenirIdentiteNotaire(notaireId)
+      ]);
+
+      const anomalies = [
+        ...verifierContinuiteRepertoire(actes.map(acte => acte.numeroRepertoire), annee),
+        ...chaine.anomalies
+          .filter(anomalie => ANOMALIES_BLOQUANT_REPERTOIRE.has(anomalie.type))
+          .map(anomalie => anomalie.message)
+      ];
+      if (anomalies.length > 0) {
+        logger.warn('Répertoire annuel refusé', { notaireId, annee, anomalies });
+        throw new Error(`Répertoire ${annee} incomplet : ${anomalies.join(' ; ')}`);
+      }
+
+      const repertoire = {
+        annee,
+        notaire,
+        actes,
+        statistiques,
+        ...(chaine.hashTete ? { hashTete: chaine.hashTete } : {}),
+        genereLe: new Date()
+      };
+
+      logger.info('Répertoire annuel généré', { notaireId, annee, format, nombreActes: actes.length });
+
+      return format === 'pdf'
+        ? { contenu: await renderRepertoirePdf(repertoire), nomFichier: nomFichierRepertoire(annee, format), typeMime: 'application/pdf' }
+        : { contenu: renderRepertoireCsv(repertoire), nomFichier: nomFichierRepertoire(annee, format), typeMime: 'text/csv; charset=utf-8' };
+    } catch (error) {
+      logger.error('Erreur lors de la génération du répertoire annuel', { error, notaireId, annee });
+      throw error;
+    }
+  }
+
   // Méthodes privées
 
   private async genererNumeroMinutier(client: any, notaireId: string): Promise<string> {
@@ -669,10 +886,10 @@ export class MinutierService {
       dateActe: new Date(row.date_acte),
       typeActe: row.type_acte,
       objet: row.objet,
-      parties: JSON.parse(row.parties),
+      parties: typeof row.parties === 'string' ? JSON.parse(row.parties) : row.parties,
       notaireId: row.notaire_id,
       statut: row.statut,
-      metadonnees: JSON.parse(row.metadonnees || '{}'),
+      metadonnees: typeof row.metadonnees === 'string' ? JSON.parse(row.metadonnees) : row.metadonnees || {},
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     } as ActeAuthentique;
@@ -682,6 +899,8 @@ export class MinutierService {
     const mapping: Record<string, string> = {
       'date_acte': 'aa.date_acte',
       'numero_minutier': 'aa.numero_minutier',
+      // Rang numérique : REP-2026-10000 doit suivre REP-2026-9999
+      'numero_repertoire': 'CAST(SUBSTRING(aa.numero_repertoire FROM \'[0-9]+$\') AS INTEGER)',
       'type_acte': 'aa.type_acte',
       'parties': 'aa.parties',
       'montant': '(aa.metadonnees->>\'montant\')::numeric',
@@ -713,18 +932,94 @@ export class MinutierService {
   }
 
   // Méthodes pour le tableau de bord
-  private async obtenirStatistiques(notaireId: string): Promise<StatistiquesMinutier> {
-    // Implémentation simplifiée
+  private async obtenirStatistiques(notaireId: string, periode?: PeriodeStatistiques): Promise<StatistiquesMinutier> {
+    const annee = new Date().getFullYear();
+    const { dateDebut, dateFin } = periode ?? { dateDebut: new Date(annee, 0, 1), dateFin: new Date(annee, 11, 31) };
+    const params = [notaireId, dateDebut, dateFin];
+    const montant = `(aa.metadonnees->>'montant')::numeric`;
+
+    const [parType, parMois, copies, clients] = await Promise.all([
+      this.db.query(`
+        SELECT aa.type_acte, COUNT(*) AS nombre, COALESCE(SUM(${montant}), 0) AS montant_total, COUNT(${montant}) AS nombre_montants
+        FROM actes_authentiques aa
+        WHERE aa.notaire_id = $1 AND aa.date_acte BETWEEN $2 AND $3
+        GROUP BY aa.type_acte
+      `, params),
+      this.db.query(`
+        SELECT to_char(aa.date_acte, 'YYYY-MM') AS mois, COUNT(*) AS nombre, COALESCE(SUM(${montant}), 0) AS montant_total
+        FROM actes_authentiques aa
+        WHERE aa.notaire_id = $1 AND aa.date_acte BETWEEN $2 AND $3
+        GROUP BY mois
+        ORDER BY mois
+      `, params),
+      this.db.query(`
+        SELECT COUNT(*) AS nombre
+        FROM copies_conformes cc
+        JOIN actes_authentiques aa ON aa.id = cc.acte_id
+        WHERE aa.notaire_id = $1 AND aa.date_acte BETWEEN $2 AND $3
+      `, params),
+      this.db.query(`
+        SELECT trim(concat_ws(' ', p->>'prenom', p->>'nom')) AS nom, COUNT(DISTINCT aa.id) AS nombre,
+               COALESCE(SUM(${montant}), 0) AS montant_total
+        FROM actes_authentiques aa, jsonb_array_elements(aa.parties) p
+        WHERE aa.notaire_id = $1 AND aa.date_acte BETWEEN $2 AND $3
+        GROUP BY 1
+        ORDER BY nombre DESC, montant_total DESC
+        LIMIT 10
+      `, params)
+    ]);
+
+    const repartitionTypeActe = Object.fromEntries(Object.values(TypeActe).map(type => [type, 0])) as Record<TypeActe, number>;
+    let nombreActes = 0;
+    let montantTotal = 0;
+    let nombreMontants = 0;
+    for (const row of parType.rows) {
+      repartitionTypeActe[row.type_acte as TypeActe] = Number(row.nombre);
+      nombreActes += Number(row.nombre);
+      montantTotal += Number(row.montant_total);
+      nombreMontants += Number(row.nombre_montants);
+    }
+
     return {
       notaireId,
-      periode: { dateDebut: new Date(), dateFin: new Date() },
-      nombreActes: 0,
-      repartitionTypeActe: {} as Record<TypeActe, number>,
-      montantTotal: 0,
-      montantMoyen: 0,
-      nombreCopies: 0,
-      evolutionMensuelle: [],
-      topClients: []
+      periode: { dateDebut, dateFin },
+      nombreActes,
+      repartitionTypeActe,
+      montantTotal,
+      montantMoyen: nombreMontants > 0 ? montantTotal / nombreMontants : 0,
+      nombreCopies: Number(copies.rows[0]?.nombre ?? 0),
+      evolutionMensuelle: parMois.rows.map(row => ({
+        mois: row.mois,
+        nombreActes: Number(row.nombre),
+        montantTotal: Number(row.montant_total)
+      })),
+      topClients: clients.rows.map(row => ({
+        nom: row.nom,
+        nombreActes: Number(row.nombre),
+        montantTotal: Number(row.montant_total)
+      }))
+    };
+  }
+
+  private async obtenirIdentiteNotaire(notaireId: string): Promise<IdentiteNotaire> {
+    const result = await this.db.query(`
+      SELECT u.first_name, u.last_name, e.nom AS nom_etude, e.adresse, e.numero_agrement, e.chambre_notaires
+      FROM users u
+      LEFT JOIN etudes_notariales e ON e.notaire_id = u.id
+      WHERE u.id = $1
+    `, [notaireId]);
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error('Notaire non trouvé');
+    }
+
+    const adresse = typeof row.adresse === 'string' ? JSON.parse(row.adresse) : row.adresse ?? {};
+    return {
+      nom: `${row.first_name ?? ''} ${row.last_name ?? ''}`.trim(),
+      ...(row.nom_etude ? { etude: row.nom_etude } : {}),
+      ...(adresse.ville ? { ville: adresse.ville } : {}),
+      ...(row.numero_agrement ? { numeroAgrement: row.numero_agrement } : {}),
+      ...(row.chambre_notaires ? { chambreNotaires: row.chambre_notaires } : {})
     };
   }
 
@@ -775,8 +1070,55 @@ export class MinutierService {
   }
 
   private async obtenirCopieParId(copieId: string): Promise<CopieConforme | null> {
-    // Implémentation simplifiée
-    return null;
+    const result = await this.db.query(`
+      SELECT cc.*, sn.nom_notaire, sn.date_signature, sn.signature_numerique, sn.certificat,
+             sn.certificat_id, sn.algorithme, sn.hash_signe
+      FROM copies_conformes cc
+      LEFT JOIN signatures_notaire sn ON sn.copie_id = cc.id
+      WHERE cc.id = $1
+    `, [copieId]);
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const cachets = await this.db.query(
+      'SELECT * FROM cachets_notariaux WHERE copie_id = $1 ORDER BY date_apposition',
+      [copieId]
+    );
+
+    return {
+      id: row.id,
+      acteId: row.acte_id,
+      typeCopie: row.type_copie,
+      numeroCopie: row.numero_copie,
+      dateGeneration: new Date(row.date_generation),
+      demandeur: row.demandeur,
+      notaireId: row.notaire_id,
+      contenuCopie: row.contenu_copie,
+      signatureNotaire: {
+        notaireId: row.notaire_id,
+        nomNotaire: row.nom_notaire,
+        dateSignature: new Date(row.date_signature),
+        signatureNumerique: row.signature_numerique,
+        certificat: row.certificat,
+        ...(row.certificat_id ? { certificatId: row.certificat_id } : {}),
+        ...(row.algorithme ? { algorithme: row.algorithme } : {}),
+        ...(row.hash_signe ? { hashSigne: row.hash_signe } : {})
+      },
+      cachets: cachets.rows.map(cachet => ({
+        id: cachet.id,
+        type: cachet.type,
+        empreinte: cachet.empreinte,
+        dateApposition: new Date(cachet.date_apposition),
+        coordonnees: cachet.coordonnees
+      })),
+      statut: row.statut,
+      validiteJuridique: row.validite_juridique,
+      hashCopie: row.hash_copie,
+      chargeQr: construireChargeQr({ id: row.id, hashCopie: row.hash_copie })
+    };
   }
 
   private async genererNumeroCopie(client: any, acteId: string, typeCopie: TypeCopie): Promise<string> {
@@ -813,27 +1155,48 @@ export class MinutierService {
     return contenu;
   }
 
-  private async signerCopieConforme(client: any, copieId: string, notaireId: string): Promise<void> {
-    const signatureNumerique = crypto.randomBytes(64).toString('hex');
-    const certificat = crypto.randomBytes(32).toString('hex');
+  private async signerCopieConforme(
+    client: any,
+    copie: ReferenceCopie,
+    notaireId: string,
+    certificat: CertificatSignataire
+  ): Promise<void> {
+    const signatureNumerique = signerCopie(certificat.clePrivee, copie, 'signature');
 
     await client.query(`
-      INSERT INTO signatures_notaire (copie_id, notaire_id, signature_numerique, certificat)
-      VALUES ($1, $2, $3, $4)
-    `, [copieId, notaireId, signatureNumerique, certificat]);
+      INSERT INTO signatures_notaire (
+        copie_id, notaire_id, nom_notaire, signature_numerique, certificat, certificat_id, algorithme, hash_signe
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      copie.id,
+      notaireId,
+      certificat.titulaire,
+      signatureNumerique,
+      certificat.certificatPem,
+      certificat.id,
+      ALGORITHME_SIGNATURE,
+      copie.hashCopie
+    ]);
+
+    await client.query('UPDATE copies_conformes SET statut = $1 WHERE id = $2', [StatutCopie.SIGNEE, copie.id]);
   }
 
-  private async appliquerCachetsNotariaux(client: any, copieId: string): Promise<void> {
-    const cachets = [
-      { type: 'cachet_etude', empreinte: crypto.randomBytes(16).toString('hex') },
-      { type: 'sceau_electronique', empreinte: crypto.randomBytes(16).toString('hex') }
-    ];
+  private async appliquerCachetsNotariaux(
+    client: any,
+    copie: ReferenceCopie,
+    certificat: CertificatSignataire
+  ): Promise<void> {
+    // Chaque cachet est une signature distincte de la même empreinte
+    const cachets = [TypeCachet.CACHET_ETUDE, TypeCachet.SCEAU_ELECTRONIQUE].map(type => ({
+      type,
+      empreinte: signerCopie(certificat.clePrivee, copie, type)
+    }));
 
     for (const cachet of cachets) {
       await client.query(`
-        INSERT INTO cachets_notariaux (copie_id, type, empreinte, coordonnees)
-        VALUES ($1, $2, $3, $4)
-      `, [copieId, cachet.type, cachet.empreinte, JSON.stringify({ x: 100, y: 100, page: 1 })]);
+        INSERT INTO cachets_notariaux (copie_id, type, empreinte, coordonnees, certificat_id)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [copie.id, cachet.type, cachet.empreinte, JSON.stringify({ x: 100, y: 100, page: 1 }), certificat.id]);
     }
   }
 }
@@ -0,0 +1,212 @@
+import { Pool, PoolClient } from 'pg';
+import crypto from 'crypto';
+import { CertificatNotaire, StatutCertificat } from '../types/minutier.js';
+import { config } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import {
+  AutoriteSignataire,
+  chargerClePrivee,
+  creerAutoriteCertification,
+  emettreCertificatNotaire,
+  resumeCertificat
+} from './notarialPki.js';
+
+const VALIDITE_AUTORITE_JOURS = 10 * 365;
+const VALIDITE_NOTAIRE_JOURS = 2 * 365;
+/** Un certificat qui expire dans moins d'un mois est renouvelé avant de signer */
+const MARGE_RENOUVELLEMENT_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CertificatSignataire {
+  id: string;
+  numeroSerie: string;
+  titulaire: string;
+  certificatPem: string;
+  clePrivee: crypto.KeyObject;
+}
+
+/**
+ * Magasin des certificats des notaires
+ *
+ * L'autorité de certification locale est créée au premier besoin ; chaque notaire
+ * reçoit un certificat actif, renouvelé à l'approche de son expiration. Les clés
+ * privées sont conservées chiffrées par la clé de chiffrement du serveur.
+ */
+export class NotarialCertificateService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Certificat actif du notaire, émis ou renouvelé si nécessaire
+   */
+  async obtenirCertificatSignataire(client: PoolClient, notaireId: string): Promise<CertificatSignataire> {
+    const actif = await client.query(`
+      SELECT * FROM certificats_notaire
+      WHERE notaire_id = $1 AND statut = $2
+    `, [notaireId, StatutCertificat.ACTIF]);
+
+    let row = actif.rows[0];
+    if (row && new Date(row.valide_au).getTime() - Date.now() < MARGE_RENOUVELLEMENT_MS) {
+      await client.query('UPDATE certificats_notaire SET statut = $1 WHERE id = $2', [StatutCertificat.EXPIRE, row.id]);
+      row = undefined;
+    }
+    if (!row) {
+      row = await this.emettreCertificat(client, notaireId);
+    }
+
+    return {
+      id: row.id,
+      numeroSerie: row.numero_serie,
+      titulaire: row.titulaire,
+      certificatPem: row.certificat_pem,
+      clePrivee: chargerClePrivee(row.cle_privee_chiffree, config.encryption.key)
+    };
+  }
+
+  /**
+   * Certificat de l'autorité, publié pour la vérification hors ligne
+   */
+  async obtenirCertificatAutorite(): Promise<string | null> {
+    const result = await this.db.query('SELECT certificat_pem FROM autorites_certification WHERE active = true');
+    return result.rows[0]?.certificat_pem ?? null;
+  }
+
+  async listerCertificats(notaireId: string): Promise<CertificatNotaire[]> {
+    const result = await this.db.query(`
+      SELECT * FROM certificats_notaire
+      WHERE notaire_id = $1
+      ORDER BY valide_du DESC
+    `, [notaireId]);
+
+    return result.rows.map(row => this.mapRowToCertificat(row));
+  }
+
+  /**
+   * Révoquer un certificat ; la prochaine copie signée en émettra un nouveau
+   */
+  async revoquerCertificat(certificatId: string, notaireId: string, motif: string): Promise<CertificatNotaire> {
+    try {
+      const result = await this.db.query(`
+        UPDATE certificats_notaire
+        SET statut = $1, date_revocation = CURRENT_TIMESTAMP, motif_revocation = $2
+        WHERE id = $3 AND notaire_id = $4 AND statut <> $1
+        RETURNING *
+      `, [StatutCertificat.REVOQUE, motif, certificatId, notaireId]);
+
+      if (result.rows.length === 0) {
+        throw new Error('Certificat non trouvé ou déjà révoqué');
+      }
+
+      logger.warn('Certificat de notaire révoqué', { certificatId, notaireId, motif });
+      return this.mapRowToCertificat(result.rows[0]);
+    } catch (error) {
+      logger.error('Erreur lors de la révocation du certificat', { error, certificatId, notaireId });
+      throw error;
+    }
+  }
+
+  private async emettreCertificat(client: PoolClient, notaireId: string): Promise<any> {
+    const autorite = await this.obtenirAutorite(client);
+
+    const identite = await client.query(`
+      SELECT u.first_name, u.last_name, e.nom AS nom_etude, e.numero_agrement
+      FROM users u
+      LEFT JOIN etudes_notariales e ON e.notaire_id = u.id
+      WHERE u.id = $1
+    `, [notaireId]);
+    const notaire = identite.rows[0];
+    if (!notaire) {
+      throw new Error('Notaire non trouvé');
+    }
+
+    const emis = emettreCertificatNotaire(autorite.signataire, {
+      nomCommun: `Maître ${notaire.first_name} ${notaire.last_name}`.trim(),
+      ...(notaire.nom_etude ? { organisation: notaire.nom_etude } : {}),
+      ...(notaire.numero_agrement ? { numeroSerie: notaire.numero_agrement } : {}),
+      pays: 'DZ'
+    }, { phraseSecrete: config.encryption.key, validiteJours: VALIDITE_NOTAIRE_JOURS });
+    const { titulaire, emetteur } = resumeCertificat(emis.certificatPem);
+
+    // Un seul certificat actif par notaire : en cas d'émission concurrente, le premier l'emporte
+    await client.query(`
+      INSERT INTO certificats_notaire (
+        notaire_id, autorite_id, numero_serie, titulaire, emetteur, certificat_pem,
+        cle_privee_chiffree, empreinte_sha256, valide_du, valide_au, statut
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (notaire_id) WHERE statut = 'actif' DO NOTHING
+    `, [
+      notaireId,
+      autorite.id,
+      emis.numeroSerie,
+      titulaire,
+      emetteur,
+      emis.certificatPem,
+      emis.clePriveeChiffree,
+      emis.empreinteSha256,
+      emis.valideDu,
+      emis.valideAu,
+      StatutCertificat.ACTIF
+    ]);
+
+    const result = await client.query(
+      'SELECT * FROM certificats_notaire WHERE notaire_id = $1 AND statut = $2',
+      [notaireId, StatutCertificat.ACTIF]
+    );
+    logger.info('Certificat de notaire émis', { notaireId, numeroSerie: result.rows[0].numero_serie });
+    return result.rows[0];
+  }
+
+  private async obtenirAutorite(client: PoolClient): Promise<{ id: string; signataire: AutoriteSignataire }> {
+    let result = await client.query('SELECT * FROM autorites_certification WHERE active = true');
+
+    if (result.rows.length === 0) {
+      const autorite = creerAutoriteCertification({
+        nomCommun: 'Autorité de certification notariale JuristDZ',
+        organisation: 'JuristDZ',
+        pays: 'DZ'
+      }, { phraseSecrete: config.encryption.key, validiteJours: VALIDITE_AUTORITE_JOURS });
+
+      await client.query(`
+        INSERT INTO autorites_certification (
+          nom, certificat_pem, cle_privee_chiffree, numero_serie, empreinte_sha256, valide_du, valide_au
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (active) WHERE active = true DO NOTHING
+      `, [
+        resumeCertificat(autorite.certificatPem).titulaire,
+        autorite.certificatPem,
+        autorite.clePriveeChiffree,
+        autorite.numeroSerie,
+        autorite.empreinteSha256,
+        autorite.valideDu,
+        autorite.valideAu
+      ]);
+
+      result = await client.query('SELECT * FROM autorites_certification WHERE active = true');
+      logger.info('Autorité de certification locale créée', { numeroSerie: result.rows[0].numero_serie });
+    }
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      signataire: {
+        certificatPem: row.certificat_pem,
+        clePrivee: chargerClePrivee(row.cle_privee_chiffree, config.encryption.key)
+      }
+    };
+  }
+
+  private mapRowToCertificat(row: any): CertificatNotaire {
+    return {
+      id: row.id,
+      notaireId: row.notaire_id,
+      numeroSerie: row.numero_serie,
+      titulaire: row.titulaire,
+      emetteur: row.emetteur,
+      empreinteSha256: row.empreinte_sha256,
+      valideDu: new Date(row.valide_du),
+      valideAu: new Date(row.valide_au),
+      statut: row.statut,
+      ...(row.date_revocation ? { dateRevocation: new Date(row.date_revocation) } : {}),
+      ...(row.motif_revocation ? { motifRevocation: row.motif_revocation } : {}),
+      certificatPem: row.certificat_pem
+    };
+  }
+}
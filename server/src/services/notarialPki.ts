@@ -0,0 +1,465 @@
+import crypto from 'crypto';
+
+/**
+ * Infrastructure de clés des notaires
+ *
+ * Une autorité de certification locale, qui tient lieu du prestataire de
+ * confiance national, émet un certificat X.509 (ECDSA P-256) à chaque notaire.
+ * Les copies conformes sont signées sur leur empreinte SHA-256 exacte ; la
+ * vérification ne dépend que des certificats et de Node (X509Certificate).
+ */
+
+export const ALGORITHME_SIGNATURE = 'ECDSA-P256-SHA256';
+export const PREFIXE_QR = 'JURISTDZ:CC:1';
+
+const OID = {
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  pays: '2.5.4.6',
+  organisation: '2.5.4.10',
+  unite: '2.5.4.11',
+  nomCommun: '2.5.4.3',
+  numeroSerie: '2.5.4.5',
+  contraintesDeBase: '2.5.29.19',
+  usageCle: '2.5.29.15',
+  identifiantCleSujet: '2.5.29.14',
+  identifiantCleAutorite: '2.5.29.35'
+};
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+export interface NomDistinctif {
+  nomCommun: string;
+  organisation?: string;
+  unite?: string;
+  numeroSerie?: string;
+  pays?: string;
+}
+
+export interface CertificatEmis {
+  certificatPem: string;
+  /** Clé privée PKCS#8 chiffrée par la phrase secrète fournie */
+  clePriveeChiffree: string;
+  numeroSerie: string;
+  empreinteSha256: string;
+  valideDu: Date;
+  valideAu: Date;
+}
+
+export interface OptionsEmission {
+  phraseSecrete: string;
+  validiteJours: number;
+  maintenant?: Date;
+}
+
+export interface AutoriteSignataire {
+  certificatPem: string;
+  clePrivee: crypto.KeyObject;
+}
+
+// ─── Encodage DER minimal ───────────────────────────────────────────────────
+
+function longueur(n: number): Buffer {
+  if (n < 0x80) {
+    return Buffer.from([n]);
+  }
+  const octets: number[] = [];
+  for (let reste = n; reste > 0; reste >>= 8) {
+    octets.unshift(reste & 0xff);
+  }
+  return Buffer.from([0x80 | octets.length, ...octets]);
+}
+
+function tlv(tag: number, ...contenus: Buffer[]): Buffer {
+  const contenu = Buffer.concat(contenus);
+  return Buffer.concat([Buffer.from([tag]), longueur(contenu.length), contenu]);
+}
+
+const sequence = (...contenus: Buffer[]) => tlv(0x30, ...contenus);
+const ensemble = (...contenus: Buffer[]) => tlv(0x31, ...contenus);
+const explicite = (numero: number, contenu: Buffer) => tlv(0xa0 + numero, contenu);
+const chaineOctets = (contenu: Buffer) => tlv(0x04, contenu);
+const chaineBits = (contenu: Buffer, bitsInutilises = 0) => tlv(0x03, Buffer.from([bitsInutilises]), contenu);
+const booleen = (valeur: boolean) => tlv(0x01, Buffer.from([valeur ? 0xff : 0x00]));
+
+function entier(valeur: Buffer): Buffer {
+  let octets = valeur;
+  while (octets.length > 1 && octets[0] === 0 && (octets[1]! & 0x80) === 0) {
+    octets = octets.subarray(1);
+  }
+  return tlv(0x02, (octets[0]! & 0x80) ? Buffer.concat([Buffer.from([0]), octets]) : octets);
+}
+
+function identifiantObjet(valeur: string): Buffer {
+  const [premier, second, ...suite] = valeur.split('.').map(Number);
+  const octets = [premier! * 40 + second!];
+  for (const arc of suite) {
+    const bloc = [arc & 0x7f];
+    for (let reste = Math.floor(arc / 128); reste > 0; reste = Math.floor(reste / 128)) {
+      bloc.unshift((reste & 0x7f) | 0x80);
+    }
+    octets.push(...bloc);
+  }
+  return tlv(0x06, Buffer.from(octets));
+}
+
+function temps(date: Date): Buffer {
+  // YYYYMMDDHHMMSSZ ; UTCTime jusqu'en 2049 (RFC 5280 §4.1.2.5)
+  const compact = date.toISOString().slice(0, 19).replace(/[-:T]/g, '') + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(compact.slice(2), 'ascii'))
+    : tlv(0x18, Buffer.from(compact, 'ascii'));
+}
+
+function nom(sujet: NomDistinctif): Buffer {
+  const attributs: Array<[string, Buffer]> = [];
+  if (sujet.pays) attributs.push([OID.pays, tlv(0x13, Buffer.from(sujet.pays, 'ascii'))]);
+  if (sujet.organisation) attributs.push([OID.organisation, tlv(0x0c, Buffer.from(sujet.organisation, 'utf8'))]);
+  if (sujet.unite) attributs.push([OID.unite, tlv(0x0c, Buffer.from(sujet.unite, 'utf8'))]);
+  attributs.push([OID.nomCommun, tlv(0x0c, Buffer.from(sujet.nomCommun, 'utf8'))]);
+  if (sujet.numeroSerie) attributs.push([OID.numeroSerie, tlv(0x13, Buffer.from(sujet.numeroSerie, 'ascii'))]);
+
+  return sequence(...attributs.map(([oid, valeur]) => ensemble(sequence(identifiantObjet(oid), valeur))));
+}
+
+function extension(oid: string, critique: boolean, valeur: Buffer): Buffer {
+  return sequence(identifiantObjet(oid), ...(critique ? [booleen(true)] : []), chaineOctets(valeur));
+}
+
+/**
+ * Éléments d'une SEQUENCE DER (valeurs encodées complètes, tag compris)
+ */
+function elementsSequence(der: Buffer): Buffer[] {
+  const lire = (position: number): { debut: number; fin: number } => {
+    let octet = der[position + 1]!;
+    let taille = octet;
+    let entete = 2;
+    if (octet & 0x80) {
+      const nombreOctets = octet & 0x7f;
+      taille = 0;
+      for (let i = 0; i < nombreOctets; i++) {
+        octet = der[position + 2 + i]!;
+        taille = taille * 256 + octet;
+      }
+      entete += nombreOctets;
+    }
+    return { debut: position + entete, fin: position + entete + taille };
+  };
+
+  const { debut, fin } = lire(0);
+  const elements: Buffer[] = [];
+  for (let position = debut; position < fin;) {
+    const element = lire(position);
+    elements.push(der.subarray(position, element.fin));
+    position = element.fin;
+  }
+  return elements;
+}
+
+function identifiantCle(cle: crypto.KeyObject): Buffer {
+  return crypto.createHash('sha1').update(cle.export({ type: 'spki', format: 'der' })).digest();
+}
+
+function numeroSerieAleatoire(): Buffer {
+  const serie = crypto.randomBytes(16);
+  serie[0] = (serie[0]! & 0x7f) | 0x01;
+  return serie;
+}
+
+function construireCertificat(params: {
+  sujet: Buffer;
+  emetteur: Buffer;
+  clePublique: crypto.KeyObject;
+  cleEmetteur: crypto.KeyObject;
+  identifiantCleEmetteur: Buffer;
+  autorite: boolean;
+  valideDu: Date;
+  valideAu: Date;
+}): { der: Buffer; numeroSerie: string } {
+  const serie = numeroSerieAleatoire();
+  const algorithme = sequence(identifiantObjet(OID.ecdsaWithSha256));
+
+  const extensions = [
+    extension(OID.contraintesDeBase, true, params.autorite ? sequence(booleen(true)) : sequence()),
+    // keyCertSign + cRLSign pour l'autorité ; digitalSignature + nonRepudiation pour le notaire
+    extension(OID.usageCle, true, params.autorite ? chaineBits(Buffer.from([0x06]), 1) : chaineBits(Buffer.from([0xc0]), 6)),
+    extension(OID.identifiantCleSujet, false, chaineOctets(identifiantCle(params.clePublique))),
+    extension(OID.identifiantCleAutorite, false, sequence(tlv(0x80, params.identifiantCleEmetteur)))
+  ];
+
+  const tbs = sequence(
+    explicite(0, entier(Buffer.from([2]))),
+    entier(serie),
+    algorithme,
+    params.emetteur,
+    sequence(temps(params.valideDu), temps(params.valideAu)),
+    params.sujet,
+    params.clePublique.export({ type: 'spki', format: 'der' }),
+    explicite(3, sequence(...extensions))
+  );
+
+  const signature = crypto.sign('sha256', tbs, params.cleEmetteur);
+  return {
+    der: sequence(tbs, algorithme, chaineBits(signature)),
+    numeroSerie: serie.toString('hex').toUpperCase()
+  };
+}
+
+function enPem(der: Buffer): string {
+  const base64 = der.toString('base64').match(/.{1,64}/g)!.join('\n');
+  return `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`;
+}
+
+function empreinte(certificatPem: string): string {
+  return new crypto.X509Certificate(certificatPem).fingerprint256.replace(/:/g, '').toLowerCase();
+}
+
+function periodeValidite(options: OptionsEmission): { valideDu: Date; valideAu: Date } {
+  const maintenant = options.maintenant ?? new Date();
+  // Tolérance d'une heure sur l'horloge des vérificateurs
+  const valideDu = new Date(Math.floor(maintenant.getTime() / 1000) * 1000 - 60 * 60 * 1000);
+  return { valideDu, valideAu: new Date(valideDu.getTime() + options.validiteJours * JOUR_MS) };
+}
+
+// ─── Autorité et certificats ────────────────────────────────────────────────
+
+/**
+ * Créer l'autorité de certification locale (certificat auto-signé)
+ */
+export function creerAutoriteCertification(sujet: NomDistinctif, options: OptionsEmission): CertificatEmis {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const { valideDu, valideAu } = periodeValidite(options);
+  const nomAutorite = nom(sujet);
+
+  const { der, numeroSerie } = construireCertificat({
+    sujet: nomAutorite,
+    emetteur: nomAutorite,
+    clePublique: publicKey,
+    cleEmetteur: privateKey,
+    identifiantCleEmetteur: identifiantCle(publicKey),
+    autorite: true,
+    valideDu,
+    valideAu
+  });
+
+  const certificatPem = enPem(der);
+  return {
+    certificatPem,
+    clePriveeChiffree: chiffrerClePrivee(privateKey, options.phraseSecrete),
+    numeroSerie,
+    empreinteSha256: empreinte(certificatPem),
+    valideDu,
+    valideAu
+  };
+}
+
+/**
+ * Émettre le certificat de signature d'un notaire, signé par l'autorité
+ */
+export function emettreCertificatNotaire(autorite: AutoriteSignataire, sujet: NomDistinctif, options: OptionsEmission): CertificatEmis {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const certificatAutorite = new crypto.X509Certificate(autorite.certificatPem);
+  const { valideDu, valideAu } = periodeValidite(options);
+
+  // Le sujet de l'autorité est recopié octet pour octet comme émetteur
+  const tbsAutorite = elementsSequence(certificatAutorite.raw)[0]!;
+  const sujetAutorite = elementsSequence(tbsAutorite)[5]!;
+
+  const { der, numeroSerie } = construireCertificat({
+    sujet: nom(sujet),
+    emetteur: sujetAutorite,
+    clePublique: publicKey,
+    cleEmetteur: autorite.clePrivee,
+    identifiantCleEmetteur: identifiantCle(certificatAutorite.publicKey),
+    autorite: false,
+    valideDu,
+    valideAu: new Date(Math.min(valideAu.getTime(), new Date(certificatAutorite.validTo).getTime()))
+  });
+
+  const certificatPem = enPem(der);
+  return {
+    certificatPem,
+    clePriveeChiffree: chiffrerClePrivee(privateKey, options.phraseSecrete),
+    numeroSerie,
+    empreinteSha256: empreinte(certificatPem),
+    valideDu,
+    valideAu: new Date(new crypto.X509Certificate(certificatPem).validTo)
+  };
+}
+
+export function chiffrerClePrivee(cle: crypto.KeyObject, phraseSecrete: string): string {
+  return cle.export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: phraseSecrete }) as string;
+}
+
+export function chargerClePrivee(clePriveeChiffree: string, phraseSecrete: string): crypto.KeyObject {
+  return crypto.createPrivateKey({ key: clePriveeChiffree, format: 'pem', passphrase: phraseSecrete });
+}
+
+/**
+ * Vérifier qu'un certificat a été émis par l'autorité et était valide à la date donnée
+ */
+export function verifierCertificat(certificatPem: string, autoritePem: string, date: Date): string | null {
+  try {
+    const certificat = new crypto.X509Certificate(certificatPem);
+    const autorite = new crypto.X509Certificate(autoritePem);
+
+    if (!autorite.ca || !autorite.verify(autorite.publicKey)) {
+      return 'Certificat de l\'autorité invalide';
+    }
+    if (!certificat.checkIssued(autorite) || !certificat.verify(autorite.publicKey)) {
+      return 'Certificat non émis par l\'autorité de certification';
+    }
+    if (date < new Date(certificat.validFrom) || date > new Date(certificat.validTo)) {
+      return 'Certificat hors de sa période de validité à la date de signature';
+    }
+    return null;
+  } catch {
+    return 'Certificat illisible';
+  }
+}
+
+export interface ResumeCertificat {
+  numeroSerie: string;
+  titulaire: string;
+  emetteur: string;
+  valideDu: Date;
+  valideAu: Date;
+}
+
+export function resumeCertificat(certificatPem: string): ResumeCertificat {
+  const certificat = new crypto.X509Certificate(certificatPem);
+  const nomCommun = (dn: string) => /(?:^|\n)CN=([^\n]*)/.exec(dn)?.[1] ?? dn;
+  return {
+    numeroSerie: certificat.serialNumber,
+    titulaire: nomCommun(certificat.subject),
+    emetteur: nomCommun(certificat.issuer),
+    valideDu: new Date(certificat.validFrom),
+    valideAu: new Date(certificat.validTo)
+  };
+}
+
+// ─── Signature des copies ───────────────────────────────────────────────────
+
+export interface ReferenceCopie {
+  id: string;
+  numeroCopie: string;
+  hashCopie: string;
+}
+
+/**
+ * Données signées : l'usage (signature ou cachet), l'identité de la copie et son empreinte exacte
+ */
+export function donneesSignees(copie: ReferenceCopie, usage: string): Buffer {
+  return Buffer.from(['JURISTDZ-COPIE-CONFORME-1', usage, copie.id, copie.numeroCopie, copie.hashCopie].join('\n'), 'utf8');
+}
+
+export function signerDonnees(clePrivee: crypto.KeyObject, donnees: Buffer): string {
+  return crypto.sign('sha256', donnees, { key: clePrivee, dsaEncoding: 'ieee-p1363' }).toString('base64');
+}
+
+export function verifierSignatureDonnees(certificatPem: string, donnees: Buffer, signature: string): boolean {
+  try {
+    const cle = new crypto.X509Certificate(certificatPem).publicKey;
+    return crypto.verify('sha256', donnees, { key: cle, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+export function signerCopie(clePrivee: crypto.KeyObject, copie: ReferenceCopie, usage: string): string {
+  return signerDonnees(clePrivee, donneesSignees(copie, usage));
+}
+
+export function verifierSignatureCopie(certificatPem: string, copie: ReferenceCopie, usage: string, signature: string): boolean {
+  return verifierSignatureDonnees(certificatPem, donneesSignees(copie, usage), signature);
+}
+
+export function empreinteContenu(contenu: string): string {
+  return crypto.createHash('sha256').update(contenu).digest('hex');
+}
+
+// ─── Code QR ────────────────────────────────────────────────────────────────
+
+export function construireChargeQr(copie: Pick<ReferenceCopie, 'id' | 'hashCopie'>): string {
+  return `${PREFIXE_QR}:${copie.id}:${copie.hashCopie}`;
+}
+
+export function analyserChargeQr(charge: string): Pick<ReferenceCopie, 'id' | 'hashCopie'> | null {
+  const match = /^JURISTDZ:CC:1:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}):([0-9a-f]{64})$/i.exec(charge.trim());
+  return match ? { id: match[1]!.toLowerCase(), hashCopie: match[2]!.toLowerCase() } : null;
+}
+
+// ─── Vérification d'une copie ───────────────────────────────────────────────
+
+export interface ElementsCopieAVerifier {
+  copie: ReferenceCopie & { contenuCopie: string; annulee: boolean };
+  signature: { signatureNumerique: string; certificatPem: string; dateSignature: Date } | null;
+  cachets: Array<{ type: string; empreinte: string }>;
+  autoritePem: string | null;
+  revocation: { date: Date; motif?: string } | null;
+  /** Empreinte portée par le code QR ou calculée sur le contenu présenté */
+  hashPresente?: string;
+}
+
+export interface ResultatVerification {
+  authentique: boolean;
+  inalteree: boolean;
+  cachetsVerifies: string[];
+  anomalies: string[];
+}
+
+/**
+ * Authentique : signature valide d'un certificat émis par l'autorité, non révoqué
+ * à la date de signature. Inaltérée : le contenu conservé, l'empreinte signée et,
+ * le cas échéant, l'empreinte présentée concordent.
+ */
+export function evaluerCopieConforme(elements: ElementsCopieAVerifier): ResultatVerification {
+  const { copie, signature } = elements;
+  const anomalies: string[] = [];
+
+  let inalteree = empreinteContenu(copie.contenuCopie) === copie.hashCopie;
+  if (!inalteree) {
+    anomalies.push('Le contenu conservé ne correspond plus à l\'empreinte de la copie');
+  }
+  if (elements.hashPresente && elements.hashPresente.toLowerCase() !== copie.hashCopie) {
+    inalteree = false;
+    anomalies.push('Le document présenté diffère de la copie délivrée');
+  }
+
+  let authentique = false;
+  const cachetsVerifies: string[] = [];
+
+  if (!signature) {
+    anomalies.push('Copie sans signature du notaire');
+  } else if (!elements.autoritePem) {
+    anomalies.push('Signature antérieure à la certification des notaires');
+  } else {
+    const erreurCertificat = verifierCertificat(signature.certificatPem, elements.autoritePem, signature.dateSignature);
+    if (erreurCertificat) {
+      anomalies.push(erreurCertificat);
+    } else if (!verifierSignatureCopie(signature.certificatPem, copie, 'signature', signature.signatureNumerique)) {
+      anomalies.push('Signature du notaire invalide pour cette copie');
+    } else if (elements.revocation && elements.revocation.date <= signature.dateSignature) {
+      anomalies.push('Certificat du notaire révoqué avant la signature');
+    } else {
+      authentique = true;
+      if (elements.revocation) {
+        anomalies.push('Certificat du notaire révoqué après la signature');
+      }
+    }
+
+    for (const cachet of elements.cachets) {
+      if (verifierSignatureCopie(signature.certificatPem, copie, cachet.type, cachet.empreinte)) {
+        cachetsVerifies.push(cachet.type);
+      } else {
+        anomalies.push(`Cachet ${cachet.type} invalide`);
+      }
+    }
+  }
+
+  if (copie.annulee) {
+    authentique = false;
+    anomalies.push('Copie annulée');
+  }
+
+  return { authentique, inalteree, cachetsVerifies, anomalies };
+}
@@ -30,10 +30,33 @@ import {
   EmailNotificationData,
   SMSNotificationData,
   PushNotificationData,
-  NotificationServiceResponse
+  NotificationServiceResponse,
+  NotificationFailure,
+  NotificationDeliverySettings,
+  UpdateNotificationDeliverySettingsRequest
 } from '@/types/notification';
+import { NotificationTransports, createNotificationTransports } from '@/services/notificationTransports';
+import { notificationStreamService } from '@/services/notificationStreamService';
+import {
+  DEFAULT_DELIVERY_SETTINGS,
+  isCriticalNotification,
+  isQuietTime,
+  nextAllowedTime,
+  nextDigestTime,
+  parseClockTime,
+  renderDigest
+} from '@/utils/notificationDigest';
+import { isValidTimezone } from '@/utils/reportSchedule';
 
 export class NotificationService {
+  private transports: NotificationTransports | null = null;
+
+  /**
+   * Remplace les transports (tests, ou configuration spécifique)
+   */
+  setTransports(transports: NotificationTransports): void {
+    this.transports = transports;
+  }
 
   /**
    * Create a new notification
@@ -153,17 +176,20 @@ export class NotificationService {
         return 0;
       }
 
-      // Get pending notifications
+      // Récapitulatifs arrivés à échéance
+      let processedCount = await this.processDueDigests();
+
+      // Get pending notifications (those held for a digest are sent by processDueDigests)
       const result = await db.query(
         `SELECT * FROM notifications 
-         WHERE status = $1 AND scheduled_at <= CURRENT_TIMESTAMP
+         WHERE status = $1 AND scheduled_at <= CURRENT_TIMESTAMP AND digest_at IS NULL
          ORDER BY priority DESC, scheduled_at ASC
          LIMIT $2`,
         [NotificationStatus.PENDING, batchSize]
       );
 
       const notifications = (result as any).rows.map((row: any) => this.mapRowToNotification(row));
-      let processedCount = 0;
+      const settingsByUser = new Map<string, NotificationDeliverySettings>();
 
       for (const notification of notifications) {
         try {
@@ -174,30 +200,41 @@ export class NotificationService {
             continue;
           }
 
+          // Regroupement et heures de silence (hors in-app et notifications critiques)
+          if (!settingsByUser.has(notification.recipientId)) {
+            settingsByUser.set(notification.recipientId, await this.getDeliverySettings(notification.recipientId));
+          }
+          const deferred = await this.applyDeliverySchedule(notification, settingsByUser.get(notification.recipientId)!);
+          if (deferred) {
+            continue;
+          }
+
           // Send notification
           const response = await this.sendNotification(notification);
           
           if (response.success) {
+            const delivered = response.status === 'delivered';
             await this.updateNotificationStatus(
               notification.id, 
-              NotificationStatus.SENT, 
+              delivered ? NotificationStatus.DELIVERED : NotificationStatus.SENT, 
               undefined, 
               response.externalId
             );
+            await this.recordDelivery(notification.id, response);
             
             await this.logNotificationEvent(notification.id, NotificationEventType.SENT, {
               channel: notification.channel,
               externalId: response.externalId
-            });
+            }, response);
             
             processedCount++;
           } else {
-            await this.handleNotificationFailure(notification, response.error || 'Unknown error');
+            await this.handleNotificationFailure(notification, response.error || 'Unknown error', response);
           }
 
         } catch (error) {
           logger.error('Notification processing error:', { notificationId: notification.id, error });
-          await this.handleNotificationFailure(notification, error.message);
+          await this.handleNotificationFailure(notification, error instanceof Error ? error.message : String(error));
         }
       }
 
@@ -342,7 +379,8 @@ export class NotificationService {
               relatedEntityId: config.deadlineId,
               caseId: deadline.case_id,
               scheduledAt: notificationDate,
-              priority: config.priority || (daysBefore <= 1 ? NotificationPriority.URGENT : NotificationPriority.NORMAL)
+              priority: config.priority || (daysBefore <= 1 ? NotificationPriority.URGENT : NotificationPriority.NORMAL),
+              metadata: { deadlineDate: deadline.deadline_date, daysBefore }
             };
 
             await this.createNotification(notificationData);
@@ -441,6 +479,94 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Récapitulatif et heures de silence de l'utilisateur (tous types confondus)
+   */
+  async getDeliverySettings(userId: string): Promise<NotificationDeliverySettings> {
+    try {
+      const result = await db.query(
+        'SELECT * FROM notification_delivery_settings WHERE user_id = $1',
+        [userId]
+      );
+
+      const row = (result as any).rows[0];
+      return row ? this.mapRowToDeliverySettings(row) : { userId, ...DEFAULT_DELIVERY_SETTINGS };
+
+    } catch (error) {
+      logger.error('Get notification delivery settings error:', error);
+      return { userId, ...DEFAULT_DELIVERY_SETTINGS };
+    }
+  }
+
+  async updateDeliverySettings(
+    userId: string,
+    updates: UpdateNotificationDeliverySettingsRequest
+  ): Promise<NotificationDeliverySettings> {
+    if (updates.digestMode !== undefined && !['immediate', 'hourly', 'daily'].includes(updates.digestMode)) {
+      throw new Error('Invalid digest mode');
+    }
+    for (const time of [updates.digestTime, updates.quietHoursStart, updates.quietHoursEnd]) {
+      if (time !== undefined && time !== null && parseClockTime(time) === null) {
+        throw new Error('Invalid time, expected HH:MM');
+      }
+    }
+    if (updates.timezone !== undefined && !isValidTimezone(updates.timezone)) {
+      throw new Error('Invalid timezone');
+    }
+
+    // null efface la plage de silence, undefined conserve la valeur actuelle
+    const current = await this.getDeliverySettings(userId);
+    const quietHoursStart = updates.quietHoursStart === undefined ? current.quietHoursStart : updates.quietHoursStart;
+    const quietHoursEnd = updates.quietHoursEnd === undefined ? current.quietHoursEnd : updates.quietHoursEnd;
+    const settings: NotificationDeliverySettings = {
+      userId,
+      digestMode: updates.digestMode ?? current.digestMode,
+      digestTime: updates.digestTime ?? current.digestTime,
+      timezone: updates.timezone ?? current.timezone,
+      quietOnWeekend: updates.quietOnWeekend ?? current.quietOnWeekend,
+      ...(quietHoursStart ? { quietHoursStart } : {}),
+      ...(quietHoursEnd ? { quietHoursEnd } : {}),
+      updatedAt: new Date()
+    };
+
+    if (Boolean(settings.quietHoursStart) !== Boolean(settings.quietHoursEnd)) {
+      throw new Error('Quiet hours require both a start and an end');
+    }
+
+    try {
+      await db.query(
+        `INSERT INTO notification_delivery_settings (
+          user_id, digest_mode, digest_time, timezone, quiet_hours_start, quiet_hours_end,
+          quiet_on_weekend, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (user_id) DO UPDATE SET
+          digest_mode = $2, digest_time = $3, timezone = $4, quiet_hours_start = $5,
+          quiet_hours_end = $6, quiet_on_weekend = $7, updated_at = $8`,
+        [
+          userId, settings.digestMode, settings.digestTime, settings.timezone,
+          settings.quietHoursStart ?? null, settings.quietHoursEnd ?? null,
+          settings.quietOnWeekend, settings.updatedAt
+        ]
+      );
+
+      // Passage en envoi immédiat : les notifications retenues partent au prochain passage
+      if (settings.digestMode === 'immediate') {
+        await db.query(
+          `UPDATE notifications SET digest_at = CURRENT_TIMESTAMP
+           WHERE recipient_id = $1 AND status = $2 AND digest_at > CURRENT_TIMESTAMP`,
+          [userId, NotificationStatus.PENDING]
+        );
+      }
+
+      logger.info('Notification delivery settings updated', { userId, digestMode: settings.digestMode });
+      return settings;
+
+    } catch (error) {
+      logger.error('Update notification delivery settings error:', error);
+      throw new Error('Failed to update notification delivery settings');
+    }
+  }
+
   /**
    * Search notifications
    * Validates: Requirements 5.3 - Notification management
@@ -605,6 +731,37 @@ export class NotificationService {
       const failureRate = totalNotifications > 0 ? 
         (notificationsByStatus[NotificationStatus.FAILED] / totalNotifications) * 100 : 0;
 
+      // Bounces (rejets définitifs) et relances en attente
+      const deliveryResult = await db.query(
+        `SELECT COUNT(*) FILTER (WHERE bounced_at IS NOT NULL) as bounces,
+                COUNT(*) FILTER (WHERE status = 'pending' AND retry_count > 0) as pending_retries
+         ${baseQuery}`,
+        params
+      );
+      const bounceCount = parseInt((deliveryResult as any).rows[0].bounces);
+      const pendingRetries = parseInt((deliveryResult as any).rows[0].pending_retries);
+      const bounceRate = totalNotifications > 0 ? (bounceCount / totalNotifications) * 100 : 0;
+
+      const failuresResult = await db.query(
+        `SELECT id, channel, recipient_email, recipient_phone, recipient_id, failure_reason,
+                bounced_at, retry_count, transport, updated_at
+         ${baseQuery} AND status = '${NotificationStatus.FAILED}'
+         ORDER BY updated_at DESC LIMIT 10`,
+        params
+      );
+
+      const recentFailures: NotificationFailure[] = (failuresResult as any).rows.map((row: any) => ({
+        id: row.id,
+        channel: row.channel,
+        recipient: row.channel === NotificationChannel.EMAIL ? row.recipient_email
+          : row.channel === NotificationChannel.SMS ? row.recipient_phone : row.recipient_id,
+        reason: row.failure_reason,
+        bounced: row.bounced_at !== null,
+        retryCount: row.retry_count,
+        transport: row.transport,
+        failedAt: new Date(row.updated_at)
+      }));
+
       // Get recent activity
       const activityResult = await db.query(
         `SELECT n.id, n.type, n.status, n.recipient_id, n.created_at, n.case_id,
@@ -635,7 +792,11 @@ export class NotificationService {
         deliveryRate,
         averageDeliveryTime: 0, // Would need to calculate from delivery timestamps
         failureRate,
-        recentActivity
+        bounceCount,
+        bounceRate,
+        pendingRetries,
+        recentActivity,
+        recentFailures
       };
 
     } catch (error) {
@@ -669,42 +830,58 @@ export class NotificationService {
   }
 
   private async sendEmailNotification(notification: Notification): Promise<NotificationServiceResponse> {
-    // This would integrate with an email service like SendGrid, AWS SES, etc.
-    // For now, we'll simulate the email sending
+    const { email } = await this.resolveRecipientContact(notification);
+    if (!email) {
+      return { success: false, permanent: true, error: 'No email address for recipient' };
+    }
+
+    const transport = (await this.getTransports()).email;
+    const attachments = Array.isArray(notification.metadata?.attachments) ? notification.metadata.attachments : [];
+    const data: EmailNotificationData = {
+      to: email,
+      subject: notification.subject || 'JuristDZ',
+      htmlBody: this.toHtmlBody(notification.message),
+      textBody: notification.message,
+      ...(attachments.length > 0 ? { attachments } : {})
+    };
+
     logger.info('Sending email notification', { 
       notificationId: notification.id, 
-      recipient: notification.recipientEmail 
+      recipient: email,
+      transport: transport.name
     });
 
-    // Simulate email service response
-    return {
-      success: true,
-      externalId: `email_${Date.now()}`,
-      status: 'sent'
-    };
+    return { ...(await transport.sendEmail(data)), transport: transport.name };
   }
 
   private async sendSMSNotification(notification: Notification): Promise<NotificationServiceResponse> {
-    // This would integrate with an SMS service like Twilio, AWS SNS, etc.
+    const { phone } = await this.resolveRecipientContact(notification);
+    if (!phone) {
+      return { success: false, permanent: true, error: 'No phone number for recipient' };
+    }
+
+    const transport = (await this.getTransports()).sms;
+    const data: SMSNotificationData = { to: phone, message: notification.message };
+
     logger.info('Sending SMS notification', { 
       notificationId: notification.id, 
-      recipient: notification.recipientPhone 
+      recipient: phone,
+      transport: transport.name
     });
 
-    return {
-      success: true,
-      externalId: `sms_${Date.now()}`,
-      status: 'sent'
-    };
+    return { ...(await transport.sendSMS(data)), transport: transport.name };
   }
 
   private async sendInAppNotification(notification: Notification): Promise<NotificationServiceResponse> {
-    // In-app notifications are stored in database and delivered via WebSocket/SSE
+    // Stockée en base, poussée aux connexions SSE ouvertes (GET /api/notifications/stream)
     logger.info('Sending in-app notification', { 
       notificationId: notification.id, 
-      recipient: notification.recipientId 
+      recipient: notification.recipientId,
+      connections: notificationStreamService.connectionCount(notification.recipientId)
     });
 
+    await notificationStreamService.publishNotification(notification);
+
     return {
       success: true,
       externalId: `inapp_${notification.id}`,
@@ -713,19 +890,239 @@ export class NotificationService {
   }
 
   private async sendPushNotification(notification: Notification): Promise<NotificationServiceResponse> {
-    // This would integrate with push notification services like FCM, APNS, etc.
+    const transport = (await this.getTransports()).push;
+    const data: PushNotificationData = {
+      userId: notification.recipientId,
+      title: notification.subject || 'JuristDZ',
+      body: notification.message,
+      data: {
+        notificationId: notification.id,
+        type: notification.type,
+        ...(notification.relatedEntityType ? { relatedEntityType: notification.relatedEntityType } : {}),
+        ...(notification.relatedEntityId ? { relatedEntityId: notification.relatedEntityId } : {})
+      }
+    };
+
     logger.info('Sending push notification', { 
       notificationId: notification.id, 
-      recipient: notification.recipientId 
+      recipient: notification.recipientId,
+      transport: transport.name
     });
 
+    return { ...(await transport.sendPush(data)), transport: transport.name };
+  }
+
+  /**
+   * Transports configurés, créés au premier envoi : la configuration n'est lue
+   * qu'à ce moment (les tests remplacent les transports sans la charger)
+   */
+  private async getTransports(): Promise<NotificationTransports> {
+    if (!this.transports) {
+      const { config } = await import('@/config/environment');
+      this.transports = createNotificationTransports({
+        mode: config.notifications.transport,
+        sinkPath: config.notifications.sinkPath,
+        smtp: {
+          host: config.email.host,
+          port: config.email.port,
+          secure: config.email.secure,
+          user: config.email.user,
+          pass: config.email.pass,
+          from: config.email.from
+        },
+        ...(config.sms.gatewayUrl
+          ? {
+            sms: {
+              url: config.sms.gatewayUrl,
+              sender: config.sms.sender,
+              ...(config.sms.apiKey ? { apiKey: config.sms.apiKey } : {})
+            }
+          }
+          : {})
+      });
+
+      if (config.notifications.transport === 'live' && !config.sms.gatewayUrl) {
+        logger.warn('SMS gateway not configured, SMS notifications are written to the local mailbox', {
+          sinkPath: config.notifications.sinkPath
+        });
+      }
+    }
+    return this.transports;
+  }
+
+  /**
+   * Adresse e-mail et téléphone du destinataire : ceux de la notification,
+   * à défaut ceux du compte utilisateur
+   */
+  private async resolveRecipientContact(notification: Notification): Promise<{ email?: string; phone?: string }> {
+    if ((notification.channel === NotificationChannel.EMAIL && notification.recipientEmail) ||
+        (notification.channel === NotificationChannel.SMS && notification.recipientPhone)) {
+      return {
+        ...(notification.recipientEmail ? { email: notification.recipientEmail } : {}),
+        ...(notification.recipientPhone ? { phone: notification.recipientPhone } : {})
+      };
+    }
+
+    const result = await db.query('SELECT email, phone_number FROM users WHERE id = $1', [notification.recipientId]);
+    const row = (result as any).rows[0];
+    const email = notification.recipientEmail || row?.email;
+    const phone = notification.recipientPhone || row?.phone_number;
     return {
-      success: true,
-      externalId: `push_${Date.now()}`,
-      status: 'sent'
+      ...(email ? { email } : {}),
+      ...(phone ? { phone } : {})
     };
   }
 
+  private toHtmlBody(message: string): string {
+    const escaped = message
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\r?\n/g, '<br>');
+    return `<div style="font-family: Arial, sans-serif; line-height: 1.5;">${escaped}</div>`;
+  }
+
+  /**
+   * Transport utilisé et identifiant attribué par le fournisseur
+   */
+  private async recordDelivery(notificationId: string, response: NotificationServiceResponse): Promise<void> {
+    try {
+      await db.query(
+        'UPDATE notifications SET transport = $2, external_id = $3 WHERE id = $1',
+        [notificationId, response.transport ?? null, response.externalId ?? null]
+      );
+    } catch (error) {
+      logger.error('Record notification delivery error:', error);
+    }
+  }
+
+  /**
+   * Retient la notification pour le récapitulatif ou la reporte à la fin des
+   * heures de silence. Seuls les e-mails sont regroupés ; SMS et push sont
+   * reportés, les notifications in-app et critiques partent sans délai.
+   */
+  private async applyDeliverySchedule(
+    notification: Notification,
+    settings: NotificationDeliverySettings
+  ): Promise<boolean> {
+    const now = new Date();
+    if (notification.channel === NotificationChannel.IN_APP || isCriticalNotification(notification, now, settings.timezone)) {
+      return false;
+    }
+
+    if (notification.channel === NotificationChannel.EMAIL && settings.digestMode !== 'immediate') {
+      const digestAt = nextDigestTime(settings, now);
+      await db.query(
+        'UPDATE notifications SET digest_at = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [notification.id, digestAt]
+      );
+      await this.logNotificationEvent(notification.id, NotificationEventType.SCHEDULED, {
+        digestMode: settings.digestMode,
+        digestAt
+      });
+      return true;
+    }
+
+    if (isQuietTime(settings, now)) {
+      const sendAt = nextAllowedTime(settings, now);
+      await db.query(
+        'UPDATE notifications SET scheduled_at = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [notification.id, sendAt]
+      );
+      await this.logNotificationEvent(notification.id, NotificationEventType.SCHEDULED, {
+        reason: 'quiet_hours',
+        scheduledAt: sendAt
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Envoie les récapitulatifs arrivés à échéance : un seul e-mail par
+   * utilisateur pour l'ensemble des notifications retenues
+   */
+  private async processDueDigests(): Promise<number> {
+    const result = await db.query(
+      `SELECT * FROM notifications
+       WHERE status = $1 AND digest_at IS NOT NULL AND digest_at <= CURRENT_TIMESTAMP
+         AND scheduled_at <= CURRENT_TIMESTAMP
+       ORDER BY recipient_id, scheduled_at`,
+      [NotificationStatus.PENDING]
+    );
+
+    const byRecipient = new Map<string, Notification[]>();
+    for (const row of (result as any).rows) {
+      const notification = this.mapRowToNotification(row);
+      byRecipient.set(notification.recipientId, [...(byRecipient.get(notification.recipientId) ?? []), notification]);
+    }
+
+    let sentCount = 0;
+    for (const [userId, items] of byRecipient) {
+      try {
+        sentCount += await this.sendDigest(userId, items);
+      } catch (error) {
+        logger.error('Notification digest error:', { userId, error });
+      }
+    }
+    return sentCount;
+  }
+
+  private async sendDigest(userId: string, items: Notification[]): Promise<number> {
+    const settings = await this.getDeliverySettings(userId);
+    const now = new Date();
+    const rendered = renderDigest(items, settings, now);
+    const { email } = await this.resolveRecipientContact(items[0]!);
+
+    const transport = (await this.getTransports()).email;
+    const response: NotificationServiceResponse = email
+      ? {
+        ...(await transport.sendEmail({ to: email, subject: rendered.subject, htmlBody: rendered.html, textBody: rendered.text })),
+        transport: transport.name
+      }
+      : { success: false, permanent: true, error: 'No email address for recipient' };
+
+    const digestId = uuidv4();
+    await db.query(
+      `INSERT INTO notification_digests (
+        id, user_id, digest_type, digest_date, notification_count, content, status,
+        generated_at, sent_at, period_start, period_end, external_id, error_message
+      ) VALUES ($1, $2, $3, CURRENT_DATE, $4, $5, $6, CURRENT_TIMESTAMP, $7, $8, $9, $10, $11)`,
+      [
+        digestId, userId, settings.digestMode === 'hourly' ? DigestType.HOURLY : DigestType.DAILY, items.length,
+        JSON.stringify({ subject: rendered.subject, notificationIds: items.map(item => item.id) }),
+        response.success ? DigestStatus.SENT : DigestStatus.FAILED, response.success ? now : null,
+        new Date(Math.min(...items.map(item => item.scheduledAt.getTime()))), now,
+        response.externalId ?? null, response.success ? null : response.error ?? null
+      ]
+    );
+
+    if (!response.success) {
+      // Même cycle de relance que les envois individuels
+      for (const item of items) {
+        await this.handleNotificationFailure(item, response.error || 'Digest delivery failed', response);
+      }
+      return 0;
+    }
+
+    const status = response.status === 'delivered' ? NotificationStatus.DELIVERED : NotificationStatus.SENT;
+    await db.query(
+      `UPDATE notifications
+       SET status = $2, digest_id = $3, transport = $4, external_id = $5,
+           sent_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+           delivered_at = CASE WHEN $2 = 'delivered' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+       WHERE id = ANY($1)`,
+      [items.map(item => item.id), status, digestId, response.transport ?? null, response.externalId ?? null]
+    );
+    for (const item of items) {
+      await this.logNotificationEvent(item.id, NotificationEventType.SENT, { channel: item.channel, digestId }, response);
+    }
+
+    logger.info('Notification digest sent', { userId, digestId, count: items.length });
+    return items.length;
+  }
+
   private async checkNotificationPreferences(notification: Notification): Promise<boolean> {
     try {
       const result = await db.query(
@@ -881,29 +1278,47 @@ export class NotificationService {
     }
   }
 
-  private async handleNotificationFailure(notification: Notification, error: string): Promise<void> {
+  private async handleNotificationFailure(
+    notification: Notification,
+    error: string,
+    response?: NotificationServiceResponse
+  ): Promise<void> {
     try {
       const newRetryCount = notification.retryCount + 1;
+      const permanent = response?.permanent === true;
 
-      if (newRetryCount >= notification.maxRetries) {
-        // Max retries reached, mark as failed
+      if (permanent || newRetryCount >= notification.maxRetries) {
+        // Bounce or max retries reached, mark as failed
         await this.updateNotificationStatus(notification.id, NotificationStatus.FAILED, error);
-        await this.logNotificationEvent(notification.id, NotificationEventType.FAILED, { error, retryCount: newRetryCount });
+        await db.query(
+          `UPDATE notifications
+           SET retry_count = $2, transport = COALESCE($3, transport),
+               bounced_at = CASE WHEN $4 THEN CURRENT_TIMESTAMP ELSE bounced_at END
+           WHERE id = $1`,
+          [notification.id, newRetryCount, response?.transport ?? null, permanent]
+        );
+        await this.logNotificationEvent(notification.id, NotificationEventType.FAILED, {
+          error,
+          retryCount: newRetryCount,
+          bounced: permanent
+        }, response);
       } else {
-        // Schedule retry
+        // Schedule retry: the notification stays pending until nextRetry
         const nextRetry = new Date();
         nextRetry.setMinutes(nextRetry.getMinutes() + (newRetryCount * 5)); // Exponential backoff
 
         await db.query(
-          'UPDATE notifications SET retry_count = $2, last_retry_at = CURRENT_TIMESTAMP WHERE id = $1',
-          [notification.id, newRetryCount]
+          `UPDATE notifications SET retry_count = $2, last_retry_at = CURRENT_TIMESTAMP, scheduled_at = $3,
+             failure_reason = $4, transport = COALESCE($5, transport)
+           WHERE id = $1`,
+          [notification.id, newRetryCount, nextRetry, error, response?.transport ?? null]
         );
 
         await this.logNotificationEvent(notification.id, NotificationEventType.RETRY, { 
           error, 
           retryCount: newRetryCount, 
           nextRetry 
-        });
+        }, response);
       }
 
     } catch (error) {
@@ -961,13 +1376,20 @@ export class NotificationService {
   private async logNotificationEvent(
     notificationId: string, 
     eventType: NotificationEventType, 
-    details: Record<string, any>
+    details: Record<string, any>,
+    response?: NotificationServiceResponse
   ): Promise<void> {
     try {
       await db.query(
-        `INSERT INTO notification_logs (id, notification_id, event_type, details, created_at)
-         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
-        [uuidv4(), notificationId, eventType, JSON.stringify(details)]
+        `INSERT INTO notification_logs (
+          id, notification_id, event_type, details, error_message,
+          external_id, external_status, external_response, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)`,
+        [
+          uuidv4(), notificationId, eventType, JSON.stringify(details),
+          response?.error ?? null, response?.externalId ?? null, response?.status ?? null,
+          response?.details ? JSON.stringify(response.details) : null
+        ]
       );
     } catch (error) {
       logger.error('Log notification event error:', error);
@@ -1015,7 +1437,7 @@ export class NotificationService {
       maxRetries: row.max_retries,
       lastRetryAt: row.last_retry_at ? new Date(row.last_retry_at) : undefined,
       failureReason: row.failure_reason,
-      metadata: JSON.parse(row.metadata || '{}'),
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata || {},
       templateId: row.template_id,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
@@ -1042,6 +1464,19 @@ export class NotificationService {
     };
   }
 
+  private mapRowToDeliverySettings(row: any): NotificationDeliverySettings {
+    return {
+      userId: row.user_id,
+      digestMode: row.digest_mode,
+      digestTime: String(row.digest_time).slice(0, 5),
+      timezone: row.timezone,
+      quietOnWeekend: row.quiet_on_weekend,
+      ...(row.quiet_hours_start ? { quietHoursStart: String(row.quiet_hours_start).slice(0, 5) } : {}),
+      ...(row.quiet_hours_end ? { quietHoursEnd: String(row.quiet_hours_end).slice(0, 5) } : {}),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
   private mapRowToNotificationPreferences(row: any): NotificationPreferences {
     return {
       id: row.id,
@@ -0,0 +1,235 @@
+import {
+  DeadlineAlertSummary,
+  NotificationStreamEvent,
+  NotificationStreamEventType
+} from '@/types/notification';
+
+/**
+ * Notification Stream
+ * Diffusion en temps réel des événements destinés à un utilisateur (nouvelle
+ * notification, alerte d'échéance, rapport prêt) vers ses connexions SSE.
+ *
+ * Chaque événement est d'abord enregistré dans un journal avec un identifiant
+ * croissant : à la reconnexion, le client transmet `Last-Event-ID` et reçoit
+ * les événements manqués avant le direct.
+ */
+
+export interface NotificationEventStore {
+  append(userId: string, type: NotificationStreamEventType, data: Record<string, any>): Promise<NotificationStreamEvent>;
+  /** Événements d'identifiant strictement supérieur à `afterId`, par ordre croissant */
+  since(userId: string, afterId: number, limit: number): Promise<NotificationStreamEvent[]>;
+}
+
+export type NotificationStreamListener = (event: NotificationStreamEvent) => void;
+
+/** Taille des lots lus dans le journal lors du rejeu */
+const REPLAY_BATCH_SIZE = 200;
+
+/**
+ * Journal en mémoire, borné par utilisateur (tests et serveur sans base)
+ */
+export class MemoryNotificationEventStore implements NotificationEventStore {
+  private nextId = 1;
+  private readonly events = new Map<string, NotificationStreamEvent[]>();
+
+  constructor(private readonly capacityPerUser: number = 500) {}
+
+  async append(userId: string, type: NotificationStreamEventType, data: Record<string, any>): Promise<NotificationStreamEvent> {
+    const event: NotificationStreamEvent = { id: this.nextId++, userId, type, data, createdAt: new Date() };
+    const events = this.events.get(userId) ?? [];
+    events.push(event);
+    if (events.length > this.capacityPerUser) {
+      events.splice(0, events.length - this.capacityPerUser);
+    }
+    this.events.set(userId, events);
+    return event;
+  }
+
+  async since(userId: string, afterId: number, limit: number): Promise<NotificationStreamEvent[]> {
+    return (this.events.get(userId) ?? []).filter(event => event.id > afterId).slice(0, limit);
+  }
+}
+
+export class NotificationStream {
+  private readonly listeners = new Map<string, Set<NotificationStreamListener>>();
+
+  constructor(private readonly store: NotificationEventStore) {}
+
+  /**
+   * Enregistre l'événement puis le transmet aux connexions ouvertes de l'utilisateur
+   */
+  async publish(
+    userId: string,
+    type: NotificationStreamEventType,
+    data: Record<string, any>
+  ): Promise<NotificationStreamEvent> {
+    const event = await this.store.append(userId, type, data);
+    for (const listener of this.listeners.get(userId) ?? []) {
+      listener(event);
+    }
+    return event;
+  }
+
+  /**
+   * Ouvre une connexion : les événements postérieurs à `lastEventId` sont
+   * rejoués, puis ceux publiés entre-temps, sans doublon. Retourne la
+   * fonction de désabonnement.
+   */
+  async connect(
+    userId: string,
+    lastEventId: number | null,
+    listener: NotificationStreamListener
+  ): Promise<() => void> {
+    const replayed = new Set<number>();
+    let buffered: NotificationStreamEvent[] | null = [];
+
+    // Abonnement avant la lecture du journal : rien ne se perd entre les deux
+    const live: NotificationStreamListener = event => {
+      if (buffered) {
+        buffered.push(event);
+      } else if (!replayed.has(event.id)) {
+        listener(event);
+      }
+    };
+
+    const userListeners = this.listeners.get(userId) ?? new Set<NotificationStreamListener>();
+    userListeners.add(live);
+    this.listeners.set(userId, userListeners);
+
+    const unsubscribe = () => {
+      userListeners.delete(live);
+      if (userListeners.size === 0 && this.listeners.get(userId) === userListeners) {
+        this.listeners.delete(userId);
+      }
+    };
+
+    try {
+      if (lastEventId !== null) {
+        let afterId = lastEventId;
+        let batch: NotificationStreamEvent[];
+        do {
+          batch = await this.store.since(userId, afterId, REPLAY_BATCH_SIZE);
+          for (const event of batch) {
+            replayed.add(event.id);
+            listener(event);
+            afterId = event.id;
+          }
+        } while (batch.length === REPLAY_BATCH_SIZE);
+      }
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    const pending = buffered;
+    buffered = null;
+    for (const event of pending) {
+      if (!replayed.has(event.id)) {
+        listener(event);
+      }
+    }
+
+    return unsubscribe;
+  }
+
+  /**
+   * Utilisateurs ayant au moins une connexion ouverte
+   */
+  connectedUsers(): string[] {
+    return [...this.listeners.keys()];
+  }
+
+  connectionCount(userId?: string): number {
+    if (userId) {
+      return this.listeners.get(userId)?.size ?? 0;
+    }
+    let count = 0;
+    for (const userListeners of this.listeners.values()) {
+      count += userListeners.size;
+    }
+    return count;
+  }
+}
+
+// ─── Format SSE ─────────────────────────────────────────────────────────────
+
+/**
+ * Trame `text/event-stream` ; les données sont du JSON sur une seule ligne
+ */
+export function formatSseEvent(event: NotificationStreamEvent): string {
+  const data = JSON.stringify({ ...event.data, createdAt: event.createdAt.toISOString() });
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Commentaire SSE, ignoré par le client (maintien de la connexion)
+ */
+export function formatSseComment(text: string): string {
+  return `: ${text.replace(/\r?\n/g, ' ')}\n\n`;
+}
+
+/**
+ * Valeur de `Last-Event-ID` (en-tête ou paramètre) ; null si absente ou invalide
+ */
+export function parseLastEventId(value: unknown): number | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw.trim())) {
+    return null;
+  }
+  const id = Number(raw.trim());
+  return Number.isSafeInteger(id) ? id : null;
+}
+
+// ─── Alertes d'échéance ─────────────────────────────────────────────────────
+
+export interface PendingDeadlineRow {
+  id: string;
+  title: string;
+  title_ar?: string | null;
+  deadline_date: string | Date;
+}
+
+/** Échéances à trois jours ou moins, comme le badge de l'interface */
+const URGENT_DAYS = 3;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function toIsoDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Délais dépassés et urgents parmi les délais non accomplis d'un utilisateur
+ */
+export function buildDeadlineAlertSummary(rows: PendingDeadlineRow[], now: Date = new Date()): DeadlineAlertSummary {
+  const today = startOfDay(now).getTime();
+  const deadlines: DeadlineAlertSummary['deadlines'] = [];
+
+  for (const row of rows) {
+    const date = startOfDay(typeof row.deadline_date === 'string' ? new Date(`${row.deadline_date.slice(0, 10)}T00:00:00`) : row.deadline_date);
+    const daysRemaining = Math.ceil((date.getTime() - today) / 86400000);
+    if (daysRemaining > URGENT_DAYS) {
+      continue;
+    }
+    deadlines.push({
+      id: row.id,
+      title: row.title,
+      ...(row.title_ar ? { titleAr: row.title_ar } : {}),
+      deadlineDate: toIsoDay(date),
+      daysRemaining,
+      status: daysRemaining < 0 ? 'overdue' : 'urgent'
+    });
+  }
+
+  deadlines.sort((a, b) => a.daysRemaining - b.daysRemaining);
+  const overdue = deadlines.filter(deadline => deadline.status === 'overdue').length;
+  const urgent = deadlines.length - overdue;
+
+  return { overdue, urgent, total: overdue + urgent, deadlines };
+}
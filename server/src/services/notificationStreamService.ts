@@ -0,0 +1,205 @@
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import {
+  DeadlineAlertSummary,
+  Notification,
+  NotificationStreamEvent,
+  NotificationStreamEventType
+} from '@/types/notification';
+import { Report } from '@/types/report';
+import {
+  NotificationEventStore,
+  NotificationStream,
+  NotificationStreamListener,
+  buildDeadlineAlertSummary
+} from '@/services/notificationStream';
+
+/**
+ * Notification Stream Service
+ * Journal PostgreSQL des événements temps réel, publication des notifications
+ * in-app et des rapports prêts, et surveillance périodique des échéances des
+ * utilisateurs connectés.
+ */
+
+/** Durée de conservation du journal : au-delà, le client recharge la liste */
+const EVENT_RETENTION_DAYS = 7;
+
+class PostgresNotificationEventStore implements NotificationEventStore {
+  async append(userId: string, type: NotificationStreamEventType, data: Record<string, any>): Promise<NotificationStreamEvent> {
+    const result = await db.query(
+      `INSERT INTO notification_stream_events (user_id, event_type, payload)
+       VALUES ($1, $2, $3)
+       RETURNING id, created_at`,
+      [userId, type, JSON.stringify(data)]
+    );
+    const row = (result as any).rows[0];
+    return { id: Number(row.id), userId, type, data, createdAt: new Date(row.created_at) };
+  }
+
+  async since(userId: string, afterId: number, limit: number): Promise<NotificationStreamEvent[]> {
+    const result = await db.query(
+      `SELECT id, user_id, event_type, payload, created_at
+       FROM notification_stream_events
+       WHERE user_id = $1 AND id > $2
+       ORDER BY id
+       LIMIT $3`,
+      [userId, afterId, limit]
+    );
+    return (result as any).rows.map((row: any): NotificationStreamEvent => ({
+      id: Number(row.id),
+      userId: row.user_id,
+      type: row.event_type,
+      data: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+}
+
+export class NotificationStreamService {
+  private readonly stream = new NotificationStream(new PostgresNotificationEventStore());
+  private readonly lastDeadlineAlerts = new Map<string, string>();
+  private intervalId: NodeJS.Timeout | null = null;
+  private lastPrunedAt = 0;
+
+  /**
+   * Ouvre une connexion SSE pour l'utilisateur (rejeu depuis `lastEventId`)
+   */
+  connect(userId: string, lastEventId: number | null, listener: NotificationStreamListener): Promise<() => void> {
+    return this.stream.connect(userId, lastEventId, listener);
+  }
+
+  connectionCount(userId?: string): number {
+    return this.stream.connectionCount(userId);
+  }
+
+  /**
+   * Nouvelle notification in-app ; un échec de diffusion n'interrompt pas l'envoi
+   */
+  async publishNotification(notification: Notification): Promise<void> {
+    await this.publish(notification.recipientId, 'notification', {
+      notificationId: notification.id,
+      type: notification.type,
+      priority: notification.priority,
+      subject: notification.subject,
+      message: notification.message,
+      ...(notification.relatedEntityType ? { relatedEntityType: notification.relatedEntityType } : {}),
+      ...(notification.relatedEntityId ? { relatedEntityId: notification.relatedEntityId } : {}),
+      ...(notification.caseId ? { caseId: notification.caseId } : {})
+    });
+  }
+
+  /**
+   * Rapport généré et disponible au téléchargement
+   */
+  async publishReportReady(report: Report): Promise<void> {
+    await this.publish(report.generatedBy, 'report_ready', {
+      reportId: report.id,
+      title: report.title,
+      reportType: report.type,
+      format: report.format,
+      downloadUrl: `/api/reports/${report.id}/download`
+    });
+  }
+
+  /**
+   * Recalcule les alertes d'échéance de l'utilisateur et publie un événement
+   * lorsqu'elles ont changé depuis le dernier contrôle
+   */
+  async checkDeadlineAlerts(userId: string): Promise<DeadlineAlertSummary | null> {
+    try {
+      const result = await db.query(
+        `SELECT id, title, title_ar, deadline_date
+         FROM legal_deadlines
+         WHERE user_id = $1 AND is_completed = false
+           AND deadline_date <= CURRENT_DATE + INTERVAL '3 days'
+         ORDER BY deadline_date`,
+        [userId]
+      );
+
+      const summary = buildDeadlineAlertSummary((result as any).rows);
+      const signature = JSON.stringify(summary.deadlines.map(deadline => [deadline.id, deadline.daysRemaining]));
+      if (this.lastDeadlineAlerts.get(userId) === signature) {
+        return summary;
+      }
+
+      this.lastDeadlineAlerts.set(userId, signature);
+      await this.publish(userId, 'deadline_alert', { ...summary });
+      return summary;
+
+    } catch (error) {
+      logger.error('Deadline alert check error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start the periodic deadline check for connected users
+   */
+  start(intervalMinutes: number = 1): void {
+    if (this.intervalId) {
+      logger.warn('Notification stream is already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.tick();
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info(`Starting notification stream with ${intervalMinutes} minute deadline checks`);
+  }
+
+  /**
+   * Stop the periodic deadline check
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Notification stream stopped');
+    }
+  }
+
+  private async tick(): Promise<void> {
+    for (const userId of this.stream.connectedUsers()) {
+      await this.checkDeadlineAlerts(userId);
+    }
+
+    // L'état des utilisateurs déconnectés est recalculé à leur retour
+    for (const userId of this.lastDeadlineAlerts.keys()) {
+      if (this.stream.connectionCount(userId) === 0) {
+        this.lastDeadlineAlerts.delete(userId);
+      }
+    }
+
+    if (Date.now() - this.lastPrunedAt > 3600 * 1000) {
+      this.lastPrunedAt = Date.now();
+      await this.pruneEvents();
+    }
+  }
+
+  private async pruneEvents(): Promise<void> {
+    try {
+      const result = await db.query(
+        `DELETE FROM notification_stream_events
+         WHERE created_at < CURRENT_TIMESTAMP - ($1 || ' days')::INTERVAL`,
+        [String(EVENT_RETENTION_DAYS)]
+      );
+      const deleted = (result as any).rowCount ?? 0;
+      if (deleted > 0) {
+        logger.debug('Pruned notification stream events', { deleted });
+      }
+    } catch (error) {
+      logger.error('Notification stream prune error:', error);
+    }
+  }
+
+  private async publish(userId: string, type: NotificationStreamEventType, data: Record<string, any>): Promise<void> {
+    try {
+      await this.stream.publish(userId, type, data);
+    } catch (error) {
+      logger.error('Notification stream publish error:', { userId, type, error });
+    }
+  }
+}
+
+export const notificationStreamService = new NotificationStreamService();
@@ -0,0 +1,332 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  EmailNotificationData,
+  SMSNotificationData,
+  PushNotificationData,
+  NotificationServiceResponse
+} from '@/types/notification';
+
+/**
+ * Notification Transports
+ * Acheminement effectif des notifications : SMTP pour les e-mails, passerelle
+ * HTTP générique pour les SMS (opérateurs algériens), et une boîte de dépôt
+ * locale qui écrit chaque message dans un fichier (développement et tests).
+ *
+ * Un échec marqué `permanent` (adresse rejetée, numéro invalide) n'est pas
+ * retenté ; les autres échecs suivent le cycle de relance de NotificationService.
+ */
+
+export interface EmailTransport {
+  readonly name: string;
+  sendEmail(data: EmailNotificationData): Promise<NotificationServiceResponse>;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  sendSMS(data: SMSNotificationData): Promise<NotificationServiceResponse>;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  sendPush(data: PushNotificationData): Promise<NotificationServiceResponse>;
+}
+
+export interface NotificationTransports {
+  email: EmailTransport;
+  sms: SmsTransport;
+  push: PushTransport;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ─── SMTP ───────────────────────────────────────────────────────────────────
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpTransportOptions, transporter?: Transporter) {
+    this.transporter = transporter ?? nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {})
+    });
+  }
+
+  async sendEmail(data: EmailNotificationData): Promise<NotificationServiceResponse> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.options.from,
+        to: data.to,
+        subject: data.subject,
+        html: data.htmlBody,
+        ...(data.textBody ? { text: data.textBody } : {}),
+        ...(data.attachments
+          ? {
+            attachments: data.attachments.map(attachment => ({
+              filename: attachment.filename,
+              contentType: attachment.contentType,
+              ...(attachment.content ? { content: attachment.content } : { path: attachment.path })
+            }))
+          }
+          : {})
+      });
+
+      const rejected = (info.rejected ?? []).map(String);
+      if (rejected.length > 0) {
+        return {
+          success: false,
+          permanent: true,
+          externalId: info.messageId,
+          status: 'rejected',
+          error: `Recipient rejected: ${rejected.join(', ')}`,
+          details: { response: info.response }
+        };
+      }
+
+      return { success: true, externalId: info.messageId, status: 'sent', details: { response: info.response } };
+
+    } catch (error) {
+      // Réponses SMTP 5xx : rejet définitif du destinataire ou du message
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      const code = (error as { code?: string }).code;
+      return {
+        success: false,
+        permanent: responseCode !== undefined && responseCode >= 500 && code !== 'EAUTH',
+        status: code ? code.toLowerCase() : 'error',
+        error: errorMessage(error),
+        details: { responseCode, code }
+      };
+    }
+  }
+}
+
+// ─── Passerelle SMS HTTP ────────────────────────────────────────────────────
+
+export interface HttpSmsGatewayOptions {
+  url: string;
+  apiKey?: string;
+  sender: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Numéro au format international ; les numéros nationaux (0X XX XX XX XX)
+ * reçoivent l'indicatif +213
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  let digits = phone.replace(/[\s.\-()]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  if (/^0[1-9]\d{7,8}$/.test(digits)) return `+213${digits.slice(1)}`;
+  if (/^213\d{8,9}$/.test(digits)) return `+${digits}`;
+  if (/^\+\d{8,15}$/.test(digits)) return digits;
+  return null;
+}
+
+/**
+ * Passerelle générique : POST JSON { to, from, text } avec une clé d'API en
+ * Bearer. La plupart des agrégateurs SMS algériens acceptent ce format ;
+ * l'identifiant du message est lu dans `id`, `messageId` ou `message_id`.
+ */
+export class HttpSmsGatewayTransport implements SmsTransport {
+  readonly name = 'http_sms';
+
+  constructor(private readonly options: HttpSmsGatewayOptions) {}
+
+  async sendSMS(data: SMSNotificationData): Promise<NotificationServiceResponse> {
+    const to = normalizePhoneNumber(data.to);
+    if (!to) {
+      return { success: false, permanent: true, status: 'invalid_number', error: `Invalid phone number: ${data.to}` };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 10000);
+
+    try {
+      const response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+        },
+        body: JSON.stringify({ to, from: this.options.sender, text: data.message }),
+        signal: controller.signal
+      });
+
+      const text = await response.text();
+      let body: Record<string, any> = {};
+      try {
+        body = text ? JSON.parse(text) : {};
+      } catch {
+        body = { raw: text };
+      }
+
+      if (response.ok) {
+        const externalId = body.id ?? body.messageId ?? body.message_id;
+        return {
+          success: true,
+          ...(externalId !== undefined ? { externalId: String(externalId) } : {}),
+          status: typeof body.status === 'string' ? body.status : 'sent',
+          details: body
+        };
+      }
+
+      // 4xx (hors limitation de débit) : numéro ou message refusé par l'opérateur
+      return {
+        success: false,
+        permanent: response.status >= 400 && response.status < 500 && response.status !== 429,
+        status: `http_${response.status}`,
+        error: body.error ?? body.message ?? `SMS gateway responded with status ${response.status}`,
+        details: body
+      };
+
+    } catch (error) {
+      return { success: false, status: 'unreachable', error: `SMS gateway unreachable: ${errorMessage(error)}` };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ─── Boîte de dépôt locale ──────────────────────────────────────────────────
+
+/** Domaine réservé (RFC 2606) dont les adresses sont rejetées par la boîte de dépôt */
+const SINK_BOUNCE_PATTERN = /@bounce\.test$/i;
+
+export interface SinkMessage {
+  id: string;
+  channel: 'email' | 'sms' | 'push';
+  recipient: string;
+  sentAt: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Remplaçant local des transports réels : chaque message est écrit en JSON
+ * dans `<dossier>/<canal>/`. Les adresses @bounce.test simulent un rejet
+ * définitif pour exercer le chemin d'échec.
+ */
+export class MailboxSinkTransport implements EmailTransport, SmsTransport, PushTransport {
+  readonly name = 'sink';
+
+  constructor(private readonly directory: string) {}
+
+  sendEmail(data: EmailNotificationData): Promise<NotificationServiceResponse> {
+    return this.deliver('email', data.to, {
+      ...data,
+      ...(data.attachments
+        ? {
+          attachments: data.attachments.map(attachment => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            ...(attachment.path ? { path: attachment.path } : { size: attachment.content?.length ?? 0 })
+          }))
+        }
+        : {})
+    });
+  }
+
+  sendSMS(data: SMSNotificationData): Promise<NotificationServiceResponse> {
+    return this.deliver('sms', data.to, { ...data });
+  }
+
+  sendPush(data: PushNotificationData): Promise<NotificationServiceResponse> {
+    return this.deliver('push', data.userId, { ...data });
+  }
+
+  /**
+   * Messages déposés pour un canal, du plus ancien au plus récent
+   */
+  async readMailbox(channel: SinkMessage['channel']): Promise<SinkMessage[]> {
+    const folder = path.join(this.directory, channel);
+    if (!fs.existsSync(folder)) {
+      return [];
+    }
+
+    const files = (await fs.promises.readdir(folder)).filter(file => file.endsWith('.json')).sort();
+    return Promise.all(files.map(async file =>
+      JSON.parse(await fs.promises.readFile(path.join(folder, file), 'utf-8')) as SinkMessage
+    ));
+  }
+
+  private async deliver(
+    channel: SinkMessage['channel'],
+    recipient: string,
+    payload: Record<string, any>
+  ): Promise<NotificationServiceResponse> {
+    if (SINK_BOUNCE_PATTERN.test(recipient)) {
+      return { success: false, permanent: true, status: 'bounced', error: `Mailbox unavailable: ${recipient}` };
+    }
+
+    try {
+      const message: SinkMessage = {
+        id: `${channel}_${uuidv4()}`,
+        channel,
+        recipient,
+        sentAt: new Date().toISOString(),
+        payload
+      };
+      const folder = path.join(this.directory, channel);
+      await fs.promises.mkdir(folder, { recursive: true });
+      const file = path.join(folder, `${Date.now()}_${message.id}.json`);
+      await fs.promises.writeFile(file, JSON.stringify(message, null, 2), 'utf-8');
+
+      return { success: true, externalId: message.id, status: 'delivered', details: { file } };
+    } catch (error) {
+      return { success: false, status: 'error', error: `Mailbox sink write failed: ${errorMessage(error)}` };
+    }
+  }
+}
+
+/**
+ * Canal sans fournisseur configuré : l'échec est définitif
+ */
+class UnconfiguredTransport implements PushTransport {
+  readonly name = 'none';
+
+  async sendPush(): Promise<NotificationServiceResponse> {
+    return { success: false, permanent: true, status: 'not_configured', error: 'No push transport configured' };
+  }
+}
+
+// ─── Sélection ──────────────────────────────────────────────────────────────
+
+export interface NotificationTransportSettings {
+  mode: 'live' | 'sink';
+  sinkPath: string;
+  smtp: SmtpTransportOptions;
+  sms?: HttpSmsGatewayOptions;
+}
+
+/**
+ * En mode `live`, SMTP et passerelle SMS ; sans passerelle configurée, les SMS
+ * sont déposés localement. En mode `sink`, tous les canaux vont à la boîte de dépôt.
+ */
+export function createNotificationTransports(settings: NotificationTransportSettings): NotificationTransports {
+  const sink = new MailboxSinkTransport(settings.sinkPath);
+
+  if (settings.mode === 'sink') {
+    return { email: sink, sms: sink, push: sink };
+  }
+
+  return {
+    email: new SmtpEmailTransport(settings.smtp),
+    sms: settings.sms ? new HttpSmsGatewayTransport(settings.sms) : sink,
+    push: new UnconfiguredTransport()
+  };
+}
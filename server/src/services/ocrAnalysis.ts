@@ -0,0 +1,83 @@
+import { OcrLanguage, OcrPageResult } from '@/types/ocr';
+
+/**
+ * Post-traitement du texte reconnu par le moteur OCR local
+ *
+ * Nettoyage de la sortie de Tesseract, détection de la langue dominante et
+ * agrégation des résultats page par page.
+ */
+
+/** Formats acceptés : PDF multi-pages et images (les TIFF peuvent aussi compter plusieurs pages) */
+export const OCR_SUPPORTED_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/tiff',
+  'image/bmp',
+  'image/gif'
+];
+
+const ARABIC_WORD = /[\u0600-\u06FF]{3,}/;
+const LATIN_WORD = /[a-zA-ZÀ-ÿ]{3,}/;
+
+export function isOcrSupported(mimeType: string): boolean {
+  return OCR_SUPPORTED_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Langue dominante, selon les mêmes règles que le formulaire de contribution
+ */
+export function detectOcrLanguage(text: string): OcrLanguage {
+  const arabic = ARABIC_WORD.test(text);
+  const french = LATIN_WORD.test(text);
+  return arabic && french ? 'mixed' : arabic ? 'ar' : 'fr';
+}
+
+/**
+ * Espaces de fin de ligne, lignes vides répétées et sauts de page supprimés
+ */
+export function cleanOcrText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+export function buildPageResult(pageNumber: number, rawText: string, confidence: number): OcrPageResult {
+  const text = cleanOcrText(rawText);
+  const wordCount = countWords(text);
+  return {
+    pageNumber,
+    text,
+    // Une page blanche n'a pas de confiance significative
+    confidence: wordCount > 0 ? Math.round(Math.max(0, Math.min(100, confidence)) * 100) / 100 : 0,
+    language: detectOcrLanguage(text),
+    wordCount
+  };
+}
+
+/**
+ * Texte complet et confiance du document, pondérée par le nombre de mots de chaque page
+ */
+export function summarizeOcrPages(pages: OcrPageResult[]): { text: string; confidence: number; language: OcrLanguage } {
+  const ordered = [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const text = ordered.map(page => page.text).join('\n\n');
+  const words = ordered.reduce((sum, page) => sum + page.wordCount, 0);
+  const confidence = words > 0
+    ? ordered.reduce((sum, page) => sum + page.confidence * page.wordCount, 0) / words
+    : 0;
+
+  return {
+    text,
+    confidence: Math.round(confidence * 100) / 100,
+    language: detectOcrLanguage(text)
+  };
+}
@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as mupdf from 'mupdf';
+import Tesseract from 'tesseract.js';
+import { logger } from '@/utils/logger';
+
+/**
+ * Moteur OCR local
+ *
+ * Aucun fichier ne quitte le serveur : les pages des PDF et des images sont
+ * rastérisées par MuPDF (WebAssembly) puis reconnues par Tesseract
+ * (WebAssembly) avec les modèles arabe et français livrés dans les paquets
+ * @tesseract.js-data. Aucun téléchargement n'a lieu à l'exécution.
+ */
+
+const LANGUAGES = ['ara', 'fra'];
+const MODEL_VARIANT = '4.0.0_best_int';
+const MODEL_SOURCE_PATH = process.env.OCR_MODEL_SOURCE_PATH
+  || path.join(process.cwd(), 'node_modules/@tesseract.js-data');
+/** Tesseract lit tous les modèles dans un même dossier : ils y sont copiés au démarrage */
+const MODEL_PATH = process.env.OCR_MODEL_PATH || './storage/ocr/models';
+
+const RENDER_DPI = Number(process.env.OCR_RENDER_DPI) || 300;
+/** Plus grand côté d'une page rastérisée ; évite les images géantes pour les photos déclarées à 72 dpi */
+const MAX_PAGE_PIXELS = 4200;
+
+export interface RecognizedPage {
+  text: string;
+  confidence: number;
+}
+
+export interface RasterizedDocument {
+  pageCount: number;
+  /** Page en PNG niveaux de gris, index à partir de 0 */
+  renderPage(index: number): Buffer;
+  close(): void;
+}
+
+export class LocalOcrEngine {
+  private worker: Promise<Tesseract.Worker> | null = null;
+
+  readonly languages = LANGUAGES.join('+');
+
+  /**
+   * Ouvrir un PDF ou une image (TIFF multi-pages compris) pour la rastérisation page par page
+   */
+  openDocument(buffer: Buffer, mimeType: string): RasterizedDocument {
+    const document = mupdf.Document.openDocument(buffer, mimeType);
+
+    return {
+      pageCount: document.countPages(),
+      renderPage: (index: number) => {
+        const page = document.loadPage(index);
+        try {
+          const [x0, y0, x1, y1] = page.getBounds();
+          const scale = Math.min(RENDER_DPI / 72, MAX_PAGE_PIXELS / Math.max(x1 - x0, y1 - y0, 1));
+          const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceGray, false, true);
+          try {
+            return Buffer.from(pixmap.asPNG());
+          } finally {
+            pixmap.destroy();
+          }
+        } finally {
+          page.destroy();
+        }
+      },
+      close: () => document.destroy()
+    };
+  }
+
+  async recognize(image: Buffer): Promise<RecognizedPage> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, confidence: data.confidence };
+  }
+
+  /**
+   * Libérer le worker Tesseract (plusieurs centaines de Mo) entre deux lots de travaux
+   */
+  async release(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await (await worker).terminate();
+    }
+  }
+
+  private getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      this.worker = this.createWorker().catch(error => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+
+  private async createWorker(): Promise<Tesseract.Worker> {
+    await this.installModels();
+
+    const worker = await Tesseract.createWorker(LANGUAGES, Tesseract.OEM.LSTM_ONLY, {
+      langPath: path.resolve(MODEL_PATH),
+      gzip: true,
+      cacheMethod: 'none',
+      errorHandler: (error: unknown) => logger.error('OCR engine error:', error)
+    });
+    // Les décisions mélangent souvent arabe et français sur une même page
+    await worker.setParameters({ preserve_interword_spaces: '1' });
+
+    logger.info('Local OCR engine loaded', { languages: this.languages });
+    return worker;
+  }
+
+  private async installModels(): Promise<void> {
+    await fs.mkdir(MODEL_PATH, { recursive: true });
+
+    for (const language of LANGUAGES) {
+      const target = path.join(MODEL_PATH, `${language}.traineddata.gz`);
+      try {
+        await fs.access(target);
+      } catch {
+        await fs.copyFile(path.join(MODEL_SOURCE_PATH, language, MODEL_VARIANT, `${language}.traineddata.gz`), target);
+      }
+    }
+  }
+}
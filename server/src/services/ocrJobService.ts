@@ -0,0 +1,291 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { fileStorageService } from '@/services/fileStorageService';
+import { LocalOcrEngine } from '@/services/ocrEngine';
+import { attachmentIndexService } from '@/services/attachmentIndexService';
+import { buildPageResult, isOcrSupported, summarizeOcrPages } from '@/services/ocrAnalysis';
+import { OcrJob, OcrJobStatus, OcrPageResult } from '@/types/ocr';
+import { AttachmentScanStatus } from '@/types/document';
+
+/**
+ * OCR Job Service
+ * File d'attente PostgreSQL des travaux d'OCR sur les pièces jointes stockées
+ * par FileStorageService. Les travaux sont traités un par un par le moteur
+ * local ; le texte et la confiance de chaque page sont conservés.
+ */
+
+const MAX_ATTEMPTS = 3;
+const MAX_PAGES = Number(process.env.OCR_MAX_PAGES) || 200;
+/** Un travail resté « processing » plus longtemps a été interrompu par un redémarrage */
+const STALE_JOB_MINUTES = 30;
+
+export class OcrJobService {
+  private readonly engine = new LocalOcrEngine();
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Importer un document numérisé puis lancer son OCR ; sans document cible,
+   * la pièce est rattachée à un nouveau document « décision numérisée » de l'utilisateur
+   */
+  async uploadAndCreateJob(
+    file: { buffer: Buffer; originalname: string; mimetype: string },
+    userId: string,
+    documentId?: string
+  ): Promise<OcrJob> {
+    if (!isOcrSupported(file.mimetype)) {
+      throw new Error('Unsupported file type for OCR');
+    }
+
+    const targetDocumentId = documentId ?? await this.createScanDocument(file.originalname, userId);
+    const upload = await fileStorageService.uploadFile(targetDocumentId, file.buffer, file.originalname, file.mimetype, userId);
+
+    return this.createJob(upload.attachment.id, userId);
+  }
+
+  /**
+   * Lancer l'OCR d'une pièce jointe existante ; un travail en cours ou terminé est réutilisé
+   */
+  async createJob(attachmentId: string, userId: string): Promise<OcrJob> {
+    const attachment = await fileStorageService.getAttachmentForUser(attachmentId, userId);
+    if (!isOcrSupported(attachment.mimeType)) {
+      throw new Error('Unsupported file type for OCR');
+    }
+    if (attachment.scanStatus === AttachmentScanStatus.QUARANTINED) {
+      throw new Error('Attachment is quarantined');
+    }
+
+    const existing = await db.query(
+      `SELECT * FROM ocr_jobs
+       WHERE attachment_id = $1 AND status <> $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [attachmentId, OcrJobStatus.FAILED]
+    );
+    if ((existing as any).rows.length > 0) {
+      return this.mapRowToJob((existing as any).rows[0]);
+    }
+
+    const result = await db.query(
+      `INSERT INTO ocr_jobs (id, attachment_id, requested_by, status, languages)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [uuidv4(), attachmentId, userId, OcrJobStatus.PENDING, this.engine.languages]
+    );
+    const job = this.mapRowToJob((result as any).rows[0]);
+
+    logger.info('OCR job queued', { jobId: job.id, attachmentId, userId });
+
+    // Pas d'attente du prochain passage du planificateur
+    void this.processPendingJobs();
+    return job;
+  }
+
+  /**
+   * Travail et résultats page par page, pour le demandeur ou un utilisateur ayant accès à la pièce
+   */
+  async getJob(jobId: string, userId: string): Promise<OcrJob | null> {
+    const result = await db.query('SELECT * FROM ocr_jobs WHERE id = $1', [jobId]);
+    const row = (result as any).rows[0];
+    if (!row) {
+      return null;
+    }
+    if (row.requested_by !== userId) {
+      await fileStorageService.getAttachmentForUser(row.attachment_id, userId);
+    }
+
+    const job = this.mapRowToJob(row);
+    const pages = await this.getPages(jobId);
+    return {
+      ...job,
+      pages,
+      ...(job.status === OcrJobStatus.COMPLETED ? { text: summarizeOcrPages(pages).text } : {})
+    };
+  }
+
+  /**
+   * Traiter les travaux en attente jusqu'à épuisement de la file
+   */
+  async processPendingJobs(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    let processed = 0;
+    try {
+      await this.requeueStaleJobs();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.processJob(job);
+        processed++;
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      logger.error('Error processing OCR jobs:', error);
+    } finally {
+      this.isProcessing = false;
+      await this.engine.release().catch(error => logger.error('Failed to release OCR engine:', error));
+    }
+
+    return processed;
+  }
+
+  start(intervalSeconds: number = 30): void {
+    if (this.intervalId) {
+      logger.warn('OCR job processing is already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.processPendingJobs();
+    }, intervalSeconds * 1000);
+
+    logger.info(`Starting OCR job processing every ${intervalSeconds} seconds`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('OCR job processing stopped');
+    }
+  }
+
+  private async processJob(job: OcrJob): Promise<void> {
+    try {
+      const { buffer, attachment } = await fileStorageService.downloadFile(job.attachmentId, job.requestedBy);
+      const document = this.engine.openDocument(buffer, attachment.mimeType);
+
+      try {
+        if (document.pageCount > MAX_PAGES) {
+          throw new Error(`Document exceeds the OCR limit of ${MAX_PAGES} pages`);
+        }
+        await db.query('UPDATE ocr_jobs SET page_count = $1 WHERE id = $2', [document.pageCount, job.id]);
+
+        const pages: OcrPageResult[] = [];
+        for (let index = 0; index < document.pageCount; index++) {
+          const recognized = await this.engine.recognize(document.renderPage(index));
+          const page = buildPageResult(index + 1, recognized.text, recognized.confidence);
+          await this.savePage(job.id, page);
+          pages.push(page);
+        }
+
+        const summary = summarizeOcrPages(pages);
+        await db.query(
+          `UPDATE ocr_jobs
+           SET status = $1, confidence = $2, detected_language = $3, error_message = NULL, completed_at = CURRENT_TIMESTAMP
+           WHERE id = $4`,
+          [OcrJobStatus.COMPLETED, summary.confidence, summary.language, job.id]
+        );
+
+        logger.info('OCR job completed', {
+          jobId: job.id,
+          pages: pages.length,
+          confidence: summary.confidence,
+          language: summary.language
+        });
+
+        // Le texte reconnu rend la pièce jointe cherchable
+        await attachmentIndexService.markForReindex(job.attachmentId);
+      } finally {
+        document.close();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'OCR failed';
+      // Les limites de taille ne se corrigent pas en réessayant
+      const status = job.attempts >= MAX_ATTEMPTS || message.includes('exceeds') ? OcrJobStatus.FAILED : OcrJobStatus.PENDING;
+      await db.query(
+        'UPDATE ocr_jobs SET status = $1, error_message = $2 WHERE id = $3',
+        [status, message, job.id]
+      );
+      logger.error('OCR job failed', { jobId: job.id, attempt: job.attempts, willRetry: status === OcrJobStatus.PENDING, error });
+    }
+  }
+
+  private async claimNextJob(): Promise<OcrJob | null> {
+    const result = await db.query(
+      `UPDATE ocr_jobs
+       SET status = $1, attempts = attempts + 1, started_at = CURRENT_TIMESTAMP, processed_pages = 0
+       WHERE id = (
+         SELECT id FROM ocr_jobs
+         WHERE status = $2
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [OcrJobStatus.PROCESSING, OcrJobStatus.PENDING]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToJob(row) : null;
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    await db.query(
+      `UPDATE ocr_jobs
+       SET status = $1
+       WHERE status = $2 AND started_at < CURRENT_TIMESTAMP - ($3 || ' minutes')::interval`,
+      [OcrJobStatus.PENDING, OcrJobStatus.PROCESSING, STALE_JOB_MINUTES]
+    );
+  }
+
+  private async savePage(jobId: string, page: OcrPageResult): Promise<void> {
+    await db.query(
+      `INSERT INTO ocr_pages (job_id, page_number, text, confidence, language, word_count)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (job_id, page_number) DO UPDATE
+       SET text = EXCLUDED.text, confidence = EXCLUDED.confidence,
+           language = EXCLUDED.language, word_count = EXCLUDED.word_count`,
+      [jobId, page.pageNumber, page.text, page.confidence, page.language, page.wordCount]
+    );
+    await db.query('UPDATE ocr_jobs SET processed_pages = $1 WHERE id = $2', [page.pageNumber, jobId]);
+  }
+
+  private async getPages(jobId: string): Promise<OcrPageResult[]> {
+    const result = await db.query(
+      'SELECT * FROM ocr_pages WHERE job_id = $1 ORDER BY page_number',
+      [jobId]
+    );
+    return (result as any).rows.map((row: any): OcrPageResult => ({
+      pageNumber: row.page_number,
+      text: row.text,
+      confidence: Number(row.confidence),
+      language: row.language,
+      wordCount: row.word_count
+    }));
+  }
+
+  private async createScanDocument(filename: string, userId: string): Promise<string> {
+    const id = uuidv4();
+    await db.query(
+      `INSERT INTO documents (id, title, type, category, content, metadata, owner_id, status, confidentiality_level)
+       VALUES ($1, $2, 'decision', 'decision_justice', '', $3, $4, 'draft', 'confidential')`,
+      [id, filename, JSON.stringify({ source: 'ocr_scan' }), userId]
+    );
+    return id;
+  }
+
+  private mapRowToJob(row: any): OcrJob {
+    return {
+      id: row.id,
+      attachmentId: row.attachment_id,
+      requestedBy: row.requested_by,
+      status: row.status,
+      languages: row.languages,
+      ...(row.page_count !== null && row.page_count !== undefined ? { pageCount: row.page_count } : {}),
+      processedPages: row.processed_pages ?? 0,
+      ...(row.confidence !== null && row.confidence !== undefined ? { confidence: Number(row.confidence) } : {}),
+      ...(row.detected_language ? { detectedLanguage: row.detected_language } : {}),
+      ...(row.error_message ? { errorMessage: row.error_message } : {}),
+      attempts: row.attempts ?? 0,
+      createdAt: new Date(row.created_at),
+      ...(row.started_at ? { startedAt: new Date(row.started_at) } : {}),
+      ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {})
+    };
+  }
+}
+
+export const ocrJobService = new OcrJobService();
@@ -0,0 +1,398 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  InvoiceStatus,
+  LedgerAccount,
+  PaymentMethod,
+  ProvisionBalance,
+  ProvisionStatement,
+  ProvisionTransaction,
+  ProvisionTransactionType,
+  RecordProvisionRequest
+} from '../types/billing.js';
+import { isBalanced, ledgerEntriesFor, provisionEffect, statementLines } from '../utils/provisionLedger.js';
+import { refreshInvoiceSettlement } from './invoicePaymentService.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Provision Ledger Service
+ * Compte de provisions des clients : provisions reçues, imputations sur les
+ * factures et restitutions, par client et par dossier. Une imputation ne peut
+ * dépasser ni la provision disponible ni le reste dû de la facture.
+ */
+
+const TRANSACTION_SELECT = `
+  SELECT pt.*, c.case_number, bi.invoice_number
+  FROM provision_transactions pt
+  LEFT JOIN cases c ON c.id = pt.case_id
+  LEFT JOIN billing_invoices bi ON bi.id = pt.invoice_id
+`;
+
+/** Client de l'avocat : créé par lui, ou client d'un dossier qu'il suit ou supervise */
+const CLIENT_OF_LAWYER = `
+  SELECT cl.id FROM clients cl
+  WHERE cl.id = $1 AND (cl.created_by = $2 OR EXISTS (
+    SELECT 1 FROM cases c
+    WHERE c.client_id = cl.id AND (c.assigned_lawyer_id = $2 OR c.supervising_lawyer_id = $2)
+  ))
+`;
+
+export class ProvisionLedgerService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Enregistre une provision reçue du client
+   */
+  async recordDeposit(request: RecordProvisionRequest): Promise<ProvisionTransaction> {
+    return this.withClientLock(request, async client => {
+      await this.checkCase(client, request.clientId, request.caseId, request.createdBy);
+      return this.insertTransaction(client, ProvisionTransactionType.DEPOSIT, request);
+    });
+  }
+
+  /**
+   * Restitue au client tout ou partie de la provision disponible
+   */
+  async recordRefund(request: RecordProvisionRequest): Promise<ProvisionTransaction> {
+    return this.withClientLock(request, async client => {
+      await this.checkCase(client, request.clientId, request.caseId, request.createdBy);
+      await this.checkAvailable(client, request.clientId, request.caseId, request.amount);
+      return this.insertTransaction(client, ProvisionTransactionType.REFUND, request);
+    });
+  }
+
+  /**
+   * Règle une facture par imputation sur la provision du dossier indiqué, ou
+   * sur la provision générale du client
+   */
+  async drawDownForInvoice(request: RecordProvisionRequest): Promise<ProvisionTransaction> {
+    const invoiceId = request.invoiceId;
+    if (!invoiceId) {
+      throw new Error('Invoice ID is required');
+    }
+
+    return this.withClientLock(request, async client => {
+      await this.checkCase(client, request.clientId, request.caseId, request.createdBy);
+
+      const invoiceResult = await client.query(
+        'SELECT client_id, case_id, status, remaining_amount FROM billing_invoices WHERE id = $1 FOR UPDATE',
+        [request.invoiceId]
+      );
+      const invoice = invoiceResult.rows[0];
+      if (!invoice || invoice.client_id !== request.clientId) {
+        throw new Error('Invoice not found');
+      }
+      if (request.caseId && invoice.case_id !== request.caseId) {
+        throw new Error('Invoice does not belong to this case');
+      }
+      if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.CANCELLED) {
+        throw new Error(`Cannot settle a ${invoice.status} invoice`);
+      }
+      if (toCents(request.amount) > toCents(invoice.remaining_amount)) {
+        throw new Error(`Drawdown exceeds invoice balance: ${parseFloat(invoice.remaining_amount).toFixed(2)} DZD remaining`);
+      }
+
+      await this.checkAvailable(client, request.clientId, request.caseId, request.amount);
+      const transaction = await this.insertTransaction(client, ProvisionTransactionType.DRAWDOWN, request);
+
+      await client.query(
+        `INSERT INTO invoice_payments (invoice_id, amount, provision_transaction_id, payment_date, reference, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          request.invoiceId,
+          request.amount,
+          transaction.id,
+          transaction.transactionDate,
+          request.reference ?? null,
+          request.createdBy
+        ]
+      );
+      await refreshInvoiceSettlement(client, invoiceId);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Vérifie que le client est un client de l'avocat ; celui d'un confrère est introuvable
+   */
+  async checkClientAccess(clientId: string, lawyerId: string): Promise<void> {
+    const result = await this.db.query(CLIENT_OF_LAWYER, [clientId, lawyerId]);
+    if (result.rows.length === 0) {
+      throw new Error('Client not found');
+    }
+  }
+
+  /**
+   * Solde de provision du client, par dossier (caseId null : provision générale)
+   */
+  async getBalances(clientId: string): Promise<ProvisionBalance[]> {
+    const result = await this.db.query(
+      `SELECT pt.case_id, c.case_number,
+              COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'deposit'), 0) AS deposits,
+              COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'drawdown'), 0) AS drawdowns,
+              COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'refund'), 0) AS refunds
+       FROM provision_transactions pt
+       LEFT JOIN cases c ON c.id = pt.case_id
+       WHERE pt.client_id = $1
+       GROUP BY pt.case_id, c.case_number
+       ORDER BY c.case_number NULLS FIRST`,
+      [clientId]
+    );
+
+    return result.rows.map(row => {
+      const deposits = parseFloat(row.deposits);
+      const drawdowns = parseFloat(row.drawdowns);
+      const refunds = parseFloat(row.refunds);
+      return {
+        caseId: row.case_id,
+        ...(row.case_number ? { caseNumber: row.case_number } : {}),
+        deposits,
+        drawdowns,
+        refunds,
+        balance: Math.round((deposits - drawdowns - refunds) * 100) / 100
+      };
+    });
+  }
+
+  /**
+   * Relevé du compte de provisions, avec solde d'ouverture et solde progressif
+   */
+  async getStatement(clientId: string, options: { caseId?: string; from?: Date; to?: Date } = {}): Promise<ProvisionStatement> {
+    const clientResult = await this.db.query(
+      'SELECT id, first_name, last_name, company_name, address, city FROM clients WHERE id = $1',
+      [clientId]
+    );
+    const clientRow = clientResult.rows[0];
+    if (!clientRow) {
+      throw new Error('Client not found');
+    }
+
+    const conditions = ['pt.client_id = $1'];
+    const params: any[] = [clientId];
+    if (options.caseId) {
+      params.push(options.caseId);
+      conditions.push(`pt.case_id = $${params.length}`);
+    }
+
+    const result = await this.db.query(
+      `${TRANSACTION_SELECT}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY pt.transaction_date, pt.created_at`,
+      params
+    );
+    const transactions = result.rows.map(row => this.mapRowToTransaction(row));
+
+    const before = transactions.filter(t => options.from && t.transactionDate < startOfDay(options.from));
+    const inPeriod = transactions.filter(t =>
+      (!options.from || t.transactionDate >= startOfDay(options.from))
+      && (!options.to || t.transactionDate <= startOfDay(options.to))
+    );
+
+    const openingBalance = roundCents(before.reduce((sum, t) => sum + provisionEffect(t.transactionType, t.amount), 0));
+    const lines = statementLines(inPeriod, openingBalance);
+    const totalCredits = roundCents(lines.reduce((sum, line) => sum + line.credit, 0));
+    const totalDebits = roundCents(lines.reduce((sum, line) => sum + line.debit, 0));
+    const caseNumber = options.caseId
+      ? (await this.db.query('SELECT case_number FROM cases WHERE id = $1', [options.caseId])).rows[0]?.case_number
+      : undefined;
+    const address = [clientRow.address, clientRow.city].filter(Boolean).join(', ');
+
+    return {
+      client: {
+        id: clientRow.id,
+        name: clientRow.company_name || `${clientRow.first_name || ''} ${clientRow.last_name || ''}`.trim(),
+        ...(address ? { address } : {})
+      },
+      ...(options.caseId ? { caseId: options.caseId } : {}),
+      ...(caseNumber ? { caseNumber } : {}),
+      ...(options.from ? { periodFrom: options.from } : {}),
+      ...(options.to ? { periodTo: options.to } : {}),
+      openingBalance,
+      lines,
+      totalCredits,
+      totalDebits,
+      closingBalance: lines.length > 0 ? lines[lines.length - 1]!.balance : openingBalance,
+      balances: await this.getBalances(clientId),
+      reconciled: await this.isReconciled(clientId),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Les écritures du client s'équilibrent et le compte de dépôt couvre
+   * exactement la dette envers le client
+   */
+  async isReconciled(clientId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT account, COALESCE(SUM(debit), 0) AS debit, COALESCE(SUM(credit), 0) AS credit
+       FROM provision_ledger_entries
+       WHERE client_id = $1
+       GROUP BY account`,
+      [clientId]
+    );
+
+    const totals = new Map<string, { debit: number; credit: number }>(
+      result.rows.map(row => [row.account, { debit: toCents(row.debit), credit: toCents(row.credit) }])
+    );
+    const sum = (side: 'debit' | 'credit') => [...totals.values()].reduce((total, t) => total + t[side], 0);
+    const trust = totals.get(LedgerAccount.TRUST_BANK) ?? { debit: 0, credit: 0 };
+    const provision = totals.get(LedgerAccount.CLIENT_PROVISION) ?? { debit: 0, credit: 0 };
+
+    return sum('debit') === sum('credit') && trust.debit - trust.credit === provision.credit - provision.debit;
+  }
+
+  // Méthodes privées
+
+  private async withClientLock<T>(request: RecordProvisionRequest, operation: (client: PoolClient) => Promise<T>): Promise<T> {
+    this.validateRequest(request);
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      // Les opérations d'un même client passent l'une après l'autre : le solde lu reste vrai
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`provision:${request.clientId}`]);
+
+      const result = await operation(client);
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error recording provision transaction', { error, request });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async checkCase(client: PoolClient, clientId: string, caseId: string | undefined, lawyerId: string): Promise<void> {
+    const clientResult = await client.query(CLIENT_OF_LAWYER, [clientId, lawyerId]);
+    if (clientResult.rows.length === 0) {
+      throw new Error('Client not found');
+    }
+
+    if (caseId) {
+      const caseResult = await client.query('SELECT id FROM cases WHERE id = $1 AND client_id = $2', [caseId, clientId]);
+      if (caseResult.rows.length === 0) {
+        throw new Error('Case not found');
+      }
+    }
+  }
+
+  private async checkAvailable(client: PoolClient, clientId: string, caseId: string | undefined, amount: number): Promise<void> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(credit), 0) - COALESCE(SUM(debit), 0) AS balance
+       FROM provision_ledger_entries
+       WHERE client_id = $1 AND account = $2 AND case_id IS NOT DISTINCT FROM $3`,
+      [clientId, LedgerAccount.CLIENT_PROVISION, caseId || null]
+    );
+    const available = parseFloat(result.rows[0].balance);
+
+    if (toCents(amount) > toCents(available)) {
+      throw new Error(`Insufficient provision: ${available.toFixed(2)} DZD available`);
+    }
+  }
+
+  private async insertTransaction(
+    client: PoolClient,
+    type: ProvisionTransactionType,
+    request: RecordProvisionRequest
+  ): Promise<ProvisionTransaction> {
+    const entries = ledgerEntriesFor(type, request.amount);
+    if (!isBalanced(entries)) {
+      throw new Error('Unbalanced provision transaction');
+    }
+
+    const result = await client.query(
+      `INSERT INTO provision_transactions (
+        client_id, case_id, transaction_type, amount, invoice_id,
+        payment_method, reference, description, transaction_date, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, CURRENT_DATE), $10)
+      RETURNING id`,
+      [
+        request.clientId,
+        request.caseId || null,
+        type,
+        request.amount,
+        type === ProvisionTransactionType.DRAWDOWN ? request.invoiceId : null,
+        request.paymentMethod || null,
+        request.reference || null,
+        request.description || null,
+        request.transactionDate || null,
+        request.createdBy
+      ]
+    );
+    const transactionId = result.rows[0].id;
+
+    for (const entry of entries) {
+      await client.query(
+        `INSERT INTO provision_ledger_entries (transaction_id, account, client_id, case_id, debit, credit)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [transactionId, entry.account, request.clientId, request.caseId || null, entry.debit, entry.credit]
+      );
+    }
+
+    const transactionResult = await client.query(`${TRANSACTION_SELECT} WHERE pt.id = $1`, [transactionId]);
+    const transaction = this.mapRowToTransaction(transactionResult.rows[0]);
+
+    logger.info('Provision transaction recorded', {
+      transactionId,
+      clientId: request.clientId,
+      type,
+      amount: request.amount
+    });
+
+    return transaction;
+  }
+
+  private validateRequest(request: RecordProvisionRequest): void {
+    if (!request.clientId) {
+      throw new Error('Client ID is required');
+    }
+
+    if (!request.createdBy) {
+      throw new Error('Author is required');
+    }
+
+    if (typeof request.amount !== 'number' || !Number.isFinite(request.amount) || toCents(request.amount) <= 0) {
+      throw new Error('Amount must be a positive value');
+    }
+
+    if (request.paymentMethod && !Object.values(PaymentMethod).includes(request.paymentMethod)) {
+      throw new Error('Invalid payment method');
+    }
+  }
+
+  private mapRowToTransaction(row: any): ProvisionTransaction {
+    return {
+      id: row.id,
+      clientId: row.client_id,
+      ...(row.case_id ? { caseId: row.case_id } : {}),
+      ...(row.case_number ? { caseNumber: row.case_number } : {}),
+      transactionType: row.transaction_type as ProvisionTransactionType,
+      amount: parseFloat(row.amount),
+      ...(row.invoice_id ? { invoiceId: row.invoice_id } : {}),
+      ...(row.invoice_number ? { invoiceNumber: row.invoice_number } : {}),
+      ...(row.payment_method ? { paymentMethod: row.payment_method as PaymentMethod } : {}),
+      ...(row.reference ? { reference: row.reference } : {}),
+      ...(row.description ? { description: row.description } : {}),
+      transactionDate: new Date(row.transaction_date),
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+function toCents(value: number | string): number {
+  return Math.round(Number(value) * 100);
+}
+
+function roundCents(value: number): number {
+  return toCents(value) / 100;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
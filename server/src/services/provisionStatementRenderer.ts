@@ -0,0 +1,225 @@
+import PDFDocument from 'pdfkit';
+import { ProvisionStatement, ProvisionStatementLine, ProvisionTransactionType } from '@/types/billing';
+import { collectPdf, measurePdfText, registerPdfFonts, writePdfText } from '@/utils/pdfText';
+
+/**
+ * Relevé du compte de provisions d'un client
+ *
+ * Une ligne par opération (provision reçue, imputation sur facture,
+ * restitution) avec le solde progressif, encadrée par le solde d'ouverture de
+ * la période et le solde de clôture, puis les soldes par dossier. Les libellés
+ * sont bilingues français / arabe.
+ */
+
+type Bilingue = { fr: string; ar: string };
+
+export const LIBELLES_OPERATION: Record<ProvisionTransactionType, Bilingue> = {
+  [ProvisionTransactionType.DEPOSIT]: { fr: 'Provision reçue', ar: 'تسبيق مستلم' },
+  [ProvisionTransactionType.DRAWDOWN]: { fr: 'Imputation sur facture', ar: 'خصم من فاتورة' },
+  [ProvisionTransactionType.REFUND]: { fr: 'Restitution', ar: 'استرجاع' }
+};
+
+const TITRE: Bilingue = { fr: 'Relevé de compte de provisions', ar: 'كشف حساب التسبيقات' };
+const COULEUR = '#1e3a5f';
+
+const COLONNES: Array<{ libelle: Bilingue; largeur: number; droite?: boolean }> = [
+  { libelle: { fr: 'Date', ar: 'التاريخ' }, largeur: 0.12 },
+  { libelle: { fr: 'Opération', ar: 'العملية' }, largeur: 0.4 },
+  { libelle: { fr: 'Débit', ar: 'مدين' }, largeur: 0.16, droite: true },
+  { libelle: { fr: 'Crédit', ar: 'دائن' }, largeur: 0.16, droite: true },
+  { libelle: { fr: 'Solde', ar: 'الرصيد' }, largeur: 0.16, droite: true }
+];
+
+function formaterDate(valeur: Date): string {
+  const date = new Date(valeur);
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+/**
+ * 1 234 567,89 DA ; espaces simples, que la police du PDF affiche toujours
+ */
+export function formaterMontant(montant: number): string {
+  const [entier, decimales] = Math.abs(montant).toFixed(2).split('.');
+  const groupes = entier!.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  return `${montant < 0 ? '-' : ''}${groupes},${decimales} DA`;
+}
+
+/**
+ * Libellé d'une opération : nature, dossier, facture et référence
+ */
+export function libelleOperation(ligne: ProvisionStatementLine): string {
+  const { transaction } = ligne;
+  const libelle = LIBELLES_OPERATION[transaction.transactionType];
+  const details = [
+    transaction.caseNumber ? `Dossier ${transaction.caseNumber}` : undefined,
+    transaction.invoiceNumber ? `Facture ${transaction.invoiceNumber}` : undefined,
+    transaction.reference ? `Réf. ${transaction.reference}` : undefined,
+    transaction.description
+  ].filter((detail): detail is string => !!detail);
+
+  return [`${libelle.fr} — ${libelle.ar}`, ...details].join('\n');
+}
+
+export function nomFichierReleveProvisions(releve: ProvisionStatement): string {
+  const jour = releve.generatedAt.toISOString().slice(0, 10);
+  return `releve-provisions-${releve.caseNumber ? releve.caseNumber.replace(/[^\w-]+/g, '_') : releve.client.id}-${jour}.pdf`;
+}
+
+/**
+ * Relevé imprimable : A4 portrait, en-tête de tableau répété à chaque page,
+ * pagination « page x / y »
+ */
+export function renderProvisionStatementPdf(releve: ProvisionStatement): Promise<Buffer> {
+  const marges = { top: 50, right: 40, bottom: 50, left: 40 };
+  const doc = new PDFDocument({
+    size: 'A4',
+    bufferPages: true,
+    margins: marges,
+    info: {
+      Title: `${TITRE.fr} — ${releve.client.name}`,
+      Producer: 'JuristDZ',
+      CreationDate: releve.generatedAt
+    }
+  });
+  registerPdfFonts(doc);
+  const finished = collectPdf(doc);
+
+  const left = marges.left;
+  const width = doc.page.width - marges.left - marges.right;
+  const bas = () => doc.page.height - marges.bottom;
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bas()) doc.addPage();
+  };
+
+  // En-tête
+  const y = doc.y;
+  writePdfText(doc, TITRE.fr, { x: left, width: width / 2, bold: true, size: 16, color: COULEUR });
+  const basTitre = doc.y;
+  doc.y = y;
+  writePdfText(doc, TITRE.ar, { x: left + width / 2, width: width / 2, bold: true, size: 16, color: COULEUR, direction: 'rtl', align: 'right' });
+  doc.y = Math.max(doc.y, basTitre);
+  doc.moveDown(0.5);
+
+  const periode = releve.periodFrom || releve.periodTo
+    ? `Période du ${releve.periodFrom ? formaterDate(releve.periodFrom) : '…'} au ${releve.periodTo ? formaterDate(releve.periodTo) : formaterDate(releve.generatedAt)}`
+    : `Au ${formaterDate(releve.generatedAt)}`;
+  const identite = [
+    `Client : ${releve.client.name}`,
+    releve.client.address,
+    releve.caseNumber ? `Dossier : ${releve.caseNumber}` : 'Tous les dossiers',
+    periode
+  ].filter((ligne): ligne is string => !!ligne);
+  writePdfText(doc, identite.join('\n'), { x: left, width, size: 10 });
+  doc.moveDown(1);
+
+  // Tableau des opérations
+  const taille = 8.5;
+  const padding = 4;
+  const largeurs = COLONNES.map(colonne => colonne.largeur * width);
+  const abscisses = largeurs.map((_, index) => left + largeurs.slice(0, index).reduce((sum, value) => sum + value, 0));
+
+  const drawEntete = () => {
+    const hauteur = taille * 2 * 1.35 + padding * 2;
+    const top = doc.y;
+    doc.rect(left, top, width, hauteur).fill(COULEUR);
+    COLONNES.forEach((colonne, index) => {
+      doc.y = top + padding;
+      const cellule = { x: abscisses[index]! + padding, width: largeurs[index]! - padding * 2, size: taille, bold: true, color: '#ffffff' };
+      writePdfText(doc, colonne.libelle.fr, { ...cellule, ...(colonne.droite ? { align: 'right' as const } : {}) });
+      writePdfText(doc, colonne.libelle.ar, { ...cellule, direction: 'rtl', align: 'right' });
+    });
+    doc.y = top + hauteur;
+  };
+
+  const drawLigne = (cellules: string[], options: { grisee?: boolean; gras?: boolean } = {}) => {
+    const hauteur = Math.max(...cellules.map((texte, index) =>
+      measurePdfText(doc, texte || ' ', largeurs[index]! - padding * 2, taille, options.gras)
+    )) + padding * 2;
+    if (doc.y + hauteur > bas()) {
+      doc.addPage();
+      drawEntete();
+    }
+    const top = doc.y;
+    if (options.grisee) {
+      doc.save().fillOpacity(0.08).rect(left, top, width, hauteur).fill(COULEUR).restore();
+    }
+    cellules.forEach((texte, index) => {
+      doc.save().lineWidth(0.3).strokeColor('#999999').rect(abscisses[index]!, top, largeurs[index]!, hauteur).stroke().restore();
+      if (!texte) return;
+      doc.y = top + padding;
+      writePdfText(doc, texte, {
+        x: abscisses[index]! + padding,
+        width: largeurs[index]! - padding * 2,
+        size: taille,
+        ...(options.gras ? { bold: true } : {}),
+        ...(COLONNES[index]!.droite ? { align: 'right' as const, direction: 'ltr' as const } : {})
+      });
+    });
+    doc.y = top + hauteur;
+  };
+
+  drawEntete();
+  drawLigne(['', 'Solde d\'ouverture — الرصيد الافتتاحي', '', '', formaterMontant(releve.openingBalance)], { gras: true });
+  releve.lines.forEach((ligne, index) => drawLigne([
+    formaterDate(ligne.transaction.transactionDate),
+    libelleOperation(ligne),
+    ligne.debit ? formaterMontant(ligne.debit) : '',
+    ligne.credit ? formaterMontant(ligne.credit) : '',
+    formaterMontant(ligne.balance)
+  ], { grisee: index % 2 === 1 }));
+  if (releve.lines.length === 0) {
+    drawLigne(['', 'Aucune opération sur la période — لا توجد عمليات خلال الفترة', '', '', '']);
+  }
+  drawLigne([
+    '',
+    'Totaux et solde de clôture — المجاميع والرصيد الختامي',
+    formaterMontant(releve.totalDebits),
+    formaterMontant(releve.totalCredits),
+    formaterMontant(releve.closingBalance)
+  ], { gras: true });
+
+  // Soldes par dossier
+  if (!releve.caseId && releve.balances.length > 0) {
+    doc.moveDown(1.5);
+    ensureSpace(60);
+    writePdfText(doc, 'Provision disponible par dossier — التسبيق المتاح حسب الملف', { x: left, width, bold: true, size: 11, color: COULEUR });
+    doc.moveDown(0.3);
+    for (const solde of releve.balances) {
+      ensureSpace(taille * 2);
+      const top = doc.y;
+      writePdfText(doc, solde.caseNumber ? `Dossier ${solde.caseNumber}` : 'Provision générale — تسبيق عام', { x: left, width: width * 0.6, size: taille + 1 });
+      const basLibelle = doc.y;
+      doc.y = top;
+      writePdfText(doc, formaterMontant(solde.balance), { x: left + width * 0.6, width: width * 0.4, size: taille + 1, align: 'right', direction: 'ltr' });
+      doc.y = Math.max(doc.y, basLibelle);
+    }
+  }
+
+  if (!releve.reconciled) {
+    doc.moveDown(1);
+    writePdfText(doc, 'Attention : le compte de dépôt et les provisions des clients ne concordent pas. Relevé à vérifier. — تنبيه: الحساب غير متطابق', {
+      x: left, width, size: 9, color: '#b91c1c', bold: true
+    }, ensureSpace);
+  }
+
+  paginer(doc, releve, left, width, marges.bottom);
+  doc.end();
+  return finished;
+}
+
+function paginer(doc: PDFKit.PDFDocument, releve: ProvisionStatement, left: number, width: number, margeBas: number): void {
+  const range = doc.bufferedPageRange();
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const page = i - range.start + 1;
+    const savedY = doc.y;
+
+    doc.y = doc.page.height - margeBas + 15;
+    writePdfText(doc, `${TITRE.fr} — ${releve.client.name} — ${formaterDate(releve.generatedAt)}`, { x: left, width: width * 0.7, size: 8, color: '#666666' });
+    doc.y = doc.page.height - margeBas + 15;
+    writePdfText(doc, `Page ${page} / ${range.count} — صفحة ${page} / ${range.count}`, { x: left + width * 0.7, width: width * 0.3, size: 8, color: '#666666', align: 'right' });
+
+    doc.y = savedY;
+  }
+}
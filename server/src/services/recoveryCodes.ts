@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+
+/**
+ * Codes de secours de l'authentification à deux facteurs
+ *
+ * Dix codes à usage unique remis à l'activation du second facteur, pour se
+ * connecter sans le téléphone ou la clé de sécurité. Seuls leurs hachés sont
+ * conservés ; un code est affiché une seule fois.
+ */
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Sans 0/O, 1/I/L : les codes sont souvent recopiés à la main */
+const RECOVERY_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+const HASH_ROUNDS = 10;
+
+/**
+ * Codes au format « XXXXX-XXXXX » (environ 49 bits d'entropie chacun)
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    const characters = Array.from(
+      { length: RECOVERY_CODE_GROUP_LENGTH * 2 },
+      () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join('');
+    codes.add(`${characters.slice(0, RECOVERY_CODE_GROUP_LENGTH)}-${characters.slice(RECOVERY_CODE_GROUP_LENGTH)}`);
+  }
+  return [...codes];
+}
+
+/**
+ * Forme canonique d'un code saisi : majuscules, sans tiret ni espace
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+export function hashRecoveryCode(code: string): Promise<string> {
+  return bcrypt.hash(normalizeRecoveryCode(code), HASH_ROUNDS);
+}
+
+/**
+ * Identifiant du code correspondant à la saisie, parmi les codes non utilisés
+ */
+export async function findRecoveryCode<T extends { id: string; codeHash: string }>(
+  code: string,
+  candidates: T[]
+): Promise<T | null> {
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length !== RECOVERY_CODE_GROUP_LENGTH * 2) {
+    return null;
+  }
+
+  for (const candidate of candidates) {
+    if (await bcrypt.compare(normalized, candidate.codeHash)) {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,466 @@
+import PDFDocument from 'pdfkit';
+import { ActeAuthentique, PartieActe, StatistiquesMinutier, TypeActe } from '@/types/minutier';
+import { formatLegalDate } from '@/services/documentLetterhead';
+import { collectPdf, measurePdfText, registerPdfFonts, writePdfText } from '@/utils/pdfText';
+
+/**
+ * Répertoire annuel des actes
+ *
+ * Mise en forme du répertoire tenu par le notaire : une ligne par acte dans
+ * l'ordre des numéros (numéro, date, nature, parties, enregistrement), avec
+ * une page d'ouverture et une page de clôture certifiées et le récapitulatif
+ * par nature d'acte. Les libellés sont bilingues français / arabe.
+ */
+
+export type FormatRepertoire = 'pdf' | 'csv';
+
+export interface IdentiteNotaire {
+  nom: string;
+  etude?: string;
+  ville?: string;
+  numeroAgrement?: string;
+  chambreNotaires?: string;
+}
+
+export interface RepertoireAnnuel {
+  annee: number;
+  notaire: IdentiteNotaire;
+  /** Actes de l'année, tels que renvoyés par la recherche dans le minutier */
+  actes: ActeAuthentique[];
+  statistiques: StatistiquesMinutier;
+  /** Tête de la chaîne d'empreintes au moment de l'arrêté */
+  hashTete?: string;
+  genereLe: Date;
+}
+
+export interface LigneRepertoire {
+  numeroRepertoire: string;
+  numeroMinutier: string;
+  dateActe: string;
+  nature: { fr: string; ar: string };
+  parties: string;
+  enregistrement: string;
+}
+
+type Bilingue = { fr: string; ar: string };
+
+export const LIBELLES_TYPE_ACTE: Record<TypeActe, Bilingue> = {
+  [TypeActe.VENTE_IMMOBILIERE]: { fr: 'Vente immobilière', ar: 'بيع عقاري' },
+  [TypeActe.DONATION]: { fr: 'Donation', ar: 'هبة' },
+  [TypeActe.SUCCESSION]: { fr: 'Succession', ar: 'تركة' },
+  [TypeActe.HYPOTHEQUE]: { fr: 'Hypothèque', ar: 'رهن رسمي' },
+  [TypeActe.CONTRAT_MARIAGE]: { fr: 'Contrat de mariage', ar: 'عقد زواج' },
+  [TypeActe.TESTAMENT]: { fr: 'Testament', ar: 'وصية' },
+  [TypeActe.PROCURATION]: { fr: 'Procuration', ar: 'وكالة' },
+  [TypeActe.CONSTITUTION_SOCIETE]: { fr: 'Constitution de société', ar: 'تأسيس شركة' },
+  [TypeActe.CESSION_PARTS]: { fr: 'Cession de parts sociales', ar: 'التنازل عن حصص' },
+  [TypeActe.BAIL_EMPHYTEOTIQUE]: { fr: 'Bail emphytéotique', ar: 'إيجار طويل الأمد' },
+  [TypeActe.PARTAGE]: { fr: 'Partage', ar: 'قسمة' },
+  [TypeActe.RECONNAISSANCE_DETTE]: { fr: 'Reconnaissance de dette', ar: 'اعتراف بدين' },
+  [TypeActe.MAINLEVEE]: { fr: 'Mainlevée', ar: 'رفع اليد' },
+  [TypeActe.AUTRE]: { fr: 'Autre acte', ar: 'عقد آخر' }
+};
+
+const COLONNES: Array<{ cle: keyof LigneRepertoire; libelle: Bilingue; largeur: number }> = [
+  { cle: 'numeroRepertoire', libelle: { fr: 'N° répertoire', ar: 'رقم الفهرس' }, largeur: 0.11 },
+  { cle: 'numeroMinutier', libelle: { fr: 'N° minute', ar: 'رقم الأصل' }, largeur: 0.11 },
+  { cle: 'dateActe', libelle: { fr: 'Date', ar: 'التاريخ' }, largeur: 0.08 },
+  { cle: 'nature', libelle: { fr: 'Nature de l\'acte', ar: 'طبيعة العقد' }, largeur: 0.16 },
+  { cle: 'parties', libelle: { fr: 'Parties', ar: 'الأطراف' }, largeur: 0.34 },
+  { cle: 'enregistrement', libelle: { fr: 'Enregistrement', ar: 'التسجيل' }, largeur: 0.2 }
+];
+
+const TITRE: Bilingue = { fr: 'Répertoire des actes', ar: 'فهرس العقود' };
+const COULEUR = '#1e3a5f';
+
+// ─── Données ────────────────────────────────────────────────────────────────
+
+/** Rang annuel d'un numéro de répertoire REP-AAAA-NNNN */
+function rangRepertoire(numero: string, annee: number): number | null {
+  const match = /^REP-(\d{4})-(\d+)$/.exec(numero);
+  return match && Number(match[1]) === annee ? Number(match[2]) : null;
+}
+
+/**
+ * Contrôler que les numéros de répertoire de l'année se suivent sans lacune
+ * ni doublon à partir de 1 ; retourne la liste des anomalies
+ */
+export function verifierContinuiteRepertoire(numeros: string[], annee: number): string[] {
+  const anomalies: string[] = [];
+  const rangs = new Map<number, string>();
+
+  for (const numero of numeros) {
+    const rang = rangRepertoire(numero, annee);
+    if (rang === null) {
+      anomalies.push(`Numéro de répertoire ${numero} étranger à l'année ${annee}`);
+    } else if (rangs.has(rang)) {
+      anomalies.push(`Numéro de répertoire ${numero} attribué à plusieurs actes`);
+    } else {
+      rangs.set(rang, numero);
+    }
+  }
+
+  const dernier = Math.max(0, ...rangs.keys());
+  let debutLacune: number | null = null;
+  for (let rang = 1; rang <= dernier + 1; rang++) {
+    if (rang <= dernier && !rangs.has(rang)) {
+      debutLacune ??= rang;
+    } else if (debutLacune !== null) {
+      const numero = (valeur: number) => `REP-${annee}-${String(valeur).padStart(4, '0')}`;
+      anomalies.push(debutLacune === rang - 1
+        ? `Numéro de répertoire ${numero(debutLacune)} manquant`
+        : `Numéros de répertoire ${numero(debutLacune)} à ${numero(rang - 1)} manquants`);
+      debutLacune = null;
+    }
+  }
+
+  return anomalies;
+}
+
+function formaterDate(valeur: Date | string): string {
+  // Les dates issues du JSONB arrivent sous forme de chaîne AAAA-MM-JJ
+  const match = typeof valeur === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(valeur) : null;
+  if (match) {
+    return `${match[3]}/${match[2]}/${match[1]}`;
+  }
+  const date = new Date(valeur);
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+function formaterPartie(partie: Partial<PartieActe>): string {
+  const nom = [partie.prenom, partie.nom?.toUpperCase()].filter(Boolean).join(' ');
+  return partie.qualite ? `${nom} (${String(partie.qualite).replace(/_/g, ' ')})` : nom;
+}
+
+function formaterEnregistrement(acte: ActeAuthentique): string {
+  const enregistrement = acte.metadonnees?.enregistrement;
+  if (!enregistrement) {
+    return '';
+  }
+  return [
+    enregistrement.bureau,
+    `n° ${enregistrement.numero}`,
+    `du ${formaterDate(enregistrement.dateEnregistrement)}`,
+    ...(enregistrement.droits !== undefined ? [`droits ${enregistrement.droits.toFixed(2)} DA`] : [])
+  ].join(', ');
+}
+
+/**
+ * Lignes du répertoire, dans l'ordre des numéros
+ */
+export function lignesRepertoire(repertoire: RepertoireAnnuel): LigneRepertoire[] {
+  const rang = (acte: ActeAuthentique) => rangRepertoire(acte.numeroRepertoire, repertoire.annee) ?? Number.MAX_SAFE_INTEGER;
+
+  return [...repertoire.actes]
+    .sort((a, b) => rang(a) - rang(b))
+    .map(acte => ({
+      numeroRepertoire: acte.numeroRepertoire,
+      numeroMinutier: acte.numeroMinutier,
+      dateActe: formaterDate(acte.dateActe),
+      nature: LIBELLES_TYPE_ACTE[acte.typeActe] ?? { fr: acte.typeActe, ar: acte.typeActe },
+      parties: (acte.parties ?? []).map(formaterPartie).join(' ; '),
+      enregistrement: formaterEnregistrement(acte)
+    }));
+}
+
+/**
+ * Récapitulatif par nature d'acte, dans l'ordre de l'énumération
+ */
+export function totauxParTypeActe(repertoire: RepertoireAnnuel): Array<{ typeActe: TypeActe; libelle: Bilingue; nombre: number }> {
+  return Object.values(TypeActe)
+    .map(typeActe => ({
+      typeActe,
+      libelle: LIBELLES_TYPE_ACTE[typeActe],
+      nombre: repertoire.statistiques.repartitionTypeActe[typeActe] ?? 0
+    }))
+    .filter(total => total.nombre > 0);
+}
+
+function identiteNotaire(notaire: IdentiteNotaire): Bilingue {
+  const etude = notaire.etude ? `, ${notaire.etude}` : '';
+  const ville = notaire.ville ? ` à ${notaire.ville}` : '';
+  return {
+    fr: `Maître ${notaire.nom}, notaire${ville}${etude}`,
+    ar: `الأستاذ(ة) ${notaire.nom}، موثق${notaire.ville ? ` ب${notaire.ville}` : ''}`
+  };
+}
+
+function certificationOuverture(repertoire: RepertoireAnnuel, lignes: LigneRepertoire[]): Bilingue {
+  const notaire = identiteNotaire(repertoire.notaire);
+  const premier = lignes[0]?.numeroRepertoire;
+  const dernier = lignes[lignes.length - 1]?.numeroRepertoire;
+  const etendue = premier && dernier ? { fr: ` sous les numéros ${premier} à ${dernier}`, ar: ` تحت الأرقام من ${premier} إلى ${dernier}` } : { fr: '', ar: '' };
+
+  return {
+    fr: `Le présent répertoire, tenu par ${notaire.fr}, pour l'année ${repertoire.annee}, `
+      + `comprend ${lignes.length} acte(s) inscrit(s)${etendue.fr}, `
+      + `dans l'ordre chronologique de leur réception.`,
+    ar: `يتضمن هذا الفهرس، الممسوك من طرف ${notaire.ar}، لسنة ${repertoire.annee}، `
+      + `${lignes.length} عقدا مقيدا${etendue.ar}، حسب الترتيب الزمني لتلقيها.`
+  };
+}
+
+function certificationCloture(repertoire: RepertoireAnnuel, lignes: LigneRepertoire[]): Bilingue {
+  const dernier = lignes[lignes.length - 1]?.numeroRepertoire ?? '—';
+  const date = { fr: formatLegalDate(repertoire.genereLe, 'fr'), ar: formatLegalDate(repertoire.genereLe, 'ar') };
+
+  return {
+    fr: `Arrêté le présent répertoire de l'année ${repertoire.annee} au nombre de ${lignes.length} acte(s), `
+      + `le dernier inscrit sous le numéro ${dernier}, sans blanc, rature ni lacune de numérotation. `
+      + `Certifié sincère et conforme au minutier le ${date.fr}.`,
+    ar: `أقفل هذا الفهرس لسنة ${repertoire.annee} على ${lignes.length} عقدا، `
+      + `آخرها مقيد تحت رقم ${dernier}، دون بياض أو شطب أو انقطاع في الترقيم. `
+      + `شهد بصحته ومطابقته لأصول العقود بتاريخ ${date.ar}.`
+  };
+}
+
+export function nomFichierRepertoire(annee: number, format: FormatRepertoire): string {
+  return `repertoire-${annee}.${format}`;
+}
+
+// ─── PDF ────────────────────────────────────────────────────────────────────
+
+/**
+ * Répertoire imprimable : A4 paysage, en-tête de tableau répété à chaque page,
+ * pages d'ouverture et de clôture, pagination « page x / y »
+ */
+export function renderRepertoirePdf(repertoire: RepertoireAnnuel): Promise<Buffer> {
+  const marges = { top: 50, right: 36, bottom: 50, left: 36 };
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    bufferPages: true,
+    margins: marges,
+    info: {
+      Title: `${TITRE.fr} ${repertoire.annee} — ${repertoire.notaire.nom}`,
+      Producer: 'JuristDZ',
+      CreationDate: repertoire.genereLe
+    }
+  });
+  registerPdfFonts(doc);
+  const finished = collectPdf(doc);
+
+  const left = marges.left;
+  const width = doc.page.width - marges.left - marges.right;
+  const bas = () => doc.page.height - marges.bottom;
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bas()) doc.addPage();
+  };
+  const lignes = lignesRepertoire(repertoire);
+
+  // Page d'ouverture
+  pdfPageCertification(doc, repertoire, {
+    titre: { fr: `${TITRE.fr} — Année ${repertoire.annee}`, ar: `${TITRE.ar} — سنة ${repertoire.annee}` },
+    sousTitre: { fr: 'Certificat d\'ouverture', ar: 'شهادة الافتتاح' },
+    texte: certificationOuverture(repertoire, lignes)
+  }, left, width);
+
+  // Répertoire
+  doc.addPage();
+  const taille = 8;
+  const padding = 3;
+  const largeurs = COLONNES.map(colonne => colonne.largeur * width);
+  const abscisses = largeurs.map((_, index) => left + largeurs.slice(0, index).reduce((sum, value) => sum + value, 0));
+
+  const drawEntete = () => {
+    const hauteur = Math.max(...COLONNES.map((colonne, index) =>
+      measurePdfText(doc, colonne.libelle.fr, largeurs[index]! - padding * 2, taille, true)
+      + measurePdfText(doc, colonne.libelle.ar, largeurs[index]! - padding * 2, taille, true)
+    )) + padding * 2;
+    const y = doc.y;
+    doc.rect(left, y, width, hauteur).fill(COULEUR);
+    COLONNES.forEach((colonne, index) => {
+      doc.y = y + padding;
+      const cellule = { x: abscisses[index]! + padding, width: largeurs[index]! - padding * 2, size: taille, bold: true, color: '#ffffff' };
+      writePdfText(doc, colonne.libelle.fr, cellule);
+      writePdfText(doc, colonne.libelle.ar, { ...cellule, direction: 'rtl', align: 'right' });
+    });
+    doc.y = y + hauteur;
+  };
+
+  const drawLigne = (ligne: LigneRepertoire, grisee: boolean) => {
+    const cellules = COLONNES.map(colonne => {
+      const valeur = ligne[colonne.cle];
+      return typeof valeur === 'string' ? [valeur] : [valeur.fr, valeur.ar];
+    });
+    const hauteur = Math.max(...cellules.map((textes, index) =>
+      textes.reduce((sum, texte) => sum + measurePdfText(doc, texte || '—', largeurs[index]! - padding * 2, taille), 0)
+    )) + padding * 2;
+    if (doc.y + hauteur > bas()) {
+      doc.addPage();
+      drawEntete();
+    }
+    const y = doc.y;
+    if (grisee) {
+      doc.save().fillOpacity(0.08).rect(left, y, width, hauteur).fill(COULEUR).restore();
+    }
+    cellules.forEach((textes, index) => {
+      doc.save().lineWidth(0.3).strokeColor('#999999').rect(abscisses[index]!, y, largeurs[index]!, hauteur).stroke().restore();
+      doc.y = y + padding;
+      for (const texte of textes) {
+        writePdfText(doc, texte || '—', { x: abscisses[index]! + padding, width: largeurs[index]! - padding * 2, size: taille });
+      }
+    });
+    doc.y = y + hauteur;
+  };
+
+  pdfTitre(doc, { fr: `${TITRE.fr} ${repertoire.annee}`, ar: `${TITRE.ar} ${repertoire.annee}` }, left, width, 13);
+  doc.moveDown(0.5);
+  drawEntete();
+  if (lignes.length === 0) {
+    writePdfText(doc, 'Aucun acte reçu au cours de l\'année — لا يوجد أي عقد خلال السنة', { x: left, width, size: taille, color: '#777777', align: 'center' });
+  }
+  lignes.forEach((ligne, index) => drawLigne(ligne, index % 2 === 1));
+
+  // Récapitulatif par nature d'acte
+  doc.moveDown(1.5);
+  ensureSpace(120);
+  pdfTitre(doc, { fr: 'Récapitulatif par nature d\'acte', ar: 'ملخص حسب طبيعة العقد' }, left, width, 11);
+  doc.moveDown(0.5);
+  const largeurRecap = width / 2;
+  const recap = [
+    ...totauxParTypeActe(repertoire).map(total => [total.libelle.fr, total.libelle.ar, String(total.nombre)]),
+    ['Total', 'المجموع', String(repertoire.statistiques.nombreActes)]
+  ];
+  recap.forEach((cellules, index) => {
+    ensureSpace(taille * 3);
+    const y = doc.y;
+    const total = index === recap.length - 1;
+    doc.save().lineWidth(0.3).strokeColor('#999999').rect(left, y, largeurRecap, taille * 2.4).stroke().restore();
+    const cellule = { width: largeurRecap * 0.4 - padding * 2, size: taille + 1, bold: total };
+    doc.y = y + padding;
+    writePdfText(doc, cellules[0]!, { ...cellule, x: left + padding });
+    doc.y = y + padding;
+    writePdfText(doc, cellules[1]!, { ...cellule, x: left + largeurRecap * 0.4 + padding, direction: 'rtl', align: 'right' });
+    doc.y = y + padding;
+    writePdfText(doc, cellules[2]!, { ...cellule, width: largeurRecap * 0.2 - padding * 2, x: left + largeurRecap * 0.8 + padding, align: 'right' });
+    doc.y = y + taille * 2.4;
+  });
+  if (repertoire.statistiques.montantTotal > 0) {
+    doc.moveDown(0.5);
+    writePdfText(doc, `Montant total des actes : ${repertoire.statistiques.montantTotal.toFixed(2)} DA — المبلغ الإجمالي للعقود`, {
+      x: left, width, size: taille + 1
+    }, ensureSpace);
+  }
+
+  // Page de clôture
+  doc.addPage();
+  pdfPageCertification(doc, repertoire, {
+    titre: { fr: `${TITRE.fr} — Année ${repertoire.annee}`, ar: `${TITRE.ar} — سنة ${repertoire.annee}` },
+    sousTitre: { fr: 'Certificat de clôture', ar: 'شهادة الإقفال' },
+    texte: certificationCloture(repertoire, lignes),
+    ...(repertoire.hashTete ? { empreinte: repertoire.hashTete } : {})
+  }, left, width);
+
+  pdfPaginer(doc, repertoire, marges.left, width, marges.bottom);
+  doc.end();
+  return finished;
+}
+
+function pdfTitre(doc: PDFKit.PDFDocument, titre: Bilingue, left: number, width: number, size: number): void {
+  const y = doc.y;
+  writePdfText(doc, titre.fr, { x: left, width: width / 2, bold: true, size, color: COULEUR });
+  const hauteur = doc.y - y;
+  doc.y = y;
+  writePdfText(doc, titre.ar, { x: left + width / 2, width: width / 2, bold: true, size, color: COULEUR, direction: 'rtl', align: 'right' });
+  doc.y = Math.max(doc.y, y + hauteur);
+}
+
+function pdfPageCertification(
+  doc: PDFKit.PDFDocument,
+  repertoire: RepertoireAnnuel,
+  page: { titre: Bilingue; sousTitre: Bilingue; texte: Bilingue; empreinte?: string },
+  left: number,
+  width: number
+): void {
+  const { notaire } = repertoire;
+  const colonne = width / 2 - 15;
+
+  doc.y = doc.page.margins.top + 40;
+  writePdfText(doc, page.titre.fr, { x: left, width, align: 'center', bold: true, size: 20, color: COULEUR });
+  writePdfText(doc, page.titre.ar, { x: left, width, align: 'center', bold: true, size: 20, color: COULEUR, direction: 'rtl' });
+  doc.moveDown(0.5);
+  writePdfText(doc, `${page.sousTitre.fr} — ${page.sousTitre.ar}`, { x: left, width, align: 'center', size: 13, color: '#444444' });
+  doc.moveDown(1.5);
+
+  const details = [
+    notaire.etude,
+    notaire.numeroAgrement ? `Agrément n° ${notaire.numeroAgrement}` : undefined,
+    notaire.chambreNotaires ? `Chambre des notaires : ${notaire.chambreNotaires}` : undefined
+  ].filter((ligne): ligne is string => !!ligne);
+  writePdfText(doc, [`Maître ${notaire.nom}`, ...details].join('\n'), { x: left, width, align: 'center', size: 11 });
+  doc.moveDown(1.5);
+
+  const y = doc.y;
+  writePdfText(doc, page.texte.fr, { x: left, width: colonne, size: 11 });
+  const basFr = doc.y;
+  doc.y = y;
+  writePdfText(doc, page.texte.ar, { x: left + width - colonne, width: colonne, size: 11, direction: 'rtl', align: 'right' });
+  doc.y = Math.max(doc.y, basFr);
+
+  if (page.empreinte) {
+    doc.moveDown(1);
+    writePdfText(doc, `Empreinte de la chaîne du minutier / بصمة سلسلة الأصول : ${page.empreinte}`, {
+      x: left, width, size: 8, color: '#555555', align: 'center'
+    });
+  }
+
+  doc.moveDown(3);
+  const signature = doc.y;
+  writePdfText(doc, 'Signature et cachet du notaire', { x: left, width: colonne, size: 11, bold: true });
+  doc.y = signature;
+  writePdfText(doc, 'توقيع وختم الموثق', { x: left + width - colonne, width: colonne, size: 11, bold: true, direction: 'rtl', align: 'right' });
+}
+
+function pdfPaginer(doc: PDFKit.PDFDocument, repertoire: RepertoireAnnuel, left: number, width: number, margeBas: number): void {
+  const range = doc.bufferedPageRange();
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const page = i - range.start + 1;
+    const savedY = doc.y;
+
+    doc.y = doc.page.height - margeBas + 15;
+    writePdfText(doc, `${TITRE.fr} ${repertoire.annee} — Maître ${repertoire.notaire.nom}`, { x: left, width: width / 2, size: 8, color: '#666666' });
+    doc.y = doc.page.height - margeBas + 15;
+    writePdfText(doc, `Page ${page} / ${range.count} — صفحة ${page} / ${range.count}`, { x: left + width / 2, width: width / 2, size: 8, color: '#666666', align: 'right' });
+
+    doc.y = savedY;
+  }
+}
+
+// ─── CSV ────────────────────────────────────────────────────────────────────
+
+/**
+ * CSV RFC 4180 avec BOM UTF-8 : le répertoire, puis le récapitulatif par nature d'acte
+ */
+export function renderRepertoireCsv(repertoire: RepertoireAnnuel): Buffer {
+  const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const line = (cells: string[]) => cells.map(escape).join(',');
+  const bilingue = (libelle: Bilingue) => `${libelle.fr} / ${libelle.ar}`;
+
+  const repertoireBloc = [
+    line([`${bilingue(TITRE)} ${repertoire.annee} — Maître ${repertoire.notaire.nom}`]),
+    // La nature de l'acte occupe deux colonnes, une par langue
+    line(COLONNES.flatMap(colonne => (colonne.cle === 'nature' ? [colonne.libelle.fr, colonne.libelle.ar] : [bilingue(colonne.libelle)]))),
+    ...lignesRepertoire(repertoire).map(ligne => line([
+      ligne.numeroRepertoire,
+      ligne.numeroMinutier,
+      ligne.dateActe,
+      ligne.nature.fr,
+      ligne.nature.ar,
+      ligne.parties,
+      ligne.enregistrement
+    ]))
+  ];
+
+  const totauxBloc = [
+    line([bilingue({ fr: 'Récapitulatif par nature d\'acte', ar: 'ملخص حسب طبيعة العقد' })]),
+    line(['Nature de l\'acte', 'طبيعة العقد', bilingue({ fr: 'Nombre', ar: 'العدد' })]),
+    ...totauxParTypeActe(repertoire).map(total => line([total.libelle.fr, total.libelle.ar, String(total.nombre)])),
+    line(['Total', 'المجموع', String(repertoire.statistiques.nombreActes)])
+  ];
+
+  const content = [repertoireBloc, totauxBloc].map(block => block.join('\r\n')).join('\r\n\r\n') + '\r\n';
+  return Buffer.from(`\uFEFF${content}`, 'utf8');
+}
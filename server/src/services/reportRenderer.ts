@@ -0,0 +1,894 @@
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import {
+  Report,
+  ReportFormat,
+  ReportTemplate,
+  ReportSection,
+  ReportStyling,
+  ReportHeader,
+  ReportFooter,
+  SectionType,
+  ExportConfiguration
+} from '@/types/report';
+import { collectPdf, drawPdfWatermark, measurePdfText, registerPdfFonts, writePdfText } from '@/utils/pdfText';
+
+/**
+ * Report Renderer
+ * Transforme les données d'un rapport et la mise en page de son modèle
+ * (sections, styles, en-têtes et pieds de page) en fichiers PDF, Excel,
+ * CSV, JSON ou HTML. Le texte arabe est composé de droite à gauche.
+ */
+
+export type ReportLanguage = 'fr' | 'ar';
+
+export interface RenderableColumn {
+  key: string;
+  label: string;
+}
+
+export type RenderableSection =
+  | { kind: 'summary'; title: string; items: Array<{ key: string; label: string; value: unknown }> }
+  | { kind: 'table'; title: string; columns: RenderableColumn[]; rows: Array<Record<string, unknown>> }
+  | { kind: 'chart'; title: string; points: Array<{ label: string; value: number }> }
+  | { kind: 'text'; title: string; text: string }
+  | { kind: 'image'; title: string; imagePath: string }
+  | { kind: 'page_break' };
+
+export interface RenderableReport {
+  id: string;
+  title: string;
+  description?: string;
+  type: string;
+  language: ReportLanguage;
+  generatedAt: Date;
+  /** Bloc « métadonnées » affiché si ExportConfiguration.includeMetadata */
+  metadata: Array<{ label: string; value: string }>;
+  sections: RenderableSection[];
+  styling: ReportStyling;
+  headers: ReportHeader[];
+  footers: ReportFooter[];
+}
+
+export const DEFAULT_REPORT_STYLING: ReportStyling = {
+  fontFamily: 'DejaVu Sans',
+  fontSize: 10,
+  primaryColor: '#1e3a5f',
+  secondaryColor: '#c9a227',
+  headerHeight: 30,
+  footerHeight: 30,
+  margins: { top: 60, right: 40, bottom: 60, left: 40 }
+};
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'pdf',
+  [ReportFormat.EXCEL]: 'xlsx',
+  [ReportFormat.CSV]: 'csv',
+  [ReportFormat.JSON]: 'json',
+  [ReportFormat.HTML]: 'html'
+};
+
+// ─── Libellés ───────────────────────────────────────────────────────────────
+
+const LABELS: Record<string, { fr: string; ar: string }> = {
+  // Sections
+  summary: { fr: 'Synthèse', ar: 'ملخص' },
+  caseDetails: { fr: 'Détail des dossiers', ar: 'تفاصيل الملفات' },
+  timeDistribution: { fr: 'Répartition du temps', ar: 'توزيع الوقت' },
+  revenueByMonth: { fr: 'Chiffre d\'affaires mensuel', ar: 'الإيرادات الشهرية' },
+  topClients: { fr: 'Principaux clients', ar: 'أهم الموكلين' },
+  upcomingDeadlines: { fr: 'Échéances à venir', ar: 'الآجال القادمة' },
+  timeEntries: { fr: 'Saisies de temps', ar: 'تسجيلات الوقت' },
+  dailyBreakdown: { fr: 'Répartition journalière', ar: 'التوزيع اليومي' },
+  activityBreakdown: { fr: 'Répartition par activité', ar: 'التوزيع حسب النشاط' },
+  lawyerPerformance: { fr: 'Performance des avocats', ar: 'أداء المحامين' },
+  invoices: { fr: 'Factures', ar: 'الفواتير' },
+  paymentTrends: { fr: 'Évolution des paiements', ar: 'تطور المدفوعات' },
+  clientPaymentBehavior: { fr: 'Comportement de paiement', ar: 'سلوك الدفع' },
+  agingReport: { fr: 'Balance âgée', ar: 'أعمار الديون' },
+  lawyerMetrics: { fr: 'Indicateurs par avocat', ar: 'مؤشرات المحامين' },
+  caseMetrics: { fr: 'Indicateurs par domaine', ar: 'مؤشرات حسب المجال' },
+  clientMetrics: { fr: 'Indicateurs clients', ar: 'مؤشرات الموكلين' },
+  trendAnalysis: { fr: 'Tendances', ar: 'الاتجاهات' },
+  metadata: { fr: 'Métadonnées', ar: 'البيانات الوصفية' },
+  // Synthèses
+  totalCases: { fr: 'Dossiers', ar: 'الملفات' },
+  activeCases: { fr: 'Dossiers actifs', ar: 'الملفات النشطة' },
+  closedCases: { fr: 'Dossiers clos', ar: 'الملفات المغلقة' },
+  totalHours: { fr: 'Heures totales', ar: 'مجموع الساعات' },
+  totalRevenue: { fr: 'Chiffre d\'affaires', ar: 'الإيرادات' },
+  averageCaseDuration: { fr: 'Durée moyenne (jours)', ar: 'متوسط المدة (أيام)' },
+  billableHours: { fr: 'Heures facturables', ar: 'الساعات القابلة للفوترة' },
+  nonBillableHours: { fr: 'Heures non facturables', ar: 'الساعات غير القابلة للفوترة' },
+  billableRate: { fr: 'Taux facturable (%)', ar: 'نسبة الفوترة (%)' },
+  averageHourlyRate: { fr: 'Taux horaire moyen', ar: 'متوسط السعر بالساعة' },
+  totalInvoiced: { fr: 'Total facturé', ar: 'مجموع المفوتر' },
+  totalPaid: { fr: 'Total encaissé', ar: 'مجموع المحصل' },
+  totalOutstanding: { fr: 'Encours', ar: 'المستحقات' },
+  totalOverdue: { fr: 'Impayés échus', ar: 'المتأخرات' },
+  averagePaymentTime: { fr: 'Délai moyen de paiement (jours)', ar: 'متوسط أجل الدفع (أيام)' },
+  collectionRate: { fr: 'Taux de recouvrement (%)', ar: 'نسبة التحصيل (%)' },
+  averageCaseResolutionTime: { fr: 'Délai moyen de résolution', ar: 'متوسط مدة الفصل' },
+  clientSatisfactionScore: { fr: 'Satisfaction client', ar: 'رضا الموكلين' },
+  revenueGrowth: { fr: 'Croissance du CA (%)', ar: 'نمو الإيرادات (%)' },
+  productivityIndex: { fr: 'Indice de productivité', ar: 'مؤشر الإنتاجية' },
+  utilizationRate: { fr: 'Taux d\'utilisation (%)', ar: 'نسبة الاستغلال (%)' },
+  // Colonnes
+  caseNumber: { fr: 'N° dossier', ar: 'رقم الملف' },
+  title: { fr: 'Intitulé', ar: 'العنوان' },
+  caseTitle: { fr: 'Dossier', ar: 'الملف' },
+  client: { fr: 'Client', ar: 'الموكل' },
+  clientName: { fr: 'Client', ar: 'الموكل' },
+  status: { fr: 'Statut', ar: 'الحالة' },
+  openedDate: { fr: 'Ouverture', ar: 'تاريخ الفتح' },
+  closedDate: { fr: 'Clôture', ar: 'تاريخ الغلق' },
+  assignedLawyer: { fr: 'Avocat', ar: 'المحامي' },
+  lawyer: { fr: 'Avocat', ar: 'المحامي' },
+  lawyerName: { fr: 'Avocat', ar: 'المحامي' },
+  lastActivity: { fr: 'Dernière activité', ar: 'آخر نشاط' },
+  documentCount: { fr: 'Documents', ar: 'الوثائق' },
+  eventCount: { fr: 'Événements', ar: 'الأحداث' },
+  activityType: { fr: 'Activité', ar: 'النشاط' },
+  hours: { fr: 'Heures', ar: 'الساعات' },
+  percentage: { fr: '%', ar: '%' },
+  revenue: { fr: 'Montant', ar: 'المبلغ' },
+  month: { fr: 'Mois', ar: 'الشهر' },
+  year: { fr: 'Année', ar: 'السنة' },
+  caseCount: { fr: 'Dossiers', ar: 'الملفات' },
+  averageCaseValue: { fr: 'Valeur moyenne', ar: 'متوسط القيمة' },
+  deadlineTitle: { fr: 'Échéance', ar: 'الأجل' },
+  deadlineDate: { fr: 'Date limite', ar: 'آخر أجل' },
+  priority: { fr: 'Priorité', ar: 'الأولوية' },
+  daysRemaining: { fr: 'Jours restants', ar: 'الأيام المتبقية' },
+  assignedTo: { fr: 'Responsable', ar: 'المسؤول' },
+  date: { fr: 'Date', ar: 'التاريخ' },
+  startTime: { fr: 'Début', ar: 'البداية' },
+  endTime: { fr: 'Fin', ar: 'النهاية' },
+  duration: { fr: 'Durée (h)', ar: 'المدة (س)' },
+  description: { fr: 'Description', ar: 'الوصف' },
+  isBillable: { fr: 'Facturable', ar: 'قابل للفوترة' },
+  hourlyRate: { fr: 'Taux horaire', ar: 'السعر بالساعة' },
+  amount: { fr: 'Montant', ar: 'المبلغ' },
+  invoiceNumber: { fr: 'N° facture', ar: 'رقم الفاتورة' },
+  currency: { fr: 'Devise', ar: 'العملة' },
+  issueDate: { fr: 'Émission', ar: 'تاريخ الإصدار' },
+  dueDate: { fr: 'Échéance', ar: 'تاريخ الاستحقاق' },
+  paidDate: { fr: 'Paiement', ar: 'تاريخ الدفع' },
+  daysOverdue: { fr: 'Jours de retard', ar: 'أيام التأخير' },
+  paymentMethod: { fr: 'Mode de paiement', ar: 'طريقة الدفع' },
+  invoiced: { fr: 'Facturé', ar: 'المفوتر' },
+  paid: { fr: 'Encaissé', ar: 'المحصل' },
+  outstanding: { fr: 'Encours', ar: 'المستحق' },
+  overdueAmount: { fr: 'Montant échu', ar: 'المبلغ المتأخر' },
+  paymentReliability: { fr: 'Fiabilité', ar: 'الموثوقية' },
+  lastPayment: { fr: 'Dernier paiement', ar: 'آخر دفعة' },
+  range: { fr: 'Tranche', ar: 'الفئة' },
+  count: { fr: 'Nombre', ar: 'العدد' },
+  caseLoad: { fr: 'Charge', ar: 'عبء العمل' },
+  resolutionTime: { fr: 'Délai de résolution', ar: 'مدة الفصل' },
+  clientSatisfaction: { fr: 'Satisfaction', ar: 'الرضا' },
+  revenueGenerated: { fr: 'CA généré', ar: 'الإيرادات المحققة' },
+  efficiency: { fr: 'Efficacité', ar: 'الفعالية' },
+  legalDomain: { fr: 'Domaine', ar: 'المجال' },
+  averageValue: { fr: 'Valeur moyenne', ar: 'متوسط القيمة' },
+  averageResolutionTime: { fr: 'Délai moyen', ar: 'متوسط المدة' },
+  successRate: { fr: 'Taux de succès', ar: 'نسبة النجاح' },
+  profitability: { fr: 'Rentabilité', ar: 'المردودية' },
+  complexity: { fr: 'Complexité', ar: 'التعقيد' },
+  clientType: { fr: 'Type de client', ar: 'نوع الموكل' },
+  clientCount: { fr: 'Clients', ar: 'الموكلون' },
+  retentionRate: { fr: 'Fidélisation', ar: 'نسبة الاحتفاظ' },
+  satisfactionScore: { fr: 'Satisfaction', ar: 'الرضا' },
+  growthRate: { fr: 'Croissance', ar: 'النمو' },
+  metric: { fr: 'Indicateur', ar: 'المؤشر' },
+  period: { fr: 'Période', ar: 'الفترة' },
+  value: { fr: 'Valeur', ar: 'القيمة' },
+  previousValue: { fr: 'Valeur précédente', ar: 'القيمة السابقة' },
+  change: { fr: 'Variation', ar: 'التغير' },
+  changePercentage: { fr: 'Variation (%)', ar: 'التغير (%)' },
+  trend: { fr: 'Tendance', ar: 'الاتجاه' },
+  totalTime: { fr: 'Temps total', ar: 'الوقت الإجمالي' },
+  generatedBy: { fr: 'Généré par', ar: 'أنشأه' },
+  generatedAt: { fr: 'Généré le', ar: 'تاريخ الإنشاء' },
+  reportType: { fr: 'Type de rapport', ar: 'نوع التقرير' },
+  dateRange: { fr: 'Période', ar: 'الفترة' },
+  reportId: { fr: 'Référence', ar: 'المرجع' },
+  yes: { fr: 'Oui', ar: 'نعم' },
+  no: { fr: 'Non', ar: 'لا' },
+  page: { fr: 'Page', ar: 'صفحة' }
+};
+
+/** Colonnes techniques jamais affichées */
+const HIDDEN_FIELDS = new Set(['reportId', 'caseId', 'clientId', 'lawyerId', 'invoiceId', 'deadlineId', 'id']);
+
+export function labelFor(key: string, language: ReportLanguage): string {
+  const label = LABELS[key];
+  if (label) return label[language];
+  // camelCase → « Camel case »
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatValue(value: unknown, language: ReportLanguage): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toLocaleDateString('fr-DZ', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return '';
+    return value.toLocaleString('fr-DZ', { maximumFractionDigits: Number.isInteger(value) ? 0 : 2 });
+  }
+  if (typeof value === 'boolean') return labelFor(value ? 'yes' : 'no', language);
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  // Dates sérialisées (données rechargées depuis la base)
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text)) return formatValue(new Date(text), language);
+  return text;
+}
+
+// ─── Construction du modèle ─────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function selectColumns(rows: Array<Record<string, unknown>>, requested: string[] | undefined, language: ReportLanguage): RenderableColumn[] {
+  const available: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!available.includes(key) && !HIDDEN_FIELDS.has(key)) available.push(key);
+    }
+  }
+  const wanted = requested?.filter(key => available.includes(key));
+  return (wanted && wanted.length > 0 ? wanted : available).map(key => ({ key, label: labelFor(key, language) }));
+}
+
+function buildSummary(title: string, data: unknown, fields: string[] | undefined, language: ReportLanguage): RenderableSection | null {
+  if (!isRecord(data)) return null;
+  const keys = Object.keys(data).filter(key => !HIDDEN_FIELDS.has(key) && (!fields || fields.length === 0 || fields.includes(key)));
+  return {
+    kind: 'summary',
+    title,
+    items: keys.map(key => ({ key, label: labelFor(key, language), value: data[key] }))
+  };
+}
+
+function buildTable(title: string, data: unknown, columns: string[] | undefined, limit: number | undefined, language: ReportLanguage): RenderableSection | null {
+  if (!Array.isArray(data)) return null;
+  const rows = data.filter(isRecord).slice(0, limit ?? data.length);
+  return { kind: 'table', title, columns: selectColumns(rows, columns, language), rows };
+}
+
+function buildChart(title: string, data: unknown, configuration: Record<string, any>): RenderableSection | null {
+  if (!Array.isArray(data)) return null;
+  const rows = data.filter(isRecord);
+  const first = rows[0];
+  if (!first) return { kind: 'chart', title, points: [] };
+
+  const labelField: string = configuration['labelField']
+    ?? Object.keys(first).find(key => !HIDDEN_FIELDS.has(key) && typeof first[key] === 'string')
+    ?? Object.keys(first)[0];
+  const valueField: string | undefined = configuration['valueField']
+    ?? Object.keys(first).find(key => typeof first[key] === 'number');
+  if (!valueField) return null;
+
+  return {
+    kind: 'chart',
+    title,
+    points: rows.map(row => ({ label: String(row[labelField] ?? ''), value: Number(row[valueField]) || 0 }))
+  };
+}
+
+function sectionFromTemplate(
+  section: ReportSection,
+  data: Record<string, unknown>,
+  language: ReportLanguage,
+  customFields: string[] | undefined
+): RenderableSection | null {
+  const configuration = section.configuration ?? {};
+  const dataKey: string | undefined = configuration['dataKey'];
+  const title = section.title || (dataKey ? labelFor(dataKey, language) : '');
+  const columns: string[] | undefined = customFields?.length ? customFields : configuration['columns'];
+
+  switch (section.type) {
+    case SectionType.SUMMARY:
+      return buildSummary(title, data[dataKey ?? 'summary'], columns, language);
+    case SectionType.TABLE:
+      return dataKey ? buildTable(title, data[dataKey], columns, configuration['limit'], language) : null;
+    case SectionType.CHART:
+      return dataKey ? buildChart(title, data[dataKey], configuration) : null;
+    case SectionType.TEXT: {
+      const text = configuration['text'] ?? configuration['content'];
+      return typeof text === 'string' ? { kind: 'text', title, text } : null;
+    }
+    case SectionType.IMAGE: {
+      const imagePath = configuration['path'];
+      return typeof imagePath === 'string' && fs.existsSync(imagePath) ? { kind: 'image', title, imagePath } : null;
+    }
+    case SectionType.PAGE_BREAK:
+      return { kind: 'page_break' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Modèle de rendu commun à tous les formats. Sans modèle de rapport, toutes
+ * les données sont présentées : la synthèse puis un tableau par liste.
+ */
+export function buildRenderableReport(
+  report: Report,
+  data: Record<string, unknown>,
+  template: ReportTemplate | null,
+  config?: ExportConfiguration
+): RenderableReport {
+  const language: ReportLanguage = report.parameters?.language === 'ar' ? 'ar' : 'fr';
+  const customFields = config?.customFields;
+  let sections: RenderableSection[];
+
+  const templateSections = template?.layout?.sections?.filter(section => section.visible !== false) ?? [];
+  if (templateSections.length > 0) {
+    sections = [...templateSections]
+      .sort((a, b) => a.order - b.order)
+      .map(section => sectionFromTemplate(section, data, language, customFields))
+      .filter((section): section is RenderableSection => section !== null);
+  } else {
+    sections = Object.keys(data)
+      .map(key => (Array.isArray(data[key])
+        ? buildTable(labelFor(key, language), data[key], customFields, undefined, language)
+        : buildSummary(labelFor(key, language), data[key], undefined, language)))
+      .filter((section): section is RenderableSection => section !== null);
+  }
+
+  const generatedAt = report.generatedAt ?? new Date();
+  const metadata = [
+    { label: labelFor('reportId', language), value: report.id },
+    { label: labelFor('reportType', language), value: report.type },
+    { label: labelFor('generatedAt', language), value: generatedAt.toLocaleString('fr-DZ') },
+    { label: labelFor('generatedBy', language), value: report.generatedBy }
+  ];
+  const range = report.parameters?.dateRange;
+  if (range?.from && range?.to) {
+    metadata.push({
+      label: labelFor('dateRange', language),
+      value: `${formatValue(new Date(range.from), language)} – ${formatValue(new Date(range.to), language)}`
+    });
+  }
+
+  return {
+    id: report.id,
+    title: report.title,
+    ...(report.description ? { description: report.description } : {}),
+    type: report.type,
+    language,
+    generatedAt,
+    metadata,
+    sections,
+    styling: { ...DEFAULT_REPORT_STYLING, ...(template?.layout?.styling ?? {}) },
+    headers: template?.layout?.headers ?? [],
+    footers: template?.layout?.footers ?? []
+  };
+}
+
+function applyPlaceholders(content: string, model: RenderableReport, page?: number, pages?: number): string {
+  return content
+    .replace(/\{title\}/g, model.title)
+    .replace(/\{date\}/g, model.generatedAt.toLocaleDateString('fr-DZ'))
+    .replace(/\{page\}/g, page !== undefined ? String(page) : '')
+    .replace(/\{pages\}/g, pages !== undefined ? String(pages) : '');
+}
+
+// ─── Rendu ──────────────────────────────────────────────────────────────────
+
+export class ReportRenderer {
+
+  // ─── PDF ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Le PDF utilise une police TrueType couvrant l'arabe (DejaVu Sans par défaut) :
+   * les polices standard PDF ne contiennent pas de glyphes arabes.
+   */
+  renderPDF(model: RenderableReport, config?: ExportConfiguration): Promise<Buffer> {
+    const { styling } = model;
+    const rtl = model.language === 'ar';
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      bufferPages: true,
+      margins: styling.margins,
+      info: { Title: model.title, Producer: 'JuristDZ', CreationDate: model.generatedAt },
+      ...(config?.password
+        ? {
+          userPassword: config.password,
+          ownerPassword: config.password,
+          permissions: { printing: 'highResolution' as const, copying: false, modifying: false }
+        }
+        : {})
+    });
+    registerPdfFonts(doc);
+    const finished = collectPdf(doc);
+
+    const left = styling.margins.left;
+    const contentWidth = doc.page.width - styling.margins.left - styling.margins.right;
+    const bottom = () => doc.page.height - styling.margins.bottom;
+    const align = rtl ? 'right' : 'left';
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > bottom()) doc.addPage();
+    };
+
+    writePdfText(doc, model.title, { x: left, width: contentWidth, align: 'center', bold: true, size: styling.fontSize + 8, color: styling.primaryColor });
+    if (model.description) {
+      doc.moveDown(0.3);
+      writePdfText(doc, model.description, { x: left, width: contentWidth, align: 'center', size: styling.fontSize, color: '#555555' });
+    }
+    doc.moveDown(1);
+
+    if (config?.includeMetadata) {
+      this.pdfSummary(doc, model, {
+        kind: 'summary',
+        title: labelFor('metadata', model.language),
+        items: model.metadata.map(item => ({ key: item.label, label: item.label, value: item.value }))
+      }, left, contentWidth, ensureSpace);
+    }
+
+    for (const section of model.sections) {
+      if (section.kind === 'page_break') {
+        doc.addPage();
+        continue;
+      }
+
+      ensureSpace(styling.fontSize * 4);
+      writePdfText(doc, section.title, { x: left, width: contentWidth, align, bold: true, size: styling.fontSize + 3, color: styling.primaryColor });
+      doc.moveDown(0.4);
+
+      switch (section.kind) {
+        case 'summary':
+          this.pdfSummary(doc, model, section, left, contentWidth, ensureSpace);
+          break;
+        case 'table':
+          this.pdfTable(doc, model, section, left, contentWidth, ensureSpace);
+          break;
+        case 'chart':
+          this.pdfChart(doc, model, section, left, contentWidth, ensureSpace);
+          break;
+        case 'text':
+          writePdfText(doc, section.text, { x: left, width: contentWidth, align, size: styling.fontSize }, ensureSpace);
+          break;
+        case 'image':
+          ensureSpace(200);
+          doc.image(section.imagePath, left, doc.y, { fit: [contentWidth, 200], align: 'center' });
+          doc.y += 205;
+          break;
+      }
+      doc.moveDown(1);
+    }
+
+    this.pdfDecoratePages(doc, model, config);
+    doc.end();
+    return finished;
+  }
+
+  private pdfSummary(
+    doc: PDFKit.PDFDocument,
+    model: RenderableReport,
+    section: Extract<RenderableSection, { kind: 'summary' }>,
+    left: number,
+    width: number,
+    ensureSpace: (height: number) => void
+  ): void {
+    this.pdfTable(doc, model, {
+      kind: 'table',
+      title: section.title,
+      columns: [{ key: 'label', label: '' }, { key: 'value', label: '' }],
+      rows: section.items.map(item => ({ label: item.label, value: item.value }))
+    }, left, width, ensureSpace, false);
+  }
+
+  private pdfTable(
+    doc: PDFKit.PDFDocument,
+    model: RenderableReport,
+    section: Extract<RenderableSection, { kind: 'table' }>,
+    left: number,
+    width: number,
+    ensureSpace: (height: number) => void,
+    withHeader = true
+  ): void {
+    const { styling } = model;
+    const rtl = model.language === 'ar';
+    const size = Math.max(6, styling.fontSize - (section.columns.length > 6 ? 2 : 0));
+    const padding = 4;
+    // En arabe, la première colonne est à droite
+    const columns = rtl ? [...section.columns].reverse() : section.columns;
+    const columnWidth = width / Math.max(1, columns.length);
+
+    const drawRow = (cells: string[], header: boolean, shaded: boolean) => {
+      const height = Math.max(...cells.map(cell => measurePdfText(doc, cell, columnWidth - padding * 2, size, header))) + padding * 2;
+      if (doc.y + height > doc.page.height - styling.margins.bottom) {
+        doc.addPage();
+        if (!header && withHeader) drawRow(columns.map(column => column.label), true, false);
+      }
+      const y = doc.y;
+
+      if (header) {
+        doc.rect(left, y, width, height).fill(styling.primaryColor);
+      } else if (shaded) {
+        doc.save().fillOpacity(0.12).rect(left, y, width, height).fill(styling.secondaryColor).restore();
+      }
+      doc.save().lineWidth(0.3).strokeColor('#bbbbbb').rect(left, y, width, height).stroke().restore();
+
+      cells.forEach((cell, index) => {
+        doc.y = y + padding;
+        writePdfText(doc, cell, {
+          x: left + index * columnWidth + padding,
+          width: columnWidth - padding * 2,
+          size,
+          bold: header,
+          color: header ? '#ffffff' : '#000000',
+          ...(rtl ? { align: 'right' as const } : {})
+        });
+      });
+      doc.y = y + height;
+    };
+
+    if (section.rows.length === 0) {
+      ensureSpace(size * 2);
+      writePdfText(doc, '—', { x: left, width, size, color: '#777777', align: rtl ? 'right' : 'left' });
+      return;
+    }
+
+    if (withHeader) drawRow(columns.map(column => column.label), true, false);
+    section.rows.forEach((row, index) => {
+      drawRow(columns.map(column => formatValue(row[column.key], model.language)), false, index % 2 === 1);
+    });
+    doc.x = left;
+  }
+
+  private pdfChart(
+    doc: PDFKit.PDFDocument,
+    model: RenderableReport,
+    section: Extract<RenderableSection, { kind: 'chart' }>,
+    left: number,
+    width: number,
+    ensureSpace: (height: number) => void
+  ): void {
+    const { styling } = model;
+    const rtl = model.language === 'ar';
+    const max = Math.max(1, ...section.points.map(point => Math.abs(point.value)));
+    const labelWidth = width * 0.3;
+    const valueWidth = width * 0.15;
+    const barMax = width - labelWidth - valueWidth - 10;
+    const barHeight = styling.fontSize + 4;
+
+    for (const point of section.points) {
+      ensureSpace(barHeight + 4);
+      const y = doc.y;
+      const barWidth = (Math.abs(point.value) / max) * barMax;
+      const labelX = rtl ? left + width - labelWidth : left;
+      const barX = rtl ? left + width - labelWidth - 5 - barWidth : left + labelWidth + 5;
+      const valueX = rtl ? left : left + labelWidth + barMax + 10;
+
+      writePdfText(doc, point.label, { x: labelX, width: labelWidth, size: styling.fontSize, align: rtl ? 'right' : 'left' });
+      doc.rect(barX, y + 1, Math.max(1, barWidth), barHeight - 2).fill(styling.primaryColor);
+      doc.y = y;
+      writePdfText(doc, formatValue(point.value, model.language), { x: valueX, width: valueWidth, size: styling.fontSize, align: rtl ? 'left' : 'right' });
+      doc.y = y + barHeight + 4;
+    }
+  }
+
+  /**
+   * En-têtes, pieds de page, numérotation et filigrane sur toutes les pages
+   */
+  private pdfDecoratePages(doc: PDFKit.PDFDocument, model: RenderableReport, config?: ExportConfiguration): void {
+    const { styling } = model;
+    const range = doc.bufferedPageRange();
+    const width = doc.page.width - styling.margins.left - styling.margins.right;
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const page = i - range.start + 1;
+      const savedY = doc.y;
+
+      let headerY = Math.max(10, styling.margins.top - styling.headerHeight);
+      for (const header of model.headers) {
+        doc.y = headerY;
+        headerY += writePdfText(doc, applyPlaceholders(header.content, model, page, range.count), {
+          x: styling.margins.left, width, align: header.alignment, bold: header.bold, size: header.fontSize, color: '#444444'
+        });
+      }
+
+      let footerY = doc.page.height - styling.margins.bottom + Math.max(5, (styling.margins.bottom - styling.footerHeight) / 2);
+      const footers = model.footers.length > 0
+        ? model.footers
+        : [{ content: '', alignment: 'center' as const, fontSize: 8, includePageNumber: true }];
+      for (const footer of footers) {
+        let content = applyPlaceholders(footer.content, model, page, range.count);
+        if (footer.includePageNumber) {
+          content = `${content} ${labelFor('page', model.language)} ${page} / ${range.count}`.trim();
+        }
+        doc.y = footerY;
+        footerY += writePdfText(doc, content, {
+          x: styling.margins.left, width, align: footer.alignment, size: footer.fontSize, color: '#666666'
+        });
+      }
+
+      if (config?.watermark) {
+        drawPdfWatermark(doc, config.watermark);
+      }
+
+      doc.y = savedY;
+    }
+  }
+
+  // ─── Excel ────────────────────────────────────────────────────────────────
+
+  async renderExcel(model: RenderableReport, config?: ExportConfiguration): Promise<Buffer> {
+    const { styling } = model;
+    const rtl = model.language === 'ar';
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'JuristDZ';
+    workbook.created = model.generatedAt;
+    workbook.title = model.title;
+
+    const argb = (hex: string) => `FF${hex.replace('#', '').toUpperCase().padEnd(6, '0').slice(0, 6)}`;
+    const font = { name: styling.fontFamily, size: styling.fontSize };
+    const usedNames = new Set<string>();
+    const sheetName = (title: string) => {
+      const base = (title.replace(/[\[\]:*?/\\]/g, ' ').trim() || 'Feuille').slice(0, 28);
+      let name = base;
+      for (let i = 2; usedNames.has(name.toLowerCase()); i++) name = `${base} ${i}`;
+      usedNames.add(name.toLowerCase());
+      return name;
+    };
+    const addSheet = (title: string) => {
+      const sheet = workbook.addWorksheet(sheetName(title), {
+        views: [{ rightToLeft: rtl }],
+        headerFooter: {
+          oddHeader: `&C${config?.watermark ?? model.title}`,
+          oddFooter: `&C${labelFor('page', model.language)} &P / &N`
+        }
+      });
+      return sheet;
+    };
+    const styleHeaderRow = (row: ExcelJS.Row) => {
+      row.font = { ...font, bold: true, color: { argb: 'FFFFFFFF' } };
+      row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: argb(styling.primaryColor) } };
+      row.alignment = { horizontal: rtl ? 'right' : 'left', vertical: 'middle', wrapText: true };
+    };
+    const cellValue = (value: unknown): ExcelJS.CellValue => {
+      if (value === null || value === undefined) return null;
+      if (value instanceof Date || typeof value === 'number') return value;
+      if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return new Date(value);
+      return formatValue(value, model.language);
+    };
+
+    // Première feuille : titre, métadonnées et synthèses
+    const overview = addSheet(model.title);
+    overview.addRow([model.title]).font = { ...font, size: styling.fontSize + 6, bold: true, color: { argb: argb(styling.primaryColor) } };
+    if (model.description) overview.addRow([model.description]);
+    overview.addRow([]);
+    if (config?.includeMetadata) {
+      styleHeaderRow(overview.addRow([labelFor('metadata', model.language), '']));
+      for (const item of model.metadata) overview.addRow([item.label, item.value]).font = font;
+      overview.addRow([]);
+    }
+
+    for (const section of model.sections) {
+      if (section.kind === 'summary') {
+        styleHeaderRow(overview.addRow([section.title, '']));
+        for (const item of section.items) overview.addRow([item.label, cellValue(item.value)]).font = font;
+        overview.addRow([]);
+      } else if (section.kind === 'text') {
+        overview.addRow([section.title]).font = { ...font, bold: true };
+        overview.addRow([section.text]).alignment = { wrapText: true };
+        overview.addRow([]);
+      } else if (section.kind === 'table' || section.kind === 'chart') {
+        const sheet = addSheet(section.title);
+        const columns = section.kind === 'table'
+          ? section.columns
+          : [{ key: 'label', label: labelFor('metric', model.language) }, { key: 'value', label: labelFor('value', model.language) }];
+        const rows: Array<Record<string, unknown>> = section.kind === 'table' ? section.rows : section.points;
+
+        sheet.columns = columns.map(column => ({
+          header: column.label,
+          key: column.key,
+          width: Math.min(50, Math.max(12, column.label.length + 2,
+            ...rows.slice(0, 200).map(row => formatValue(row[column.key], model.language).length + 2)))
+        }));
+        styleHeaderRow(sheet.getRow(1));
+        rows.forEach((row, index) => {
+          const added = sheet.addRow(columns.map(column => cellValue(row[column.key])));
+          added.font = font;
+          if (index % 2 === 1) {
+            added.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `1F${argb(styling.secondaryColor).slice(2)}` } };
+          }
+        });
+        sheet.views = [{ state: 'frozen', ySplit: 1, rightToLeft: rtl }];
+        if (config?.password) await sheet.protect(config.password, { selectLockedCells: true, selectUnlockedCells: true });
+      }
+    }
+
+    overview.getColumn(1).width = 40;
+    overview.getColumn(2).width = 30;
+    if (config?.password) await overview.protect(config.password, { selectLockedCells: true, selectUnlockedCells: true });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+  }
+
+  // ─── CSV ──────────────────────────────────────────────────────────────────
+
+  /**
+   * CSV RFC 4180 avec BOM UTF-8 (ouverture correcte de l'arabe dans Excel) ;
+   * une section par bloc, séparés par une ligne vide.
+   */
+  renderCSV(model: RenderableReport, config?: ExportConfiguration): Promise<Buffer> {
+    const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    const line = (cells: string[]) => cells.map(escape).join(',');
+    const blocks: string[][] = [];
+
+    if (config?.includeMetadata) {
+      blocks.push([line([labelFor('metadata', model.language)]), ...model.metadata.map(item => line([item.label, item.value]))]);
+    }
+
+    for (const section of model.sections) {
+      switch (section.kind) {
+        case 'summary':
+          blocks.push([line([section.title]), ...section.items.map(item => line([item.label, formatValue(item.value, model.language)]))]);
+          break;
+        case 'table':
+          blocks.push([
+            line([section.title]),
+            line(section.columns.map(column => column.label)),
+            ...section.rows.map(row => line(section.columns.map(column => formatValue(row[column.key], model.language))))
+          ]);
+          break;
+        case 'chart':
+          blocks.push([line([section.title]), ...section.points.map(point => line([point.label, String(point.value)]))]);
+          break;
+        case 'text':
+          blocks.push([line([section.title]), line([section.text])]);
+          break;
+      }
+    }
+
+    const content = blocks.map(block => block.join('\r\n')).join('\r\n\r\n') + '\r\n';
+    return Promise.resolve(Buffer.from(`\uFEFF${content}`, 'utf8'));
+  }
+
+  // ─── JSON ─────────────────────────────────────────────────────────────────
+
+  renderJSON(model: RenderableReport, config?: ExportConfiguration): Promise<Buffer> {
+    const document = {
+      report: {
+        id: model.id,
+        title: model.title,
+        description: model.description,
+        type: model.type,
+        language: model.language,
+        generatedAt: model.generatedAt.toISOString()
+      },
+      ...(config?.includeMetadata ? { metadata: model.metadata } : {}),
+      ...(config?.watermark ? { watermark: config.watermark } : {}),
+      sections: model.sections
+        .filter(section => section.kind !== 'page_break' && section.kind !== 'image')
+        .map(section => {
+          switch (section.kind) {
+            case 'summary':
+              return { type: 'summary', title: section.title, data: Object.fromEntries(section.items.map(item => [item.key, item.value])) };
+            case 'table':
+              return {
+                type: 'table',
+                title: section.title,
+                columns: section.columns,
+                rows: section.rows.map(row => Object.fromEntries(section.columns.map(column => [column.key, row[column.key] ?? null])))
+              };
+            case 'chart':
+              return { type: 'chart', title: section.title, points: section.points };
+            case 'text':
+              return { type: 'text', title: section.title, text: section.text };
+            default:
+              return null;
+          }
+        })
+    };
+    return Promise.resolve(Buffer.from(JSON.stringify(document, null, 2), 'utf8'));
+  }
+
+  // ─── HTML ─────────────────────────────────────────────────────────────────
+
+  renderHTML(model: RenderableReport, config?: ExportConfiguration): Promise<Buffer> {
+    const { styling } = model;
+    const rtl = model.language === 'ar';
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const cell = (tag: 'td' | 'th', value: string) => `<${tag} dir="auto">${escape(value)}</${tag}>`;
+    const table = (headers: string[] | null, rows: string[][]) => [
+      '<table>',
+      headers ? `<thead><tr>${headers.map(header => cell('th', header)).join('')}</tr></thead>` : '',
+      `<tbody>${rows.map(row => `<tr>${row.map(value => cell('td', value)).join('')}</tr>`).join('')}</tbody>`,
+      '</table>'
+    ].join('');
+
+    const body: string[] = [];
+    for (const header of model.headers) {
+      body.push(`<div class="page-header" style="text-align:${header.alignment};font-size:${header.fontSize}px;${header.bold ? 'font-weight:bold;' : ''}">${escape(applyPlaceholders(header.content, model))}</div>`);
+    }
+    body.push(`<h1 dir="auto">${escape(model.title)}</h1>`);
+    if (model.description) body.push(`<p class="description" dir="auto">${escape(model.description)}</p>`);
+    if (config?.includeMetadata) {
+      body.push(`<section><h2>${escape(labelFor('metadata', model.language))}</h2>${table(null, model.metadata.map(item => [item.label, item.value]))}</section>`);
+    }
+
+    for (const section of model.sections) {
+      switch (section.kind) {
+        case 'page_break':
+          body.push('<div class="page-break"></div>');
+          break;
+        case 'summary':
+          body.push(`<section><h2 dir="auto">${escape(section.title)}</h2>${table(null, section.items.map(item => [item.label, formatValue(item.value, model.language)]))}</section>`);
+          break;
+        case 'table':
+          body.push(`<section><h2 dir="auto">${escape(section.title)}</h2>${table(
+            section.columns.map(column => column.label),
+            section.rows.map(row => section.columns.map(column => formatValue(row[column.key], model.language)))
+          )}</section>`);
+          break;
+        case 'chart': {
+          const max = Math.max(1, ...section.points.map(point => Math.abs(point.value)));
+          const bars = section.points.map(point => `<div class="bar-row"><span class="bar-label" dir="auto">${escape(point.label)}</span><span class="bar" style="width:${((Math.abs(point.value) / max) * 60).toFixed(1)}%"></span><span class="bar-value">${escape(formatValue(point.value, model.language))}</span></div>`);
+          body.push(`<section><h2 dir="auto">${escape(section.title)}</h2>${bars.join('')}</section>`);
+          break;
+        }
+        case 'text':
+          body.push(`<section><h2 dir="auto">${escape(section.title)}</h2><p dir="auto">${escape(section.text).replace(/\n/g, '<br>')}</p></section>`);
+          break;
+        case 'image': {
+          const mime = section.imagePath.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+          const data = fs.readFileSync(section.imagePath).toString('base64');
+          body.push(`<section><h2 dir="auto">${escape(section.title)}</h2><img src="data:${mime};base64,${data}" alt="${escape(section.title)}"></section>`);
+          break;
+        }
+      }
+    }
+
+    for (const footer of model.footers) {
+      body.push(`<div class="page-footer" style="text-align:${footer.alignment};font-size:${footer.fontSize}px">${escape(applyPlaceholders(footer.content, model))}</div>`);
+    }
+    if (config?.watermark) body.push(`<div class="watermark">${escape(config.watermark)}</div>`);
+
+    const { margins } = styling;
+    const html = `<!DOCTYPE html>
+<html lang="${model.language}" dir="${rtl ? 'rtl' : 'ltr'}">
+<head>
+<meta charset="utf-8">
+<title>${escape(model.title)}</title>
+<style>
+  body { font-family: "${styling.fontFamily}", "DejaVu Sans", "Noto Naskh Arabic", Arial, sans-serif; font-size: ${styling.fontSize}pt; margin: ${margins.top}px ${margins.right}px ${margins.bottom}px ${margins.left}px; color: #222; }
+  h1 { color: ${styling.primaryColor}; text-align: center; }
+  h2 { color: ${styling.primaryColor}; border-bottom: 2px solid ${styling.secondaryColor}; padding-bottom: 4px; }
+  .description { text-align: center; color: #555; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1em; }
+  th { background: ${styling.primaryColor}; color: #fff; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: start; }
+  tbody tr:nth-child(even) { background: ${styling.secondaryColor}1f; }
+  .bar-row { display: flex; align-items: center; gap: 8px; margin: 3px 0; }
+  .bar-label { flex: 0 0 30%; }
+  .bar { display: inline-block; height: 12px; background: ${styling.primaryColor}; }
+  .page-header { min-height: ${styling.headerHeight}px; color: #444; }
+  .page-footer { min-height: ${styling.footerHeight}px; color: #666; margin-top: 2em; }
+  .page-break { page-break-after: always; }
+  .watermark { position: fixed; top: 45%; left: 0; right: 0; text-align: center; font-size: 72px; color: rgba(150, 150, 150, 0.15); transform: rotate(-45deg); pointer-events: none; }
+  img { max-width: 100%; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+    return Promise.resolve(Buffer.from(html, 'utf8'));
+  }
+}
+
+export const reportRenderer = new ReportRenderer();
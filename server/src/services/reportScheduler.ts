@@ -0,0 +1,88 @@
+import { logger } from '@/utils/logger';
+import { scheduledReportService } from '@/services/scheduledReportService';
+
+export class ReportScheduler {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  /**
+   * Start the report scheduler
+   * Generates and delivers the scheduled reports that are due, and retries failed runs
+   */
+  start(intervalMinutes: number = 5): void {
+    if (this.isRunning) {
+      logger.warn('Report scheduler is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      void this.processScheduledReports();
+    }, intervalMinutes * 60 * 1000);
+
+    logger.info(`Starting report scheduler with ${intervalMinutes} minute intervals`);
+  }
+
+  /**
+   * Stop the report scheduler
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      logger.warn('Report scheduler is not running');
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    logger.info('Report scheduler stopped');
+  }
+
+  /**
+   * Check if scheduler is running
+   */
+  isSchedulerRunning(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Process scheduled reports manually (can be called via API)
+   */
+  async processScheduledReportsManually(): Promise<{ started: number; retried: number }> {
+    return await this.processScheduledReports();
+  }
+
+  /**
+   * Internal method to process scheduled reports
+   */
+  private async processScheduledReports(): Promise<{ started: number; retried: number }> {
+    // A long generation must not overlap with the next tick
+    if (this.isProcessing) {
+      return { started: 0, retried: 0 };
+    }
+
+    this.isProcessing = true;
+    try {
+      logger.debug('Processing scheduled reports...');
+
+      const result = await scheduledReportService.processDueSchedules();
+      if (result.started > 0 || result.retried > 0) {
+        logger.info('Processed scheduled reports', result);
+      }
+
+      return result;
+
+    } catch (error) {
+      logger.error('Error processing scheduled reports:', error);
+      return { started: 0, retried: 0 };
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+export const reportScheduler = new ReportScheduler();
@@ -22,11 +22,20 @@ import {
   CaseActivityDetail,
   TimeEntryDetail,
   InvoiceSummary,
-  LawyerMetrics
+  LawyerMetrics,
+  AgingReportItem
 } from '@/types/report';
 import { caseManagementService } from '@/services/caseManagementService';
+import { reportRenderer, buildRenderableReport, RenderableReport, REPORT_FILE_EXTENSIONS } from '@/services/reportRenderer';
+import { notificationStreamService } from '@/services/notificationStreamService';
+import { invoicePaymentService } from '@/services/invoicePaymentService';
+import { AGING_BUCKETS } from '@/utils/invoicePayments';
 import * as fs from 'fs';
 import * as path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
 
 export class ReportService {
 
@@ -48,6 +57,7 @@ export class ReportService {
         parameters: reportData.parameters,
         generatedBy: userId,
         organizationId,
+        ...(reportData.templateId ? { templateId: reportData.templateId } : {}),
         downloadCount: 0,
         isPublic: false,
         createdAt: new Date(),
@@ -304,37 +314,42 @@ export class ReportService {
    * Export report to specified format
    * Validates: Requirements 5.5 - Report export
    */
-  async exportReport(reportId: string, format: ReportFormat, config?: ExportConfiguration): Promise<string> {
+  async exportReport(reportId: string, format: ReportFormat, config?: ExportConfiguration, data?: Record<string, any>): Promise<string> {
     try {
       const report = await this.getReport(reportId);
       if (!report) {
         throw new Error('Report not found');
       }
 
+      // Re-export of an existing report: data is generated again
+      const reportData = data ?? await this.buildReportData(report, report.generatedBy);
+      const template = report.templateId ? await this.getReportTemplate(report.templateId) : null;
+      const model = buildRenderableReport(report, reportData, template, config);
+
       let filePath: string;
 
       switch (format) {
         case ReportFormat.PDF:
-          filePath = await this.exportToPDF(report, config);
+          filePath = await this.exportToPDF(report, model, config);
           break;
         case ReportFormat.EXCEL:
-          filePath = await this.exportToExcel(report, config);
+          filePath = await this.exportToExcel(report, model, config);
           break;
         case ReportFormat.CSV:
-          filePath = await this.exportToCSV(report, config);
+          filePath = await this.exportToCSV(report, model, config);
           break;
         case ReportFormat.JSON:
-          filePath = await this.exportToJSON(report, config);
+          filePath = await this.exportToJSON(report, model, config);
           break;
         case ReportFormat.HTML:
-          filePath = await this.exportToHTML(report, config);
+          filePath = await this.exportToHTML(report, model, config);
           break;
         default:
           throw new Error(`Unsupported export format: ${format}`);
       }
 
       // Update report with file information
-      await this.updateReportFile(reportId, filePath);
+      await this.updateReportFile(reportId, filePath, format);
 
       logger.info('Report exported successfully', { reportId, format, filePath });
       return filePath;
@@ -552,9 +567,11 @@ export class ReportService {
     }
   }
 
-  // Private helper methods
-
-  private async generateReportAsync(reportId: string, userId: string): Promise<void> {
+  /**
+   * Generate the data and file of a pending report and wait for completion
+   * (used by the scheduler, which delivers the file afterwards)
+   */
+  async runReportGeneration(reportId: string, userId: string): Promise<Report> {
     try {
       // Update status to generating
       await this.updateReportStatus(reportId, ReportStatus.GENERATING);
@@ -564,38 +581,93 @@ export class ReportService {
         throw new Error('Report not found');
       }
 
-      let reportData: any;
-
       // Generate report based on type
-      switch (report.type) {
-        case ReportType.CASE_ACTIVITY:
-          reportData = await this.generateCaseActivityReport(report.parameters, userId);
-          break;
-        case ReportType.TIME_TRACKING:
-          reportData = await this.generateTimeTrackingReport(report.parameters, userId);
-          break;
-        case ReportType.BILLING_SUMMARY:
-          reportData = await this.generateBillingSummaryReport(report.parameters, userId);
-          break;
-        case ReportType.PERFORMANCE_METRICS:
-          reportData = await this.generatePerformanceMetricsReport(report.parameters, userId);
-          break;
-        default:
-          throw new Error(`Unsupported report type: ${report.type}`);
-      }
+      const reportData = await this.buildReportData(report, userId);
 
       // Export report to file
-      const filePath = await this.exportReport(reportId, report.format);
+      const filePath = await this.exportReport(reportId, report.format, undefined, reportData);
 
       // Update status to completed
       await this.updateReportStatus(reportId, ReportStatus.COMPLETED);
       await this.updateReportGeneratedAt(reportId);
 
       logger.info('Report generated successfully', { reportId, filePath });
+      const completed = (await this.getReport(reportId))!;
+      await notificationStreamService.publishReportReady(completed);
+      return completed;
 
     } catch (error) {
-      logger.error('Async report generation error:', error);
+      logger.error('Report generation run error:', error);
       await this.updateReportStatus(reportId, ReportStatus.FAILED);
+      throw error;
+    }
+  }
+
+  /**
+   * Get report by ID
+   */
+  async getReport(reportId: string): Promise<Report | null> {
+    try {
+      const result = await db.query('SELECT * FROM reports WHERE id = $1', [reportId]);
+      if (!result || (result as any).rows.length === 0) {
+        return null;
+      }
+      return this.mapRowToReport((result as any).rows[0]);
+    } catch (error) {
+      logger.error('Get report error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get report template by ID
+   */
+  async getReportTemplate(templateId: string): Promise<ReportTemplate | null> {
+    const result = await db.query('SELECT * FROM report_templates WHERE id = $1', [templateId]);
+    const row = (result as any).rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      format: row.format,
+      parameters: typeof row.parameters === 'string' ? JSON.parse(row.parameters) : row.parameters ?? {},
+      layout: typeof row.layout === 'string' ? JSON.parse(row.layout) : row.layout ?? {},
+      isSystem: row.is_system,
+      isActive: row.is_active,
+      organizationId: row.organization_id,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  // Private helper methods
+
+  private async buildReportData(report: Report, userId: string): Promise<Record<string, any>> {
+    switch (report.type) {
+      case ReportType.CASE_ACTIVITY:
+        return this.generateCaseActivityReport(report.parameters, userId);
+      case ReportType.TIME_TRACKING:
+        return this.generateTimeTrackingReport(report.parameters, userId);
+      case ReportType.BILLING_SUMMARY:
+        return this.generateBillingSummaryReport(report.parameters, userId);
+      case ReportType.PERFORMANCE_METRICS:
+        return this.generatePerformanceMetricsReport(report.parameters, userId);
+      default:
+        throw new Error(`Unsupported report type: ${report.type}`);
+    }
+  }
+
+  private async generateReportAsync(reportId: string, userId: string): Promise<void> {
+    try {
+      await this.runReportGeneration(reportId, userId);
+    } catch (error) {
+      logger.error('Async report generation error:', error);
     }
   }
 
@@ -847,42 +919,6 @@ export class ReportService {
       return [];
     }
   }
-    // This would query the database for detailed case information
-    // For now, return mock data
-    return [
-      {
-        caseId: 'case-1',
-        caseNumber: 'CASE-2024-001',
-        title: 'Contract Dispute',
-        client: 'ABC Corporation',
-        status: 'open',
-        openedDate: new Date('2024-01-15'),
-        assignedLawyer: 'John Doe',
-        totalHours: 45.5,
-        billableHours: 40.0,
-        totalRevenue: 8000,
-        lastActivity: new Date('2024-01-25'),
-        upcomingDeadlines: 2,
-        documentCount: 15,
-        eventCount: 8
-      }
-    ];
-  }
-
-  private async getTimeEntries(parameters: any, userId: string): Promise<TimeEntryDetail[]> {
-    // This would query the case_time_entries table
-    return [];
-  }
-
-  private async getInvoiceSummaries(parameters: any, userId: string): Promise<InvoiceSummary[]> {
-    // This would query the invoices table
-    return [];
-  }
-
-  private async getLawyerMetrics(parameters: any, userId: string): Promise<LawyerMetrics[]> {
-    // This would calculate lawyer performance metrics
-    return [];
-  }
 
   // Helper methods for report data retrieval
 
@@ -1191,15 +1227,20 @@ export class ReportService {
     }
   }
 
-  private async getAgingReport(parameters: any, userId: string): Promise<any[]> {
+  private async getAgingReport(parameters: any, userId: string): Promise<AgingReportItem[]> {
     try {
-      // Mock implementation - would need invoice tables with aging logic
-      return [
-        { range: '0-30 jours', count: 15, amount: 25000, percentage: 60 },
-        { range: '31-60 jours', count: 8, amount: 12000, percentage: 25 },
-        { range: '61-90 jours', count: 3, amount: 4500, percentage: 10 },
-        { range: '90+ jours', count: 2, amount: 2500, percentage: 5 }
-      ];
+      // Reste dû à la fin de la période, d'après l'historique des encaissements et avoirs
+      const report = await invoicePaymentService.getAgingReport({
+        ...(parameters.dateRange?.to ? { asOf: new Date(parameters.dateRange.to) } : {}),
+        lawyerId: userId
+      });
+
+      return report.buckets.map(item => ({
+        range: AGING_BUCKETS.find(b => b.bucket === item.bucket)!.label,
+        count: item.count,
+        amount: item.amount,
+        percentage: item.percentage
+      }));
     } catch (error) {
       logger.error('Get aging report error:', error);
       return [];
@@ -1314,54 +1355,54 @@ export class ReportService {
     }
   }
 
-  private async exportToPDF(report: Report, config?: ExportConfiguration): Promise<string> {
-    // PDF export implementation would go here
-    const fileName = `${report.id}.pdf`;
-    const filePath = path.join('reports', fileName);
-    return filePath;
+  private async exportToPDF(report: Report, model: RenderableReport, config?: ExportConfiguration): Promise<string> {
+    return this.writeReportFile(report, ReportFormat.PDF, await reportRenderer.renderPDF(model, config), config);
   }
 
-  private async exportToExcel(report: Report, config?: ExportConfiguration): Promise<string> {
-    // Excel export implementation would go here
-    const fileName = `${report.id}.xlsx`;
-    const filePath = path.join('reports', fileName);
-    return filePath;
+  private async exportToExcel(report: Report, model: RenderableReport, config?: ExportConfiguration): Promise<string> {
+    return this.writeReportFile(report, ReportFormat.EXCEL, await reportRenderer.renderExcel(model, config), config);
   }
 
-  private async exportToCSV(report: Report, config?: ExportConfiguration): Promise<string> {
-    // CSV export implementation would go here
-    const fileName = `${report.id}.csv`;
-    const filePath = path.join('reports', fileName);
-    return filePath;
+  private async exportToCSV(report: Report, model: RenderableReport, config?: ExportConfiguration): Promise<string> {
+    this.assertNoPassword(ReportFormat.CSV, config);
+    return this.writeReportFile(report, ReportFormat.CSV, await reportRenderer.renderCSV(model, config), config);
   }
 
-  private async exportToJSON(report: Report, config?: ExportConfiguration): Promise<string> {
-    // JSON export implementation would go here
-    const fileName = `${report.id}.json`;
-    const filePath = path.join('reports', fileName);
-    return filePath;
+  private async exportToJSON(report: Report, model: RenderableReport, config?: ExportConfiguration): Promise<string> {
+    this.assertNoPassword(ReportFormat.JSON, config);
+    return this.writeReportFile(report, ReportFormat.JSON, await reportRenderer.renderJSON(model, config), config);
   }
 
-  private async exportToHTML(report: Report, config?: ExportConfiguration): Promise<string> {
-    // HTML export implementation would go here
-    const fileName = `${report.id}.html`;
-    const filePath = path.join('reports', fileName);
-    return filePath;
+  private async exportToHTML(report: Report, model: RenderableReport, config?: ExportConfiguration): Promise<string> {
+    this.assertNoPassword(ReportFormat.HTML, config);
+    return this.writeReportFile(report, ReportFormat.HTML, await reportRenderer.renderHTML(model, config), config);
   }
 
-  private async getReport(reportId: string): Promise<Report | null> {
-    try {
-      const result = await db.query('SELECT * FROM reports WHERE id = $1', [reportId]);
-      if (!result || (result as any).rows.length === 0) {
-        return null;
-      }
-      return this.mapRowToReport((result as any).rows[0]);
-    } catch (error) {
-      logger.error('Get report error:', error);
-      return null;
+  private assertNoPassword(format: ReportFormat, config?: ExportConfiguration): void {
+    if (config?.password) {
+      throw new Error(`Password protection is not available for ${format} exports`);
     }
   }
 
+  /**
+   * Writes the rendered file to report storage, gzipped when compression is requested
+   */
+  private async writeReportFile(report: Report, format: ReportFormat, content: Buffer, config?: ExportConfiguration): Promise<string> {
+    const storagePath = process.env.REPORT_STORAGE_PATH || './storage/reports';
+    await fs.promises.mkdir(storagePath, { recursive: true });
+
+    let fileName = `${report.id}.${REPORT_FILE_EXTENSIONS[format]}`;
+    let data = content;
+    if (config?.compression) {
+      data = await gzipAsync(content);
+      fileName += '.gz';
+    }
+
+    const filePath = path.join(storagePath, fileName);
+    await fs.promises.writeFile(filePath, data);
+    return filePath;
+  }
+
   private async updateReportStatus(reportId: string, status: ReportStatus): Promise<void> {
     await db.query(
       'UPDATE reports SET status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
@@ -1376,11 +1417,11 @@ export class ReportService {
     );
   }
 
-  private async updateReportFile(reportId: string, filePath: string): Promise<void> {
+  private async updateReportFile(reportId: string, filePath: string, format: ReportFormat): Promise<void> {
     const stats = fs.statSync(filePath);
     await db.query(
-      'UPDATE reports SET file_path = $2, file_size = $3, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
-      [reportId, filePath, stats.size]
+      'UPDATE reports SET file_path = $2, file_size = $3, format = $4, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [reportId, filePath, stats.size, format]
     );
   }
 
@@ -1389,13 +1430,14 @@ export class ReportService {
       `INSERT INTO reports (
         id, title, description, type, format, status, parameters, generated_by,
         organization_id, file_path, file_size, generated_at, expires_at,
-        download_count, is_public, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+        download_count, is_public, created_at, updated_at, template_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
       [
         report.id, report.title, report.description, report.type, report.format,
         report.status, JSON.stringify(report.parameters), report.generatedBy,
         report.organizationId, report.filePath, report.fileSize, report.generatedAt,
-        report.expiresAt, report.downloadCount, report.isPublic, report.createdAt, report.updatedAt
+        report.expiresAt, report.downloadCount, report.isPublic, report.createdAt, report.updatedAt,
+        report.templateId ?? null
       ]
     );
   }
@@ -1422,9 +1464,10 @@ export class ReportService {
       type: row.type,
       format: row.format,
       status: row.status,
-      parameters: JSON.parse(row.parameters || '{}'),
+      parameters: typeof row.parameters === 'string' ? JSON.parse(row.parameters) : row.parameters ?? {},
       generatedBy: row.generated_by,
       organizationId: row.organization_id,
+      templateId: row.template_id ?? undefined,
       filePath: row.file_path,
       fileSize: row.file_size,
       generatedAt: row.generated_at ? new Date(row.generated_at) : undefined,
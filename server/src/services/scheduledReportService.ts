@@ -0,0 +1,558 @@
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Report,
+  ReportSchedule,
+  ReportTemplate,
+  ScheduledReport,
+  ScheduledReportRun,
+  ScheduledRunStatus,
+  ScheduleDeliveryChannel,
+  ScheduleFrequency,
+  CreateScheduledReportRequest,
+  UpdateScheduledReportRequest
+} from '@/types/report';
+import { NotificationChannel, NotificationPriority, NotificationType } from '@/types/notification';
+import { reportService } from '@/services/reportService';
+import { notificationService } from '@/services/notificationService';
+import {
+  advanceSchedule,
+  isValidTimezone,
+  nextOccurrence,
+  reportingPeriod
+} from '@/utils/reportSchedule';
+
+/**
+ * Scheduled Report Service
+ * Rapports planifiés : génération à chaque échéance du planning, diffusion
+ * aux destinataires (pièce jointe e-mail ou notification avec lien) et
+ * historique des exécutions, relancées en cas d'échec.
+ */
+
+/** Tentatives par échéance avant abandon */
+const MAX_ATTEMPTS = 3;
+/** Délai avant relance, multiplié par le nombre de tentatives */
+const RETRY_DELAY_MINUTES = 15;
+/** Au-delà, le rapport est envoyé sous forme de lien */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_RECIPIENTS = 50;
+const DUE_BATCH_SIZE = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.gz': 'application/gzip'
+};
+
+export class ScheduledReportService {
+
+  /**
+   * Create a scheduled report from a report template
+   */
+  async createSchedule(request: CreateScheduledReportRequest, userId: string, organizationId?: string): Promise<ScheduledReport> {
+    try {
+      const template = await this.getAccessibleTemplate(request.templateId, userId, organizationId);
+      if (!template) {
+        throw new Error('Report template not found');
+      }
+
+      const schedule = this.normalizeSchedule(request.schedule);
+      const recipients = this.normalizeRecipients(request.recipients);
+      const nextGeneration = nextOccurrence(schedule, new Date());
+
+      const result = await db.query(
+        `INSERT INTO scheduled_reports (
+          id, template_id, title, description, schedule_frequency, schedule_interval,
+          schedule_day_of_week, schedule_day_of_month, schedule_hour, schedule_minute, timezone,
+          recipients, format, delivery_channel, parameters, is_active, next_generation,
+          created_by, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, true, $16, $17, $18)
+        RETURNING *`,
+        [
+          uuidv4(), template.id, request.title, request.description ?? null, schedule.frequency, schedule.interval,
+          schedule.dayOfWeek ?? null, schedule.dayOfMonth ?? null, schedule.hour, schedule.minute, schedule.timezone,
+          JSON.stringify(recipients), request.format ?? null, request.delivery ?? ScheduleDeliveryChannel.EMAIL,
+          JSON.stringify(request.parameters ?? {}), nextGeneration, userId, organizationId ?? null
+        ]
+      );
+
+      const scheduled = this.mapRowToScheduledReport((result as any).rows[0]);
+      logger.info('Scheduled report created', { scheduledReportId: scheduled.id, frequency: schedule.frequency, userId });
+      return scheduled;
+
+    } catch (error) {
+      logger.error('Create scheduled report error:', error);
+      throw error;
+    }
+  }
+
+  async getSchedules(userId: string): Promise<ScheduledReport[]> {
+    try {
+      const result = await db.query(
+        'SELECT * FROM scheduled_reports WHERE created_by = $1 ORDER BY next_generation ASC',
+        [userId]
+      );
+      return (result as any).rows.map((row: any) => this.mapRowToScheduledReport(row));
+    } catch (error) {
+      logger.error('Get scheduled reports error:', error);
+      throw error;
+    }
+  }
+
+  async getSchedule(scheduleId: string, userId: string): Promise<ScheduledReport | null> {
+    const result = await db.query(
+      'SELECT * FROM scheduled_reports WHERE id = $1 AND created_by = $2',
+      [scheduleId, userId]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToScheduledReport(row) : null;
+  }
+
+  async updateSchedule(scheduleId: string, updates: UpdateScheduledReportRequest, userId: string): Promise<ScheduledReport | null> {
+    try {
+      const existing = await this.getSchedule(scheduleId, userId);
+      if (!existing) {
+        return null;
+      }
+
+      const schedule = updates.schedule
+        ? this.normalizeSchedule({ ...existing.schedule, ...updates.schedule })
+        : existing.schedule;
+      const recipients = updates.recipients ? this.normalizeRecipients(updates.recipients) : existing.recipients;
+      const isActive = updates.isActive ?? existing.isActive;
+
+      // Planning modifié ou réactivé : on repart de maintenant
+      const reschedule = Boolean(updates.schedule) || (isActive && !existing.isActive);
+      const nextGeneration = reschedule ? nextOccurrence(schedule, new Date()) : existing.nextGeneration;
+
+      const result = await db.query(
+        `UPDATE scheduled_reports SET
+          title = $2, description = $3, schedule_frequency = $4, schedule_interval = $5,
+          schedule_day_of_week = $6, schedule_day_of_month = $7, schedule_hour = $8, schedule_minute = $9,
+          timezone = $10, recipients = $11, format = $12, delivery_channel = $13, parameters = $14,
+          is_active = $15, next_generation = $16
+         WHERE id = $1
+         RETURNING *`,
+        [
+          scheduleId, updates.title ?? existing.title, updates.description ?? existing.description ?? null,
+          schedule.frequency, schedule.interval, schedule.dayOfWeek ?? null, schedule.dayOfMonth ?? null,
+          schedule.hour, schedule.minute, schedule.timezone, JSON.stringify(recipients),
+          updates.format ?? existing.format ?? null, updates.delivery ?? existing.delivery,
+          JSON.stringify(updates.parameters ?? existing.parameters ?? {}), isActive, nextGeneration
+        ]
+      );
+
+      logger.info('Scheduled report updated', { scheduledReportId: scheduleId, userId });
+      return this.mapRowToScheduledReport((result as any).rows[0]);
+
+    } catch (error) {
+      logger.error('Update scheduled report error:', error);
+      throw error;
+    }
+  }
+
+  async deleteSchedule(scheduleId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await db.query(
+        'DELETE FROM scheduled_reports WHERE id = $1 AND created_by = $2 RETURNING id',
+        [scheduleId, userId]
+      );
+      const deleted = (result as any).rows.length > 0;
+      if (deleted) {
+        logger.info('Scheduled report deleted', { scheduledReportId: scheduleId, userId });
+      }
+      return deleted;
+    } catch (error) {
+      logger.error('Delete scheduled report error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run history of a scheduled report, most recent first
+   */
+  async getRuns(scheduleId: string, userId: string, limit: number = 50): Promise<ScheduledReportRun[] | null> {
+    try {
+      const schedule = await this.getSchedule(scheduleId, userId);
+      if (!schedule) {
+        return null;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM scheduled_report_runs
+         WHERE scheduled_report_id = $1
+         ORDER BY scheduled_for DESC
+         LIMIT $2`,
+        [scheduleId, Math.min(Math.max(limit, 1), 200)]
+      );
+      return (result as any).rows.map((row: any) => this.mapRowToRun(row));
+
+    } catch (error) {
+      logger.error('Get scheduled report runs error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start the runs of the schedules that are due, then the pending retries
+   */
+  async processDueSchedules(): Promise<{ started: number; retried: number }> {
+    const now = new Date();
+    let started = 0;
+    let retried = 0;
+
+    const due = await db.query(
+      `SELECT * FROM scheduled_reports
+       WHERE is_active = true AND next_generation <= $1
+       ORDER BY next_generation ASC
+       LIMIT $2`,
+      [now, DUE_BATCH_SIZE]
+    );
+
+    for (const row of (due as any).rows) {
+      const scheduled = this.mapRowToScheduledReport(row);
+      const run = await this.claimOccurrence(scheduled, now);
+      if (run) {
+        await this.executeRun(scheduled, run);
+        started++;
+      }
+    }
+
+    const retries = await db.query(
+      `SELECT r.* FROM scheduled_report_runs r
+       JOIN scheduled_reports s ON s.id = r.scheduled_report_id
+       WHERE r.status = $1 AND r.next_retry_at <= $2 AND s.is_active = true
+       ORDER BY r.next_retry_at ASC
+       LIMIT $3`,
+      [ScheduledRunStatus.RETRYING, now, DUE_BATCH_SIZE]
+    );
+
+    for (const row of (retries as any).rows) {
+      const run = this.mapRowToRun(row);
+      const result = await db.query('SELECT * FROM scheduled_reports WHERE id = $1', [run.scheduledReportId]);
+      const scheduleRow = (result as any).rows[0];
+      if (scheduleRow) {
+        await this.executeRun(this.mapRowToScheduledReport(scheduleRow), run);
+        retried++;
+      }
+    }
+
+    return { started, retried };
+  }
+
+  /**
+   * Reserve the due occurrence (a concurrent scheduler cannot take it twice)
+   * and record its run. After downtime only the latest missed occurrence runs.
+   */
+  private async claimOccurrence(scheduled: ScheduledReport, now: Date): Promise<ScheduledReportRun | null> {
+    const scheduledFor = scheduled.nextGeneration;
+    let next = advanceSchedule(scheduled.schedule, scheduledFor);
+    if (next.getTime() <= now.getTime()) {
+      next = nextOccurrence(scheduled.schedule, now);
+    }
+
+    const claimed = await db.query(
+      `UPDATE scheduled_reports SET next_generation = $3, last_generated = CURRENT_TIMESTAMP
+       WHERE id = $1 AND next_generation = $2
+       RETURNING id`,
+      [scheduled.id, scheduledFor, next]
+    );
+    if ((claimed as any).rows.length === 0) {
+      return null;
+    }
+
+    const period = reportingPeriod(scheduled.schedule, scheduledFor);
+    const inserted = await db.query(
+      `INSERT INTO scheduled_report_runs (id, scheduled_report_id, status, scheduled_for, period_from, period_to)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (scheduled_report_id, scheduled_for) DO NOTHING
+       RETURNING *`,
+      [uuidv4(), scheduled.id, ScheduledRunStatus.RUNNING, scheduledFor, period.from, period.to]
+    );
+    const row = (inserted as any).rows[0];
+    return row ? this.mapRowToRun(row) : null;
+  }
+
+  /**
+   * Generate (or reuse) the report of a run and deliver it; failures are retried
+   */
+  private async executeRun(scheduled: ScheduledReport, run: ScheduledReportRun): Promise<void> {
+    const attempts = run.attempts + 1;
+    await db.query(
+      `UPDATE scheduled_report_runs SET status = $2, attempts = $3,
+         started_at = COALESCE(started_at, CURRENT_TIMESTAMP), next_retry_at = NULL
+       WHERE id = $1`,
+      [run.id, ScheduledRunStatus.RUNNING, attempts]
+    );
+
+    try {
+      const report = await this.generateRunReport(scheduled, run);
+      const notified = await this.deliverReport(scheduled, report, run);
+
+      await db.query(
+        `UPDATE scheduled_report_runs SET status = $2, recipients_notified = $3,
+           last_error = NULL, completed_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [run.id, ScheduledRunStatus.SUCCEEDED, notified]
+      );
+
+      logger.info('Scheduled report delivered', { scheduledReportId: scheduled.id, runId: run.id, reportId: report.id, notified });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      const nextRetryAt = giveUp ? null : new Date(Date.now() + RETRY_DELAY_MINUTES * attempts * 60000);
+
+      await db.query(
+        `UPDATE scheduled_report_runs SET status = $2, last_error = $3, next_retry_at = $4,
+           completed_at = CASE WHEN $2 = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+         WHERE id = $1`,
+        [run.id, giveUp ? ScheduledRunStatus.FAILED : ScheduledRunStatus.RETRYING, message, nextRetryAt]
+      );
+
+      logger.error('Scheduled report run failed', { scheduledReportId: scheduled.id, runId: run.id, attempts, error: message });
+    }
+  }
+
+  private async generateRunReport(scheduled: ScheduledReport, run: ScheduledReportRun): Promise<Report> {
+    // Relance après un échec de diffusion : le fichier déjà généré est réutilisé
+    if (run.reportId) {
+      const existing = await db.query(
+        `SELECT id FROM reports WHERE id = $1 AND status = 'completed' AND file_path IS NOT NULL`,
+        [run.reportId]
+      );
+      if ((existing as any).rows.length > 0) {
+        const report = await reportService.getReport(run.reportId);
+        if (report) {
+          return report;
+        }
+      }
+    }
+
+    const template = await this.getTemplate(scheduled.templateId);
+    if (!template) {
+      throw new Error('Report template not found');
+    }
+
+    const pending = await reportService.generateReport({
+      title: `${scheduled.title} — ${run.periodFrom.toLocaleDateString('fr-DZ')} / ${run.periodTo.toLocaleDateString('fr-DZ')}`,
+      ...(scheduled.description ? { description: scheduled.description } : {}),
+      type: template.type,
+      format: scheduled.format ?? template.format,
+      parameters: {
+        ...template.parameters,
+        ...scheduled.parameters,
+        dateRange: { from: run.periodFrom, to: run.periodTo }
+      },
+      templateId: template.id,
+      scheduleGeneration: false
+    }, scheduled.createdBy, scheduled.organizationId);
+
+    await db.query('UPDATE scheduled_report_runs SET report_id = $2 WHERE id = $1', [run.id, pending.id]);
+    return reportService.runReportGeneration(pending.id, scheduled.createdBy);
+  }
+
+  /**
+   * Queue one notification per recipient. Recipients may be user IDs or
+   * e-mail addresses; external addresses can only receive e-mails.
+   */
+  private async deliverReport(scheduled: ScheduledReport, report: Report, run: ScheduledReportRun): Promise<number> {
+    const userIds = scheduled.recipients.filter(recipient => UUID_PATTERN.test(recipient));
+    const emails = scheduled.recipients.filter(recipient => !UUID_PATTERN.test(recipient)).map(email => email.toLowerCase());
+
+    const result = await db.query(
+      'SELECT id, email FROM users WHERE id = ANY($1::uuid[]) OR LOWER(email) = ANY($2::text[])',
+      [userIds, emails]
+    );
+    const users: Array<{ id: string; email: string }> = (result as any).rows;
+    const recipients: Array<{ userId: string; email?: string }> = users.map(user => ({ userId: user.id, email: user.email }));
+
+    if (scheduled.delivery === ScheduleDeliveryChannel.EMAIL) {
+      const known = new Set(users.map(user => user.email.toLowerCase()));
+      for (const email of emails.filter(address => !known.has(address))) {
+        // Destinataire externe : rattaché au créateur du planning
+        recipients.push({ userId: scheduled.createdBy, email });
+      }
+    }
+
+    // Les destinataires internes peuvent télécharger le rapport
+    await db.query(
+      `INSERT INTO report_shares (report_id, shared_by, shared_with, permissions)
+       VALUES ($1, $2, $3, '["view", "download"]')`,
+      [report.id, scheduled.createdBy, JSON.stringify(users.map(user => user.id))]
+    );
+
+    const downloadPath = `/api/reports/${report.id}/download`;
+    const period = `${run.periodFrom.toLocaleDateString('fr-DZ')} – ${run.periodTo.toLocaleDateString('fr-DZ')}`;
+    const attachment = this.buildAttachment(report);
+    const channel = scheduled.delivery === ScheduleDeliveryChannel.EMAIL ? NotificationChannel.EMAIL : NotificationChannel.IN_APP;
+
+    let notified = 0;
+    for (const recipient of recipients) {
+      await notificationService.createNotification({
+        recipientId: recipient.userId,
+        ...(recipient.email ? { recipientEmail: recipient.email } : {}),
+        type: NotificationType.REPORT_DELIVERY,
+        channel,
+        subject: `Rapport : ${scheduled.title} | تقرير : ${scheduled.title}`,
+        message: attachment && channel === NotificationChannel.EMAIL
+          ? `Veuillez trouver ci-joint le rapport « ${scheduled.title} » (période du ${period}).\nمرفق التقرير « ${scheduled.title} ».`
+          : `Le rapport « ${scheduled.title} » (période du ${period}) est disponible : ${downloadPath}\nالتقرير « ${scheduled.title} » متوفر : ${downloadPath}`,
+        relatedEntityType: 'report',
+        relatedEntityId: report.id,
+        priority: NotificationPriority.NORMAL,
+        metadata: {
+          scheduledReportId: scheduled.id,
+          runId: run.id,
+          downloadPath,
+          ...(attachment && channel === NotificationChannel.EMAIL ? { attachments: [attachment] } : {})
+        }
+      }, scheduled.organizationId);
+      notified++;
+    }
+
+    return notified;
+  }
+
+  private buildAttachment(report: Report): { filename: string; path: string; contentType: string } | null {
+    if (!report.filePath || !fs.existsSync(report.filePath)) {
+      return null;
+    }
+    if (fs.statSync(report.filePath).size > MAX_ATTACHMENT_BYTES) {
+      return null;
+    }
+
+    const fileName = path.basename(report.filePath);
+    const extension = fileName.replace(/^[^.]*/, '');
+    return {
+      filename: `${report.title.replace(/[^\p{L}\p{N}]+/gu, '_')}${extension}`,
+      path: report.filePath,
+      contentType: ATTACHMENT_CONTENT_TYPES[path.extname(fileName)] ?? 'application/octet-stream'
+    };
+  }
+
+  private normalizeSchedule(input: Partial<ReportSchedule>): ReportSchedule {
+    const frequency = input.frequency;
+    if (!frequency || !Object.values(ScheduleFrequency).includes(frequency)) {
+      throw new Error('Invalid schedule frequency');
+    }
+
+    const integer = (value: unknown, min: number, max: number, name: string): number => {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        throw new Error(`Invalid schedule ${name}`);
+      }
+      return parsed;
+    };
+
+    // Rapports de fin de trimestre ou d'année : envoyés en fin de journée
+    const endOfPeriod = frequency === ScheduleFrequency.QUARTERLY || frequency === ScheduleFrequency.YEARLY;
+    const timezone = input.timezone ?? 'Africa/Algiers';
+    if (!isValidTimezone(timezone)) {
+      throw new Error('Invalid schedule timezone');
+    }
+
+    return {
+      frequency,
+      interval: integer(input.interval ?? 1, 1, 12, 'interval'),
+      hour: integer(input.hour ?? (endOfPeriod ? 18 : 9), 0, 23, 'hour'),
+      minute: integer(input.minute ?? 0, 0, 59, 'minute'),
+      timezone,
+      ...(frequency === ScheduleFrequency.WEEKLY
+        ? { dayOfWeek: integer(input.dayOfWeek ?? 1, 0, 6, 'day of week') }
+        : {}),
+      ...(frequency === ScheduleFrequency.MONTHLY
+        ? { dayOfMonth: integer(input.dayOfMonth ?? 1, 1, 31, 'day of month') }
+        : {})
+    };
+  }
+
+  private normalizeRecipients(recipients: unknown): string[] {
+    if (!Array.isArray(recipients) || recipients.length === 0 || recipients.length > MAX_RECIPIENTS) {
+      throw new Error(`Invalid recipients: between 1 and ${MAX_RECIPIENTS} user IDs or e-mail addresses are required`);
+    }
+
+    const normalized = recipients.map(recipient => String(recipient).trim());
+    const invalid = normalized.filter(recipient => !UUID_PATTERN.test(recipient) && !EMAIL_PATTERN.test(recipient));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid recipients: ${invalid.join(', ')}`);
+    }
+
+    return [...new Set(normalized)];
+  }
+
+  private async getAccessibleTemplate(templateId: string, userId: string, organizationId?: string): Promise<ReportTemplate | null> {
+    const result = await db.query(
+      `SELECT id FROM report_templates
+       WHERE id = $1 AND is_active = true
+       AND (is_system = true OR created_by = $2 OR organization_id = $3)`,
+      [templateId, userId, organizationId ?? null]
+    );
+    return (result as any).rows.length > 0 ? this.getTemplate(templateId) : null;
+  }
+
+  private async getTemplate(templateId: string): Promise<ReportTemplate | null> {
+    return reportService.getReportTemplate(templateId);
+  }
+
+  private mapRowToScheduledReport(row: any): ScheduledReport {
+    const json = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      title: row.title,
+      ...(row.description ? { description: row.description } : {}),
+      schedule: {
+        frequency: row.schedule_frequency,
+        interval: row.schedule_interval ?? 1,
+        ...(row.schedule_day_of_week !== null && row.schedule_day_of_week !== undefined ? { dayOfWeek: row.schedule_day_of_week } : {}),
+        ...(row.schedule_day_of_month !== null && row.schedule_day_of_month !== undefined ? { dayOfMonth: row.schedule_day_of_month } : {}),
+        hour: row.schedule_hour,
+        minute: row.schedule_minute,
+        timezone: row.timezone
+      },
+      recipients: json(row.recipients, []),
+      ...(row.format ? { format: row.format } : {}),
+      delivery: row.delivery_channel ?? ScheduleDeliveryChannel.EMAIL,
+      parameters: json(row.parameters, {}),
+      isActive: row.is_active,
+      ...(row.last_generated ? { lastGenerated: new Date(row.last_generated) } : {}),
+      nextGeneration: new Date(row.next_generation),
+      createdBy: row.created_by,
+      ...(row.organization_id ? { organizationId: row.organization_id } : {}),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToRun(row: any): ScheduledReportRun {
+    return {
+      id: row.id,
+      scheduledReportId: row.scheduled_report_id,
+      ...(row.report_id ? { reportId: row.report_id } : {}),
+      status: row.status,
+      scheduledFor: new Date(row.scheduled_for),
+      periodFrom: new Date(row.period_from),
+      periodTo: new Date(row.period_to),
+      attempts: row.attempts,
+      ...(row.last_error ? { lastError: row.last_error } : {}),
+      ...(row.next_retry_at ? { nextRetryAt: new Date(row.next_retry_at) } : {}),
+      recipientsNotified: row.recipients_notified,
+      ...(row.started_at ? { startedAt: new Date(row.started_at) } : {}),
+      ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {}),
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+export const scheduledReportService = new ScheduledReportService();
@@ -0,0 +1,191 @@
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import { deviceKey, networkOf, parseUserAgent } from '@/utils/deviceInfo';
+import { notificationService } from '@/services/notificationService';
+import type { AuditEvent } from '@/services/auditService';
+import { ActiveSession, LoginContext } from '@/types/auth';
+import { NotificationChannel, NotificationPriority, NotificationType } from '@/types/notification';
+
+/**
+ * Session Service
+ * « Mes appareils » : sessions actives d'un utilisateur, révocation d'une
+ * session ou de toutes les autres, déconnexion forcée par un administrateur,
+ * et alerte quand une connexion vient d'un appareil ou d'un réseau inconnu.
+ */
+
+const UNKNOWN_NETWORK = 'unknown';
+
+export class SessionService {
+  async listSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const result = await db.query(
+      `SELECT id, host(ip_address) AS ip_address, user_agent, created_at, last_activity_at, expires_at
+       FROM user_sessions
+       WHERE user_id = $1 AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY last_activity_at DESC`,
+      [userId]
+    );
+    return (result as any).rows.map((row: any) => this.mapRowToSession(row, currentSessionId));
+  }
+
+  /**
+   * Ferme une session de l'utilisateur ; false si elle n'existe pas ou appartient à un autre
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const result = await db.query(
+      'DELETE FROM user_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
+    );
+    const revoked = (result as any).rowCount === 1;
+    if (revoked) {
+      logger.info(`Session revoked by user: ${userId}`, { sessionId });
+    }
+    return revoked;
+  }
+
+  /**
+   * Ferme toutes les sessions de l'utilisateur sauf la session courante
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    const result = await db.query(
+      'DELETE FROM user_sessions WHERE user_id = $1 AND id <> $2',
+      [userId, currentSessionId]
+    );
+    const revoked = (result as any).rowCount ?? 0;
+    logger.info(`Other sessions revoked by user: ${userId}`, { revoked });
+    return revoked;
+  }
+
+  /**
+   * Déconnexion forcée de toutes les sessions d'un utilisateur par un administrateur
+   */
+  async revokeAllSessions(userId: string, adminId: string, reason?: string): Promise<number> {
+    const result = await db.query('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
+    const revoked = (result as any).rowCount ?? 0;
+
+    await this.logSessionEvent(adminId, userId, { revoked, ...(reason ? { reason } : {}) });
+    logger.warn('All sessions revoked by admin', { userId, adminId, revoked });
+    return revoked;
+  }
+
+  /**
+   * Enregistre l'origine d'une connexion réussie et prévient l'utilisateur
+   * si l'appareil ou le réseau n'a jamais été vu. La première connexion
+   * connue d'un compte ne déclenche pas d'alerte.
+   */
+  async recordLogin(userId: string, context: LoginContext): Promise<void> {
+    const device = parseUserAgent(context.userAgent);
+    const key = deviceKey(context.userAgent);
+    const network = networkOf(context.ipAddress) ?? UNKNOWN_NETWORK;
+
+    const knownResult = await db.query(
+      `SELECT COUNT(*) AS origins,
+              COALESCE(bool_or(device_key = $2), false) AS known_device,
+              COALESCE(bool_or(network = $3), false) AS known_network
+       FROM user_login_origins
+       WHERE user_id = $1`,
+      [userId, key, network]
+    );
+    const known = (knownResult as any).rows[0];
+
+    await db.query(
+      `INSERT INTO user_login_origins (user_id, device_key, device_label, network)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, device_key, network)
+       DO UPDATE SET last_seen_at = CURRENT_TIMESTAMP, device_label = EXCLUDED.device_label`,
+      [userId, key, device.label, network]
+    );
+
+    const newDevice = !known.known_device;
+    // Sans adresse exploitable, l'endroit ne peut pas être jugé nouveau
+    const newLocation = !known.known_network && network !== UNKNOWN_NETWORK;
+    if (Number(known.origins) === 0 || (!newDevice && !newLocation)) {
+      return;
+    }
+
+    await this.notifyNewLogin(userId, device.label, context.ipAddress, newDevice, newLocation);
+  }
+
+  // Méthodes privées
+
+  private async notifyNewLogin(
+    userId: string,
+    deviceLabel: string,
+    ipAddress: string | undefined,
+    newDevice: boolean,
+    newLocation: boolean
+  ): Promise<void> {
+    const userResult = await db.query('SELECT email FROM users WHERE id = $1', [userId]);
+    const email = (userResult as any).rows[0]?.email;
+    const when = new Date().toLocaleString('fr-DZ', { timeZone: 'Africa/Algiers' });
+    const origin = ipAddress ? ` (${ipAddress})` : '';
+    const reason = newDevice ? 'un nouvel appareil' : 'un nouvel endroit';
+    const reasonAr = newDevice ? 'جهاز جديد' : 'موقع جديد';
+
+    await notificationService.createNotification({
+      recipientId: userId,
+      ...(email ? { recipientEmail: email } : {}),
+      type: NotificationType.SYSTEM_ALERT,
+      channel: NotificationChannel.EMAIL,
+      subject: 'Nouvelle connexion à votre compte | تسجيل دخول جديد إلى حسابك',
+      message:
+        `Une connexion depuis ${reason} a eu lieu le ${when} : ${deviceLabel}${origin}.\n` +
+        'Si ce n\'était pas vous, fermez cette session dans « Mes appareils » et changez votre mot de passe.\n' +
+        `تم تسجيل الدخول من ${reasonAr} في ${when} : ${deviceLabel}${origin}.\n` +
+        'إذا لم تكن أنت، أغلق هذه الجلسة من « أجهزتي » وغيّر كلمة المرور.',
+      relatedEntityType: 'user_session',
+      relatedEntityId: userId,
+      priority: NotificationPriority.HIGH,
+      metadata: {
+        device: deviceLabel,
+        ...(ipAddress ? { ipAddress } : {}),
+        newDevice,
+        newLocation
+      }
+    });
+  }
+
+  private async logSessionEvent(adminId: string, userId: string, metadata: Record<string, unknown>): Promise<void> {
+    const event: AuditEvent = {
+      tenantId: 'default',
+      userId: adminId,
+      actionType: 'sessions_force_logout',
+      resourceType: 'user_session',
+      resourceId: userId,
+      securityContext: {
+        userRole: 'admin',
+        permissions: ['user:update'],
+        dataClassification: 'restricted',
+        requiresEncryption: false
+      },
+      success: true,
+      timestamp: new Date(),
+      metadata
+    };
+
+    try {
+      // Chargé à la demande : AuditService prend le pool et démarre son minuteur de métriques à l'import
+      const { auditService } = await import('@/services/auditService');
+      await auditService.logEvent(event);
+    } catch (error) {
+      logger.error('Failed to record session audit event', { userId, error });
+    }
+  }
+
+  private mapRowToSession(row: any, currentSessionId?: string): ActiveSession {
+    const device = parseUserAgent(row.user_agent);
+    return {
+      id: row.id,
+      device: device.label,
+      browser: device.browser,
+      os: device.os,
+      deviceType: device.type,
+      ...(row.ip_address ? { ipAddress: row.ip_address } : {}),
+      createdAt: new Date(row.created_at),
+      lastActivityAt: new Date(row.last_activity_at),
+      expiresAt: new Date(row.expires_at),
+      current: row.id === currentSessionId
+    };
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,288 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AppliedTax,
+  InvoiceLine,
+  LegalProfession,
+  ScheduleTaxRateRequest,
+  TaxBreakdown,
+  TaxConfiguration,
+  TaxType
+} from '../types/billing.js';
+import { computeTaxes, resolveTaxRules } from '../utils/taxEngine.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Tax Configuration Service
+ * Règles fiscales versionnées par profession (TVA, timbre, retenue à la
+ * source...). Un nouveau taux se programme à une date future et clôt la
+ * version précédente, qui reste dans l'historique ; les factures gardent la
+ * version appliquée.
+ */
+
+export class TaxConfigurationService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Toutes les versions, de la plus récente à la plus ancienne par type de taxe
+   */
+  async getRules(filters: { profession?: LegalProfession; taxType?: TaxType } = {}): Promise<TaxConfiguration[]> {
+    const result = await this.db.query(
+      `SELECT * FROM tax_configurations
+       WHERE ($1::varchar IS NULL OR profession = $1) AND ($2::varchar IS NULL OR tax_type = $2)
+       ORDER BY profession, tax_type, applicable_from DESC`,
+      [filters.profession || null, filters.taxType || null]
+    );
+    return result.rows.map(row => this.mapRowToTaxConfiguration(row));
+  }
+
+  /**
+   * Versions applicables à une profession à une date
+   */
+  async getRulesInEffect(profession: LegalProfession, date: Date = new Date()): Promise<TaxConfiguration[]> {
+    const result = await this.db.query(
+      `SELECT * FROM tax_configurations
+       WHERE profession = $1 AND is_active = true AND applicable_from <= $2::date
+         AND (applicable_to IS NULL OR applicable_to > $2::date)`,
+      [profession, date]
+    );
+    return resolveTaxRules(result.rows.map(row => this.mapRowToTaxConfiguration(row)), profession, date);
+  }
+
+  /**
+   * Taxes dues sur un montant hors taxes avec les règles en vigueur à la date
+   */
+  async calculateTaxes(profession: LegalProfession, taxableAmount: number, date: Date = new Date()): Promise<TaxBreakdown> {
+    const rules = await this.getRulesInEffect(profession, date);
+    return computeTaxes(rules, taxableAmount);
+  }
+
+  /**
+   * Programme un nouveau taux ; la version qui le précède prend fin à sa date
+   * d'entrée en vigueur
+   */
+  async scheduleRate(request: ScheduleTaxRateRequest): Promise<TaxConfiguration> {
+    this.validateScheduleRequest(request);
+
+    return this.withRuleLock(request.profession, request.taxType, async client => {
+      const dateResult = await client.query('SELECT $1::date > CURRENT_DATE AS is_future', [request.applicableFrom]);
+      if (!dateResult.rows[0].is_future) {
+        throw new Error('New rates must take effect after today');
+      }
+
+      const existing = await client.query(
+        'SELECT id FROM tax_configurations WHERE profession = $1 AND tax_type = $2 AND applicable_from = $3::date',
+        [request.profession, request.taxType, request.applicableFrom]
+      );
+      if (existing.rows.length > 0) {
+        throw new Error('A rate already takes effect on this date');
+      }
+
+      // Une version déjà programmée plus tard borne la nouvelle
+      const nextResult = await client.query(
+        `SELECT applicable_from FROM tax_configurations
+         WHERE profession = $1 AND tax_type = $2 AND applicable_from > $3::date
+         ORDER BY applicable_from LIMIT 1`,
+        [request.profession, request.taxType, request.applicableFrom]
+      );
+
+      const insertResult = await client.query(
+        `INSERT INTO tax_configurations (
+          profession, tax_type, rate, is_percentage, minimum_amount, maximum_amount,
+          exemption_threshold, applicable_from, applicable_to, legal_reference, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING *`,
+        [
+          request.profession,
+          request.taxType,
+          request.rate,
+          request.isPercentage,
+          request.minimumAmount ?? null,
+          request.maximumAmount ?? null,
+          request.exemptionThreshold ?? null,
+          request.applicableFrom,
+          nextResult.rows[0]?.applicable_from ?? null,
+          request.legalReference.trim(),
+          request.createdBy
+        ]
+      );
+
+      await client.query(
+        `UPDATE tax_configurations SET applicable_to = $3::date
+         WHERE id = (
+           SELECT id FROM tax_configurations
+           WHERE profession = $1 AND tax_type = $2 AND applicable_from < $3::date
+           ORDER BY applicable_from DESC LIMIT 1
+         ) AND (applicable_to IS NULL OR applicable_to > $3::date)`,
+        [request.profession, request.taxType, request.applicableFrom]
+      );
+
+      const rule = this.mapRowToTaxConfiguration(insertResult.rows[0]);
+      logger.info('Tax rate scheduled', {
+        id: rule.id,
+        profession: rule.profession,
+        taxType: rule.taxType,
+        rate: rule.rate,
+        applicableFrom: rule.applicableFrom
+      });
+      return rule;
+    });
+  }
+
+  /**
+   * Annule un taux pas encore en vigueur ; la version précédente reprend sa
+   * date de fin
+   */
+  async cancelScheduledRate(id: string): Promise<void> {
+    const found = await this.db.query('SELECT profession, tax_type FROM tax_configurations WHERE id = $1', [id]);
+    if (found.rows.length === 0) {
+      throw new Error('Tax rule not found');
+    }
+
+    await this.withRuleLock(found.rows[0].profession, found.rows[0].tax_type, async client => {
+      const ruleResult = await client.query(
+        `SELECT profession, tax_type, applicable_from, applicable_to, applicable_from > CURRENT_DATE AS is_future
+         FROM tax_configurations WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      const rule = ruleResult.rows[0];
+      if (!rule) {
+        throw new Error('Tax rule not found');
+      }
+      if (!rule.is_future) {
+        throw new Error('Only rates not yet in effect can be cancelled');
+      }
+
+      await client.query('DELETE FROM tax_configurations WHERE id = $1', [id]);
+      await client.query(
+        `UPDATE tax_configurations SET applicable_to = $4
+         WHERE profession = $1 AND tax_type = $2 AND applicable_to = $3`,
+        [rule.profession, rule.tax_type, rule.applicable_from, rule.applicable_to]
+      );
+
+      logger.info('Scheduled tax rate cancelled', { id, profession: rule.profession, taxType: rule.tax_type });
+    });
+  }
+
+  /**
+   * Taxes enregistrées sur une facture, pour la réimprimer à l'identique
+   */
+  async getInvoiceTaxes(invoiceId: string): Promise<AppliedTax[]> {
+    const result = await this.db.query(
+      `SELECT * FROM billing_invoice_taxes WHERE invoice_id = $1
+       ORDER BY CASE tax_type
+         WHEN 'vat' THEN 0 WHEN 'professional_tax' THEN 1 WHEN 'registration_tax' THEN 2
+         WHEN 'withholding_tax' THEN 3 ELSE 4 END`,
+      [invoiceId]
+    );
+
+    return result.rows.map(row => ({
+      taxConfigurationId: row.tax_configuration_id,
+      taxType: row.tax_type as TaxType,
+      rate: parseFloat(row.rate),
+      isPercentage: row.is_percentage,
+      baseAmount: parseFloat(row.base_amount),
+      amount: parseFloat(row.tax_amount),
+      legalReference: row.legal_reference
+    }));
+  }
+
+  private validateScheduleRequest(request: ScheduleTaxRateRequest): void {
+    if (!Object.values(LegalProfession).includes(request.profession)) {
+      throw new Error('Invalid profession');
+    }
+    if (!Object.values(TaxType).includes(request.taxType)) {
+      throw new Error('Invalid tax type');
+    }
+    if (typeof request.rate !== 'number' || !Number.isFinite(request.rate) || request.rate < 0) {
+      throw new Error('Rate must be a positive number');
+    }
+    if (request.isPercentage && request.rate > 1) {
+      throw new Error('Rate must be a fraction for percentage taxes (0.19 for 19%)');
+    }
+    if (request.minimumAmount !== undefined && request.maximumAmount !== undefined &&
+        request.minimumAmount > request.maximumAmount) {
+      throw new Error('Invalid bounds: minimum amount exceeds maximum amount');
+    }
+    if (!(request.applicableFrom instanceof Date) || isNaN(request.applicableFrom.getTime())) {
+      throw new Error('Invalid applicable from date');
+    }
+    if (!request.legalReference || !request.legalReference.trim()) {
+      throw new Error('Legal reference is required');
+    }
+  }
+
+  private async withRuleLock<T>(
+    profession: LegalProfession,
+    taxType: TaxType,
+    operation: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+      // Les versions d'une même taxe se programment l'une après l'autre : la chaîne des dates reste continue
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`tax:${profession}:${taxType}`]);
+
+      const result = await operation(client);
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error updating tax rules', { error, profession, taxType });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToTaxConfiguration(row: any): TaxConfiguration {
+    return {
+      id: row.id,
+      profession: row.profession as LegalProfession,
+      taxType: row.tax_type as TaxType,
+      rate: parseFloat(row.rate),
+      isPercentage: row.is_percentage,
+      ...(row.minimum_amount !== null ? { minimumAmount: parseFloat(row.minimum_amount) } : {}),
+      ...(row.maximum_amount !== null ? { maximumAmount: parseFloat(row.maximum_amount) } : {}),
+      ...(row.exemption_threshold !== null ? { exemptionThreshold: parseFloat(row.exemption_threshold) } : {}),
+      applicableFrom: row.applicable_from,
+      ...(row.applicable_to ? { applicableTo: row.applicable_to } : {}),
+      isActive: row.is_active,
+      legalReference: row.legal_reference,
+      ...(row.created_by ? { createdBy: row.created_by } : {}),
+      createdAt: row.created_at
+    };
+  }
+}
+
+/**
+ * Enregistre sur la facture les taxes calculées et, pour chaque ligne
+ * taxable, les versions des règles qui s'y appliquent
+ */
+export async function recordInvoiceTaxes(
+  client: Pool | PoolClient,
+  invoiceId: string,
+  taxes: AppliedTax[],
+  lines: InvoiceLine[] = []
+): Promise<void> {
+  for (const tax of taxes) {
+    await client.query(
+      `INSERT INTO billing_invoice_taxes (
+        invoice_id, tax_configuration_id, tax_type, rate, is_percentage,
+        base_amount, tax_amount, legal_reference
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [invoiceId, tax.taxConfigurationId, tax.taxType, tax.rate, tax.isPercentage, tax.baseAmount, tax.amount, tax.legalReference]
+    );
+  }
+
+  for (const line of lines) {
+    if (!line.id || !line.taxConfigurationIds) continue;
+    for (const taxConfigurationId of line.taxConfigurationIds) {
+      await client.query(
+        'INSERT INTO billing_invoice_line_tax_rules (invoice_line_id, tax_configuration_id) VALUES ($1, $2)',
+        [line.id, taxConfigurationId]
+      );
+    }
+  }
+}
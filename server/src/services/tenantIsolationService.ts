@@ -1,4 +1,6 @@
 import { encryptionService, EncryptedData } from './encryptionService';
+import { db } from '../database/connection';
+import type { EncryptedRecordStore } from './keyRewrapService';
 
 /**
  * Service d'isolation multi-tenant pour garantir la séparation stricte des données
@@ -32,7 +34,17 @@ export interface DataAccessLog {
   errorMessage?: string;
 }
 
-export class TenantIsolationService {
+/**
+ * Tenant d'une organisation : identifiant déterministe, le même pour les
+ * données chiffrées et pour les clés des fichiers de ses documents
+ */
+export function tenantIdForOrganization(organizationId: string): string {
+  const crypto = require('crypto');
+  return crypto.createHash('sha256').update(organizationId).digest('hex').substring(0, 16);
+}
+
+export class TenantIsolationService implements EncryptedRecordStore {
+  readonly recordStoreName = 'encrypted_data_store';
   private readonly auditLogs: DataAccessLog[] = [];
 
   /**
@@ -161,6 +173,73 @@ export class TenantIsolationService {
     return cleanData;
   }
 
+  /**
+   * Enregistrements chiffrés du tenant (encrypted_data_store) dont l'enveloppe
+   * n'est pas sous la clé donnée, à réenvelopper après une rotation
+   */
+  async countRecordsToRewrap(tenantId: string, keyId: string): Promise<number> {
+    const result = await db.query(
+      `SELECT COUNT(*) AS total FROM encrypted_data_store
+       WHERE tenant_id = $1 AND encryption_metadata->>'key_id' IS DISTINCT FROM $2`,
+      [tenantId, keyId]
+    );
+    return Number((result as any).rows[0].total);
+  }
+
+  async findRecordsToRewrap(tenantId: string, keyId: string, afterId: string | null, limit: number): Promise<string[]> {
+    const result = await db.query(
+      `SELECT id FROM encrypted_data_store
+       WHERE tenant_id = $1 AND encryption_metadata->>'key_id' IS DISTINCT FROM $2
+         AND ($3::uuid IS NULL OR id > $3::uuid)
+       ORDER BY id
+       LIMIT $4`,
+      [tenantId, keyId, afterId, limit]
+    );
+    return (result as any).rows.map((row: any) => row.id);
+  }
+
+  /**
+   * Réenveloppe un enregistrement avec la clé active du tenant ; le contenu
+   * chiffré n'est repris que pour les données antérieures à l'enveloppe
+   */
+  async rewrapRecord(tenantId: string, recordId: string): Promise<EncryptedData[]> {
+    const result = await db.query(
+      'SELECT encrypted_content, encryption_metadata FROM encrypted_data_store WHERE id = $1 AND tenant_id = $2',
+      [recordId, tenantId]
+    );
+    const row = (result as any).rows[0];
+    if (!row) {
+      throw new Error(`Enregistrement chiffré ${recordId} non trouvé`);
+    }
+
+    const metadata = row.encryption_metadata;
+    const rewrapped = await encryptionService.rewrapData({
+      data: row.encrypted_content,
+      iv: metadata.iv,
+      tag: metadata.tag,
+      ...(metadata.salt ? { salt: metadata.salt } : {}),
+      algorithm: metadata.algorithm,
+      keyId: metadata.key_id,
+      ...(metadata.wrapped_key ? { wrappedKey: metadata.wrapped_key } : {})
+    }, tenantId);
+
+    await db.query(
+      `UPDATE encrypted_data_store
+       SET encrypted_content = $2, encryption_metadata = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [recordId, rewrapped.data, JSON.stringify({
+        ...metadata,
+        iv: rewrapped.iv,
+        tag: rewrapped.tag,
+        salt: rewrapped.salt,
+        algorithm: rewrapped.algorithm,
+        key_id: rewrapped.keyId,
+        wrapped_key: rewrapped.wrappedKey
+      })]
+    );
+    return [rewrapped];
+  }
+
   /**
    * Crée un contexte d'isolation pour un utilisateur
    */
@@ -392,9 +471,7 @@ export class TenantIsolationService {
   }
 
   private generateTenantId(organizationId: string): string {
-    // Générer un tenant ID déterministe basé sur l'organisation
-    const crypto = require('crypto');
-    return crypto.createHash('sha256').update(organizationId).digest('hex').substring(0, 16);
+    return tenantIdForOrganization(organizationId);
   }
 
   private async getRolePermissions(userRole: string): Promise<string[]> {
@@ -0,0 +1,74 @@
+import { db } from '@/database/connection';
+import { StoredTenantKey, TenantKeyStore } from '@/services/encryptionService';
+
+/**
+ * Tenant Key Store
+ * Clés des tenants dans tenant_encryption_keys, enveloppées par la clé
+ * maître. Les clés désactivées par une rotation restent lisibles : des
+ * données peuvent encore en dépendre tant que le réenveloppement n'est pas
+ * terminé.
+ */
+export class PostgresTenantKeyStore implements TenantKeyStore {
+  async findActive(tenantId: string): Promise<StoredTenantKey | null> {
+    const result = await db.query(
+      `SELECT * FROM tenant_encryption_keys
+       WHERE tenant_id = $1 AND is_active = true AND wrapped_key IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [tenantId]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToKey(row) : null;
+  }
+
+  async find(tenantId: string, keyId: string): Promise<StoredTenantKey | null> {
+    const result = await db.query(
+      'SELECT * FROM tenant_encryption_keys WHERE tenant_id = $1 AND key_id = $2 AND wrapped_key IS NOT NULL',
+      [tenantId, keyId]
+    );
+    const row = (result as any).rows[0];
+    return row ? this.mapRowToKey(row) : null;
+  }
+
+  async save(key: StoredTenantKey): Promise<void> {
+    await db.transaction(async client => {
+      const previous = await client.query(
+        `UPDATE tenant_encryption_keys
+         SET is_active = false, rotated_at = CURRENT_TIMESTAMP
+         WHERE tenant_id = $1 AND is_active = true
+         RETURNING rotation_count`,
+        [key.tenantId]
+      );
+
+      await client.query(
+        `INSERT INTO tenant_encryption_keys (
+           tenant_id, key_id, key_metadata, created_at, is_active, rotation_count,
+           wrapped_key, master_key_id, rotated_from
+         ) VALUES ($1, $2, $3, $4, true, $5, $6, $7, $8)`,
+        [
+          key.tenantId,
+          key.keyId,
+          JSON.stringify({ algorithm: 'aes-256-gcm', keyLength: 32 }),
+          key.createdAt,
+          previous.rows.length > 0 ? Number(previous.rows[0].rotation_count ?? 0) + 1 : 0,
+          key.wrappedKey,
+          key.masterKeyId,
+          key.rotatedFrom ?? null
+        ]
+      );
+    });
+  }
+
+  private mapRowToKey(row: any): StoredTenantKey {
+    return {
+      tenantId: row.tenant_id,
+      keyId: row.key_id,
+      createdAt: new Date(row.created_at),
+      ...(row.rotated_at ? { rotatedAt: new Date(row.rotated_at) } : {}),
+      isActive: row.is_active,
+      ...(row.rotated_from ? { rotatedFrom: row.rotated_from } : {}),
+      wrappedKey: row.wrapped_key,
+      masterKeyId: row.master_key_id
+    };
+  }
+}
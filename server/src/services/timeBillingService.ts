@@ -0,0 +1,574 @@
+import { Pool, PoolClient } from 'pg';
+import { BillingService } from './billingService.js';
+import {
+  BillTimeRequest,
+  BillingInvoice,
+  BillingStatus,
+  CalculationType,
+  CaseComplexity,
+  CourtLevel,
+  ExpenseType,
+  FeeBreakdown,
+  InvoiceLine,
+  InvoiceLineType,
+  InvoiceStatus,
+  LawyerCaseType,
+  LegalProfession,
+  PaymentStatus,
+  TimeInvoiceDraft,
+  UrgencyLevel
+} from '../types/billing.js';
+import { BillableTimeEntry, TimeActivityType, groupTimeEntries, roundAmount } from '../utils/timeBilling.js';
+import { lineTaxConfigurationIds } from '../utils/taxEngine.js';
+import { recordInvoiceTaxes } from './taxConfigurationService.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Time Billing Service
+ * Transforme les temps passés non facturés d'un dossier (et, au choix, ses
+ * frais) en factures brouillons ligne à ligne. Les honoraires au temps ne
+ * descendent pas sous le minimum du barème pour les heures facturées. Supprimer
+ * le brouillon rend les temps et frais à nouveau facturables.
+ */
+
+const CASE_TYPE_BY_DOMAIN: Record<string, LawyerCaseType> = {
+  civil: LawyerCaseType.CIVIL_LITIGATION,
+  criminal: LawyerCaseType.CRIMINAL_DEFENSE,
+  commercial: LawyerCaseType.COMMERCIAL_LAW,
+  administrative: LawyerCaseType.ADMINISTRATIVE_LAW,
+  family: LawyerCaseType.FAMILY_LAW,
+  labor: LawyerCaseType.LABOR_LAW,
+  tax: LawyerCaseType.TAX_LAW
+};
+
+const URGENCY_BY_CASE_LEVEL: Record<string, UrgencyLevel> = {
+  high: UrgencyLevel.URGENT,
+  urgent: UrgencyLevel.VERY_URGENT
+};
+
+const EXPENSE_TYPES: Record<string, { type: ExpenseType; label: string }> = {
+  court_fees: { type: ExpenseType.COURT_FEES, label: 'Frais de justice' },
+  filing_fees: { type: ExpenseType.REGISTRATION_FEES, label: 'Frais de dépôt' },
+  expert_fees: { type: ExpenseType.EXPERT_FEES, label: 'Honoraires d\'expert' },
+  travel: { type: ExpenseType.TRAVEL, label: 'Frais de déplacement' },
+  accommodation: { type: ExpenseType.ACCOMMODATION, label: 'Frais d\'hébergement' },
+  meals: { type: ExpenseType.MEALS, label: 'Frais de repas' },
+  copying: { type: ExpenseType.DOCUMENTATION, label: 'Copies' },
+  postage: { type: ExpenseType.COMMUNICATION, label: 'Frais postaux' },
+  research: { type: ExpenseType.DOCUMENTATION, label: 'Frais de recherche' },
+  other: { type: ExpenseType.OTHER, label: 'Débours' }
+};
+
+interface CaseToBill {
+  id: string;
+  caseNumber: string;
+  clientId: string;
+  legalDomain: string;
+  urgencyLevel: string;
+  hourlyRate: number | null;
+}
+
+interface CaseExpenseToBill {
+  id: string;
+  expenseType: string;
+  description: string;
+  amount: number;
+}
+
+export class TimeBillingService {
+  constructor(private db: Pool, private billingService: BillingService) {}
+
+  /**
+   * Factures qui seraient créées pour la période, sans rien enregistrer
+   */
+  async previewTimeInvoices(request: BillTimeRequest): Promise<TimeInvoiceDraft[]> {
+    const client = await this.db.connect();
+    try {
+      return await this.buildDrafts(client, request, false);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Crée une facture brouillon par dossier ayant des temps ou frais à facturer
+   * et rattache ces temps et frais à la facture
+   */
+  async createDraftInvoices(request: BillTimeRequest): Promise<TimeInvoiceDraft[]> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Verrouille les temps et frais retenus : une facturation concurrente attend
+      const drafts = await this.buildDrafts(client, request, true);
+      for (const draft of drafts) {
+        draft.invoice = await this.insertDraftInvoice(client, draft, request);
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Time invoices created', {
+        lawyerId: request.lawyerId,
+        invoices: drafts.map(draft => draft.invoice?.invoiceNumber)
+      });
+
+      return drafts;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error creating time invoices', { error, request });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Supprime une facture brouillon et rend ses temps et frais facturables,
+   * avec leur statut d'avant facturation ; false si la facture n'existe pas
+   */
+  async deleteDraftInvoice(invoiceId: string): Promise<boolean> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const invoiceResult = await client.query(
+        'SELECT status, billing_calculation_id FROM billing_invoices WHERE id = $1 FOR UPDATE',
+        [invoiceId]
+      );
+      if (invoiceResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const invoice = invoiceResult.rows[0];
+      if (invoice.status !== InvoiceStatus.DRAFT) {
+        throw new Error('Only draft invoices can be deleted');
+      }
+
+      await client.query(
+        `UPDATE case_time_entries
+         SET status = COALESCE(status_before_billing, 'approved'), status_before_billing = NULL,
+             invoice_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE invoice_id = $1`,
+        [invoiceId]
+      );
+      await client.query(
+        `UPDATE case_expenses
+         SET status = COALESCE(status_before_billing, 'approved'), status_before_billing = NULL,
+             invoice_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE invoice_id = $1`,
+        [invoiceId]
+      );
+
+      await client.query('DELETE FROM billing_invoices WHERE id = $1', [invoiceId]);
+      await client.query(
+        `DELETE FROM billing_calculations
+         WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM billing_invoices WHERE billing_calculation_id = $1)`,
+        [invoice.billing_calculation_id]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Draft invoice deleted', { invoiceId });
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error deleting draft invoice', { error, invoiceId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Méthodes privées
+
+  private async buildDrafts(client: PoolClient, request: BillTimeRequest, lock: boolean): Promise<TimeInvoiceDraft[]> {
+    this.validateRequest(request);
+
+    const cases = await this.getCasesToBill(client, request);
+    const drafts: TimeInvoiceDraft[] = [];
+
+    for (const caseToBill of cases) {
+      const draft = await this.buildCaseDraft(client, caseToBill, request, lock);
+      if (draft) {
+        drafts.push(draft);
+      }
+    }
+
+    return drafts;
+  }
+
+  private async buildCaseDraft(
+    client: PoolClient,
+    caseToBill: CaseToBill,
+    request: BillTimeRequest,
+    lock: boolean
+  ): Promise<TimeInvoiceDraft | null> {
+    const profession = request.profession || LegalProfession.AVOCAT;
+    const entries = await this.getUnbilledTimeEntries(client, caseToBill.id, request, lock);
+    const expenses = request.includeExpenses
+      ? await this.getUnbilledExpenses(client, caseToBill.id, request, lock)
+      : [];
+
+    const { lines: timeGroups, unpriced } = groupTimeEntries(entries, caseToBill.hourlyRate);
+    if (timeGroups.length === 0 && expenses.length === 0) {
+      return null;
+    }
+
+    const warnings: string[] = [];
+    if (unpriced.length > 0) {
+      warnings.push(`${unpriced.length} temps sans taux horaire (ni taux du dossier) restent à facturer`);
+    }
+
+    const lines: InvoiceLine[] = timeGroups.map((group, index) => ({
+      position: index + 1,
+      lineType: InvoiceLineType.TIME,
+      activityType: group.activityType,
+      description: group.description,
+      quantity: group.hours,
+      unitPrice: group.hourlyRate,
+      amount: group.amount,
+      isTaxable: true
+    }));
+
+    let feesSubtotal = roundAmount(timeGroups.reduce((sum, group) => sum + group.amount, 0));
+    const hours = roundAmount(timeGroups.reduce((sum, group) => sum + group.hours, 0));
+
+    const scaleMinimum = hours > 0
+      ? await this.getScaleMinimum(caseToBill, profession, hours, warnings)
+      : 0;
+    if (feesSubtotal < scaleMinimum) {
+      const adjustment = roundAmount(scaleMinimum - feesSubtotal);
+      lines.push({
+        position: lines.length + 1,
+        lineType: InvoiceLineType.FEE_ADJUSTMENT,
+        description: 'Complément au minimum du barème',
+        quantity: 1,
+        unitPrice: adjustment,
+        amount: adjustment,
+        isTaxable: true
+      });
+      feesSubtotal = roundAmount(feesSubtotal + adjustment);
+    }
+
+    for (const expense of expenses) {
+      const label = EXPENSE_TYPES[expense.expenseType]?.label || 'Débours';
+      lines.push({
+        position: lines.length + 1,
+        lineType: InvoiceLineType.EXPENSE,
+        description: `${label} — ${expense.description}`,
+        quantity: 1,
+        unitPrice: expense.amount,
+        amount: expense.amount,
+        isTaxable: false
+      });
+    }
+    const expensesTotal = roundAmount(expenses.reduce((sum, expense) => sum + expense.amount, 0));
+
+    const provisionAmount = roundAmount(request.provisionAmount || 0);
+    if (provisionAmount > 0) {
+      lines.push({
+        position: lines.length + 1,
+        lineType: InvoiceLineType.PROVISION,
+        description: 'Provision sur frais et honoraires',
+        quantity: 1,
+        unitPrice: provisionAmount,
+        amount: provisionAmount,
+        isTaxable: false
+      });
+    }
+
+    const taxableAmount = roundAmount(lines.filter(line => line.isTaxable).reduce((sum, line) => sum + line.amount, 0));
+    const { taxRate, taxAmount, taxes, withholdingAmount } = taxableAmount > 0
+      ? await this.billingService.calculateTaxes(profession, taxableAmount)
+      : { taxRate: 0, taxAmount: 0, taxes: [], withholdingAmount: 0 };
+
+    const taxConfigurationIds = lineTaxConfigurationIds(taxes);
+    for (const line of lines) {
+      if (line.isTaxable && taxConfigurationIds.length > 0) {
+        line.taxConfigurationIds = taxConfigurationIds;
+      }
+    }
+
+    const subtotal = roundAmount(feesSubtotal + expensesTotal + provisionAmount);
+
+    return {
+      caseId: caseToBill.id,
+      caseNumber: caseToBill.caseNumber,
+      clientId: caseToBill.clientId,
+      lines,
+      timeEntryIds: timeGroups.flatMap(group => group.entryIds),
+      expenseIds: expenses.map(expense => expense.id),
+      scaleMinimum,
+      feesSubtotal,
+      expensesTotal,
+      provisionAmount,
+      subtotal,
+      taxRate,
+      taxAmount: roundAmount(taxAmount),
+      taxes,
+      withholdingAmount,
+      total: roundAmount(subtotal + taxAmount),
+      warnings
+    };
+  }
+
+  /**
+   * Honoraires minimum du barème pour les heures facturées ; 0 (avec un
+   * avertissement) si aucun barème ne couvre le dossier
+   */
+  private async getScaleMinimum(
+    caseToBill: CaseToBill,
+    profession: LegalProfession,
+    hours: number,
+    warnings: string[]
+  ): Promise<number> {
+    try {
+      const { breakdown } = await this.billingService.calculateFees({
+        caseId: caseToBill.id,
+        clientId: caseToBill.clientId,
+        profession,
+        calculationType: CalculationType.HOURLY_RATE,
+        parameters: {
+          hours,
+          caseType: CASE_TYPE_BY_DOMAIN[caseToBill.legalDomain] || LawyerCaseType.CONSULTATION,
+          courtLevel: CourtLevel.TRIBUNAL_PREMIERE_INSTANCE,
+          caseComplexity: CaseComplexity.SIMPLE,
+          urgency: URGENCY_BY_CASE_LEVEL[caseToBill.urgencyLevel] || UrgencyLevel.NORMAL
+        },
+        applyTaxes: false,
+        saveCalculation: false
+      });
+      return roundAmount(breakdown.subtotal);
+    } catch (error) {
+      logger.warn('No fee schedule for time billing', { caseId: caseToBill.id, error });
+      warnings.push('Aucun barème applicable : le minimum des honoraires n\'a pas été vérifié');
+      return 0;
+    }
+  }
+
+  /**
+   * Dossiers à facturer, limités à ceux que l'avocat suit ou supervise : le
+   * dossier d'un confrère est introuvable
+   */
+  private async getCasesToBill(client: PoolClient, request: BillTimeRequest): Promise<CaseToBill[]> {
+    const query = request.caseId
+      ? `SELECT id, case_number, client_id, legal_domain, urgency_level, hourly_rate
+         FROM cases WHERE id = $1 AND ($2::uuid IS NULL OR client_id = $2)
+           AND (assigned_lawyer_id = $3 OR supervising_lawyer_id = $3)`
+      : `SELECT id, case_number, client_id, legal_domain, urgency_level, hourly_rate
+         FROM cases WHERE client_id = $2 AND ($1::uuid IS NULL OR id = $1)
+           AND (assigned_lawyer_id = $3 OR supervising_lawyer_id = $3)
+         ORDER BY case_number`;
+
+    const result = await client.query(query, [request.caseId || null, request.clientId || null, request.lawyerId]);
+    if (request.caseId && result.rows.length === 0) {
+      throw new Error('Case not found');
+    }
+
+    return result.rows.map(row => ({
+      id: row.id,
+      caseNumber: row.case_number,
+      clientId: row.client_id,
+      legalDomain: row.legal_domain,
+      urgencyLevel: row.urgency_level,
+      hourlyRate: row.hourly_rate !== null ? parseFloat(row.hourly_rate) : null
+    }));
+  }
+
+  private async getUnbilledTimeEntries(
+    client: PoolClient,
+    caseId: string,
+    request: BillTimeRequest,
+    lock: boolean
+  ): Promise<BillableTimeEntry[]> {
+    const result = await client.query(
+      `SELECT id, activity_type, duration_minutes, hourly_rate
+       FROM case_time_entries
+       WHERE case_id = $1 AND is_billable = true AND invoice_id IS NULL AND status <> 'billed'
+         AND duration_minutes > 0 AND start_time::date BETWEEN $2::date AND $3::date
+       ORDER BY start_time${lock ? ' FOR UPDATE' : ''}`,
+      [caseId, request.periodFrom, request.periodTo]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      activityType: row.activity_type as TimeActivityType,
+      durationMinutes: row.duration_minutes,
+      hourlyRate: row.hourly_rate !== null ? parseFloat(row.hourly_rate) : null
+    }));
+  }
+
+  private async getUnbilledExpenses(
+    client: PoolClient,
+    caseId: string,
+    request: BillTimeRequest,
+    lock: boolean
+  ): Promise<CaseExpenseToBill[]> {
+    const result = await client.query(
+      `SELECT id, expense_type, description, amount
+       FROM case_expenses
+       WHERE case_id = $1 AND invoice_id IS NULL AND status <> 'billed_to_client'
+         AND expense_date BETWEEN $2::date AND $3::date
+       ORDER BY expense_date${lock ? ' FOR UPDATE' : ''}`,
+      [caseId, request.periodFrom, request.periodTo]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      expenseType: row.expense_type,
+      description: row.description,
+      amount: parseFloat(row.amount)
+    }));
+  }
+
+  private async insertDraftInvoice(
+    client: PoolClient,
+    draft: TimeInvoiceDraft,
+    request: BillTimeRequest
+  ): Promise<BillingInvoice> {
+    const profession = request.profession || LegalProfession.AVOCAT;
+    const hours = draft.lines
+      .filter(line => line.lineType === InvoiceLineType.TIME)
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+    const breakdown: FeeBreakdown = {
+      baseFee: draft.feesSubtotal,
+      complexityMultiplier: 1,
+      urgencyMultiplier: 1,
+      courtLevelMultiplier: 1,
+      additionalFees: draft.provisionAmount > 0
+        ? [{ type: 'provision', description: 'Provision sur frais et honoraires', amount: draft.provisionAmount, isPercentage: false }]
+        : [],
+      expenses: draft.lines
+        .filter(line => line.lineType === InvoiceLineType.EXPENSE)
+        .map(line => ({ type: ExpenseType.OTHER, description: line.description, amount: line.amount, isReimbursable: true, receiptRequired: false })),
+      discounts: [],
+      subtotal: draft.subtotal,
+      taxRate: draft.taxRate,
+      taxAmount: draft.taxAmount,
+      taxes: draft.taxes,
+      withholdingAmount: draft.withholdingAmount,
+      total: draft.total
+    };
+
+    const calculationResult = await client.query(
+      `INSERT INTO billing_calculations (
+        case_id, client_id, lawyer_id, profession, calculation_type,
+        base_amount, total_amount, tax_amount, final_amount, currency,
+        parameters, breakdown, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING id`,
+      [
+        draft.caseId,
+        draft.clientId,
+        request.lawyerId,
+        profession,
+        CalculationType.HOURLY_RATE,
+        draft.feesSubtotal,
+        draft.subtotal,
+        draft.taxAmount,
+        draft.total,
+        'DZD',
+        JSON.stringify({ hours: roundAmount(hours), periodFrom: request.periodFrom, periodTo: request.periodTo }),
+        JSON.stringify(breakdown),
+        BillingStatus.INVOICED
+      ]
+    );
+    const calculationId = calculationResult.rows[0].id;
+
+    const numberResult = await client.query('SELECT generate_invoice_number($1) as invoice_number', [request.lawyerId]);
+    const paymentTerms = request.paymentTerms || 30;
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + paymentTerms);
+
+    const invoiceResult = await client.query(
+      `INSERT INTO billing_invoices (
+        invoice_number, billing_calculation_id, case_id, client_id, lawyer_id,
+        due_date, payment_terms, subtotal, tax_amount, total_amount,
+        remaining_amount, notes, status, payment_status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING *`,
+      [
+        numberResult.rows[0].invoice_number,
+        calculationId,
+        draft.caseId,
+        draft.clientId,
+        request.lawyerId,
+        dueDate,
+        paymentTerms,
+        draft.subtotal,
+        draft.taxAmount,
+        draft.total,
+        draft.total,
+        request.notes || null,
+        InvoiceStatus.DRAFT,
+        PaymentStatus.UNPAID
+      ]
+    );
+    const invoice = this.billingService.mapRowToInvoice(invoiceResult.rows[0]);
+
+    for (const line of draft.lines) {
+      const lineResult = await client.query(
+        `INSERT INTO billing_invoice_lines (
+          invoice_id, position, line_type, activity_type, description,
+          quantity, unit_price, amount, is_taxable
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id`,
+        [
+          invoice.id,
+          line.position,
+          line.lineType,
+          line.activityType || null,
+          line.description,
+          line.quantity,
+          line.unitPrice,
+          line.amount,
+          line.isTaxable
+        ]
+      );
+      line.id = lineResult.rows[0].id;
+    }
+    await recordInvoiceTaxes(client, invoice.id, draft.taxes, draft.lines);
+
+    // L'ancien statut est lu avant la mise à jour : il sera rétabli si le brouillon est supprimé
+    if (draft.timeEntryIds.length > 0) {
+      await client.query(
+        `UPDATE case_time_entries
+         SET status_before_billing = status, status = 'billed', invoice_id = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($2::uuid[])`,
+        [invoice.id, draft.timeEntryIds]
+      );
+    }
+    if (draft.expenseIds.length > 0) {
+      await client.query(
+        `UPDATE case_expenses
+         SET status_before_billing = status, status = 'billed_to_client', invoice_id = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($2::uuid[])`,
+        [invoice.id, draft.expenseIds]
+      );
+    }
+
+    return invoice;
+  }
+
+  private validateRequest(request: BillTimeRequest): void {
+    if (!request.caseId && !request.clientId) {
+      throw new Error('Case ID or client ID is required');
+    }
+
+    if (!request.periodFrom || !request.periodTo) {
+      throw new Error('Billing period is required');
+    }
+
+    if (new Date(request.periodFrom) > new Date(request.periodTo)) {
+      throw new Error('Billing period start must precede its end');
+    }
+
+    if (request.provisionAmount !== undefined && request.provisionAmount < 0) {
+      throw new Error('Provision amount cannot be negative');
+    }
+  }
+}
@@ -0,0 +1,447 @@
+import { PoolClient } from 'pg';
+import { db } from '@/database/connection';
+import { logger } from '@/utils/logger';
+import {
+  AcceptSuggestionRequest,
+  ActivityType,
+  CaseTimeEntry,
+  IdleDecision,
+  RunningTimer,
+  StartTimerRequest,
+  TimeEntrySuggestion,
+  TimeEntryStatus,
+  TimerState
+} from '@/types/case';
+import {
+  SUGGESTED_EVENT_TYPES,
+  TimerClock,
+  discardIdleTime,
+  durationMinutes,
+  elapsedSeconds,
+  idleSince,
+  pauseClock,
+  resumeClock,
+  suggestionFromEvent
+} from '@/utils/timeTracking';
+
+/**
+ * Time Tracking Service
+ * Chronomètre des temps passés gardé sur le serveur (un seul actif par
+ * avocat, repris d'un appareil à l'autre), inactivité à garder ou retirer, et
+ * temps suggérés à partir des audiences et rendez-vous de l'agenda.
+ */
+
+export interface RecentTimeEntry extends CaseTimeEntry {
+  caseNumber: string;
+  caseTitle: string;
+}
+
+/** Fuseau des journées de l'agenda */
+const AGENDA_TIMEZONE = 'Africa/Algiers';
+const DEFAULT_IDLE_THRESHOLD_MINUTES = 10;
+const MAX_IDLE_THRESHOLD_MINUTES = 240;
+
+function mapRowToTimer(row: any, now: Date): RunningTimer {
+  const clock: TimerClock = {
+    state: row.state as TimerState,
+    ...(row.segment_started_at ? { segmentStartedAt: new Date(row.segment_started_at) } : {}),
+    accumulatedSeconds: row.accumulated_seconds,
+    lastActivityAt: new Date(row.last_activity_at),
+    idleThresholdMinutes: row.idle_threshold_minutes
+  };
+  const idle = idleSince(clock, now);
+
+  return {
+    userId: row.user_id,
+    ...(row.case_id ? { caseId: row.case_id } : {}),
+    description: row.description,
+    activityType: row.activity_type as ActivityType,
+    isBillable: row.is_billable,
+    ...(row.hourly_rate !== null ? { hourlyRate: parseFloat(row.hourly_rate) } : {}),
+    startedAt: new Date(row.started_at),
+    ...clock,
+    elapsedSeconds: elapsedSeconds(clock, now),
+    ...(idle ? { idleSince: idle } : {})
+  };
+}
+
+function mapRowToTimeEntry(row: any): CaseTimeEntry {
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    lawyerId: row.lawyer_id,
+    startTime: new Date(row.start_time),
+    ...(row.end_time ? { endTime: new Date(row.end_time) } : {}),
+    durationMinutes: row.duration_minutes,
+    activityType: row.activity_type,
+    description: row.description,
+    isBillable: row.is_billable,
+    ...(row.hourly_rate !== null ? { hourlyRate: parseFloat(row.hourly_rate) } : {}),
+    ...(row.total_amount !== null ? { totalAmount: parseFloat(row.total_amount) } : {}),
+    status: row.status,
+    ...(row.calendar_event_id ? { calendarEventId: row.calendar_event_id } : {}),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export class TimeTrackingService {
+
+  /**
+   * Chronomètre de l'avocat, ou null s'il n'en a pas
+   */
+  async getTimer(userId: string): Promise<RunningTimer | null> {
+    const result = await db.query('SELECT * FROM running_timers WHERE user_id = $1', [userId]);
+    const row = (result as any).rows[0];
+    return row ? mapRowToTimer(row, new Date()) : null;
+  }
+
+  async startTimer(userId: string, request: StartTimerRequest): Promise<RunningTimer> {
+    if (!request.description || !request.description.trim()) {
+      throw new Error('Description is required');
+    }
+    if (request.activityType && !Object.values(ActivityType).includes(request.activityType)) {
+      throw new Error('Invalid activity type');
+    }
+    const idleThreshold = request.idleThresholdMinutes ?? DEFAULT_IDLE_THRESHOLD_MINUTES;
+    if (!Number.isInteger(idleThreshold) || idleThreshold <= 0 || idleThreshold > MAX_IDLE_THRESHOLD_MINUTES) {
+      throw new Error(`Invalid idle threshold: 1 to ${MAX_IDLE_THRESHOLD_MINUTES} minutes`);
+    }
+    if (request.caseId) {
+      await this.checkCaseAccess(request.caseId, userId);
+    }
+
+    const now = new Date();
+    const isBillable = request.isBillable !== false;
+    const result = await db.query(
+      `INSERT INTO running_timers (
+        user_id, case_id, description, activity_type, is_billable, hourly_rate,
+        started_at, state, segment_started_at, last_activity_at, idle_threshold_minutes
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'running', $7, $7, $8)
+      ON CONFLICT (user_id) DO NOTHING
+      RETURNING *`,
+      [
+        userId,
+        request.caseId || null,
+        request.description.trim(),
+        request.activityType || ActivityType.OTHER,
+        isBillable,
+        isBillable ? request.hourlyRate ?? null : null,
+        now,
+        idleThreshold
+      ]
+    );
+
+    const row = (result as any).rows[0];
+    if (!row) {
+      throw new Error('A timer is already running');
+    }
+
+    logger.info('Timer started', { userId, caseId: request.caseId });
+    return mapRowToTimer(row, now);
+  }
+
+  async pauseTimer(userId: string): Promise<RunningTimer> {
+    return this.updateClock(userId, (clock, now) => {
+      if (clock.state === TimerState.PAUSED) {
+        throw new Error('Timer is already paused');
+      }
+      this.checkNoPendingIdle(clock, now);
+      return pauseClock(clock, now);
+    });
+  }
+
+  async resumeTimer(userId: string): Promise<RunningTimer> {
+    return this.updateClock(userId, (clock, now) => {
+      if (clock.state === TimerState.RUNNING) {
+        throw new Error('Timer is already running');
+      }
+      return resumeClock(clock, now);
+    });
+  }
+
+  /**
+   * Activité signalée par un appareil ; sans effet tant qu'une inactivité
+   * attend la décision de l'avocat
+   */
+  async recordActivity(userId: string): Promise<RunningTimer> {
+    return this.updateClock(userId, (clock, now) =>
+      idleSince(clock, now) ? clock : { ...clock, lastActivityAt: now }
+    );
+  }
+
+  /**
+   * Garde ou retire le temps d'inactivité en attente
+   */
+  async resolveIdle(userId: string, decision: IdleDecision): Promise<RunningTimer> {
+    if (decision !== 'keep' && decision !== 'discard') {
+      throw new Error('Invalid idle decision: keep or discard');
+    }
+
+    return this.updateClock(userId, (clock, now) => {
+      const since = idleSince(clock, now);
+      if (!since) return clock;
+
+      logger.info('Timer idle time resolved', { userId, decision, idleSeconds: Math.floor((now.getTime() - since.getTime()) / 1000) });
+      return decision === 'discard'
+        ? discardIdleTime(clock, now)
+        : { ...clock, lastActivityAt: now };
+    });
+  }
+
+  /**
+   * Arrête le chronomètre et enregistre le temps passé sur le dossier
+   */
+  async stopTimer(userId: string, caseId?: string): Promise<CaseTimeEntry> {
+    return db.transaction(async client => {
+      const now = new Date();
+      const timer = await this.lockTimer(client, userId, now);
+      this.checkNoPendingIdle(timer, now);
+
+      const entryCaseId = caseId || timer.caseId;
+      if (!entryCaseId) {
+        throw new Error('Case is required to record the time entry');
+      }
+      await this.checkCaseAccess(entryCaseId, userId, client);
+
+      const entry = await this.insertTimeEntry(client, userId, {
+        caseId: entryCaseId,
+        startTime: timer.startedAt,
+        endTime: now,
+        durationMinutes: durationMinutes(timer.elapsedSeconds),
+        activityType: timer.activityType,
+        description: timer.description,
+        isBillable: timer.isBillable,
+        ...(timer.hourlyRate !== undefined ? { hourlyRate: timer.hourlyRate } : {})
+      });
+      await client.query('DELETE FROM running_timers WHERE user_id = $1', [userId]);
+
+      logger.info('Timer stopped', { userId, caseId: entryCaseId, entryId: entry.id, durationMinutes: entry.durationMinutes });
+      return entry;
+    });
+  }
+
+  /**
+   * Abandonne le chronomètre sans enregistrer de temps
+   */
+  async discardTimer(userId: string): Promise<void> {
+    const result = await db.query('DELETE FROM running_timers WHERE user_id = $1 RETURNING user_id', [userId]);
+    if ((result as any).rows.length === 0) {
+      throw new Error('Timer not found');
+    }
+    logger.info('Timer discarded', { userId });
+  }
+
+  async getRecentEntries(userId: string, limit = 10): Promise<RecentTimeEntry[]> {
+    const result = await db.query(
+      `SELECT te.*, c.case_number, c.title AS case_title
+       FROM case_time_entries te
+       JOIN cases c ON c.id = te.case_id
+       WHERE te.lawyer_id = $1
+       ORDER BY te.start_time DESC
+       LIMIT $2`,
+      [userId, Math.min(Math.max(limit, 1), 100)]
+    );
+
+    return (result as any).rows.map((row: any) => ({
+      ...mapRowToTimeEntry(row),
+      caseNumber: row.case_number,
+      caseTitle: row.case_title
+    }));
+  }
+
+  /**
+   * Audiences et rendez-vous terminés d'une journée (AAAA-MM-JJ) qui ne sont
+   * ni déjà enregistrés en temps passé ni écartés
+   */
+  async getSuggestions(userId: string, day: string): Promise<TimeEntrySuggestion[]> {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(new Date(day).getTime())) {
+      throw new Error('Invalid day: expected YYYY-MM-DD');
+    }
+
+    const result = await db.query(
+      `SELECT ce.* FROM calendar_events ce
+       WHERE ce.user_id = $1
+         AND ce.start_time >= ($2::date)::timestamp AT TIME ZONE $3
+         AND ce.start_time < ($2::date + 1)::timestamp AT TIME ZONE $3
+         AND ce.event_type = ANY($4)
+         AND COALESCE(ce.event_status, 'scheduled') <> 'cancelled'
+         AND NOT EXISTS (SELECT 1 FROM case_time_entries te WHERE te.calendar_event_id = ce.id)
+         AND NOT EXISTS (
+           SELECT 1 FROM time_entry_suggestion_dismissals d
+           WHERE d.user_id = $1 AND d.calendar_event_id = ce.id
+         )
+       ORDER BY ce.start_time`,
+      [userId, day, AGENDA_TIMEZONE, SUGGESTED_EVENT_TYPES]
+    );
+
+    const now = new Date();
+    return (result as any).rows.flatMap((row: any) => suggestionFromEvent(this.mapRowToCalendarEvent(row), now) ?? []);
+  }
+
+  /**
+   * Enregistre le temps passé d'une suggestion, éventuellement corrigée
+   */
+  async acceptSuggestion(userId: string, calendarEventId: string, request: AcceptSuggestionRequest): Promise<CaseTimeEntry> {
+    if (request.activityType && !Object.values(ActivityType).includes(request.activityType)) {
+      throw new Error('Invalid activity type');
+    }
+    if (request.durationMinutes !== undefined && (!Number.isInteger(request.durationMinutes) || request.durationMinutes <= 0)) {
+      throw new Error('Invalid duration: a positive number of minutes is expected');
+    }
+
+    return db.transaction(async client => {
+      const eventResult = await client.query(
+        'SELECT * FROM calendar_events WHERE id = $1 AND user_id = $2 FOR UPDATE',
+        [calendarEventId, userId]
+      );
+      const row = eventResult.rows[0];
+      const suggestion = row ? suggestionFromEvent(this.mapRowToCalendarEvent(row), new Date()) : null;
+      if (!suggestion) {
+        throw new Error('Suggestion not found');
+      }
+
+      const existing = await client.query('SELECT id FROM case_time_entries WHERE calendar_event_id = $1', [calendarEventId]);
+      if (existing.rows.length > 0) {
+        throw new Error('This event is already recorded as a time entry');
+      }
+
+      const caseId = request.caseId || suggestion.caseId;
+      if (!caseId) {
+        throw new Error('Case is required to record the time entry');
+      }
+      await this.checkCaseAccess(caseId, userId, client);
+
+      const isBillable = request.isBillable !== false;
+      const minutes = request.durationMinutes ?? suggestion.durationMinutes;
+      const entry = await this.insertTimeEntry(client, userId, {
+        caseId,
+        startTime: suggestion.startTime,
+        endTime: new Date(suggestion.startTime.getTime() + minutes * 60 * 1000),
+        durationMinutes: minutes,
+        activityType: request.activityType || suggestion.activityType,
+        description: request.description?.trim() || suggestion.description,
+        isBillable,
+        ...(isBillable && request.hourlyRate !== undefined ? { hourlyRate: request.hourlyRate } : {}),
+        calendarEventId
+      });
+
+      logger.info('Calendar suggestion recorded', { userId, calendarEventId, entryId: entry.id });
+      return entry;
+    });
+  }
+
+  async dismissSuggestion(userId: string, calendarEventId: string): Promise<void> {
+    const result = await db.query(
+      `INSERT INTO time_entry_suggestion_dismissals (user_id, calendar_event_id)
+       SELECT user_id, id FROM calendar_events WHERE id = $2 AND user_id = $1
+       ON CONFLICT DO NOTHING
+       RETURNING calendar_event_id`,
+      [userId, calendarEventId]
+    );
+    if ((result as any).rows.length === 0) {
+      const found = await db.query('SELECT id FROM calendar_events WHERE id = $1 AND user_id = $2', [calendarEventId, userId]);
+      if ((found as any).rows.length === 0) {
+        throw new Error('Suggestion not found');
+      }
+    }
+  }
+
+  private async updateClock(userId: string, change: (clock: TimerClock, now: Date) => TimerClock): Promise<RunningTimer> {
+    return db.transaction(async client => {
+      const now = new Date();
+      const timer = await this.lockTimer(client, userId, now);
+      const clock = change(timer, now);
+
+      const result = await client.query(
+        `UPDATE running_timers
+         SET state = $2, segment_started_at = $3, accumulated_seconds = $4, last_activity_at = $5,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1
+         RETURNING *`,
+        [userId, clock.state, clock.segmentStartedAt ?? null, clock.accumulatedSeconds, clock.lastActivityAt]
+      );
+      return mapRowToTimer(result.rows[0], now);
+    });
+  }
+
+  private async lockTimer(client: PoolClient, userId: string, now: Date): Promise<RunningTimer> {
+    const result = await client.query('SELECT * FROM running_timers WHERE user_id = $1 FOR UPDATE', [userId]);
+    if (result.rows.length === 0) {
+      throw new Error('Timer not found');
+    }
+    return mapRowToTimer(result.rows[0], now);
+  }
+
+  private checkNoPendingIdle(clock: TimerClock, now: Date): void {
+    if (idleSince(clock, now)) {
+      throw new Error('Idle time must be kept or discarded first');
+    }
+  }
+
+  private async checkCaseAccess(caseId: string, userId: string, client?: PoolClient): Promise<void> {
+    const query = 'SELECT id FROM cases WHERE id = $1 AND (assigned_lawyer_id = $2 OR supervising_lawyer_id = $2)';
+    const result = client ? await client.query(query, [caseId, userId]) : await db.query(query, [caseId, userId]);
+    if ((result as any).rows.length === 0) {
+      throw new Error('Access denied');
+    }
+  }
+
+  private async insertTimeEntry(
+    client: PoolClient,
+    userId: string,
+    entry: {
+      caseId: string;
+      startTime: Date;
+      endTime: Date;
+      durationMinutes: number;
+      activityType: ActivityType;
+      description: string;
+      isBillable: boolean;
+      hourlyRate?: number;
+      calendarEventId?: string;
+    }
+  ): Promise<CaseTimeEntry> {
+    const totalAmount = entry.isBillable && entry.hourlyRate !== undefined
+      ? Math.round(entry.durationMinutes / 60 * entry.hourlyRate * 100) / 100
+      : null;
+
+    const result = await client.query(
+      `INSERT INTO case_time_entries (
+        case_id, lawyer_id, start_time, end_time, duration_minutes, activity_type,
+        description, is_billable, hourly_rate, total_amount, status, calendar_event_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        entry.caseId,
+        userId,
+        entry.startTime,
+        entry.endTime,
+        entry.durationMinutes,
+        entry.activityType,
+        entry.description,
+        entry.isBillable,
+        entry.hourlyRate ?? null,
+        totalAmount,
+        TimeEntryStatus.DRAFT,
+        entry.calendarEventId || null
+      ]
+    );
+    return mapRowToTimeEntry(result.rows[0]);
+  }
+
+  private mapRowToCalendarEvent(row: any) {
+    return {
+      id: row.id,
+      ...(row.case_id ? { caseId: row.case_id } : {}),
+      title: row.title,
+      eventType: row.event_type,
+      startTime: new Date(row.start_time),
+      endTime: new Date(row.end_time),
+      allDay: Boolean(row.all_day),
+      ...(row.location ? { location: row.location } : {})
+    };
+  }
+}
+
+export const timeTrackingService = new TimeTrackingService();
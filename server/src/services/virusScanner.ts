@@ -0,0 +1,155 @@
+import net from 'net';
+
+/**
+ * Virus Scanner
+ * Analyse antivirus des pièces jointes avant leur mise à disposition : démon
+ * ClamAV (clamd) joint en TCP avec la commande INSTREAM, ou, en développement
+ * et dans les tests, un analyseur local qui ne reconnaît que la signature de
+ * test EICAR.
+ *
+ * Une erreur de l'analyseur (démon injoignable, fichier trop volumineux pour
+ * clamd) est levée telle quelle : la pièce reste alors en attente d'analyse.
+ */
+
+export interface ScanVerdict {
+  clean: boolean;
+  threats: string[];
+  engine: string;
+  scannedAt: Date;
+}
+
+export interface VirusScanner {
+  readonly name: string;
+  scan(buffer: Buffer): Promise<ScanVerdict>;
+}
+
+// ─── ClamAV ─────────────────────────────────────────────────────────────────
+
+export interface ClamdScannerOptions {
+  host: string;
+  port: number;
+  timeoutMs: number;
+}
+
+/** Taille des blocs envoyés à clamd, bien en deçà de son StreamMaxLength */
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Réponse de clamd à INSTREAM : « stream: OK », « stream: <signature> FOUND »
+ * ou « <message> ERROR »
+ */
+export function parseClamdResponse(response: string): { clean: boolean; threats: string[] } {
+  const lines = response
+    .split(/[\0\n]/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  if (lines.length === 0) {
+    throw new Error('Empty response from clamd');
+  }
+
+  const threats: string[] = [];
+  for (const line of lines) {
+    if (line.endsWith('ERROR')) {
+      throw new Error(`clamd error: ${line.replace(/\s*ERROR$/, '')}`);
+    }
+    const found = /^(?:stream|[^:]+):\s*(.+)\s+FOUND$/.exec(line);
+    if (found?.[1]) {
+      threats.push(found[1]);
+    } else if (!line.endsWith('OK')) {
+      throw new Error(`Unexpected response from clamd: ${line}`);
+    }
+  }
+
+  return { clean: threats.length === 0, threats };
+}
+
+export class ClamdScanner implements VirusScanner {
+  readonly name = 'clamav';
+
+  constructor(private readonly options: ClamdScannerOptions) {}
+
+  scan(buffer: Buffer): Promise<ScanVerdict> {
+    return new Promise<ScanVerdict>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+      const received: Buffer[] = [];
+      let settled = false;
+
+      const settle = (error: Error | null) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        socket.destroy();
+
+        if (error) {
+          reject(error);
+          return;
+        }
+        try {
+          const result = parseClamdResponse(Buffer.concat(received).toString('utf8'));
+          resolve({ ...result, engine: this.name, scannedAt: new Date() });
+        } catch (parseError) {
+          reject(parseError);
+        }
+      };
+
+      socket.setTimeout(this.options.timeoutMs, () => {
+        settle(new Error(`clamd did not answer within ${this.options.timeoutMs} ms`));
+      });
+
+      socket.on('connect', () => {
+        // Commande « z » : réponse terminée par un octet nul
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += CLAMD_CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.write(Buffer.alloc(4));
+      });
+
+      socket.on('data', (data: Buffer) => {
+        received.push(data);
+        if (data.includes(0)) {
+          settle(null);
+        }
+      });
+
+      socket.on('end', () => settle(received.length > 0 ? null : new Error('clamd closed the connection without answering')));
+      socket.on('error', error => settle(error));
+    });
+  }
+}
+
+// ─── Analyseur EICAR ────────────────────────────────────────────────────────
+
+/** Signature de test EICAR, assemblée à l'exécution pour que ce fichier ne soit pas lui-même signalé */
+export const EICAR_TEST_SIGNATURE = ['X5O!P%@AP[4\\PZX54(P^)7CC)7}$', 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*'].join('');
+
+export class EicarStubScanner implements VirusScanner {
+  readonly name = 'eicar-stub';
+
+  async scan(buffer: Buffer): Promise<ScanVerdict> {
+    const infected = buffer.includes(EICAR_TEST_SIGNATURE, 0, 'latin1');
+    return {
+      clean: !infected,
+      threats: infected ? ['Eicar-Test-Signature'] : [],
+      engine: this.name,
+      scannedAt: new Date()
+    };
+  }
+}
+
+// ─── Sélection ──────────────────────────────────────────────────────────────
+
+export interface VirusScannerSettings {
+  mode: 'clamav' | 'stub';
+  clamav: ClamdScannerOptions;
+}
+
+export function createVirusScanner(settings: VirusScannerSettings): VirusScanner {
+  return settings.mode === 'stub' ? new EicarStubScanner() : new ClamdScanner(settings.clamav);
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import documentRoutes from '@/routes/documents';
+import { authService } from '@/services/authService';
+import { fileStorageService } from '@/services/fileStorageService';
+import { renderPreviews } from '@/services/attachmentPreview';
+import { EICAR_TEST_SIGNATURE } from '@/services/virusScanner';
+import { db } from '@/database/connection';
+import { AttachmentScanStatus, DocumentAttachment } from '@/types/document';
+
+// Mock database
+jest.mock('@/database/connection');
+const mockDb = db as jest.Mocked<typeof db>;
+
+// Mock logger
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Sessions are validated by the real authenticate middleware against this mock
+jest.mock('@/services/authService', () => ({
+  authService: {
+    validateSession: jest.fn()
+  }
+}));
+const mockValidateSession = authService.validateSession as jest.MockedFunction<typeof authService.validateSession>;
+
+// Mock MuPDF rendering: only the selection and storage rules are under test here
+jest.mock('@/services/attachmentPreview', () => ({
+  ...(jest.requireActual('@/services/attachmentPreview') as object),
+  renderPreviews: jest.fn()
+}));
+const mockRenderPreviews = renderPreviews as jest.MockedFunction<typeof renderPreviews>;
+
+describe('Attachment previews', () => {
+  const mockUserId = 'user-123';
+  const mockAttachmentId = 'attachment-456';
+  let previewDir: string;
+
+  const attachment = (scanStatus: AttachmentScanStatus): DocumentAttachment => ({
+    id: mockAttachmentId,
+    filename: 'stored-file.pdf',
+    originalFilename: 'requete.pdf',
+    mimeType: 'application/pdf',
+    size: 1024,
+    url: '/files/stored-file.pdf',
+    uploadedAt: new Date(),
+    uploadedBy: mockUserId,
+    isEncrypted: false,
+    scanStatus
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.query.mockReset();
+    previewDir = fs.mkdtempSync(path.join(os.tmpdir(), 'juristdz-previews-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(previewDir, { recursive: true, force: true });
+  });
+
+  describe('getAttachmentPreview', () => {
+    it('should serve the stored thumbnail of a readable attachment', async () => {
+      const previewPath = path.join(previewDir, 'stored-file_thumb.jpg');
+      fs.writeFileSync(previewPath, Buffer.from('jpeg-thumbnail'));
+      const access = jest.spyOn(fileStorageService, 'getAttachmentForUser')
+        .mockResolvedValue(attachment(AttachmentScanStatus.CLEAN));
+      mockDb.query.mockResolvedValueOnce({
+        rows: [{ file_path: previewPath, mime_type: 'image/jpeg', is_encrypted: false, encryption_key_id: null }]
+      });
+
+      const preview = await fileStorageService.getAttachmentPreview(mockAttachmentId, mockUserId);
+
+      expect(access).toHaveBeenCalledWith(mockAttachmentId, mockUserId);
+      expect(preview).toEqual({ buffer: Buffer.from('jpeg-thumbnail'), mimeType: 'image/jpeg' });
+      expect(mockDb.query.mock.calls[0]?.[1]).toEqual([mockAttachmentId, 'thumbnail', 1]);
+    });
+
+    it('should look up page previews by page number', async () => {
+      jest.spyOn(fileStorageService, 'getAttachmentForUser').mockResolvedValue(attachment(AttachmentScanStatus.CLEAN));
+      mockDb.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(fileStorageService.getAttachmentPreview(mockAttachmentId, mockUserId, 3))
+        .rejects.toThrow('Preview not found');
+      expect(mockDb.query.mock.calls[0]?.[1]).toEqual([mockAttachmentId, 'page', 3]);
+    });
+
+    it('should not serve previews of quarantined or unscanned attachments', async () => {
+      const access = jest.spyOn(fileStorageService, 'getAttachmentForUser');
+
+      access.mockResolvedValueOnce(attachment(AttachmentScanStatus.QUARANTINED));
+      await expect(fileStorageService.getAttachmentPreview(mockAttachmentId, mockUserId))
+        .rejects.toThrow('Attachment is quarantined');
+
+      access.mockResolvedValueOnce(attachment(AttachmentScanStatus.PENDING));
+      await expect(fileStorageService.getAttachmentPreview(mockAttachmentId, mockUserId))
+        .rejects.toThrow('Attachment has not been scanned');
+
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should refuse users without access to the attachment', async () => {
+      jest.spyOn(fileStorageService, 'getAttachmentForUser').mockRejectedValue(new Error('Access denied'));
+
+      await expect(fileStorageService.getAttachmentPreview(mockAttachmentId, 'other-user'))
+        .rejects.toThrow('Access denied');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderThumbnail', () => {
+    it('should render only the thumbnail of a clean file', async () => {
+      mockRenderPreviews.mockResolvedValueOnce({
+        thumbnail: { data: Buffer.from('jpeg-thumbnail'), width: 226, height: 320 },
+        pages: [],
+        pageCount: 4
+      });
+
+      const thumbnail = await fileStorageService.renderThumbnail(Buffer.from('%PDF-1.7'), 'application/pdf');
+
+      expect(thumbnail).toEqual(Buffer.from('jpeg-thumbnail'));
+      expect(mockRenderPreviews).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'), 'application/pdf', 0);
+    });
+
+    it('should reject unsupported types before scanning', async () => {
+      await expect(fileStorageService.renderThumbnail(Buffer.from('PK'), 'application/zip'))
+        .rejects.toThrow('Unsupported file type for preview');
+      expect(mockRenderPreviews).not.toHaveBeenCalled();
+    });
+
+    it('should never render an infected file', async () => {
+      await expect(fileStorageService.renderThumbnail(Buffer.from(EICAR_TEST_SIGNATURE), 'image/png'))
+        .rejects.toThrow('File contains malware');
+      expect(mockRenderPreviews).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('routes', () => {
+    const app = express();
+    app.use('/api/documents', documentRoutes);
+
+    beforeEach(() => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        userId: mockUserId,
+        email: 'maitre.benali@example.dz',
+        activeRole: 'avocat',
+        sessionId: 'session-1'
+      });
+    });
+
+    it('should load attachment thumbnails for the authenticated user id', async () => {
+      const preview = jest.spyOn(fileStorageService, 'getAttachmentPreview')
+        .mockResolvedValue({ buffer: Buffer.from('jpeg-thumbnail'), mimeType: 'image/jpeg' });
+
+      const response = await request(app)
+        .get(`/api/documents/attachments/${mockAttachmentId}/thumbnail`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/jpeg');
+      expect(preview).toHaveBeenCalledWith(mockAttachmentId, mockUserId, undefined);
+    });
+
+    it('should pass the page number of page previews', async () => {
+      const preview = jest.spyOn(fileStorageService, 'getAttachmentPreview')
+        .mockRejectedValue(new Error('Preview not found'));
+
+      const response = await request(app)
+        .get(`/api/documents/attachments/${mockAttachmentId}/previews/2`)
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(404);
+      expect(preview).toHaveBeenCalledWith(mockAttachmentId, mockUserId, 2);
+    });
+
+    it('should render thumbnails of uploaded case files for authenticated users', async () => {
+      const render = jest.spyOn(fileStorageService, 'renderThumbnail').mockResolvedValue(Buffer.from('jpeg-thumbnail'));
+
+      const response = await request(app)
+        .post('/api/documents/previews/thumbnail')
+        .set('Authorization', 'Bearer token')
+        .attach('file', Buffer.from('%PDF-1.7'), { filename: 'requete.pdf', contentType: 'application/pdf' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/jpeg');
+      expect(render).toHaveBeenCalledWith(Buffer.from('%PDF-1.7'), 'application/pdf');
+    });
+
+    it('should reject requests without a valid session', async () => {
+      mockValidateSession.mockResolvedValue({ valid: false, error: 'Session expired' });
+      const render = jest.spyOn(fileStorageService, 'renderThumbnail');
+
+      const response = await request(app)
+        .post('/api/documents/previews/thumbnail')
+        .set('Authorization', 'Bearer token')
+        .attach('file', Buffer.from('%PDF-1.7'), { filename: 'requete.pdf', contentType: 'application/pdf' });
+
+      expect(response.status).toBe(401);
+      expect(render).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -310,7 +310,7 @@ describe('AuthenticationService', () => {
 
       expect(result).toBe(true);
       expect(db.query).toHaveBeenCalledWith(
-        'UPDATE users SET mfa_enabled = true WHERE id = $1',
+        'UPDATE users SET mfa_enabled = true, mfa_totp_verified_at = CURRENT_TIMESTAMP WHERE id = $1',
         ['user-123']
       );
     });
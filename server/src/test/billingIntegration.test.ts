@@ -2,6 +2,10 @@ import request from 'supertest';
 import { Pool } from 'pg';
 import express from 'express';
 import { BillingService } from '../services/billingService.js';
+import { TimeBillingService } from '../services/timeBillingService.js';
+import { ProvisionLedgerService } from '../services/provisionLedgerService.js';
+import { InvoicePaymentService } from '../services/invoicePaymentService.js';
+import { TaxConfigurationService } from '../services/taxConfigurationService.js';
 import { createBillingRoutes } from '../routes/billing.js';
 import {
   LegalProfession,
@@ -20,10 +24,10 @@ const mockDb = {
   connect: jest.fn()
 } as unknown as Pool;
 
-// Mock authentication middleware
+// Mock authentication middleware with the payload set by authenticate
 jest.mock('../middleware/auth.js', () => ({
   authenticateToken: (req: any, res: any, next: any) => {
-    req.user = { id: 'user-123', role: 'avocat' };
+    req.user = { userId: 'user-123', email: 'avocat@example.dz', activeRole: 'avocat', sessionId: 'session-123' };
     next();
   }
 }));
@@ -53,7 +57,13 @@ describe('Billing System Integration Tests', () => {
     billingService = new BillingService(mockDb);
     app = express();
     app.use(express.json());
-    app.use('/api/billing', createBillingRoutes(billingService));
+    app.use('/api/billing', createBillingRoutes(
+      billingService,
+      new TimeBillingService(mockDb, billingService),
+      new ProvisionLedgerService(mockDb),
+      new InvoicePaymentService(mockDb),
+      new TaxConfigurationService(mockDb)
+    ));
     jest.clearAllMocks();
   });
 
@@ -72,11 +82,20 @@ describe('Billing System Integration Tests', () => {
           }]
         })
         .mockResolvedValueOnce({
-          // Mock calculate_taxes function
+          // Mock tax rules in force
           rows: [{
+            id: 'tax-vat-2024',
+            profession: 'avocat',
             tax_type: 'vat',
-            tax_rate: 0.19,
-            tax_amount: 5130
+            rate: '0.1900',
+            is_percentage: true,
+            minimum_amount: null,
+            maximum_amount: null,
+            exemption_threshold: null,
+            applicable_from: new Date('2024-01-01'),
+            applicable_to: null,
+            is_active: true,
+            legal_reference: 'Code des taxes sur le chiffre d\'affaires'
           }]
         })
         .mockResolvedValueOnce({
@@ -358,6 +377,164 @@ describe('Billing System Integration Tests', () => {
     });
   });
 
+  describe('GET /api/billing/invoices', () => {
+    it('should list the invoices of the current lawyer with their lines', async () => {
+      (mockDb.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{
+          id: 'invoice-123',
+          invoice_number: 'FAC-2026-0001',
+          billing_calculation_id: 'calc-123',
+          case_id: 'case-123',
+          client_id: 'client-123',
+          lawyer_id: 'user-123',
+          issue_date: new Date(),
+          due_date: new Date(),
+          payment_terms: 30,
+          subtotal: '20000.00',
+          tax_amount: '3800.00',
+          total_amount: '23800.00',
+          paid_amount: '0.00',
+          remaining_amount: '23800.00',
+          status: 'draft',
+          payment_status: 'unpaid',
+          created_at: new Date(),
+          updated_at: new Date(),
+          case_number: 'DOS-12',
+          case_title: 'Litige commercial',
+          client_name: 'SARL Atlas',
+          client_email: 'contact@atlas.dz',
+          lines: [{
+            id: 'line-1',
+            position: 1,
+            line_type: 'time',
+            activity_type: 'drafting',
+            description: 'Rédaction — 4 h',
+            quantity: 4,
+            unit_price: 5000,
+            amount: 20000,
+            is_taxable: true
+          }]
+        }]
+      });
+
+      const response = await request(app)
+        .get('/api/billing/invoices')
+        .expect(200);
+
+      expect((mockDb.query as jest.Mock).mock.calls[0][1]).toEqual(['user-123']);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        invoiceNumber: 'FAC-2026-0001',
+        status: InvoiceStatus.DRAFT,
+        caseNumber: 'DOS-12',
+        clientName: 'SARL Atlas',
+        totalAmount: 23800,
+        lines: [{ lineType: 'time', quantity: 4, unitPrice: 5000, amount: 20000, isTaxable: true }]
+      });
+    });
+  });
+
+  describe('POST /api/billing/time/invoices', () => {
+    it('should not bill the time of a case followed by another lawyer', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValue({ rows: [] }),
+        release: jest.fn()
+      };
+      (mockDb.connect as jest.Mock).mockResolvedValueOnce(mockClient);
+
+      const response = await request(app)
+        .post('/api/billing/time/invoices')
+        .send({ caseId: 'case-of-other-lawyer', periodFrom: '2026-01-01', periodTo: '2026-01-31' })
+        .expect(404);
+
+      expect(response.body.message).toBe('Case not found');
+      const casesQuery = mockClient.query.mock.calls.find(([sql]) => (sql as string).includes('FROM cases'))!;
+      expect(casesQuery[0]).toContain('assigned_lawyer_id = $3 OR supervising_lawyer_id = $3');
+      expect(casesQuery[1]).toEqual(['case-of-other-lawyer', null, 'user-123']);
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO billing_invoices'), expect.anything());
+    });
+  });
+
+  describe('GET /api/billing/provisions/clients/:clientId', () => {
+    it('should return the provision balances of a client of the lawyer', async () => {
+      (mockDb.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'client-123' }] }) // Client access
+        .mockResolvedValueOnce({ rows: [{ case_id: null, deposits: '50000.00', drawdowns: '20000.00', refunds: '0' }] });
+
+      const response = await request(app)
+        .get('/api/billing/provisions/clients/client-123')
+        .expect(200);
+
+      expect((mockDb.query as jest.Mock).mock.calls[0][1]).toEqual(['client-123', 'user-123']);
+      expect(response.body.data.available).toBe(30000);
+    });
+
+    it('should not disclose the provisions of another lawyer\'s client', async () => {
+      (mockDb.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await request(app)
+        .get('/api/billing/provisions/clients/client-of-other-lawyer')
+        .expect(404);
+      await request(app)
+        .get('/api/billing/provisions/clients/client-of-other-lawyer/statement')
+        .expect(404);
+
+      // Seule la vérification d'accès a été faite, pour chacune des deux requêtes
+      expect(mockDb.query).toHaveBeenCalledTimes(2);
+      expect((mockDb.query as jest.Mock).mock.calls[1][1]).toEqual(['client-of-other-lawyer', 'user-123']);
+    });
+  });
+
+  describe('PATCH /api/billing/invoices/:id/status', () => {
+    it('should mark an invoice as sent', async () => {
+      (mockDb.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{
+          id: 'invoice-123',
+          invoice_number: 'FAC-2026-0001',
+          status: 'sent',
+          payment_status: 'unpaid',
+          subtotal: '20000.00',
+          tax_amount: '3800.00',
+          total_amount: '23800.00',
+          paid_amount: '0.00',
+          remaining_amount: '23800.00',
+          issue_date: new Date(),
+          due_date: new Date(),
+          created_at: new Date(),
+          updated_at: new Date()
+        }]
+      });
+
+      const response = await request(app)
+        .patch('/api/billing/invoices/invoice-123/status')
+        .send({ status: 'sent' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe(InvoiceStatus.SENT);
+    });
+
+    it('should leave payments to the payment endpoint', async () => {
+      await request(app)
+        .patch('/api/billing/invoices/invoice-123/status')
+        .send({ status: 'paid' })
+        .expect(400);
+
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when invoice not found', async () => {
+      (mockDb.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await request(app)
+        .patch('/api/billing/invoices/nonexistent/status')
+        .send({ status: 'cancelled' })
+        .expect(404);
+    });
+  });
+
   describe('GET /api/billing/calculations/:id', () => {
     it('should return billing calculation when found', async () => {
       const mockCalculation = {
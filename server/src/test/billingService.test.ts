@@ -54,11 +54,20 @@ describe('BillingService', () => {
           }]
         })
         .mockResolvedValueOnce({
-          // Mock calculate_taxes function result
+          // Mock tax rules in force
           rows: [{
+            id: 'tax-vat-2024',
+            profession: 'avocat',
             tax_type: 'vat',
-            tax_rate: 0.19,
-            tax_amount: 3420
+            rate: '0.1900',
+            is_percentage: true,
+            minimum_amount: null,
+            maximum_amount: null,
+            exemption_threshold: null,
+            applicable_from: new Date('2024-01-01'),
+            applicable_to: null,
+            is_active: true,
+            legal_reference: 'Code des taxes sur le chiffre d\'affaires'
           }]
         })
         .mockResolvedValueOnce({
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { caseManagementService } from '@/services/caseManagementService';
+import { deadlineChainService } from '@/services/deadlineChainService';
 import { db } from '@/database/connection';
 import {
   Case,
@@ -415,6 +416,49 @@ describe('CaseManagementService', () => {
     });
   });
 
+  describe('addCaseEvent for a judgment', () => {
+    const judgmentData: CreateCaseEventRequest = {
+      eventType: EventType.JUDGMENT,
+      title: 'Jugement du tribunal administratif',
+      eventDate: new Date('2026-03-02T00:00:00Z')
+    };
+
+    it('should propose the deadline chain of the case procedure and court', async () => {
+      const previewSpy = jest.spyOn(deadlineChainService, 'previewChain');
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: mockCaseId }] }) // checkCaseAccess
+        .mockResolvedValueOnce({ rows: [] }) // saveCaseEventToDatabase
+        .mockResolvedValueOnce({ rows: [{ legal_domain: 'administrative', court_level: 'appel' }] });
+
+      const result = await caseManagementService.addCaseEvent(mockCaseId, judgmentData, mockUserId);
+
+      expect(previewSpy).toHaveBeenCalledWith(
+        { procedure: 'administratif', judgmentKind: 'arret' },
+        { jugement_rendu: judgmentData.eventDate }
+      );
+      expect(result.proposedDeadlines?.length).toBeGreaterThan(0);
+    });
+
+    it('should not keep the judgment when its deadline chain cannot be saved', async () => {
+      const clientQuery = jest.fn<(sql: string, values?: any[]) => Promise<any>>()
+        .mockResolvedValueOnce({ rows: [] }) // case event
+        .mockRejectedValueOnce(new Error('deadline_chains unavailable'));
+      mockDb.transaction.mockImplementation(async (callback: any) => callback({ query: clientQuery }));
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: mockCaseId }] }) // checkCaseAccess
+        .mockResolvedValueOnce({ rows: [{ legal_domain: 'civil', court_level: null }] });
+
+      await expect(
+        caseManagementService.addCaseEvent(mockCaseId, { ...judgmentData, deadlineChain: {} }, mockUserId)
+      ).rejects.toThrow('Failed to add case event');
+
+      // L'événement n'a été écrit que dans la transaction annulée
+      expect(clientQuery.mock.calls[0]?.[0]).toContain('INSERT INTO case_events');
+      expect(mockDb.query.mock.calls.some(([sql]) => String(sql).includes('INSERT INTO case_events'))).toBe(false);
+      expect(clientQuery.mock.calls[1]?.[1]).toEqual(expect.arrayContaining(['civil', 'contradictoire']));
+    });
+  });
+
   describe('addCaseNote', () => {
     it('should add case note successfully', async () => {
       const noteData: CreateCaseNoteRequest = {
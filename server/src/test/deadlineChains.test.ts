@@ -0,0 +1,80 @@
+import { describe, test, expect } from '@jest/globals';
+import { getDeadlineChainSteps, planDeadlineChain } from '../legal/deadlineChains';
+import { formatIsoDate } from '../legal/judicialCalendar';
+import { computeProceduralDeadline } from '../legal/proceduralDeadlineRules';
+
+const summarize = (steps: ReturnType<typeof planDeadlineChain>) =>
+  steps.map(step => ({
+    step: step.stepKey,
+    base: formatIsoDate(step.baseDate),
+    deadline: formatIsoDate(step.deadline),
+    provisional: step.provisional
+  }));
+
+describe('Deadline chains', () => {
+  const judgment = new Date(2026, 2, 2);
+
+  test('plans signification, appeal and execution for a judgment not yet served', () => {
+    const planned = planDeadlineChain({ procedure: 'civil', judgmentKind: 'contradictoire' }, { jugement_rendu: judgment });
+
+    expect(summarize(planned)).toEqual([
+      { step: 'signification', base: '2026-03-02', deadline: '2026-03-05', provisional: false },
+      { step: 'appel', base: '2026-03-05', deadline: '2026-04-06', provisional: true },
+      { step: 'execution', base: '2026-04-06', deadline: '2026-05-06', provisional: true },
+    ]);
+    expect(planned[1]?.parentStepKey).toBe('signification');
+  });
+
+  test('recomputes appeals from the actual signification date', () => {
+    const planned = planDeadlineChain(
+      { procedure: 'civil', judgmentKind: 'defaut' },
+      { jugement_rendu: judgment, signification: new Date(2026, 2, 10) }
+    );
+
+    expect(summarize(planned)).toEqual([
+      { step: 'signification', base: '2026-03-02', deadline: '2026-03-05', provisional: false },
+      { step: 'opposition', base: '2026-03-10', deadline: '2026-04-12', provisional: false },
+      { step: 'appel', base: '2026-03-10', deadline: '2026-04-12', provisional: false },
+      { step: 'execution', base: '2026-04-12', deadline: '2026-05-12', provisional: false },
+    ]);
+    expect(planned[1]?.baseEvent).toBe('signification');
+  });
+
+  test('correcting the judgment date shifts every dependent deadline', () => {
+    const context = { procedure: 'civil', judgmentKind: 'contradictoire' } as const;
+    const before = planDeadlineChain(context, { jugement_rendu: judgment });
+    const after = planDeadlineChain(context, { jugement_rendu: new Date(2026, 2, 9) });
+
+    for (let i = 0; i < before.length; i++) {
+      expect(after[i]!.deadline.getTime()).toBeGreaterThan(before[i]!.deadline.getTime());
+    }
+  });
+
+  test('each step matches the standalone rule computation', () => {
+    const planned = planDeadlineChain({ procedure: 'civil', judgmentKind: 'arret' }, { jugement_rendu: judgment });
+
+    for (const step of planned) {
+      const standalone = computeProceduralDeadline(step.ruleCode, step.baseDate);
+      expect(formatIsoDate(step.deadline)).toBe(formatIsoDate(standalone.deadline));
+    }
+    expect(planned.map(step => step.ruleCode)).toEqual(['signification_jugement', 'pourvoi_cassation', 'execution_jugement']);
+  });
+
+  test('penal deadlines run from the pronouncement without signification', () => {
+    const planned = planDeadlineChain({ procedure: 'penal', judgmentKind: 'contradictoire' }, { jugement_rendu: new Date(2026, 2, 10) });
+
+    expect(summarize(planned)).toEqual([
+      { step: 'appel', base: '2026-03-10', deadline: '2026-03-22', provisional: false },
+    ]);
+  });
+
+  test('every chain references known rules', () => {
+    for (const procedure of ['civil', 'administratif', 'penal'] as const) {
+      for (const judgmentKind of ['contradictoire', 'defaut', 'arret'] as const) {
+        const steps = getDeadlineChainSteps({ procedure, judgmentKind });
+        expect(steps.length).toBeGreaterThan(0);
+        expect(planDeadlineChain({ procedure, judgmentKind }, { jugement_rendu: judgment })).toHaveLength(steps.length);
+      }
+    }
+  });
+});
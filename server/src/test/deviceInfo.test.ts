@@ -0,0 +1,33 @@
+import { describe, test, expect } from '@jest/globals';
+import { deviceKey, networkOf, parseUserAgent } from '../utils/deviceInfo';
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36';
+const EDGE_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 Edg/128.0.0.0';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const FIREFOX_ANDROID = 'Mozilla/5.0 (Android 14; Mobile; rv:129.0) Gecko/129.0 Firefox/129.0';
+
+describe('Device info', () => {
+  test('names the browser and the system', () => {
+    expect(parseUserAgent(CHROME_WINDOWS)).toEqual({ browser: 'Chrome', os: 'Windows', type: 'desktop', label: 'Chrome sur Windows' });
+    expect(parseUserAgent(EDGE_WINDOWS).browser).toBe('Edge');
+    expect(parseUserAgent(SAFARI_IPHONE)).toMatchObject({ browser: 'Safari', os: 'iOS', type: 'mobile' });
+    expect(parseUserAgent(FIREFOX_ANDROID)).toMatchObject({ browser: 'Firefox', os: 'Android', type: 'mobile' });
+    expect(parseUserAgent(undefined).type).toBe('unknown');
+  });
+
+  test('a browser update keeps the same device key', () => {
+    const updated = CHROME_WINDOWS.replace('Chrome/128.0.0.0', 'Chrome/129.0.6668.59');
+
+    expect(deviceKey(updated)).toBe(deviceKey(CHROME_WINDOWS));
+    expect(deviceKey(EDGE_WINDOWS)).not.toBe(deviceKey(CHROME_WINDOWS));
+  });
+
+  test('groups addresses by network', () => {
+    expect(networkOf('41.111.23.45')).toBe('41.111.23.0/24');
+    expect(networkOf('::ffff:41.111.23.200')).toBe('41.111.23.0/24');
+    expect(networkOf('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::/48');
+    expect(networkOf('2001:db8::1')).toBe('2001:db8:0::/48');
+    expect(networkOf('not-an-ip')).toBeNull();
+    expect(networkOf(undefined)).toBeNull();
+  });
+});
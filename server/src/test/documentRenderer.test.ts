@@ -0,0 +1,135 @@
+import { describe, test, expect } from '@jest/globals';
+import { buildRenderableLegalDocument, documentRenderer, hasComposedLayout } from '../services/documentRenderer';
+import { ProfessionalIdentity } from '../services/documentLetterhead';
+import { Profession } from '../types/auth';
+import {
+  ConfidentialityLevel,
+  Document,
+  DocumentCategory,
+  DocumentExportOptions,
+  DocumentStatus,
+  DocumentType
+} from '../types/document';
+
+describe('Legal document rendering', () => {
+  const document = (language: 'fr' | 'ar', content: string): Document => ({
+    id: `doc-${language}`,
+    title: language === 'ar' ? 'عريضة افتتاحية' : 'Requête introductive',
+    type: DocumentType.REQUETE,
+    category: DocumentCategory.PROCEDURE,
+    content,
+    metadata: {
+      caseNumber: '2026/114',
+      legalReferences: [],
+      tags: [],
+      keywords: [],
+      customFields: {},
+      relatedDocuments: [],
+      attachments: []
+    },
+    ownerId: 'user-1',
+    permissions: [],
+    versions: [],
+    signatures: [],
+    createdAt: new Date(2026, 2, 1),
+    updatedAt: new Date(2026, 2, 1),
+    status: DocumentStatus.DRAFT,
+    isTemplate: false,
+    language,
+    confidentialityLevel: ConfidentialityLevel.CONFIDENTIAL
+  });
+
+  const identity: ProfessionalIdentity = {
+    firstName: 'Amina',
+    lastName: 'Benali',
+    profession: Profession.AVOCAT,
+    registrationNumber: 'A-2231',
+    barreauId: 'Barreau d\'Alger',
+    address: '12 rue Didouche Mourad, Alger',
+    city: 'Alger'
+  };
+
+  const french = document('fr', 'Premier paragraphe de la requête.\n\nSecond paragraphe : le demandeur sollicite le renvoi.');
+  const arabic = document('ar', 'الفقرة الأولى من العريضة.\n\nالفقرة الثانية: يلتمس المدعي التأجيل.');
+
+  const options = (overrides: Partial<DocumentExportOptions> = {}): DocumentExportOptions => ({
+    format: 'pdf',
+    includeMetadata: false,
+    includeSignatures: true,
+    includeAttachments: false,
+    ...overrides
+  });
+
+  test('adds the letterhead and signature block around the body', () => {
+    const model = buildRenderableLegalDocument(french, options({ destinataire: 'president_tribunal' }), {
+      identity,
+      generatedAt: new Date(2026, 2, 10)
+    });
+
+    const texts = model.rows.flatMap(row => (row.kind === 'separator' ? [] : [row.cells.fr ?? '']));
+    expect(texts[0]).toBe('Requête introductive');
+    expect(texts).toContain('À Monsieur le Président du Tribunal');
+    expect(texts.some(text => text.startsWith('Maître Amina Benali\nAvocat inscrit au Barreau d\'Alger'))).toBe(true);
+    expect(texts).toContain('Signature et cachet');
+    expect(texts.indexOf('Signature et cachet')).toBeGreaterThan(texts.indexOf('Premier paragraphe de la requête.'));
+  });
+
+  test('does not repeat a letterhead already composed by the drafting interface', () => {
+    const composed = document('fr', 'Maître Amina Benali\n━━━━━━━━━━━━━━━━━━━━\nCorps de la requête\n━━━━━━━━━━━━━━━━━━━━\nSignature et cachet');
+    expect(hasComposedLayout(composed.content)).toBe(true);
+
+    const model = buildRenderableLegalDocument(composed, options(), { identity });
+    const texts = model.rows.flatMap(row => (row.kind === 'separator' ? [] : [row.cells.fr ?? '']));
+    expect(texts.filter(text => text.includes('Signature et cachet'))).toHaveLength(1);
+    expect(model.rows.filter(row => row.kind === 'separator')).toHaveLength(2);
+  });
+
+  test('pairs French and Arabic paragraphs for the bilingual layout', () => {
+    const model = buildRenderableLegalDocument(french, options({ layout: 'bilingual' }), { identity, translation: arabic });
+
+    expect(model.languages).toEqual(['fr', 'ar']);
+    const body = model.rows.filter(row => row.kind === 'text' && row.role === 'body');
+    expect(body[0]).toEqual({
+      kind: 'text',
+      role: 'body',
+      cells: { fr: 'Premier paragraphe de la requête.', ar: 'الفقرة الأولى من العريضة.' }
+    });
+    expect(() => buildRenderableLegalDocument(french, options({ layout: 'bilingual' }), { identity, translation: null }))
+      .toThrow('Bilingual export requires a translation in the other language');
+  });
+
+  test('renders a PDF with an embedded font', async () => {
+    const model = buildRenderableLegalDocument(french, options({ layout: 'bilingual' }), { identity, translation: arabic });
+    const pdf = await documentRenderer.renderPDF(model, options({ watermark: 'PROJET' }));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.toString('latin1')).toContain('DejaVuSans');
+  });
+
+  test('renders a DOCX package with right-to-left Arabic runs and page numbers', async () => {
+    const model = buildRenderableLegalDocument(arabic, options({ format: 'docx' }), { identity });
+    const docx = await documentRenderer.renderDOCX(model, options({ format: 'docx' }));
+
+    expect(docx.subarray(0, 2).toString()).toBe('PK');
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(docx);
+    const body = await zip.file('word/document.xml')?.async('string');
+    expect(body).toContain('<w:bidi/>');
+    expect(body).toContain('<w:rtl/>');
+    expect(body).toContain('التوقيع والختم');
+    const footers = Object.keys(zip.files).filter(name => name.startsWith('word/footer'));
+    const footer = await zip.file(footers[0] as string)?.async('string');
+    expect(footer).toContain('PAGE');
+
+    await expect(documentRenderer.renderDOCX(model, options({ format: 'docx', password: 'secret' })))
+      .rejects.toThrow('Password protection is not available for docx exports');
+  });
+
+  test('escapes content in HTML exports', () => {
+    const model = buildRenderableLegalDocument(document('fr', 'Clause <b>nulle</b> & non avenue'), options(), { identity: null });
+    const html = documentRenderer.renderHTML(model, options({ format: 'html' }));
+
+    expect(html).toContain('Clause &lt;b&gt;nulle&lt;/b&gt; &amp; non avenue');
+    expect(html).not.toContain('Signature et cachet');
+  });
+});
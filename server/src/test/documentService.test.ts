@@ -28,6 +28,13 @@ jest.mock('@/utils/logger', () => ({
   }
 }));
 
+// Mock audit trail (scan verdicts are audited on upload)
+jest.mock('@/services/auditService', () => ({
+  auditService: {
+    logEvent: jest.fn()
+  }
+}));
+
 describe('DocumentService', () => {
   const mockUserId = 'user-123';
   const mockOrganizationId = 'org-456';
@@ -107,6 +114,8 @@ describe('DocumentService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Les réponses en file d'attente d'un test ne doivent pas déborder sur le suivant
+    mockDb.query.mockReset();
   });
 
   afterEach(() => {
@@ -228,13 +237,14 @@ describe('DocumentService', () => {
   describe('searchDocuments', () => {
     it('should search documents with basic criteria', async () => {
       const mockSearchResults = [
-        { ...mockDocument, rank: 0.8 },
-        { ...mockDocument, id: 'doc-456', rank: 0.6 }
+        { ...mockDocument, metadata: JSON.stringify(mockDocument.metadata), rank: 0.8 },
+        { ...mockDocument, id: 'doc-456', metadata: JSON.stringify(mockDocument.metadata), rank: 0.6 }
       ];
 
       mockDb.query
         .mockResolvedValueOnce({ rows: mockSearchResults }) // search query
-        .mockResolvedValueOnce({ rows: [{ count: '2' }] }); // count query
+        .mockResolvedValueOnce({ rows: [{ count: '2' }] }) // count query
+        .mockResolvedValueOnce({ rows: [] }); // attachment matches
 
       const criteria: DocumentSearchCriteria = {
         query: 'test document',
@@ -251,6 +261,38 @@ describe('DocumentService', () => {
       expect(result.searchTime).toBeGreaterThan(0);
     });
 
+    it('should return highlighted attachment matches for the documents found', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ ...mockDocument, metadata: '{}', rank: 0.4 }] }) // search query
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] }) // count query
+        .mockResolvedValueOnce({
+          rows: [{
+            document_id: mockDocumentId,
+            attachment_id: 'attachment-456',
+            original_filename: 'requete.pdf',
+            rank: '0.3',
+            headline: 'عريضة \uE000الدعوى\uE001 <مرفقة>'
+          }]
+        }); // attachment matches
+
+      const result = await documentService.searchDocuments({ query: 'الدَّعْوَى' }, mockUserId);
+
+      expect(result.attachmentMatches).toEqual([{
+        documentId: mockDocumentId,
+        attachmentId: 'attachment-456',
+        filename: 'requete.pdf',
+        snippet: 'عريضة <mark>الدعوى</mark> &lt;مرفقة&gt;',
+        rank: 0.3
+      }]);
+
+      // Requête normalisée, limitée aux documents de la page lisibles par l'utilisateur
+      const [sql, params] = mockDb.query.mock.calls[2] as [string, any[]];
+      expect(sql).toContain('attachment_text_index');
+      expect(params[0]).toEqual([mockDocumentId]);
+      expect(params[1]).toBe('الدعوي');
+      expect(params[3]).toBe(mockUserId);
+    });
+
     it('should search documents with date range filter', async () => {
       mockDb.query
         .mockResolvedValueOnce({ rows: [] })
@@ -522,6 +564,8 @@ describe('FileStorageService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Les réponses en file d'attente d'un test ne doivent pas déborder sur le suivant
+    mockDb.query.mockReset();
   });
 
   describe('uploadFile', () => {
@@ -538,6 +582,7 @@ describe('FileStorageService', () => {
       // Mock database operations
       mockDb.query
         .mockResolvedValueOnce({ rows: [] }) // findFileByHash
+        .mockResolvedValueOnce({ rows: [{ organization_id: mockUserId }] }) // getDocumentTenantId
         .mockResolvedValueOnce({ rows: [] }); // saveAttachmentToDatabase
 
       const result = await fileStorageService.uploadFile(
@@ -1,4 +1,6 @@
-import { encryptionService, EncryptionService } from '@/services/encryptionService';
+import crypto from 'crypto';
+import { encryptionService, EncryptionService, MemoryTenantKeyStore } from '@/services/encryptionService';
+import { LocalKmsProvider } from '@/services/masterKeyProvider';
 
 describe('EncryptionService', () => {
   let service: EncryptionService;
@@ -186,6 +188,70 @@ describe('EncryptionService', () => {
     });
   });
 
+  describe('Hiérarchie de clés', () => {
+    test('devrait envelopper une clé propre à chaque enregistrement', async () => {
+      await service.generateTenantKey(testTenantId);
+
+      const first = await service.encryptData(testData, testTenantId);
+      const second = await service.encryptData(testData, testTenantId);
+
+      expect(first.keyId).toBe(second.keyId);
+      expect(first.wrappedKey).toBeDefined();
+      expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    });
+
+    test('devrait réenvelopper les données avec la nouvelle clé après rotation', async () => {
+      const originalKey = await service.generateTenantKey(testTenantId);
+      const encrypted = await service.encryptData(testData, testTenantId);
+
+      const newKey = await service.rotateTenantKey(testTenantId);
+      expect(newKey.rotatedFrom).toBe(originalKey.keyId);
+
+      const rewrapped = await service.rewrapData(encrypted, testTenantId);
+
+      expect(rewrapped.keyId).toBe(newKey.keyId);
+      // Seule la clé de l'enregistrement change, pas les données chiffrées
+      expect(rewrapped.data).toBe(encrypted.data);
+      expect(await service.validateDataIntegrity(rewrapped, testTenantId)).toBe(true);
+      expect(await service.decryptData(rewrapped, testTenantId)).toBe(testData);
+      // L'ancienne clé reste lisible tant que tout n'a pas été réenveloppé
+      expect(await service.decryptData(encrypted, testTenantId)).toBe(testData);
+    });
+
+    test('devrait refuser une clé enveloppée déplacée vers un autre enregistrement', async () => {
+      await service.generateTenantKey(testTenantId);
+      const encrypted = await service.encryptData(testData, testTenantId);
+      const other = await service.encryptData('Autre dossier', testTenantId);
+
+      const tampered = { ...encrypted, wrappedKey: other.wrappedKey! };
+
+      expect(await service.validateDataIntegrity(tampered, testTenantId)).toBe(false);
+    });
+
+    test('devrait envelopper et désenvelopper une clé de fichier', async () => {
+      const fileKey = crypto.randomBytes(32);
+
+      const wrapped = await service.wrapDataKey(fileKey, testTenantId);
+
+      expect(wrapped.data).not.toContain(fileKey.toString('hex'));
+      expect((await service.unwrapDataKey(wrapped, testTenantId)).equals(fileKey)).toBe(true);
+    });
+
+    test('devrait relire les clés persistées avec la même clé maître', async () => {
+      const keyStore = new MemoryTenantKeyStore();
+      const masterKeyProvider = new LocalKmsProvider(crypto.randomBytes(32));
+      const writer = new EncryptionService({ keyStore, masterKeyProvider });
+      await writer.generateTenantKey(testTenantId);
+      const encrypted = await writer.encryptData(testData, testTenantId);
+
+      const reader = new EncryptionService({ keyStore, masterKeyProvider });
+      expect(await reader.decryptData(encrypted, testTenantId)).toBe(testData);
+
+      const wrongMaster = new EncryptionService({ keyStore, masterKeyProvider: new LocalKmsProvider(crypto.randomBytes(32)) });
+      await expect(wrongMaster.decryptData(encrypted, testTenantId)).rejects.toThrow('autre clé maître');
+    });
+  });
+
   describe('Gestion des erreurs', () => {
     test('devrait gérer les clés manquantes', async () => {
       await expect(
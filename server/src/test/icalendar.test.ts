@@ -0,0 +1,115 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildICalendar,
+  foldLine,
+  parseICalendar,
+  parseDurationMinutes
+} from '../utils/icalendar';
+
+describe('iCalendar', () => {
+  const stamp = new Date(Date.UTC(2026, 2, 1, 8, 0, 0));
+
+  test('serializes hearings with a stable UID, sequence and alarm', () => {
+    const ics = buildICalendar([{
+      uid: 'calendar-event-1@juristdz.dz',
+      summary: 'Audience : Dossier 12, Benali | جلسة : Dossier 12, Benali',
+      location: 'Tribunal de Sidi M\'Hamed',
+      start: new Date(Date.UTC(2026, 2, 10, 8, 30)),
+      end: new Date(Date.UTC(2026, 2, 10, 10, 0)),
+      sequence: 3,
+      alarms: [{ minutesBefore: 60, description: 'Audience' }]
+    }], { name: 'Agenda' }, stamp);
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:calendar-event-1@juristdz.dz');
+    expect(lines).toContain('DTSTAMP:20260301T080000Z');
+    expect(lines).toContain('DTSTART:20260310T083000Z');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('TRIGGER:-PT60M');
+    expect(ics).toContain('Dossier 12\\, Benali');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  test('all-day deadlines end on the following day', () => {
+    const ics = buildICalendar([{
+      uid: 'legal-deadline-1@juristdz.dz',
+      summary: 'Échéance',
+      start: new Date(2026, 3, 12),
+      allDay: true,
+      alarms: [{ minutesBefore: 7 * 1440, description: 'J-7' }]
+    }], { name: 'Agenda' }, stamp);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260412');
+    expect(ics).toContain('DTEND;VALUE=DATE:20260413');
+    expect(ics).toContain('TRIGGER:-P7D');
+  });
+
+  test('folds long Arabic lines without splitting characters', () => {
+    const line = `SUMMARY:${'أجل الاستئناف '.repeat(10)}`;
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+    }
+    expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  test('round-trips events through the parser', () => {
+    const ics = buildICalendar([{
+      uid: 'reminder-9@juristdz.dz',
+      summary: 'Rappel ; pièces, conclusions | تذكير',
+      description: 'Ligne 1\nLigne 2',
+      start: new Date(Date.UTC(2026, 4, 4, 9, 0)),
+      end: new Date(Date.UTC(2026, 4, 4, 9, 15)),
+      alarms: [{ minutesBefore: 30, description: 'Rappel' }]
+    }], { name: 'Agenda' }, stamp);
+
+    const [event] = parseICalendar(ics);
+    expect(event?.uid).toBe('reminder-9@juristdz.dz');
+    expect(event?.summary).toBe('Rappel ; pièces, conclusions | تذكير');
+    expect(event?.description).toBe('Ligne 1\nLigne 2');
+    expect(event?.start.toISOString()).toBe('2026-05-04T09:00:00.000Z');
+    expect(event?.end?.toISOString()).toBe('2026-05-04T09:15:00.000Z');
+    expect(event?.reminderMinutes).toBe(30);
+    expect(event?.allDay).toBe(false);
+  });
+
+  test('parses third-party files with folded lines, durations and all-day dates', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc',
+      'SUMMARY:Réunion avec le',
+      '  client',
+      'DTSTART;TZID=Africa/Algiers:20260310T140000',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Congé',
+      'DTSTART;VALUE=DATE:20260501',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Sans date',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const events = parseICalendar(ics);
+    expect(events).toHaveLength(2);
+    expect(events[0]?.summary).toBe('Réunion avec le client');
+    expect(events[0]!.end!.getTime() - events[0]!.start.getTime()).toBe(90 * 60000);
+    expect(events[1]?.allDay).toBe(true);
+    expect(events[1]?.start.getDate()).toBe(1);
+  });
+
+  test('parses signed durations', () => {
+    expect(parseDurationMinutes('-P1D')).toBe(-1440);
+    expect(parseDurationMinutes('PT1H30M')).toBe(90);
+    expect(parseDurationMinutes('-PT15M')).toBe(-15);
+    expect(parseDurationMinutes('invalid')).toBeNull();
+  });
+});
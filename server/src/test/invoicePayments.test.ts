@@ -0,0 +1,78 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  agingBucketFor,
+  agingBucketRank,
+  buildAgingReport,
+  daysOverdue,
+  formatCreditNoteNumber,
+  settleInvoice
+} from '../utils/invoicePayments';
+import { AgingBucket, InvoiceStatus, PaymentStatus } from '../types/billing';
+
+describe('Invoice payments and aging', () => {
+  const asOf = new Date(2026, 9, 31);
+  const invoice = (id: string, dueDate: Date, totalAmount: number, paidAmount = 0, creditedAmount = 0) => ({
+    invoiceId: id,
+    invoiceNumber: `FAC-2026-${id}`,
+    clientId: 'client-1',
+    clientName: 'SARL Atlas Import',
+    caseId: 'case-1',
+    lawyerId: 'lawyer-1',
+    issueDate: new Date(dueDate.getTime() - 30 * 24 * 60 * 60 * 1000),
+    dueDate,
+    totalAmount,
+    paidAmount,
+    creditedAmount
+  });
+
+  test('settlement follows the payments and credit notes of the invoice', () => {
+    const sent = { totalAmount: 119000, status: InvoiceStatus.SENT, dueDate: new Date(2026, 10, 15) };
+
+    expect(settleInvoice(sent, 0, 0, asOf)).toMatchObject({ remainingAmount: 119000, paymentStatus: PaymentStatus.UNPAID, status: InvoiceStatus.SENT });
+    expect(settleInvoice(sent, 50000.1, 0, asOf)).toMatchObject({ remainingAmount: 68999.9, paymentStatus: PaymentStatus.PARTIAL });
+    expect(settleInvoice(sent, 100000, 19000, asOf)).toMatchObject({ remainingAmount: 0, paymentStatus: PaymentStatus.PAID, status: InvoiceStatus.PAID });
+    expect(settleInvoice(sent, 0, 119000, asOf)).toMatchObject({ remainingAmount: 0, status: InvoiceStatus.CANCELLED });
+    expect(settleInvoice({ ...sent, dueDate: new Date(2026, 9, 1) }, 0, 0, asOf).paymentStatus).toBe(PaymentStatus.OVERDUE);
+  });
+
+  test('age is counted in days past the due date', () => {
+    expect(daysOverdue(new Date(2026, 10, 5), asOf)).toBe(0);
+    expect(daysOverdue(new Date(2026, 9, 1), asOf)).toBe(30);
+    expect([0, 30, 31, 60, 61, 90, 91, 400].map(agingBucketFor)).toEqual([
+      AgingBucket.DAYS_0_30, AgingBucket.DAYS_0_30,
+      AgingBucket.DAYS_31_60, AgingBucket.DAYS_31_60,
+      AgingBucket.DAYS_61_90, AgingBucket.DAYS_61_90,
+      AgingBucket.DAYS_90_PLUS, AgingBucket.DAYS_90_PLUS
+    ]);
+    expect(agingBucketRank(AgingBucket.DAYS_61_90)).toBeGreaterThan(agingBucketRank(AgingBucket.DAYS_31_60));
+  });
+
+  test('the aging report buckets what remains due after payments and credit notes', () => {
+    const report = buildAgingReport([
+      invoice('0001', new Date(2026, 10, 10), 30000),
+      invoice('0002', new Date(2026, 8, 1), 50000, 20000),
+      invoice('0003', new Date(2026, 6, 1), 40000, 10000, 5000),
+      invoice('0004', new Date(2026, 5, 1), 25000, 25000),
+      invoice('0005', new Date(2026, 2, 1), 15000, 0, 5000)
+    ], asOf);
+
+    expect(report.totalOutstanding).toBe(95000);
+    expect(report.invoices.map(i => [i.invoiceNumber, i.outstanding, i.bucket])).toEqual([
+      ['FAC-2026-0005', 10000, AgingBucket.DAYS_90_PLUS],
+      ['FAC-2026-0003', 25000, AgingBucket.DAYS_90_PLUS],
+      ['FAC-2026-0002', 30000, AgingBucket.DAYS_31_60],
+      ['FAC-2026-0001', 30000, AgingBucket.DAYS_0_30]
+    ]);
+    expect(report.buckets).toEqual([
+      { bucket: AgingBucket.DAYS_0_30, count: 1, amount: 30000, percentage: 31.6 },
+      { bucket: AgingBucket.DAYS_31_60, count: 1, amount: 30000, percentage: 31.6 },
+      { bucket: AgingBucket.DAYS_61_90, count: 0, amount: 0, percentage: 0 },
+      { bucket: AgingBucket.DAYS_90_PLUS, count: 2, amount: 35000, percentage: 36.8 }
+    ]);
+  });
+
+  test('credit notes are numbered per year', () => {
+    expect(formatCreditNoteNumber(2026, 7)).toBe('AV-2026-0007');
+    expect(formatCreditNoteNumber(2027, 12345)).toBe('AV-2027-12345');
+  });
+});
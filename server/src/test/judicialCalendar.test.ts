@@ -0,0 +1,85 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import {
+  JudicialCalendar,
+  judicialCalendar,
+  formatIsoDate,
+  gregorianToHijri,
+  hijriToGregorian
+} from '../legal/judicialCalendar';
+import { computeProceduralDeadline } from '../legal/proceduralDeadlineRules';
+
+const daysApart = (a: string, b: string): number =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (1000 * 60 * 60 * 24);
+
+describe('Judicial calendar', () => {
+  afterEach(() => {
+    judicialCalendar.setOverrides([]);
+  });
+
+  test('converts between Gregorian and Hijri dates', () => {
+    // 1er Ramadan 1445 = 11 mars 2024 (calendrier tabulaire)
+    expect(formatIsoDate(hijriToGregorian(1445, 9, 1))).toBe('2024-03-11');
+    expect(gregorianToHijri(new Date(2024, 2, 11))).toEqual({ year: 1445, month: 9, day: 1 });
+
+    for (const date of [new Date(2019, 0, 1), new Date(2026, 5, 17), new Date(2031, 11, 31)]) {
+      const hijri = gregorianToHijri(date);
+      expect(formatIsoDate(hijriToGregorian(hijri.year, hijri.month, hijri.day))).toBe(formatIsoDate(date));
+    }
+  });
+
+  test('computes religious holidays within a day of the official announcement', () => {
+    const official: Array<[number, 'aid_el_fitr' | 'aid_el_adha', string]> = [
+      [2023, 'aid_el_fitr', '2023-04-21'],
+      [2023, 'aid_el_adha', '2023-06-28'],
+      [2024, 'aid_el_fitr', '2024-04-10'],
+      [2024, 'aid_el_adha', '2024-06-16'],
+      [2025, 'aid_el_fitr', '2025-03-30'],
+      [2025, 'aid_el_adha', '2025-06-06'],
+    ];
+
+    for (const [year, code, date] of official) {
+      const computed = new JudicialCalendar().getHolidays(year).find(h => h.code === code);
+      expect(computed).toBeDefined();
+      expect(daysApart(computed!.date, date)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('lists fixed civil holidays for any year', () => {
+    const dates = new JudicialCalendar().getHolidays(2031).filter(h => h.kind === 'civil').map(h => h.date);
+    expect(dates).toEqual(['2031-01-01', '2031-01-12', '2031-05-01', '2031-07-05', '2031-11-01']);
+  });
+
+  test('official overrides replace the computed date for that year only', () => {
+    const calendar = new JudicialCalendar([{ year: 2025, code: 'aid_el_fitr', date: '2025-03-30' }]);
+
+    const fitr2025 = calendar.getHolidays(2025).filter(h => h.code === 'aid_el_fitr');
+    expect(fitr2025.map(h => h.date)).toEqual(['2025-03-30', '2025-03-31']);
+    expect(fitr2025.every(h => h.source === 'officiel')).toBe(true);
+    expect(calendar.getHolidays(2026).find(h => h.code === 'aid_el_fitr')?.source).toBe('calcul');
+  });
+
+  test('courts are closed on the weekend and on holidays', () => {
+    const calendar = new JudicialCalendar();
+    expect(calendar.isCourtWorkingDay(new Date(2026, 2, 13))).toBe(false); // vendredi
+    expect(calendar.isCourtWorkingDay(new Date(2026, 10, 1))).toBe(false); // 1er novembre
+    expect(calendar.isCourtWorkingDay(new Date(2026, 2, 10))).toBe(true);
+    // Les vacances judiciaires ne ferment pas les juridictions
+    expect(calendar.isCourtWorkingDay(new Date(2026, 6, 20))).toBe(true);
+    expect(calendar.getJudicialVacation(new Date(2026, 6, 20))?.code).toBe('vacances_ete');
+    expect(calendar.getJudicialVacation(new Date(2027, 0, 3))?.code).toBe('vacances_hiver');
+  });
+
+  test('nextWorkingDay skips weekends and Aïd days', () => {
+    const calendar = new JudicialCalendar([{ year: 2025, code: 'aid_el_fitr', date: '2025-03-30' }]);
+    // Jeudi 27/03 → ven., sam. (week-end), dim. 30 et lun. 31 (Aïd) → mardi 01/04
+    expect(formatIsoDate(calendar.nextWorkingDay(new Date(2025, 2, 27)))).toBe('2025-04-01');
+    expect(formatIsoDate(calendar.carryOver(new Date(2025, 3, 1)))).toBe('2025-04-01');
+  });
+
+  test('procedural deadlines are carried over past holidays by default', () => {
+    // Appel correctionnel : 22/10/2026 + 10 jours = dimanche 1er novembre (férié) → lundi 2
+    const result = computeProceduralDeadline('appel_penal', '2026-10-22');
+    expect(formatIsoDate(result.deadline)).toBe('2026-11-02');
+    expect(result.carriedOver).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EncryptedRecordStore, KeyRewrapService } from '@/services/keyRewrapService';
+import { EncryptedData, encryptionService } from '@/services/encryptionService';
+import { KeyRewrapJobStatus } from '@/types/encryption';
+import { db } from '@/database/connection';
+
+// Mock database
+jest.mock('@/database/connection');
+const mockDb = db as jest.Mocked<typeof db>;
+
+// Mock logger
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+/** Magasin d'enregistrements en mémoire, parcouru comme les magasins en base */
+class MemoryRecordStore implements EncryptedRecordStore {
+  readonly recordStoreName = 'memory';
+  readonly records = new Map<string, EncryptedData>();
+  readonly failingIds = new Set<string>();
+
+  async countRecordsToRewrap(_tenantId: string, keyId: string): Promise<number> {
+    return [...this.records.values()].filter(record => record.keyId !== keyId).length;
+  }
+
+  async findRecordsToRewrap(_tenantId: string, keyId: string, afterId: string | null, limit: number): Promise<string[]> {
+    return [...this.records.entries()]
+      .filter(([id, record]) => record.keyId !== keyId && (afterId === null || id > afterId))
+      .map(([id]) => id)
+      .sort()
+      .slice(0, limit);
+  }
+
+  async rewrapRecord(tenantId: string, recordId: string): Promise<EncryptedData[]> {
+    if (this.failingIds.has(recordId)) {
+      throw new Error('Enregistrement illisible');
+    }
+    const rewrapped = await encryptionService.rewrapData(this.records.get(recordId)!, tenantId);
+    this.records.set(recordId, rewrapped);
+    return [rewrapped];
+  }
+}
+
+describe('KeyRewrapService', () => {
+  const jobId = 'job-1';
+  let tenantId: string;
+  let store: MemoryRecordStore;
+  let service: KeyRewrapService;
+  let toKeyId: string;
+
+  const queueJob = () => {
+    let claimed = false;
+    mockDb.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('attempts = attempts + 1')) {
+        if (claimed) {
+          return { rows: [] };
+        }
+        claimed = true;
+        return {
+          rows: [{
+            id: jobId,
+            tenant_id: tenantId,
+            to_key_id: toKeyId,
+            status: KeyRewrapJobStatus.REWRAPPING,
+            attempts: 1,
+            created_at: new Date(),
+            started_at: new Date()
+          }]
+        };
+      }
+      if (sql.includes('COUNT(*)')) {
+        return { rows: [{ total: '0' }] };
+      }
+      return { rows: [] };
+    });
+  };
+
+  const finishedWith = () => mockDb.query.mock.calls
+    .filter(([sql]) => (sql as string).includes('completed_at = CURRENT_TIMESTAMP'))
+    .map(([, params]) => params)[0];
+
+  const lastTally = () => mockDb.query.mock.calls
+    .filter(([sql]) => (sql as string).includes('SET rewrapped_keys = $2, verified_keys = $3, failed_keys = $4'))
+    .map(([, params]) => params)
+    .pop();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockDb.query.mockReset();
+
+    tenantId = `cabinet-${Math.random().toString(36).slice(2)}`;
+    await encryptionService.generateTenantKey(tenantId);
+    store = new MemoryRecordStore();
+    store.records.set('record-1', await encryptionService.encryptData('Conclusions du client', tenantId));
+    store.records.set('record-2', await encryptionService.encryptData('Relevé de provision', tenantId));
+    toKeyId = (await encryptionService.rotateTenantKey(tenantId)).keyId;
+
+    service = new KeyRewrapService([store]);
+  });
+
+  it('should rewrap and verify encrypted records with the new tenant key', async () => {
+    queueJob();
+
+    await expect(service.processPendingJobs()).resolves.toBe(1);
+
+    for (const record of store.records.values()) {
+      expect(record.keyId).toBe(toKeyId);
+    }
+    expect(await encryptionService.decryptData(store.records.get('record-1')!, tenantId)).toBe('Conclusions du client');
+    expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('SET total_keys = $2'), [jobId, 2]);
+    expect(lastTally()).toEqual([jobId, 2, 2, 0]);
+    expect(finishedWith()).toEqual([jobId, KeyRewrapJobStatus.COMPLETED, null]);
+  });
+
+  it('should fail the job when a record cannot be rewrapped', async () => {
+    store.failingIds.add('record-2');
+    queueJob();
+
+    await service.processPendingJobs();
+
+    expect(store.records.get('record-1')!.keyId).toBe(toKeyId);
+    expect(store.records.get('record-2')!.keyId).not.toBe(toKeyId);
+    expect(lastTally()).toEqual([jobId, 1, 1, 1]);
+    expect(finishedWith()).toEqual([jobId, KeyRewrapJobStatus.FAILED, '1 key(s) could not be rewrapped or verified']);
+  });
+});
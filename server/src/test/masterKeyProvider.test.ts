@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+type MasterKeyModule = typeof import('../services/masterKeyProvider');
+
+describe('Master key provider', () => {
+  const originalEnv = process.env;
+  let directory: string | null = null;
+  let KeyFileProvider: MasterKeyModule['KeyFileProvider'];
+  let LocalKmsProvider: MasterKeyModule['LocalKmsProvider'];
+  let createMasterKeyProvider: MasterKeyModule['createMasterKeyProvider'];
+  let masterKeySettingsFromEnv: MasterKeyModule['masterKeySettingsFromEnv'];
+  let parseMasterKey: MasterKeyModule['parseMasterKey'];
+  let unwrapKey: MasterKeyModule['unwrapKey'];
+  let wrapKey: MasterKeyModule['wrapKey'];
+
+  beforeEach(async () => {
+    // Module et environnement neufs : aucun test ne dépend de l'ordre des autres
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    delete process.env.MASTER_KEY_PROVIDER;
+    delete process.env.MASTER_KEY;
+    delete process.env.MASTER_KEY_FILE;
+    directory = null;
+
+    ({
+      KeyFileProvider,
+      LocalKmsProvider,
+      createMasterKeyProvider,
+      masterKeySettingsFromEnv,
+      parseMasterKey,
+      unwrapKey,
+      wrapKey
+    } = await import('../services/masterKeyProvider'));
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    if (directory) {
+      await fs.rm(directory, { recursive: true, force: true });
+      directory = null;
+    }
+  });
+
+  test('wraps keys with the context authenticated', () => {
+    const kek = crypto.randomBytes(32);
+    const key = crypto.randomBytes(32);
+
+    const wrapped = wrapKey(kek, key, 'tenant:cabinet-alger:k1');
+    expect(unwrapKey(kek, wrapped, 'tenant:cabinet-alger:k1').equals(key)).toBe(true);
+
+    // Une clé enveloppée ne peut pas être présentée pour un autre tenant
+    expect(() => unwrapKey(kek, wrapped, 'tenant:cabinet-oran:k1')).toThrow();
+    expect(() => unwrapKey(crypto.randomBytes(32), wrapped, 'tenant:cabinet-alger:k1')).toThrow();
+  });
+
+  test('accepts a master key in hex or base64 only when it is 32 bytes long', () => {
+    const key = crypto.randomBytes(32);
+
+    expect(parseMasterKey(key.toString('hex')).equals(key)).toBe(true);
+    expect(parseMasterKey(key.toString('base64')).equals(key)).toBe(true);
+    expect(() => parseMasterKey('default-master-key')).toThrow('32 octets');
+  });
+
+  test('the local KMS identifies its master key without exposing it', async () => {
+    const key = crypto.randomBytes(32);
+    const provider = createMasterKeyProvider({
+      mode: 'kms',
+      kms: { masterKey: key.toString('base64') },
+      file: { path: '/nonexistent', createIfMissing: false }
+    });
+
+    expect(provider.name).toBe('local-kms');
+    expect(await provider.keyId()).toBe(await new LocalKmsProvider(key).keyId());
+    expect(await provider.keyId()).not.toContain(key.toString('hex').slice(0, 16));
+
+    const wrapped = await provider.wrapKey(Buffer.from('clé du tenant'), 'tenant:t1:k1');
+    expect((await new LocalKmsProvider(key).unwrapKey(wrapped, 'tenant:t1:k1')).toString()).toBe('clé du tenant');
+
+    expect(() => createMasterKeyProvider({
+      mode: 'kms',
+      kms: { masterKey: undefined },
+      file: { path: '/nonexistent', createIfMissing: false }
+    })).toThrow('MASTER_KEY');
+  });
+
+  test('reads the provider settings from the environment', () => {
+    expect(masterKeySettingsFromEnv().mode).toBe('file');
+    expect(masterKeySettingsFromEnv().file.path).toBe('./storage/keys/master.key');
+
+    process.env.MASTER_KEY_PROVIDER = 'kms';
+    process.env.MASTER_KEY = crypto.randomBytes(32).toString('base64');
+    process.env.NODE_ENV = 'production';
+
+    const settings = masterKeySettingsFromEnv();
+    expect(settings.mode).toBe('kms');
+    expect(settings.kms.masterKey).toBe(process.env.MASTER_KEY);
+    expect(settings.file.createIfMissing).toBe(false);
+  });
+
+  test('creates the key file once outside production and reads it back', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'master-key-'));
+    const keyPath = path.join(directory, 'keys', 'master.key');
+
+    const first = new KeyFileProvider({ path: keyPath, createIfMissing: true });
+    const wrapped = await first.wrapKey(Buffer.from('clé du tenant'), 'tenant:t1:k1');
+
+    const stat = await fs.stat(keyPath);
+    expect(stat.mode & 0o777).toBe(0o600);
+
+    const second = new KeyFileProvider({ path: keyPath, createIfMissing: false });
+    expect(await second.keyId()).toBe(await first.keyId());
+    expect((await second.unwrapKey(wrapped, 'tenant:t1:k1')).toString()).toBe('clé du tenant');
+  });
+
+  test('fails without a key file when it may not be created', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'master-key-'));
+    const provider = new KeyFileProvider({ path: path.join(directory, 'absent.key'), createIfMissing: false });
+
+    await expect(provider.keyId()).rejects.toThrow('ENOENT');
+  });
+});
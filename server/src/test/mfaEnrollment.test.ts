@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import speakeasy from 'speakeasy';
+import { AuthenticationService } from '@/services/authService';
+import { db } from '@/database/connection';
+
+// Mock database
+jest.mock('@/database/connection');
+const mockDb = db as jest.Mocked<typeof db>;
+
+// Mock logger
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+jest.mock('@/services/mfaService', () => ({
+  mfaService: {
+    issueRecoveryCodesIfMissing: jest.fn(async () => ['ABCD-EFGH']),
+    getLoginMethods: jest.fn(async () => ['totp'])
+  }
+}));
+
+jest.mock('@/services/sessionService', () => ({
+  sessionService: {
+    recordLogin: jest.fn()
+  }
+}));
+
+describe('TOTP enrollment', () => {
+  const userId = 'user-123';
+  const email = 'maitre.benali@example.dz';
+  const password = 'MotDePasse!2024';
+  let authService: AuthenticationService;
+  let user: Record<string, any>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockDb.query.mockReset();
+    authService = new AuthenticationService();
+
+    user = {
+      id: userId,
+      email,
+      password_hash: await bcrypt.hash(password, 4),
+      is_active: true,
+      email_verified: true,
+      mfa_enabled: false,
+      mfa_secret: null,
+      mfa_totp_verified_at: null
+    };
+
+    // Table users réduite à une ligne : seules les écritures MFA la modifient
+    mockDb.query.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.startsWith('UPDATE users SET mfa_secret')) {
+        user.mfa_secret = params![0];
+      } else if (sql.startsWith('UPDATE users SET mfa_enabled = true')) {
+        user.mfa_enabled = true;
+        if (sql.includes('mfa_totp_verified_at = CURRENT_TIMESTAMP')) {
+          user.mfa_totp_verified_at = new Date();
+        }
+      } else if (sql.includes('FROM users WHERE')) {
+        return { rows: [{ ...user }] };
+      } else if (sql.includes('FROM user_profiles up')) {
+        return { rows: [{ id: 'profile-1', user_id: userId, profession: 'avocat', first_name: 'Karim', last_name: 'Benali' }] };
+      }
+      return { rows: [] };
+    });
+  });
+
+  it('should accept TOTP codes at login once the enrolled secret is verified', async () => {
+    const setup = await authService.enableMFA(userId, 'totp');
+    const code = () => speakeasy.totp({ secret: setup.secret, encoding: 'base32' });
+
+    await expect(authService.verifyMFASetup(userId, code())).resolves.toBe(true);
+    expect(user.mfa_totp_verified_at).toBeInstanceOf(Date);
+
+    const challenge = await authService.authenticate({ email, password });
+    expect(challenge.success).toBe(false);
+    expect(challenge.mfaRequired).toBe(true);
+
+    const login = await authService.authenticate({ email, password, mfaCode: code() });
+    expect(login.success).toBe(true);
+    expect(login.user?.mfaEnabled).toBe(true);
+    expect(login.tokens).toBeDefined();
+  });
+
+  it('should keep refusing codes for a secret that was never verified', async () => {
+    const setup = await authService.enableMFA(userId, 'totp');
+    const code = () => speakeasy.totp({ secret: setup.secret, encoding: 'base32' });
+
+    await expect(authService.verifyMFASetup(userId, '000000')).resolves.toBe(false);
+    expect(user.mfa_totp_verified_at).toBeNull();
+
+    // Un compte dont MFA a été activé par ailleurs n'accepte pas un secret non vérifié
+    user.mfa_enabled = true;
+    const login = await authService.authenticate({ email, password, mfaCode: code() });
+    expect(login.success).toBe(false);
+    expect(login.error).toBe('Invalid MFA code');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  ActeChaine,
+  calculerHashEntree,
+  chainerEntree,
+  donneesPointControle,
+  empreinteActe,
+  verifierChaine
+} from '../services/minutierChain';
+import {
+  chargerClePrivee,
+  creerAutoriteCertification,
+  emettreCertificatNotaire,
+  signerDonnees
+} from '../services/notarialPki';
+import { EntreeRegistreMinutier, PointControleMinutier } from '../types/minutier';
+
+describe('Minutier hash chain', () => {
+  const notaireId = 'notaire-1';
+  const phraseSecrete = 'phrase-secrete-de-test-0123456789';
+  const maintenant = new Date('2026-03-10T09:00:00Z');
+
+  const autorite = creerAutoriteCertification({ nomCommun: 'AC JuristDZ' }, { phraseSecrete, validiteJours: 3650, maintenant });
+  const notaire = emettreCertificatNotaire(
+    { certificatPem: autorite.certificatPem, clePrivee: chargerClePrivee(autorite.clePriveeChiffree, phraseSecrete) },
+    { nomCommun: 'Maître Benali' },
+    { phraseSecrete, validiteJours: 730, maintenant }
+  );
+
+  const acte = (rang: number): ActeChaine => ({
+    id: `acte-${rang}`,
+    numeroMinutier: `2026-${String(rang).padStart(6, '0')}`,
+    numeroRepertoire: `REP-2026-${String(rang).padStart(4, '0')}`,
+    dateActe: '2026-03-10',
+    typeActe: 'vente_immobiliere',
+    objet: `Vente n° ${rang}`,
+    parties: [{ nom: 'Martin', prenom: 'Pierre', qualite: 'vendeur' }],
+    contenuChiffre: `chiffre-${rang}`,
+    hashIntegrite: `${rang}`.repeat(64).slice(0, 64)
+  });
+
+  const construire = (nombre: number) => {
+    const actes = Array.from({ length: nombre }, (_, i) => acte(i + 1));
+    const entrees: EntreeRegistreMinutier[] = [];
+    for (const [i, a] of actes.entries()) {
+      entrees.push(chainerEntree(entrees[entrees.length - 1] ?? null, notaireId, 'inscription', a, new Date(maintenant.getTime() + i * 60000)));
+    }
+    return { actes, entrees };
+  };
+
+  const pointControle = (entree: EntreeRegistreMinutier): PointControleMinutier => {
+    const point = {
+      notaireId,
+      datePoint: '2026-03-11',
+      sequence: entree.sequence,
+      hashTete: entree.hashEntree,
+      certificatPem: notaire.certificatPem,
+      creeLe: new Date('2026-03-10T23:05:00Z')
+    };
+    return { ...point, signature: signerDonnees(chargerClePrivee(notaire.clePriveeChiffree, phraseSecrete), donneesPointControle(point)) };
+  };
+
+  const verifier = (elements: { actes: ActeChaine[]; entrees: EntreeRegistreMinutier[] }, points: PointControleMinutier[] = []) =>
+    verifierChaine({ notaireId, ...elements, pointsControle: points, autoritePem: autorite.certificatPem, maintenant });
+
+  const types = (elements: Parameters<typeof verifier>[0], points: PointControleMinutier[] = []) =>
+    verifier(elements, points).anomalies.map(anomalie => anomalie.type);
+
+  test('chains entries and verifies an intact register with its checkpoint', () => {
+    const registre = construire(3);
+    expect(registre.entrees[0]!.hashPrecedent).toBe('0'.repeat(64));
+    expect(registre.entrees[1]!.hashPrecedent).toBe(registre.entrees[0]!.hashEntree);
+
+    const rapport = verifier(registre, [pointControle(registre.entrees[2]!)]);
+    expect(rapport).toMatchObject({ integre: true, nombreEntrees: 3, nombreActes: 3, hashTete: registre.entrees[2]!.hashEntree });
+    expect(rapport.dernierPointControle).toEqual({ datePoint: '2026-03-11', sequence: 3 });
+  });
+
+  test('ignores JSONB key order in the acte fingerprint', () => {
+    const a = acte(1);
+    expect(empreinteActe({ ...a, parties: [{ qualite: 'vendeur', prenom: 'Pierre', nom: 'Martin' }] })).toBe(empreinteActe(a));
+  });
+
+  test('detects deleted entries, reordering and edited entries', () => {
+    const supprimee = construire(4);
+    supprimee.entrees.splice(1, 1);
+    expect(types(supprimee)).toEqual(expect.arrayContaining(['sequence_manquante', 'rupture_chaine', 'numerotation_lacunaire']));
+
+    const reordonnee = construire(3);
+    const [premiere, seconde] = [reordonnee.entrees[0]!, reordonnee.entrees[1]!];
+    reordonnee.entrees[0] = { ...seconde, sequence: 1 };
+    reordonnee.entrees[1] = { ...premiere, sequence: 2 };
+    expect(types(reordonnee)).toEqual(expect.arrayContaining(['rupture_chaine', 'entree_modifiee', 'ordre']));
+
+    const modifiee = construire(2);
+    modifiee.entrees[1] = { ...modifiee.entrees[1]!, hashActe: 'f'.repeat(64) };
+    expect(types(modifiee)).toEqual(expect.arrayContaining(['entree_modifiee', 'acte_modifie']));
+  });
+
+  test('detects deleted, renumbered, edited and unregistered actes', () => {
+    const registre = construire(3);
+    registre.actes.splice(2, 1);
+    expect(types(registre)).toEqual(['acte_supprime']);
+
+    const renumerote = construire(2);
+    renumerote.actes[1] = { ...renumerote.actes[1]!, numeroMinutier: '2026-000007' };
+    expect(types(renumerote)).toEqual(['acte_renumerote']);
+
+    const edite = construire(2);
+    edite.actes[0] = { ...edite.actes[0]!, objet: 'Donation' };
+    expect(types(edite)).toEqual(['acte_modifie']);
+
+    const horsRegistre = construire(2);
+    horsRegistre.actes.push(acte(3));
+    expect(types(horsRegistre)).toEqual(['acte_non_inscrit']);
+  });
+
+  test('uses signed checkpoints to catch a rewritten or truncated history', () => {
+    const original = construire(3);
+    const point = pointControle(original.entrees[2]!);
+
+    // Réécriture complète et cohérente de la chaîne après retrait du deuxième acte
+    const actes = [original.actes[0]!, { ...original.actes[2]!, numeroMinutier: '2026-000002', numeroRepertoire: 'REP-2026-0002' }];
+    const entrees: EntreeRegistreMinutier[] = [];
+    for (const a of actes) {
+      entrees.push(chainerEntree(entrees[entrees.length - 1] ?? null, notaireId, 'inscription', a, maintenant));
+    }
+    expect(types({ actes, entrees })).toEqual([]);
+    expect(types({ actes, entrees }, [point])).toEqual(['sequence_manquante']);
+
+    entrees.push(chainerEntree(entrees[1]!, notaireId, 'archivage', actes[1]!, maintenant));
+    expect(types({ actes, entrees }, [point])).toEqual(['point_controle_incoherent']);
+
+    const falsifie = { ...point, hashTete: entrees[2]!.hashEntree };
+    expect(types({ actes, entrees }, [falsifie])).toEqual(['point_controle_invalide']);
+    expect(calculerHashEntree(entrees[2]!)).toBe(entrees[2]!.hashEntree);
+  });
+});
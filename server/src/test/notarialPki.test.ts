@@ -0,0 +1,120 @@
+import { describe, test, expect } from '@jest/globals';
+import crypto from 'crypto';
+import {
+  analyserChargeQr,
+  chargerClePrivee,
+  construireChargeQr,
+  creerAutoriteCertification,
+  emettreCertificatNotaire,
+  empreinteContenu,
+  evaluerCopieConforme,
+  signerCopie,
+  resumeCertificat,
+  verifierCertificat,
+  ElementsCopieAVerifier
+} from '../services/notarialPki';
+
+describe('Notarial PKI', () => {
+  const phraseSecrete = 'phrase-secrete-de-test-0123456789';
+  const maintenant = new Date('2026-03-10T09:00:00Z');
+
+  const autorite = creerAutoriteCertification(
+    { nomCommun: 'Autorité de certification JuristDZ', organisation: 'JuristDZ', pays: 'DZ' },
+    { phraseSecrete, validiteJours: 3650, maintenant }
+  );
+  const signataire = { certificatPem: autorite.certificatPem, clePrivee: chargerClePrivee(autorite.clePriveeChiffree, phraseSecrete) };
+  const notaire = emettreCertificatNotaire(
+    signataire,
+    { nomCommun: 'Maître Amina Benali', organisation: 'Étude Benali', numeroSerie: 'AGR-16-0042', pays: 'DZ' },
+    { phraseSecrete, validiteJours: 730, maintenant }
+  );
+  const cleNotaire = chargerClePrivee(notaire.clePriveeChiffree, phraseSecrete);
+
+  const contenu = 'COPIE CONFORME\n\nActe n° 2026-000012\nObjet: Vente d\'un appartement';
+  const copie = { id: '6f1c2a9e-3b4d-4e5f-8a7b-1c2d3e4f5a6b', numeroCopie: 'COPIE_CONFORME-001', hashCopie: empreinteContenu(contenu) };
+
+  const elements = (extra: Partial<ElementsCopieAVerifier> = {}): ElementsCopieAVerifier => ({
+    copie: { ...copie, contenuCopie: contenu, annulee: false },
+    signature: {
+      signatureNumerique: signerCopie(cleNotaire, copie, 'signature'),
+      certificatPem: notaire.certificatPem,
+      dateSignature: maintenant
+    },
+    cachets: [
+      { type: 'cachet_etude', empreinte: signerCopie(cleNotaire, copie, 'cachet_etude') },
+      { type: 'sceau_electronique', empreinte: signerCopie(cleNotaire, copie, 'sceau_electronique') }
+    ],
+    autoritePem: autorite.certificatPem,
+    revocation: null,
+    ...extra
+  });
+
+  test('issues X.509 certificates that chain to the local authority', () => {
+    const certificat = new crypto.X509Certificate(notaire.certificatPem);
+    const ca = new crypto.X509Certificate(autorite.certificatPem);
+
+    expect(ca.ca).toBe(true);
+    expect(certificat.ca).toBe(false);
+    expect(certificat.checkIssued(ca)).toBe(true);
+    expect(certificat.verify(ca.publicKey)).toBe(true);
+    expect(resumeCertificat(notaire.certificatPem)).toEqual({
+      numeroSerie: notaire.numeroSerie,
+      titulaire: 'Maître Amina Benali',
+      emetteur: 'Autorité de certification JuristDZ',
+      valideDu: notaire.valideDu,
+      valideAu: notaire.valideAu
+    });
+    expect(notaire.clePriveeChiffree).toContain('ENCRYPTED PRIVATE KEY');
+
+    expect(verifierCertificat(notaire.certificatPem, autorite.certificatPem, maintenant)).toBeNull();
+    expect(verifierCertificat(notaire.certificatPem, autorite.certificatPem, new Date('2029-01-01T00:00:00Z')))
+      .toBe('Certificat hors de sa période de validité à la date de signature');
+
+    const autreAutorite = creerAutoriteCertification({ nomCommun: 'Autorité de certification JuristDZ' }, { phraseSecrete, validiteJours: 3650, maintenant });
+    expect(verifierCertificat(notaire.certificatPem, autreAutorite.certificatPem, maintenant))
+      .toBe('Certificat non émis par l\'autorité de certification');
+  });
+
+  test('accepts an authentic, unaltered copy with its seals', () => {
+    expect(evaluerCopieConforme(elements({ hashPresente: copie.hashCopie }))).toEqual({
+      authentique: true,
+      inalteree: true,
+      cachetsVerifies: ['cachet_etude', 'sceau_electronique'],
+      anomalies: []
+    });
+  });
+
+  test('detects altered content and a different presented document', () => {
+    const modifiee = elements();
+    modifiee.copie.contenuCopie = contenu.replace('appartement', 'terrain');
+    expect(evaluerCopieConforme(modifiee)).toMatchObject({ authentique: true, inalteree: false });
+
+    const presentee = evaluerCopieConforme(elements({ hashPresente: empreinteContenu('autre document') }));
+    expect(presentee.inalteree).toBe(false);
+    expect(presentee.anomalies).toContain('Le document présenté diffère de la copie délivrée');
+  });
+
+  test('rejects forged signatures, seals and revoked certificates', () => {
+    const contrefaite = elements();
+    contrefaite.copie.hashCopie = empreinteContenu('autre contenu');
+    contrefaite.copie.contenuCopie = 'autre contenu';
+    const resultat = evaluerCopieConforme(contrefaite);
+    expect(resultat.authentique).toBe(false);
+    expect(resultat.anomalies).toContain('Signature du notaire invalide pour cette copie');
+    expect(resultat.cachetsVerifies).toEqual([]);
+
+    expect(evaluerCopieConforme(elements({ revocation: { date: new Date('2026-03-01T00:00:00Z') } })).authentique).toBe(false);
+    const revoqueeApres = evaluerCopieConforme(elements({ revocation: { date: new Date('2026-06-01T00:00:00Z') } }));
+    expect(revoqueeApres.authentique).toBe(true);
+    expect(revoqueeApres.anomalies).toEqual(['Certificat du notaire révoqué après la signature']);
+
+    expect(evaluerCopieConforme(elements({ autoritePem: null })).authentique).toBe(false);
+  });
+
+  test('round-trips the QR payload', () => {
+    const charge = construireChargeQr(copie);
+    expect(charge).toBe(`JURISTDZ:CC:1:${copie.id}:${copie.hashCopie}`);
+    expect(analyserChargeQr(` ${charge}\n`)).toEqual({ id: copie.id, hashCopie: copie.hashCopie });
+    expect(analyserChargeQr('COPIE_CONFORME-001')).toBeNull();
+  });
+});
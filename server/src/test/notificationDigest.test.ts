@@ -0,0 +1,111 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  isCriticalNotification,
+  isQuietTime,
+  nextAllowedTime,
+  nextDigestTime,
+  renderDigest
+} from '../utils/notificationDigest';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDeliverySettings,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationType
+} from '../types/notification';
+
+describe('Notification digests and quiet hours', () => {
+  const settings = (extra: Partial<NotificationDeliverySettings> = {}): NotificationDeliverySettings => ({
+    userId: 'user-1',
+    digestMode: 'daily',
+    digestTime: '08:00',
+    timezone: 'Africa/Algiers',
+    quietHoursStart: '20:00',
+    quietHoursEnd: '08:00',
+    quietOnWeekend: true,
+    ...extra
+  });
+
+  const notification = (extra: Partial<Notification> = {}): Notification => ({
+    id: 'n-1',
+    recipientId: 'user-1',
+    type: NotificationType.CASE_UPDATE,
+    channel: NotificationChannel.EMAIL,
+    subject: 'Dossier 2026/114',
+    message: 'Nouvelle pièce versée au dossier',
+    scheduledAt: new Date('2026-03-10T09:00:00Z'),
+    status: NotificationStatus.PENDING,
+    priority: NotificationPriority.NORMAL,
+    retryCount: 0,
+    maxRetries: 3,
+    metadata: {},
+    createdAt: new Date('2026-03-10T09:00:00Z'),
+    updatedAt: new Date('2026-03-10T09:00:00Z'),
+    ...extra
+  });
+
+  test('recognizes overnight quiet hours and the Friday/Saturday weekend', () => {
+    // Mardi 10 mars 2026, heure d'Alger = UTC+1
+    expect(isQuietTime(settings(), new Date('2026-03-10T21:30:00Z'))).toBe(true);
+    expect(isQuietTime(settings(), new Date('2026-03-10T05:00:00Z'))).toBe(true);
+    expect(isQuietTime(settings(), new Date('2026-03-10T10:00:00Z'))).toBe(false);
+    // Vendredi 13 mars à midi
+    expect(isQuietTime(settings(), new Date('2026-03-13T11:00:00Z'))).toBe(true);
+    expect(isQuietTime(settings({ quietOnWeekend: false }), new Date('2026-03-13T11:00:00Z'))).toBe(false);
+  });
+
+  test('defers past the quiet window and the weekend', () => {
+    expect(nextAllowedTime(settings(), new Date('2026-03-10T21:30:00Z')).toISOString()).toBe('2026-03-11T07:00:00.000Z');
+    // Jeudi 22h → dimanche 8h
+    expect(nextAllowedTime(settings(), new Date('2026-03-12T21:00:00Z')).toISOString()).toBe('2026-03-15T07:00:00.000Z');
+    expect(nextAllowedTime(settings(), new Date('2026-03-10T10:00:00Z')).toISOString()).toBe('2026-03-10T10:00:00.000Z');
+  });
+
+  test('schedules hourly and daily digests outside quiet periods', () => {
+    const hourly = settings({ digestMode: 'hourly', quietHoursStart: '22:00', quietHoursEnd: '07:00' });
+    expect(nextDigestTime(hourly, new Date('2026-03-10T09:20:00Z')).toISOString()).toBe('2026-03-10T10:00:00.000Z');
+    expect(nextDigestTime(hourly, new Date('2026-03-10T20:45:00Z')).toISOString()).toBe('2026-03-11T06:00:00.000Z');
+
+    const daily = settings({ digestTime: '18:30' });
+    expect(nextDigestTime(daily, new Date('2026-03-10T09:00:00Z')).toISOString()).toBe('2026-03-10T17:30:00.000Z');
+    // Jeudi soir : le récapitulatif du vendredi est reporté au dimanche 8h
+    expect(nextDigestTime(daily, new Date('2026-03-12T18:00:00Z')).toISOString()).toBe('2026-03-15T07:00:00.000Z');
+  });
+
+  test('treats urgent items and deadlines due by tomorrow as critical', () => {
+    const now = new Date('2026-03-10T09:00:00Z');
+    expect(isCriticalNotification(notification({ priority: NotificationPriority.URGENT }), now)).toBe(true);
+    expect(isCriticalNotification(notification({
+      type: NotificationType.DEADLINE_REMINDER,
+      metadata: { deadlineDate: '2026-03-11' }
+    }), now)).toBe(true);
+    expect(isCriticalNotification(notification({
+      type: NotificationType.DEADLINE_REMINDER,
+      metadata: { deadlineDate: '2026-03-12' }
+    }), now)).toBe(false);
+    expect(isCriticalNotification(notification(), now)).toBe(false);
+  });
+
+  test('renders one bilingual digest grouped by type', () => {
+    const digest = renderDigest([
+      notification(),
+      notification({
+        id: 'n-2',
+        type: NotificationType.DEADLINE_REMINDER,
+        priority: NotificationPriority.HIGH,
+        subject: 'Délai d\'appel',
+        message: 'Expire le 20 mars <urgent>',
+        metadata: { subjectAr: 'أجل الاستئناف', messageAr: 'ينتهي في 20 مارس' }
+      })
+    ], settings(), new Date('2026-03-10T07:00:00Z'));
+
+    expect(digest.subject).toContain('2 notifications');
+    expect(digest.text.indexOf('Délais (1)')).toBeLessThan(digest.text.indexOf('Dossiers (1)'));
+    expect(digest.text).toContain('  • Délai d\'appel — Expire le 20 mars <urgent>');
+    expect(digest.text).toContain('الآجال (1)');
+    expect(digest.text).toContain('  • أجل الاستئناف — ينتهي في 20 مارس');
+    expect(digest.html).toContain('<div lang="ar" dir="rtl">');
+    expect(digest.html).toContain('Expire le 20 mars &lt;urgent&gt;');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  MemoryNotificationEventStore,
+  NotificationStream,
+  buildDeadlineAlertSummary,
+  formatSseEvent,
+  parseLastEventId
+} from '../services/notificationStream';
+import { NotificationStreamEvent } from '../types/notification';
+
+describe('Notification stream', () => {
+  const received = () => {
+    const events: NotificationStreamEvent[] = [];
+    return { events, listener: (event: NotificationStreamEvent) => { events.push(event); } };
+  };
+
+  test('pushes published events to every connection of the recipient only', async () => {
+    const stream = new NotificationStream(new MemoryNotificationEventStore());
+    const first = received();
+    const second = received();
+    const other = received();
+
+    await stream.connect('user-1', null, first.listener);
+    await stream.connect('user-1', null, second.listener);
+    const unsubscribe = await stream.connect('user-2', null, other.listener);
+
+    await stream.publish('user-1', 'notification', { subject: 'Audience demain' });
+    expect(first.events.map(event => event.data.subject)).toEqual(['Audience demain']);
+    expect(second.events).toHaveLength(1);
+    expect(other.events).toHaveLength(0);
+
+    expect(stream.connectionCount()).toBe(3);
+    unsubscribe();
+    expect(stream.connectedUsers()).toEqual(['user-1']);
+  });
+
+  test('replays the events missed after Last-Event-ID before live events', async () => {
+    const stream = new NotificationStream(new MemoryNotificationEventStore());
+    const before = received();
+    const disconnect = await stream.connect('user-1', null, before.listener);
+
+    await stream.publish('user-1', 'notification', { n: 1 });
+    disconnect();
+    await stream.publish('user-1', 'report_ready', { n: 2 });
+    await stream.publish('user-1', 'deadline_alert', { n: 3 });
+
+    const after = received();
+    const lastEventId = before.events[0]!.id;
+    await stream.connect('user-1', lastEventId, after.listener);
+    await stream.publish('user-1', 'notification', { n: 4 });
+
+    expect(after.events.map(event => event.data.n)).toEqual([2, 3, 4]);
+    expect(after.events.map(event => event.type)).toEqual(['report_ready', 'deadline_alert', 'notification']);
+  });
+
+  test('does not lose or repeat events published while the replay is read', async () => {
+    const store = new MemoryNotificationEventStore();
+    const stream = new NotificationStream(store);
+    await stream.publish('user-1', 'notification', { n: 1 });
+
+    // Publication concurrente pendant la lecture du journal
+    const since = store.since.bind(store);
+    store.since = async (userId, afterId, limit) => {
+      const events = await since(userId, afterId, limit);
+      if (afterId === 0) {
+        await stream.publish('user-1', 'notification', { n: 2 });
+      }
+      return events;
+    };
+
+    const client = received();
+    await stream.connect('user-1', 0, client.listener);
+    await stream.publish('user-1', 'notification', { n: 3 });
+
+    expect(client.events.map(event => event.data.n)).toEqual([1, 2, 3]);
+  });
+
+  test('formats SSE frames and parses Last-Event-ID', () => {
+    const frame = formatSseEvent({
+      id: 42,
+      userId: 'user-1',
+      type: 'report_ready',
+      data: { title: 'Activité\nmars' },
+      createdAt: new Date('2026-03-10T08:00:00Z')
+    });
+
+    expect(frame).toBe('id: 42\nevent: report_ready\ndata: {"title":"Activité\\nmars","createdAt":"2026-03-10T08:00:00.000Z"}\n\n');
+    expect(parseLastEventId('42')).toBe(42);
+    expect(parseLastEventId(['7'])).toBe(7);
+    expect(parseLastEventId('abc')).toBeNull();
+    expect(parseLastEventId(undefined)).toBeNull();
+  });
+
+  test('summarizes overdue and urgent deadlines', () => {
+    const summary = buildDeadlineAlertSummary([
+      { id: 'd1', title: 'Appel', title_ar: 'استئناف', deadline_date: '2026-03-08' },
+      { id: 'd2', title: 'Opposition', deadline_date: '2026-03-12' },
+      { id: 'd3', title: 'Cassation', deadline_date: '2026-03-20' }
+    ], new Date(2026, 2, 10, 15, 30));
+
+    expect(summary).toMatchObject({ overdue: 1, urgent: 1, total: 2 });
+    expect(summary.deadlines).toEqual([
+      { id: 'd1', title: 'Appel', titleAr: 'استئناف', deadlineDate: '2026-03-08', daysRemaining: -2, status: 'overdue' },
+      { id: 'd2', title: 'Opposition', deadlineDate: '2026-03-12', daysRemaining: 2, status: 'urgent' }
+    ]);
+  });
+});
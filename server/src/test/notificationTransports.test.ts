@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import type { Transporter } from 'nodemailer';
+import {
+  HttpSmsGatewayTransport,
+  MailboxSinkTransport,
+  SmtpEmailTransport,
+  normalizePhoneNumber
+} from '../services/notificationTransports';
+
+describe('Notification transports', () => {
+  const originalEnv = process.env;
+  let sinkPath: string;
+  let sendMail: jest.Mock<(mail: any) => Promise<any>>;
+
+  /** Boîte de dépôt, transport SMTP simulé et environnement propres à chaque test */
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    sinkPath = fs.mkdtempSync(path.join(os.tmpdir(), 'juristdz-outbox-'));
+    sendMail = jest.fn<(mail: any) => Promise<any>>();
+  });
+
+  afterEach(() => {
+    fs.rmSync(sinkPath, { recursive: true, force: true });
+    process.env = originalEnv;
+  });
+
+  const smtp = () => new SmtpEmailTransport(
+    { host: 'localhost', port: 1025, secure: false, from: 'JuristDZ <no-reply@juristdz.dz>' },
+    { sendMail } as unknown as Transporter
+  );
+
+  /** Passerelle SMS locale répondant avec le statut et le corps donnés */
+  const withGateway = async (
+    status: number,
+    body: Record<string, unknown>,
+    run: (url: string, received: Array<Record<string, unknown>>) => Promise<void>
+  ) => {
+    const received: Array<Record<string, unknown>> = [];
+    const server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        received.push({ ...JSON.parse(raw), authorization: req.headers.authorization });
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/send`, received);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+
+  test('writes messages to the local mailbox and bounces reserved addresses', async () => {
+    const sink = new MailboxSinkTransport(sinkPath);
+
+    const sent = await sink.sendEmail({
+      to: 'maitre.benali@example.dz',
+      subject: 'Audience du 12 mars',
+      htmlBody: '<p>Rappel</p>',
+      attachments: [{ filename: 'rapport.pdf', path: '/tmp/rapport.pdf', contentType: 'application/pdf' }]
+    });
+    expect(sent).toMatchObject({ success: true, status: 'delivered' });
+
+    const mailbox = await sink.readMailbox('email');
+    expect(mailbox).toHaveLength(1);
+    expect(mailbox[0]).toMatchObject({ id: sent.externalId, recipient: 'maitre.benali@example.dz' });
+    expect(mailbox[0]?.payload.attachments).toEqual([
+      { filename: 'rapport.pdf', contentType: 'application/pdf', path: '/tmp/rapport.pdf' }
+    ]);
+
+    const bounced = await sink.sendEmail({ to: 'inconnu@bounce.test', subject: 'Test', htmlBody: '' });
+    expect(bounced).toMatchObject({ success: false, permanent: true, status: 'bounced' });
+    expect(await sink.readMailbox('email')).toHaveLength(1);
+  });
+
+  test('normalizes Algerian phone numbers to international format', () => {
+    expect(normalizePhoneNumber('0555 12 34 56')).toBe('+213555123456');
+    expect(normalizePhoneNumber('00213-21-63-44-00')).toBe('+21321634400');
+    expect(normalizePhoneNumber('213661000111')).toBe('+213661000111');
+    expect(normalizePhoneNumber('+33612345678')).toBe('+33612345678');
+    expect(normalizePhoneNumber('12')).toBeNull();
+  });
+
+  test('reports SMTP rejections as permanent and connection errors as retryable', async () => {
+    sendMail.mockResolvedValueOnce({ messageId: '<m1@juristdz>', rejected: ['x@example.dz'], response: '550 No such user' });
+    const rejected = await smtp().sendEmail({ to: 'x@example.dz', subject: 'S', htmlBody: '' });
+    expect(rejected).toMatchObject({ success: false, permanent: true, status: 'rejected' });
+
+    sendMail.mockRejectedValueOnce(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550, code: 'EENVELOPE' }));
+    const mailboxFull = await smtp().sendEmail({ to: 'x@example.dz', subject: 'S', htmlBody: '' });
+    expect(mailboxFull).toMatchObject({ success: false, permanent: true });
+
+    sendMail.mockRejectedValueOnce(Object.assign(new Error('Try again later'), { responseCode: 421, code: 'EENVELOPE' }));
+    const greylisted = await smtp().sendEmail({ to: 'x@example.dz', subject: 'S', htmlBody: '' });
+    expect(greylisted).toMatchObject({ success: false, permanent: false });
+
+    sendMail.mockResolvedValueOnce({ messageId: '<m2@juristdz>', rejected: [], response: '250 OK' });
+    const sent = await smtp().sendEmail({ to: 'x@example.dz', subject: 'S', htmlBody: '' });
+    expect(sent).toMatchObject({ success: true, externalId: '<m2@juristdz>' });
+    expect(sendMail).toHaveBeenCalledTimes(4);
+  });
+
+  test('posts SMS to the HTTP gateway and classifies its responses', async () => {
+    await withGateway(200, { message_id: 'sms-42', status: 'queued' }, async (url, received) => {
+      const transport = new HttpSmsGatewayTransport({ url, apiKey: 'key', sender: 'JuristDZ' });
+      const response = await transport.sendSMS({ to: '0661 00 01 11', message: 'Audience demain à 9h' });
+
+      expect(response).toMatchObject({ success: true, externalId: 'sms-42', status: 'queued' });
+      expect(received[0]).toEqual({ to: '+213661000111', from: 'JuristDZ', text: 'Audience demain à 9h', authorization: 'Bearer key' });
+    });
+
+    await withGateway(400, { error: 'Numéro non attribué' }, async url => {
+      const response = await new HttpSmsGatewayTransport({ url, sender: 'JuristDZ' }).sendSMS({ to: '0661000111', message: 'x' });
+      expect(response).toMatchObject({ success: false, permanent: true, error: 'Numéro non attribué' });
+    });
+
+    await withGateway(503, {}, async url => {
+      const response = await new HttpSmsGatewayTransport({ url, sender: 'JuristDZ' }).sendSMS({ to: '0661000111', message: 'x' });
+      expect(response).toMatchObject({ success: false, permanent: false, status: 'http_503' });
+    });
+
+    const invalid = await new HttpSmsGatewayTransport({ url: 'http://127.0.0.1:9/send', sender: 'JuristDZ' })
+      .sendSMS({ to: 'abc', message: 'x' });
+    expect(invalid).toMatchObject({ success: false, permanent: true, status: 'invalid_number' });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildPageResult,
+  cleanOcrText,
+  detectOcrLanguage,
+  isOcrSupported,
+  summarizeOcrPages
+} from '../services/ocrAnalysis';
+
+describe('OCR analysis', () => {
+  test('accepts scanned PDFs and images only', () => {
+    expect(isOcrSupported('application/pdf')).toBe(true);
+    expect(isOcrSupported('image/tiff')).toBe(true);
+    expect(isOcrSupported('application/msword')).toBe(false);
+  });
+
+  test('detects French, Arabic and mixed pages', () => {
+    expect(detectOcrLanguage('Cour suprême, chambre civile')).toBe('fr');
+    expect(detectOcrLanguage('المحكمة العليا الغرفة المدنية')).toBe('ar');
+    expect(detectOcrLanguage('Cour suprême — المحكمة العليا')).toBe('mixed');
+  });
+
+  test('cleans Tesseract output', () => {
+    expect(cleanOcrText('  Arrêt   n° 1234  \r\n\n\n\nAttendu\tque  \f')).toBe('Arrêt n° 1234\n\nAttendu que');
+  });
+
+  test('gives blank pages no confidence', () => {
+    expect(buildPageResult(2, ' \n | \n', 87)).toEqual({
+      pageNumber: 2,
+      text: '|',
+      confidence: 0,
+      language: 'fr',
+      wordCount: 0
+    });
+    expect(buildPageResult(1, 'Attendu que le pourvoi', 104.6).confidence).toBe(100);
+  });
+
+  test('weights document confidence by words per page', () => {
+    const summary = summarizeOcrPages([
+      buildPageResult(2, 'قرار المحكمة العليا', 60),
+      buildPageResult(1, 'Cour suprême chambre civile arrêt du 15 mars 2022', 90)
+    ]);
+
+    expect(summary.text).toBe('Cour suprême chambre civile arrêt du 15 mars 2022\n\nقرار المحكمة العليا');
+    // 9 mots à 90 et 3 mots à 60
+    expect(summary.confidence).toBe(82.5);
+    expect(summary.language).toBe('mixed');
+  });
+});
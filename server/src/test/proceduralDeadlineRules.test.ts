@@ -0,0 +1,106 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  PROCEDURAL_DEADLINE_RULES,
+  DeadlineExtensionKind,
+  computeProceduralDeadline,
+  getProceduralDeadlineRule,
+  addRuleDuration
+} from '../legal/proceduralDeadlineRules';
+
+const iso = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Jeu de référence (« golden ») : chaque ligne a été vérifiée à la main
+ * contre le texte cité. Une règle ne peut pas changer sans mettre à jour ce tableau.
+ */
+const GOLDEN_CASES: Array<{
+  name: string;
+  rule: string;
+  base: string;
+  extensions?: DeadlineExtensionKind[];
+  expected: string;
+}> = [
+  // 1 mois franc (Art. 336/405 CPCA) : 10/04 + 1 jour = samedi 11/04 → dimanche 12/04
+  { name: 'appel civil signifié à personne', rule: 'appel_jugement', base: '2026-03-10', expected: '2026-04-12' },
+  { name: 'ancien code appel_civil', rule: 'appel_civil', base: '2026-03-10', expected: '2026-04-12' },
+  { name: 'ancien code appel_commercial', rule: 'appel_commercial', base: '2026-03-10', expected: '2026-04-12' },
+  { name: 'appel signifié à domicile (2 mois)', rule: 'appel_jugement', base: '2026-01-31', extensions: ['signification_domicile'], expected: '2026-04-01' },
+  { name: 'opposition (1 mois, Art. 329)', rule: 'opposition_jugement', base: '2026-01-05', expected: '2026-02-08' },
+  { name: 'cassation civile (2 mois, Art. 354)', rule: 'pourvoi_cassation', base: '2026-01-31', expected: '2026-04-01' },
+  { name: 'cassation civile, partie résidant à l\'étranger', rule: 'pourvoi_cassation', base: '2026-03-10', extensions: ['residence_etranger'], expected: '2026-07-12' },
+  { name: 'appel de référé (15 jours)', rule: 'refere', base: '2026-03-01', expected: '2026-03-17' },
+  { name: 'recours administratif (4 mois, Art. 829)', rule: 'recours_administratif', base: '2026-01-15', expected: '2026-05-17' },
+  // Pénal : 10 jours non francs à compter du prononcé, report du vendredi au dimanche
+  { name: 'appel correctionnel', rule: 'appel_penal', base: '2026-03-10', expected: '2026-03-22' },
+  { name: 'pourvoi pénal (8 jours francs)', rule: 'pourvoi_cassation_penal', base: '2026-03-02', expected: '2026-03-11' },
+  // Prescription : pas de report, fin de mois tronquée
+  { name: 'prescription commerciale depuis un 29 février', rule: 'prescription_commerciale', base: '2024-02-29', expected: '2029-02-28' },
+];
+
+describe('Procedural deadline rules', () => {
+  describe('golden deadlines', () => {
+    test.each(GOLDEN_CASES)('$name', ({ rule, base, extensions, expected }) => {
+      const result = computeProceduralDeadline(rule, base, { extensions });
+      expect(iso(result.deadline)).toBe(expected);
+    });
+  });
+
+  test('opposition and appeal never fall back to the former 10/15-day tables', () => {
+    const opposition = getProceduralDeadlineRule('opposition_jugement');
+    const appelCommercial = getProceduralDeadlineRule('appel_commercial');
+
+    expect(opposition?.duration).toEqual({ value: 1, unit: 'months' });
+    expect(opposition?.reference).toBe('Art. 329 CPCA');
+    expect(appelCommercial?.duration).toEqual({ value: 1, unit: 'months' });
+  });
+
+  test('every rule carries a bilingual label and a legal citation', () => {
+    for (const rule of PROCEDURAL_DEADLINE_RULES) {
+      expect(rule.labelFr).toBeTruthy();
+      expect(rule.labelAr).toBeTruthy();
+      expect(rule.reference).toMatch(/^Art\. /);
+      expect(rule.duration.value).toBeGreaterThan(0);
+    }
+  });
+
+  test('codes and aliases are unique', () => {
+    const keys = PROCEDURAL_DEADLINE_RULES.flatMap(rule => [rule.code, ...(rule.aliases ?? [])]);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  test('carries the deadline over injected holidays', () => {
+    const holiday = '2026-03-22';
+    const result = computeProceduralDeadline('appel_penal', '2026-03-10', {
+      isNonWorkingDay: date => date.getDay() === 5 || date.getDay() === 6 || iso(date) === holiday
+    });
+
+    expect(iso(result.nominalDeadline)).toBe('2026-03-20');
+    expect(iso(result.deadline)).toBe('2026-03-23');
+    expect(result.carriedOver).toBe(true);
+  });
+
+  test('ignores extensions the rule does not provide for', () => {
+    const result = computeProceduralDeadline('appel_penal', '2026-03-10', { extensions: ['residence_etranger'] });
+    expect(result.appliedExtensions).toHaveLength(0);
+    expect(iso(result.deadline)).toBe('2026-03-22');
+  });
+
+  test('cites the délai franc and applied extensions', () => {
+    const result = computeProceduralDeadline('pourvoi_cassation', '2026-03-10', { extensions: ['residence_etranger'] });
+    expect(result.reference).toBe('Art. 354 CPCA, Art. 405 CPCA, Art. 404 CPCA');
+  });
+
+  test('counts working days skipping the Friday/Saturday weekend', () => {
+    // Jeudi 05/03/2026 + 2 jours ouvrables = dimanche 08/03, lundi 09/03
+    const result = addRuleDuration(new Date(2026, 2, 5), { value: 2, unit: 'days' }, 'working');
+    expect(iso(result)).toBe('2026-03-09');
+  });
+
+  test('rejects unknown rule codes', () => {
+    expect(() => computeProceduralDeadline('appel_inexistant', '2026-03-10')).toThrow('Règle de délai inconnue');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from '@jest/globals';
+import { isBalanced, ledgerEntriesFor, provisionEffect, statementLines } from '../utils/provisionLedger';
+import { formaterMontant, renderProvisionStatementPdf } from '../services/provisionStatementRenderer';
+import { ProvisionStatement, ProvisionTransaction, ProvisionTransactionType } from '../types/billing';
+
+describe('Provision ledger', () => {
+  const transaction = (id: string, transactionType: ProvisionTransactionType, amount: number, extra: Partial<ProvisionTransaction> = {}): ProvisionTransaction => ({
+    id,
+    clientId: 'client-1',
+    transactionType,
+    amount,
+    transactionDate: new Date(2026, 9, Number(id)),
+    createdBy: 'lawyer-1',
+    createdAt: new Date(2026, 9, Number(id)),
+    ...extra
+  });
+
+  test('every operation is posted as balanced entries', () => {
+    for (const type of Object.values(ProvisionTransactionType)) {
+      expect(isBalanced(ledgerEntriesFor(type, 12345.67))).toBe(true);
+    }
+    expect(ledgerEntriesFor(ProvisionTransactionType.DRAWDOWN, 100)).toHaveLength(4);
+    expect(isBalanced([{ account: 'trust_bank' as any, debit: 10, credit: 0 }])).toBe(false);
+  });
+
+  test('deposits raise the provision, drawdowns and refunds lower it', () => {
+    expect(provisionEffect(ProvisionTransactionType.DEPOSIT, 50000)).toBe(50000);
+    expect(provisionEffect(ProvisionTransactionType.DRAWDOWN, 20000)).toBe(-20000);
+    expect(provisionEffect(ProvisionTransactionType.REFUND, 5000)).toBe(-5000);
+  });
+
+  test('statement lines carry a running balance from the opening balance', () => {
+    const lines = statementLines([
+      transaction('1', ProvisionTransactionType.DEPOSIT, 100000.1),
+      transaction('2', ProvisionTransactionType.DRAWDOWN, 35000.05, { invoiceId: 'inv-1', invoiceNumber: 'FAC-2026-0001' }),
+      transaction('3', ProvisionTransactionType.REFUND, 15000)
+    ], 2000.2);
+
+    expect(lines.map(line => [line.credit, line.debit, line.balance])).toEqual([
+      [100000.1, 0, 102000.3],
+      [0, 35000.05, 67000.25],
+      [0, 15000, 52000.25]
+    ]);
+  });
+
+  test('renders the client statement as a PDF', async () => {
+    const transactions = Array.from({ length: 60 }, (_, i) => transaction(String((i % 28) + 1), i % 2 ? ProvisionTransactionType.DRAWDOWN : ProvisionTransactionType.DEPOSIT, 10000, {
+      caseNumber: 'DOS-2026-014',
+      ...(i % 2 ? { invoiceNumber: `FAC-2026-${i}` } : { reference: `CCP ${i}` })
+    }));
+    const lines = statementLines(transactions, 0);
+    const statement: ProvisionStatement = {
+      client: { id: 'client-1', name: 'SARL Atlas Import', address: '12 rue Didouche Mourad, Alger' },
+      openingBalance: 0,
+      lines,
+      totalCredits: 300000,
+      totalDebits: 300000,
+      closingBalance: lines[lines.length - 1]!.balance,
+      balances: [{ caseId: 'case-1', caseNumber: 'DOS-2026-014', deposits: 300000, drawdowns: 300000, refunds: 0, balance: 0 }],
+      reconciled: true,
+      generatedAt: new Date(2026, 9, 31)
+    };
+
+    const pdf = await renderProvisionStatementPdf(statement);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect((pdf.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length).toBeGreaterThanOrEqual(2);
+    expect(formaterMontant(1234567.8)).toBe('1 234 567,80 DA');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  RECOVERY_CODE_COUNT,
+  findRecoveryCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  normalizeRecoveryCode
+} from '../services/recoveryCodes';
+
+describe('MFA recovery codes', () => {
+  test('generates distinct codes without ambiguous characters', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) {
+      expect(code).toMatch(/^[2-9A-HJKMNP-Z]{5}-[2-9A-HJKMNP-Z]{5}$/);
+    }
+  });
+
+  test('accepts a code typed in lowercase, with spaces or without the dash', () => {
+    expect(normalizeRecoveryCode('abcde-fghjk')).toBe('ABCDEFGHJK');
+    expect(normalizeRecoveryCode(' ABCDE FGHJK ')).toBe('ABCDEFGHJK');
+    expect(normalizeRecoveryCode('ABCDEFGHJK')).toBe('ABCDEFGHJK');
+  });
+
+  test('stores only a hash and finds the matching code', async () => {
+    const [first, second] = generateRecoveryCodes(2) as [string, string];
+    const candidates = [
+      { id: 'code-1', codeHash: await hashRecoveryCode(first) },
+      { id: 'code-2', codeHash: await hashRecoveryCode(second) }
+    ];
+
+    expect(candidates[0]!.codeHash).not.toContain(first.replace('-', ''));
+    expect((await findRecoveryCode(second.toLowerCase(), candidates))?.id).toBe('code-2');
+    expect(await findRecoveryCode('ZZZZZ-ZZZZZ', candidates)).toBeNull();
+    expect(await findRecoveryCode('123456', candidates)).toBeNull();
+  });
+
+  test('a consumed code is no longer a candidate', async () => {
+    const [code] = generateRecoveryCodes(1) as [string];
+    const candidates = [{ id: 'code-1', codeHash: await hashRecoveryCode(code) }];
+
+    expect(await findRecoveryCode(code, candidates)).not.toBeNull();
+    // Le service ne présente que les codes dont used_at est nul
+    expect(await findRecoveryCode(code, [])).toBeNull();
+  });
+});
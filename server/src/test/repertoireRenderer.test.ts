@@ -0,0 +1,107 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  RepertoireAnnuel,
+  lignesRepertoire,
+  renderRepertoireCsv,
+  renderRepertoirePdf,
+  verifierContinuiteRepertoire
+} from '../services/repertoireRenderer';
+import { ActeAuthentique, StatistiquesMinutier, TypeActe } from '../types/minutier';
+
+describe('Annual repertoire', () => {
+  const acte = (rang: number, typeActe: TypeActe, extra: Partial<ActeAuthentique> = {}): ActeAuthentique => ({
+    id: `acte-${rang}`,
+    numeroMinutier: `2026-${String(rang).padStart(6, '0')}`,
+    numeroRepertoire: `REP-2026-${String(rang).padStart(4, '0')}`,
+    dateActe: new Date(2026, 2, rang),
+    typeActe,
+    objet: `Acte n° ${rang}`,
+    parties: [
+      { nom: 'Martin', prenom: 'Pierre', qualite: 'vendeur' },
+      { nom: 'Haddad', prenom: 'Karim', qualite: 'acquereur' }
+    ],
+    metadonnees: { mots_cles: [], references_legales: [], devise: 'DZD' },
+    ...extra
+  }) as ActeAuthentique;
+
+  const repertoire = (actes: ActeAuthentique[]): RepertoireAnnuel => {
+    const repartitionTypeActe = Object.fromEntries(Object.values(TypeActe).map(type => [type, 0])) as Record<TypeActe, number>;
+    actes.forEach(a => { repartitionTypeActe[a.typeActe]++; });
+    const statistiques: StatistiquesMinutier = {
+      notaireId: 'notaire-1',
+      periode: { dateDebut: new Date(2026, 0, 1), dateFin: new Date(2026, 11, 31) },
+      nombreActes: actes.length,
+      repartitionTypeActe,
+      montantTotal: 0,
+      montantMoyen: 0,
+      nombreCopies: 0,
+      evolutionMensuelle: [],
+      topClients: []
+    };
+    return {
+      annee: 2026,
+      notaire: { nom: 'Amina Benali', ville: 'Alger', etude: 'Étude Benali', numeroAgrement: 'AG-123' },
+      actes,
+      statistiques,
+      hashTete: 'a'.repeat(64),
+      genereLe: new Date(2027, 0, 5)
+    };
+  };
+
+  test('detects gaps, duplicates and numbers from another year', () => {
+    expect(verifierContinuiteRepertoire(['REP-2026-0002', 'REP-2026-0001', 'REP-2026-0003'], 2026)).toEqual([]);
+    expect(verifierContinuiteRepertoire(['REP-2026-0001', 'REP-2026-0004', 'REP-2026-0006'], 2026)).toEqual([
+      'Numéros de répertoire REP-2026-0002 à REP-2026-0003 manquants',
+      'Numéro de répertoire REP-2026-0005 manquant'
+    ]);
+    expect(verifierContinuiteRepertoire(['REP-2026-0001', 'REP-2026-0001', 'REP-2025-0002'], 2026)).toEqual([
+      'Numéro de répertoire REP-2026-0001 attribué à plusieurs actes',
+      'Numéro de répertoire REP-2025-0002 étranger à l\'année 2026'
+    ]);
+  });
+
+  test('orders lines by repertoire number and reports registration references', () => {
+    const lignes = lignesRepertoire(repertoire([
+      acte(2, TypeActe.DONATION),
+      acte(1, TypeActe.VENTE_IMMOBILIERE, {
+        metadonnees: {
+          mots_cles: [],
+          references_legales: [],
+          devise: 'DZD',
+          enregistrement: { bureau: 'Alger-Centre', numero: '1542', dateEnregistrement: '2026-03-15', droits: 125000 }
+        }
+      })
+    ]));
+
+    expect(lignes.map(ligne => ligne.numeroRepertoire)).toEqual(['REP-2026-0001', 'REP-2026-0002']);
+    expect(lignes[0]).toMatchObject({
+      dateActe: '01/03/2026',
+      nature: { fr: 'Vente immobilière', ar: 'بيع عقاري' },
+      parties: 'Pierre MARTIN (vendeur) ; Karim HADDAD (acquereur)',
+      enregistrement: 'Alger-Centre, n° 1542, du 15/03/2026, droits 125000.00 DA'
+    });
+    expect(lignes[1]!.enregistrement).toBe('');
+  });
+
+  test('exports a bilingual CSV with totals by type of acte', () => {
+    const csv = renderRepertoireCsv(repertoire([acte(1, TypeActe.VENTE_IMMOBILIERE), acte(2, TypeActe.DONATION), acte(3, TypeActe.DONATION)]));
+    const texte = csv.toString('utf8');
+    const lignes = texte.replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(texte.startsWith('\uFEFF')).toBe(true);
+    expect(lignes[1]).toBe('N° répertoire / رقم الفهرس,N° minute / رقم الأصل,Date / التاريخ,Nature de l\'acte,طبيعة العقد,Parties / الأطراف,Enregistrement / التسجيل');
+    expect(lignes[2]).toBe('REP-2026-0001,2026-000001,01/03/2026,Vente immobilière,بيع عقاري,Pierre MARTIN (vendeur) ; Karim HADDAD (acquereur),');
+    expect(lignes).toContain('Donation,هبة,2');
+    expect(lignes).toContain('Total,المجموع,3');
+  });
+
+  test('renders a print-ready PDF', async () => {
+    const actes = Array.from({ length: 40 }, (_, i) => acte(i + 1, i % 3 === 0 ? TypeActe.PROCURATION : TypeActe.VENTE_IMMOBILIERE));
+    const pdf = await renderRepertoirePdf(repertoire(actes));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.toString('latin1')).toContain('DejaVuSans');
+    // Ouverture, au moins deux pages de répertoire, clôture
+    expect((pdf.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length).toBeGreaterThanOrEqual(4);
+  });
+});
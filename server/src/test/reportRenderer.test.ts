@@ -0,0 +1,121 @@
+import { describe, test, expect } from '@jest/globals';
+import { buildRenderableReport, reportRenderer } from '../services/reportRenderer';
+import { visualWordOrder, wrapWords } from '../utils/bidi';
+import {
+  Report,
+  ReportType,
+  ReportFormat,
+  ReportStatus,
+  ReportTemplate,
+  SectionType
+} from '../types/report';
+
+describe('Report rendering', () => {
+  const report = (language: 'fr' | 'ar'): Report => ({
+    id: 'report-1',
+    title: language === 'ar' ? 'تقرير النشاط' : 'Activité des dossiers',
+    type: ReportType.CASE_ACTIVITY,
+    format: ReportFormat.PDF,
+    status: ReportStatus.GENERATING,
+    parameters: { language },
+    generatedBy: 'user-1',
+    generatedAt: new Date(2026, 2, 1),
+    downloadCount: 0,
+    isPublic: false,
+    createdAt: new Date(2026, 2, 1),
+    updatedAt: new Date(2026, 2, 1)
+  });
+
+  const data = {
+    reportId: 'report-1',
+    summary: { totalCases: 12, activeCases: 9, totalRevenue: 150000.5 },
+    caseDetails: [
+      { caseId: 'c1', caseNumber: '2026/001', title: 'Benali, "succession"', client: 'بن علي', openedDate: new Date(2026, 0, 15), documentCount: 4 },
+      { caseId: 'c2', caseNumber: '2026/002', title: 'Société X', client: 'SARL X', openedDate: new Date(2026, 1, 3), documentCount: 1 }
+    ],
+    timeDistribution: [
+      { activityType: 'Audience', hours: 10, percentage: 40 },
+      { activityType: 'Rédaction', hours: 15, percentage: 60 }
+    ]
+  };
+
+  test('orders mixed Arabic and Latin words visually', () => {
+    expect(visualWordOrder(['الملف', 'رقم', '2026/001'], 'rtl')).toEqual(['2026/001', 'رقم', 'الملف']);
+    expect(visualWordOrder(['Dossier', 'بن', 'علي', 'clos'], 'ltr')).toEqual(['Dossier', 'علي', 'بن', 'clos']);
+    expect(wrapWords('un deux trois', 9, text => text.length)).toEqual([['un', 'deux'], ['trois']]);
+  });
+
+  test('builds a default layout with hidden technical identifiers', () => {
+    const model = buildRenderableReport(report('fr'), data, null);
+
+    expect(model.sections.map(section => section.kind)).toEqual(['summary', 'table', 'table']);
+    const table = model.sections[1];
+    expect(table?.kind === 'table' && table.columns.map(column => column.key)).not.toContain('caseId');
+    expect(table?.kind === 'table' && table.title).toBe('Détail des dossiers');
+  });
+
+  test('follows template sections, order, visibility and custom fields', () => {
+    const template = {
+      layout: {
+        sections: [
+          { id: 's2', title: 'Temps', type: SectionType.CHART, order: 2, visible: true, configuration: { dataKey: 'timeDistribution', valueField: 'hours' } },
+          { id: 's1', title: 'Dossiers', type: SectionType.TABLE, order: 1, visible: true, configuration: { dataKey: 'caseDetails', columns: ['caseNumber', 'client'] } },
+          { id: 's3', title: 'Masqué', type: SectionType.SUMMARY, order: 3, visible: false, configuration: {} }
+        ],
+        styling: { primaryColor: '#004080' },
+        headers: [],
+        footers: []
+      }
+    } as unknown as ReportTemplate;
+
+    const model = buildRenderableReport(report('fr'), data, template);
+    expect(model.sections.map(section => section.kind)).toEqual(['table', 'chart']);
+    const [table, chart] = model.sections;
+    expect(table?.kind === 'table' && table.columns.map(column => column.key)).toEqual(['caseNumber', 'client']);
+    expect(chart?.kind === 'chart' && chart.points).toEqual([{ label: 'Audience', value: 10 }, { label: 'Rédaction', value: 15 }]);
+    expect(model.styling.primaryColor).toBe('#004080');
+    expect(model.styling.fontSize).toBe(10);
+  });
+
+  test('renders CSV with a BOM and quoted cells', async () => {
+    const csv = (await reportRenderer.renderCSV(buildRenderableReport(report('fr'), data, null))).toString('utf8');
+
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv).toContain('"Benali, ""succession"""');
+    expect(csv).toContain('15/01/2026');
+  });
+
+  test('renders right-to-left HTML and escapes content', async () => {
+    const html = (await reportRenderer.renderHTML(
+      buildRenderableReport(report('ar'), { caseDetails: [{ title: '<script>' }] }, null),
+      { format: ReportFormat.HTML, compression: false, includeMetadata: true, watermark: 'Confidentiel' }
+    )).toString('utf8');
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('البيانات الوصفية');
+    expect(html).toContain('class="watermark">Confidentiel');
+  });
+
+  test('renders JSON with metadata on request', async () => {
+    const json = JSON.parse((await reportRenderer.renderJSON(
+      buildRenderableReport(report('fr'), data, null),
+      { format: ReportFormat.JSON, compression: false, includeMetadata: true }
+    )).toString('utf8'));
+
+    expect(json.report.id).toBe('report-1');
+    expect(json.metadata).toBeDefined();
+    expect(json.sections[0].data.totalCases).toBe(12);
+  });
+
+  test('renders PDF and Excel files', async () => {
+    const model = buildRenderableReport(report('ar'), data, null);
+    const pdf = await reportRenderer.renderPDF(model, { format: ReportFormat.PDF, compression: false, includeMetadata: true, watermark: 'سري' });
+    const xlsx = await reportRenderer.renderExcel(model);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    // Classeur OOXML : archive zip
+    expect(xlsx.subarray(0, 2).toString()).toBe('PK');
+  }, 30000);
+});
@@ -0,0 +1,58 @@
+import { describe, test, expect } from '@jest/globals';
+import { advanceSchedule, nextOccurrence, reportingPeriod, zonedTimeToUtc } from '../utils/reportSchedule';
+import { ReportSchedule, ScheduleFrequency } from '../types/report';
+
+describe('Report schedules', () => {
+  const schedule = (frequency: ScheduleFrequency, extra: Partial<ReportSchedule> = {}): ReportSchedule => ({
+    frequency,
+    interval: 1,
+    hour: 9,
+    minute: 0,
+    timezone: 'Africa/Algiers',
+    ...extra
+  });
+
+  test('converts Algiers wall time to UTC', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 2, day: 10 }, 9, 30, 'Africa/Algiers').toISOString())
+      .toBe('2026-03-10T08:30:00.000Z');
+  });
+
+  test('daily reports run the same day when the hour is still ahead', () => {
+    const daily = schedule(ScheduleFrequency.DAILY);
+    expect(nextOccurrence(daily, new Date('2026-03-10T07:00:00Z')).toISOString()).toBe('2026-03-10T08:00:00.000Z');
+    expect(nextOccurrence(daily, new Date('2026-03-10T08:00:00Z')).toISOString()).toBe('2026-03-11T08:00:00.000Z');
+  });
+
+  test('weekly reports honour the day of week and interval', () => {
+    const fortnightly = schedule(ScheduleFrequency.WEEKLY, { dayOfWeek: 0, interval: 2 });
+    // Mardi 10 mars 2026 → dimanche 15 mars
+    const first = nextOccurrence(fortnightly, new Date('2026-03-10T12:00:00Z'));
+    expect(first.toISOString()).toBe('2026-03-15T08:00:00.000Z');
+    expect(advanceSchedule(fortnightly, first).toISOString()).toBe('2026-03-29T08:00:00.000Z');
+  });
+
+  test('monthly reports fall back to the last day of short months', () => {
+    const monthly = schedule(ScheduleFrequency.MONTHLY, { dayOfMonth: 31 });
+    expect(nextOccurrence(monthly, new Date('2026-02-01T00:00:00Z')).toISOString()).toBe('2026-02-28T08:00:00.000Z');
+  });
+
+  test('quarterly reports run at the end of the quarter and cover it', () => {
+    const quarterly = schedule(ScheduleFrequency.QUARTERLY, { hour: 18 });
+    const runAt = nextOccurrence(quarterly, new Date('2026-04-02T00:00:00Z'));
+    expect(runAt.toISOString()).toBe('2026-06-30T17:00:00.000Z');
+
+    const period = reportingPeriod(quarterly, runAt);
+    expect(period.from.toISOString()).toBe('2026-03-31T23:00:00.000Z'); // 1er avril, minuit à Alger
+    expect(period.to.toISOString()).toBe('2026-06-30T22:59:59.999Z');
+  });
+
+  test('monthly and daily reports cover the elapsed period', () => {
+    const monthly = reportingPeriod(schedule(ScheduleFrequency.MONTHLY), new Date('2026-03-01T08:00:00Z'));
+    expect(monthly.from.toISOString()).toBe('2026-01-31T23:00:00.000Z');
+    expect(monthly.to.toISOString()).toBe('2026-02-28T22:59:59.999Z');
+
+    const daily = reportingPeriod(schedule(ScheduleFrequency.DAILY), new Date('2026-03-10T08:00:00Z'));
+    expect(daily.from.toISOString()).toBe('2026-03-08T23:00:00.000Z');
+    expect(daily.to.toISOString()).toBe('2026-03-09T22:59:59.999Z');
+  });
+});
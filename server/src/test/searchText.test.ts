@@ -0,0 +1,40 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  formatHighlight,
+  normalizeArabic,
+  normalizeSearchText
+} from '../utils/searchText';
+
+describe('Search text normalization', () => {
+  test('removes tashkeel and tatweel', () => {
+    expect(normalizeArabic('المَحْكَمَةُ العُلْيَا')).toBe('المحكمه العليا');
+    expect(normalizeArabic('قــرار')).toBe('قرار');
+  });
+
+  test('unifies alef, hamza, ya and ta marbuta variants', () => {
+    expect(normalizeArabic('أحكام إجراءات آثار')).toBe('احكام اجراءات اثار');
+    expect(normalizeArabic('مسؤولية')).toBe('مسووليه');
+    expect(normalizeArabic('قضائي مستشفى')).toBe('قضايي مستشفي');
+  });
+
+  test('indexes presentation forms and diacritized text like plain text', () => {
+    // Formes de présentation produites par certains PDF arabes
+    expect(normalizeSearchText('ﺍﻟﻤﺤﻜﻤﺔ')).toBe(normalizeSearchText('المحكمة'));
+    expect(normalizeSearchText('الدَّعْوَى')).toBe(normalizeSearchText('الدعوى'));
+  });
+
+  test('keeps French text and line breaks', () => {
+    expect(normalizeSearchText('  Arrêt\t de la  Cour \r\n\r\n\r\nsuprême ')).toBe('Arrêt de la Cour\n\nsuprême');
+  });
+
+  test('drops highlight markers from indexed text', () => {
+    expect(normalizeSearchText(`clause${HIGHLIGHT_START} pénale`)).toBe('clause pénale');
+  });
+
+  test('escapes snippets and marks matched terms', () => {
+    const headline = `la <b>clause</b> ${HIGHLIGHT_START}pénale${HIGHLIGHT_STOP}\n & ${HIGHLIGHT_START}الغرامة${HIGHLIGHT_STOP}`;
+    expect(formatHighlight(headline)).toBe('la &lt;b&gt;clause&lt;/b&gt; <mark>pénale</mark> &amp; <mark>الغرامة</mark>');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from '@jest/globals';
+import { computeTax, computeTaxes, isRuleInEffect, lineTaxConfigurationIds, resolveTaxRules } from '../utils/taxEngine';
+import { LegalProfession, TaxConfiguration, TaxType } from '../types/billing';
+
+describe('Tax engine', () => {
+  const rule = (id: string, taxType: TaxType, rate: number, from: Date, extra: Partial<TaxConfiguration> = {}): TaxConfiguration => ({
+    id,
+    profession: LegalProfession.AVOCAT,
+    taxType,
+    rate,
+    isPercentage: true,
+    applicableFrom: from,
+    isActive: true,
+    legalReference: 'Loi de finances',
+    ...extra
+  });
+
+  const vat2024 = rule('vat-2024', TaxType.VAT, 0.19, new Date(2024, 0, 1), { applicableTo: new Date(2027, 0, 1) });
+  const vat2027 = rule('vat-2027', TaxType.VAT, 0.2, new Date(2027, 0, 1));
+  const stamp = rule('stamp-2024', TaxType.STAMP_DUTY, 0.01, new Date(2024, 0, 1), { minimumAmount: 5, maximumAmount: 2500 });
+  const withholding = rule('withholding-2024', TaxType.WITHHOLDING_TAX, 0.1, new Date(2024, 0, 1), { exemptionThreshold: 50000 });
+  const notaryVat = rule('notary-vat', TaxType.VAT, 0.19, new Date(2024, 0, 1), { profession: LegalProfession.NOTAIRE });
+
+  test('the version in force on the date is used, up to the day before the next one', () => {
+    const rules = [vat2027, vat2024, stamp, notaryVat];
+
+    expect(resolveTaxRules(rules, LegalProfession.AVOCAT, new Date(2026, 11, 31)).map(r => r.id)).toEqual(['vat-2024', 'stamp-2024']);
+    expect(resolveTaxRules(rules, LegalProfession.AVOCAT, new Date(2027, 0, 1)).map(r => r.id)).toEqual(['vat-2027', 'stamp-2024']);
+    expect(resolveTaxRules(rules, LegalProfession.AVOCAT, new Date(2023, 11, 31))).toEqual([]);
+    expect(isRuleInEffect({ ...vat2027, isActive: false }, new Date(2027, 5, 1))).toBe(false);
+  });
+
+  test('percentage taxes are bounded and exempted below the threshold', () => {
+    expect(computeTax(stamp, 200)).toBe(5);
+    expect(computeTax(stamp, 1000000)).toBe(2500);
+    expect(computeTax(withholding, 50000)).toBe(0);
+    expect(computeTax(withholding, 60000)).toBe(6000);
+    expect(computeTax(rule('fixed', TaxType.STAMP_DUTY, 1000, new Date(2024, 0, 1), { isPercentage: false }), 12345)).toBe(1000);
+  });
+
+  test('stamp duty is computed on the total with taxes and withholding is kept apart', () => {
+    const breakdown = computeTaxes([stamp, withholding, vat2024], 100000);
+
+    expect(breakdown.taxes.map(t => [t.taxConfigurationId, t.baseAmount, t.amount])).toEqual([
+      ['vat-2024', 100000, 19000],
+      ['withholding-2024', 100000, 10000],
+      ['stamp-2024', 119000, 1190]
+    ]);
+    expect(breakdown).toMatchObject({ taxRate: 0.19, taxAmount: 20190, withholdingAmount: 10000 });
+  });
+
+  test('invoice lines carry the proportional rule versions only', () => {
+    const { taxes } = computeTaxes([vat2024, stamp, withholding], 100000);
+    expect(lineTaxConfigurationIds(taxes)).toEqual(['vat-2024', 'withholding-2024']);
+  });
+});
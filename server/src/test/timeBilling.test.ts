@@ -0,0 +1,44 @@
+import { describe, test, expect } from '@jest/globals';
+import { groupTimeEntries } from '../utils/timeBilling';
+
+describe('Time billing', () => {
+  test('groups entries by activity and rate, in activity order', () => {
+    const { lines, unpriced } = groupTimeEntries([
+      { id: 'a', activityType: 'hearing', durationMinutes: 120, hourlyRate: null },
+      { id: 'b', activityType: 'drafting', durationMinutes: 90, hourlyRate: 8000 },
+      { id: 'c', activityType: 'drafting', durationMinutes: 30, hourlyRate: 8000 },
+      { id: 'd', activityType: 'drafting', durationMinutes: 60, hourlyRate: 10000 },
+      { id: 'e', activityType: 'research', durationMinutes: 45, hourlyRate: null }
+    ], 6000);
+
+    expect(unpriced).toEqual([]);
+    expect(lines.map(line => [line.activityType, line.hourlyRate, line.hours, line.amount])).toEqual([
+      ['research', 6000, 0.75, 4500],
+      ['drafting', 10000, 1, 10000],
+      ['drafting', 8000, 2, 16000],
+      ['hearing', 6000, 2, 12000]
+    ]);
+    expect(lines[2]!.entryIds).toEqual(['b', 'c']);
+    expect(lines[2]!.description).toMatch(/^Rédaction — 2[,.]00 h à 8\D?000 DA$/);
+  });
+
+  test('amounts follow the minutes, not the rounded hours', () => {
+    const { lines } = groupTimeEntries([
+      { id: 'a', activityType: 'call', durationMinutes: 20, hourlyRate: 9000 }
+    ], null);
+
+    expect(lines[0]!.hours).toBe(0.33);
+    expect(lines[0]!.amount).toBe(3000);
+  });
+
+  test('leaves out entries without any rate', () => {
+    const { lines, unpriced } = groupTimeEntries([
+      { id: 'a', activityType: 'meeting', durationMinutes: 60, hourlyRate: null },
+      { id: 'b', activityType: 'meeting', durationMinutes: 60, hourlyRate: 7000 }
+    ], null);
+
+    expect(unpriced.map(entry => entry.id)).toEqual(['a']);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]!.entryIds).toEqual(['b']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  TimerClock,
+  discardIdleTime,
+  durationMinutes,
+  elapsedSeconds,
+  idleSince,
+  pauseClock,
+  resumeClock,
+  suggestionFromEvent
+} from '../utils/timeTracking';
+import { ActivityType, TimerState } from '../types/case';
+
+describe('Time tracking', () => {
+  const at = (hour: number, minute = 0) => new Date(Date.UTC(2026, 9, 19, hour, minute));
+
+  const runningSince = (start: Date, lastActivity = start): TimerClock => ({
+    state: TimerState.RUNNING,
+    segmentStartedAt: start,
+    accumulatedSeconds: 0,
+    lastActivityAt: lastActivity,
+    idleThresholdMinutes: 10
+  });
+
+  test('accumulates elapsed time across pauses', () => {
+    const paused = pauseClock(runningSince(at(9)), at(9, 30));
+    expect(paused.state).toBe(TimerState.PAUSED);
+    expect(paused.segmentStartedAt).toBeUndefined();
+    expect(elapsedSeconds(paused, at(11))).toBe(30 * 60);
+
+    const resumed = resumeClock(paused, at(11));
+    expect(elapsedSeconds(resumed, at(11, 15))).toBe(45 * 60);
+    expect(durationMinutes(elapsedSeconds(resumed, at(11, 15)))).toBe(45);
+  });
+
+  test('reports idle time after the threshold without activity', () => {
+    const clock = runningSince(at(9), at(9, 20));
+    expect(idleSince(clock, at(9, 29))).toBeNull();
+    expect(idleSince(clock, at(9, 30))).toEqual(at(9, 20));
+    expect(idleSince(pauseClock(clock, at(9, 25)), at(12))).toBeNull();
+
+    // Une reprise compte comme une activité
+    const resumed = resumeClock(pauseClock(clock, at(9, 25)), at(12));
+    expect(idleSince(resumed, at(12, 5))).toBeNull();
+  });
+
+  test('discarding idle time keeps only the time up to the last activity', () => {
+    const clock = runningSince(at(9), at(9, 20));
+    const discarded = discardIdleTime(clock, at(10));
+    expect(discarded.accumulatedSeconds).toBe(20 * 60);
+    expect(discarded.segmentStartedAt).toEqual(at(10));
+    expect(idleSince(discarded, at(10, 5))).toBeNull();
+    expect(elapsedSeconds(discarded, at(10, 10))).toBe(30 * 60);
+
+    // Sans inactivité en attente, rien n'est retiré
+    expect(discardIdleTime(clock, at(9, 25))).toBe(clock);
+  });
+
+  test('suggests time entries for finished hearings and meetings only', () => {
+    const hearing = {
+      id: 'event-1',
+      caseId: 'case-1',
+      title: 'Dossier 12',
+      eventType: 'hearing',
+      startTime: at(8, 30),
+      endTime: at(10),
+      allDay: false,
+      location: 'Tribunal de Sidi M\'Hamed'
+    };
+
+    const suggestion = suggestionFromEvent(hearing, at(17));
+    expect(suggestion).toMatchObject({
+      calendarEventId: 'event-1',
+      caseId: 'case-1',
+      durationMinutes: 90,
+      activityType: ActivityType.HEARING,
+      description: 'Audience — Dossier 12'
+    });
+
+    expect(suggestionFromEvent(hearing, at(9))).toBeNull();
+    expect(suggestionFromEvent({ ...hearing, eventType: 'deadline' }, at(17))).toBeNull();
+    expect(suggestionFromEvent({ ...hearing, allDay: true }, at(17))).toBeNull();
+    expect(suggestionFromEvent({ ...hearing, eventType: 'consultation' }, at(17))?.activityType)
+      .toBe(ActivityType.MEETING);
+  });
+});
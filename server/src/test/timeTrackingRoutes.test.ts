@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import timeTrackingRoutes from '@/routes/timeTracking';
+import { authService } from '@/services/authService';
+import { timeTrackingService } from '@/services/timeTrackingService';
+import { ActivityType, RunningTimer, TimerState } from '@/types/case';
+
+// Mock logger
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Sessions are validated by the real authenticate middleware against this mock
+jest.mock('@/services/authService', () => ({
+  authService: {
+    validateSession: jest.fn()
+  }
+}));
+const mockValidateSession = authService.validateSession as jest.MockedFunction<typeof authService.validateSession>;
+
+describe('Time tracking routes', () => {
+  const mockUserId = 'user-123';
+  const app = express();
+  app.use(express.json());
+  app.use('/api/time', timeTrackingRoutes);
+
+  const startedAt = new Date('2026-10-19T09:00:00Z');
+  const timer: RunningTimer = {
+    userId: mockUserId,
+    description: 'Rédaction des conclusions',
+    activityType: ActivityType.DRAFTING,
+    isBillable: true,
+    startedAt,
+    state: TimerState.RUNNING,
+    segmentStartedAt: startedAt,
+    accumulatedSeconds: 0,
+    lastActivityAt: startedAt,
+    idleThresholdMinutes: 10,
+    elapsedSeconds: 0
+  };
+
+  const sessionAs = (activeRole: string) => mockValidateSession.mockResolvedValue({
+    valid: true,
+    userId: mockUserId,
+    email: 'maitre.benali@example.dz',
+    activeRole,
+    sessionId: 'session-1'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionAs('avocat');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load the running timer of the authenticated lawyer', async () => {
+    const getTimer = jest.spyOn(timeTrackingService, 'getTimer').mockResolvedValue(timer);
+
+    const response = await request(app)
+      .get('/api/time/timer')
+      .set('Authorization', 'Bearer token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.userId).toBe(mockUserId);
+    expect(getTimer).toHaveBeenCalledWith(mockUserId);
+  });
+
+  it('should start the timer for the authenticated lawyer', async () => {
+    const startTimer = jest.spyOn(timeTrackingService, 'startTimer').mockResolvedValue(timer);
+
+    const response = await request(app)
+      .post('/api/time/timer/start')
+      .set('Authorization', 'Bearer token')
+      .send({ description: 'Rédaction des conclusions' });
+
+    expect(response.status).toBe(201);
+    expect(startTimer).toHaveBeenCalledWith(mockUserId, { description: 'Rédaction des conclusions' });
+  });
+
+  it('should refuse users whose active role is not lawyer', async () => {
+    sessionAs('notaire');
+    const getTimer = jest.spyOn(timeTrackingService, 'getTimer');
+
+    const response = await request(app)
+      .get('/api/time/timer')
+      .set('Authorization', 'Bearer token');
+
+    expect(response.status).toBe(403);
+    expect(getTimer).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a valid session', async () => {
+    mockValidateSession.mockResolvedValue({ valid: false, error: 'Session expired' });
+    const stopTimer = jest.spyOn(timeTrackingService, 'stopTimer');
+
+    const response = await request(app)
+      .post('/api/time/timer/stop')
+      .set('Authorization', 'Bearer token')
+      .send({});
+
+    expect(response.status).toBe(401);
+    expect(stopTimer).not.toHaveBeenCalled();
+  });
+});
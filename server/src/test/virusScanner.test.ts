@@ -0,0 +1,120 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import net from 'net';
+import {
+  ClamdScanner,
+  EICAR_TEST_SIGNATURE,
+  EicarStubScanner,
+  createVirusScanner,
+  parseClamdResponse
+} from '../services/virusScanner';
+
+/**
+ * Faux démon clamd : lit un flux INSTREAM et répond selon son contenu
+ */
+function startFakeClamd(answer: (payload: Buffer) => string | null): Promise<{ server: net.Server; port: number }> {
+  return new Promise(resolve => {
+    const server = net.createServer(socket => {
+      let received = Buffer.alloc(0);
+      socket.on('data', (data: Buffer) => {
+        received = Buffer.concat([received, data]);
+        const command = 'zINSTREAM\0';
+        if (received.length < command.length) {
+          return;
+        }
+
+        // Blocs préfixés par leur longueur, terminés par un bloc vide
+        const chunks: Buffer[] = [];
+        let offset = command.length;
+        while (offset + 4 <= received.length) {
+          const length = received.readUInt32BE(offset);
+          if (length === 0) {
+            const response = answer(Buffer.concat(chunks));
+            if (response !== null) {
+              socket.end(`${response}\0`);
+            }
+            return;
+          }
+          if (offset + 4 + length > received.length) {
+            return;
+          }
+          chunks.push(received.subarray(offset + 4, offset + 4 + length));
+          offset += 4 + length;
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port });
+    });
+  });
+}
+
+describe('Virus scanner', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  test('the stub scanner detects the EICAR test file anywhere in the upload', async () => {
+    const scanner = new EicarStubScanner();
+
+    const infected = await scanner.scan(Buffer.from(`%PDF-1.4\n${EICAR_TEST_SIGNATURE}\n%%EOF`));
+    expect(infected.clean).toBe(false);
+    expect(infected.threats).toEqual(['Eicar-Test-Signature']);
+    expect(infected.engine).toBe('eicar-stub');
+
+    const clean = await scanner.scan(Buffer.from('Contrat de bail commercial'));
+    expect(clean).toMatchObject({ clean: true, threats: [] });
+  });
+
+  test('parses clamd verdicts and errors', () => {
+    expect(parseClamdResponse('stream: OK\0')).toEqual({ clean: true, threats: [] });
+    expect(parseClamdResponse('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({
+      clean: false,
+      threats: ['Win.Test.EICAR_HDB-1']
+    });
+    expect(() => parseClamdResponse('INSTREAM size limit exceeded. ERROR\0')).toThrow('INSTREAM size limit exceeded.');
+    expect(() => parseClamdResponse('')).toThrow('Empty response');
+  });
+
+  test('streams the file to clamd in length-prefixed chunks', async () => {
+    let scanned: Buffer | null = null;
+    const fake = await startFakeClamd(payload => {
+      scanned = payload;
+      return payload.includes('EICAR') ? 'stream: Eicar-Signature FOUND' : 'stream: OK';
+    });
+    server = fake.server;
+    const scanner = new ClamdScanner({ host: '127.0.0.1', port: fake.port, timeoutMs: 2000 });
+
+    // Plus grand qu'un bloc pour vérifier le découpage
+    const large = Buffer.alloc(200 * 1024, 'a');
+    const clean = await scanner.scan(large);
+    expect(clean).toMatchObject({ clean: true, threats: [], engine: 'clamav' });
+    expect(scanned!.equals(large)).toBe(true);
+
+    const infected = await scanner.scan(Buffer.from(EICAR_TEST_SIGNATURE));
+    expect(infected).toMatchObject({ clean: false, threats: ['Eicar-Signature'] });
+  });
+
+  test('fails when clamd does not answer in time or is unreachable', async () => {
+    const fake = await startFakeClamd(() => null);
+    server = fake.server;
+
+    const silent = new ClamdScanner({ host: '127.0.0.1', port: fake.port, timeoutMs: 200 });
+    await expect(silent.scan(Buffer.from('pièce'))).rejects.toThrow('did not answer within 200 ms');
+
+    const unreachable = createVirusScanner({
+      mode: 'clamav',
+      clamav: { host: '127.0.0.1', port: 1, timeoutMs: 1000 }
+    });
+    await expect(unreachable.scan(Buffer.from('pièce'))).rejects.toThrow();
+  });
+
+  test('selects the stub scanner outside production', () => {
+    const scanner = createVirusScanner({ mode: 'stub', clamav: { host: 'localhost', port: 3310, timeoutMs: 1000 } });
+    expect(scanner.name).toBe('eicar-stub');
+  });
+});
@@ -1,7 +1,14 @@
+import type { Request } from 'express';
+import type { AuthenticationResponseJSON, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/server';
+
 export interface UserCredentials {
   email: string;
   password: string;
   mfaCode?: string;
+  /** Code de secours à usage unique, à la place du second facteur */
+  recoveryCode?: string;
+  /** Réponse de la passkey au défi renvoyé avec mfaRequired */
+  webauthnResponse?: AuthenticationResponseJSON;
 }
 
 export interface AuthResult {
@@ -9,6 +16,9 @@ export interface AuthResult {
   user?: UserProfile;
   tokens?: TokenPair;
   mfaRequired?: boolean;
+  /** Seconds facteurs disponibles quand mfaRequired est vrai ; les codes de secours sont toujours acceptés */
+  mfaMethods?: MFAMethod[];
+  webauthnOptions?: PublicKeyCredentialRequestOptionsJSON;
   error?: string;
 }
 
@@ -17,6 +27,12 @@ export interface TokenPair {
   refreshToken: string;
 }
 
+/** Origine d'une connexion, enregistrée avec la session */
+export interface LoginContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 export interface SessionInfo {
   valid: boolean;
   userId?: string;
@@ -68,15 +84,50 @@ export enum Profession {
 export interface MFASetup {
   secret: string;
   qrCode: string;
+  /** Codes de secours, renvoyés seulement quand ils viennent d'être générés */
   backupCodes: string[];
 }
 
-export type MFAMethod = 'totp' | 'sms' | 'email';
+export type MFAMethod = 'totp' | 'sms' | 'email' | 'webauthn';
+
+export interface WebAuthnCredentialInfo {
+  id: string;
+  name: string;
+  deviceType?: string;
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface MFAStatus {
+  enabled: boolean;
+  totpEnabled: boolean;
+  passkeys: WebAuthnCredentialInfo[];
+  recoveryCodesRemaining: number;
+}
+
+/** Session active, telle que présentée dans « Mes appareils » */
+export interface ActiveSession {
+  id: string;
+  /** Ex. « Chrome sur Windows » */
+  device: string;
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  ipAddress?: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+  expiresAt: Date;
+  /** Session qui a servi à faire la requête */
+  current: boolean;
+}
 
 export interface LoginRequest {
   email: string;
   password: string;
   mfaCode?: string;
+  recoveryCode?: string;
+  webauthnResponse?: AuthenticationResponseJSON;
 }
 
 export interface RegisterRequest {
@@ -145,6 +145,9 @@ export interface FeeBreakdown {
   taxRate: number;
   taxAmount: number;
   total: number;
+  /** Détail par règle fiscale appliquée, absent des calculs antérieurs au moteur fiscal */
+  taxes?: AppliedTax[];
+  withholdingAmount?: number;
 }
 
 export interface AdditionalFee {
@@ -289,6 +292,8 @@ export interface TaxConfiguration {
   applicableTo?: Date;
   isActive: boolean;
   legalReference: string;
+  createdBy?: string;
+  createdAt?: Date;
 }
 
 export enum TaxType {
@@ -299,6 +304,44 @@ export enum TaxType {
   WITHHOLDING_TAX = 'withholding_tax'
 }
 
+// Taxe calculée avec une version précise d'une règle fiscale
+export interface AppliedTax {
+  taxConfigurationId: string;
+  taxType: TaxType;
+  rate: number;
+  isPercentage: boolean;
+  baseAmount: number;
+  amount: number;
+  legalReference: string;
+}
+
+export interface TaxBreakdown {
+  taxes: AppliedTax[];
+  /** Taux de TVA, 0 si la profession n'y est pas soumise */
+  taxRate: number;
+  /** Taxes ajoutées au montant hors taxes (TVA, taxe professionnelle, timbre...) */
+  taxAmount: number;
+  /** Retenue à la source : comprise dans le total, versée par le client au Trésor */
+  withholdingAmount: number;
+}
+
+/**
+ * Nouveau taux (loi de finances) programmé à partir d'une date future ; la
+ * version en vigueur prend fin à cette date et reste dans l'historique
+ */
+export interface ScheduleTaxRateRequest {
+  profession: LegalProfession;
+  taxType: TaxType;
+  rate: number;
+  isPercentage: boolean;
+  minimumAmount?: number;
+  maximumAmount?: number;
+  exemptionThreshold?: number;
+  applicableFrom: Date;
+  legalReference: string;
+  createdBy: string;
+}
+
 // Billing Invoice
 export interface BillingInvoice {
   id: string;
@@ -339,6 +382,17 @@ export interface BillingInvoice {
   updatedAt: Date;
 }
 
+/**
+ * Facture de la liste de l'avocat, avec son dossier, son client et ses lignes
+ */
+export interface InvoiceListItem extends BillingInvoice {
+  caseNumber: string;
+  caseTitle: string;
+  clientName: string;
+  clientEmail?: string;
+  lines: InvoiceLine[];
+}
+
 export enum InvoiceStatus {
   DRAFT = 'draft',
   SENT = 'sent',
@@ -360,6 +414,9 @@ export enum PaymentStatus {
 export enum PaymentMethod {
   CASH = 'cash',
   CHECK = 'check',
+  /** Virement postal (CCP) */
+  CCP_TRANSFER = 'ccp_transfer',
+  BARIDIMOB = 'baridimob',
   BANK_TRANSFER = 'bank_transfer',
   CREDIT_CARD = 'credit_card',
   MOBILE_PAYMENT = 'mobile_payment',
@@ -396,6 +453,236 @@ export interface CreateInvoiceRequest {
   sendToClient?: boolean;
 }
 
+// Facturation des temps
+export enum InvoiceLineType {
+  TIME = 'time',
+  /** Complément pour atteindre le minimum du barème */
+  FEE_ADJUSTMENT = 'fee_adjustment',
+  EXPENSE = 'expense',
+  PROVISION = 'provision'
+}
+
+export interface InvoiceLine {
+  id?: string;
+  position: number;
+  lineType: InvoiceLineType;
+  activityType?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  /** Les débours et provisions ne sont pas soumis aux taxes */
+  isTaxable: boolean;
+  /** Versions des règles fiscales appliquées à la ligne */
+  taxConfigurationIds?: string[];
+}
+
+export interface BillTimeRequest {
+  clientId?: string;
+  caseId?: string;
+  periodFrom: Date;
+  periodTo: Date;
+  lawyerId: string;
+  profession?: LegalProfession;
+  includeExpenses?: boolean;
+  /** Provision sur frais et honoraires demandée avec la facture */
+  provisionAmount?: number;
+  paymentTerms?: number;
+  notes?: string;
+}
+
+export interface TimeInvoiceDraft {
+  caseId: string;
+  caseNumber: string;
+  clientId: string;
+  lines: InvoiceLine[];
+  timeEntryIds: string[];
+  expenseIds: string[];
+  /** Honoraires minimum du barème pour les heures facturées */
+  scaleMinimum: number;
+  feesSubtotal: number;
+  expensesTotal: number;
+  provisionAmount: number;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  taxes: AppliedTax[];
+  withholdingAmount: number;
+  total: number;
+  warnings: string[];
+  invoice?: BillingInvoice;
+}
+
+// Compte de provisions des clients
+export enum ProvisionTransactionType {
+  DEPOSIT = 'deposit',
+  /** Imputation de la provision sur une facture */
+  DRAWDOWN = 'drawdown',
+  REFUND = 'refund'
+}
+
+export enum LedgerAccount {
+  /** Compte bancaire de dépôt des fonds des clients */
+  TRUST_BANK = 'trust_bank',
+  /** Dette du cabinet envers le client */
+  CLIENT_PROVISION = 'client_provision',
+  OPERATING_BANK = 'operating_bank',
+  ACCOUNTS_RECEIVABLE = 'accounts_receivable'
+}
+
+export interface LedgerEntry {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface ProvisionTransaction {
+  id: string;
+  clientId: string;
+  /** Absent pour une provision générale du client */
+  caseId?: string;
+  caseNumber?: string;
+  transactionType: ProvisionTransactionType;
+  amount: number;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  description?: string;
+  transactionDate: Date;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface RecordProvisionRequest {
+  clientId: string;
+  caseId?: string;
+  amount: number;
+  invoiceId?: string;
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  description?: string;
+  transactionDate?: Date;
+  createdBy: string;
+}
+
+export interface ProvisionBalance {
+  caseId: string | null;
+  caseNumber?: string;
+  deposits: number;
+  drawdowns: number;
+  refunds: number;
+  balance: number;
+}
+
+export interface ProvisionStatementLine {
+  transaction: ProvisionTransaction;
+  /** Sommes reçues du client */
+  credit: number;
+  /** Sommes imputées ou restituées */
+  debit: number;
+  balance: number;
+}
+
+export interface ProvisionStatement {
+  client: { id: string; name: string; address?: string };
+  caseId?: string;
+  caseNumber?: string;
+  periodFrom?: Date;
+  periodTo?: Date;
+  openingBalance: number;
+  lines: ProvisionStatementLine[];
+  totalCredits: number;
+  totalDebits: number;
+  closingBalance: number;
+  balances: ProvisionBalance[];
+  /** Le compte bancaire de dépôt et la dette envers le client concordent */
+  reconciled: boolean;
+  generatedAt: Date;
+}
+
+// Encaissements, avoirs et ancienneté des créances
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  /** Absent pour une imputation sur la provision du client */
+  paymentMethod?: PaymentMethod;
+  provisionTransactionId?: string;
+  paymentDate: Date;
+  reference?: string;
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface RecordPaymentRequest {
+  invoiceId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  paymentDate?: Date;
+  /** Numéro de chèque, référence du virement ou de la transaction BaridiMob */
+  reference?: string;
+  notes?: string;
+  createdBy: string;
+}
+
+export interface CreditNote {
+  id: string;
+  /** AV-AAAA-NNNN, numérotation continue par année */
+  creditNoteNumber: string;
+  invoiceId: string;
+  invoiceNumber?: string;
+  clientId: string;
+  caseId: string;
+  amount: number;
+  /** Part des taxes de la facture comprise dans le montant */
+  taxAmount: number;
+  reason: string;
+  issueDate: Date;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface CreateCreditNoteRequest {
+  invoiceId: string;
+  amount: number;
+  reason: string;
+  createdBy: string;
+}
+
+export enum AgingBucket {
+  DAYS_0_30 = '0-30',
+  DAYS_31_60 = '31-60',
+  DAYS_61_90 = '61-90',
+  DAYS_90_PLUS = '90+'
+}
+
+export interface AgingInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  clientName: string;
+  clientEmail?: string;
+  caseId: string;
+  lawyerId: string;
+  issueDate: Date;
+  dueDate: Date;
+  totalAmount: number;
+  /** Reste dû à la date du rapport, d'après les encaissements et avoirs */
+  outstanding: number;
+  /** 0 tant que l'échéance n'est pas passée */
+  daysOverdue: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  buckets: Array<{ bucket: AgingBucket; count: number; amount: number; percentage: number }>;
+  totalOutstanding: number;
+  invoices: AgingInvoice[];
+}
+
 export interface UpdateFeeScheduleRequest {
   profession: LegalProfession;
   schedules: Partial<AlgerianFeeSchedule>[];
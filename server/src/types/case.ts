@@ -1,4 +1,5 @@
 import { LegalDomain } from './search';
+import { ChainProcedure, ChainStepKey, JudgmentKind, PlannedChainDeadline } from '@/legal/deadlineChains';
 
 // Client types
 export interface Client {
@@ -175,6 +176,7 @@ export enum EventType {
   PAYMENT = 'payment',
   SETTLEMENT = 'settlement',
   JUDGMENT = 'judgment',
+  SIGNIFICATION = 'signification',
   APPEAL = 'appeal',
   OTHER = 'other'
 }
@@ -287,6 +289,44 @@ export enum DeadlineStatus {
   EXTENDED = 'extended'
 }
 
+// Legal deadlines chained from case events
+export interface DeadlineChain {
+  id: string;
+  caseId: string;
+  judgmentEventId: string;
+  significationEventId?: string;
+  procedure: ChainProcedure;
+  judgmentKind: JudgmentKind;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LegalDeadlineRecord {
+  id: string;
+  userId: string;
+  caseId?: string;
+  title: string;
+  titleAr?: string;
+  category: string;
+  baseDate: Date;
+  deadlineDate: Date;
+  daysTotal: number;
+  legalReference?: string;
+  ruleCode?: string;
+  rulesVersion?: string;
+  priority: Priority;
+  chainId?: string;
+  chainStep?: ChainStepKey;
+  triggerEventId?: string;
+  parentDeadlineId?: string;
+  isProvisional: boolean;
+  isCompleted: boolean;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Time tracking
 export interface CaseTimeEntry {
   id: string;
@@ -301,6 +341,8 @@ export interface CaseTimeEntry {
   hourlyRate?: number;
   totalAmount?: number;
   status: TimeEntryStatus;
+  /** Événement de l'agenda dont le temps est issu */
+  calendarEventId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -326,6 +368,46 @@ export enum TimeEntryStatus {
   BILLED = 'billed'
 }
 
+// Chronomètre en cours, un seul par avocat, partagé entre ses appareils
+export enum TimerState {
+  RUNNING = 'running',
+  PAUSED = 'paused'
+}
+
+export interface RunningTimer {
+  userId: string;
+  caseId?: string;
+  description: string;
+  activityType: ActivityType;
+  isBillable: boolean;
+  hourlyRate?: number;
+  startedAt: Date;
+  state: TimerState;
+  /** Début de la période en cours, absent en pause */
+  segmentStartedAt?: Date;
+  /** Temps des périodes terminées */
+  accumulatedSeconds: number;
+  lastActivityAt: Date;
+  idleThresholdMinutes: number;
+  elapsedSeconds: number;
+  /** Inactivité au-delà du seuil, à garder ou retirer avant de continuer */
+  idleSince?: Date;
+}
+
+// Audience ou rendez-vous de l'agenda à transformer en temps passé
+export interface TimeEntrySuggestion {
+  calendarEventId: string;
+  caseId?: string;
+  title: string;
+  eventType: string;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  activityType: ActivityType;
+  description: string;
+  location?: string;
+}
+
 // Expense tracking
 export interface CaseExpense {
   id: string;
@@ -516,6 +598,33 @@ export interface CreateCaseEventRequest {
   participants?: EventParticipant[];
   reminderDate?: Date;
   isBillable?: boolean;
+  /**
+   * Pour un jugement : crée la chaîne de délais qui en découle ; la procédure
+   * et la nature du jugement sont déduites du dossier si elles manquent
+   */
+  deadlineChain?: Partial<DeadlineChainRequest>;
+}
+
+export interface DeadlineChainRequest {
+  procedure: ChainProcedure;
+  judgmentKind: JudgmentKind;
+  /** Étapes à créer ; toutes par défaut */
+  steps?: ChainStepKey[];
+}
+
+export interface UpdateCaseEventRequest {
+  title?: string;
+  description?: string;
+  eventDate?: Date;
+  location?: string;
+  status?: EventStatus;
+}
+
+export interface CaseEventWithDeadlines extends CaseEvent {
+  /** Délais créés ou recalculés à partir de l'événement */
+  chainedDeadlines?: LegalDeadlineRecord[];
+  /** Chaîne proposée pour un jugement enregistré sans demande de création */
+  proposedDeadlines?: PlannedChainDeadline[];
 }
 
 export interface CreateCaseNoteRequest {
@@ -552,4 +661,24 @@ export interface CreateExpenseRequest {
   expenseDate: Date;
   receiptNumber?: string;
   vendor?: string;
-}
\ No newline at end of file
+}
+
+export interface StartTimerRequest {
+  caseId?: string;
+  description: string;
+  activityType?: ActivityType;
+  isBillable?: boolean;
+  hourlyRate?: number;
+  idleThresholdMinutes?: number;
+}
+
+export type IdleDecision = 'keep' | 'discard';
+
+export interface AcceptSuggestionRequest {
+  caseId?: string;
+  description?: string;
+  activityType?: ActivityType;
+  durationMinutes?: number;
+  isBillable?: boolean;
+  hourlyRate?: number;
+}
@@ -110,11 +110,36 @@ export interface DocumentMetadata {
 export interface DocumentAttachment {
   id: string;
   filename: string;
+  originalFilename?: string;
   mimeType: string;
   size: number;
   url: string;
   uploadedAt: Date;
   uploadedBy: string;
+  isEncrypted?: boolean;
+  encryptionKeyId?: string;
+  scanStatus?: AttachmentScanStatus;
+  scanThreats?: string[];
+  scannedAt?: Date;
+  hasThumbnail?: boolean;
+  previewPageCount?: number;
+}
+
+export enum AttachmentScanStatus {
+  PENDING = 'pending',
+  CLEAN = 'clean',
+  QUARANTINED = 'quarantined',
+  RELEASED = 'released'
+}
+
+/**
+ * Pièce jointe en attente d'analyse ou en quarantaine, vue par les administrateurs
+ */
+export interface QuarantinedAttachment extends DocumentAttachment {
+  documentId: string;
+  documentTitle: string;
+  scanEngine?: string;
+  scanError?: string;
 }
 
 export interface DocumentVersion {
@@ -332,9 +357,19 @@ export interface DocumentSearchResult {
   documents: Document[];
   totalCount: number;
   facets?: DocumentFacet[];
+  attachmentMatches?: AttachmentSearchMatch[];
   searchTime: number;
 }
 
+export interface AttachmentSearchMatch {
+  documentId: string;
+  attachmentId: string;
+  filename: string;
+  /** Extrait HTML échappé, termes trouvés entourés de <mark> */
+  snippet: string;
+  rank: number;
+}
+
 export interface DocumentFacet {
   field: string;
   values: { value: string; count: number }[];
@@ -436,7 +471,20 @@ export interface DocumentExportOptions {
   includeAttachments: boolean;
   watermark?: string;
   password?: string;
-}
+  includeLetterhead?: boolean; // defaults to true
+  layout?: DocumentExportLayout;
+  translationDocumentId?: string; // counterpart used by the bilingual layout
+  tribunal?: string;
+  destinataire?: string;
+  reference?: string;
+  lieu?: string;
+}
+
+/**
+ * single: the document in its own language
+ * bilingual: French and Arabic versions side by side, paragraph by paragraph
+ */
+export type DocumentExportLayout = 'single' | 'bilingual';
 
 export interface DocumentImportOptions {
   preserveMetadata: boolean;
@@ -0,0 +1,32 @@
+export enum KeyRewrapJobStatus {
+  PENDING = 'pending',
+  REWRAPPING = 'rewrapping',
+  VERIFYING = 'verifying',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+/**
+ * Travail de réenveloppement d'un tenant : clés de fichiers et enregistrements
+ * chiffrés, comptés ensemble dans les totaux
+ */
+export interface KeyRewrapJob {
+  id: string;
+  tenantId: string;
+  /** Clé remplacée par la rotation ; absente pour la reprise des clés antérieures à la hiérarchie */
+  fromKeyId?: string;
+  toKeyId: string;
+  status: KeyRewrapJobStatus;
+  totalKeys: number;
+  rewrappedKeys: number;
+  verifiedKeys: number;
+  failedKeys: number;
+  /** Avancement de 0 à 100 : réenveloppement puis vérification */
+  progress: number;
+  errorMessage?: string;
+  attempts: number;
+  requestedBy?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
@@ -237,6 +237,17 @@ export interface MetadonneesActe {
   localisation?: string;
   numero_parcelle?: string;
   references_cadastrales?: string[];
+  enregistrement?: EnregistrementActe;
+}
+
+/**
+ * Références de la formalité d'enregistrement, reportées au répertoire
+ */
+export interface EnregistrementActe {
+  bureau: string;
+  numero: string;
+  dateEnregistrement: Date | string;
+  droits?: number;
 }
 
 export interface ArchivageInfo {
@@ -306,6 +317,7 @@ export interface TriMinutier {
 export enum ChampTriMinutier {
   DATE_ACTE = 'date_acte',
   NUMERO_MINUTIER = 'numero_minutier',
+  NUMERO_REPERTOIRE = 'numero_repertoire',
   TYPE_ACTE = 'type_acte',
   PARTIES = 'parties',
   MONTANT = 'montant',
@@ -349,6 +361,7 @@ export interface CopieConforme {
   statut: StatutCopie;
   validiteJuridique: boolean;
   hashCopie: string;
+  chargeQr?: string;
 }
 
 export enum TypeCopie {
@@ -373,6 +386,9 @@ export interface SignatureNotaire {
   dateSignature: Date;
   signatureNumerique: string;
   certificat: string;
+  certificatId?: string;
+  algorithme?: string;
+  hashSigne?: string;
 }
 
 export interface CachetNotarial {
@@ -395,6 +411,117 @@ export interface CoordonneesCachet {
   page: number;
 }
 
+// Certificats des notaires (autorité de certification locale)
+export interface CertificatNotaire {
+  id: string;
+  notaireId: string;
+  numeroSerie: string;
+  titulaire: string;
+  emetteur: string;
+  empreinteSha256: string;
+  valideDu: Date;
+  valideAu: Date;
+  statut: StatutCertificat;
+  dateRevocation?: Date;
+  motifRevocation?: string;
+  certificatPem: string;
+}
+
+export enum StatutCertificat {
+  ACTIF = 'actif',
+  EXPIRE = 'expire',
+  REVOQUE = 'revoque'
+}
+
+export interface VerificationCopieRequest {
+  qr?: string;
+  numeroCopie?: string;
+  numeroMinutier?: string;
+  contenu?: string;
+}
+
+export interface VerificationCopieConforme {
+  authentique: boolean;
+  inalteree: boolean;
+  copie: {
+    numeroCopie: string;
+    typeCopie: TypeCopie;
+    numeroMinutier: string;
+    dateGeneration: Date;
+    statut: StatutCopie;
+    hashCopie: string;
+    nomNotaire?: string;
+  };
+  certificat?: {
+    numeroSerie: string;
+    titulaire: string;
+    emetteur: string;
+    valideDu: Date;
+    valideAu: Date;
+    revoque: boolean;
+  };
+  cachetsVerifies: TypeCachet[];
+  anomalies: string[];
+}
+
+// Chaîne d'empreintes du minutier et du répertoire
+export type EvenementRegistre = 'reprise' | 'inscription' | 'modification' | 'archivage';
+
+export interface EntreeRegistreMinutier {
+  notaireId: string;
+  sequence: number;
+  typeEvenement: EvenementRegistre;
+  acteId: string;
+  numeroMinutier: string;
+  numeroRepertoire: string;
+  hashActe: string;
+  horodatage: Date;
+  hashPrecedent: string;
+  hashEntree: string;
+}
+
+export interface PointControleMinutier {
+  notaireId: string;
+  datePoint: string;
+  sequence: number;
+  hashTete: string;
+  signature: string;
+  certificatPem: string;
+  creeLe: Date;
+}
+
+export type TypeAnomalieChaine =
+  | 'sequence_manquante'
+  | 'rupture_chaine'
+  | 'entree_modifiee'
+  | 'ordre'
+  | 'numerotation_lacunaire'
+  | 'acte_supprime'
+  | 'acte_renumerote'
+  | 'acte_modifie'
+  | 'acte_non_inscrit'
+  | 'point_controle_invalide'
+  | 'point_controle_incoherent';
+
+export interface AnomalieChaine {
+  type: TypeAnomalieChaine;
+  sequence?: number;
+  acteId?: string;
+  numeroMinutier?: string;
+  message: string;
+}
+
+export interface RapportVerificationChaine {
+  notaireId: string;
+  verifieLe: Date;
+  integre: boolean;
+  nombreEntrees: number;
+  nombreActes: number;
+  hashTete?: string;
+  dernierPointControle?: { datePoint: string; sequence: number };
+  anomalies: AnomalieChaine[];
+}
+
 export enum StatutCopie {
   GENEREE = 'generee',
   SIGNEE = 'signee',
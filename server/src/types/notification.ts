@@ -36,6 +36,7 @@ export enum NotificationType {
   PAYMENT_DUE = 'payment_due',
   TASK_ASSIGNED = 'task_assigned',
   SYSTEM_ALERT = 'system_alert',
+  REPORT_DELIVERY = 'report_delivery',
   CUSTOM = 'custom'
 }
 
@@ -121,6 +122,29 @@ export interface NotificationPreferences {
   updatedAt: Date;
 }
 
+// Per-user delivery schedule (digest and quiet hours, all notification types)
+export type DigestMode = 'immediate' | 'hourly' | 'daily';
+
+export interface NotificationDeliverySettings {
+  userId: string;
+  digestMode: DigestMode;
+  digestTime: string; // HH:MM, used by the daily digest
+  timezone: string;
+  quietHoursStart?: string; // HH:MM
+  quietHoursEnd?: string;
+  quietOnWeekend: boolean; // Friday and Saturday
+  updatedAt?: Date;
+}
+
+export interface UpdateNotificationDeliverySettingsRequest {
+  digestMode?: DigestMode;
+  digestTime?: string;
+  timezone?: string;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  quietOnWeekend?: boolean;
+}
+
 // Deadline Notifications
 export interface DeadlineNotification {
   id: string;
@@ -173,6 +197,7 @@ export interface NotificationDigest {
 }
 
 export enum DigestType {
+  HOURLY = 'hourly',
   DAILY = 'daily',
   WEEKLY = 'weekly'
 }
@@ -218,6 +243,8 @@ export enum CalculationMethod {
 // Request/Response Types
 export interface CreateNotificationRequest {
   recipientId: string;
+  recipientEmail?: string;
+  recipientPhone?: string;
   type: NotificationType;
   channel: NotificationChannel;
   subject?: string;
@@ -299,7 +326,22 @@ export interface NotificationStatistics {
   deliveryRate: number;
   averageDeliveryTime: number;
   failureRate: number;
+  bounceCount: number;
+  bounceRate: number;
+  pendingRetries: number;
   recentActivity: NotificationActivity[];
+  recentFailures: NotificationFailure[];
+}
+
+export interface NotificationFailure {
+  id: string;
+  channel: NotificationChannel;
+  recipient?: string;
+  reason?: string;
+  bounced: boolean;
+  retryCount: number;
+  transport?: string;
+  failedAt: Date;
 }
 
 export interface NotificationActivity {
@@ -368,7 +410,8 @@ export interface EmailNotificationData {
 
 export interface EmailAttachment {
   filename: string;
-  content: Buffer;
+  content?: Buffer;
+  path?: string; // file read by the transport when content is not provided
   contentType: string;
 }
 
@@ -393,6 +436,8 @@ export interface NotificationServiceResponse {
   status?: string;
   error?: string;
   details?: Record<string, any>;
+  transport?: string;
+  permanent?: boolean; // bounce or rejected recipient: the notification is not retried
 }
 
 // Template Processing
@@ -469,4 +514,28 @@ export enum WebhookEventType {
   CLICKED = 'clicked',
   OPENED = 'opened',
   UNSUBSCRIBED = 'unsubscribed'
-}
\ No newline at end of file
+}
+// Real-time stream (Server-Sent Events)
+export type NotificationStreamEventType = 'notification' | 'deadline_alert' | 'report_ready';
+
+export interface NotificationStreamEvent {
+  id: number; // monotonically increasing, sent as the SSE `id:` field
+  userId: string;
+  type: NotificationStreamEventType;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface DeadlineAlertSummary {
+  overdue: number;
+  urgent: number; // due within the next 3 days
+  total: number;
+  deadlines: Array<{
+    id: string;
+    title: string;
+    titleAr?: string;
+    deadlineDate: string;
+    daysRemaining: number;
+    status: 'overdue' | 'urgent';
+  }>;
+}
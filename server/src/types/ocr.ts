@@ -0,0 +1,38 @@
+export type OcrLanguage = 'fr' | 'ar' | 'mixed';
+
+export enum OcrJobStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  /** Confiance moyenne des mots reconnus, de 0 à 100 */
+  confidence: number;
+  language: OcrLanguage;
+  wordCount: number;
+}
+
+export interface OcrJob {
+  id: string;
+  attachmentId: string;
+  requestedBy: string;
+  status: OcrJobStatus;
+  /** Modèles Tesseract utilisés, ex. « ara+fra » */
+  languages: string;
+  pageCount?: number;
+  processedPages: number;
+  confidence?: number;
+  detectedLanguage?: OcrLanguage;
+  errorMessage?: string;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  pages?: OcrPageResult[];
+  /** Texte complet, pages séparées par une ligne vide */
+  text?: string;
+}
@@ -10,6 +10,7 @@ export interface Report {
   parameters: ReportParameters;
   generatedBy: string;
   organizationId?: string;
+  templateId?: string;
   filePath?: string;
   fileSize?: number;
   generatedAt?: Date;
@@ -66,6 +67,8 @@ export interface ReportParameters {
   sortOrder?: 'asc' | 'desc';
   filters?: Record<string, any>;
   customFields?: string[];
+  /** Langue des libellés du fichier exporté (l'arabe est composé de droite à gauche) */
+  language?: 'fr' | 'ar';
 }
 
 export enum ReportGroupBy {
@@ -565,6 +568,11 @@ export interface ScheduledReport {
   description?: string;
   schedule: ReportSchedule;
   recipients: string[];
+  /** Overrides the template format */
+  format?: ReportFormat;
+  delivery: ScheduleDeliveryChannel;
+  /** Merged over the template parameters (the date range is set from the schedule) */
+  parameters?: ReportParameters;
   isActive: boolean;
   lastGenerated?: Date;
   nextGeneration: Date;
@@ -592,6 +600,57 @@ export enum ScheduleFrequency {
   YEARLY = 'yearly'
 }
 
+export enum ScheduleDeliveryChannel {
+  EMAIL = 'email',
+  IN_APP = 'in_app'
+}
+
+export interface ScheduledReportRun {
+  id: string;
+  scheduledReportId: string;
+  reportId?: string;
+  status: ScheduledRunStatus;
+  scheduledFor: Date;
+  periodFrom: Date;
+  periodTo: Date;
+  attempts: number;
+  lastError?: string;
+  nextRetryAt?: Date;
+  recipientsNotified: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export enum ScheduledRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  RETRYING = 'retrying',
+  FAILED = 'failed'
+}
+
+export interface CreateScheduledReportRequest {
+  templateId: string;
+  title: string;
+  description?: string;
+  schedule: Partial<ReportSchedule> & { frequency: ScheduleFrequency };
+  recipients: string[];
+  format?: ReportFormat;
+  delivery?: ScheduleDeliveryChannel;
+  parameters?: ReportParameters;
+}
+
+export interface UpdateScheduledReportRequest {
+  title?: string;
+  description?: string;
+  schedule?: Partial<ReportSchedule>;
+  recipients?: string[];
+  format?: ReportFormat;
+  delivery?: ScheduleDeliveryChannel;
+  parameters?: ReportParameters;
+  isActive?: boolean;
+}
+
 // Report Sharing
 export interface ReportShare {
   id: string;
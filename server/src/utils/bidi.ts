@@ -0,0 +1,92 @@
+/**
+ * Mise en page bidirectionnelle (arabe / français) au niveau des mots
+ *
+ * Les moteurs de rendu PDF placent les glyphes de gauche à droite dans l'ordre
+ * logique. Pour un texte arabe, on calcule ici l'ordre visuel des mots :
+ * chaque mot arabe est ensuite mis en forme (liaisons, sens) par la police,
+ * tandis que les suites de mots latins ou de nombres gardent leur ordre interne.
+ */
+
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const LATIN_PATTERN = /[A-Za-z\u00C0-\u024F]/;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export function hasArabic(text: string): boolean {
+  return ARABIC_PATTERN.test(text);
+}
+
+/**
+ * Sens de base d'un paragraphe : celui de la première lettre forte
+ */
+export function detectDirection(text: string, fallback: TextDirection = 'ltr'): TextDirection {
+  for (const char of text) {
+    if (ARABIC_PATTERN.test(char)) return 'rtl';
+    if (LATIN_PATTERN.test(char)) return 'ltr';
+  }
+  return fallback;
+}
+
+export function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => word.length > 0);
+}
+
+/**
+ * Ordre visuel (de gauche à droite) des mots d'une ligne
+ */
+export function visualWordOrder(words: string[], base: TextDirection): string[] {
+  const opposite: TextDirection = base === 'rtl' ? 'ltr' : 'rtl';
+  const directionOf = (word: string): TextDirection => (hasArabic(word) ? 'rtl' : 'ltr');
+
+  // Regroupe les mots en suites de même sens ; les suites de sens opposé au
+  // paragraphe sont inversées, puis l'ensemble est inversé pour un paragraphe RTL
+  const runs: Array<{ direction: TextDirection; words: string[] }> = [];
+  for (const word of words) {
+    const direction = directionOf(word);
+    const last = runs[runs.length - 1];
+    if (last && last.direction === direction) {
+      last.words.push(word);
+    } else {
+      runs.push({ direction, words: [word] });
+    }
+  }
+
+  if (base === 'ltr') {
+    return runs.flatMap(run => (run.direction === opposite ? [...run.words].reverse() : run.words));
+  }
+  return [...runs].reverse().flatMap(run => (run.direction === 'rtl' ? [...run.words].reverse() : run.words));
+}
+
+/**
+ * Coupe un texte en lignes (ordre logique) ne dépassant pas la largeur donnée ;
+ * un mot plus large que la ligne occupe une ligne à lui seul.
+ */
+export function wrapWords(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number
+): string[][] {
+  const spaceWidth = measure(' ');
+  const lines: string[][] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current: string[] = [];
+    let width = 0;
+
+    for (const word of splitWords(paragraph)) {
+      const wordWidth = measure(word);
+      const needed = current.length === 0 ? wordWidth : width + spaceWidth + wordWidth;
+      if (current.length > 0 && needed > maxWidth) {
+        lines.push(current);
+        current = [word];
+        width = wordWidth;
+      } else {
+        current.push(word);
+        width = needed;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import net from 'net';
+
+/**
+ * Appareil et réseau d'une connexion, d'après le User-Agent et l'adresse IP
+ *
+ * Sert à présenter les sessions (« Chrome sur Windows ») et à reconnaître une
+ * connexion depuis un nouvel appareil ou un nouvel endroit. Sans base de
+ * géolocalisation, l'endroit est approché par le réseau : le /24 en IPv4, le
+ * /48 en IPv6. La version du navigateur est ignorée pour qu'une mise à jour ne
+ * fasse pas apparaître un « nouvel appareil ».
+ */
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  type: DeviceType;
+  /** Libellé affiché, ex. « Firefox sur Android » */
+  label: string;
+}
+
+// L'ordre compte : Edge et Opera s'annoncent aussi comme Chrome, Chrome comme Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  const ua = userAgent || '';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Navigateur inconnu';
+  const os = SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'système inconnu';
+
+  let type: DeviceType = 'unknown';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    type = 'tablet';
+  } else if (/Mobile|iPhone|iPod/.test(ua)) {
+    type = 'mobile';
+  } else if (/Windows|Macintosh|CrOS|X11|Linux/.test(ua)) {
+    type = 'desktop';
+  }
+
+  return { browser, os, type, label: `${browser} sur ${os}` };
+}
+
+/**
+ * Clé stable d'un appareil : navigateur, système et type, sans version
+ */
+export function deviceKey(userAgent: string | null | undefined): string {
+  const { browser, os, type } = parseUserAgent(userAgent);
+  return crypto.createHash('sha256').update(`${browser}|${os}|${type}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Réseau d'une adresse IP : /24 en IPv4, /48 en IPv6 ; null si l'adresse est absente ou invalide
+ */
+export function networkOf(ipAddress: string | null | undefined): string | null {
+  if (!ipAddress) {
+    return null;
+  }
+
+  // Adresse IPv4 transportée en IPv6 (::ffff:192.0.2.1), fréquente derrière Express
+  const address = ipAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+  if (net.isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (net.isIPv6(address)) {
+    return `${expandIPv6(address).slice(0, 3).join(':')}::/48`;
+  }
+
+  return null;
+}
+
+function expandIPv6(address: string): string[] {
+  const [head = '', tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(Math.max(missing, 0)).fill('0'), ...tailGroups]
+    .map(group => parseInt(group, 16).toString(16));
+}
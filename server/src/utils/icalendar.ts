@@ -0,0 +1,337 @@
+/**
+ * iCalendar (RFC 5545)
+ * Sérialisation des agendas (VEVENT/VALARM) et lecture d'un fichier .ics importé.
+ */
+
+export interface ICalAlarm {
+  /** Minutes avant le début de l'événement */
+  minutesBefore: number;
+  description: string;
+}
+
+export interface ICalEvent {
+  /** Identifiant stable : un même UID met à jour l'événement dans l'agenda abonné */
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end?: Date;
+  /** Événement « journée entière » : seules les dates de start/end (incluse) sont utilisées */
+  allDay?: boolean;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  /** Incrémenté à chaque report pour que les clients appliquent la modification */
+  sequence?: number;
+  lastModified?: Date;
+  categories?: string[];
+  rrule?: string;
+  alarms?: ICalAlarm[];
+}
+
+export interface ICalCalendarOptions {
+  name: string;
+  description?: string;
+  timezone?: string;
+  /** Intervalle de rafraîchissement suggéré aux clients abonnés, en minutes */
+  refreshMinutes?: number;
+}
+
+export interface ParsedICalEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  status?: string;
+  /** Déclencheur de la première alarme, en minutes avant le début */
+  reminderMinutes?: number;
+}
+
+const PRODUCT_ID = '-//JuristDZ//Agenda juridique//FR';
+const MAX_LINE_OCTETS = 75;
+
+// ─── Sérialisation ──────────────────────────────────────────────────────────
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Plie une ligne à 75 octets sans couper un caractère multi-octets (texte arabe)
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function formatDateValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function formatTrigger(minutesBefore: number): string {
+  if (minutesBefore === 0) return 'PT0M';
+  if (minutesBefore % 1440 === 0) return `-P${minutesBefore / 1440}D`;
+  return `-PT${minutesBefore}M`;
+}
+
+function serializeEvent(event: ICalEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(stamp)}`,
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(addDays(event.end ?? event.start, 1))}`);
+  } else {
+    lines.push(`DTSTART:${formatUtcDateTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${formatUtcDateTime(event.end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`);
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+
+  for (const alarm of event.alarms ?? []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:${formatTrigger(alarm.minutesBefore)}`,
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Produit un calendrier VCALENDAR complet (lignes CRLF, pliées à 75 octets)
+ */
+export function buildICalendar(events: ICalEvent[], options: ICalCalendarOptions, stamp: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  if (options.timezone) lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ─── Lecture ────────────────────────────────────────────────────────────────
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfold(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // Le séparateur valeur est le premier « : » hors guillemets
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    if (key) params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: (rawName ?? '').toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Date ou date-heure iCalendar. Les heures « flottantes » ou avec TZID sont
+ * interprétées dans le fuseau du serveur.
+ */
+export function parseDateValue(value: string, params: Record<string, string> = {}): { date: Date; allDay: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (params['VALUE'] === 'DATE' || hours === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0)] as const;
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  return { date, allDay: false };
+}
+
+/**
+ * Durée iCalendar (ex. PT1H30M, -P1D) en minutes signées
+ */
+export function parseDurationMinutes(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks ?? 0) * 10080 + Number(days ?? 0) * 1440 + Number(hours ?? 0) * 60
+    + Number(minutes ?? 0) + Math.floor(Number(seconds ?? 0) / 60);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Extrait les VEVENT d'un fichier .ics ; les événements sans date de début sont ignorés
+ */
+export function parseICalendar(content: string): ParsedICalEvent[] {
+  const events: ParsedICalEvent[] = [];
+  const stack: string[] = [];
+  let current: Partial<ParsedICalEvent> & { duration?: number } = {};
+
+  for (const line of unfold(content)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const { name, params, value } = parsed;
+
+    if (name === 'BEGIN') {
+      stack.push(value.toUpperCase());
+      if (value.toUpperCase() === 'VEVENT') current = {};
+      continue;
+    }
+    if (name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && current.start) {
+        const end = current.end
+          ?? (current.duration !== undefined ? new Date(current.start.getTime() + current.duration * 60000) : undefined);
+        events.push({
+          summary: current.summary ?? '',
+          start: current.start,
+          allDay: current.allDay ?? false,
+          ...(end ? { end } : {}),
+          ...(current.uid ? { uid: current.uid } : {}),
+          ...(current.description ? { description: current.description } : {}),
+          ...(current.location ? { location: current.location } : {}),
+          ...(current.status ? { status: current.status } : {}),
+          ...(current.reminderMinutes !== undefined ? { reminderMinutes: current.reminderMinutes } : {}),
+        });
+      }
+      continue;
+    }
+
+    const component = stack[stack.length - 1];
+    if (component === 'VALARM' && stack[stack.length - 2] === 'VEVENT') {
+      if (name === 'TRIGGER' && current.reminderMinutes === undefined && params['VALUE'] !== 'DATE-TIME') {
+        const minutes = parseDurationMinutes(value);
+        if (minutes !== null && minutes <= 0) current.reminderMinutes = -minutes;
+      }
+      continue;
+    }
+    if (component !== 'VEVENT') continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(value);
+        break;
+      case 'STATUS':
+        current.status = value.toUpperCase();
+        break;
+      case 'DTSTART': {
+        const start = parseDateValue(value, params);
+        if (start) {
+          current.start = start.date;
+          current.allDay = start.allDay;
+        }
+        break;
+      }
+      case 'DTEND': {
+        const end = parseDateValue(value, params);
+        if (end) current.end = end.date;
+        break;
+      }
+      case 'DURATION': {
+        const minutes = parseDurationMinutes(value);
+        if (minutes !== null) current.duration = minutes;
+        break;
+      }
+    }
+  }
+
+  return events;
+}
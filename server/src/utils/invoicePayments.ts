@@ -0,0 +1,127 @@
+import {
+  AgingBucket,
+  AgingInvoice,
+  AgingReport,
+  InvoiceStatus,
+  PaymentStatus
+} from '@/types/billing';
+
+/**
+ * Règlement des factures et ancienneté des créances
+ *
+ * Le reste dû d'une facture se déduit de son historique : montant TTC moins
+ * les encaissements et les avoirs. L'ancienneté se compte en jours depuis
+ * l'échéance ; une facture non encore échue reste dans la première tranche.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS: Array<{ bucket: AgingBucket; minDays: number; maxDays?: number; label: string }> = [
+  { bucket: AgingBucket.DAYS_0_30, minDays: 0, maxDays: 30, label: '0-30 jours' },
+  { bucket: AgingBucket.DAYS_31_60, minDays: 31, maxDays: 60, label: '31-60 jours' },
+  { bucket: AgingBucket.DAYS_61_90, minDays: 61, maxDays: 90, label: '61-90 jours' },
+  { bucket: AgingBucket.DAYS_90_PLUS, minDays: 91, label: '90+ jours' }
+];
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Jours calendaires écoulés depuis l'échéance, 0 avant l'échéance
+ */
+export function daysOverdue(dueDate: Date, asOf: Date): number {
+  const due = Date.UTC(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+  const day = Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return Math.max(0, Math.round((day - due) / DAY_MS));
+}
+
+export function agingBucketFor(days: number): AgingBucket {
+  const match = AGING_BUCKETS.find(b => days >= b.minDays && (b.maxDays === undefined || days <= b.maxDays));
+  return (match ?? AGING_BUCKETS[AGING_BUCKETS.length - 1]!).bucket;
+}
+
+/**
+ * Rang de la tranche, pour savoir si une facture est passée à une tranche plus ancienne
+ */
+export function agingBucketRank(bucket: AgingBucket): number {
+  return AGING_BUCKETS.findIndex(b => b.bucket === bucket);
+}
+
+export interface InvoiceSettlement {
+  paidAmount: number;
+  creditedAmount: number;
+  remainingAmount: number;
+  paymentStatus: PaymentStatus;
+  status: InvoiceStatus;
+}
+
+/**
+ * État de règlement d'une facture d'après ses encaissements et avoirs.
+ * Une facture entièrement annulée par avoir, sans encaissement, passe à l'état annulé.
+ */
+export function settleInvoice(
+  invoice: { totalAmount: number; status: InvoiceStatus; dueDate: Date },
+  paidAmount: number,
+  creditedAmount: number,
+  today: Date = new Date()
+): InvoiceSettlement {
+  const remainingCents = Math.max(0, toCents(invoice.totalAmount) - toCents(paidAmount) - toCents(creditedAmount));
+  const settlement = {
+    paidAmount: toCents(paidAmount) / 100,
+    creditedAmount: toCents(creditedAmount) / 100,
+    remainingAmount: remainingCents / 100
+  };
+
+  if (remainingCents === 0) {
+    return paidAmount > 0
+      ? { ...settlement, paymentStatus: PaymentStatus.PAID, status: InvoiceStatus.PAID }
+      : { ...settlement, paymentStatus: PaymentStatus.UNPAID, status: InvoiceStatus.CANCELLED };
+  }
+
+  const paymentStatus = paidAmount > 0
+    ? PaymentStatus.PARTIAL
+    : daysOverdue(invoice.dueDate, today) > 0 ? PaymentStatus.OVERDUE : PaymentStatus.UNPAID;
+  return { ...settlement, paymentStatus, status: invoice.status };
+}
+
+export type AgingInvoiceInput = Omit<AgingInvoice, 'outstanding' | 'daysOverdue' | 'bucket'> & {
+  /** Encaissés et crédités à la date du rapport */
+  paidAmount: number;
+  creditedAmount: number;
+};
+
+/**
+ * Répartition du reste dû par tranche d'ancienneté à la date `asOf`
+ */
+export function buildAgingReport(invoices: AgingInvoiceInput[], asOf: Date): AgingReport {
+  const outstanding: AgingInvoice[] = [];
+  for (const { paidAmount, creditedAmount, ...invoice } of invoices) {
+    const cents = toCents(invoice.totalAmount) - toCents(paidAmount) - toCents(creditedAmount);
+    if (cents <= 0) continue;
+    const days = daysOverdue(invoice.dueDate, asOf);
+    outstanding.push({ ...invoice, outstanding: cents / 100, daysOverdue: days, bucket: agingBucketFor(days) });
+  }
+  outstanding.sort((a, b) => b.daysOverdue - a.daysOverdue || a.invoiceNumber.localeCompare(b.invoiceNumber));
+
+  const totalCents = outstanding.reduce((sum, invoice) => sum + toCents(invoice.outstanding), 0);
+  const buckets = AGING_BUCKETS.map(({ bucket }) => {
+    const inBucket = outstanding.filter(invoice => invoice.bucket === bucket);
+    const cents = inBucket.reduce((sum, invoice) => sum + toCents(invoice.outstanding), 0);
+    return {
+      bucket,
+      count: inBucket.length,
+      amount: cents / 100,
+      percentage: totalCents > 0 ? Math.round((cents / totalCents) * 1000) / 10 : 0
+    };
+  });
+
+  return { asOf, buckets, totalOutstanding: totalCents / 100, invoices: outstanding };
+}
+
+/**
+ * Numéro d'avoir : AV-AAAA-NNNN, séquence continue par année d'émission
+ */
+export function formatCreditNoteNumber(year: number, sequence: number): string {
+  return `AV-${year}-${String(sequence).padStart(4, '0')}`;
+}
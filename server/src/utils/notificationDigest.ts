@@ -0,0 +1,268 @@
+import {
+  Notification,
+  NotificationDeliverySettings,
+  NotificationPriority,
+  NotificationType
+} from '@/types/notification';
+import { CivilDate, addDays, civilDateIn, zonedTimeToUtc } from '@/utils/reportSchedule';
+
+/**
+ * Regroupement des notifications et heures de silence
+ *
+ * Les heures sont exprimées dans le fuseau de l'utilisateur (Africa/Algiers
+ * par défaut). Le week-end algérien (vendredi et samedi) peut être entièrement
+ * silencieux ; les plages de silence peuvent chevaucher minuit (ex. 20:00–08:00).
+ * Les notifications critiques ignorent le regroupement et le silence.
+ */
+
+export const DEFAULT_DELIVERY_SETTINGS: Omit<NotificationDeliverySettings, 'userId'> = {
+  // Sans réglage enregistré : envoi immédiat, comme avant l'introduction des récapitulatifs
+  digestMode: 'immediate',
+  digestTime: '08:00',
+  timezone: 'Africa/Algiers',
+  quietOnWeekend: false
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const FRIDAY = 5;
+const SATURDAY = 6;
+/** Au plus : deux jours de week-end, puis une plage de silence */
+const MAX_QUIET_STEPS = 8;
+
+/**
+ * Heure HH:MM (ou HH:MM:SS, format TIME de PostgreSQL) en minutes depuis minuit
+ */
+export function parseClockTime(value: string | null | undefined): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/.exec(value ?? '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function localClock(instant: Date, timezone: string): { date: CivilDate; minutes: number; weekday: number } {
+  const date = civilDateIn(instant, timezone);
+  const midnight = zonedTimeToUtc(date, 0, 0, timezone);
+  return {
+    date,
+    minutes: Math.floor((instant.getTime() - midnight.getTime()) / 60000),
+    weekday: new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay()
+  };
+}
+
+function inWindow(minutes: number, start: number, end: number): boolean {
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function quietWindow(settings: Omit<NotificationDeliverySettings, 'userId'>): { start: number; end: number } | null {
+  const start = parseClockTime(settings.quietHoursStart);
+  const end = parseClockTime(settings.quietHoursEnd);
+  return start !== null && end !== null && start !== end ? { start, end } : null;
+}
+
+export function isQuietTime(settings: Omit<NotificationDeliverySettings, 'userId'>, at: Date): boolean {
+  const { minutes, weekday } = localClock(at, settings.timezone);
+  if (settings.quietOnWeekend && (weekday === FRIDAY || weekday === SATURDAY)) {
+    return true;
+  }
+  const window = quietWindow(settings);
+  return window !== null && inWindow(minutes, window.start, window.end);
+}
+
+/**
+ * Premier instant, à partir de `from`, hors week-end silencieux et hors plage de silence
+ */
+export function nextAllowedTime(settings: Omit<NotificationDeliverySettings, 'userId'>, from: Date): Date {
+  const window = quietWindow(settings);
+  let candidate = from;
+
+  for (let i = 0; i < MAX_QUIET_STEPS; i++) {
+    const { date, minutes, weekday } = localClock(candidate, settings.timezone);
+
+    if (settings.quietOnWeekend && (weekday === FRIDAY || weekday === SATURDAY)) {
+      candidate = zonedTimeToUtc(addDays(date, 1), 0, 0, settings.timezone);
+      continue;
+    }
+
+    if (window && inWindow(minutes, window.start, window.end)) {
+      // Fin de la plage : aujourd'hui si elle est encore à venir, sinon le lendemain
+      const endDate = minutes < window.end ? date : addDays(date, 1);
+      candidate = zonedTimeToUtc(endDate, Math.floor(window.end / 60), window.end % 60, settings.timezone);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return candidate;
+}
+
+/**
+ * Heure d'envoi du prochain récapitulatif contenant une notification reçue à `from`
+ */
+export function nextDigestTime(settings: Omit<NotificationDeliverySettings, 'userId'>, from: Date): Date {
+  const { date, minutes } = localClock(from, settings.timezone);
+  let candidate: Date;
+
+  switch (settings.digestMode) {
+    case 'hourly':
+      candidate = new Date(zonedTimeToUtc(date, Math.floor(minutes / 60), 0, settings.timezone).getTime() + HOUR_MS);
+      break;
+    case 'daily': {
+      const time = parseClockTime(settings.digestTime) ?? parseClockTime(DEFAULT_DELIVERY_SETTINGS.digestTime)!;
+      const sendDate = minutes < time ? date : addDays(date, 1);
+      candidate = zonedTimeToUtc(sendDate, Math.floor(time / 60), time % 60, settings.timezone);
+      break;
+    }
+    default:
+      candidate = from;
+  }
+
+  return nextAllowedTime(settings, candidate);
+}
+
+/**
+ * Notification à envoyer sans délai : priorité urgente, ou rappel d'un délai
+ * ou d'une audience qui tombe au plus tard le lendemain
+ */
+export function isCriticalNotification(
+  notification: Notification,
+  now: Date = new Date(),
+  timezone: string = DEFAULT_DELIVERY_SETTINGS.timezone
+): boolean {
+  if (notification.priority === NotificationPriority.URGENT) {
+    return true;
+  }
+
+  const isReminder = notification.type === NotificationType.DEADLINE_REMINDER
+    || notification.type === NotificationType.HEARING_REMINDER;
+  const deadlineDate = notification.metadata?.deadlineDate;
+  if (!isReminder || !deadlineDate) {
+    return false;
+  }
+
+  // Une date seule (AAAA-MM-JJ) est un jour civil, pas un instant UTC
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(deadlineDate));
+  const deadline: CivilDate | null = dateOnly
+    ? { year: Number(dateOnly[1]), month: Number(dateOnly[2]) - 1, day: Number(dateOnly[3]) }
+    : Number.isNaN(new Date(deadlineDate).getTime()) ? null : civilDateIn(new Date(deadlineDate), timezone);
+  if (!deadline) {
+    return false;
+  }
+
+  const today = civilDateIn(now, timezone);
+  const daysLeft = (Date.UTC(deadline.year, deadline.month, deadline.day) - Date.UTC(today.year, today.month, today.day)) / DAY_MS;
+  return daysLeft <= 1;
+}
+
+// ─── Récapitulatif bilingue ─────────────────────────────────────────────────
+
+const TYPE_LABELS: Record<NotificationType, { fr: string; ar: string }> = {
+  [NotificationType.DEADLINE_REMINDER]: { fr: 'Délais', ar: 'الآجال' },
+  [NotificationType.HEARING_REMINDER]: { fr: 'Audiences', ar: 'الجلسات' },
+  [NotificationType.CASE_UPDATE]: { fr: 'Dossiers', ar: 'الملفات' },
+  [NotificationType.DOCUMENT_SHARED]: { fr: 'Documents partagés', ar: 'الوثائق المشتركة' },
+  [NotificationType.PAYMENT_DUE]: { fr: 'Paiements', ar: 'المدفوعات' },
+  [NotificationType.TASK_ASSIGNED]: { fr: 'Tâches', ar: 'المهام' },
+  [NotificationType.SYSTEM_ALERT]: { fr: 'Alertes système', ar: 'تنبيهات النظام' },
+  [NotificationType.REPORT_DELIVERY]: { fr: 'Rapports', ar: 'التقارير' },
+  [NotificationType.CUSTOM]: { fr: 'Autres', ar: 'أخرى' }
+};
+
+const PRIORITY_ORDER: Record<NotificationPriority, number> = {
+  [NotificationPriority.URGENT]: 0,
+  [NotificationPriority.HIGH]: 1,
+  [NotificationPriority.NORMAL]: 2,
+  [NotificationPriority.LOW]: 3
+};
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface DigestSection {
+  fr: string;
+  ar: string;
+  items: Array<{ fr: string; ar: string }>;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function itemLine(subject: string | undefined, message: string): string {
+  const body = message.replace(/\s+/g, ' ').trim();
+  return subject && subject.trim() && !body.startsWith(subject.trim()) ? `${subject.trim()} — ${body}` : body;
+}
+
+function buildSections(items: Notification[]): DigestSection[] {
+  const sorted = [...items].sort((a, b) =>
+    PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.scheduledAt.getTime() - b.scheduledAt.getTime()
+  );
+
+  const sections = new Map<NotificationType, DigestSection>();
+  for (const item of sorted) {
+    const labels = TYPE_LABELS[item.type] ?? TYPE_LABELS[NotificationType.CUSTOM];
+    const section = sections.get(item.type) ?? { ...labels, items: [] };
+    const fr = itemLine(item.subject, item.message);
+    // Texte arabe fourni par l'émetteur, sinon le texte d'origine
+    const ar = item.metadata?.messageAr ? itemLine(item.metadata.subjectAr, item.metadata.messageAr) : fr;
+    section.items.push({ fr, ar });
+    sections.set(item.type, section);
+  }
+
+  return [...sections.values()];
+}
+
+/**
+ * Récapitulatif en français puis en arabe, regroupé par type de notification
+ */
+export function renderDigest(items: Notification[], settings: Omit<NotificationDeliverySettings, 'userId'>, at: Date): RenderedDigest {
+  const count = items.length;
+  const sections = buildSections(items);
+  const dateFr = at.toLocaleDateString('fr-DZ', { timeZone: settings.timezone, dateStyle: 'full' });
+  const dateAr = at.toLocaleDateString('ar-DZ', { timeZone: settings.timezone, dateStyle: 'full' });
+
+  const heading = {
+    fr: `Récapitulatif de vos notifications — ${dateFr}`,
+    ar: `ملخص إشعاراتكم — ${dateAr}`
+  };
+  const summary = {
+    fr: `${count} notification${count > 1 ? 's' : ''} depuis le dernier envoi`,
+    ar: `عدد الإشعارات منذ آخر إرسال: ${count}`
+  };
+
+  const textPart = (language: 'fr' | 'ar') => [
+    heading[language],
+    summary[language],
+    '',
+    ...sections.flatMap(section => [
+      `${section[language]} (${section.items.length})`,
+      ...section.items.map(item => `  • ${item[language]}`),
+      ''
+    ])
+  ].join('\n');
+
+  const htmlPart = (language: 'fr' | 'ar') => [
+    `<div lang="${language}" dir="${language === 'ar' ? 'rtl' : 'ltr'}">`,
+    `<h2>${escapeHtml(heading[language])}</h2>`,
+    `<p>${escapeHtml(summary[language])}</p>`,
+    ...sections.map(section => [
+      `<h3>${escapeHtml(section[language])} (${section.items.length})</h3>`,
+      '<ul>',
+      ...section.items.map(item => `<li>${escapeHtml(item[language])}</li>`),
+      '</ul>'
+    ].join('')),
+    '</div>'
+  ].join('\n');
+
+  return {
+    subject: `JuristDZ — Récapitulatif : ${count} notification${count > 1 ? 's' : ''} | ملخص الإشعارات`,
+    text: `${textPart('fr')}\n${'─'.repeat(40)}\n\n${textPart('ar')}`,
+    html: `${htmlPart('fr')}\n<hr>\n${htmlPart('ar')}`
+  };
+}
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { TextDirection, detectDirection, hasArabic, visualWordOrder, wrapWords } from '@/utils/bidi';
+
+/**
+ * Écriture de texte bidirectionnel dans un document pdfkit
+ *
+ * Partagé par les rendus de rapports et de documents juridiques : police
+ * TrueType couvrant l'arabe (les polices standard PDF n'en ont pas) et
+ * placement des mots dans l'ordre visuel calculé par utils/bidi.
+ */
+
+const FONT_PATH = process.env.REPORT_FONT_PATH
+  || path.join(process.cwd(), 'node_modules/dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const BOLD_FONT_PATH = process.env.REPORT_BOLD_FONT_PATH
+  || path.join(process.cwd(), 'node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+export const PDF_LINE_HEIGHT = 1.35;
+
+export interface PdfTextOptions {
+  x: number;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  size?: number;
+  color?: string;
+  direction?: TextDirection;
+}
+
+/**
+ * Enregistre les polices « regular » et « bold » utilisées par writePdfText
+ */
+export function registerPdfFonts(doc: PDFKit.PDFDocument): void {
+  doc.registerFont('regular', FONT_PATH);
+  doc.registerFont('bold', BOLD_FONT_PATH);
+}
+
+/**
+ * Collecte le flux du document ; à appeler avant doc.end()
+ */
+export function collectPdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  return new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+/**
+ * Écrit un paragraphe mot à mot dans l'ordre visuel, avec retour à la ligne.
+ * Retourne la hauteur occupée.
+ */
+export function writePdfText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  options: PdfTextOptions,
+  ensureSpace?: (height: number) => void
+): number {
+  const size = options.size ?? 10;
+  doc.font(options.bold ? 'bold' : 'regular').fontSize(size).fillColor(options.color ?? '#000000');
+
+  const direction = options.direction ?? detectDirection(text, hasArabic(text) ? 'rtl' : 'ltr');
+  const lineHeight = size * PDF_LINE_HEIGHT;
+  const spaceWidth = doc.widthOfString(' ');
+  const lines = wrapWords(text, options.width, value => doc.widthOfString(value));
+  const startY = doc.y;
+
+  for (const line of lines) {
+    ensureSpace?.(lineHeight);
+    const words = visualWordOrder(line, direction);
+    const lineWidth = words.reduce((sum, word) => sum + doc.widthOfString(word), 0) + spaceWidth * Math.max(0, words.length - 1);
+    const align = options.align ?? (direction === 'rtl' ? 'right' : 'left');
+    let x = options.x;
+    if (align === 'right') x = options.x + options.width - lineWidth;
+    if (align === 'center') x = options.x + (options.width - lineWidth) / 2;
+
+    const y = doc.y;
+    for (const word of words) {
+      doc.text(word, x, y, { lineBreak: false });
+      x += doc.widthOfString(word) + spaceWidth;
+    }
+    doc.y = y + lineHeight;
+  }
+
+  doc.x = options.x;
+  return doc.y - startY;
+}
+
+/**
+ * Hauteur qu'occuperait un paragraphe écrit avec writePdfText
+ */
+export function measurePdfText(doc: PDFKit.PDFDocument, text: string, width: number, size: number, bold = false): number {
+  doc.font(bold ? 'bold' : 'regular').fontSize(size);
+  return wrapWords(text, width, value => doc.widthOfString(value)).length * size * PDF_LINE_HEIGHT;
+}
+
+/**
+ * Filigrane diagonal sur la page courante
+ */
+export function drawPdfWatermark(doc: PDFKit.PDFDocument, watermark: string): void {
+  doc.save();
+  doc.rotate(-45, { origin: [doc.page.width / 2, doc.page.height / 2] });
+  doc.font('bold').fontSize(60).fillColor('#999999').fillOpacity(0.15);
+  const markWidth = doc.widthOfString(watermark);
+  doc.text(watermark, (doc.page.width - markWidth) / 2, doc.page.height / 2 - 30, { lineBreak: false });
+  doc.restore();
+}
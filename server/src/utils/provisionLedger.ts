@@ -0,0 +1,85 @@
+import {
+  LedgerAccount,
+  LedgerEntry,
+  ProvisionStatementLine,
+  ProvisionTransaction,
+  ProvisionTransactionType
+} from '@/types/billing';
+
+/**
+ * Écritures en partie double du compte de provisions
+ *
+ * Chaque opération est passée en écritures équilibrées entre le compte
+ * bancaire de dépôt des fonds clients, la dette du cabinet envers le client
+ * et, pour une imputation sur facture, le compte d'exploitation et les
+ * créances clients. Le solde de provision d'un client est celui de sa dette :
+ * crédits moins débits du compte client_provision.
+ */
+
+function entry(account: LedgerAccount, debit: number, credit: number): LedgerEntry {
+  return { account, debit, credit };
+}
+
+/**
+ * Écritures d'une opération ; leur total au débit égale leur total au crédit
+ */
+export function ledgerEntriesFor(type: ProvisionTransactionType, amount: number): LedgerEntry[] {
+  switch (type) {
+    case ProvisionTransactionType.DEPOSIT:
+      return [
+        entry(LedgerAccount.TRUST_BANK, amount, 0),
+        entry(LedgerAccount.CLIENT_PROVISION, 0, amount)
+      ];
+
+    case ProvisionTransactionType.DRAWDOWN:
+      // La facture est réglée par la provision, et les fonds passent au compte du cabinet
+      return [
+        entry(LedgerAccount.CLIENT_PROVISION, amount, 0),
+        entry(LedgerAccount.ACCOUNTS_RECEIVABLE, 0, amount),
+        entry(LedgerAccount.OPERATING_BANK, amount, 0),
+        entry(LedgerAccount.TRUST_BANK, 0, amount)
+      ];
+
+    case ProvisionTransactionType.REFUND:
+      return [
+        entry(LedgerAccount.CLIENT_PROVISION, amount, 0),
+        entry(LedgerAccount.TRUST_BANK, 0, amount)
+      ];
+
+    default:
+      throw new Error(`Unsupported provision transaction: ${type}`);
+  }
+}
+
+export function isBalanced(entries: LedgerEntry[]): boolean {
+  const debits = entries.reduce((sum, e) => sum + Math.round(e.debit * 100), 0);
+  const credits = entries.reduce((sum, e) => sum + Math.round(e.credit * 100), 0);
+  return debits === credits;
+}
+
+/**
+ * Effet d'une opération sur le solde de provision du client
+ */
+export function provisionEffect(type: ProvisionTransactionType, amount: number): number {
+  return ledgerEntriesFor(type, amount)
+    .filter(e => e.account === LedgerAccount.CLIENT_PROVISION)
+    .reduce((sum, e) => sum + e.credit - e.debit, 0);
+}
+
+/**
+ * Lignes de relevé avec solde progressif, dans l'ordre des opérations
+ */
+export function statementLines(transactions: ProvisionTransaction[], openingBalance: number): ProvisionStatementLine[] {
+  let balanceCents = Math.round(openingBalance * 100);
+
+  return transactions.map(transaction => {
+    const effectCents = Math.round(provisionEffect(transaction.transactionType, transaction.amount) * 100);
+    balanceCents += effectCents;
+    return {
+      transaction,
+      credit: effectCents > 0 ? effectCents / 100 : 0,
+      debit: effectCents < 0 ? -effectCents / 100 : 0,
+      balance: balanceCents / 100
+    };
+  });
+}
@@ -0,0 +1,171 @@
+import { ReportSchedule, ScheduleFrequency } from '@/types/report';
+
+/**
+ * Calcul des échéances des rapports planifiés
+ *
+ * Les heures de planification sont exprimées dans le fuseau du planning
+ * (Africa/Algiers par défaut) ; les dates retournées sont des instants UTC.
+ *
+ *  - quotidien : chaque jour à l'heure prévue
+ *  - hebdomadaire : le jour de la semaine prévu (lundi par défaut)
+ *  - mensuel : le jour du mois prévu (1er par défaut, ramené au dernier jour des mois courts)
+ *  - trimestriel : le dernier jour du trimestre
+ *  - annuel : le 31 décembre
+ */
+
+export interface CivilDate {
+  year: number;
+  month: number; // 0-11
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Une année et demie : largement suffisant pour trouver la prochaine occurrence */
+const MAX_SEARCH_DAYS = 550;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Décalage (en minutes) du fuseau par rapport à UTC à un instant donné
+ */
+function timezoneOffsetMinutes(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant UTC correspondant à une heure locale dans le fuseau
+ */
+export function zonedTimeToUtc(date: CivilDate, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(date.year, date.month, date.day, hour, minute);
+  let instant = guess - timezoneOffsetMinutes(guess, timezone) * 60000;
+  // Second passage pour les changements d'heure
+  instant = guess - timezoneOffsetMinutes(instant, timezone) * 60000;
+  return new Date(instant);
+}
+
+export function civilDateIn(instant: Date, timezone: string): CivilDate {
+  const local = new Date(instant.getTime() + timezoneOffsetMinutes(instant.getTime(), timezone) * 60000);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+}
+
+export function addDays(date: CivilDate, days: number): CivilDate {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function isScheduledDay(schedule: ReportSchedule, date: CivilDate): boolean {
+  const lastDay = daysInMonth(date.year, date.month);
+
+  switch (schedule.frequency) {
+    case ScheduleFrequency.DAILY:
+      return true;
+    case ScheduleFrequency.WEEKLY:
+      return new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay() === (schedule.dayOfWeek ?? 1);
+    case ScheduleFrequency.MONTHLY:
+      return date.day === Math.min(schedule.dayOfMonth ?? 1, lastDay);
+    case ScheduleFrequency.QUARTERLY:
+      return date.month % 3 === 2 && date.day === lastDay;
+    case ScheduleFrequency.YEARLY:
+      return date.month === 11 && date.day === 31;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Première occurrence strictement postérieure à `after`
+ */
+export function nextOccurrence(schedule: ReportSchedule, after: Date): Date {
+  let date = civilDateIn(after, schedule.timezone);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, date = addDays(date, 1)) {
+    if (!isScheduledDay(schedule, date)) continue;
+    const candidate = zonedTimeToUtc(date, schedule.hour, schedule.minute, schedule.timezone);
+    if (candidate.getTime() > after.getTime()) return candidate;
+  }
+
+  throw new Error(`No occurrence found for schedule frequency ${schedule.frequency}`);
+}
+
+/**
+ * Génération suivante après une exécution : on avance de `interval` occurrences
+ * (ex. toutes les deux semaines)
+ */
+export function advanceSchedule(schedule: ReportSchedule, current: Date): Date {
+  let next = nextOccurrence(schedule, current);
+  for (let i = 1; i < Math.max(1, schedule.interval); i++) {
+    next = nextOccurrence(schedule, next);
+  }
+  return next;
+}
+
+/**
+ * Période couverte par le rapport généré à `runAt` :
+ * les jours, semaines ou mois écoulés avant l'exécution ; pour les rapports
+ * de fin de trimestre ou d'année, le trimestre ou l'année qui se termine.
+ */
+export function reportingPeriod(schedule: ReportSchedule, runAt: Date): { from: Date; to: Date } {
+  const interval = Math.max(1, schedule.interval);
+  const runDate = civilDateIn(runAt, schedule.timezone);
+  let from: CivilDate;
+  let to: CivilDate; // dernier jour inclus
+
+  switch (schedule.frequency) {
+    case ScheduleFrequency.DAILY:
+      from = addDays(runDate, -interval);
+      to = addDays(runDate, -1);
+      break;
+    case ScheduleFrequency.WEEKLY:
+      from = addDays(runDate, -7 * interval);
+      to = addDays(runDate, -1);
+      break;
+    case ScheduleFrequency.MONTHLY: {
+      const start = new Date(Date.UTC(runDate.year, runDate.month - interval, 1));
+      from = { year: start.getUTCFullYear(), month: start.getUTCMonth(), day: 1 };
+      to = addDays({ year: runDate.year, month: runDate.month, day: 1 }, -1);
+      break;
+    }
+    case ScheduleFrequency.QUARTERLY: {
+      const quarterStartMonth = runDate.month - (runDate.month % 3);
+      const start = new Date(Date.UTC(runDate.year, quarterStartMonth - 3 * (interval - 1), 1));
+      from = { year: start.getUTCFullYear(), month: start.getUTCMonth(), day: 1 };
+      to = { year: runDate.year, month: quarterStartMonth + 2, day: daysInMonth(runDate.year, quarterStartMonth + 2) };
+      break;
+    }
+    case ScheduleFrequency.YEARLY:
+      from = { year: runDate.year - interval + 1, month: 0, day: 1 };
+      to = { year: runDate.year, month: 11, day: 31 };
+      break;
+    default:
+      throw new Error(`Unsupported schedule frequency: ${schedule.frequency}`);
+  }
+
+  return {
+    from: zonedTimeToUtc(from, 0, 0, schedule.timezone),
+    to: new Date(zonedTimeToUtc(addDays(to, 1), 0, 0, schedule.timezone).getTime() - 1)
+  };
+}
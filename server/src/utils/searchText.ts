@@ -0,0 +1,60 @@
+/**
+ * Normalisation du texte pour la recherche plein texte
+ *
+ * Le texte indexé et les requêtes passent par la même normalisation : formes
+ * de présentation arabes ramenées aux lettres de base, tashkeel et tatweel
+ * supprimés, variantes d'alif, de hamza, de ya et de ta marbuta unifiées.
+ * La racinisation française est laissée à la configuration « french » de
+ * PostgreSQL.
+ */
+
+/** Délimiteurs des termes trouvés dans les extraits renvoyés par ts_headline (zone à usage privé) */
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_STOP = '\uE001';
+
+const TASHKEEL = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+const ALEF_VARIANTS = /[\u0622\u0623\u0625\u0671]/g;
+const PRIVATE_USE = /[\uE000-\uF8FF]/g;
+
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(TASHKEEL, '')
+    .replace(ALEF_VARIANTS, '\u0627')
+    .replace(/\u0624/g, '\u0648')
+    .replace(/[\u0626\u0649]/g, '\u064A')
+    .replace(/\u0629/g, '\u0647');
+}
+
+/**
+ * Texte prêt à indexer ou à rechercher ; les sauts de ligne sont conservés pour les extraits
+ */
+export function normalizeSearchText(text: string): string {
+  return normalizeArabic(text.normalize('NFKC'))
+    .replace(PRIVATE_USE, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Options de ts_headline : deux fragments d'une vingtaine de mots au plus
+ */
+export const HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+
+/**
+ * Extrait HTML sûr : le texte est échappé puis les termes trouvés entourés de <mark>
+ */
+export function formatHighlight(headline: string): string {
+  return headline
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
+}
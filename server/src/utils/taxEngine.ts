@@ -0,0 +1,128 @@
+import {
+  AppliedTax,
+  LegalProfession,
+  TaxBreakdown,
+  TaxConfiguration,
+  TaxType
+} from '@/types/billing';
+
+/**
+ * Moteur fiscal des factures
+ *
+ * Chaque règle de `tax_configurations` est une version datée : elle s'applique
+ * du `applicableFrom` inclus au `applicableTo` exclu. Pour une profession et une
+ * date, la version retenue par type de taxe est celle entrée en vigueur le plus
+ * récemment. La TVA et les taxes proportionnelles portent sur le hors taxes, le
+ * droit de timbre sur le montant toutes taxes comprises. La retenue à la source
+ * ne s'ajoute pas au total : elle est déduite par le client et reversée au Trésor.
+ */
+
+const TAX_ORDER: TaxType[] = [
+  TaxType.VAT,
+  TaxType.PROFESSIONAL_TAX,
+  TaxType.REGISTRATION_TAX,
+  TaxType.WITHHOLDING_TAX,
+  TaxType.STAMP_DUTY
+];
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function dayKey(date: Date): number {
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * Vrai si la version est applicable à cette date
+ */
+export function isRuleInEffect(rule: TaxConfiguration, date: Date): boolean {
+  const day = dayKey(date);
+  return rule.isActive
+    && dayKey(rule.applicableFrom) <= day
+    && (!rule.applicableTo || day < dayKey(rule.applicableTo));
+}
+
+/**
+ * Versions applicables à une profession à une date, une par type de taxe
+ */
+export function resolveTaxRules(rules: TaxConfiguration[], profession: LegalProfession, date: Date): TaxConfiguration[] {
+  const byType = new Map<TaxType, TaxConfiguration>();
+
+  for (const rule of rules) {
+    if (rule.profession !== profession || !isRuleInEffect(rule, date)) continue;
+    const current = byType.get(rule.taxType);
+    if (!current || rule.applicableFrom.getTime() > current.applicableFrom.getTime()) {
+      byType.set(rule.taxType, rule);
+    }
+  }
+
+  return TAX_ORDER.flatMap(taxType => byType.get(taxType) ?? []);
+}
+
+/**
+ * Montant dû pour une règle : taux borné par le minimum et le maximum, ou
+ * montant fixe ; rien sous le seuil d'exonération
+ */
+export function computeTax(rule: TaxConfiguration, baseAmount: number): number {
+  if (baseAmount <= 0) return 0;
+  if (rule.exemptionThreshold !== undefined && baseAmount <= rule.exemptionThreshold) return 0;
+  if (!rule.isPercentage) return rule.rate;
+
+  let amount = baseAmount * rule.rate;
+  if (rule.minimumAmount !== undefined) amount = Math.max(amount, rule.minimumAmount);
+  if (rule.maximumAmount !== undefined) amount = Math.min(amount, rule.maximumAmount);
+  return toCents(amount) / 100;
+}
+
+/**
+ * Taxes d'un montant hors taxes avec les versions déjà résolues
+ */
+export function computeTaxes(rules: TaxConfiguration[], taxableAmount: number): TaxBreakdown {
+  const taxes: AppliedTax[] = [];
+  let addedCents = 0;
+  let withholdingCents = 0;
+
+  const ordered = [...rules].sort((a, b) => TAX_ORDER.indexOf(a.taxType) - TAX_ORDER.indexOf(b.taxType));
+  for (const rule of ordered) {
+    const baseAmount = rule.taxType === TaxType.STAMP_DUTY
+      ? (toCents(taxableAmount) + addedCents) / 100
+      : taxableAmount;
+    const amount = computeTax(rule, baseAmount);
+    if (amount === 0) continue;
+
+    taxes.push({
+      taxConfigurationId: rule.id,
+      taxType: rule.taxType,
+      rate: rule.rate,
+      isPercentage: rule.isPercentage,
+      baseAmount,
+      amount,
+      legalReference: rule.legalReference
+    });
+
+    if (rule.taxType === TaxType.WITHHOLDING_TAX) {
+      withholdingCents += toCents(amount);
+    } else {
+      addedCents += toCents(amount);
+    }
+  }
+
+  const vat = taxes.find(tax => tax.taxType === TaxType.VAT);
+  return {
+    taxes,
+    taxRate: vat ? vat.rate : 0,
+    taxAmount: addedCents / 100,
+    withholdingAmount: withholdingCents / 100
+  };
+}
+
+/**
+ * Règles proportionnelles au hors taxes, à rattacher à chaque ligne taxable ;
+ * le timbre et les montants fixes portent sur la facture entière
+ */
+export function lineTaxConfigurationIds(taxes: AppliedTax[]): string[] {
+  return taxes
+    .filter(tax => tax.isPercentage && tax.taxType !== TaxType.STAMP_DUTY)
+    .map(tax => tax.taxConfigurationId);
+}
@@ -0,0 +1,106 @@
+/**
+ * Regroupement des temps facturables en lignes de facture
+ *
+ * Les temps d'un dossier sont regroupés par activité et par taux horaire :
+ * une ligne « Rédaction — 3,50 h à 8 000 DA » par couple. Un temps sans taux
+ * prend celui du dossier. Les montants sont arrondis au centime, ligne par
+ * ligne, pour que la facture se recalcule à l'identique.
+ */
+
+export type TimeActivityType =
+  | 'research'
+  | 'drafting'
+  | 'review'
+  | 'meeting'
+  | 'call'
+  | 'hearing'
+  | 'travel'
+  | 'correspondence'
+  | 'filing'
+  | 'negotiation'
+  | 'other';
+
+export const ACTIVITY_LABELS: Record<TimeActivityType, string> = {
+  research: 'Recherches juridiques',
+  drafting: 'Rédaction',
+  review: 'Étude du dossier',
+  meeting: 'Rendez-vous',
+  call: 'Entretiens téléphoniques',
+  hearing: 'Audiences',
+  travel: 'Déplacements',
+  correspondence: 'Correspondances',
+  filing: 'Dépôts et formalités',
+  negotiation: 'Négociations',
+  other: 'Autres diligences'
+};
+
+const ACTIVITY_ORDER = Object.keys(ACTIVITY_LABELS) as TimeActivityType[];
+
+export interface BillableTimeEntry {
+  id: string;
+  activityType: TimeActivityType;
+  durationMinutes: number;
+  /** Taux de l'entrée ; à défaut, celui du dossier */
+  hourlyRate: number | null;
+}
+
+export interface TimeLineGroup {
+  activityType: TimeActivityType;
+  description: string;
+  hours: number;
+  hourlyRate: number;
+  amount: number;
+  entryIds: string[];
+}
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatNumber(value: number, fractionDigits: number): string {
+  return value.toLocaleString('fr-DZ', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+}
+
+/**
+ * Lignes de temps, dans l'ordre des activités ; les temps sans taux ni taux
+ * de dossier sont renvoyés à part pour que l'utilisateur les complète
+ */
+export function groupTimeEntries(
+  entries: BillableTimeEntry[],
+  defaultHourlyRate: number | null
+): { lines: TimeLineGroup[]; unpriced: BillableTimeEntry[] } {
+  const groups = new Map<string, { activityType: TimeActivityType; hourlyRate: number; minutes: number; entryIds: string[] }>();
+  const unpriced: BillableTimeEntry[] = [];
+
+  for (const entry of entries) {
+    const hourlyRate = entry.hourlyRate ?? defaultHourlyRate;
+    if (hourlyRate === null || hourlyRate <= 0 || entry.durationMinutes <= 0) {
+      unpriced.push(entry);
+      continue;
+    }
+
+    const key = `${entry.activityType}|${hourlyRate}`;
+    const group = groups.get(key) ?? { activityType: entry.activityType, hourlyRate, minutes: 0, entryIds: [] };
+    group.minutes += entry.durationMinutes;
+    group.entryIds.push(entry.id);
+    groups.set(key, group);
+  }
+
+  const lines = [...groups.values()]
+    .sort((a, b) =>
+      ACTIVITY_ORDER.indexOf(a.activityType) - ACTIVITY_ORDER.indexOf(b.activityType) || b.hourlyRate - a.hourlyRate
+    )
+    .map(group => {
+      const hours = roundAmount(group.minutes / 60);
+      return {
+        activityType: group.activityType,
+        description: `${ACTIVITY_LABELS[group.activityType]} — ${formatNumber(hours, 2)} h à ${formatNumber(group.hourlyRate, 0)} DA`,
+        hours,
+        hourlyRate: group.hourlyRate,
+        amount: roundAmount((group.minutes / 60) * group.hourlyRate),
+        entryIds: group.entryIds
+      };
+    });
+
+  return { lines, unpriced };
+}
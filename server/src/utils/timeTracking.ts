@@ -0,0 +1,132 @@
+import {
+  ActivityType,
+  RunningTimer,
+  TimeEntrySuggestion,
+  TimerState
+} from '@/types/case';
+
+/**
+ * Chronomètre des temps passés
+ *
+ * Le temps écoulé est la somme des périodes terminées et de la période en
+ * cours ; une pause clôt la période, une reprise en ouvre une nouvelle. Sans
+ * activité signalée depuis le seuil d'inactivité, le temps écoulé depuis la
+ * dernière activité est en attente : l'avocat le garde ou le retire. Les
+ * audiences et rendez-vous terminés de l'agenda deviennent des temps suggérés.
+ */
+
+export type TimerClock = Pick<
+  RunningTimer,
+  'state' | 'segmentStartedAt' | 'accumulatedSeconds' | 'lastActivityAt' | 'idleThresholdMinutes'
+>;
+
+function secondsBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / 1000));
+}
+
+export function elapsedSeconds(clock: TimerClock, now: Date): number {
+  const current = clock.state === TimerState.RUNNING && clock.segmentStartedAt
+    ? secondsBetween(clock.segmentStartedAt, now)
+    : 0;
+  return clock.accumulatedSeconds + current;
+}
+
+/**
+ * Début de l'inactivité à confirmer, ou null ; une période ouverte après la
+ * dernière activité (reprise) compte comme une activité
+ */
+export function idleSince(clock: TimerClock, now: Date): Date | null {
+  if (clock.state !== TimerState.RUNNING || !clock.segmentStartedAt) return null;
+
+  const lastActivity = clock.lastActivityAt.getTime() > clock.segmentStartedAt.getTime()
+    ? clock.lastActivityAt
+    : clock.segmentStartedAt;
+  return now.getTime() - lastActivity.getTime() >= clock.idleThresholdMinutes * 60 * 1000
+    ? lastActivity
+    : null;
+}
+
+export function pauseClock(clock: TimerClock, now: Date): TimerClock {
+  const { segmentStartedAt, ...paused } = clock;
+  return {
+    ...paused,
+    state: TimerState.PAUSED,
+    accumulatedSeconds: elapsedSeconds(clock, now)
+  };
+}
+
+export function resumeClock(clock: TimerClock, now: Date): TimerClock {
+  return {
+    ...clock,
+    state: TimerState.RUNNING,
+    segmentStartedAt: now,
+    lastActivityAt: now
+  };
+}
+
+/**
+ * Retire l'inactivité : la période en cours s'arrête à la dernière activité et
+ * une nouvelle commence maintenant
+ */
+export function discardIdleTime(clock: TimerClock, now: Date): TimerClock {
+  const since = idleSince(clock, now);
+  if (!since) return clock;
+
+  return {
+    ...clock,
+    accumulatedSeconds: elapsedSeconds(clock, since),
+    segmentStartedAt: now,
+    lastActivityAt: now
+  };
+}
+
+/**
+ * Durée enregistrée, à la minute la plus proche
+ */
+export function durationMinutes(seconds: number): number {
+  return Math.round(seconds / 60);
+}
+
+const SUGGESTED_EVENTS: Record<string, { activityType: ActivityType; label: string }> = {
+  hearing: { activityType: ActivityType.HEARING, label: 'Audience' },
+  meeting: { activityType: ActivityType.MEETING, label: 'Rendez-vous client' },
+  consultation: { activityType: ActivityType.MEETING, label: 'Consultation' }
+};
+
+export const SUGGESTED_EVENT_TYPES = Object.keys(SUGGESTED_EVENTS);
+
+export interface CalendarEventForSuggestion {
+  id: string;
+  caseId?: string;
+  title: string;
+  eventType: string;
+  startTime: Date;
+  endTime: Date;
+  allDay: boolean;
+  location?: string;
+}
+
+/**
+ * Temps suggéré pour un événement terminé de l'agenda ; null pour les
+ * échéances, les journées entières et les événements à venir
+ */
+export function suggestionFromEvent(event: CalendarEventForSuggestion, now: Date): TimeEntrySuggestion | null {
+  const kind = SUGGESTED_EVENTS[event.eventType];
+  if (!kind || event.allDay || event.endTime.getTime() > now.getTime()) return null;
+
+  const minutes = durationMinutes(secondsBetween(event.startTime, event.endTime));
+  if (minutes <= 0) return null;
+
+  return {
+    calendarEventId: event.id,
+    ...(event.caseId ? { caseId: event.caseId } : {}),
+    title: event.title,
+    eventType: event.eventType,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    durationMinutes: minutes,
+    activityType: kind.activityType,
+    description: `${kind.label} — ${event.title}`,
+    ...(event.location ? { location: event.location } : {})
+  };
+}
@@ -1,5 +1,16 @@
 // Service pour communiquer avec l'API JuristDZ Backend
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+// Jeton de session du serveur JuristDZ, conservé après la connexion
+const API_TOKEN_KEY = 'juristdz_api_token';
+
+export function getApiToken(): string | null {
+  try {
+    return localStorage.getItem(API_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -141,10 +152,18 @@ class ApiService {
 
   // Authentification
   async login(email: string): Promise<LoginResponse> {
-    return this.request<LoginResponse>('/api/auth/simple-login', {
+    const response = await this.request<LoginResponse>('/api/auth/simple-login', {
       method: 'POST',
       body: JSON.stringify({ email }),
     });
+    if (response.success && response.token) {
+      localStorage.setItem(API_TOKEN_KEY, response.token);
+    }
+    return response;
+  }
+
+  logout() {
+    localStorage.removeItem(API_TOKEN_KEY);
   }
 
   // Codes juridiques algériens
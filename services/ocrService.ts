@@ -1,18 +1,30 @@
 /**
  * OCR Service — extraction de texte depuis images/PDF scannés
- * Utilise OCR.space API (gratuit jusqu'à 25k pages/mois, support arabe)
- * https://ocr.space/ocrapi
- *
- * Clé API gratuite : https://ocr.space/ocrapi/freekey
- * Variable d'environnement : VITE_OCR_SPACE_API_KEY
+ * L'OCR (arabe + français) s'exécute sur le serveur JuristDZ avec un moteur
+ * local : aucun document ne part vers un service tiers.
+ * POST /api/ocr/jobs puis suivi de GET /api/ocr/jobs/:id jusqu'à la fin.
  */
+import { API_BASE_URL, getApiToken } from './apiService';
+
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;       // 0-100
+  language: 'fr' | 'ar' | 'mixed';
+  wordCount: number;
+}
 
 export interface OcrResult {
   text: string;
   language: 'fr' | 'ar' | 'mixed';
-  confidence: number;       // 0-100
+  confidence: number;       // 0-100, pondérée par le nombre de mots de chaque page
   pages: number;
-  rawResponse?: any;
+  pageResults?: OcrPageResult[];
+}
+
+export interface OcrProgress {
+  processedPages: number;
+  pageCount?: number;
 }
 
 export interface ExtractedJurisprudenceFields {
@@ -147,77 +159,69 @@ function extractKeywords(text: string): string[] {
   return legalTerms.filter(term => lower.includes(term)).slice(0, 8);
 }
 
-// ─── Appel API OCR.space ──────────────────────────────────────────────────────
+// ─── OCR local sur le serveur JuristDZ ───────────────────────────────────────
+
+const POLL_INTERVAL = 1_500;
+const POLL_TIMEOUT = 10 * 60_000;
+
+interface OcrJobResponse {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  pageCount?: number;
+  processedPages: number;
+  confidence?: number;
+  detectedLanguage?: OcrResult['language'];
+  errorMessage?: string;
+  pages?: OcrPageResult[];
+  text?: string;
+}
 
-const OCR_API_URL = 'https://api.ocr.space/parse/image';
-const API_KEY = import.meta.env.VITE_OCR_SPACE_API_KEY || 'helloworld'; // clé démo limitée
+async function ocrRequest(path: string, init: RequestInit = {}): Promise<OcrJobResponse> {
+  const token = getApiToken();
+  if (!token) {
+    throw new Error('Connexion au serveur requise pour l\'OCR');
+  }
 
-export async function performOcr(file: File): Promise<OcrResult> {
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('apikey', API_KEY);
-  formData.append('language', 'ara+fre');   // Arabe + Français
-  formData.append('isOverlayRequired', 'false');
-  formData.append('detectOrientation', 'true');
-  formData.append('scale', 'true');
-  formData.append('OCREngine', '2');         // Engine 2 = meilleur pour arabe
-
-  const response = await fetch(OCR_API_URL, {
-    method: 'POST',
-    body: formData,
+  const response = await fetch(`${API_BASE_URL}/api/ocr${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}` },
   });
-
+  const body = await response.json().catch(() => ({}));
   if (!response.ok) {
-    throw new Error(`OCR API error: ${response.status}`);
+    throw new Error(body.message || body.error || `OCR error: ${response.status}`);
   }
-
-  const data = await response.json();
-
-  if (data.IsErroredOnProcessing) {
-    throw new Error(data.ErrorMessage?.[0] || 'OCR processing failed');
-  }
-
-  const parsedResults = data.ParsedResults || [];
-  const fullText = parsedResults.map((r: any) => r.ParsedText || '').join('\n');
-  const avgConfidence = parsedResults.reduce((sum: number, r: any) => sum + (r.TextOverlay?.Lines?.length || 0), 0);
-
-  // Détecter la langue dominante
-  const hasArabic = PATTERNS.arabic.test(fullText);
-  const hasFrench = /[a-zA-ZÀ-ÿ]{3,}/.test(fullText);
-  const language: OcrResult['language'] = hasArabic && hasFrench ? 'mixed' : hasArabic ? 'ar' : 'fr';
-
-  return {
-    text: fullText,
-    language,
-    confidence: Math.min(95, 60 + avgConfidence),
-    pages: parsedResults.length,
-    rawResponse: data,
-  };
+  return body.data;
 }
 
-// ─── OCR depuis URL (pour PDF déjà en ligne) ─────────────────────────────────
-
-export async function performOcrFromUrl(url: string): Promise<OcrResult> {
+export async function performOcr(file: File, onProgress?: (progress: OcrProgress) => void): Promise<OcrResult> {
   const formData = new FormData();
-  formData.append('url', url);
-  formData.append('apikey', API_KEY);
-  formData.append('language', 'ara+fre');
-  formData.append('OCREngine', '2');
+  formData.append('file', file);
+
+  let job = await ocrRequest('/jobs', { method: 'POST', body: formData });
+  const deadline = Date.now() + POLL_TIMEOUT;
 
-  const response = await fetch(OCR_API_URL, { method: 'POST', body: formData });
-  if (!response.ok) throw new Error(`OCR API error: ${response.status}`);
+  while (job.status === 'pending' || job.status === 'processing') {
+    onProgress?.({ processedPages: job.processedPages, pageCount: job.pageCount });
+    if (Date.now() > deadline) {
+      throw new Error('OCR trop long, réessayez plus tard');
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    job = await ocrRequest(`/jobs/${job.id}`);
+  }
 
-  const data = await response.json();
-  if (data.IsErroredOnProcessing) throw new Error(data.ErrorMessage?.[0] || 'OCR failed');
+  if (job.status === 'failed') {
+    throw new Error(job.errorMessage || 'OCR processing failed');
+  }
 
-  const fullText = (data.ParsedResults || []).map((r: any) => r.ParsedText || '').join('\n');
-  const hasArabic = PATTERNS.arabic.test(fullText);
-  const hasFrench = /[a-zA-ZÀ-ÿ]{3,}/.test(fullText);
+  const text = job.text || '';
+  const hasArabic = PATTERNS.arabic.test(text);
+  const hasFrench = /[a-zA-ZÀ-ÿ]{3,}/.test(text);
 
   return {
-    text: fullText,
-    language: hasArabic && hasFrench ? 'mixed' : hasArabic ? 'ar' : 'fr',
-    confidence: 75,
-    pages: data.ParsedResults?.length || 1,
+    text,
+    language: job.detectedLanguage || (hasArabic && hasFrench ? 'mixed' : hasArabic ? 'ar' : 'fr'),
+    confidence: job.confidence ?? 0,
+    pages: job.pageCount ?? job.pages?.length ?? 0,
+    pageResults: job.pages || [],
   };
 }
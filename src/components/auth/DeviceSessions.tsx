@@ -0,0 +1,143 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Monitor, Smartphone, Tablet, HelpCircle, LogOut, Loader2, RefreshCw, MapPin } from 'lucide-react';
+import { sessionService, type ActiveSession } from '../../services/sessionService';
+import { useAppToast } from '../../contexts/ToastContext';
+import type { Language } from '../../../types';
+
+interface DeviceSessionsProps {
+  language: Language;
+}
+
+const DEVICE_ICONS: Record<ActiveSession['deviceType'], React.ReactNode> = {
+  desktop: <Monitor size={20} />,
+  mobile: <Smartphone size={20} />,
+  tablet: <Tablet size={20} />,
+  unknown: <HelpCircle size={20} />,
+};
+
+const DeviceSessions: React.FC<DeviceSessionsProps> = ({ language }) => {
+  const { toast } = useAppToast();
+  const isAr = language === 'ar';
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await sessionService.listSessions());
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'تعذر تحميل الأجهزة' : 'Impossible de charger les appareils'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, isAr]);
+
+  useEffect(() => { loadSessions(); }, [loadSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevoking(session.id);
+    try {
+      await sessionService.revokeSession(session.id);
+      toast(isAr ? 'تم تسجيل خروج الجهاز' : 'Appareil déconnecté', 'success');
+      setSessions(current => current.filter(s => s.id !== session.id));
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في تسجيل الخروج' : 'Erreur lors de la déconnexion'), 'error');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm(isAr ? 'تسجيل الخروج من جميع الأجهزة الأخرى؟' : 'Déconnecter tous les autres appareils ?')) return;
+    setRevoking('others');
+    try {
+      const revoked = await sessionService.revokeOtherSessions();
+      toast(isAr ? `تم تسجيل خروج ${revoked} جهاز` : `${revoked} appareil(s) déconnecté(s)`, 'success');
+      setSessions(current => current.filter(s => s.current));
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في تسجيل الخروج' : 'Erreur lors de la déconnexion'), 'error');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString(isAr ? 'ar-DZ' : 'fr-DZ', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  const others = sessions.filter(s => !s.current);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Monitor size={24} className="text-slate-400" />
+        <div>
+          <h3 className="font-bold text-lg">{isAr ? 'أجهزتي' : 'Mes appareils'}</h3>
+          <p className="text-sm text-slate-500">
+            {isAr ? 'الجلسات النشطة على حسابك' : 'Sessions actives sur votre compte'}
+          </p>
+        </div>
+        <button
+          onClick={loadSessions}
+          disabled={loading}
+          title={isAr ? 'تحديث' : 'Actualiser'}
+          className="ml-auto p-2 text-slate-400 hover:text-legal-gold transition-colors disabled:opacity-50"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {loading && sessions.length === 0 ? (
+        <div className="flex justify-center py-6"><Loader2 size={20} className="animate-spin text-slate-400" /></div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-3 border dark:border-slate-800 rounded-xl p-3">
+              <span className={session.current ? 'text-legal-gold' : 'text-slate-500'}>{DEVICE_ICONS[session.deviceType]}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {session.device}
+                  {session.current && (
+                    <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-green-100 text-green-700">
+                      {isAr ? 'هذا الجهاز' : 'Cet appareil'}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500 flex items-center gap-1">
+                  {session.ipAddress && <><MapPin size={11} /><span dir="ltr">{session.ipAddress}</span> · </>}
+                  {isAr ? 'آخر نشاط ' : 'Dernière activité '}{formatDateTime(session.lastActivityAt)}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revoking !== null}
+                  title={isAr ? 'تسجيل الخروج' : 'Déconnecter'}
+                  className="p-2 text-slate-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  {revoking === session.id ? <Loader2 size={16} className="animate-spin" /> : <LogOut size={16} />}
+                </button>
+              )}
+            </div>
+          ))}
+          {sessions.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-4">{isAr ? 'لا توجد جلسات نشطة' : 'Aucune session active'}</p>
+          )}
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <button
+          onClick={handleRevokeOthers}
+          disabled={revoking !== null}
+          className="mt-4 flex items-center gap-2 px-5 py-2.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-xl font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+        >
+          {revoking === 'others' ? <Loader2 size={16} className="animate-spin" /> : <LogOut size={16} />}
+          {isAr ? 'تسجيل الخروج من الأجهزة الأخرى' : 'Déconnecter les autres appareils'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DeviceSessions;
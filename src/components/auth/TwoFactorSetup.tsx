@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
-import { Shield, ShieldCheck, ShieldOff, Smartphone, Copy, CheckCircle, Loader2, AlertTriangle } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Shield, ShieldCheck, ShieldOff, Smartphone, Copy, CheckCircle, Loader2, AlertTriangle,
+  KeyRound, Fingerprint, Trash2, RefreshCw, Plus
+} from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { mfaService, type MFAStatus } from '../../services/mfaService';
 import { useAppToast } from '../../contexts/ToastContext';
 import type { Language } from '../../../types';
 
@@ -10,25 +14,57 @@ interface TwoFactorSetupProps {
   onUpdate: (enabled: boolean) => void;
 }
 
+type Step = 'idle' | 'qr' | 'passkey' | 'codes' | 'disable';
+
 const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, onUpdate }) => {
   const { toast } = useAppToast();
   const isAr = language === 'ar';
-  const [step, setStep] = useState<'idle' | 'qr' | 'verify' | 'disable'>('idle');
+  const [step, setStep] = useState<Step>('idle');
   const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<MFAStatus | null>(null);
   const [qrCode, setQrCode] = useState('');
   const [secret, setSecret] = useState('');
-  const [factorId, setFactorId] = useState('');
   const [code, setCode] = useState('');
   const [copied, setCopied] = useState(false);
+  const [passkeyName, setPasskeyName] = useState('');
+  // Codes de secours en attente d'affichage (remis une seule fois par le serveur)
+  const [pendingCodes, setPendingCodes] = useState<string[]>([]);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const enabled = status?.enabled ?? mfaEnabled;
+  const passkeysSupported = browserSupportsWebAuthn();
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await mfaService.getStatus());
+    } catch (err) {
+      console.warn('MFA status unavailable:', err);
+    }
+  }, []);
+
+  useEffect(() => { refreshStatus(); }, [refreshStatus]);
+
+  // Le profil suit l'état renvoyé par le serveur
+  useEffect(() => {
+    if (status && status.enabled !== mfaEnabled) onUpdate(status.enabled);
+  }, [status, mfaEnabled, onUpdate]);
+
+  const showRecoveryCodes = (codes: string[]) => {
+    if (codes.length === 0) {
+      setStep('idle');
+      return;
+    }
+    setRecoveryCodes(codes);
+    setStep('codes');
+  };
 
   const handleEnroll = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp' });
-      if (error) throw error;
-      setQrCode(data.totp.qr_code);
-      setSecret(data.totp.secret);
-      setFactorId(data.id);
+      const setup = await mfaService.enrollTotp();
+      setQrCode(setup.qrCode);
+      setSecret(setup.secret);
+      setPendingCodes(setup.backupCodes);
       setStep('qr');
     } catch (err: any) {
       toast(err.message || (isAr ? 'خطأ في التفعيل' : 'Erreur lors de l\'activation'), 'error');
@@ -44,19 +80,13 @@ const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, o
     }
     setLoading(true);
     try {
-      const { data: challengeData, error: challengeError } = await supabase.auth.mfa.challenge({ factorId });
-      if (challengeError) throw challengeError;
-
-      const { error: verifyError } = await supabase.auth.mfa.verify({
-        factorId,
-        challengeId: challengeData.id,
-        code,
-      });
-      if (verifyError) throw verifyError;
+      await mfaService.verifyTotp(code);
 
       toast(isAr ? 'تم تفعيل المصادقة الثنائية بنجاح' : 'Authentification à deux facteurs activée', 'success');
-      setStep('idle');
       setCode('');
+      showRecoveryCodes(pendingCodes);
+      setPendingCodes([]);
+      await refreshStatus();
       onUpdate(true);
     } catch (err: any) {
       toast(err.message || (isAr ? 'رمز غير صحيح' : 'Code incorrect'), 'error');
@@ -65,18 +95,64 @@ const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, o
     }
   };
 
-  const handleDisable = async () => {
+  const handleRegisterPasskey = async () => {
+    const name = passkeyName.trim();
+    if (!name) {
+      toast(isAr ? 'أدخل اسماً لهذا المفتاح' : 'Donnez un nom à cette passkey', 'warning');
+      return;
+    }
+    setLoading(true);
+    try {
+      const { recoveryCodes: codes } = await mfaService.registerPasskey(name);
+
+      toast(isAr ? 'تمت إضافة مفتاح المرور' : 'Passkey ajoutée', 'success');
+      setPasskeyName('');
+      showRecoveryCodes(codes);
+      await refreshStatus();
+      onUpdate(true);
+    } catch (err: any) {
+      // NotAllowedError : l'utilisateur a annulé la demande du navigateur
+      if (err.name !== 'NotAllowedError') {
+        toast(err.message || (isAr ? 'تعذر تسجيل مفتاح المرور' : 'Enregistrement de la passkey impossible'), 'error');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemovePasskey = async (passkeyId: string) => {
     setLoading(true);
     try {
-      const { data: factors } = await supabase.auth.mfa.listFactors();
-      const totpFactor = factors?.totp?.[0];
-      if (!totpFactor) throw new Error('No TOTP factor found');
+      await mfaService.removePasskey(passkeyId);
+      toast(isAr ? 'تمت إزالة مفتاح المرور' : 'Passkey supprimée', 'info');
+      await refreshStatus();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في الحذف' : 'Erreur lors de la suppression'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const { error } = await supabase.auth.mfa.unenroll({ factorId: totpFactor.id });
-      if (error) throw error;
+  const handleRegenerateCodes = async () => {
+    setLoading(true);
+    try {
+      showRecoveryCodes(await mfaService.regenerateRecoveryCodes());
+      await refreshStatus();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في إنشاء الرموز' : 'Erreur lors de la génération des codes'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setLoading(true);
+    try {
+      await mfaService.disable();
 
       toast(isAr ? 'تم إلغاء تفعيل المصادقة الثنائية' : 'Authentification à deux facteurs désactivée', 'info');
       setStep('idle');
+      await refreshStatus();
       onUpdate(false);
     } catch (err: any) {
       toast(err.message || (isAr ? 'خطأ في الإلغاء' : 'Erreur lors de la désactivation'), 'error');
@@ -85,46 +161,132 @@ const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, o
     }
   };
 
-  const copySecret = () => {
-    navigator.clipboard.writeText(secret);
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(isAr ? 'ar-DZ' : 'fr-DZ', { day: 'numeric', month: 'short', year: 'numeric' });
+
   return (
     <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6">
       <div className="flex items-center gap-3 mb-4">
-        {mfaEnabled
+        {enabled
           ? <ShieldCheck size={24} className="text-green-500" />
           : <Shield size={24} className="text-slate-400" />}
         <div>
           <h3 className="font-bold text-lg">{isAr ? 'المصادقة الثنائية (2FA)' : 'Authentification à deux facteurs'}</h3>
           <p className="text-sm text-slate-500">
-            {mfaEnabled
+            {enabled
               ? (isAr ? 'مفعّلة — حسابك محمي' : 'Activée — votre compte est protégé')
               : (isAr ? 'غير مفعّلة — يُنصح بالتفعيل' : 'Désactivée — activation recommandée')}
           </p>
         </div>
         <span className={`ml-auto px-3 py-1 rounded-full text-xs font-bold ${
-          mfaEnabled ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'
+          enabled ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'
         }`}>
-          {mfaEnabled ? (isAr ? 'مفعّل' : 'Activé') : (isAr ? 'غير مفعّل' : 'Désactivé')}
+          {enabled ? (isAr ? 'مفعّل' : 'Activé') : (isAr ? 'غير مفعّل' : 'Désactivé')}
         </span>
       </div>
 
       {/* Idle state */}
       {step === 'idle' && (
-        <div className="flex gap-3">
-          {!mfaEnabled ? (
-            <button
-              onClick={handleEnroll}
-              disabled={loading}
-              className="flex items-center gap-2 px-5 py-2.5 bg-legal-gold text-white rounded-xl font-medium hover:bg-legal-gold/90 transition-colors disabled:opacity-50"
-            >
-              {loading ? <Loader2 size={16} className="animate-spin" /> : <Smartphone size={16} />}
-              {isAr ? 'تفعيل 2FA' : 'Activer 2FA'}
-            </button>
-          ) : (
+        <div className="space-y-4">
+          {/* Application d'authentification */}
+          <div className="flex items-center gap-3 border dark:border-slate-800 rounded-xl p-4">
+            <Smartphone size={20} className="text-slate-500" />
+            <div className="flex-1">
+              <p className="font-medium text-sm">{isAr ? 'تطبيق المصادقة' : 'Application d\'authentification'}</p>
+              <p className="text-xs text-slate-500">Google Authenticator, Authy…</p>
+            </div>
+            {status?.totpEnabled ? (
+              <CheckCircle size={18} className="text-green-500" />
+            ) : (
+              <button
+                onClick={handleEnroll}
+                disabled={loading}
+                className="flex items-center gap-2 px-4 py-2 bg-legal-gold text-white rounded-xl text-sm font-medium hover:bg-legal-gold/90 transition-colors disabled:opacity-50"
+              >
+                {loading ? <Loader2 size={14} className="animate-spin" /> : <Smartphone size={14} />}
+                {isAr ? 'تفعيل' : 'Configurer'}
+              </button>
+            )}
+          </div>
+
+          {/* Passkeys */}
+          <div className="border dark:border-slate-800 rounded-xl p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <Fingerprint size={20} className="text-slate-500" />
+              <div className="flex-1">
+                <p className="font-medium text-sm">{isAr ? 'مفاتيح المرور' : 'Passkeys'}</p>
+                <p className="text-xs text-slate-500">
+                  {isAr ? 'البصمة أو التعرف على الوجه أو مفتاح أمان' : 'Empreinte, reconnaissance faciale ou clé de sécurité'}
+                </p>
+              </div>
+              {passkeysSupported && (
+                <button
+                  onClick={() => setStep('passkey')}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 border dark:border-slate-700 rounded-xl text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+                >
+                  <Plus size={14} />
+                  {isAr ? 'إضافة' : 'Ajouter'}
+                </button>
+              )}
+            </div>
+            {!passkeysSupported && (
+              <p className="text-xs text-slate-500">
+                {isAr ? 'هذا المتصفح لا يدعم مفاتيح المرور' : 'Ce navigateur ne prend pas en charge les passkeys'}
+              </p>
+            )}
+            {status?.passkeys.map(passkey => (
+              <div key={passkey.id} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-800 rounded-lg px-3 py-2">
+                <KeyRound size={16} className="text-legal-gold" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{passkey.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {isAr ? 'أضيف في ' : 'Ajoutée le '}{formatDate(passkey.createdAt)}
+                    {passkey.lastUsedAt && <> · {isAr ? 'آخر استخدام ' : 'utilisée le '}{formatDate(passkey.lastUsedAt)}</>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemovePasskey(passkey.id)}
+                  disabled={loading}
+                  title={isAr ? 'حذف' : 'Supprimer'}
+                  className="text-slate-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Codes de secours */}
+          {enabled && status && (
+            <div className="flex items-center gap-3 border dark:border-slate-800 rounded-xl p-4">
+              <KeyRound size={20} className="text-slate-500" />
+              <div className="flex-1">
+                <p className="font-medium text-sm">{isAr ? 'رموز الاسترداد' : 'Codes de secours'}</p>
+                <p className={`text-xs ${status.recoveryCodesRemaining <= 2 ? 'text-amber-600' : 'text-slate-500'}`}>
+                  {isAr
+                    ? `${status.recoveryCodesRemaining} رموز متبقية`
+                    : `${status.recoveryCodesRemaining} code(s) restant(s)`}
+                </p>
+              </div>
+              <button
+                onClick={handleRegenerateCodes}
+                disabled={loading}
+                className="flex items-center gap-2 px-4 py-2 border dark:border-slate-700 rounded-xl text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                {isAr ? 'إنشاء رموز جديدة' : 'Régénérer'}
+              </button>
+            </div>
+          )}
+
+          {enabled && (
             <button
               onClick={() => setStep('disable')}
               className="flex items-center gap-2 px-5 py-2.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-xl font-medium hover:bg-red-100 transition-colors"
@@ -154,7 +316,7 @@ const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, o
             <p className="text-xs text-slate-500 mb-1">{isAr ? 'أو أدخل المفتاح يدوياً:' : 'Ou entrez la clé manuellement :'}</p>
             <div className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2">
               <code className="flex-1 text-xs font-mono text-slate-700 dark:text-slate-300 break-all">{secret}</code>
-              <button onClick={copySecret} className="text-slate-400 hover:text-legal-gold transition-colors">
+              <button onClick={() => copyText(secret)} className="text-slate-400 hover:text-legal-gold transition-colors">
                 {copied ? <CheckCircle size={16} className="text-green-500" /> : <Copy size={16} />}
               </button>
             </div>
@@ -185,11 +347,75 @@ const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ language, mfaEnabled, o
         </div>
       )}
 
+      {/* Passkey registration */}
+      {step === 'passkey' && (
+        <div className="space-y-4">
+          <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-4 text-sm text-slate-600 dark:text-slate-300 flex items-start gap-2">
+            <Fingerprint size={16} className="text-legal-gold flex-shrink-0 mt-0.5" />
+            {isAr
+              ? 'سيطلب منك المتصفح تأكيد هويتك على هذا الجهاز أو بمفتاح أمان'
+              : 'Le navigateur va vous demander de confirmer votre identité sur cet appareil ou avec une clé de sécurité'}
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {isAr ? 'اسم مفتاح المرور:' : 'Nom de la passkey :'}
+            </label>
+            <input
+              type="text"
+              maxLength={100}
+              value={passkeyName}
+              onChange={e => setPasskeyName(e.target.value)}
+              placeholder={isAr ? 'مثال: حاسوب المكتب' : 'Ex. : ordinateur du cabinet'}
+              className="w-full px-4 py-2.5 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-legal-gold outline-none"
+            />
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => { setStep('idle'); setPasskeyName(''); }} className="flex-1 px-4 py-2.5 border dark:border-slate-700 rounded-xl font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-sm">
+              {isAr ? 'إلغاء' : 'Annuler'}
+            </button>
+            <button onClick={handleRegisterPasskey} disabled={loading || !passkeyName.trim()} className="flex-1 px-4 py-2.5 bg-legal-gold text-white rounded-xl font-medium hover:bg-legal-gold/90 transition-colors disabled:opacity-50 text-sm flex items-center justify-center gap-2">
+              {loading && <Loader2 size={14} className="animate-spin" />}
+              {isAr ? 'تسجيل' : 'Enregistrer'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recovery codes, shown once */}
+      {step === 'codes' && (
+        <div className="space-y-4">
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            {isAr
+              ? 'احفظ هذه الرموز في مكان آمن. يمكن استخدام كل رمز مرة واحدة فقط إذا فقدت هاتفك أو مفتاح الأمان، ولن تظهر مرة أخرى.'
+              : 'Conservez ces codes en lieu sûr. Chacun permet une seule connexion si vous perdez votre téléphone ou votre clé de sécurité ; ils ne seront plus affichés.'}
+          </div>
+          <div className="grid grid-cols-2 gap-2 bg-slate-100 dark:bg-slate-800 rounded-xl p-4">
+            {recoveryCodes.map(recoveryCode => (
+              <code key={recoveryCode} className="text-sm font-mono text-center text-slate-700 dark:text-slate-300" dir="ltr">
+                {recoveryCode}
+              </code>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => copyText(recoveryCodes.join('\n'))} className="flex-1 px-4 py-2.5 border dark:border-slate-700 rounded-xl font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-sm flex items-center justify-center gap-2">
+              {copied ? <CheckCircle size={14} className="text-green-500" /> : <Copy size={14} />}
+              {isAr ? 'نسخ' : 'Copier'}
+            </button>
+            <button onClick={() => { setRecoveryCodes([]); setStep('idle'); }} className="flex-1 px-4 py-2.5 bg-legal-gold text-white rounded-xl font-medium hover:bg-legal-gold/90 transition-colors text-sm">
+              {isAr ? 'لقد حفظت الرموز' : 'J\'ai conservé ces codes'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Disable confirmation */}
       {step === 'disable' && (
         <div className="space-y-4">
           <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 text-sm text-red-700 dark:text-red-300">
-            {isAr ? '⚠️ سيؤدي هذا إلى إزالة الحماية الإضافية من حسابك.' : '⚠️ Cela supprimera la protection supplémentaire de votre compte.'}
+            {isAr
+              ? '⚠️ سيؤدي هذا إلى إزالة تطبيق المصادقة ومفاتيح المرور ورموز الاسترداد.'
+              : '⚠️ Cela supprimera l\'application d\'authentification, les passkeys et les codes de secours.'}
           </div>
           <div className="flex gap-3">
             <button onClick={() => setStep('idle')} className="flex-1 px-4 py-2.5 border dark:border-slate-700 rounded-xl font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-sm">
@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Clock } from 'lucide-react';
+import type { Language } from '@/types';
+import { invoicePaymentService, type AgingBucket, type AgingReport } from '../../services/invoicePaymentService';
+
+interface AgingReportPanelProps {
+  language: Language;
+}
+
+const BUCKETS: Record<AgingBucket, { label: string; labelAr: string; bar: string; text: string }> = {
+  '0-30':  { label: '0-30 jours',  labelAr: '0-30 يوما',  bar: 'bg-blue-500',   text: 'text-blue-600' },
+  '31-60': { label: '31-60 jours', labelAr: '31-60 يوما', bar: 'bg-amber-500',  text: 'text-amber-600' },
+  '61-90': { label: '61-90 jours', labelAr: '61-90 يوما', bar: 'bg-orange-500', text: 'text-orange-600' },
+  '90+':   { label: '90+ jours',   labelAr: '+90 يوما',   bar: 'bg-red-500',    text: 'text-red-600' },
+};
+
+/**
+ * Ancienneté des créances : reste dû par tranche de jours après l'échéance,
+ * calculé sur le serveur à partir des encaissements et avoirs
+ */
+export const AgingReportPanel: React.FC<AgingReportPanelProps> = ({ language }) => {
+  const isAr = language === 'ar';
+  const [report, setReport] = useState<AgingReport | null>(null);
+
+  useEffect(() => {
+    invoicePaymentService.getAgingReport()
+      .then(setReport)
+      .catch(error => console.error('Error loading aging report:', error));
+  }, []);
+
+  const formatAmount = (amount: number) => new Intl.NumberFormat('fr-DZ', {
+    style: 'currency',
+    currency: 'DZD',
+    minimumFractionDigits: 0
+  }).format(amount);
+
+  if (!report || report.totalOutstanding === 0) return null;
+
+  const oldest = report.invoices.filter(i => i.daysOverdue > 0).slice(0, 5);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+          <Clock size={18} className="text-orange-600" />
+          {isAr ? 'أقدمية الديون' : 'Ancienneté des créances'}
+        </h2>
+        <span className="text-sm text-slate-500">
+          {isAr ? 'المستحق' : 'Reste dû'} : <span className="font-bold text-slate-900 dark:text-slate-100">{formatAmount(report.totalOutstanding)}</span>
+        </span>
+      </div>
+
+      <div className="flex h-3 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+        {report.buckets.filter(b => b.amount > 0).map(b => (
+          <div key={b.bucket} className={BUCKETS[b.bucket].bar} style={{ width: `${b.percentage}%` }} />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {report.buckets.map(b => (
+          <div key={b.bucket}>
+            <p className="text-xs text-slate-500">{isAr ? BUCKETS[b.bucket].labelAr : BUCKETS[b.bucket].label}</p>
+            <p className={`text-lg font-bold ${BUCKETS[b.bucket].text}`}>{formatAmount(b.amount)}</p>
+            <p className="text-xs text-slate-400">
+              {b.count} {isAr ? 'فاتورة' : b.count > 1 ? 'factures' : 'facture'} · {b.percentage}%
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {oldest.length > 0 && (
+        <div className="border-t dark:border-slate-800 pt-4 space-y-2">
+          {oldest.map(invoice => (
+            <div key={invoice.invoiceId} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+                <AlertCircle size={14} className={BUCKETS[invoice.bucket].text} />
+                {invoice.invoiceNumber} · {invoice.clientName}
+              </span>
+              <span className="text-slate-500">
+                {invoice.daysOverdue} {isAr ? 'يوم تأخير' : 'j de retard'} ·{' '}
+                <span className="font-semibold text-slate-900 dark:text-slate-100">{formatAmount(invoice.outstanding)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgingReportPanel;
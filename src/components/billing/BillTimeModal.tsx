@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import { X, Clock, Eye, Save, Undo2, AlertTriangle, Loader2 } from 'lucide-react';
+import type { Language } from '@/types';
+import { useAppToast } from '../../contexts/ToastContext';
+import {
+  timeBillingService,
+  type BillableCase,
+  type BillTimeRequest,
+  type TimeInvoiceDraft
+} from '../../services/timeBillingService';
+
+interface BillTimeModalProps {
+  language: Language;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+const firstDayOfMonth = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().split('T')[0];
+};
+
+export const BillTimeModal: React.FC<BillTimeModalProps> = ({
+  language,
+  onClose,
+  onSuccess
+}) => {
+  const isAr = language === 'ar';
+  const { toast } = useAppToast();
+  const [allCases, setAllCases] = useState<BillableCase[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [drafts, setDrafts] = useState<TimeInvoiceDraft[] | null>(null);
+  const [created, setCreated] = useState(false);
+  const [undoing, setUndoing] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    clientId: '',
+    caseId: '',
+    periodFrom: firstDayOfMonth(),
+    periodTo: today(),
+    includeExpenses: true,
+    provisionAmount: 0,
+    notes: ''
+  });
+
+  // Les dossiers et clients viennent du serveur, comme les temps qui y sont facturés
+  useEffect(() => {
+    timeBillingService.getCases()
+      .then(setAllCases)
+      .catch(error => console.error('Error loading cases:', error));
+  }, []);
+
+  const clients = allCases.reduce<Client[]>((list, c) => {
+    if (!list.some(client => client.id === c.clientId)) {
+      const name = c.client?.companyName || [c.client?.firstName, c.client?.lastName].filter(Boolean).join(' ');
+      list.push({ id: c.clientId, name: name || c.caseNumber });
+    }
+    return list;
+  }, []).sort((a, b) => a.name.localeCompare(b.name));
+
+  const cases = allCases.filter(c => c.clientId === formData.clientId);
+
+  const updateForm = (changes: Partial<typeof formData>) => {
+    setFormData({ ...formData, ...changes });
+    // Toute modification invalide l'aperçu
+    if (!created) setDrafts(null);
+  };
+
+  const buildRequest = (): BillTimeRequest => ({
+    ...(formData.caseId ? { caseId: formData.caseId } : { clientId: formData.clientId }),
+    periodFrom: formData.periodFrom,
+    periodTo: formData.periodTo,
+    includeExpenses: formData.includeExpenses,
+    ...(formData.provisionAmount > 0 ? { provisionAmount: formData.provisionAmount } : {}),
+    ...(formData.notes ? { notes: formData.notes } : {})
+  });
+
+  const handlePreview = async () => {
+    if (!formData.clientId) {
+      toast(isAr ? 'يرجى اختيار عميل' : 'Veuillez sélectionner un client', 'warning');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setDrafts(await timeBillingService.preview(buildRequest()));
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'تعذر حساب الفواتير' : 'Impossible de calculer les factures'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    try {
+      const result = await timeBillingService.createDrafts(buildRequest());
+      setDrafts(result);
+      setCreated(true);
+      toast(
+        isAr ? `تم إنشاء ${result.length} مسودة فاتورة` : `${result.length} facture(s) brouillon créée(s)`,
+        'success'
+      );
+      onSuccess();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في إنشاء الفواتير' : 'Erreur lors de la création des factures'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndo = async (draft: TimeInvoiceDraft) => {
+    if (!draft.invoice) return;
+    setUndoing(draft.invoice.id);
+    try {
+      await timeBillingService.deleteDraft(draft.invoice.id);
+      setDrafts(current => (current || []).filter(d => d !== draft));
+      toast(isAr ? 'تم حذف المسودة، الأوقات قابلة للفوترة من جديد' : 'Brouillon supprimé, les temps sont à nouveau facturables', 'success');
+      onSuccess();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ في الحذف' : 'Erreur lors de la suppression'), 'error');
+    } finally {
+      setUndoing(null);
+    }
+  };
+
+  const formatAmount = (amount: number) => `${amount.toLocaleString('fr-DZ', { maximumFractionDigits: 2 })} DA`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-900 rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        dir={isAr ? 'rtl' : 'ltr'}
+      >
+        {/* Header */}
+        <div className="p-6 border-b dark:border-slate-800 flex items-center justify-between sticky top-0 bg-white dark:bg-slate-900 z-10">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Clock size={22} className="text-green-600" />
+            {isAr ? 'فوترة الأوقات' : 'Facturer les temps'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Client & Case */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isAr ? 'العميل' : 'Client'} <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={formData.clientId}
+                disabled={created}
+                onChange={(e) => updateForm({ clientId: e.target.value, caseId: '' })}
+                className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
+              >
+                <option value="">{isAr ? 'اختر عميل' : 'Sélectionner un client'}</option>
+                {clients.map(client => (
+                  <option key={client.id} value={client.id}>
+                    {client.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isAr ? 'الملف' : 'Dossier'}
+              </label>
+              <select
+                value={formData.caseId}
+                onChange={(e) => updateForm({ caseId: e.target.value })}
+                disabled={!formData.clientId || created}
+                className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
+              >
+                <option value="">{isAr ? 'كل ملفات العميل' : 'Tous les dossiers du client'}</option>
+                {cases.map(c => (
+                  <option key={c.id} value={c.id}>
+                    {c.caseNumber} - {c.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Period */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isAr ? 'من' : 'Du'} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={formData.periodFrom}
+                max={formData.periodTo}
+                disabled={created}
+                onChange={(e) => updateForm({ periodFrom: e.target.value })}
+                className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isAr ? 'إلى' : 'Au'} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={formData.periodTo}
+                min={formData.periodFrom}
+                disabled={created}
+                onChange={(e) => updateForm({ periodTo: e.target.value })}
+                className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* Expenses & Provision */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            <label className="flex items-center gap-2 text-sm font-medium py-3">
+              <input
+                type="checkbox"
+                checked={formData.includeExpenses}
+                disabled={created}
+                onChange={(e) => updateForm({ includeExpenses: e.target.checked })}
+                className="w-4 h-4 accent-green-600"
+              />
+              {isAr ? 'إضافة مصاريف الملف (غير خاضعة للرسم)' : 'Inclure les frais du dossier (débours, hors taxes)'}
+            </label>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isAr ? 'تسبيق على الأتعاب والمصاريف (دج)' : 'Provision sur frais et honoraires (DA)'}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={formData.provisionAmount}
+                disabled={created}
+                onChange={(e) => updateForm({ provisionAmount: parseFloat(e.target.value) || 0 })}
+                className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* Drafts */}
+          {drafts && drafts.length === 0 && (
+            <p className="text-center text-slate-500 py-6">
+              {isAr ? 'لا توجد أوقات أو مصاريف للفوترة في هذه الفترة' : 'Aucun temps ni frais à facturer sur la période'}
+            </p>
+          )}
+
+          {drafts && drafts.map(draft => (
+            <div key={draft.caseId} className="border dark:border-slate-700 rounded-xl overflow-hidden">
+              <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800 flex items-center justify-between">
+                <span className="font-bold">
+                  {isAr ? 'ملف' : 'Dossier'} {draft.caseNumber}
+                  {draft.invoice && <span className="ml-2 text-green-600 font-mono text-sm">{draft.invoice.invoiceNumber}</span>}
+                </span>
+                {draft.invoice && (
+                  <button
+                    onClick={() => handleUndo(draft)}
+                    disabled={undoing !== null}
+                    className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {undoing === draft.invoice.id ? <Loader2 size={14} className="animate-spin" /> : <Undo2 size={14} />}
+                    {isAr ? 'إلغاء المسودة' : 'Annuler le brouillon'}
+                  </button>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <tbody>
+                  {draft.lines.map(line => (
+                    <tr key={line.position} className="border-t dark:border-slate-800">
+                      <td className="px-4 py-2">
+                        {line.description}
+                        {!line.isTaxable && <span className="ml-2 text-xs text-slate-400">{isAr ? 'غير خاضع' : 'HT'}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap font-medium">{formatAmount(line.amount)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t dark:border-slate-800 text-slate-500">
+                    <td className="px-4 py-2">{isAr ? 'الرسوم' : 'Taxes'} ({draft.taxRate}%)</td>
+                    <td className="px-4 py-2 text-right">{formatAmount(draft.taxAmount)}</td>
+                  </tr>
+                  <tr className="border-t dark:border-slate-800 text-base">
+                    <td className="px-4 py-2 font-bold">{isAr ? 'المجموع' : 'Total'}</td>
+                    <td className="px-4 py-2 text-right font-bold text-green-600">{formatAmount(draft.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              {draft.warnings.length > 0 && (
+                <div className="px-4 py-3 bg-amber-50 dark:bg-amber-900/20 text-amber-700 text-sm space-y-1">
+                  {draft.warnings.map(warning => (
+                    <p key={warning} className="flex items-center gap-2"><AlertTriangle size={14} />{warning}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border dark:border-slate-700 rounded-xl font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              {created ? (isAr ? 'إغلاق' : 'Fermer') : (isAr ? 'إلغاء' : 'Annuler')}
+            </button>
+            {!created && (drafts === null ? (
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={loading}
+                className="flex-1 px-6 py-3 bg-slate-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                {loading ? <Loader2 size={20} className="animate-spin" /> : <Eye size={20} />}
+                {isAr ? 'معاينة' : 'Aperçu'}
+              </button>
+            ) : drafts.length > 0 && (
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={loading}
+                className="flex-1 px-6 py-3 bg-green-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {loading ? <Loader2 size={20} className="animate-spin" /> : <Save size={20} />}
+                {isAr ? 'إنشاء المسودات' : 'Créer les brouillons'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BillTimeModal;
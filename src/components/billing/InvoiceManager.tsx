@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Plus, Download, Send, Eye, DollarSign, Calendar, User } from 'lucide-react';
+import { FileText, Plus, Download, Send, Eye, DollarSign, Calendar, User, Clock, Trash2 } from 'lucide-react';
 import type { Language } from '@/types';
 import { CreateInvoiceModal } from './CreateInvoiceModal';
+import { BillTimeModal } from './BillTimeModal';
+import { AgingReportPanel } from './AgingReportPanel';
 import { LimitChecker } from '../trial/LimitChecker';
 import { Sparkline } from '../charts/MiniChart';
 import { useAppToast } from '../../contexts/ToastContext';
 import { exportCSV, exportExcel, INVOICE_EXPORT_COLUMNS } from '../../services/exportService';
 import AlgerianPaymentModal from './AlgerianPaymentModal';
+import { timeBillingService, type BillingInvoice, type PaymentMethod } from '../../services/timeBillingService';
 
 interface InvoiceManagerProps {
   userId: string;
@@ -15,9 +18,12 @@ interface InvoiceManagerProps {
 
 interface Invoice {
   id: string;
+  /** Factures saisies à la main (Supabase) ou issues des temps facturés (serveur) */
+  source: 'supabase' | 'server';
   invoice_number: string;
   client_id: string;
   client_name: string;
+  client_email?: string;
   case_id?: string;
   case_title?: string;
   issue_date: string;
@@ -28,6 +34,8 @@ interface Invoice {
   tax_amount: number;
   total: number;
   items: InvoiceItem[];
+  /** Reste à payer, pour les factures du serveur */
+  remaining_amount?: number;
   notes?: string;
   created_at: string;
 }
@@ -39,10 +47,55 @@ interface InvoiceItem {
   amount: number;
 }
 
+// Moyens de paiement de la fenêtre de paiement, dans les termes du serveur
+const SERVER_PAYMENT_METHODS: Record<string, PaymentMethod> = {
+  cib: 'credit_card',
+  edahabia: 'credit_card',
+  baridimob: 'baridimob',
+  virement: 'bank_transfer',
+  especes: 'cash',
+  cheque: 'check',
+};
+
+const fromServerInvoice = (inv: BillingInvoice): Invoice => {
+  const taxableBase = inv.lines.filter(line => line.isTaxable).reduce((sum, line) => sum + line.amount, 0);
+  return {
+    id: inv.id,
+    source: 'server',
+    invoice_number: inv.invoiceNumber,
+    client_id: inv.clientId,
+    client_name: inv.clientName,
+    client_email: inv.clientEmail,
+    case_id: inv.caseId,
+    case_title: `${inv.caseNumber} - ${inv.caseTitle}`,
+    issue_date: inv.issueDate,
+    due_date: inv.dueDate,
+    status: inv.paymentStatus === 'paid' || inv.status === 'paid' ? 'paid'
+      : inv.status === 'cancelled' ? 'cancelled'
+      : inv.status === 'draft' ? 'draft'
+      : inv.paymentStatus === 'overdue' ? 'overdue'
+      : 'sent',
+    subtotal: inv.subtotal,
+    tax_rate: taxableBase > 0 ? Math.round(inv.taxAmount / taxableBase * 10000) / 100 : 0,
+    tax_amount: inv.taxAmount,
+    total: inv.totalAmount,
+    items: inv.lines.map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      unit_price: line.unitPrice,
+      amount: line.amount,
+    })),
+    remaining_amount: inv.remainingAmount,
+    notes: inv.notes,
+    created_at: inv.createdAt,
+  };
+};
+
 export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language }) => {
   const { toast } = useAppToast();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showBillTimeModal, setShowBillTimeModal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
@@ -57,25 +110,36 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
     setLoading(true);
     try {
       const { supabase } = await import('../../lib/supabase');
-      const { data, error } = await supabase
-        .from('invoices')
-        .select(`
-          *,
-          clients (first_name, last_name, company_name),
-          cases (case_number, title)
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+      const [{ data, error }, serverInvoices] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select(`
+            *,
+            clients (first_name, last_name, company_name),
+            cases (case_number, title)
+          `)
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false }),
+        // Factures des temps facturés, tenues par le serveur avec ces temps
+        timeBillingService.listInvoices().catch(err => {
+          console.error('Error loading time invoices:', err);
+          return [] as BillingInvoice[];
+        })
+      ]);
 
-      if (!error && data) {
-        const formattedInvoices = data.map(inv => ({
+      const formattedInvoices: Invoice[] = !error && data
+        ? data.map(inv => ({
           ...inv,
+          source: 'supabase' as const,
           client_name: inv.clients?.company_name || 
                       `${inv.clients?.first_name} ${inv.clients?.last_name}`,
           case_title: inv.cases ? `${inv.cases.case_number} - ${inv.cases.title}` : undefined
-        }));
-        setInvoices(formattedInvoices);
-      }
+        }))
+        : [];
+      setInvoices(
+        [...formattedInvoices, ...serverInvoices.map(fromServerInvoice)]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
     } catch (error) {
       console.error('Error loading invoices:', error);
     } finally {
@@ -165,36 +229,46 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
       const pdfBlob = getInvoicePDFBlob(invoice, lawyerInfo);
       
       // Charger l'email du client
-      const { data: client } = await supabase
-        .from('clients')
-        .select('email, first_name, last_name')
-        .eq('id', invoice.client_id)
-        .single();
+      let clientEmail = invoice.client_email;
+      let clientName = invoice.client_name;
+      if (invoice.source === 'supabase') {
+        const { data: client } = await supabase
+          .from('clients')
+          .select('email, first_name, last_name')
+          .eq('id', invoice.client_id)
+          .single();
+        clientEmail = client?.email;
+        if (client) clientName = `${client.first_name} ${client.last_name}`;
+      }
       
-      if (!client?.email) {
+      if (!clientEmail) {
         toast(isAr ? 'العميل ليس لديه بريد إلكتروني' : 'Le client n\'a pas d\'email', 'warning');
         return;
       }
       
       // Envoyer l'email
       const sent = await sendInvoiceEmail(
-        client.email,
-        `${client.first_name} ${client.last_name}`,
+        clientEmail,
+        clientName,
         invoice.invoice_number,
         invoice.total,
         pdfBlob
       );
       
       // Mettre à jour le statut
-      const { error } = await supabase
-        .from('invoices')
-        .update({ 
-          status: 'sent',
-          sent_at: new Date().toISOString()
-        })
-        .eq('id', invoice.id);
+      if (invoice.source === 'server') {
+        await timeBillingService.markSent(invoice.id);
+      } else {
+        const { error } = await supabase
+          .from('invoices')
+          .update({ 
+            status: 'sent',
+            sent_at: new Date().toISOString()
+          })
+          .eq('id', invoice.id);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       if (sent) {
         toast(isAr ? 'تم إرسال الفاتورة بنجاح' : 'Facture envoyée avec succès', 'success');
@@ -209,6 +283,17 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
     }
   };
 
+  const deleteDraft = async (invoice: Invoice) => {
+    if (!confirm(isAr ? 'حذف هذه المسودة؟' : 'Supprimer ce brouillon ?')) return;
+    try {
+      await timeBillingService.deleteDraft(invoice.id);
+      toast(isAr ? 'تم حذف المسودة، الأوقات قابلة للفوترة من جديد' : 'Brouillon supprimé, les temps sont à nouveau facturables', 'success');
+      loadInvoices();
+    } catch (error: any) {
+      toast(error.message || (isAr ? 'خطأ في الحذف' : 'Erreur lors de la suppression'), 'error');
+    }
+  };
+
   const stats = {
     total: invoices.length,
     draft: invoices.filter(i => i.status === 'draft').length,
@@ -242,6 +327,12 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
           </button>
         </LimitChecker>
         <div className="flex gap-2">
+          <button
+            onClick={() => setShowBillTimeModal(true)}
+            className="px-4 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-medium flex items-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all text-sm"
+          >
+            <Clock size={16} />{isAr ? 'فوترة الأوقات' : 'Facturer les temps'}
+          </button>
           <button
             onClick={() => exportCSV(invoices, INVOICE_EXPORT_COLUMNS, `factures-${new Date().toISOString().slice(0,10)}`)}
             className="px-4 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-medium flex items-center gap-2 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all text-sm"
@@ -306,6 +397,8 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
         </div>
       </div>
 
+      <AgingReportPanel language={language} />
+
       {/* Invoices List */}
       <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800">
         <div className="p-6 border-b dark:border-slate-800">
@@ -385,6 +478,15 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
                           <Send size={18} />
                         </button>
                       )}
+                      {invoice.status === 'draft' && invoice.source === 'server' && (
+                        <button
+                          onClick={() => deleteDraft(invoice)}
+                          className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors text-red-600"
+                          title={isAr ? 'حذف المسودة' : 'Supprimer le brouillon'}
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
                       {(invoice.status === 'sent' || invoice.status === 'overdue') && (
                         <button
                           onClick={() => setPaymentInvoice(invoice)}
@@ -421,25 +523,42 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ userId, language
         />
       )}
 
+      {/* Bill Time Modal */}
+      {showBillTimeModal && (
+        <BillTimeModal
+          language={language}
+          onClose={() => setShowBillTimeModal(false)}
+          onSuccess={loadInvoices}
+        />
+      )}
+
       {/* Payment Modal */}
       {paymentInvoice && (
         <AlgerianPaymentModal
           language={language}
           invoiceNumber={paymentInvoice.invoice_number}
-          amount={paymentInvoice.total}
+          amount={paymentInvoice.remaining_amount ?? paymentInvoice.total}
           clientName={paymentInvoice.client_name}
           onConfirm={async (method, reference) => {
-            const { supabase } = await import('../../lib/supabase');
-            const { error } = await supabase
-              .from('invoices')
-              .update({
-                status: 'paid',
-                paid_at: new Date().toISOString(),
-                payment_method: method,
-                payment_reference: reference || null,
-              })
-              .eq('id', paymentInvoice.id);
-            if (error) throw error;
+            if (paymentInvoice.source === 'server') {
+              await timeBillingService.recordPayment(paymentInvoice.id, {
+                amount: paymentInvoice.remaining_amount ?? paymentInvoice.total,
+                paymentMethod: SERVER_PAYMENT_METHODS[method],
+                ...(reference ? { reference } : {}),
+              });
+            } else {
+              const { supabase } = await import('../../lib/supabase');
+              const { error } = await supabase
+                .from('invoices')
+                .update({
+                  status: 'paid',
+                  paid_at: new Date().toISOString(),
+                  payment_method: method,
+                  payment_reference: reference || null,
+                })
+                .eq('id', paymentInvoice.id);
+              if (error) throw error;
+            }
             try {
               const { auditService } = await import('../../services/auditService');
               await auditService.log({ user_id: userId, action: 'invoice.paid', resource_type: 'invoice', resource_id: paymentInvoice.id, details: { method, amount: paymentInvoice.total } });
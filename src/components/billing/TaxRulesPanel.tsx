@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { Percent, CalendarClock, CheckCircle2, History, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useAppToast } from '../../contexts/ToastContext';
+import { taxRuleService, type TaxProfession, type TaxRule, type TaxType } from '../../services/taxRuleService';
+import type { Language } from '../../../types';
+
+interface Props {
+  language: Language;
+}
+
+const PROFESSIONS: Array<{ value: TaxProfession; label: string; labelAr: string }> = [
+  { value: 'avocat',              label: 'Avocat',             labelAr: 'محامي' },
+  { value: 'notaire',             label: 'Notaire',            labelAr: 'موثق' },
+  { value: 'huissier',            label: 'Huissier',           labelAr: 'محضر قضائي' },
+  { value: 'commissaire_priseur', label: 'Commissaire-priseur', labelAr: 'محافظ البيع بالمزاد' },
+  { value: 'expert_judiciaire',   label: 'Expert judiciaire',  labelAr: 'خبير قضائي' },
+];
+
+const TAX_TYPES: Record<TaxType, { label: string; labelAr: string }> = {
+  vat:              { label: 'TVA',                  labelAr: 'الرسم على القيمة المضافة' },
+  professional_tax: { label: 'Taxe professionnelle', labelAr: 'الرسم على النشاط المهني' },
+  registration_tax: { label: "Droit d'enregistrement", labelAr: 'حقوق التسجيل' },
+  withholding_tax:  { label: 'Retenue à la source',  labelAr: 'الاقتطاع من المصدر' },
+  stamp_duty:       { label: 'Timbre fiscal',        labelAr: 'حقوق الطابع' },
+};
+
+type RuleState = 'scheduled' | 'current' | 'ended';
+
+const STATE_COLORS: Record<RuleState, string> = {
+  scheduled: 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+  current:   'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+  ended:     'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const emptyForm = () => ({
+  taxType: 'vat' as TaxType,
+  isPercentage: true,
+  rate: '',
+  minimumAmount: '',
+  maximumAmount: '',
+  exemptionThreshold: '',
+  applicableFrom: '',
+  legalReference: '',
+});
+
+/**
+ * Règles fiscales par profession : versions successives de chaque taxe et
+ * programmation d'un nouveau taux de loi de finances à une date future
+ */
+const TaxRulesPanel: React.FC<Props> = ({ language }) => {
+  const isAr = language === 'ar';
+  const { toast } = useAppToast();
+  const [profession, setProfession] = useState<TaxProfession>('avocat');
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  useEffect(() => { loadRules(); }, [profession]);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      setRules(await taxRuleService.getRules(profession));
+    } catch (err: any) {
+      toast(isAr ? 'خطأ في تحميل القواعد الجبائية' : 'Erreur chargement des règles fiscales', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ruleState = (rule: TaxRule): RuleState => {
+    const now = Date.now();
+    if (new Date(rule.applicableFrom).getTime() > now) return 'scheduled';
+    if (rule.applicableTo && new Date(rule.applicableTo).getTime() <= now) return 'ended';
+    return 'current';
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(isAr ? 'ar-DZ' : 'fr-FR');
+
+  const formatRate = (rule: TaxRule) => rule.isPercentage
+    ? `${Math.round(rule.rate * 10000) / 100} %`
+    : `${rule.rate.toLocaleString()} DA`;
+
+  const scheduleRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const optional = (value: string) => value.trim() === '' ? undefined : Number(value);
+    const rate = Number(form.rate);
+
+    setSaving(true);
+    try {
+      await taxRuleService.scheduleRate({
+        profession,
+        taxType: form.taxType,
+        isPercentage: form.isPercentage,
+        rate: form.isPercentage ? rate / 100 : rate,
+        minimumAmount: optional(form.minimumAmount),
+        maximumAmount: optional(form.maximumAmount),
+        exemptionThreshold: optional(form.exemptionThreshold),
+        applicableFrom: form.applicableFrom,
+        legalReference: form.legalReference,
+      });
+      toast(isAr ? 'تمت برمجة النسبة الجديدة' : 'Nouveau taux programmé', 'success');
+      setForm(emptyForm());
+      loadRules();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ' : 'Erreur'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelRate = async (rule: TaxRule) => {
+    if (!confirm(isAr ? 'إلغاء هذه النسبة المبرمجة؟' : `Annuler le taux programmé au ${formatDate(rule.applicableFrom)} ?`)) return;
+    try {
+      await taxRuleService.cancelScheduledRate(rule.id);
+      toast(isAr ? 'تم إلغاء النسبة' : 'Taux programmé annulé', 'success');
+      loadRules();
+    } catch (err: any) {
+      toast(err.message || (isAr ? 'خطأ' : 'Erreur'), 'error');
+    }
+  };
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-800 dark:text-slate-200';
+  const labelClass = 'block text-xs font-semibold text-slate-500 mb-1';
+
+  const taxTypes = (Object.keys(TAX_TYPES) as TaxType[]).filter(type => rules.some(rule => rule.taxType === type));
+
+  return (
+    <div className="space-y-6" dir={isAr ? 'rtl' : 'ltr'}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+            <Percent size={22} className="text-legal-gold" />
+            {isAr ? 'الجباية' : 'Fiscalité'}
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {isAr
+              ? 'تحتفظ كل فاتورة بنسخة القاعدة المطبقة'
+              : 'Chaque facture garde la version de la règle appliquée'}
+          </p>
+        </div>
+        <button onClick={loadRules} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors">
+          <RefreshCw size={18} className={loading ? 'animate-spin text-slate-400' : 'text-slate-400'} />
+        </button>
+      </div>
+
+      {/* Professions */}
+      <div className="flex flex-wrap gap-2">
+        {PROFESSIONS.map(p => (
+          <button
+            key={p.value}
+            onClick={() => setProfession(p.value)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              profession === p.value ? 'bg-red-600 text-white' : 'bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-red-400'
+            }`}
+          >
+            {isAr ? p.labelAr : p.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Programmation d'un nouveau taux */}
+      <form onSubmit={scheduleRate} className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm p-5 space-y-4">
+        <h3 className="font-bold text-slate-800 dark:text-slate-200 flex items-center gap-2">
+          <CalendarClock size={18} className="text-blue-500" />
+          {isAr ? 'برمجة نسبة جديدة (قانون المالية)' : 'Programmer un nouveau taux (loi de finances)'}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>{isAr ? 'الضريبة' : 'Taxe'}</label>
+            <select value={form.taxType} onChange={e => setForm({ ...form, taxType: e.target.value as TaxType })} className={inputClass}>
+              {(Object.keys(TAX_TYPES) as TaxType[]).map(type => (
+                <option key={type} value={type}>{isAr ? TAX_TYPES[type].labelAr : TAX_TYPES[type].label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{isAr ? 'النوع' : 'Calcul'}</label>
+            <select
+              value={form.isPercentage ? 'percentage' : 'fixed'}
+              onChange={e => setForm({ ...form, isPercentage: e.target.value === 'percentage', minimumAmount: '', maximumAmount: '' })}
+              className={inputClass}
+            >
+              <option value="percentage">{isAr ? 'نسبة مئوية' : 'Taux (%)'}</option>
+              <option value="fixed">{isAr ? 'مبلغ ثابت' : 'Montant fixe (DA)'}</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{form.isPercentage ? (isAr ? 'النسبة %' : 'Taux %') : (isAr ? 'المبلغ دج' : 'Montant DA')}</label>
+            <input type="number" min="0" step="0.01" required value={form.rate} onChange={e => setForm({ ...form, rate: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{isAr ? 'ساري ابتداء من' : 'En vigueur à partir du'}</label>
+            <input type="date" min={toDateInput(tomorrow)} required value={form.applicableFrom} onChange={e => setForm({ ...form, applicableFrom: e.target.value })} className={inputClass} />
+          </div>
+          {form.isPercentage && (
+            <>
+              <div>
+                <label className={labelClass}>{isAr ? 'الحد الأدنى دج' : 'Minimum DA'}</label>
+                <input type="number" min="0" step="0.01" value={form.minimumAmount} onChange={e => setForm({ ...form, minimumAmount: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>{isAr ? 'الحد الأقصى دج' : 'Maximum DA'}</label>
+                <input type="number" min="0" step="0.01" value={form.maximumAmount} onChange={e => setForm({ ...form, maximumAmount: e.target.value })} className={inputClass} />
+              </div>
+            </>
+          )}
+          <div>
+            <label className={labelClass}>{isAr ? 'عتبة الإعفاء دج' : "Seuil d'exonération DA"}</label>
+            <input type="number" min="0" step="0.01" value={form.exemptionThreshold} onChange={e => setForm({ ...form, exemptionThreshold: e.target.value })} className={inputClass} />
+          </div>
+          <div className={form.isPercentage ? '' : 'md:col-span-3'}>
+            <label className={labelClass}>{isAr ? 'المرجع القانوني' : 'Référence légale'}</label>
+            <input type="text" required value={form.legalReference} onChange={e => setForm({ ...form, legalReference: e.target.value })}
+              placeholder={isAr ? 'قانون المالية لسنة ...' : 'Loi de finances pour ..., art. ...'} className={inputClass} />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" disabled={saving} className="px-4 py-2 rounded-xl bg-red-600 hover:bg-red-700 text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+            <Plus size={16} />
+            {isAr ? 'برمجة' : 'Programmer'}
+          </button>
+        </div>
+      </form>
+
+      {/* Versions par taxe */}
+      {loading ? (
+        <div className="p-12 text-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-legal-gold mx-auto" />
+          <p className="mt-3 text-slate-400 text-sm">{isAr ? 'جاري التحميل...' : 'Chargement...'}</p>
+        </div>
+      ) : taxTypes.length === 0 ? (
+        <div className="p-12 text-center text-slate-400">
+          <Percent size={40} className="mx-auto mb-3 opacity-30" />
+          <p>{isAr ? 'لا توجد قواعد جبائية' : 'Aucune règle fiscale'}</p>
+        </div>
+      ) : taxTypes.map(type => (
+        <div key={type} className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 shadow-sm">
+          <div className="px-5 py-3 border-b dark:border-slate-800 font-bold text-slate-800 dark:text-slate-200 flex items-center gap-2">
+            <History size={16} className="text-slate-400" />
+            {isAr ? TAX_TYPES[type].labelAr : TAX_TYPES[type].label}
+          </div>
+          <div className="divide-y dark:divide-slate-800">
+            {rules.filter(rule => rule.taxType === type).map(rule => {
+              const state = ruleState(rule);
+              return (
+                <div key={rule.id} className="p-5 flex items-center gap-4">
+                  <div className="flex-shrink-0">
+                    {state === 'scheduled' ? <CalendarClock size={20} className="text-blue-500" /> :
+                     state === 'current'   ? <CheckCircle2 size={20} className="text-green-500" /> :
+                                             <History size={20} className="text-slate-400" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-semibold text-slate-800 dark:text-slate-200">{formatRate(rule)}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${STATE_COLORS[state]}`}>
+                        {state === 'scheduled' ? (isAr ? 'مبرمجة' : 'Programmé') :
+                         state === 'current'   ? (isAr ? 'سارية' : 'En vigueur') :
+                                                 (isAr ? 'منتهية' : 'Terminé')}
+                      </span>
+                      {!rule.isActive && <span className="text-xs text-slate-400">{isAr ? 'معطلة' : 'Désactivée'}</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                      <span>
+                        {isAr ? 'من' : 'Du'} {formatDate(rule.applicableFrom)}
+                        {rule.applicableTo && <> {isAr ? 'إلى' : 'au'} {formatDate(rule.applicableTo)} {isAr ? '(مستثنى)' : '(exclu)'}</>}
+                      </span>
+                      {rule.minimumAmount !== undefined && <span>Min. {rule.minimumAmount.toLocaleString()} DA</span>}
+                      {rule.maximumAmount !== undefined && <span>Max. {rule.maximumAmount.toLocaleString()} DA</span>}
+                      {rule.exemptionThreshold !== undefined && (
+                        <span>{isAr ? 'إعفاء حتى' : 'Exonéré jusqu\'à'} {rule.exemptionThreshold.toLocaleString()} DA</span>
+                      )}
+                      <span className="italic">{rule.legalReference}</span>
+                    </div>
+                  </div>
+                  {state === 'scheduled' && (
+                    <button
+                      onClick={() => cancelRate(rule)}
+                      title={isAr ? 'إلغاء' : 'Annuler'}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TaxRulesPanel;
@@ -9,8 +9,9 @@ import {
   LegalDeadline,
   DeadlineCategory,
   DeadlinePriority,
-  calculateDeadlineDate,
+  calculateRuleDeadline,
 } from '../../services/legalDeadlineService';
+import { formatRuleDuration } from '../../../server/src/legal/proceduralDeadlineRules';
 import { Language } from '../../../types';
 
 interface Props {
@@ -37,7 +38,7 @@ const STATUS_CONFIG = {
   completed: { bg: 'bg-green-900/20',  border: 'border-green-800',  text: 'text-green-500',  label_fr: 'Terminé', label_ar: 'مكتمل' },
 };
 
-const PRESET_KEYS = Object.keys(ALGERIAN_LEGAL_DEADLINES) as (keyof typeof ALGERIAN_LEGAL_DEADLINES)[];
+const PRESET_KEYS = Object.keys(ALGERIAN_LEGAL_DEADLINES);
 
 export default function LegalDeadlineTracker({ language, userId }: Props) {
   const isAr = language === 'ar';
@@ -59,6 +60,8 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
   const load = useCallback(async () => {
     try {
       setLoading(true);
+      // Dates officielles des fêtes religieuses ; à défaut, le calcul hégirien s'applique
+      await legalDeadlineService.loadCalendarOverrides().catch(() => []);
       const data = await legalDeadlineService.getAll(userId);
       setDeadlines(data);
     } catch (e) {
@@ -75,13 +78,14 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
     if (!selectedPreset && !customTitle) return;
     setSubmitting(true);
     try {
-      const preset = selectedPreset ? ALGERIAN_LEGAL_DEADLINES[selectedPreset as keyof typeof ALGERIAN_LEGAL_DEADLINES] : null;
+      const preset = selectedPreset ? ALGERIAN_LEGAL_DEADLINES[selectedPreset] : null;
       await legalDeadlineService.create(userId, {
         title: preset ? preset.label_fr : customTitle,
         title_ar: preset ? preset.label_ar : undefined,
         category: preset ? preset.category : 'custom',
         base_date: baseDate,
-        days_total: preset ? preset.days : 30,
+        days_total: 30,
+        rule_code: preset ? preset.rule_code : undefined,
         legal_reference: preset ? preset.reference : undefined,
         priority: preset ? preset.priority : 'medium' as DeadlinePriority,
         notes: notes || undefined,
@@ -122,10 +126,8 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
     completed:deadlines.filter(d => d.status === 'completed').length,
   };
 
-  const previewDate = selectedPreset
-    ? calculateDeadlineDate(new Date(baseDate), ALGERIAN_LEGAL_DEADLINES[selectedPreset as keyof typeof ALGERIAN_LEGAL_DEADLINES].days)
-        .toLocaleDateString(isAr ? 'ar-DZ' : 'fr-DZ')
-    : null;
+  const preview = selectedPreset ? calculateRuleDeadline(selectedPreset, baseDate) : null;
+  const previewDate = preview ? preview.deadline.toLocaleDateString(isAr ? 'ar-DZ' : 'fr-DZ') : null;
 
   return (
     <div className={`min-h-screen bg-slate-950 text-white p-4 md:p-6 ${isAr ? 'rtl' : 'ltr'}`}>
@@ -223,6 +225,11 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
                     <span className="text-xs text-slate-500 bg-slate-800 px-2 py-0.5 rounded-full">
                       {isAr ? CATEGORY_LABELS[d.category]?.ar : CATEGORY_LABELS[d.category]?.fr}
                     </span>
+                    {d.is_provisional && (
+                      <span className="text-xs text-amber-400 bg-amber-900/20 px-2 py-0.5 rounded-full">
+                        {isAr ? 'مؤقت — في انتظار التبليغ' : 'Provisoire — en attente de signification'}
+                      </span>
+                    )}
                     {d.legal_reference && (
                       <span className="text-xs text-slate-500 flex items-center gap-1">
                         <BookOpen className="w-3 h-3" />{d.legal_reference}
@@ -298,7 +305,7 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
                     const p = ALGERIAN_LEGAL_DEADLINES[key];
                     return (
                       <option key={key} value={key}>
-                        {isAr ? p.label_ar : p.label_fr} — {p.days}j ({p.reference})
+                        {isAr ? p.label_ar : p.label_fr} — {formatRuleDuration(p.duration, language)} ({p.reference})
                       </option>
                     );
                   })}
@@ -342,7 +349,7 @@ export default function LegalDeadlineTracker({ language, userId }: Props) {
                   <span className="text-slate-400">{isAr ? 'تاريخ الانتهاء: ' : 'Date limite calculée : '}</span>
                   <span className="text-orange-300 font-semibold">{previewDate}</span>
                   <span className="text-slate-500 text-xs ml-2">
-                    ({ALGERIAN_LEGAL_DEADLINES[selectedPreset as keyof typeof ALGERIAN_LEGAL_DEADLINES]?.days}j)
+                    ({preview?.totalDays}j — {preview?.reference})
                   </span>
                 </div>
               )}
@@ -23,6 +23,7 @@ import { Language } from '../../../types';
 
 interface DocumentCardProps {
   document: CaseDocument;
+  thumbnailUrl?: string;
   onView: (document: CaseDocument) => void;
   onDownload: (document: CaseDocument) => void;
   onEdit: (document: CaseDocument) => void;
@@ -66,6 +67,7 @@ const CATEGORY_LABELS: Record<DocumentCategory, { fr: string; ar: string; color:
 
 const DocumentCard: React.FC<DocumentCardProps> = ({
   document,
+  thumbnailUrl,
   onView,
   onDownload,
   onEdit,
@@ -75,6 +77,7 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
 }) => {
   const isAr = language === 'ar';
   const [showMenu, setShowMenu] = useState(false);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
 
   // Get file icon based on type
   const getFileIcon = () => {
@@ -126,13 +129,32 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
       {/* Main Content */}
       <div className="p-4">
         <div className="flex items-start gap-4">
-          {/* File Icon */}
-          <div
-            onClick={() => onView(document)}
-            className="flex-shrink-0 cursor-pointer hover:scale-110 transition-transform"
-          >
-            {getFileIcon()}
-          </div>
+          {/* Thumbnail (first page or image), file icon otherwise */}
+          {thumbnailUrl && !thumbnailFailed ? (
+            <div
+              onClick={() => onView(document)}
+              className={`
+                flex-shrink-0 w-16 h-20 rounded-lg overflow-hidden border cursor-pointer
+                hover:scale-105 transition-transform
+                ${theme === 'dark' ? 'border-slate-700 bg-slate-800' : 'border-slate-200 bg-slate-50'}
+              `}
+            >
+              <img
+                src={thumbnailUrl}
+                alt={document.fileName}
+                loading="lazy"
+                onError={() => setThumbnailFailed(true)}
+                className="w-full h-full object-cover object-top"
+              />
+            </div>
+          ) : (
+            <div
+              onClick={() => onView(document)}
+              className="flex-shrink-0 cursor-pointer hover:scale-110 transition-transform"
+            >
+              {getFileIcon()}
+            </div>
+          )}
 
           {/* File Info */}
           <div className="flex-1 min-w-0">
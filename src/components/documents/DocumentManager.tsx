@@ -27,6 +27,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({ userId, language }) =
   const isAr = language === 'ar';
 
   const [documents, setDocuments] = useState<CaseDocument[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
   const [cases, setCases] = useState<{ id: string; title: string; case_number: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
@@ -49,7 +50,11 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({ userId, language }) =
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
-      if (docs) setDocuments(docs.map(mapDoc));
+      if (docs) {
+        const mapped = docs.map(mapDoc);
+        setDocuments(mapped);
+        setThumbnails(await documentService.getThumbnailUrls(mapped));
+      }
 
       // Load cases for filter dropdown
       const { data: casesData } = await supabase
@@ -70,6 +75,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({ userId, language }) =
     id: d.id, caseId: d.case_id, userId: d.user_id,
     fileName: d.file_name, fileSize: d.file_size, fileType: d.file_type,
     mimeType: d.mime_type, storagePath: d.storage_path, storageBucket: d.storage_bucket,
+    thumbnailPath: d.thumbnail_path ?? undefined,
     category: d.category, description: d.description, tags: d.tags || [],
     version: d.version, parentDocumentId: d.parent_document_id,
     isLatestVersion: d.is_latest_version,
@@ -233,6 +239,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({ userId, language }) =
               <DocumentCard
                 key={doc.id}
                 document={doc}
+                thumbnailUrl={thumbnails[doc.id]}
                 onView={handleView}
                 onDownload={handleDownload}
                 onEdit={handleEdit}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { FileText, MessageSquare, Download, Eye, Lock, User, Calendar, DollarSign, Bell, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import type { Language } from '@/types';
+import { provisionService, type ProvisionStatement, type ProvisionTransactionType } from '../../services/provisionService';
 
 interface ClientPortalProps {
   clientId: string;
@@ -120,6 +121,150 @@ const InvoicesTab: React.FC<{ clientId: string; isAr: boolean }> = ({ clientId,
   );
 };
 
+// ─── Provisions Tab ──────────────────────────────────────────────────────────
+const ProvisionsTab: React.FC<{ clientId: string; isAr: boolean }> = ({ clientId, isAr }) => {
+  const [statement, setStatement] = useState<ProvisionStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setStatement(await provisionService.getStatement(clientId));
+      } catch (e) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [clientId]);
+
+  const downloadPdf = async () => {
+    setDownloading(true);
+    try {
+      const url = URL.createObjectURL(await provisionService.getStatementPdf(clientId));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `releve-provisions-${new Date().toISOString().slice(0, 10)}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const operationLabels: Record<ProvisionTransactionType, { label: string; labelAr: string }> = {
+    deposit:  { label: 'Provision reçue',        labelAr: 'تسبيق مستلم' },
+    drawdown: { label: 'Imputation sur facture', labelAr: 'خصم من فاتورة' },
+    refund:   { label: 'Restitution',            labelAr: 'استرجاع' },
+  };
+
+  const fmt = (n: number) => new Intl.NumberFormat('fr-DZ', { style: 'currency', currency: 'DZD', minimumFractionDigits: 2 }).format(n);
+
+  if (loading) return (
+    <div className="flex items-center justify-center py-20">
+      <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600" />
+    </div>
+  );
+
+  if (!statement) return (
+    <div className="text-center py-20 text-slate-400">
+      <AlertCircle size={48} className="mx-auto mb-3 opacity-20" />
+      <p>{error || (isAr ? 'تعذر تحميل كشف الحساب' : 'Relevé indisponible')}</p>
+    </div>
+  );
+
+  const drawdowns = statement.balances.reduce((s, b) => s + b.drawdowns, 0);
+  const refunds   = statement.balances.reduce((s, b) => s + b.refunds, 0);
+  const deposits  = statement.balances.reduce((s, b) => s + b.deposits, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-4">
+        {[
+          { label: isAr ? 'التسبيقات المستلمة' : 'Provisions reçues', value: fmt(deposits), cls: 'text-white' },
+          { label: isAr ? 'المخصوم والمسترجع' : 'Imputé / restitué', value: fmt(drawdowns + refunds), cls: 'text-orange-400' },
+          { label: isAr ? 'الرصيد المتاح' : 'Solde disponible', value: fmt(statement.closingBalance), cls: 'text-green-400' },
+        ].map((s, i) => (
+          <div key={i} className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-5 text-center">
+            <p className="text-xs text-slate-500 mb-1">{s.label}</p>
+            <p className={`text-xl font-bold ${s.cls}`}>{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Balances per case */}
+      {statement.balances.length > 1 && (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-5 space-y-2">
+          {statement.balances.map(b => (
+            <div key={b.caseId ?? 'general'} className="flex items-center justify-between text-sm">
+              <span className="text-slate-600 dark:text-slate-300">
+                {b.caseNumber ? `${isAr ? 'الملف' : 'Dossier'} ${b.caseNumber}` : (isAr ? 'تسبيق عام' : 'Provision générale')}
+              </span>
+              <span className="font-semibold text-slate-900 dark:text-slate-100">{fmt(b.balance)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-slate-900 dark:text-slate-100">{isAr ? 'كشف الحساب' : 'Relevé de compte'}</h3>
+        <button
+          onClick={downloadPdf}
+          disabled={downloading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Download size={16} />
+          {isAr ? 'تحميل الكشف (PDF)' : 'Télécharger le relevé (PDF)'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Lines */}
+      {statement.lines.length === 0 ? (
+        <div className="text-center py-20 text-slate-400">
+          <Lock size={48} className="mx-auto mb-3 opacity-20" />
+          <p>{isAr ? 'لا توجد عمليات' : 'Aucune opération'}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {[...statement.lines].reverse().map(line => {
+            const t = line.transaction;
+            const op = operationLabels[t.transactionType];
+            return (
+              <div key={t.id} className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-5 flex items-center justify-between">
+                <div>
+                  <p className="font-bold text-slate-900 dark:text-slate-100">{isAr ? op.labelAr : op.label}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {new Date(t.transactionDate).toLocaleDateString()}
+                    {t.caseNumber && ` · ${isAr ? 'الملف' : 'Dossier'} ${t.caseNumber}`}
+                    {t.invoiceNumber && ` · ${isAr ? 'الفاتورة' : 'Facture'} ${t.invoiceNumber}`}
+                  </p>
+                  {t.description && <p className="text-xs text-slate-400 mt-0.5 truncate max-w-xs">{t.description}</p>}
+                </div>
+                <div className="text-right">
+                  <p className={`text-lg font-bold ${line.credit ? 'text-green-600' : 'text-orange-600'}`}>
+                    {line.credit ? `+${fmt(line.credit)}` : `-${fmt(line.debit)}`}
+                  </p>
+                  <p className="text-xs text-slate-500">{isAr ? 'الرصيد' : 'Solde'}: {fmt(line.balance)}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface Case {
   id: string;
   case_number: string;
@@ -149,7 +294,7 @@ interface Message {
 
 export const ClientPortal: React.FC<ClientPortalProps> = ({ clientId, language }) => {
   const isAr = language === 'ar';
-  const [activeTab, setActiveTab] = useState<'cases' | 'documents' | 'messages' | 'invoices'>('cases');
+  const [activeTab, setActiveTab] = useState<'cases' | 'documents' | 'messages' | 'invoices' | 'provisions'>('cases');
   const [cases, setCases] = useState<Case[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -296,6 +441,17 @@ export const ClientPortal: React.FC<ClientPortalProps> = ({ clientId, language }
               <DollarSign size={20} />
               {isAr ? 'الفواتير' : 'Factures'}
             </button>
+            <button
+              onClick={() => setActiveTab('provisions')}
+              className={`flex-1 px-6 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+                activeTab === 'provisions'
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              <Lock size={20} />
+              {isAr ? 'التسبيقات' : 'Provisions'}
+            </button>
           </div>
         </div>
 
@@ -441,6 +597,11 @@ export const ClientPortal: React.FC<ClientPortalProps> = ({ clientId, language }
             {activeTab === 'invoices' && (
               <InvoicesTab clientId={clientId} isAr={isAr} />
             )}
+
+            {/* Provisions Tab */}
+            {activeTab === 'provisions' && (
+              <ProvisionsTab clientId={clientId} isAr={isAr} />
+            )}
           </>
         )}
       </div>
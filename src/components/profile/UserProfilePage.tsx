@@ -9,6 +9,7 @@ import {
   CheckCircle, AlertCircle, Shield, Star, Clock
 } from 'lucide-react';
 import TwoFactorSetup from '../auth/TwoFactorSetup';
+import DeviceSessions from '../auth/DeviceSessions';
 import AuditLogViewer from '../admin/AuditLogViewer';
 
 interface Props {
@@ -320,6 +321,9 @@ export default function UserProfilePage({ user, language, onUpdate }: Props) {
           onUpdate={(enabled) => onUpdate({ ...user, mfaEnabled: enabled })}
         />
 
+        {/* Devices */}
+        <DeviceSessions language={language} />
+
         {/* Audit log */}
         <AuditLogViewer userId={user.id} language={language} />
 
@@ -1,7 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, Square, Clock, Calendar, DollarSign, FileText } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Pause, Square, Clock, Calendar, DollarSign, Trash2, Coffee, CalendarCheck, Check, X } from 'lucide-react';
 import type { Language } from '@/types';
 import { useAppToast } from '../../contexts/ToastContext';
+import {
+  runningTimerService,
+  ActivityType,
+  IdleDecision,
+  LawyerCase,
+  RunningTimer,
+  TimeEntry,
+  TimeEntrySuggestion
+} from '../../services/runningTimerService';
 
 interface TimeTrackerProps {
   userId: string;
@@ -9,54 +18,126 @@ interface TimeTrackerProps {
   caseId?: string;
 }
 
-interface TimeEntry {
-  id: string;
-  user_id: string;
-  case_id?: string;
-  case_title?: string;
-  description: string;
-  start_time: string;
-  end_time?: string;
-  duration_minutes?: number;
-  is_billable: boolean;
-  hourly_rate?: number;
-  amount?: number;
-  status: 'running' | 'stopped' | 'billed';
-  created_at: string;
-}
+/** Synchronisation avec les autres appareils */
+const POLL_INTERVAL_MS = 30 * 1000;
+/** Une activité signalée au serveur par minute au plus */
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+/** À partir de cette heure, les suggestions portent sur la journée en cours */
+const END_OF_DAY_HOUR = 17;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'] as const;
+
+const ACTIVITY_TYPES: { value: ActivityType; fr: string; ar: string }[] = [
+  { value: 'research', fr: 'Recherche', ar: 'بحث' },
+  { value: 'drafting', fr: 'Rédaction', ar: 'تحرير' },
+  { value: 'review', fr: 'Révision', ar: 'مراجعة' },
+  { value: 'meeting', fr: 'Rendez-vous', ar: 'اجتماع' },
+  { value: 'call', fr: 'Appel', ar: 'مكالمة' },
+  { value: 'hearing', fr: 'Audience', ar: 'جلسة' },
+  { value: 'travel', fr: 'Déplacement', ar: 'تنقل' },
+  { value: 'correspondence', fr: 'Correspondance', ar: 'مراسلة' },
+  { value: 'filing', fr: 'Dépôt', ar: 'إيداع' },
+  { value: 'negotiation', fr: 'Négociation', ar: 'تفاوض' },
+  { value: 'other', fr: 'Autre', ar: 'أخرى' }
+];
+
+/** Journée des suggestions (AAAA-MM-JJ) : aujourd'hui en fin de journée, la veille sinon */
+const suggestionDay = (now: Date): string => {
+  const day = new Date(now);
+  if (now.getHours() < END_OF_DAY_HOUR) {
+    day.setDate(day.getDate() - 1);
+  }
+  return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
 
 export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, caseId }) => {
   const { toast } = useAppToast();
-  const [isRunning, setIsRunning] = useState(false);
-  const [currentEntry, setCurrentEntry] = useState<TimeEntry | null>(null);
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [timerReceivedAt, setTimerReceivedAt] = useState(Date.now());
   const [elapsedTime, setElapsedTime] = useState(0);
   const [description, setDescription] = useState('');
   const [selectedCaseId, setSelectedCaseId] = useState(caseId || '');
+  const [activityType, setActivityType] = useState<ActivityType>('other');
   const [isBillable, setIsBillable] = useState(true);
   const [hourlyRate, setHourlyRate] = useState<number>(15000);
   const [recentEntries, setRecentEntries] = useState<TimeEntry[]>([]);
-  const [cases, setCases] = useState<any[]>([]);
-  
+  const [cases, setCases] = useState<LawyerCase[]>([]);
+  const [suggestions, setSuggestions] = useState<TimeEntrySuggestion[]>([]);
+  const [suggestionCases, setSuggestionCases] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const lastHeartbeat = useRef(0);
+
   const isAr = language === 'ar';
+  const isRunning = timer?.state === 'running';
+
+  const applyTimer = useCallback((next: RunningTimer | null) => {
+    setTimer(next);
+    setTimerReceivedAt(Date.now());
+    if (next) {
+      setDescription(next.description);
+      setActivityType(next.activityType);
+      setIsBillable(next.isBillable);
+      if (next.caseId) setSelectedCaseId(next.caseId);
+      if (next.hourlyRate !== undefined) setHourlyRate(next.hourlyRate);
+    }
+  }, []);
+
+  const loadTimer = useCallback(async () => {
+    try {
+      applyTimer(await runningTimerService.getTimer());
+    } catch (error) {
+      console.error('Error loading timer:', error);
+    }
+  }, [applyTimer]);
 
   useEffect(() => {
     loadCases();
     loadRecentEntries();
-    checkRunningTimer();
+    loadSuggestions();
+    loadTimer();
     loadHourlyRate();
   }, [userId]);
 
+  // Le chronomètre a pu être démarré, mis en pause ou arrêté sur un autre appareil
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning && currentEntry) {
-      interval = setInterval(() => {
-        const start = new Date(currentEntry.start_time).getTime();
-        const now = Date.now();
-        setElapsedTime(Math.floor((now - start) / 1000));
-      }, 1000);
-    }
+    const interval = setInterval(loadTimer, POLL_INTERVAL_MS);
+    window.addEventListener('focus', loadTimer);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', loadTimer);
+    };
+  }, [loadTimer]);
+
+  useEffect(() => {
+    const tick = () => {
+      if (!timer) {
+        setElapsedTime(0);
+        return;
+      }
+      const sinceResponse = isRunning ? Math.floor((Date.now() - timerReceivedAt) / 1000) : 0;
+      setElapsedTime(timer.elapsedSeconds + sinceResponse);
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [isRunning, currentEntry]);
+  }, [timer, timerReceivedAt, isRunning]);
+
+  // Activité de l'avocat : le serveur détecte l'inactivité au-delà du seuil
+  useEffect(() => {
+    if (!isRunning || timer?.idleSince) return undefined;
+
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastHeartbeat.current < HEARTBEAT_INTERVAL_MS) return;
+      lastHeartbeat.current = now;
+      runningTimerService.heartbeat()
+        .then(applyTimer)
+        .catch(() => loadTimer());
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+  }, [isRunning, timer?.idleSince, applyTimer, loadTimer]);
 
   const loadHourlyRate = async () => {
     try {
@@ -74,18 +155,8 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
 
   const loadCases = async () => {
     try {
-      const { supabase } = await import('../../lib/supabase');
-      const { data, error } = await supabase
-        .from('cases')
-        .select('id, case_number, title')
-        .eq('user_id', userId)
-        .in('status', ['nouveau', 'en_cours', 'audience'])
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (!error && data) {
-        setCases(data);
-      }
+      const data = await runningTimerService.getCases();
+      setCases(data.filter(c => !['closed', 'archived', 'cancelled'].includes(c.status)));
     } catch (error) {
       console.error('Error loading cases:', error);
     }
@@ -93,49 +164,29 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
 
   const loadRecentEntries = async () => {
     try {
-      const { supabase } = await import('../../lib/supabase');
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select(`
-          *,
-          cases (case_number, title)
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (!error && data) {
-        const entries = data.map(entry => ({
-          ...entry,
-          case_title: entry.cases ? `${entry.cases.case_number} - ${entry.cases.title}` : undefined
-        }));
-        setRecentEntries(entries);
-      }
+      setRecentEntries(await runningTimerService.getRecentEntries(10));
     } catch (error) {
       console.error('Error loading entries:', error);
     }
   };
 
-  const checkRunningTimer = async () => {
+  const loadSuggestions = async () => {
     try {
-      const { supabase } = await import('../../lib/supabase');
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('status', 'running')
-        .single();
-
-      if (!error && data) {
-        setCurrentEntry(data);
-        setIsRunning(true);
-        setDescription(data.description);
-        setSelectedCaseId(data.case_id || '');
-        setIsBillable(data.is_billable);
-        setHourlyRate(data.hourly_rate || 15000);
-      }
+      setSuggestions(await runningTimerService.getSuggestions(suggestionDay(new Date())));
     } catch (error) {
-      // No running timer
+      console.error('Error loading suggestions:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: any) {
+      toast(err.message || fallback, 'error');
+      loadTimer();
+    } finally {
+      setBusy(false);
     }
   };
 
@@ -145,66 +196,87 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
       return;
     }
 
-    try {
-      const { supabase } = await import('../../lib/supabase');
-      const { data, error } = await supabase
-        .from('time_entries')
-        .insert([{
-          user_id: userId,
-          case_id: selectedCaseId || null,
-          description: description.trim(),
-          start_time: new Date().toISOString(),
-          is_billable: isBillable,
-          hourly_rate: isBillable ? hourlyRate : null,
-          status: 'running'
-        }])
-        .select()
-        .single();
+    await runAction(async () => {
+      lastHeartbeat.current = Date.now();
+      applyTimer(await runningTimerService.start({
+        ...(selectedCaseId ? { caseId: selectedCaseId } : {}),
+        description: description.trim(),
+        activityType,
+        isBillable,
+        ...(isBillable ? { hourlyRate } : {})
+      }));
+    }, isAr ? 'خطأ في بدء المؤقت' : 'Erreur lors du démarrage');
+  };
 
-      if (error) throw error;
+  const pauseTimer = () => runAction(async () => {
+    applyTimer(await runningTimerService.pause());
+  }, isAr ? 'خطأ في الإيقاف المؤقت' : 'Erreur lors de la pause');
 
-      setCurrentEntry(data);
-      setIsRunning(true);
-      setElapsedTime(0);
-    } catch (error) {
-      console.error('Error starting timer:', error);
-      toast(isAr ? 'خطأ في بدء المؤقت' : 'Erreur lors du démarrage', 'error');
-    }
+  const resumeTimer = () => runAction(async () => {
+    lastHeartbeat.current = Date.now();
+    applyTimer(await runningTimerService.resume());
+  }, isAr ? 'خطأ في الاستئناف' : 'Erreur lors de la reprise');
+
+  const resolveIdle = (decision: IdleDecision) => runAction(async () => {
+    lastHeartbeat.current = Date.now();
+    applyTimer(await runningTimerService.resolveIdle(decision));
+  }, isAr ? 'خطأ' : 'Erreur');
+
+  const resetForm = () => {
+    applyTimer(null);
+    setDescription('');
+    setSelectedCaseId(caseId || '');
   };
 
   const stopTimer = async () => {
-    if (!currentEntry) return;
+    if (!timer) return;
+    if (!timer.caseId && !selectedCaseId) {
+      toast(isAr ? 'يرجى اختيار الملف لتسجيل الوقت' : 'Choisissez le dossier pour enregistrer le temps', 'warning');
+      return;
+    }
 
-    try {
-      const { supabase } = await import('../../lib/supabase');
-      const endTime = new Date();
-      const startTime = new Date(currentEntry.start_time);
-      const durationMinutes = Math.floor((endTime.getTime() - startTime.getTime()) / 60000);
-      const amount = isBillable && hourlyRate ? (durationMinutes / 60) * hourlyRate : null;
-
-      const { error } = await supabase
-        .from('time_entries')
-        .update({
-          end_time: endTime.toISOString(),
-          duration_minutes: durationMinutes,
-          amount: amount,
-          status: 'stopped'
-        })
-        .eq('id', currentEntry.id);
-
-      if (error) throw error;
-
-      setIsRunning(false);
-      setCurrentEntry(null);
-      setElapsedTime(0);
-      setDescription('');
+    await runAction(async () => {
+      const entry = await runningTimerService.stop(timer.caseId ? undefined : selectedCaseId);
+      toast(
+        isAr ? `تم تسجيل ${formatDuration(entry.durationMinutes)}` : `${formatDuration(entry.durationMinutes)} enregistrées`,
+        'success'
+      );
+      resetForm();
       loadRecentEntries();
-    } catch (error) {
-      console.error('Error stopping timer:', error);
-      toast(isAr ? 'خطأ في إيقاف المؤقت' : 'Erreur lors de l\'arrêt', 'error');
+    }, isAr ? 'خطأ في إيقاف المؤقت' : 'Erreur lors de l\'arrêt');
+  };
+
+  const discardTimer = async () => {
+    if (!window.confirm(isAr ? 'حذف المؤقت دون تسجيل الوقت؟' : 'Abandonner le chronomètre sans enregistrer le temps ?')) return;
+
+    await runAction(async () => {
+      await runningTimerService.discard();
+      resetForm();
+    }, isAr ? 'خطأ' : 'Erreur');
+  };
+
+  const acceptSuggestion = async (suggestion: TimeEntrySuggestion) => {
+    const suggestionCaseId = suggestion.caseId || suggestionCases[suggestion.calendarEventId];
+    if (!suggestionCaseId) {
+      toast(isAr ? 'يرجى اختيار الملف لتسجيل الوقت' : 'Choisissez le dossier pour enregistrer le temps', 'warning');
+      return;
     }
+
+    await runAction(async () => {
+      await runningTimerService.acceptSuggestion(suggestion.calendarEventId, {
+        caseId: suggestionCaseId,
+        ...(isBillable ? { hourlyRate } : { isBillable: false })
+      });
+      setSuggestions(prev => prev.filter(s => s.calendarEventId !== suggestion.calendarEventId));
+      loadRecentEntries();
+    }, isAr ? 'خطأ' : 'Erreur');
   };
 
+  const dismissSuggestion = (suggestion: TimeEntrySuggestion) => runAction(async () => {
+    await runningTimerService.dismissSuggestion(suggestion.calendarEventId);
+    setSuggestions(prev => prev.filter(s => s.calendarEventId !== suggestion.calendarEventId));
+  }, isAr ? 'خطأ' : 'Erreur');
+
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -229,8 +301,54 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
     }).format(amount);
   };
 
+  const caseLabel = (id?: string) => {
+    const found = cases.find(c => c.id === id);
+    return found ? `${found.caseNumber} - ${found.title}` : undefined;
+  };
+
+  const idleMinutes = timer?.idleSince
+    ? Math.max(0, Math.round((Date.now() - new Date(timer.idleSince).getTime()) / 60000))
+    : 0;
+
   return (
     <div className="space-y-6" dir={isAr ? 'rtl' : 'ltr'}>
+      {/* Idle Modal */}
+      {timer?.idleSince && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-md w-full p-6" dir={isAr ? 'rtl' : 'ltr'}>
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-3 bg-amber-100 dark:bg-amber-900/30 rounded-xl">
+                <Coffee size={24} className="text-amber-600" />
+              </div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+                {isAr ? 'هل ما زلت تعمل؟' : 'Êtes-vous toujours là ?'}
+              </h3>
+            </div>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+              {isAr
+                ? `لا نشاط منذ ${new Date(timer.idleSince).toLocaleTimeString()} (${formatDuration(idleMinutes)}). هل تريد الاحتفاظ بهذا الوقت؟`
+                : `Aucune activité depuis ${new Date(timer.idleSince).toLocaleTimeString()} (${formatDuration(idleMinutes)}). Garder ce temps sur « ${timer.description} » ?`}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => resolveIdle('keep')}
+                disabled={busy}
+                className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isAr ? 'الاحتفاظ بالوقت' : 'Garder ce temps'}
+              </button>
+              <button
+                onClick={() => resolveIdle('discard')}
+                disabled={busy}
+                className="flex-1 px-4 py-3 border dark:border-slate-700 rounded-xl font-bold hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                {isAr ? 'حذف وقت الخمول' : 'Retirer ce temps'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Timer Card */}
       <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6">
         <div className="flex items-center gap-3 mb-6">
@@ -249,12 +367,13 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
 
         {/* Timer Display */}
         <div className="text-center mb-6">
-          <div className="text-6xl font-mono font-bold text-blue-600 mb-2">
+          <div className={`text-6xl font-mono font-bold mb-2 ${timer && !isRunning ? 'text-slate-400' : 'text-blue-600'}`}>
             {formatTime(elapsedTime)}
           </div>
-          {isRunning && currentEntry && (
+          {timer && (
             <p className="text-sm text-slate-500">
-              {isAr ? 'بدأ في' : 'Démarré à'} {new Date(currentEntry.start_time).toLocaleTimeString()}
+              {isAr ? 'بدأ في' : 'Démarré à'} {new Date(timer.startedAt).toLocaleTimeString()}
+              {!isRunning && ` — ${isAr ? 'متوقف مؤقتاً' : 'en pause'}`}
             </p>
           )}
         </div>
@@ -268,30 +387,51 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
             type="text"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            disabled={isRunning}
+            disabled={!!timer}
             placeholder={isAr ? 'مثال: مراجعة العقد، اجتماع مع العميل...' : 'Ex: Révision contrat, réunion client...'}
             className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
           />
         </div>
 
-        {/* Case Selection */}
-        <div className="mb-4">
-          <label className="block text-sm font-medium mb-2">
-            {isAr ? 'الملف (اختياري)' : 'Dossier (optionnel)'}
-          </label>
-          <select
-            value={selectedCaseId}
-            onChange={(e) => setSelectedCaseId(e.target.value)}
-            disabled={isRunning}
-            className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
-          >
-            <option value="">{isAr ? 'بدون ملف' : 'Sans dossier'}</option>
-            {cases.map(c => (
-              <option key={c.id} value={c.id}>
-                {c.case_number} - {c.title}
-              </option>
-            ))}
-          </select>
+        {/* Case & Activity Selection */}
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {timer
+                ? (isAr ? 'الملف (مطلوب عند الإيقاف)' : 'Dossier (requis à l\'arrêt)')
+                : (isAr ? 'الملف (اختياري)' : 'Dossier (optionnel)')}
+            </label>
+            <select
+              value={selectedCaseId}
+              onChange={(e) => setSelectedCaseId(e.target.value)}
+              disabled={!!timer?.caseId}
+              className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+            >
+              <option value="">{isAr ? 'بدون ملف' : 'Sans dossier'}</option>
+              {cases.map(c => (
+                <option key={c.id} value={c.id}>
+                  {c.caseNumber} - {c.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {isAr ? 'نوع النشاط' : 'Type d\'activité'}
+            </label>
+            <select
+              value={activityType}
+              onChange={(e) => setActivityType(e.target.value as ActivityType)}
+              disabled={!!timer}
+              className="w-full px-4 py-3 border dark:border-slate-700 rounded-xl bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+            >
+              {ACTIVITY_TYPES.map(type => (
+                <option key={type.value} value={type.value}>
+                  {isAr ? type.ar : type.fr}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Billable & Rate */}
@@ -302,7 +442,7 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
                 type="checkbox"
                 checked={isBillable}
                 onChange={(e) => setIsBillable(e.target.checked)}
-                disabled={isRunning}
+                disabled={!!timer}
                 className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
               />
               <span className="text-sm font-medium">
@@ -316,7 +456,7 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
                 type="number"
                 value={hourlyRate}
                 onChange={(e) => setHourlyRate(Number(e.target.value))}
-                disabled={isRunning}
+                disabled={!!timer}
                 placeholder={isAr ? 'السعر بالساعة' : 'Taux horaire'}
                 className="w-full px-3 py-2 text-sm border dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
               />
@@ -329,26 +469,131 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
 
         {/* Controls */}
         <div className="flex gap-3">
-          {!isRunning ? (
+          {!timer ? (
             <button
               onClick={startTimer}
-              className="flex-1 px-6 py-4 bg-green-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-green-700 transition-colors"
+              disabled={busy}
+              className="flex-1 px-6 py-4 bg-green-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-green-700 transition-colors disabled:opacity-50"
             >
               <Play size={20} />
               {isAr ? 'بدء' : 'Démarrer'}
             </button>
           ) : (
-            <button
-              onClick={stopTimer}
-              className="flex-1 px-6 py-4 bg-red-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-red-700 transition-colors"
-            >
-              <Square size={20} />
-              {isAr ? 'إيقاف' : 'Arrêter'}
-            </button>
+            <>
+              {isRunning ? (
+                <button
+                  onClick={pauseTimer}
+                  disabled={busy}
+                  className="flex-1 px-6 py-4 bg-amber-500 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-amber-600 transition-colors disabled:opacity-50"
+                >
+                  <Pause size={20} />
+                  {isAr ? 'إيقاف مؤقت' : 'Pause'}
+                </button>
+              ) : (
+                <button
+                  onClick={resumeTimer}
+                  disabled={busy}
+                  className="flex-1 px-6 py-4 bg-green-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <Play size={20} />
+                  {isAr ? 'استئناف' : 'Reprendre'}
+                </button>
+              )}
+              <button
+                onClick={stopTimer}
+                disabled={busy}
+                className="flex-1 px-6 py-4 bg-red-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Square size={20} />
+                {isAr ? 'إيقاف وتسجيل' : 'Arrêter et enregistrer'}
+              </button>
+              <button
+                onClick={discardTimer}
+                disabled={busy}
+                title={isAr ? 'حذف المؤقت' : 'Abandonner'}
+                className="px-4 py-4 border dark:border-slate-700 text-slate-500 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={20} />
+              </button>
+            </>
           )}
         </div>
       </div>
 
+      {/* Calendar Suggestions */}
+      {suggestions.length > 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6">
+          <h3 className="text-lg font-bold mb-1 text-slate-900 dark:text-slate-100 flex items-center gap-2">
+            <CalendarCheck size={20} className="text-blue-600" />
+            {isAr ? 'أوقات مقترحة من الأجندة' : 'Temps suggérés par l\'agenda'}
+          </h3>
+          <p className="text-sm text-slate-500 mb-4">
+            {isAr
+              ? 'الجلسات والمواعيد المنتهية التي لم تسجل بعد'
+              : 'Audiences et rendez-vous terminés, pas encore enregistrés'}
+          </p>
+
+          <div className="space-y-3">
+            {suggestions.map(suggestion => (
+              <div
+                key={suggestion.calendarEventId}
+                className="p-4 border dark:border-slate-700 rounded-xl flex flex-wrap items-center gap-3"
+              >
+                <div className="flex-1 min-w-[200px]">
+                  <p className="font-medium text-slate-900 dark:text-slate-100">{suggestion.description}</p>
+                  <p className="text-xs text-slate-500 mt-1 flex items-center gap-3">
+                    <span className="flex items-center gap-1">
+                      <Calendar size={12} />
+                      {new Date(suggestion.startTime).toLocaleDateString()}{' '}
+                      {new Date(suggestion.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock size={12} />
+                      {formatDuration(suggestion.durationMinutes)}
+                    </span>
+                    {suggestion.caseId && caseLabel(suggestion.caseId) && (
+                      <span>📁 {caseLabel(suggestion.caseId)}</span>
+                    )}
+                  </p>
+                </div>
+                {!suggestion.caseId && (
+                  <select
+                    value={suggestionCases[suggestion.calendarEventId] || ''}
+                    onChange={(e) => setSuggestionCases(prev => ({ ...prev, [suggestion.calendarEventId]: e.target.value }))}
+                    className="px-3 py-2 text-sm border dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="">{isAr ? 'اختر الملف' : 'Choisir le dossier'}</option>
+                    {cases.map(c => (
+                      <option key={c.id} value={c.id}>
+                        {c.caseNumber} - {c.title}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => acceptSuggestion(suggestion)}
+                    disabled={busy}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <Check size={16} />
+                    {isAr ? 'تسجيل' : 'Enregistrer'}
+                  </button>
+                  <button
+                    onClick={() => dismissSuggestion(suggestion)}
+                    disabled={busy}
+                    className="px-3 py-2 border dark:border-slate-700 rounded-lg text-sm flex items-center gap-1 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+                  >
+                    <X size={16} />
+                    {isAr ? 'تجاهل' : 'Ignorer'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Entries */}
       <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 p-6">
         <h3 className="text-lg font-bold mb-4 text-slate-900 dark:text-slate-100">
@@ -366,16 +611,16 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
                   <p className="font-medium text-slate-900 dark:text-slate-100">
                     {entry.description}
                   </p>
-                  {entry.case_title && (
+                  {entry.caseNumber && (
                     <p className="text-sm text-slate-500 mt-1">
-                      📁 {entry.case_title}
+                      📁 {entry.caseNumber} - {entry.caseTitle}
                     </p>
                   )}
                 </div>
-                {entry.is_billable && entry.amount && (
+                {entry.isBillable && entry.totalAmount && (
                   <div className="text-right">
                     <p className="font-bold text-green-600">
-                      {formatAmount(entry.amount)}
+                      {formatAmount(entry.totalAmount)}
                     </p>
                   </div>
                 )}
@@ -383,18 +628,24 @@ export const TimeTracker: React.FC<TimeTrackerProps> = ({ userId, language, case
               <div className="flex items-center gap-4 text-xs text-slate-500">
                 <span className="flex items-center gap-1">
                   <Calendar size={12} />
-                  {new Date(entry.start_time).toLocaleDateString()}
+                  {new Date(entry.startTime).toLocaleDateString()}
                 </span>
                 <span className="flex items-center gap-1">
                   <Clock size={12} />
-                  {entry.duration_minutes ? formatDuration(entry.duration_minutes) : '-'}
+                  {entry.durationMinutes ? formatDuration(entry.durationMinutes) : '-'}
                 </span>
-                {entry.is_billable && (
+                {entry.isBillable && (
                   <span className="flex items-center gap-1 text-green-600">
                     <DollarSign size={12} />
                     {isAr ? 'قابل للفوترة' : 'Facturable'}
                   </span>
                 )}
+                {entry.calendarEventId && (
+                  <span className="flex items-center gap-1">
+                    <CalendarCheck size={12} />
+                    {isAr ? 'من الأجندة' : 'Agenda'}
+                  </span>
+                )}
               </div>
             </div>
           ))}
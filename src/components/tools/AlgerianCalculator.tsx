@@ -13,6 +13,7 @@ import {
   calculateVAT
 } from '../../services/algerianCalculations';
 import NotarialFeesCalculator from './NotarialFeesCalculator';
+import { PROCEDURAL_DEADLINE_RULES, formatRuleDuration } from '../../../server/src/legal/proceduralDeadlineRules';
 
 interface AlgerianCalculatorProps {
   language: Language;
@@ -219,14 +220,11 @@ const AlgerianCalculator: React.FC<AlgerianCalculatorProps> = ({ language }) =>
                   required
                   className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white"
                 >
-                  <option value="appel_civil">Appel civil (30 jours)</option>
-                  <option value="appel_commercial">Appel commercial (15 jours)</option>
-                  <option value="appel_social">Appel social (15 jours)</option>
-                  <option value="pourvoi_cassation">Pourvoi en cassation (60 jours)</option>
-                  <option value="opposition_jugement">Opposition (10 jours)</option>
-                  <option value="refere">Référé (15 jours)</option>
-                  <option value="recours_administratif">Recours administratif (60 jours)</option>
-                  <option value="appel_penal">Appel pénal (10 jours)</option>
+                  {PROCEDURAL_DEADLINE_RULES.filter(rule => rule.procedure !== 'prescription').map(rule => (
+                    <option key={rule.code} value={rule.code}>
+                      {language === 'ar' ? rule.labelAr : rule.labelFr} ({formatRuleDuration(rule.duration, language)})
+                    </option>
+                  ))}
                 </select>
               </div>
               <button
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { legalDeadlineService } from '../services/legalDeadlineService';
+import { useNotificationStream } from './useNotificationStream';
+import { DeadlineAlertPayload, StreamEvent } from '../services/notificationStreamClient';
 import { AppMode, UserRole } from '../../types';
 
 // Rôles qui ont accès aux délais légaux
@@ -40,10 +42,17 @@ export function useDeadlineAlerts(userId: string | null, userRole: UserRole | nu
 
   useEffect(() => {
     refresh();
-    // Rafraîchir toutes les 5 minutes
+    // Rafraîchir toutes les 5 minutes (secours si le flux temps réel est indisponible)
     const interval = setInterval(refresh, 5 * 60 * 1000);
     return () => clearInterval(interval);
   }, [refresh]);
 
+  // Alertes poussées par le serveur dès qu'un délai devient urgent ou dépassé
+  useNotificationStream(hasAccess ? userId : null, event => {
+    if (event.type !== 'deadline_alert') return;
+    const { overdue, urgent, total } = event.data as StreamEvent<DeadlineAlertPayload>['data'];
+    setCounts({ overdue, urgent, total });
+  });
+
   return { counts, loading, refresh };
 }
@@ -0,0 +1,16 @@
+/**
+ * Hook d'abonnement au flux temps réel des notifications (SSE)
+ * Le gestionnaire le plus récent est appelé à chaque événement reçu.
+ */
+import { useEffect, useRef } from 'react';
+import { notificationStreamClient, StreamEvent } from '../services/notificationStreamClient';
+
+export function useNotificationStream(userId: string | null, onEvent: (event: StreamEvent) => void) {
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    if (!userId) return undefined;
+    return notificationStreamClient.subscribe(event => handler.current(event));
+  }, [userId]);
+}
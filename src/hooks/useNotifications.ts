@@ -1,10 +1,13 @@
 /**
  * Hook de notifications in-app
- * Agrège: délais urgents, factures impayées, rappels, nouveaux dossiers
+ * Agrège: délais urgents, factures impayées, rappels, nouveaux dossiers,
+ * plus les notifications et rapports prêts poussés par le flux temps réel
  */
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import { UserRole } from '../../types';
+import { useNotificationStream } from './useNotificationStream';
+import { NotificationPayload, ReportReadyPayload, StreamEvent } from '../services/notificationStreamClient';
 
 export type NotifType = 'deadline' | 'invoice' | 'reminder' | 'case' | 'system';
 export type NotifLevel = 'info' | 'warning' | 'error';
@@ -37,8 +40,59 @@ function markRead(id: string) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify([...ids]));
 }
 
+const LEVEL_ORDER: Record<NotifLevel, number> = { error: 0, warning: 1, info: 2 };
+
+// Non-lus d'abord, puis par niveau
+function sortNotifications(notifs: AppNotification[]): AppNotification[] {
+  return [...notifs].sort((a, b) => {
+    if (a.read !== b.read) return a.read ? 1 : -1;
+    return LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level];
+  });
+}
+
+function notificationTypeOf(payload: NotificationPayload): NotifType {
+  if (payload.type.includes('deadline') || payload.type.includes('hearing')) return 'deadline';
+  if (payload.type.includes('payment') || payload.type.includes('invoice')) return 'invoice';
+  if (payload.relatedEntityType === 'case' || payload.caseId) return 'case';
+  return 'system';
+}
+
+// Conversion d'un événement du flux temps réel en notification in-app
+function fromStreamEvent(event: StreamEvent, readIds: Set<string>): AppNotification | null {
+  if (event.type === 'notification') {
+    const payload = event.data as StreamEvent<NotificationPayload>['data'];
+    const id = `notif_${payload.notificationId}`;
+    return {
+      id,
+      type: notificationTypeOf(payload),
+      level: payload.priority === 'urgent' ? 'error' : payload.priority === 'high' ? 'warning' : 'info',
+      title: payload.subject || 'Notification',
+      message: payload.message,
+      created_at: payload.createdAt,
+      read: readIds.has(id),
+    };
+  }
+  if (event.type === 'report_ready') {
+    const payload = event.data as StreamEvent<ReportReadyPayload>['data'];
+    const id = `report_${payload.reportId}`;
+    return {
+      id,
+      type: 'system',
+      level: 'info',
+      title: 'Rapport prêt',
+      title_ar: 'التقرير جاهز',
+      message: payload.title,
+      message_ar: payload.title,
+      created_at: payload.createdAt,
+      read: readIds.has(id),
+    };
+  }
+  return null;
+}
+
 export function useNotifications(userId: string | null, role: UserRole | null) {
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [polled, setPolled] = useState<AppNotification[]>([]);
+  const [pushed, setPushed] = useState<AppNotification[]>([]);
   const [loading, setLoading] = useState(true);
 
   const load = useCallback(async () => {
@@ -128,14 +182,7 @@ export function useNotifications(userId: string | null, role: UserRole | null) {
         });
       });
 
-      // Trier: non-lus d'abord, puis par niveau
-      notifs.sort((a, b) => {
-        if (a.read !== b.read) return a.read ? 1 : -1;
-        const lvl = { error: 0, warning: 1, info: 2 };
-        return lvl[a.level] - lvl[b.level];
-      });
-
-      setNotifications(notifs);
+      setPolled(notifs);
     } catch (err) {
       console.error('useNotifications error:', err);
     } finally {
@@ -145,18 +192,36 @@ export function useNotifications(userId: string | null, role: UserRole | null) {
 
   useEffect(() => {
     load();
-    const interval = setInterval(load, 5 * 60 * 1000); // refresh every 5min
+    const interval = setInterval(load, 5 * 60 * 1000); // refresh every 5min (secours si le flux est indisponible)
     return () => clearInterval(interval);
   }, [load]);
 
+  // Flux temps réel: les alertes d'échéance relancent la requête, le reste s'ajoute en tête
+  useNotificationStream(userId, event => {
+    if (event.type === 'deadline_alert') {
+      load();
+      return;
+    }
+    const notif = fromStreamEvent(event, getReadIds());
+    if (notif) {
+      setPushed(prev => [notif, ...prev.filter(n => n.id !== notif.id)].slice(0, 20));
+    }
+  });
+
+  const notifications = useMemo(() => sortNotifications([...pushed, ...polled]), [pushed, polled]);
+
   const markAsRead = useCallback((id: string) => {
     markRead(id);
-    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n));
+    const update = (prev: AppNotification[]) => prev.map(n => n.id === id ? { ...n, read: true } : n);
+    setPolled(update);
+    setPushed(update);
   }, []);
 
   const markAllAsRead = useCallback(() => {
     notifications.forEach(n => markRead(n.id));
-    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    const update = (prev: AppNotification[]) => prev.map(n => ({ ...n, read: true }));
+    setPolled(update);
+    setPushed(update);
   }, [notifications]);
 
   const unreadCount = notifications.filter(n => !n.read).length;
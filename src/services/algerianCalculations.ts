@@ -3,65 +3,32 @@
  * Calculs conformes à la législation algérienne
  */
 
+import {
+  DeadlineExtensionKind,
+  computeProceduralDeadline,
+  formatRuleDuration,
+  getProceduralDeadlineRule
+} from '../../server/src/legal/proceduralDeadlineRules';
+
 /**
  * Calcul des délais procéduraux algériens
+ * Les durées et fondements légaux proviennent du référentiel partagé avec le serveur
  */
 export const calculateProceduralDeadlines = (
   startDate: Date,
-  procedureType: string
-): { deadline: Date; days: number; description: string; description_ar: string } => {
-  const deadlines: Record<string, { days: number; description: string; description_ar: string }> = {
-    'appel_civil': {
-      days: 30,
-      description: 'Délai d\'appel en matière civile (Article 336 CPCA)',
-      description_ar: 'أجل الاستئناف في المواد المدنية (المادة 336 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'appel_commercial': {
-      days: 15,
-      description: 'Délai d\'appel en matière commerciale (Article 336 CPCA)',
-      description_ar: 'أجل الاستئناف في المواد التجارية (المادة 336 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'appel_social': {
-      days: 15,
-      description: 'Délai d\'appel en matière sociale (Article 336 CPCA)',
-      description_ar: 'أجل الاستئناف في المواد الاجتماعية (المادة 336 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'pourvoi_cassation': {
-      days: 60,
-      description: 'Délai de pourvoi en cassation (Article 358 CPCA)',
-      description_ar: 'أجل الطعن بالنقض (المادة 358 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'opposition_jugement': {
-      days: 10,
-      description: 'Délai d\'opposition à un jugement par défaut (Article 325 CPCA)',
-      description_ar: 'أجل المعارضة في حكم غيابي (المادة 325 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'refere': {
-      days: 15,
-      description: 'Délai d\'appel d\'une ordonnance de référé (Article 309 CPCA)',
-      description_ar: 'أجل استئناف أمر استعجالي (المادة 309 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'recours_administratif': {
-      days: 60,
-      description: 'Délai de recours contentieux administratif (Article 829 CPCA)',
-      description_ar: 'أجل الطعن الإداري (المادة 829 من قانون الإجراءات المدنية والإدارية)'
-    },
-    'appel_penal': {
-      days: 10,
-      description: 'Délai d\'appel en matière pénale (Article 416 CPP)',
-      description_ar: 'أجل الاستئناف في المواد الجزائية (المادة 416 من قانون الإجراءات الجزائية)'
-    }
-  };
-
-  const config = deadlines[procedureType] || deadlines['appel_civil'];
-  const deadline = new Date(startDate);
-  deadline.setDate(deadline.getDate() + config.days);
+  procedureType: string,
+  extensions: DeadlineExtensionKind[] = []
+): { deadline: Date; days: number; description: string; description_ar: string; reference: string; rulesVersion: string } => {
+  const rule = getProceduralDeadlineRule(procedureType) || getProceduralDeadlineRule('appel_jugement');
+  const computed = computeProceduralDeadline(rule, startDate, { extensions });
 
   return {
-    deadline,
-    days: config.days,
-    description: config.description,
-    description_ar: config.description_ar
+    deadline: computed.deadline,
+    days: computed.totalDays,
+    description: `${rule.labelFr} — ${formatRuleDuration(rule.duration, 'fr')} (${computed.reference})`,
+    description_ar: `${rule.labelAr} — ${formatRuleDuration(rule.duration, 'ar')} (${rule.referenceAr})`,
+    reference: computed.reference,
+    rulesVersion: computed.rulesVersion
   };
 };
 
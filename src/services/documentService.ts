@@ -5,6 +5,7 @@
  */
 
 import { supabase } from '../lib/supabase';
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
 
 // ============================================================================
 // TYPES ET INTERFACES
@@ -20,6 +21,7 @@ export interface CaseDocument {
   mimeType: string;
   storagePath: string;
   storageBucket: string;
+  thumbnailPath?: string;
   category: DocumentCategory;
   description?: string;
   tags?: string[];
@@ -84,6 +86,9 @@ const PLAN_LIMITS = {
   },
 };
 
+// Types dont le serveur sait produire une vignette (première page pour les PDF)
+const THUMBNAIL_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/gif'];
+
 // Types MIME autorisés
 const ALLOWED_MIME_TYPES = [
   'application/pdf',
@@ -136,6 +141,9 @@ class DocumentService {
         throw new Error(`Failed to upload file: ${uploadError.message}`);
       }
 
+      // 5b. Vignette rangée à côté du fichier (facultative)
+      const thumbnailPath = await this.createThumbnail(file, storagePath);
+
       // 6. Créer l'entrée dans la base de données
       const documentData = {
         case_id: caseId,
@@ -146,6 +154,7 @@ class DocumentService {
         mime_type: file.type,
         storage_path: storagePath,
         storage_bucket: STORAGE_BUCKET,
+        thumbnail_path: thumbnailPath,
         category: options.category || 'autre',
         description: options.description,
         tags: options.tags || [],
@@ -162,6 +171,7 @@ class DocumentService {
       if (error) {
         // Rollback: supprimer le fichier du storage
         await this.deleteFromStorage(storagePath);
+        if (thumbnailPath) await this.deleteFromStorage(thumbnailPath);
         console.error('Database insert error:', error);
         throw new Error(`Failed to save document metadata: ${error.message}`);
       }
@@ -220,6 +230,30 @@ class DocumentService {
     }
   }
 
+  /**
+   * Obtenir les URLs signées des vignettes, en une seule requête
+   * Les documents sans vignette sont absents du résultat
+   */
+  async getThumbnailUrls(documents: CaseDocument[], expiresIn: number = 3600): Promise<Record<string, string>> {
+    const withThumbnail = documents.filter(d => d.thumbnailPath);
+    if (withThumbnail.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUrls(withThumbnail.map(d => d.thumbnailPath!), expiresIn);
+
+    if (error || !data) {
+      console.error('Error creating thumbnail URLs:', error);
+      return {};
+    }
+
+    const urls: Record<string, string> = {};
+    data.forEach((entry, index) => {
+      if (entry.signedUrl) urls[withThumbnail[index].id] = entry.signedUrl;
+    });
+    return urls;
+  }
+
   /**
    * Obtenir un document par ID
    */
@@ -287,6 +321,7 @@ class DocumentService {
 
       // 3. Supprimer du storage
       await this.deleteFromStorage(document.storagePath);
+      if (document.thumbnailPath) await this.deleteFromStorage(document.thumbnailPath);
 
       return true;
     } catch (error) {
@@ -480,6 +515,49 @@ class DocumentService {
     return `${userId}/${caseId}/${uniqueFileName}`;
   }
 
+  /**
+   * Faire rendre la vignette par le serveur (après analyse antivirus) et la
+   * ranger à côté du fichier. Un échec n'empêche pas l'upload : le document
+   * s'affichera avec une icône.
+   */
+  private async createThumbnail(file: File, storagePath: string): Promise<string | undefined> {
+    if (!THUMBNAIL_MIME_TYPES.includes(file.type)) return undefined;
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const token = getApiToken();
+      const response = await fetch(`${API_BASE_URL}/api/documents/previews/thumbnail`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: formData,
+      });
+      if (!response.ok) {
+        console.warn('Thumbnail rendering failed:', response.status);
+        return undefined;
+      }
+
+      const thumbnailPath = `${storagePath}.thumb.jpg`;
+      const { error } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(thumbnailPath, await response.blob(), {
+          contentType: 'image/jpeg',
+          cacheControl: '3600',
+          upsert: true,
+        });
+      if (error) {
+        console.warn('Thumbnail upload failed:', error);
+        return undefined;
+      }
+
+      return thumbnailPath;
+    } catch (error) {
+      console.warn('Thumbnail unavailable:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Supprimer un fichier du storage
    */
@@ -526,6 +604,7 @@ class DocumentService {
       mimeType: data.mime_type,
       storagePath: data.storage_path,
       storageBucket: data.storage_bucket,
+      thumbnailPath: data.thumbnail_path ?? undefined,
       category: data.category,
       description: data.description,
       tags: data.tags || [],
@@ -0,0 +1,128 @@
+/**
+ * Invoice Payment Service - encaissements, avoirs et ancienneté des créances
+ * Règlements partiels d'une facture, avoirs et répartition du reste dû par
+ * tranche d'ancienneté sur le serveur JuristDZ
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export type PaymentMethod = 'cash' | 'check' | 'ccp_transfer' | 'baridimob' | 'bank_transfer' | 'credit_card' | 'mobile_payment' | 'other';
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  /** Absent pour une imputation sur la provision du client */
+  paymentMethod?: PaymentMethod;
+  provisionTransactionId?: string;
+  paymentDate: string;
+  reference?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  invoiceNumber?: string;
+  amount: number;
+  taxAmount: number;
+  reason: string;
+  issueDate: string;
+}
+
+export interface RecordPaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  /** AAAA-MM-JJ, aujourd'hui par défaut */
+  paymentDate?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface AgingInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  clientName: string;
+  dueDate: string;
+  totalAmount: number;
+  outstanding: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingReport {
+  asOf: string;
+  buckets: Array<{ bucket: AgingBucket; count: number; amount: number; percentage: number }>;
+  totalOutstanding: number;
+  invoices: AgingInvoice[];
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class InvoicePaymentService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  /**
+   * Enregistre un règlement partiel ou total ; refusé au-delà du reste dû
+   */
+  async recordPayment(invoiceId: string, input: RecordPaymentInput): Promise<InvoicePayment> {
+    const { data } = await this.request<{ data: InvoicePayment }>(`/billing/invoices/${encodeURIComponent(invoiceId)}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    return data;
+  }
+
+  async getHistory(invoiceId: string): Promise<{ payments: InvoicePayment[]; creditNotes: CreditNote[] }> {
+    const { data } = await this.request<{ data: { payments: InvoicePayment[]; creditNotes: CreditNote[] } }>(
+      `/billing/invoices/${encodeURIComponent(invoiceId)}/payments`
+    );
+    return data;
+  }
+
+  /**
+   * Émet un avoir daté du jour, numéroté à la suite des avoirs de l'année
+   */
+  async createCreditNote(invoiceId: string, amount: number, reason: string): Promise<CreditNote> {
+    const { data } = await this.request<{ data: CreditNote }>(`/billing/invoices/${encodeURIComponent(invoiceId)}/credit-notes`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, reason }),
+    });
+    return data;
+  }
+
+  async getAgingReport(asOf?: string): Promise<AgingReport> {
+    const query = asOf ? `?asOf=${encodeURIComponent(asOf)}` : '';
+    const { data } = await this.request<{ data: AgingReport }>(`/billing/aging${query}`);
+    return data;
+  }
+}
+
+export const invoicePaymentService = new InvoicePaymentService();
@@ -1,8 +1,18 @@
 import { supabase } from '../lib/supabase';
-
-export type DeadlineCategory =
-  | 'appel' | 'cassation' | 'opposition' | 'prescription'
-  | 'signification' | 'execution' | 'administratif' | 'penal' | 'custom';
+import {
+  PROCEDURAL_DEADLINE_RULES,
+  PROCEDURAL_RULES_VERSION,
+  ProceduralDeadlineCategory,
+  ProceduralDeadlineComputation,
+  DeadlineExtensionKind,
+  RuleDuration,
+  addRuleDuration,
+  computeProceduralDeadline,
+  daysBetween,
+} from '../../server/src/legal/proceduralDeadlineRules';
+import { HijriHolidayOverride, judicialCalendar } from '../../server/src/legal/judicialCalendar';
+
+export type DeadlineCategory = ProceduralDeadlineCategory | 'custom';
 
 export type DeadlineStatus = 'upcoming' | 'urgent' | 'overdue' | 'completed';
 export type DeadlinePriority = 'low' | 'medium' | 'high' | 'critical';
@@ -22,7 +32,12 @@ export interface LegalDeadline {
   days_remaining: number;     // Jours restants (calculé)
   status: DeadlineStatus;
   priority: DeadlinePriority;
-  legal_reference?: string;   // Ex: "Art. 323 CPC"
+  legal_reference?: string;   // Ex: "Art. 336 CPCA"
+  rule_code?: string;         // Code de la règle du référentiel partagé
+  rules_version?: string;     // Version du référentiel utilisée pour le calcul
+  trigger_event_id?: string;  // Événement de dossier (jugement, signification) à l'origine du délai
+  parent_deadline_id?: string; // Délai dont l'échéance sert de point de départ
+  is_provisional?: boolean;   // Calculé sur une signification non encore faite
   notes?: string;
   is_completed: boolean;
   completed_at?: string;
@@ -30,157 +45,50 @@ export interface LegalDeadline {
   updated_at: string;
 }
 
-// ─── Délais légaux algériens (source: CPC, CPP, Code Civil) ───────────────────
-export const ALGERIAN_LEGAL_DEADLINES = {
-  // Code de Procédure Civile et Administrative (CPCA)
-  appel_jugement: {
-    days: 30,
-    label_fr: 'Appel — Jugement contradictoire',
-    label_ar: 'استئناف — حكم حضوري',
-    reference: 'Art. 323 CPCA',
-    category: 'appel' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  appel_jugement_defaut: {
-    days: 30,
-    label_fr: 'Appel — Jugement par défaut',
-    label_ar: 'استئناف — حكم غيابي',
-    reference: 'Art. 323 CPCA',
-    category: 'appel' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  opposition_jugement: {
-    days: 15,
-    label_fr: 'Opposition — Jugement par défaut',
-    label_ar: 'معارضة — حكم غيابي',
-    reference: 'Art. 317 CPCA',
-    category: 'opposition' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  pourvoi_cassation: {
-    days: 60,
-    label_fr: 'Pourvoi en Cassation',
-    label_ar: 'طعن بالنقض',
-    reference: 'Art. 349 CPCA',
-    category: 'cassation' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  signification_jugement: {
-    days: 3,
-    label_fr: 'Signification du jugement (délai huissier)',
-    label_ar: 'تبليغ الحكم',
-    reference: 'Art. 406 CPCA',
-    category: 'signification' as DeadlineCategory,
-    priority: 'high' as DeadlinePriority,
-  },
-  execution_jugement: {
-    days: 30,
-    label_fr: 'Mise en exécution du jugement',
-    label_ar: 'تنفيذ الحكم',
-    reference: 'Art. 600 CPCA',
-    category: 'execution' as DeadlineCategory,
-    priority: 'high' as DeadlinePriority,
-  },
-  // Prescription civile (Code Civil)
-  prescription_droit_commun: {
-    days: 3650, // 10 ans
-    label_fr: 'Prescription — Droit commun (10 ans)',
-    label_ar: 'تقادم — القانون العام (10 سنوات)',
-    reference: 'Art. 308 C.Civ',
-    category: 'prescription' as DeadlineCategory,
-    priority: 'medium' as DeadlinePriority,
-  },
-  prescription_commerciale: {
-    days: 1825, // 5 ans
-    label_fr: 'Prescription — Commerciale (5 ans)',
-    label_ar: 'تقادم — تجاري (5 سنوات)',
-    reference: 'Art. 29 C.Com',
-    category: 'prescription' as DeadlineCategory,
-    priority: 'medium' as DeadlinePriority,
-  },
-  prescription_responsabilite: {
-    days: 1095, // 3 ans
-    label_fr: 'Prescription — Responsabilité civile (3 ans)',
-    label_ar: 'تقادم — المسؤولية المدنية (3 سنوات)',
-    reference: 'Art. 133 C.Civ',
-    category: 'prescription' as DeadlineCategory,
-    priority: 'medium' as DeadlinePriority,
-  },
-  prescription_travail: {
-    days: 730, // 2 ans
-    label_fr: 'Prescription — Droit du travail (2 ans)',
-    label_ar: 'تقادم — قانون العمل (سنتان)',
-    reference: 'Art. 73 Loi 90-11',
-    category: 'prescription' as DeadlineCategory,
-    priority: 'medium' as DeadlinePriority,
-  },
-  // Pénal (CPP)
-  appel_penal_correctionnel: {
-    days: 10,
-    label_fr: 'Appel pénal — Correctionnel',
-    label_ar: 'استئناف جزائي — جنحي',
-    reference: 'Art. 418 CPP',
-    category: 'penal' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  appel_penal_criminel: {
-    days: 10,
-    label_fr: 'Appel pénal — Criminel',
-    label_ar: 'استئناف جزائي — جنائي',
-    reference: 'Art. 418 CPP',
-    category: 'penal' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  pourvoi_cassation_penal: {
-    days: 8,
-    label_fr: 'Pourvoi en Cassation — Pénal',
-    label_ar: 'طعن بالنقض — جزائي',
-    reference: 'Art. 495 CPP',
-    category: 'penal' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  // Administratif
-  recours_administratif: {
-    days: 30,
-    label_fr: 'Recours administratif préalable',
-    label_ar: 'طعن إداري مسبق',
-    reference: 'Art. 830 CPCA',
-    category: 'administratif' as DeadlineCategory,
-    priority: 'high' as DeadlinePriority,
-  },
-  appel_administratif: {
-    days: 30,
-    label_fr: 'Appel — Tribunal Administratif',
-    label_ar: 'استئناف — المحكمة الإدارية',
-    reference: 'Art. 902 CPCA',
-    category: 'administratif' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
-  pourvoi_conseil_etat: {
-    days: 60,
-    label_fr: 'Pourvoi — Conseil d\'État',
-    label_ar: 'طعن — مجلس الدولة',
-    reference: 'Art. 920 CPCA',
-    category: 'administratif' as DeadlineCategory,
-    priority: 'critical' as DeadlinePriority,
-  },
+// ─── Délais légaux algériens (référentiel partagé avec le serveur) ────────────
+export type LegalDeadlinePreset = {
+  rule_code: string;
+  duration: RuleDuration;
+  label_fr: string;
+  label_ar: string;
+  reference: string;
+  category: DeadlineCategory;
+  priority: DeadlinePriority;
 };
 
+export const ALGERIAN_LEGAL_DEADLINES: Record<string, LegalDeadlinePreset> = Object.fromEntries(
+  PROCEDURAL_DEADLINE_RULES.map(rule => [rule.code, {
+    rule_code: rule.code,
+    duration: rule.duration,
+    label_fr: rule.labelFr,
+    label_ar: rule.labelAr,
+    reference: rule.reference,
+    category: rule.category,
+    priority: rule.priority,
+  }])
+);
+
 // ─── Calcul de la date limite (jours ouvrables ou calendaires) ────────────────
+// Une échéance qui tombe un week-end ou un jour férié (fêtes de l'Hégire comprises)
+// est reportée au premier jour ouvrable suivant.
 export function calculateDeadlineDate(baseDate: Date, days: number, workingDaysOnly = false): Date {
-  const result = new Date(baseDate);
-  if (!workingDaysOnly) {
-    result.setDate(result.getDate() + days);
-    return result;
-  }
-  // Jours ouvrables (lundi-jeudi en Algérie, vendredi = demi-journée)
-  let added = 0;
-  while (added < days) {
-    result.setDate(result.getDate() + 1);
-    const day = result.getDay();
-    if (day !== 5 && day !== 6) added++; // Exclure vendredi et samedi
-  }
-  return result;
+  const nominal = addRuleDuration(baseDate, { value: days, unit: 'days' }, workingDaysOnly ? 'working' : 'calendar');
+  return judicialCalendar.carryOver(nominal);
+}
+
+// Échéance d'un délai légal selon sa règle (durée, délai franc, report, prorogations)
+export function calculateRuleDeadline(
+  ruleCode: string,
+  baseDate: Date | string,
+  extensions: DeadlineExtensionKind[] = []
+): ProceduralDeadlineComputation {
+  return computeProceduralDeadline(ruleCode, baseDate, { extensions });
+}
+
+function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 export function getDaysRemaining(deadlineDate: Date): number {
@@ -239,8 +147,18 @@ export const legalDeadlineService = {
     notes?: string;
     case_id?: string;
     priority: DeadlinePriority;
+    rule_code?: string;
+    extensions?: DeadlineExtensionKind[];
   }): Promise<LegalDeadline> {
-    const deadlineDate = calculateDeadlineDate(new Date(payload.base_date), payload.days_total);
+    let deadlineDate = calculateDeadlineDate(new Date(payload.base_date), payload.days_total);
+    let daysTotal = payload.days_total;
+    let legalReference = payload.legal_reference;
+    if (payload.rule_code) {
+      const computed = calculateRuleDeadline(payload.rule_code, payload.base_date, payload.extensions);
+      deadlineDate = computed.deadline;
+      daysTotal = daysBetween(computed.baseDate, computed.deadline);
+      legalReference = computed.reference;
+    }
 
     const { data, error } = await supabase
       .from('legal_deadlines')
@@ -252,9 +170,11 @@ export const legalDeadlineService = {
         description: payload.description || null,
         category: payload.category,
         base_date: payload.base_date,
-        deadline_date: deadlineDate.toISOString().split('T')[0],
-        days_total: payload.days_total,
-        legal_reference: payload.legal_reference || null,
+        deadline_date: toIsoDate(deadlineDate),
+        days_total: daysTotal,
+        legal_reference: legalReference || null,
+        rule_code: payload.rule_code || null,
+        rules_version: payload.rule_code ? PROCEDURAL_RULES_VERSION : null,
         notes: payload.notes || null,
         priority: payload.priority,
         is_completed: false,
@@ -280,6 +200,17 @@ export const legalDeadlineService = {
     if (error) throw error;
   },
 
+  // Charge les dates officielles des fêtes religieuses saisies par l'administration
+  async loadCalendarOverrides(): Promise<HijriHolidayOverride[]> {
+    const { data, error } = await supabase
+      .from('judicial_calendar_overrides')
+      .select('year, code, date');
+    if (error) throw error;
+    const overrides = (data || []) as HijriHolidayOverride[];
+    judicialCalendar.setOverrides(overrides);
+    return overrides;
+  },
+
   async getUpcoming(userId: string, days = 7): Promise<LegalDeadline[]> {
     const limit = new Date();
     limit.setDate(limit.getDate() + days);
@@ -0,0 +1,128 @@
+/**
+ * MFA Service - Seconds facteurs du compte sur le serveur JuristDZ
+ * TOTP, passkeys (WebAuthn) et codes de secours à usage unique
+ */
+
+import { startRegistration } from '@simplewebauthn/browser';
+import type { PublicKeyCredentialCreationOptionsJSON } from '@simplewebauthn/browser';
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export interface Passkey {
+  id: string;
+  name: string;
+  deviceType?: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface MFAStatus {
+  enabled: boolean;
+  totpEnabled: boolean;
+  passkeys: Passkey[];
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpSetup {
+  qrCode: string;
+  secret: string;
+  /** Codes de secours, fournis seulement s'ils viennent d'être générés */
+  backupCodes: string[];
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class MFAService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api/auth${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  async getStatus(): Promise<MFAStatus> {
+    const { status } = await this.request<{ status: MFAStatus }>('/mfa/status');
+    return status;
+  }
+
+  // --------------------------------------------------------------------------
+  // TOTP
+  // --------------------------------------------------------------------------
+
+  async enrollTotp(): Promise<TotpSetup> {
+    const { mfaSetup } = await this.request<{ mfaSetup: TotpSetup }>('/mfa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ method: 'totp' }),
+    });
+    return mfaSetup;
+  }
+
+  async verifyTotp(token: string): Promise<void> {
+    await this.request('/mfa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  /**
+   * Retire tous les seconds facteurs : TOTP, passkeys et codes de secours
+   */
+  async disable(): Promise<void> {
+    await this.request('/mfa/disable', { method: 'POST' });
+  }
+
+  // --------------------------------------------------------------------------
+  // CODES DE SECOURS
+  // --------------------------------------------------------------------------
+
+  async regenerateRecoveryCodes(): Promise<string[]> {
+    const { recoveryCodes } = await this.request<{ recoveryCodes: string[] }>('/mfa/recovery-codes', {
+      method: 'POST',
+    });
+    return recoveryCodes;
+  }
+
+  // --------------------------------------------------------------------------
+  // PASSKEYS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Enregistre une passkey sur cet appareil (empreinte, Face ID, clé de sécurité)
+   */
+  async registerPasskey(name: string): Promise<{ passkey: Passkey; recoveryCodes: string[] }> {
+    const { options } = await this.request<{ options: PublicKeyCredentialCreationOptionsJSON }>(
+      '/mfa/webauthn/register/options',
+      { method: 'POST' }
+    );
+
+    const response = await startRegistration({ optionsJSON: options });
+
+    return this.request<{ passkey: Passkey; recoveryCodes: string[] }>('/mfa/webauthn/register/verify', {
+      method: 'POST',
+      body: JSON.stringify({ response, name }),
+    });
+  }
+
+  async removePasskey(passkeyId: string): Promise<void> {
+    await this.request(`/mfa/webauthn/credentials/${encodeURIComponent(passkeyId)}`, { method: 'DELETE' });
+  }
+}
+
+export const mfaService = new MFAService();
@@ -0,0 +1,181 @@
+/**
+ * Client du flux temps réel des notifications (Server-Sent Events)
+ * GET /api/notifications/stream sur le serveur JuristDZ
+ *
+ * Une seule connexion est partagée par tous les abonnés. Le flux est lu avec
+ * fetch (EventSource ne permet pas d'envoyer le jeton) ; après une coupure,
+ * la reconnexion transmet Last-Event-ID pour recevoir les événements manqués.
+ */
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+export type StreamEventType = 'notification' | 'deadline_alert' | 'report_ready';
+
+export interface StreamEvent<T = Record<string, any>> {
+  id: number;
+  type: StreamEventType;
+  data: T & { createdAt: string };
+}
+
+export interface DeadlineAlertPayload {
+  overdue: number;
+  urgent: number;
+  total: number;
+  deadlines: Array<{
+    id: string;
+    title: string;
+    titleAr?: string;
+    deadlineDate: string;
+    daysRemaining: number;
+    status: 'overdue' | 'urgent';
+  }>;
+}
+
+export interface ReportReadyPayload {
+  reportId: string;
+  title: string;
+  reportType: string;
+  format: string;
+  downloadUrl: string;
+}
+
+export interface NotificationPayload {
+  notificationId: string;
+  type: string;
+  priority: string;
+  subject?: string;
+  message: string;
+  relatedEntityType?: string;
+  relatedEntityId?: string;
+  caseId?: string;
+}
+
+type Listener = (event: StreamEvent) => void;
+
+const MAX_RETRY_DELAY = 60_000;
+
+class NotificationStreamClient {
+  private listeners = new Set<Listener>();
+  private controller: AbortController | null = null;
+  private lastEventId: number | null = null;
+  private baseRetryDelay = 5_000;
+  private retryDelay = 5_000;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private seen = new Set<number>();
+
+  /** S'abonne au flux ; la connexion s'ouvre au premier abonné */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.open();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  /** Vrai si un jeton serveur est disponible (sinon les hooks gardent leur rafraîchissement périodique) */
+  isAvailable(): boolean {
+    return !!getApiToken();
+  }
+
+  private open() {
+    const token = getApiToken();
+    if (!token || this.controller) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.read(token, controller)
+      .catch(() => { /* coupure réseau : reconnexion ci-dessous */ })
+      .finally(() => {
+        if (this.controller !== controller) return;
+        this.controller = null;
+        this.scheduleReconnect();
+      });
+  }
+
+  private close() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private scheduleReconnect() {
+    if (this.listeners.size === 0 || this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private async read(token: string, controller: AbortController) {
+    const response = await fetch(`${API_BASE_URL}/api/notifications/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${token}`,
+        ...(this.lastEventId !== null ? { 'Last-Event-ID': String(this.lastEventId) } : {}),
+      },
+      signal: controller.signal,
+    });
+
+    if (response.status === 401) {
+      // Session expirée : pas de reconnexion tant qu'aucun nouveau jeton n'est obtenu
+      this.listeners.clear();
+      return;
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Notification stream unavailable (${response.status})`);
+    }
+    this.retryDelay = this.baseRetryDelay;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        this.dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  private dispatch(frame: string) {
+    let id: number | null = null;
+    let type = 'message';
+    const data: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'id' && /^\d+$/.test(value)) id = Number(value);
+      else if (field === 'event') type = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'retry' && /^\d+$/.test(value)) this.baseRetryDelay = this.retryDelay = Number(value);
+    }
+
+    if (id === null || data.length === 0) return;
+    this.lastEventId = Math.max(this.lastEventId ?? 0, id);
+    if (this.seen.has(id)) return;
+    this.seen.add(id);
+    if (this.seen.size > 500) this.seen.delete(this.seen.values().next().value as number);
+
+    try {
+      const event: StreamEvent = { id, type: type as StreamEventType, data: JSON.parse(data.join('\n')) };
+      this.listeners.forEach(listener => listener(event));
+    } catch (err) {
+      console.error('Notification stream parse error:', err);
+    }
+  }
+}
+
+export const notificationStreamClient = new NotificationStreamClient();
@@ -0,0 +1,160 @@
+/**
+ * Provision Service - compte de provisions des clients
+ * Provisions reçues, imputations sur factures, restitutions et relevé du
+ * client sur le serveur JuristDZ
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export type ProvisionTransactionType = 'deposit' | 'drawdown' | 'refund';
+
+export interface ProvisionTransaction {
+  id: string;
+  clientId: string;
+  caseId?: string;
+  caseNumber?: string;
+  transactionType: ProvisionTransactionType;
+  amount: number;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  paymentMethod?: string;
+  reference?: string;
+  description?: string;
+  transactionDate: string;
+  createdAt: string;
+}
+
+export interface ProvisionBalance {
+  /** null : provision générale du client */
+  caseId: string | null;
+  caseNumber?: string;
+  deposits: number;
+  drawdowns: number;
+  refunds: number;
+  balance: number;
+}
+
+export interface ProvisionStatement {
+  client: { id: string; name: string; address?: string };
+  caseId?: string;
+  caseNumber?: string;
+  openingBalance: number;
+  lines: Array<{ transaction: ProvisionTransaction; credit: number; debit: number; balance: number }>;
+  totalCredits: number;
+  totalDebits: number;
+  closingBalance: number;
+  balances: ProvisionBalance[];
+  reconciled: boolean;
+  generatedAt: string;
+}
+
+export interface RecordProvisionInput {
+  clientId: string;
+  caseId?: string;
+  amount: number;
+  invoiceId?: string;
+  paymentMethod?: string;
+  reference?: string;
+  description?: string;
+  transactionDate?: string;
+}
+
+export interface StatementFilters {
+  caseId?: string;
+  /** AAAA-MM-JJ */
+  from?: string;
+  to?: string;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class ProvisionService {
+  private async fetchApi(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    const token = getApiToken();
+    return fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchApi(endpoint, options);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  private statementQuery(filters: StatementFilters): string {
+    const params = new URLSearchParams();
+    if (filters.caseId) params.set('caseId', filters.caseId);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    const query = params.toString();
+    return query ? `?${query}` : '';
+  }
+
+  async getBalances(clientId: string): Promise<{ balances: ProvisionBalance[]; available: number }> {
+    const { data } = await this.request<{ data: { balances: ProvisionBalance[]; available: number } }>(
+      `/billing/provisions/clients/${encodeURIComponent(clientId)}`
+    );
+    return data;
+  }
+
+  async getStatement(clientId: string, filters: StatementFilters = {}): Promise<ProvisionStatement> {
+    const { data } = await this.request<{ data: ProvisionStatement }>(
+      `/billing/provisions/clients/${encodeURIComponent(clientId)}/statement${this.statementQuery(filters)}`
+    );
+    return data;
+  }
+
+  /**
+   * Relevé PDF, à afficher ou télécharger
+   */
+  async getStatementPdf(clientId: string, filters: StatementFilters = {}): Promise<Blob> {
+    const response = await this.fetchApi(
+      `/billing/provisions/clients/${encodeURIComponent(clientId)}/statement/pdf${this.statementQuery(filters)}`
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  async recordDeposit(input: RecordProvisionInput): Promise<ProvisionTransaction> {
+    return this.record('deposits', input);
+  }
+
+  /**
+   * Règle une facture sur la provision ; refusé au-delà de la provision disponible
+   */
+  async drawDown(input: RecordProvisionInput & { invoiceId: string }): Promise<ProvisionTransaction> {
+    return this.record('drawdowns', input);
+  }
+
+  async recordRefund(input: RecordProvisionInput): Promise<ProvisionTransaction> {
+    return this.record('refunds', input);
+  }
+
+  private async record(operation: 'deposits' | 'drawdowns' | 'refunds', input: RecordProvisionInput): Promise<ProvisionTransaction> {
+    const { data } = await this.request<{ data: ProvisionTransaction }>(`/billing/provisions/${operation}`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    return data;
+  }
+}
+
+export const provisionService = new ProvisionService();
@@ -0,0 +1,206 @@
+/**
+ * Running Timer Service - chronomètre des temps passés
+ * Chronomètre gardé sur le serveur JuristDZ (repris d'un appareil à l'autre),
+ * inactivité à garder ou retirer, temps suggérés par l'agenda
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export type ActivityType =
+  | 'research' | 'drafting' | 'review' | 'meeting' | 'call' | 'hearing'
+  | 'travel' | 'correspondence' | 'filing' | 'negotiation' | 'other';
+
+export type TimerState = 'running' | 'paused';
+
+export type IdleDecision = 'keep' | 'discard';
+
+export interface RunningTimer {
+  userId: string;
+  caseId?: string;
+  description: string;
+  activityType: ActivityType;
+  isBillable: boolean;
+  hourlyRate?: number;
+  startedAt: string;
+  state: TimerState;
+  accumulatedSeconds: number;
+  lastActivityAt: string;
+  idleThresholdMinutes: number;
+  /** Temps écoulé au moment de la réponse du serveur */
+  elapsedSeconds: number;
+  /** Présente quand une inactivité attend d'être gardée ou retirée */
+  idleSince?: string;
+}
+
+export interface StartTimerInput {
+  caseId?: string;
+  description: string;
+  activityType?: ActivityType;
+  isBillable?: boolean;
+  hourlyRate?: number;
+  idleThresholdMinutes?: number;
+}
+
+export interface TimeEntry {
+  id: string;
+  caseId: string;
+  startTime: string;
+  endTime?: string;
+  durationMinutes: number;
+  activityType: ActivityType;
+  description: string;
+  isBillable: boolean;
+  hourlyRate?: number;
+  totalAmount?: number;
+  status: 'draft' | 'submitted' | 'approved' | 'billed';
+  calendarEventId?: string;
+  caseNumber?: string;
+  caseTitle?: string;
+}
+
+export interface TimeEntrySuggestion {
+  calendarEventId: string;
+  caseId?: string;
+  title: string;
+  eventType: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  activityType: ActivityType;
+  description: string;
+  location?: string;
+}
+
+export interface AcceptSuggestionInput {
+  caseId?: string;
+  description?: string;
+  activityType?: ActivityType;
+  durationMinutes?: number;
+  isBillable?: boolean;
+  hourlyRate?: number;
+}
+
+export interface LawyerCase {
+  id: string;
+  caseNumber: string;
+  title: string;
+  status: string;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class RunningTimerService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  private async timerAction(action: string, payload?: object): Promise<RunningTimer> {
+    const { data } = await this.request<{ data: RunningTimer }>(`/time/timer/${action}`, {
+      method: 'POST',
+      body: JSON.stringify(payload ?? {}),
+    });
+    return data;
+  }
+
+  /**
+   * Chronomètre en cours, quel que soit l'appareil qui l'a démarré
+   */
+  async getTimer(): Promise<RunningTimer | null> {
+    const { data } = await this.request<{ data: RunningTimer | null }>('/time/timer');
+    return data;
+  }
+
+  async start(input: StartTimerInput): Promise<RunningTimer> {
+    return this.timerAction('start', input);
+  }
+
+  async pause(): Promise<RunningTimer> {
+    return this.timerAction('pause');
+  }
+
+  async resume(): Promise<RunningTimer> {
+    return this.timerAction('resume');
+  }
+
+  /**
+   * Signale une activité de l'avocat ; la réponse indique une éventuelle
+   * inactivité en attente
+   */
+  async heartbeat(): Promise<RunningTimer> {
+    return this.timerAction('heartbeat');
+  }
+
+  async resolveIdle(decision: IdleDecision): Promise<RunningTimer> {
+    return this.timerAction('idle', { decision });
+  }
+
+  /**
+   * Arrête le chronomètre et enregistre le temps passé sur le dossier
+   */
+  async stop(caseId?: string): Promise<TimeEntry> {
+    const { data } = await this.request<{ data: TimeEntry }>('/time/timer/stop', {
+      method: 'POST',
+      body: JSON.stringify(caseId ? { caseId } : {}),
+    });
+    return data;
+  }
+
+  async discard(): Promise<void> {
+    await this.request('/time/timer', { method: 'DELETE' });
+  }
+
+  async getRecentEntries(limit = 10): Promise<TimeEntry[]> {
+    const { data } = await this.request<{ data: TimeEntry[] }>(`/time/entries?limit=${limit}`);
+    return data;
+  }
+
+  /**
+   * Audiences et rendez-vous terminés d'une journée (AAAA-MM-JJ) à enregistrer
+   */
+  async getSuggestions(day: string): Promise<TimeEntrySuggestion[]> {
+    const { data } = await this.request<{ data: TimeEntrySuggestion[] }>(`/time/suggestions?date=${encodeURIComponent(day)}`);
+    return data;
+  }
+
+  async acceptSuggestion(calendarEventId: string, input: AcceptSuggestionInput = {}): Promise<TimeEntry> {
+    const { data } = await this.request<{ data: TimeEntry }>(
+      `/time/suggestions/${encodeURIComponent(calendarEventId)}/accept`,
+      { method: 'POST', body: JSON.stringify(input) }
+    );
+    return data;
+  }
+
+  async dismissSuggestion(calendarEventId: string): Promise<void> {
+    await this.request(`/time/suggestions/${encodeURIComponent(calendarEventId)}/dismiss`, { method: 'POST' });
+  }
+
+  /**
+   * Dossiers de l'avocat, pour rattacher les temps
+   */
+  async getCases(): Promise<LawyerCase[]> {
+    const { data } = await this.request<{ data: LawyerCase[] }>('/cases/my?limit=100');
+    return data;
+  }
+}
+
+export const runningTimerService = new RunningTimerService();
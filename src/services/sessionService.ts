@@ -0,0 +1,81 @@
+/**
+ * Session Service - « Mes appareils »
+ * Sessions actives du compte sur le serveur JuristDZ, et déconnexion forcée
+ * par un administrateur
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export interface ActiveSession {
+  id: string;
+  /** Ex. « Chrome sur Windows » */
+  device: string;
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  ipAddress?: string;
+  createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string;
+  /** Session de ce navigateur */
+  current: boolean;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class SessionService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.error || body.message || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  async listSessions(): Promise<ActiveSession[]> {
+    const { sessions } = await this.request<{ sessions: ActiveSession[] }>('/auth/sessions');
+    return sessions;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.request(`/auth/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Déconnecte tous les appareils sauf celui-ci
+   */
+  async revokeOtherSessions(): Promise<number> {
+    const { revoked } = await this.request<{ revoked: number }>('/auth/sessions/revoke-others', { method: 'POST' });
+    return revoked;
+  }
+
+  // --------------------------------------------------------------------------
+  // ADMINISTRATION
+  // --------------------------------------------------------------------------
+
+  async revokeAllUserSessions(userId: string, reason?: string): Promise<number> {
+    const { data } = await this.request<{ data: { revoked: number } }>(
+      `/admin/users/${encodeURIComponent(userId)}/sessions/revoke`,
+      { method: 'POST', body: JSON.stringify(reason ? { reason } : {}) }
+    );
+    return data.revoked;
+  }
+}
+
+export const sessionService = new SessionService();
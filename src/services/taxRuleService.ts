@@ -0,0 +1,115 @@
+/**
+ * Tax Rule Service - règles fiscales versionnées
+ * TVA, timbre fiscal, retenue à la source... par profession, avec leur
+ * historique ; programmation des nouveaux taux de loi de finances sur le
+ * serveur JuristDZ
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export type TaxProfession = 'avocat' | 'notaire' | 'huissier' | 'commissaire_priseur' | 'expert_judiciaire';
+
+export type TaxType = 'vat' | 'professional_tax' | 'stamp_duty' | 'registration_tax' | 'withholding_tax';
+
+export interface TaxRule {
+  id: string;
+  profession: TaxProfession;
+  taxType: TaxType;
+  /** Fraction (0.19) pour un taux, montant en DA sinon */
+  rate: number;
+  isPercentage: boolean;
+  minimumAmount?: number;
+  maximumAmount?: number;
+  exemptionThreshold?: number;
+  applicableFrom: string;
+  /** Exclu : date d'entrée en vigueur de la version suivante */
+  applicableTo?: string;
+  isActive: boolean;
+  legalReference: string;
+  createdAt?: string;
+}
+
+export interface ScheduleTaxRateInput {
+  profession: TaxProfession;
+  taxType: TaxType;
+  rate: number;
+  isPercentage: boolean;
+  minimumAmount?: number;
+  maximumAmount?: number;
+  exemptionThreshold?: number;
+  /** AAAA-MM-JJ, postérieure à aujourd'hui */
+  applicableFrom: string;
+  legalReference: string;
+}
+
+export interface AppliedTax {
+  taxConfigurationId: string;
+  taxType: TaxType;
+  rate: number;
+  isPercentage: boolean;
+  baseAmount: number;
+  amount: number;
+  legalReference: string;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class TaxRuleService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  /**
+   * Toutes les versions, la plus récente d'abord pour chaque taxe
+   */
+  async getRules(profession?: TaxProfession): Promise<TaxRule[]> {
+    const query = profession ? `?profession=${encodeURIComponent(profession)}` : '';
+    const { data } = await this.request<{ data: TaxRule[] }>(`/billing/tax-rules${query}`);
+    return data;
+  }
+
+  /**
+   * Programme un nouveau taux ; la version en vigueur prend fin à sa date
+   */
+  async scheduleRate(input: ScheduleTaxRateInput): Promise<TaxRule> {
+    const { data } = await this.request<{ data: TaxRule }>('/billing/tax-rules', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    return data;
+  }
+
+  /**
+   * Annule un taux programmé, tant qu'il n'est pas entré en vigueur
+   */
+  async cancelScheduledRate(id: string): Promise<void> {
+    await this.request(`/billing/tax-rules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async getInvoiceTaxes(invoiceId: string): Promise<AppliedTax[]> {
+    const { data } = await this.request<{ data: AppliedTax[] }>(`/billing/invoices/${encodeURIComponent(invoiceId)}/taxes`);
+    return data;
+  }
+}
+
+export const taxRuleService = new TaxRuleService();
@@ -0,0 +1,188 @@
+/**
+ * Time Billing Service - « Facturer les temps »
+ * Transforme les temps non facturés d'un client ou d'un dossier en factures
+ * brouillons sur le serveur JuristDZ (barème, frais et provision compris),
+ * puis suit ces factures jusqu'au paiement
+ */
+
+import { API_BASE_URL, getApiToken } from '../../services/apiService';
+
+// ============================================================================
+// TYPES ET INTERFACES
+// ============================================================================
+
+export type InvoiceLineType = 'time' | 'fee_adjustment' | 'expense' | 'provision';
+
+export interface InvoiceLine {
+  id?: string;
+  position: number;
+  lineType: InvoiceLineType;
+  activityType?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  isTaxable: boolean;
+}
+
+export interface BillTimeRequest {
+  clientId?: string;
+  caseId?: string;
+  /** AAAA-MM-JJ, bornes incluses */
+  periodFrom: string;
+  periodTo: string;
+  includeExpenses?: boolean;
+  provisionAmount?: number;
+  paymentTerms?: number;
+  notes?: string;
+}
+
+export interface TimeInvoiceDraft {
+  caseId: string;
+  caseNumber: string;
+  clientId: string;
+  lines: InvoiceLine[];
+  timeEntryIds: string[];
+  expenseIds: string[];
+  scaleMinimum: number;
+  feesSubtotal: number;
+  expensesTotal: number;
+  provisionAmount: number;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  warnings: string[];
+  /** Présente une fois le brouillon créé */
+  invoice?: { id: string; invoiceNumber: string; totalAmount: number };
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'viewed' | 'accepted' | 'disputed' | 'cancelled' | 'paid';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overdue' | 'refunded';
+
+export type PaymentMethod =
+  | 'cash' | 'check' | 'ccp_transfer' | 'baridimob' | 'bank_transfer'
+  | 'credit_card' | 'mobile_payment' | 'other';
+
+export interface BillingInvoice {
+  id: string;
+  invoiceNumber: string;
+  caseId: string;
+  caseNumber: string;
+  caseTitle: string;
+  clientId: string;
+  clientName: string;
+  clientEmail?: string;
+  issueDate: string;
+  dueDate: string;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  remainingAmount: number;
+  status: InvoiceStatus;
+  paymentStatus: PaymentStatus;
+  notes?: string;
+  lines: InvoiceLine[];
+  createdAt: string;
+}
+
+export interface RecordPaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  /** Numéro de chèque, référence du virement ou de la transaction BaridiMob */
+  reference?: string;
+}
+
+export interface BillableCase {
+  id: string;
+  caseNumber: string;
+  title: string;
+  clientId: string;
+  client?: { firstName?: string; lastName?: string; companyName?: string };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class TimeBillingService {
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = getApiToken();
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.success === false) {
+      throw new Error(body.message || body.error || `HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+
+  /**
+   * Factures qui seraient créées, sans rien enregistrer
+   */
+  async preview(request: BillTimeRequest): Promise<TimeInvoiceDraft[]> {
+    const { data } = await this.request<{ data: TimeInvoiceDraft[] }>('/billing/time/preview', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    return data;
+  }
+
+  /**
+   * Crée les factures brouillons ; les temps et frais repris sont marqués facturés
+   */
+  async createDrafts(request: BillTimeRequest): Promise<TimeInvoiceDraft[]> {
+    const { data } = await this.request<{ data: TimeInvoiceDraft[] }>('/billing/time/invoices', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    return data;
+  }
+
+  /**
+   * Supprime un brouillon : ses temps et frais redeviennent facturables
+   */
+  async deleteDraft(invoiceId: string): Promise<void> {
+    await this.request(`/billing/invoices/${encodeURIComponent(invoiceId)}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Factures de l'avocat, les plus récentes d'abord
+   */
+  async listInvoices(): Promise<BillingInvoice[]> {
+    const { data } = await this.request<{ data: BillingInvoice[] }>('/billing/invoices');
+    return data;
+  }
+
+  async markSent(invoiceId: string): Promise<void> {
+    await this.request(`/billing/invoices/${encodeURIComponent(invoiceId)}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'sent' }),
+    });
+  }
+
+  async recordPayment(invoiceId: string, input: RecordPaymentInput): Promise<void> {
+    await this.request(`/billing/invoices/${encodeURIComponent(invoiceId)}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  /**
+   * Dossiers de l'avocat avec leur client, ceux dont les temps sont facturés
+   */
+  async getCases(): Promise<BillableCase[]> {
+    const { data } = await this.request<{ data: BillableCase[] }>('/cases/my');
+    return data;
+  }
+}
+
+export const timeBillingService = new TimeBillingService();
@@ -294,46 +294,6 @@ class TimeTrackingService {
     link.click();
     document.body.removeChild(link);
   }
-
-  /**
-   * Get unbilled time entries for a case
-   */
-  async getUnbilledTimeEntries(userId: string, caseId: string): Promise<TimeEntry[]> {
-    try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('case_id', caseId)
-        .eq('is_billable', true)
-        .is('invoice_id', null) // Not yet invoiced
-        .order('start_time', { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    } catch (error) {
-      console.error('Error fetching unbilled time entries:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Mark time entries as billed
-   */
-  async markAsBilled(entryIds: string[], invoiceId: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('time_entries')
-        .update({ invoice_id: invoiceId })
-        .in('id', entryIds);
-
-      if (error) throw error;
-      return true;
-    } catch (error) {
-      console.error('Error marking entries as billed:', error);
-      return false;
-    }
-  }
 }
 
 export const timeTrackingService = new TimeTrackingService();
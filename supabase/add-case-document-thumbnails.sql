@@ -0,0 +1,8 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- VIGNETTES DES DOCUMENTS DU DOSSIER
+-- Vignette JPEG rendue par le serveur à l'upload (première page des PDF,
+-- image réduite) et rangée dans le bucket à côté du fichier
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.case_documents
+  ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;